@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { estimateRequestCost } from '../costEstimate';
+import { selectModel } from '../modelRouter';
+import { getModelCosts } from '../../utils/supabaseAdmin';
+
+describe('estimateRequestCost', () => {
+  it('prices the routed model with its maxOutputTokens as output', () => {
+    const body = { title: 'x'.repeat(400) };
+    const selection = selectModel({ task: 'generate-ideas', hasVision: false, hasAudio: false, userTier: 'free' });
+    const estimate = estimateRequestCost('generate-ideas', body)!;
+
+    expect(estimate.model).toBe(selection.modelId);
+    expect(estimate.outputTokens).toBe(selection.maxOutputTokens);
+    expect(estimate.inputTokens).toBe(Math.ceil(JSON.stringify(body).length / 4) + 1500);
+    expect(estimate.totalTokens).toBe(estimate.inputTokens + estimate.outputTokens);
+
+    const costs = getModelCosts(selection.modelId);
+    expect(estimate.cost).toBeCloseTo(
+      (estimate.inputTokens * costs.input + estimate.outputTokens * costs.output) / 1_000_000
+    );
+  });
+
+  it('counts inline images at a fixed size instead of their data URL length', () => {
+    const image = `data:image/png;base64,${'A'.repeat(200_000)}`;
+    const withImage = estimateRequestCost('analyze-image', { imageUrl: image })!;
+    const withoutImage = estimateRequestCost('analyze-image', { imageUrl: '' })!;
+    expect(withImage.inputTokens - withoutImage.inputTokens).toBe(1000);
+  });
+
+  it('prices embeddings without output tokens', () => {
+    const estimate = estimateRequestCost('embed-ideas', { ideas: [{ content: 'a' }] })!;
+    expect(estimate.model).toBe('text-embedding-3-small');
+    expect(estimate.outputTokens).toBe(0);
+  });
+
+  it('returns null for actions that do not call a model', () => {
+    expect(estimateRequestCost('budget-status', {})).toBeNull();
+    expect(estimateRequestCost('unknown', {})).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  withModelFailover,
+  failoverCandidates,
+  getModelHealth,
+  isProviderFailure,
+  _resetModelHealthForTesting,
+  CIRCUIT_FAILURE_THRESHOLD,
+  CIRCUIT_COOLDOWN_MS,
+} from '../failover';
+import type { ModelSelection } from '../modelRouter';
+
+const TEXT = { hasVision: false, hasAudio: false };
+
+function makeSelection(overrides: Partial<ModelSelection> = {}): ModelSelection {
+  return {
+    provider: 'openai',
+    modelId: 'gpt-4o',
+    gatewayModelId: 'openai/gpt-4o',
+    temperature: 0.7,
+    maxOutputTokens: 1000,
+    fallbackModels: ['minimax/minimax-m2', 'anthropic/claude-sonnet-4'],
+    ...overrides,
+  };
+}
+
+function apiError(statusCode: number): Error {
+  return Object.assign(new Error(`HTTP ${statusCode}`), { statusCode });
+}
+
+describe('failoverCandidates', () => {
+  it('lists the primary model followed by its fallbacks', () => {
+    expect(failoverCandidates(makeSelection(), TEXT)).toEqual([
+      'openai/gpt-4o',
+      'minimax/minimax-m2',
+      'anthropic/claude-sonnet-4',
+    ]);
+  });
+
+  it('skips providers without image support for vision requests', () => {
+    expect(failoverCandidates(makeSelection(), { hasVision: true, hasAudio: false })).toEqual([
+      'openai/gpt-4o',
+      'anthropic/claude-sonnet-4',
+    ]);
+  });
+
+  it('never falls back for audio requests', () => {
+    const selection = makeSelection({ gatewayModelId: 'openai/whisper-1' });
+    expect(failoverCandidates(selection, { hasVision: false, hasAudio: true })).toEqual(['openai/whisper-1']);
+  });
+});
+
+describe('isProviderFailure', () => {
+  it('treats rate limits, timeouts, server and network errors as provider failures', () => {
+    expect(isProviderFailure(apiError(429))).toBe(true);
+    expect(isProviderFailure(apiError(503))).toBe(true);
+    expect(isProviderFailure(apiError(408))).toBe(true);
+    expect(isProviderFailure(new Error('fetch failed'))).toBe(true);
+    expect(isProviderFailure({ lastError: apiError(502) })).toBe(true);
+  });
+
+  it('does not retry client errors or cancelled requests', () => {
+    const abort = new Error('aborted');
+    abort.name = 'AbortError';
+    expect(isProviderFailure(apiError(400))).toBe(false);
+    expect(isProviderFailure(apiError(401))).toBe(false);
+    expect(isProviderFailure(abort)).toBe(false);
+  });
+});
+
+describe('withModelFailover', () => {
+  beforeEach(() => {
+    _resetModelHealthForTesting();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('returns the primary model result when it succeeds', async () => {
+    const attempt = vi.fn().mockResolvedValue('ok');
+    const outcome = await withModelFailover(makeSelection(), TEXT, attempt);
+
+    expect(outcome).toEqual({ result: 'ok', gatewayModelId: 'openai/gpt-4o', modelId: 'gpt-4o', failedModels: [] });
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries on the next fallback after a 429 and reports the model that answered', async () => {
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(apiError(429))
+      .mockResolvedValueOnce('from fallback');
+
+    const outcome = await withModelFailover(makeSelection(), TEXT, attempt);
+
+    expect(attempt.mock.calls.map(([model]) => model)).toEqual(['openai/gpt-4o', 'minimax/minimax-m2']);
+    expect(outcome.result).toBe('from fallback');
+    expect(outcome.gatewayModelId).toBe('minimax/minimax-m2');
+    expect(outcome.modelId).toBe('minimax-m2');
+    expect(outcome.failedModels).toEqual(['openai/gpt-4o']);
+  });
+
+  it('keeps the vision constraint when failing over', async () => {
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(apiError(503))
+      .mockResolvedValueOnce('seen');
+
+    const outcome = await withModelFailover(makeSelection(), { hasVision: true, hasAudio: false }, attempt);
+
+    expect(outcome.gatewayModelId).toBe('anthropic/claude-sonnet-4');
+  });
+
+  it('rethrows client errors without trying fallbacks', async () => {
+    const attempt = vi.fn().mockRejectedValue(apiError(400));
+
+    await expect(withModelFailover(makeSelection(), TEXT, attempt)).rejects.toThrow('HTTP 400');
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws the last error when every candidate fails', async () => {
+    const attempt = vi.fn()
+      .mockRejectedValueOnce(apiError(500))
+      .mockRejectedValueOnce(apiError(502))
+      .mockRejectedValueOnce(apiError(503));
+
+    await expect(withModelFailover(makeSelection(), TEXT, attempt)).rejects.toThrow('HTTP 503');
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops failing over once canRetry returns false', async () => {
+    const attempt = vi.fn().mockRejectedValue(apiError(503));
+
+    await expect(
+      withModelFailover(makeSelection(), TEXT, attempt, { canRetry: () => false }),
+    ).rejects.toThrow('HTTP 503');
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('opens the circuit after repeated failures and tries that model last', async () => {
+    let clock = 1_000;
+    const now = () => clock;
+    const primaryDown = (model: string) =>
+      model === 'openai/gpt-4o' ? Promise.reject(apiError(503)) : Promise.resolve(model);
+
+    for (let i = 0; i < CIRCUIT_FAILURE_THRESHOLD; i++) {
+      await withModelFailover(makeSelection(), TEXT, primaryDown, { now });
+    }
+    expect(getModelHealth(clock).find((entry) => entry.gatewayModelId === 'openai/gpt-4o')).toMatchObject({
+      state: 'open',
+      consecutiveFailures: CIRCUIT_FAILURE_THRESHOLD,
+      errorRate: 1,
+    });
+
+    const attempt = vi.fn(primaryDown);
+    const outcome = await withModelFailover(makeSelection(), TEXT, attempt, { now });
+    expect(attempt.mock.calls[0][0]).toBe('minimax/minimax-m2');
+    expect(outcome.failedModels).toEqual([]);
+
+    // After the cool-down one trial request goes back to the primary
+    clock += CIRCUIT_COOLDOWN_MS;
+    const recovered = vi.fn().mockResolvedValue('back');
+    const trial = await withModelFailover(makeSelection(), TEXT, recovered, { now });
+    expect(trial.gatewayModelId).toBe('openai/gpt-4o');
+    expect(getModelHealth(clock).find((entry) => entry.gatewayModelId === 'openai/gpt-4o')?.state).toBe('closed');
+  });
+
+  it('still attempts a request when every circuit is open', async () => {
+    const now = () => 0;
+    const selection = makeSelection({ fallbackModels: [] });
+    for (let i = 0; i < CIRCUIT_FAILURE_THRESHOLD; i++) {
+      await withModelFailover(selection, TEXT, () => Promise.reject(apiError(503)), { now }).catch(() => {});
+    }
+
+    const outcome = await withModelFailover(selection, TEXT, async () => 'ok', { now });
+    expect(outcome.gatewayModelId).toBe('openai/gpt-4o');
+  });
+});
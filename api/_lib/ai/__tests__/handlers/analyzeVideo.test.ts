@@ -99,6 +99,7 @@ describe('handleAnalyzeVideo', () => {
         summary: expect.any(String),
         suggestedIdeas: expect.any(Array),
       }),
+      model: 'openai/gpt-4o',
     });
   });
 
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before importing handler
+vi.mock('ai', () => ({
+  generateText: vi.fn(),
+}));
+
+vi.mock('../../providers.js', () => ({
+  getModel: vi.fn(() => 'mock-model-instance'),
+}));
+
+vi.mock('../../modelProfiles.js', () => ({
+  getActiveProfile: vi.fn(() => Promise.resolve({
+    id: 'test-profile',
+    name: 'test',
+    display_name: 'Test',
+    is_active: true,
+    task_configs: {},
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  })),
+}));
+
+vi.mock('../../modelRouter.js', () => ({
+  selectModel: vi.fn(() => ({
+    provider: 'openai',
+    modelId: 'gpt-4o',
+    gatewayModelId: 'openai/gpt-4o',
+    maxOutputTokens: 4096,
+    temperature: 0.3,
+    fallbackModels: [],
+  })),
+  getProviderOptions: vi.fn(() => undefined),
+}));
+
+vi.mock('../../../services/subscriptionService.js', () => ({
+  checkLimit: vi.fn(() => Promise.resolve({
+    canUse: true,
+    current: 1,
+    limit: 10,
+    percentageUsed: 10,
+    isUnlimited: false,
+  })),
+  trackAIUsage: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('../../../utils/supabaseAdmin.js', () => ({
+  trackTokenUsage: vi.fn(() => Promise.resolve()),
+}));
+
+import { generateText } from 'ai';
+import { handleClusterIdeas, normalizeClusters, MAX_IDEAS_TO_CLUSTER } from '../../clusterIdeas.js';
+import { selectModel } from '../../modelRouter.js';
+import { checkLimit, trackAIUsage } from '../../../services/subscriptionService.js';
+import type { VercelResponse } from '@vercel/node';
+
+function createMockReq(body: Record<string, unknown> = {}) {
+  return {
+    body: {
+      projectName: 'Checkout revamp',
+      projectDescription: 'Reduce cart abandonment',
+      ideas: [
+        { id: 'idea-1', title: 'One-click checkout', description: 'Saved cards' },
+        { id: 'idea-2', title: 'Guest checkout', description: '' },
+        { id: 'idea-3', title: 'Abandoned cart emails', description: '' },
+      ],
+      ...body,
+    },
+    user: { id: 'user-123', email: 'test@test.com' },
+    headers: { authorization: 'Bearer test' },
+  } as any;
+}
+
+function createMockRes() {
+  const res: Partial<VercelResponse> & { _status: number; _json: unknown } = {
+    _status: 200,
+    _json: null,
+    status(code: number) {
+      res._status = code;
+      return res as VercelResponse;
+    },
+    json(data: unknown) {
+      res._json = data;
+      return res as VercelResponse;
+    },
+  };
+  return res;
+}
+
+describe('clusterIdeas handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (generateText as ReturnType<typeof vi.fn>).mockResolvedValue({
+      text: '```json\n' + JSON.stringify([
+        { name: 'Faster checkout', ideaIds: ['idea-1', 'idea-2'] },
+        { name: 'Win-back', ideaIds: ['idea-3'] },
+      ]) + '\n```',
+      usage: { inputTokens: 100, outputTokens: 50, totalTokens: 150 },
+    });
+  });
+
+  it('returns named clusters of the requested ideas', async () => {
+    const res = createMockRes();
+
+    await handleClusterIdeas(createMockReq(), res as unknown as VercelResponse);
+
+    expect(res._status).toBe(200);
+    expect(res._json).toEqual({
+      clusters: [
+        { name: 'Faster checkout', ideaIds: ['idea-1', 'idea-2'] },
+        { name: 'Win-back', ideaIds: ['idea-3'] },
+      ],
+      model: 'openai/gpt-4o',
+    });
+    expect(selectModel).toHaveBeenCalledWith(expect.objectContaining({ task: 'cluster-ideas' }), expect.anything());
+    expect(trackAIUsage).toHaveBeenCalledWith('user-123', 'ai_insights');
+  });
+
+  it('puts the cluster limit and ideas in the prompt', async () => {
+    await handleClusterIdeas(createMockReq({ maxClusters: 3 }), createMockRes() as unknown as VercelResponse);
+
+    const call = (generateText as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.system).toContain('at most 3 themes');
+    expect(call.prompt).toContain('id: idea-1');
+    expect(call.prompt).toContain('details: Saved cards');
+  });
+
+  it('returns 400 for fewer than two or too many ideas', async () => {
+    for (const ideas of [
+      [{ id: 'idea-1', title: 'Only one' }],
+      Array.from({ length: MAX_IDEAS_TO_CLUSTER + 1 }, (_, i) => ({ id: `idea-${i}`, title: 'Idea' })),
+    ]) {
+      const res = createMockRes();
+      await handleClusterIdeas(createMockReq({ ideas }), res as unknown as VercelResponse);
+      expect(res._status).toBe(400);
+    }
+    expect(generateText).not.toHaveBeenCalled();
+  });
+
+  it('returns 402 when the insights quota is used up', async () => {
+    (checkLimit as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ canUse: false, current: 10, limit: 10 });
+    const res = createMockRes();
+
+    await handleClusterIdeas(createMockReq(), res as unknown as VercelResponse);
+
+    expect(res._status).toBe(402);
+    expect((res._json as any).error.resource).toBe('ai_insights');
+    expect(generateText).not.toHaveBeenCalled();
+  });
+});
+
+describe('normalizeClusters', () => {
+  it('keeps each idea in its first cluster and drops empty clusters', () => {
+    const clusters = normalizeClusters(
+      {
+        clusters: [
+          { name: ' Speed ', ideaIds: ['a', 'zzz'] },
+          { name: 'Dupes', ideaIds: ['a'] },
+          { name: '', ideaIds: ['b', 'b'] },
+          { name: 'Over the limit', ideaIds: ['c'] },
+        ],
+      },
+      ['a', 'b', 'c'],
+      2
+    );
+
+    expect(clusters).toEqual([
+      { name: 'Speed', ideaIds: ['a'] },
+      { name: 'Theme 2', ideaIds: ['b'] },
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before importing handler
+vi.mock('ai', () => ({
+  embedMany: vi.fn(),
+}));
+
+vi.mock('../../providers.js', () => ({
+  EMBEDDING_MODEL_ID: 'openai/text-embedding-3-small',
+  getEmbeddingModel: vi.fn(() => 'mock-embedding-model'),
+}));
+
+vi.mock('../../../utils/supabaseAdmin.js', () => ({
+  trackTokenUsage: vi.fn(() => Promise.resolve()),
+}));
+
+import { embedMany } from 'ai';
+import { handleEmbedIdeas, MAX_TEXTS_TO_EMBED } from '../../embedIdeas.js';
+import { trackTokenUsage } from '../../../utils/supabaseAdmin.js';
+import type { VercelResponse } from '@vercel/node';
+
+function createMockReq(body: Record<string, unknown> = {}) {
+  return {
+    body: { texts: ['Dark mode', 'Night theme'], projectId: 'project-1', ...body },
+    user: { id: 'user-123', email: 'test@test.com' },
+    headers: { authorization: 'Bearer test' },
+  } as any;
+}
+
+function createMockRes() {
+  const res: Partial<VercelResponse> & { _status: number; _json: unknown } = {
+    _status: 200,
+    _json: null,
+    status(code: number) {
+      res._status = code;
+      return res as VercelResponse;
+    },
+    json(data: unknown) {
+      res._json = data;
+      return res as VercelResponse;
+    },
+  };
+  return res;
+}
+
+describe('embedIdeas handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (embedMany as ReturnType<typeof vi.fn>).mockResolvedValue({
+      embeddings: [[0.1, 0.2], [0.1, 0.3]],
+      usage: { tokens: 6 },
+    });
+  });
+
+  it('returns one embedding per text and tracks token usage', async () => {
+    const res = createMockRes();
+
+    await handleEmbedIdeas(createMockReq(), res as unknown as VercelResponse);
+
+    expect(res._status).toBe(200);
+    expect(res._json).toEqual({ embeddings: [[0.1, 0.2], [0.1, 0.3]], model: 'openai/text-embedding-3-small' });
+    expect(embedMany).toHaveBeenCalledWith({ model: 'mock-embedding-model', values: ['Dark mode', 'Night theme'] });
+    expect(trackTokenUsage).toHaveBeenCalledWith(expect.objectContaining({
+      endpoint: 'embed-ideas',
+      model: 'text-embedding-3-small',
+      projectId: 'project-1',
+      usage: { prompt_tokens: 6, completion_tokens: 0, total_tokens: 6 },
+    }));
+  });
+
+  it('returns 400 for missing, blank or too many texts', async () => {
+    for (const texts of [[], ['ok', '  '], Array.from({ length: MAX_TEXTS_TO_EMBED + 1 }, () => 'idea')]) {
+      const res = createMockRes();
+      await handleEmbedIdeas(createMockReq({ texts }), res as unknown as VercelResponse);
+      expect(res._status).toBe(400);
+    }
+    expect(embedMany).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 without provider details when embedding fails', async () => {
+    (embedMany as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('gateway key invalid'));
+    const res = createMockRes();
+
+    await handleEmbedIdeas(createMockReq(), res as unknown as VercelResponse);
+
+    expect(res._status).toBe(500);
+    expect(res._json).toEqual({ error: 'Failed to embed ideas' });
+  });
+});
@@ -59,6 +59,7 @@ vi.mock('../../../utils/validation.js', () => ({
         projectType: body.projectType || 'software',
         count: body.count || 8,
         tolerance: body.tolerance || 50,
+        technique: body.technique,
       },
     })),
   },
@@ -236,6 +237,59 @@ describe('generateIdeas handler', () => {
     );
   });
 
+  it('fails over to the next fallback model and reports which model answered', async () => {
+    (selectModel as ReturnType<typeof vi.fn>).mockReturnValueOnce({
+      provider: 'openai',
+      modelId: 'gpt-4o',
+      gatewayModelId: 'openai/gpt-4o',
+      maxOutputTokens: 4096,
+      temperature: 0.8,
+      fallbackModels: ['anthropic/claude-sonnet-4'],
+    });
+    (generateText as ReturnType<typeof vi.fn>).mockRejectedValueOnce(
+      Object.assign(new Error('Rate limited'), { statusCode: 429 })
+    );
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const req = createMockReq();
+    const res = createMockRes();
+
+    await handleGenerateIdeas(req, res as unknown as VercelResponse);
+
+    expect(getModel).toHaveBeenNthCalledWith(1, 'openai/gpt-4o');
+    expect(getModel).toHaveBeenNthCalledWith(2, 'anthropic/claude-sonnet-4');
+    expect(res._status).toBe(200);
+    expect((res._json as any).model).toBe('anthropic/claude-sonnet-4');
+    expect(trackTokenUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'claude-sonnet-4', success: true })
+    );
+  });
+
+  it('returns starter prompts for a brainstorm technique', async () => {
+    (generateText as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      text: JSON.stringify([
+        { round: 'ideation', label: 'Substitute', text: 'What could replace the onboarding checklist?' },
+        { round: 'lunch', label: 'Break', text: 'Not a round' },
+        { round: 'grouping', label: '', text: 'Missing label' },
+      ]),
+      usage: { inputTokens: 100, outputTokens: 50, totalTokens: 150 },
+    });
+
+    const req = createMockReq({ technique: 'scamper', count: 4 });
+    const res = createMockRes();
+
+    await handleGenerateIdeas(req, res as unknown as VercelResponse);
+
+    expect(generateText).toHaveBeenCalledWith(
+      expect.objectContaining({ system: expect.stringContaining('SCAMPER') })
+    );
+    expect(res._status).toBe(200);
+    expect(res._json).toEqual({
+      prompts: [{ round: 'ideation', label: 'Substitute', text: 'What could replace the onboarding checklist?' }],
+      model: 'openai/gpt-4o',
+    });
+  });
+
   it('returns 400 on validation failure', async () => {
     const { InputValidator } = await import('../../../utils/validation.js');
     (InputValidator.validate as ReturnType<typeof vi.fn>).mockReturnValueOnce({
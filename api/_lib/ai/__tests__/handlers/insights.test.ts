@@ -177,6 +177,22 @@ describe('generateInsights handler', () => {
     );
   });
 
+  it('lists team-defined themes in the prompt', async () => {
+    const req = createMockReq({
+      ideas: [
+        { title: 'Idea 1', description: 'Desc 1', quadrant: 'quick-wins', theme: 'Onboarding' },
+        { title: 'Idea 2', description: 'Desc 2', quadrant: 'major-projects', theme: 'Onboarding' },
+        { title: 'Idea 3', description: 'Desc 3', quadrant: 'fill-ins' },
+      ],
+    });
+
+    await handleGenerateInsights(req, createMockRes() as unknown as VercelResponse);
+
+    const callArgs = (generateText as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(callArgs.prompt).toContain('"Idea 1" (quick-wins quadrant) {theme: Onboarding}');
+    expect(callArgs.prompt).toContain('- Onboarding: 2 ideas');
+  });
+
   it('falls back to Anthropic when OpenAI fails', async () => {
     // First call (OpenAI) fails, second call (Anthropic) succeeds
     (generateText as ReturnType<typeof vi.fn>)
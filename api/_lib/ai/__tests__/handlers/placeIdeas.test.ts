@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before importing handler
+vi.mock('ai', () => ({
+  generateText: vi.fn(),
+}));
+
+vi.mock('../../providers.js', () => ({
+  getModel: vi.fn(() => 'mock-model-instance'),
+}));
+
+vi.mock('../../modelProfiles.js', () => ({
+  getActiveProfile: vi.fn(() => Promise.resolve({
+    id: 'test-profile',
+    name: 'test',
+    display_name: 'Test',
+    is_active: true,
+    task_configs: {},
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  })),
+}));
+
+vi.mock('../../modelRouter.js', () => ({
+  selectModel: vi.fn(() => ({
+    provider: 'openai',
+    modelId: 'gpt-4o',
+    gatewayModelId: 'openai/gpt-4o',
+    maxOutputTokens: 4096,
+    temperature: 0.3,
+    fallbackModels: [],
+  })),
+  getProviderOptions: vi.fn(() => undefined),
+}));
+
+vi.mock('../../../services/subscriptionService.js', () => ({
+  checkLimit: vi.fn(() => Promise.resolve({
+    canUse: true,
+    current: 1,
+    limit: 10,
+    percentageUsed: 10,
+    isUnlimited: false,
+  })),
+  trackAIUsage: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('../../../utils/supabaseAdmin.js', () => ({
+  trackTokenUsage: vi.fn(() => Promise.resolve()),
+}));
+
+import { generateText } from 'ai';
+import { handlePlaceIdeas, normalizePlacements } from '../../placeIdeas.js';
+import { selectModel } from '../../modelRouter.js';
+import { checkLimit, trackAIUsage } from '../../../services/subscriptionService.js';
+import type { VercelResponse } from '@vercel/node';
+
+function createMockReq(body: Record<string, unknown> = {}) {
+  return {
+    body: {
+      projectName: 'Checkout revamp',
+      projectDescription: 'Reduce cart abandonment',
+      ideas: [
+        { id: 'idea-1', title: 'One-click checkout', description: 'Saved cards' },
+        { id: 'idea-2', title: 'Guest checkout', description: '' },
+      ],
+      board: [{ title: 'Faster page loads', xScore: 40, yScore: 70 }],
+      ...body,
+    },
+    user: { id: 'user-123', email: 'test@test.com' },
+    headers: { authorization: 'Bearer test' },
+  } as any;
+}
+
+function createMockRes() {
+  const res: Partial<VercelResponse> & { _status: number; _json: unknown } = {
+    _status: 200,
+    _json: null,
+    status(code: number) {
+      res._status = code;
+      return res as VercelResponse;
+    },
+    json(data: unknown) {
+      res._json = data;
+      return res as VercelResponse;
+    },
+  };
+  return res;
+}
+
+describe('placeIdeas handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (generateText as ReturnType<typeof vi.fn>).mockResolvedValue({
+      text: '```json\n' + JSON.stringify([
+        { id: 'idea-1', xScore: 70, yScore: 85, rationale: 'Big lift on conversion, needs payment work' },
+        { id: 'idea-2', xScore: '20', yScore: 140, rationale: 'Small change' },
+      ]) + '\n```',
+      usage: { inputTokens: 100, outputTokens: 50, totalTokens: 150 },
+    });
+  });
+
+  it('returns clamped placements for the requested ideas', async () => {
+    const res = createMockRes();
+
+    await handlePlaceIdeas(createMockReq(), res as unknown as VercelResponse);
+
+    expect(res._status).toBe(200);
+    expect(res._json).toEqual({
+      placements: [
+        { id: 'idea-1', xScore: 70, yScore: 85, rationale: 'Big lift on conversion, needs payment work' },
+        { id: 'idea-2', xScore: 20, yScore: 100, rationale: 'Small change' },
+      ],
+      model: 'openai/gpt-4o',
+    });
+    expect(selectModel).toHaveBeenCalledWith(expect.objectContaining({ task: 'place-ideas' }), expect.anything());
+    expect(trackAIUsage).toHaveBeenCalledWith('user-123', 'ai_ideas');
+  });
+
+  it('puts the axes and the existing board in the prompt', async () => {
+    await handlePlaceIdeas(
+      createMockReq({ xAxis: { label: 'Cost', low: 'Cheap', high: 'Expensive' } }),
+      createMockRes() as unknown as VercelResponse
+    );
+
+    const call = (generateText as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.system).toContain('xScore: Cost. 0 = Cheap, 100 = Expensive');
+    expect(call.system).toContain('yScore: Business Value');
+    expect(call.prompt).toContain('"Faster page loads": xScore 40, yScore 70');
+    expect(call.prompt).toContain('id: idea-1');
+  });
+
+  it('returns 400 without ideas', async () => {
+    const res = createMockRes();
+
+    await handlePlaceIdeas(createMockReq({ ideas: [] }), res as unknown as VercelResponse);
+
+    expect(res._status).toBe(400);
+    expect(generateText).not.toHaveBeenCalled();
+  });
+
+  it('returns 402 when the idea quota is used up', async () => {
+    (checkLimit as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ canUse: false, current: 10, limit: 10 });
+    const res = createMockRes();
+
+    await handlePlaceIdeas(createMockReq(), res as unknown as VercelResponse);
+
+    expect(res._status).toBe(402);
+    expect((res._json as any).error.code).toBe('quota_exceeded');
+    expect(generateText).not.toHaveBeenCalled();
+  });
+});
+
+describe('normalizePlacements', () => {
+  it('drops unknown ids, duplicates and entries without scores', () => {
+    const placements = normalizePlacements(
+      {
+        placements: [
+          { id: 'b', xScore: 10, yScore: 20, rationale: 'first' },
+          { id: 'b', xScore: 90, yScore: 90, rationale: 'duplicate' },
+          { id: 'zzz', xScore: 50, yScore: 50 },
+          { id: 'a', xScore: 'high', yScore: 50 },
+        ],
+      },
+      ['a', 'b']
+    );
+
+    expect(placements).toEqual([{ id: 'b', xScore: 10, yScore: 20, rationale: 'first' }]);
+  });
+});
@@ -49,7 +49,7 @@ vi.mock('../../../utils/supabaseAdmin.js', () => ({
 }));
 
 import { generateText } from 'ai';
-import { handleGenerateRoadmap } from '../../generateRoadmap.js';
+import { handleGenerateRoadmap, sanitizeRoadmapChanges } from '../../generateRoadmap.js';
 import { selectModel } from '../../modelRouter.js';
 import { getModel } from '../../providers.js';
 import type { VercelResponse } from '@vercel/node';
@@ -254,4 +254,128 @@ describe('generateRoadmap handler', () => {
     const callArgs = (generateText as ReturnType<typeof vi.fn>).mock.calls[0][0];
     expect(callArgs.system).toContain('Marketing');
   });
+
+  it('groups ideas by team-defined theme for epics', async () => {
+    const req = createMockReq({
+      ideas: [
+        { title: 'Idea 1', description: 'Build core feature', theme: 'Core' },
+        { title: 'Idea 2', description: 'Add analytics' },
+        { title: 'Idea 3', description: 'Onboarding flow', theme: 'Core' },
+      ],
+    });
+
+    await handleGenerateRoadmap(req, createMockRes() as unknown as VercelResponse);
+
+    const callArgs = (generateText as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(callArgs.prompt).toContain('TEAM-DEFINED THEMES');
+    expect(callArgs.prompt).toContain('- Core: Idea 1; Idea 3');
+  });
+
+  it('regenerates a single phase when asked', async () => {
+    const phase = MOCK_ROADMAP_RESPONSE.roadmapAnalysis.phases[0];
+    (generateText as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      text: JSON.stringify({ ...phase, phase: 'Revised Foundation' }),
+      usage: { inputTokens: 400, outputTokens: 600, totalTokens: 1000 },
+    });
+    const req = createMockReq({
+      regeneratePhase: { phase, otherPhases: ['Launch'], instructions: 'Add a pilot with two customers' },
+    });
+    const res = createMockRes();
+
+    await handleGenerateRoadmap(req, res as unknown as VercelResponse);
+
+    expect(res._status).toBe(200);
+    expect((res._json as any).phase.phase).toBe('Revised Foundation');
+    const callArgs = (generateText as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(callArgs.system).toContain('ONE phase of an existing roadmap');
+    expect(callArgs.prompt).toContain('Other phases in this roadmap: Launch');
+    expect(callArgs.prompt).toContain('REQUESTED CHANGES: Add a pilot with two customers');
+  });
+
+  it('returns 500 when the regenerated phase is malformed', async () => {
+    (generateText as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      text: JSON.stringify({ note: 'no phase here' }),
+      usage: { inputTokens: 400, outputTokens: 10, totalTokens: 410 },
+    });
+    const req = createMockReq({ regeneratePhase: { phase: MOCK_ROADMAP_RESPONSE.roadmapAnalysis.phases[0] } });
+    const res = createMockRes();
+
+    await handleGenerateRoadmap(req, res as unknown as VercelResponse);
+
+    expect(res._status).toBe(500);
+  });
+
+  it('proposes epic changes for a refresh and drops changes to locked epics', async () => {
+    const roadmap = structuredClone(MOCK_ROADMAP_RESPONSE) as any;
+    roadmap.roadmapAnalysis.phases[0].epics.push({ ...roadmap.roadmapAnalysis.phases[0].epics[0], title: 'Pinned epic', locked: true });
+    (generateText as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      text: JSON.stringify({
+        changes: [
+          { action: 'update', phaseIndex: 0, epicIndex: 0, epic: { title: 'Backend Setup v2', priority: 'HIGH' }, reason: 'Idea 1 changed' },
+          { action: 'remove', phaseIndex: 0, epicIndex: 1, reason: 'Tried to remove a locked epic' },
+          { action: 'add', phaseIndex: 0, epic: { title: 'Analytics', relatedIdeas: ['Idea 2'] }, reason: 'New idea' },
+        ],
+      }),
+      usage: { inputTokens: 500, outputTokens: 300, totalTokens: 800 },
+    });
+    const req = createMockReq({
+      refresh: { roadmap, changedIdeas: [{ title: 'Idea 2', description: 'Add analytics' }], removedIdeas: ['Old idea'] },
+    });
+    const res = createMockRes();
+
+    await handleGenerateRoadmap(req, res as unknown as VercelResponse);
+
+    expect(res._status).toBe(200);
+    const { changes } = res._json as any;
+    expect(changes.map((change: any) => change.action)).toEqual(['update', 'add']);
+    expect(changes[0]).toMatchObject({ id: 'change-0', epicIndex: 0, epic: { title: 'Backend Setup v2', priority: 'high', complexity: 'medium' } });
+
+    const callArgs = (generateText as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(callArgs.system).toContain('Never update or remove an epic marked LOCKED');
+    expect(callArgs.prompt).toContain('[0.1] LOCKED Pinned epic');
+    expect(callArgs.prompt).toContain('- Idea 2: Add analytics');
+    expect(callArgs.prompt).toContain('- Old idea');
+  });
+
+  it('returns 400 when the roadmap to refresh is missing', async () => {
+    const req = createMockReq({ refresh: { changedIdeas: [] } });
+    const res = createMockRes();
+
+    await handleGenerateRoadmap(req, res as unknown as VercelResponse);
+
+    expect(res._status).toBe(400);
+    expect(generateText).not.toHaveBeenCalled();
+  });
+});
+
+describe('sanitizeRoadmapChanges', () => {
+  const phases = [{ phase: 'One', epics: [{ title: 'A' }, { title: 'B' }] }];
+
+  it('drops unknown actions, missing indexes and epics without a title', () => {
+    const changes = sanitizeRoadmapChanges({
+      changes: [
+        { action: 'rename', phaseIndex: 0, epicIndex: 0 },
+        { action: 'update', phaseIndex: 3, epicIndex: 0, epic: { title: 'X' } },
+        { action: 'remove', phaseIndex: 0, epicIndex: 5 },
+        { action: 'add', phaseIndex: 0, epic: { description: 'no title' } },
+        { action: 'remove', phaseIndex: 0, epicIndex: 1 },
+      ],
+    }, phases);
+    expect(changes).toEqual([{ id: 'change-0', action: 'remove', phaseIndex: 0, epicIndex: 1, reason: '' }]);
+  });
+
+  it('keeps one change per epic', () => {
+    const changes = sanitizeRoadmapChanges({
+      changes: [
+        { action: 'update', phaseIndex: 0, epicIndex: 0, epic: { title: 'A2' } },
+        { action: 'remove', phaseIndex: 0, epicIndex: 0 },
+      ],
+    }, phases);
+    expect(changes).toHaveLength(1);
+  });
+
+  it('returns no changes for a malformed response', () => {
+    expect(sanitizeRoadmapChanges(null, phases)).toEqual([]);
+    expect(sanitizeRoadmapChanges({ changes: 'none' }, phases)).toEqual([]);
+  });
 });
@@ -91,6 +91,9 @@ describe('selectModel', () => {
       'generate-ideas',
       'generate-insights',
       'generate-roadmap',
+      'place-ideas',
+      'cluster-ideas',
+      'project-chat',
       'analyze-file',
       'analyze-image',
       'transcribe-audio',
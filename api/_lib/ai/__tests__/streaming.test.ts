@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('ai', () => ({
+  streamText: vi.fn(),
+}));
+
+import { streamText } from 'ai';
+import type { VercelResponse } from '@vercel/node';
+import {
+  parseCompletedArrayItems,
+  parseCompletedFields,
+  openEventStream,
+  streamGeneratedText,
+  createItemEmitter,
+} from '../utils/streaming';
+
+function createStreamResponse() {
+  const written: string[] = [];
+  const listeners: Record<string, () => void> = {};
+  const res = {
+    writableEnded: false,
+    status: vi.fn().mockReturnThis(),
+    setHeader: vi.fn(),
+    flushHeaders: vi.fn(),
+    write: vi.fn((chunk: string) => { written.push(chunk); }),
+    end: vi.fn(() => {
+      res.writableEnded = true;
+      listeners.close?.();
+    }),
+    on: vi.fn((event: string, cb: () => void) => { listeners[event] = cb; }),
+  };
+  return { res, written, disconnect: () => listeners.close?.() };
+}
+
+describe('parseCompletedArrayItems', () => {
+  it('returns only the elements whose closing separator has arrived', () => {
+    const partial = '```json\n[{"title": "A, with comma"}, {"title": "B [draft]"}, {"title": "C';
+    expect(parseCompletedArrayItems(partial)).toEqual([{ title: 'A, with comma' }, { title: 'B [draft]' }]);
+  });
+
+  it('reads a nested array by key', () => {
+    const partial = '{"roadmapAnalysis": {"totalDuration": "8 weeks", "phases": [{"phase": "One", "epics": [{"title": "E"}]}, {"phase": "Tw';
+    expect(parseCompletedArrayItems(partial, 'phases')).toEqual([{ phase: 'One', epics: [{ title: 'E' }] }]);
+  });
+});
+
+describe('parseCompletedFields', () => {
+  it('returns complete top-level fields of a partial object', () => {
+    const partial = '{"executiveSummary": "Focus \\"here\\"", "keyInsights": [{"insight": "x"}], "nextSteps": ["a", "b';
+    expect(parseCompletedFields(partial)).toEqual({
+      executiveSummary: 'Focus "here"',
+      keyInsights: [{ insight: 'x' }],
+    });
+  });
+});
+
+describe('event stream', () => {
+  it('sends each completed item once while the model writes', async () => {
+    const chunks = ['[{"title": "A"}', ', {"title"', ': "B"}', ']'];
+    vi.mocked(streamText).mockReturnValue({
+      textStream: (async function* () { yield* chunks; })(),
+      usage: Promise.resolve({ inputTokens: 1, outputTokens: 2, totalTokens: 3 }),
+    } as unknown as ReturnType<typeof streamText>);
+
+    const { res, written } = createStreamResponse();
+    const stream = openEventStream(res as unknown as VercelResponse);
+    const result = await streamGeneratedText(
+      stream,
+      { model: 'mock-model' as never, prompt: 'p' },
+      createItemEmitter(stream, 'idea', (text) => parseCompletedArrayItems(text)),
+    );
+    stream.send('done', { ideas: [] });
+    stream.close();
+
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream; charset=utf-8');
+    expect(result.text).toBe(chunks.join(''));
+    expect(written).toEqual([
+      'event: idea\ndata: {"title":"A"}\n\n',
+      'event: idea\ndata: {"title":"B"}\n\n',
+      'event: done\ndata: {"ideas":[]}\n\n',
+    ]);
+    expect(res.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts the model call and stops writing when the client disconnects', () => {
+    const { res, disconnect } = createStreamResponse();
+    const stream = openEventStream(res as unknown as VercelResponse);
+
+    disconnect();
+    stream.send('idea', { title: 'late' });
+
+    expect(stream.signal.aborted).toBe(true);
+    expect(res.write).not.toHaveBeenCalled();
+  });
+
+  it('aborts when the response closes mid-stream, but not when it ends normally', async () => {
+    const { res, written, disconnect } = createStreamResponse();
+    const stream = openEventStream(res as unknown as VercelResponse);
+    vi.mocked(streamText).mockReturnValue({
+      textStream: (async function* () {
+        yield '[{"title": "A"}, ';
+        disconnect();
+        yield '{"title": "B"}]';
+      })(),
+      usage: Promise.resolve({ inputTokens: 1, outputTokens: 2, totalTokens: 3 }),
+    } as unknown as ReturnType<typeof streamText>);
+
+    await streamGeneratedText(
+      stream,
+      { model: 'mock-model' as never, prompt: 'p' },
+      createItemEmitter(stream, 'idea', (text) => parseCompletedArrayItems(text)),
+    );
+
+    expect(vi.mocked(streamText).mock.calls.at(-1)?.[0].abortSignal?.aborted).toBe(true);
+    expect(written).toEqual(['event: idea\ndata: {"title":"A"}\n\n']);
+
+    const finished = createStreamResponse();
+    const done = openEventStream(finished.res as unknown as VercelResponse);
+    done.close();
+    expect(done.signal.aborted).toBe(false);
+  });
+});
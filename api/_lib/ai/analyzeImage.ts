@@ -13,7 +13,8 @@ import { generateObject } from 'ai';
 import { z } from 'zod';
 import type { VercelResponse } from '@vercel/node';
 import type { AuthenticatedRequest } from '../middleware/index.js';
-import { selectModel, getProviderOptions } from './modelRouter.js';
+import { selectModel, type TaskRoutingContext } from './modelRouter.js';
+import { withModelFailover } from './failover.js';
 import { getModel } from './providers.js';
 import { getActiveProfile } from './modelProfiles.js';
 
@@ -65,13 +66,13 @@ export async function handleAnalyzeImage(req: AuthenticatedRequest, res: VercelR
       return res.status(400).json({ error: 'Image URL is required' });
     }
 
-    const analysis = await analyzeImageWithVision(
+    const { analysis, gatewayModelId } = await analyzeImageWithVision(
       imageUrl,
       projectContext,
       analysisType,
     );
 
-    return res.status(200).json({ analysis });
+    return res.status(200).json({ analysis, model: gatewayModelId });
 
   } catch (error) {
     console.error('Image analysis error:', error);
@@ -95,20 +96,19 @@ async function analyzeImageWithVision(
 
   // Profile-aware model routing (ADR-0013 Step 3)
   const profile = await getActiveProfile();
-  const selection = selectModel({
+  const routing: TaskRoutingContext = {
     task: 'analyze-image',
     hasVision: true,
     hasAudio: false,
     userTier: 'free', // NOTE: userTier hardcoded to 'free' — per-tier routing deferred (ADR-0013 anti-goal)
-  }, profile);
-
-  const model = getModel(selection.gatewayModelId);
-  const providerOptions = getProviderOptions(selection.fallbackModels);
+  };
+  const selection = selectModel(routing, profile);
 
   // Structured output: forces the model to return the exact fields the UI
   // normalizer expects, eliminating the need for ad-hoc text parsing.
-  const { object } = await generateObject({
-    model,
+  // Fallbacks keep the vision constraint: failoverCandidates never picks MiniMax
+  const { result: { object }, gatewayModelId } = await withModelFailover(selection, routing, (candidate) => generateObject({
+    model: getModel(candidate),
     schema: imageAnalysisSchema,
     messages: [{
       role: 'user',
@@ -119,12 +119,11 @@ async function analyzeImageWithVision(
     }],
     maxOutputTokens: selection.maxOutputTokens,
     temperature: selection.temperature,
-    ...(providerOptions ? { providerOptions } : {}),
-  });
+  }));
 
   console.log('AI SDK vision response received (structured)');
 
-  return {
+  const analysis = {
     type: analysisType,
     ...object,
     // Back-compat fields for any older consumers that read these
@@ -132,6 +131,7 @@ async function analyzeImageWithVision(
     relevance:
       object.relevanceScore >= 70 ? 'high' : object.relevanceScore >= 40 ? 'medium' : 'low',
   };
+  return { analysis, gatewayModelId };
 }
 
 function getImageAnalysisPrompt(analysisType: string, projectContext: any): string {
@@ -13,7 +13,8 @@ import { generateObject } from 'ai';
 import { z } from 'zod';
 import type { VercelResponse } from '@vercel/node';
 import type { AuthenticatedRequest } from '../middleware/index.js';
-import { selectModel, getProviderOptions } from './modelRouter.js';
+import { selectModel, type TaskRoutingContext } from './modelRouter.js';
+import { withModelFailover } from './failover.js';
 import { getModel } from './providers.js';
 import { getActiveProfile } from './modelProfiles.js';
 
@@ -62,21 +63,20 @@ export async function handleAnalyzeVideo(
 
     // Profile-aware model routing (ADR-0013 Step 3)
     const profile = await getActiveProfile();
-    const selection = selectModel({
+    const routing: TaskRoutingContext = {
       task: 'analyze-video',
       hasVision: true,
       hasAudio: false,
       userTier: 'free',
-    }, profile);
-    const model = getModel(selection.gatewayModelId);
-    const providerOptions = getProviderOptions(selection.fallbackModels);
+    };
+    const selection = selectModel(routing, profile);
 
     const prompt = buildVideoPrompt(frames.length, projectContext);
 
     // CRITICAL (research #1): single generateObject call with N image
     // content parts — NOT N separate calls.
-    const { object } = await generateObject({
-      model,
+    const { result: { object }, gatewayModelId } = await withModelFailover(selection, routing, (candidate) => generateObject({
+      model: getModel(candidate),
       schema: VideoAnalysisSchema,
       messages: [
         {
@@ -92,10 +92,9 @@ export async function handleAnalyzeVideo(
       ],
       maxOutputTokens: selection.maxOutputTokens,
       temperature: selection.temperature,
-      ...(providerOptions ? { providerOptions } : {}),
-    });
+    }));
 
-    return res.status(200).json({ analysis: object });
+    return res.status(200).json({ analysis: object, model: gatewayModelId });
   } catch (error) {
     console.error('Video analysis error:', error);
     return res.status(500).json({ error: 'Failed to analyze video' });
@@ -0,0 +1,196 @@
+/**
+ * Cluster Ideas handler -- AI "auto-cluster" for the matrix.
+ *
+ * Groups a project's ideas into a handful of named themes. Nothing is saved
+ * here: the client turns the result into clusters, lets the user rename and
+ * adjust them, and stores them in project settings, where insights and
+ * roadmap generation pick them up.
+ */
+
+import { generateText } from 'ai';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthenticatedRequest } from '../middleware/index.js';
+import { checkLimit, trackAIUsage } from '../services/subscriptionService.js';
+import { trackTokenUsage } from '../utils/supabaseAdmin.js';
+import { selectModel, type TaskRoutingContext } from './modelRouter.js';
+import { withModelFailover } from './failover.js';
+import { getModel } from './providers.js';
+import { getActiveProfile } from './modelProfiles.js';
+import { parseJsonResponse } from './utils/parsing.js';
+import { mapUsageToTracking } from './utils/tokenTracking.js';
+
+/** Most ideas clustered in one request */
+export const MAX_IDEAS_TO_CLUSTER = 150;
+const DEFAULT_MAX_CLUSTERS = 6;
+const MAX_CLUSTERS = 12;
+const MAX_CLUSTER_NAME_LENGTH = 60;
+
+interface IdeaInput {
+  id: string;
+  title: string;
+  description: string;
+}
+
+export interface IdeaClusterResult {
+  name: string;
+  ideaIds: string[];
+}
+
+function text(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+/**
+ * Keep well-formed clusters over the requested ideas. Unknown ids are
+ * dropped, an idea listed twice stays in its first cluster, and clusters
+ * left without ideas are removed. Ideas the AI left out stay unclustered.
+ */
+export function normalizeClusters(raw: unknown, ideaIds: string[], maxClusters: number): IdeaClusterResult[] {
+  const list = Array.isArray(raw)
+    ? raw
+    : Array.isArray((raw as { clusters?: unknown })?.clusters)
+      ? (raw as { clusters: unknown[] }).clusters
+      : [];
+
+  const known = new Set(ideaIds);
+  const assigned = new Set<string>();
+  const clusters: IdeaClusterResult[] = [];
+
+  for (const entry of list) {
+    const item = (entry ?? {}) as Record<string, unknown>;
+    const ids: string[] = [];
+    for (const value of Array.isArray(item.ideaIds) ? item.ideaIds : []) {
+      const id = typeof value === 'string' ? value : String(value ?? '');
+      if (!known.has(id) || assigned.has(id)) continue;
+      assigned.add(id);
+      ids.push(id);
+    }
+    if (ids.length === 0) continue;
+    clusters.push({
+      name: text(item.name, MAX_CLUSTER_NAME_LENGTH) || `Theme ${clusters.length + 1}`,
+      ideaIds: ids,
+    });
+    if (clusters.length === maxClusters) break;
+  }
+
+  return clusters;
+}
+
+/**
+ * Handles the cluster-ideas action.
+ *
+ * Body: { projectName, projectDescription?, projectType?, maxClusters?,
+ * ideas: [{ id, title, description }] }.
+ * Returns { clusters: [{ name, ideaIds }] }.
+ */
+export async function handleClusterIdeas(req: AuthenticatedRequest, res: VercelResponse) {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const projectName = text(body.projectName, 200);
+
+  if (!projectName || !Array.isArray(body.ideas) || body.ideas.length < 2) {
+    return res.status(400).json({ error: 'Project name and at least two ideas are required' });
+  }
+  if (body.ideas.length > MAX_IDEAS_TO_CLUSTER) {
+    return res.status(400).json({ error: `At most ${MAX_IDEAS_TO_CLUSTER} ideas can be clustered at once` });
+  }
+
+  const ideas: IdeaInput[] = (body.ideas as unknown[]).map((idea) => {
+    const item = (idea ?? {}) as Record<string, unknown>;
+    return { id: text(item.id, 100), title: text(item.title, 200), description: text(item.description, 500) };
+  });
+  if (ideas.some((idea) => !idea.id || !idea.title)) {
+    return res.status(400).json({ error: 'Every idea needs an id and a title' });
+  }
+
+  const requestedClusters = Number(body.maxClusters);
+  const maxClusters = Number.isInteger(requestedClusters)
+    ? Math.max(2, Math.min(MAX_CLUSTERS, requestedClusters))
+    : DEFAULT_MAX_CLUSTERS;
+  const projectDescription = text(body.projectDescription, 2000);
+  const projectType = text(body.projectType, 50) || 'other';
+
+  try {
+    // Quota enforcement before AI processing; clustering counts as insights
+    const userId = req.user!.id;
+    const limitCheck = await checkLimit(userId, 'ai_insights');
+
+    if (!limitCheck.canUse) {
+      return res.status(402).json({
+        error: {
+          code: 'quota_exceeded',
+          resource: 'ai_insights',
+          limit: limitCheck.limit,
+          used: limitCheck.current,
+          upgradeUrl: '/pricing',
+        },
+      });
+    }
+
+    const profile = await getActiveProfile();
+    const routing: TaskRoutingContext = {
+      task: 'cluster-ideas',
+      hasVision: false,
+      hasAudio: false,
+      userTier: 'free',
+    };
+    const selection = selectModel(routing, profile);
+
+    const systemPrompt = `You are a product strategist grouping brainstormed ideas into themes.
+
+Group the ideas into at most ${maxClusters} themes. Each theme collects ideas that address the same goal, user need or area of the product, so the team can plan them together. Name each theme in 2-4 words, specific to this project (not "Miscellaneous" or "Other"). Every idea belongs to exactly one theme; an idea that fits no theme may be left out.
+
+RESPONSE FORMAT:
+Return only a JSON array, using the ids given:
+[
+  { "name": "Theme name", "ideaIds": ["idea id", "idea id"] }
+]`;
+
+    const userPrompt = `PROJECT: ${projectName}
+Type: ${projectType}
+Description: ${projectDescription || 'No description provided'}
+
+IDEAS:
+${ideas.map((idea) => `- id: ${idea.id}\n  title: ${idea.title}${idea.description ? `\n  details: ${idea.description}` : ''}`).join('\n')}`;
+
+    const startTime = Date.now();
+    const { result: { text: responseText, usage }, gatewayModelId, modelId } = await withModelFailover(selection, routing, (candidate) => generateText({
+      model: getModel(candidate),
+      system: systemPrompt,
+      prompt: userPrompt,
+      temperature: selection.temperature,
+      maxOutputTokens: selection.maxOutputTokens,
+    }));
+    const responseTimeMs = Date.now() - startTime;
+
+    let clusters: IdeaClusterResult[];
+    try {
+      clusters = normalizeClusters(parseJsonResponse(responseText), ideas.map((idea) => idea.id), maxClusters);
+    } catch (_parseError) {
+      console.error('Failed to parse AI cluster response as JSON');
+      clusters = [];
+    }
+
+    await trackTokenUsage({
+      userId,
+      projectId: typeof body.projectId === 'string' ? body.projectId : null,
+      endpoint: 'cluster-ideas',
+      model: modelId,
+      usage: mapUsageToTracking(usage),
+      responseTimeMs,
+      success: true,
+      profileName: profile.name,
+    });
+
+    try {
+      await trackAIUsage(userId, 'ai_insights');
+    } catch (_trackingError) {
+      console.error('Failed to track AI usage (non-critical):', _trackingError);
+    }
+
+    return res.status(200).json({ clusters, model: gatewayModelId });
+  } catch (error) {
+    console.error('Error clustering ideas:', error);
+    // T-02-06: Do not expose raw AI SDK error details
+    return res.status(500).json({ error: 'Failed to cluster ideas' });
+  }
+}
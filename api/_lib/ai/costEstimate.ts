@@ -0,0 +1,87 @@
+/**
+ * Pre-flight cost estimate for an AI request, checked against the project's
+ * and user's budgets in api/ai.ts before the handler runs.
+ *
+ * The estimate leans high: input is the request body at ~4 characters per
+ * token plus the system prompt the handlers add, and output is the routed
+ * model's maxOutputTokens. Inline images count a fixed amount each. Files
+ * analysed by id are read server-side, so only the prompt and output count
+ * for analyze-file.
+ */
+
+import { selectModel, type TaskRoutingContext } from './modelRouter.js';
+import type { ModelProfile } from './modelProfiles.js';
+import { EMBEDDING_MODEL_ID } from './providers.js';
+import { getModelCosts } from '../utils/supabaseAdmin.js';
+import type { CostEstimate } from '../services/budgetService.js';
+
+const CHARS_PER_TOKEN = 4;
+/** System prompt and persona text the handlers add around the request */
+const PROMPT_OVERHEAD_TOKENS = 1500;
+/** Typical input tokens for one image at the providers' default detail */
+const IMAGE_TOKENS = 1000;
+
+type ActionRouting = Omit<TaskRoutingContext, 'userTier'>;
+
+// The task each /api/ai action is routed as; transcription is billed for
+// its summary, since whisper is priced per minute rather than per token
+const ACTION_ROUTING: Record<string, ActionRouting> = {
+  'generate-ideas': { task: 'generate-ideas', hasVision: false, hasAudio: false },
+  'generate-insights': { task: 'generate-insights', hasVision: false, hasAudio: false },
+  'generate-roadmap': { task: 'generate-roadmap', hasVision: false, hasAudio: false },
+  'generate-roadmap-v2': { task: 'generate-roadmap', hasVision: false, hasAudio: false },
+  'place-ideas': { task: 'place-ideas', hasVision: false, hasAudio: false },
+  'cluster-ideas': { task: 'cluster-ideas', hasVision: false, hasAudio: false },
+  'project-chat': { task: 'project-chat', hasVision: false, hasAudio: false },
+  'analyze-file': { task: 'analyze-file', hasVision: true, hasAudio: false },
+  'analyze-image': { task: 'analyze-image', hasVision: true, hasAudio: false },
+  'analyze-video': { task: 'analyze-video', hasVision: true, hasAudio: false },
+  'transcribe-audio': { task: 'transcribe-summary', hasVision: false, hasAudio: false },
+};
+
+function estimateInputTokens(body: unknown): number {
+  let images = 0;
+  const text = JSON.stringify(body ?? {}, (_key, value) => {
+    if (typeof value === 'string' && value.startsWith('data:')) {
+      images++;
+      return '';
+    }
+    return value;
+  });
+  return Math.ceil(text.length / CHARS_PER_TOKEN) + images * IMAGE_TOKENS;
+}
+
+function priced(model: string, inputTokens: number, outputTokens: number): CostEstimate {
+  const modelId = model.split('/').pop() ?? model;
+  const costs = getModelCosts(modelId);
+  return {
+    model: modelId,
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    cost: (inputTokens / 1_000_000) * costs.input + (outputTokens / 1_000_000) * costs.output,
+  };
+}
+
+/**
+ * Estimates the cost of one /api/ai request.
+ * @param action - The /api/ai action
+ * @param body - Request body as sent by the client
+ * @param profile - Active model profile, as the handler will route with it
+ * @returns The estimate, or null for actions that do not call a model
+ */
+export function estimateRequestCost(action: string, body: unknown, profile?: ModelProfile | null): CostEstimate | null {
+  if (action === 'embed-ideas') {
+    return priced(EMBEDDING_MODEL_ID, estimateInputTokens(body), 0);
+  }
+
+  const routing = ACTION_ROUTING[action];
+  if (!routing) return null;
+
+  const selection = selectModel({ ...routing, userTier: 'free' }, profile);
+  return priced(
+    selection.gatewayModelId,
+    estimateInputTokens(body) + PROMPT_OVERHEAD_TOKENS,
+    selection.maxOutputTokens,
+  );
+}
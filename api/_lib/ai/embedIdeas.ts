@@ -0,0 +1,67 @@
+/**
+ * Embed Ideas handler -- vectors for idea similarity.
+ *
+ * Returns one embedding per text so the client can compare ideas by cosine
+ * similarity (duplicate detection). Comparison and grouping happen on the
+ * client, which falls back to lexical similarity when this call fails or the
+ * browser is offline. Embeddings are cheap, so they are tracked for cost but
+ * not counted against the AI idea quota.
+ */
+
+import { embedMany } from 'ai';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthenticatedRequest } from '../middleware/index.js';
+import { trackTokenUsage } from '../utils/supabaseAdmin.js';
+import { EMBEDDING_MODEL_ID, getEmbeddingModel } from './providers.js';
+
+/** Most texts embedded in one request */
+export const MAX_TEXTS_TO_EMBED = 100;
+const MAX_TEXT_LENGTH = 2000;
+
+/**
+ * Handles the embed-ideas action.
+ *
+ * Body: { texts: string[], projectId? }.
+ * Returns { embeddings: number[][], model }, in the order of `texts`.
+ */
+export async function handleEmbedIdeas(req: AuthenticatedRequest, res: VercelResponse) {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+
+  if (!Array.isArray(body.texts) || body.texts.length === 0) {
+    return res.status(400).json({ error: 'texts array is required' });
+  }
+  if (body.texts.length > MAX_TEXTS_TO_EMBED) {
+    return res.status(400).json({ error: `At most ${MAX_TEXTS_TO_EMBED} texts can be embedded at once` });
+  }
+  if (body.texts.some((text) => typeof text !== 'string' || !text.trim())) {
+    return res.status(400).json({ error: 'Every text must be a non-empty string' });
+  }
+
+  const texts = (body.texts as string[]).map((text) => text.trim().slice(0, MAX_TEXT_LENGTH));
+
+  try {
+    const startTime = Date.now();
+    const { embeddings, usage } = await embedMany({
+      model: getEmbeddingModel(),
+      values: texts,
+    });
+    const responseTimeMs = Date.now() - startTime;
+
+    const tokens = usage?.tokens ?? 0;
+    await trackTokenUsage({
+      userId: req.user!.id,
+      projectId: typeof body.projectId === 'string' ? body.projectId : null,
+      endpoint: 'embed-ideas',
+      model: EMBEDDING_MODEL_ID.split('/').pop() ?? EMBEDDING_MODEL_ID,
+      usage: { prompt_tokens: tokens, completion_tokens: 0, total_tokens: tokens },
+      responseTimeMs,
+      success: true,
+    });
+
+    return res.status(200).json({ embeddings, model: EMBEDDING_MODEL_ID });
+  } catch (error) {
+    console.error('Error embedding ideas:', error);
+    // T-02-06: Do not expose raw AI SDK error details
+    return res.status(500).json({ error: 'Failed to embed ideas' });
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { checkOutput, diversity } from '../checks.js';
+import type { EvalCase } from '../corpus.js';
+
+const ideasCase: EvalCase = {
+  id: 'ideas',
+  task: 'generate-ideas',
+  description: '',
+  body: { title: 'T', description: 'D', count: 2 },
+};
+
+const roadmapCase: EvalCase = {
+  id: 'roadmap',
+  task: 'generate-roadmap',
+  description: '',
+  body: { projectName: 'P', ideas: [{ title: 'Sample data' }, { title: 'Checklist' }] },
+};
+
+const idea = (title: string, effort = 'low', impact = 'high') => ({ title, description: `${title} details`, effort, impact });
+
+describe('diversity', () => {
+  it('is 1 for unrelated texts and 0 for identical ones', () => {
+    expect(diversity(['connect warehouse data', 'invite teammates later'])).toBe(1);
+    expect(diversity(['onboarding email', 'onboarding email'])).toBe(0);
+  });
+});
+
+describe('checkOutput', () => {
+  it('scores a well-formed ideas response', () => {
+    const ideas = [idea('Sample workspace'), idea('Connector checklist', 'medium', 'medium')];
+    const result = checkOutput(ideasCase, 200, { ideas }, [JSON.stringify(ideas)]);
+
+    expect(result.valid).toBe(true);
+    expect(result.metrics).toMatchObject({ jsonValid: 1, count: 1, spread: 1 });
+    expect(result.score).toBeGreaterThan(0.9);
+  });
+
+  it('fails ideas outside the effort/impact scale and scores them 0', () => {
+    const ideas = [idea('Sample workspace'), idea('Festival', 'high', 'moderate')];
+    const result = checkOutput(ideasCase, 200, { ideas }, [JSON.stringify(ideas)]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['idea 2 has an effort or impact outside low|medium|high']);
+    expect(result.score).toBe(0);
+  });
+
+  it('counts unparseable model output even when the handler recovered', () => {
+    const result = checkOutput(ideasCase, 200, { ideas: [] }, ['Here are some ideas: ...']);
+
+    expect(result.metrics.jsonValid).toBe(0);
+    expect(result.errors).toContain('no ideas were returned');
+  });
+
+  it('checks roadmap phases, epics and idea coverage', () => {
+    const epics = [{ title: 'Sample data' }, { title: 'Instrumentation' }];
+    const roadmap = {
+      roadmapAnalysis: {
+        phases: [
+          { phase: 'One', epics },
+          { phase: 'Two', epics },
+          { phase: 'Three', epics },
+        ],
+      },
+    };
+    const result = checkOutput(roadmapCase, 200, { roadmap }, [JSON.stringify(roadmap)]);
+
+    expect(result.valid).toBe(true);
+    expect(result.metrics).toMatchObject({ phases: 1, epics: 1, ideaCoverage: 0.5 });
+  });
+
+  it('fails a handler error', () => {
+    const result = checkOutput(roadmapCase, 500, { error: 'Failed' }, []);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toBe('handler answered 500');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+import { hashRequest, MissingRecordingError, ReplayGateway } from '../replayGateway.js';
+import type { ResponseCache } from '../corpus.js';
+
+const request = { model: 'openai/gpt-4o', system: 'sys', prompt: 'ideas please', temperature: 0.8, maxOutputTokens: 100 };
+
+const cacheFor = (promptHash: string): ResponseCache => ({
+  'case-1/openai/gpt-4o#0': { promptHash, text: '[]', usage: { totalTokens: 42 }, recordedAt: '2026-01-01T00:00:00.000Z' },
+});
+
+describe('ReplayGateway', () => {
+  it('replays the recording made for the same request', async () => {
+    const gateway = new ReplayGateway(cacheFor(hashRequest(request)));
+    gateway.beginCase('case-1');
+
+    await expect(gateway.generateText(request)).resolves.toEqual({ text: '[]', usage: { totalTokens: 42 } });
+    expect(gateway.takeCalls().map((call) => call.status)).toEqual(['hit']);
+  });
+
+  it('replays but flags a recording made for a different prompt', async () => {
+    const gateway = new ReplayGateway(cacheFor(hashRequest({ ...request, prompt: 'older prompt' })));
+    gateway.beginCase('case-1');
+
+    await gateway.generateText(request);
+    expect(gateway.takeCalls()[0].status).toBe('stale');
+  });
+
+  it('fails a call with no recording', async () => {
+    const gateway = new ReplayGateway({});
+    gateway.beginCase('case-1');
+
+    await expect(gateway.generateText(request)).rejects.toBeInstanceOf(MissingRecordingError);
+    expect(gateway.takeCalls()[0]).toMatchObject({ key: 'case-1/openai/gpt-4o#0', status: 'missing' });
+  });
+
+  it('records stale and missing responses when recording', async () => {
+    const cache = cacheFor('outdated');
+    const record = vi.fn().mockResolvedValue({ text: '[{"title":"New"}]', usage: { totalTokens: 7 } });
+    const gateway = new ReplayGateway(cache, record);
+    gateway.beginCase('case-1');
+
+    await gateway.generateText(request);
+    await gateway.generateText(request);
+
+    expect(record).toHaveBeenCalledTimes(2);
+    expect(cache['case-1/openai/gpt-4o#0'].promptHash).toBe(hashRequest(request));
+    expect(cache['case-1/openai/gpt-4o#1'].text).toBe('[{"title":"New"}]');
+    expect(gateway.takeCalls().map((call) => call.status)).toEqual(['recorded', 'recorded']);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Offline AI eval: replays the corpus through generate-ideas,
+ * generate-insights and generate-roadmap for two model profiles and prints
+ * a comparison report.
+ *
+ *   npm run eval:ai
+ *
+ * Environment:
+ * - EVAL_BASELINE / EVAL_CANDIDATE  profile names from fixtures/profiles.json
+ *   (default balanced vs budget)
+ * - EVAL_RECORD=1   send prompts with no matching recording to the AI
+ *   Gateway (needs AI_GATEWAY_API_KEY) and save the responses
+ * - EVAL_REPORT=path   also write the report to a file
+ * - EVAL_STRICT=1   fail when the candidate regresses on any case
+ *
+ * To evaluate a prompt change, edit the prompt, record, and compare the
+ * report against the one from before the change. To evaluate a profile
+ * switch made in Model Profile settings, copy the profile's task configs
+ * into profiles.json and run it as the candidate.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { loadCases, loadProfile, loadResponses, saveResponses } from './corpus.js';
+import { compareRuns, formatReport } from './report.js';
+import { evalGateway, evalProfile, runEvalSuite } from './runner.js';
+import { ReplayGateway, type GatewayRequest, type GatewayResult } from './replayGateway.js';
+
+const RECORD = process.env.EVAL_RECORD === '1';
+const BASELINE = process.env.EVAL_BASELINE ?? 'balanced';
+const CANDIDATE = process.env.EVAL_CANDIDATE ?? 'budget';
+
+vi.mock('ai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('ai')>()),
+  generateText: (request: GatewayRequest) => evalGateway().generateText(request),
+}));
+
+// Replaying needs no gateway client; the model id alone keys the recording
+vi.mock('../providers.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../providers.js')>();
+  return {
+    ...actual,
+    getModel: (gatewayModelId: string) => (RECORD ? actual.getModel(gatewayModelId) : gatewayModelId),
+  };
+});
+
+vi.mock('../modelProfiles.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../modelProfiles.js')>()),
+  getActiveProfile: async () => evalProfile(),
+}));
+
+vi.mock('../../services/subscriptionService.js', () => ({
+  checkLimit: async () => ({ canUse: true, current: 0, limit: -1, percentageUsed: 0, isUnlimited: true }),
+  trackAIUsage: async () => undefined,
+}));
+
+vi.mock('../../utils/supabaseAdmin.js', () => ({
+  supabaseAdmin: {},
+  trackTokenUsage: async () => undefined,
+}));
+
+async function recordWithGateway(request: GatewayRequest): Promise<GatewayResult> {
+  const { generateText } = await vi.importActual<typeof import('ai')>('ai');
+  const { text, usage } = await generateText(request as Parameters<typeof generateText>[0]);
+  return {
+    text,
+    usage: { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, totalTokens: usage.totalTokens },
+  };
+}
+
+describe('AI eval', () => {
+  // The insights and roadmap handlers refuse to run without a provider key
+  const originalKey = process.env.OPENAI_API_KEY;
+  process.env.OPENAI_API_KEY = originalKey || 'eval-replay';
+  afterAll(() => {
+    process.env.OPENAI_API_KEY = originalKey;
+  });
+
+  it(`compares ${BASELINE} with ${CANDIDATE}`, async () => {
+    const cases = loadCases();
+    const cache = loadResponses();
+    const gateway = new ReplayGateway(cache, RECORD ? recordWithGateway : undefined);
+
+    const baseline = await runEvalSuite(loadProfile(BASELINE), cases, gateway);
+    const candidate = await runEvalSuite(loadProfile(CANDIDATE), cases, gateway);
+    if (RECORD) saveResponses(cache);
+
+    const report = compareRuns(baseline, candidate);
+    const markdown = formatReport(report);
+    console.log(`\n${markdown}\n`);
+    if (process.env.EVAL_REPORT) writeFileSync(process.env.EVAL_REPORT, `${markdown}\n`);
+
+    expect(report.baseline.missingCalls + report.candidate.missingCalls, 'cases without a recorded response').toBe(0);
+    if (process.env.EVAL_STRICT === '1') {
+      expect(report.regressions, 'cases where the candidate regressed').toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Output checks for eval runs.
+ *
+ * Schema checks mirror the client's InsightsValidator: the handler's
+ * response must have the structure the app reads, otherwise the case fails.
+ * Quality heuristics are scored 0-1 and averaged into the case score:
+ * - JSON validity of the raw model text (handlers hide parse failures)
+ * - idea count against the requested count, diversity of the ideas and
+ *   spread across effort/impact
+ * - phase and epic counts within the ranges the roadmap prompt asks for
+ * - how many of the project's ideas the insights or roadmap refer to
+ */
+
+import { parseJsonResponse } from '../utils/parsing.js';
+import type { EvalCase } from './corpus.js';
+
+export interface CheckResult {
+  /** Handler answered 200 and the body has the structure the app reads */
+  valid: boolean;
+  errors: string[];
+  /** Heuristic scores, each 0-1 */
+  metrics: Record<string, number>;
+  /** Mean of the metrics, or 0 when the output is not valid */
+  score: number;
+}
+
+const LEVELS = ['low', 'medium', 'high'];
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+function tokens(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter((token) => token.length > 2));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/** 1 minus the mean pairwise overlap of the texts; 1 when fewer than two */
+export function diversity(texts: string[]): number {
+  const sets = texts.map(tokens);
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < sets.length; i++) {
+    for (let j = i + 1; j < sets.length; j++) {
+      total += jaccard(sets[i], sets[j]);
+      pairs++;
+    }
+  }
+  return pairs === 0 ? 1 : 1 - total / pairs;
+}
+
+/** 1 inside [min, max], falling off linearly to 0 at zero or twice max */
+function withinRange(value: number, min: number, max: number): number {
+  if (value >= min && value <= max) return 1;
+  if (value < min) return Math.max(0, value / min);
+  return Math.max(0, 1 - (value - max) / max);
+}
+
+function jsonValidity(rawTexts: string[]): number {
+  if (rawTexts.length === 0) return 0;
+  let valid = 0;
+  for (const text of rawTexts) {
+    try {
+      parseJsonResponse(text);
+      valid++;
+    } catch {
+      // counted as invalid
+    }
+  }
+  return valid / rawTexts.length;
+}
+
+// Share of the case's idea titles that appear in the output text
+function ideaCoverage(evalCase: EvalCase, output: unknown): number {
+  const ideas = Array.isArray(evalCase.body.ideas) ? evalCase.body.ideas as Json[] : [];
+  const titles = ideas.map((idea) => String(idea.title ?? idea.content ?? '').toLowerCase()).filter(Boolean);
+  if (titles.length === 0) return 1;
+  const text = JSON.stringify(output).toLowerCase();
+  return titles.filter((title) => text.includes(title)).length / titles.length;
+}
+
+function checkIdeas(evalCase: EvalCase, body: Json, errors: string[]): Record<string, number> {
+  const ideas = Array.isArray(body.ideas) ? body.ideas : null;
+  if (!ideas) {
+    errors.push('response has no ideas array');
+    return {};
+  }
+  if (ideas.length === 0) errors.push('no ideas were returned');
+  ideas.forEach((idea, index) => {
+    if (!isObject(idea) || !nonEmptyString(idea.title) || !nonEmptyString(idea.description)) {
+      errors.push(`idea ${index + 1} is missing a title or description`);
+    } else if (!LEVELS.includes(String(idea.effort)) || !LEVELS.includes(String(idea.impact))) {
+      errors.push(`idea ${index + 1} has an effort or impact outside low|medium|high`);
+    }
+  });
+
+  const requested = Number(evalCase.body.count) || 8;
+  const wellFormed = ideas.filter(isObject);
+  const combos = new Set(wellFormed.map((idea) => `${idea.effort}/${idea.impact}`));
+  return {
+    count: ideas.length === requested ? 1 : Math.min(ideas.length, requested) / requested,
+    diversity: diversity(wellFormed.map((idea) => `${idea.title ?? ''} ${idea.description ?? ''}`)),
+    spread: wellFormed.length === 0 ? 0 : Math.min(1, combos.size / Math.min(wellFormed.length, 5)),
+  };
+}
+
+function checkInsights(evalCase: EvalCase, body: Json, errors: string[]): Record<string, number> {
+  const insights = body.insights;
+  if (!isObject(insights)) {
+    errors.push('response has no insights object');
+    return {};
+  }
+  if (!nonEmptyString(insights.executiveSummary)) errors.push('executiveSummary is missing');
+  const keyInsights = Array.isArray(insights.keyInsights) ? insights.keyInsights : [];
+  if (keyInsights.length === 0) errors.push('keyInsights is empty');
+  if (keyInsights.some((entry) => !isObject(entry) || !nonEmptyString(entry.insight))) {
+    errors.push('a key insight is missing its text');
+  }
+  const recommendations = isObject(insights.priorityRecommendations) ? insights.priorityRecommendations : null;
+  if (!recommendations || !Array.isArray(recommendations.immediate)) {
+    errors.push('priorityRecommendations.immediate is missing');
+  }
+
+  return {
+    keyInsights: withinRange(keyInsights.length, 3, 7),
+    recommendations: recommendations
+      ? ['immediate', 'shortTerm', 'longTerm'].filter((term) => Array.isArray(recommendations[term]) && (recommendations[term] as unknown[]).length > 0).length / 3
+      : 0,
+    ideaCoverage: ideaCoverage(evalCase, insights),
+  };
+}
+
+function checkRoadmap(evalCase: EvalCase, body: Json, errors: string[]): Record<string, number> {
+  const roadmap = body.roadmap;
+  const analysis = isObject(roadmap) && isObject(roadmap.roadmapAnalysis) ? roadmap.roadmapAnalysis : null;
+  const phases = analysis && Array.isArray(analysis.phases) ? analysis.phases : null;
+  if (!phases) {
+    errors.push('roadmap.roadmapAnalysis.phases is missing');
+    return {};
+  }
+  if (phases.length === 0) errors.push('the roadmap has no phases');
+  const epicCounts: number[] = [];
+  phases.forEach((phase, index) => {
+    if (!isObject(phase) || !nonEmptyString(phase.phase) || !Array.isArray(phase.epics)) {
+      errors.push(`phase ${index + 1} is missing its name or epics`);
+      return;
+    }
+    if (phase.epics.some((epic) => !isObject(epic) || !nonEmptyString(epic.title))) {
+      errors.push(`phase ${index + 1} has an epic without a title`);
+    }
+    epicCounts.push(phase.epics.length);
+  });
+
+  return {
+    phases: withinRange(phases.length, 3, 5),
+    epics: epicCounts.length === 0 ? 0 : epicCounts.reduce((sum, count) => sum + withinRange(count, 2, 4), 0) / epicCounts.length,
+    ideaCoverage: ideaCoverage(evalCase, roadmap),
+  };
+}
+
+/**
+ * Checks one handler response.
+ * @param evalCase - The case that was replayed
+ * @param status - HTTP status the handler answered with
+ * @param body - JSON body the handler sent
+ * @param rawTexts - Model output for each gateway call, before parsing
+ */
+export function checkOutput(evalCase: EvalCase, status: number, body: unknown, rawTexts: string[]): CheckResult {
+  const errors: string[] = [];
+  if (status !== 200) errors.push(`handler answered ${status}`);
+
+  let taskMetrics: Record<string, number> = {};
+  if (!isObject(body)) {
+    errors.push('response body is not an object');
+  } else if (evalCase.task === 'generate-ideas') {
+    taskMetrics = checkIdeas(evalCase, body, errors);
+  } else if (evalCase.task === 'generate-insights') {
+    taskMetrics = checkInsights(evalCase, body, errors);
+  } else {
+    taskMetrics = checkRoadmap(evalCase, body, errors);
+  }
+
+  const metrics = { jsonValid: jsonValidity(rawTexts), ...taskMetrics };
+  const values = Object.values(metrics);
+  const valid = errors.length === 0;
+  const score = valid ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  return { valid, errors, metrics, score: Math.round(score * 1000) / 1000 };
+}
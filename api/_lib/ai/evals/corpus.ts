@@ -0,0 +1,97 @@
+/**
+ * Eval corpus: recorded project inputs, the model profiles to compare and
+ * the cached model responses the offline replay serves.
+ *
+ * Everything lives as JSON under ./fixtures so a run needs no network or
+ * database:
+ * - cases.json      request bodies, one per handler invocation
+ * - profiles.json   model profiles (same shape as the model_profiles table)
+ * - responses.json  recorded gateway responses, see replayGateway.ts
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import type { ModelProfile, TaskConfig } from '../modelProfiles.js';
+
+/** Handlers the harness can replay */
+export type EvalTask = 'generate-ideas' | 'generate-insights' | 'generate-roadmap';
+
+export const EVAL_TASKS: readonly EvalTask[] = ['generate-ideas', 'generate-insights', 'generate-roadmap'];
+
+export interface EvalCase {
+  id: string;
+  task: EvalTask;
+  /** What the case covers, shown in the report */
+  description: string;
+  /** Request body passed to the handler as-is */
+  body: Record<string, unknown>;
+}
+
+/** A profile as stored in profiles.json: only the tasks the harness replays */
+export interface EvalProfile {
+  name: string;
+  display_name: string;
+  task_configs: Partial<Record<EvalTask, TaskConfig>>;
+}
+
+export interface RecordedResponse {
+  /** sha256 of the request the response was recorded for */
+  promptHash: string;
+  text: string;
+  usage?: { inputTokens?: number; outputTokens?: number; totalTokens?: number };
+  recordedAt: string;
+}
+
+/** Recorded responses keyed by `${caseId}/${gatewayModelId}#${callIndex}` */
+export type ResponseCache = Record<string, RecordedResponse>;
+
+const FIXTURES_DIR = fileURLToPath(new URL('./fixtures/', import.meta.url));
+
+function readFixture<T>(name: string): T {
+  return JSON.parse(readFileSync(`${FIXTURES_DIR}${name}`, 'utf8')) as T;
+}
+
+export function loadCases(): EvalCase[] {
+  const cases = readFixture<EvalCase[]>('cases.json');
+  for (const evalCase of cases) {
+    if (!EVAL_TASKS.includes(evalCase.task)) {
+      throw new Error(`Eval case ${evalCase.id} has unknown task "${evalCase.task}"`);
+    }
+  }
+  return cases;
+}
+
+export function loadProfiles(): EvalProfile[] {
+  return readFixture<EvalProfile[]>('profiles.json');
+}
+
+/**
+ * The named profile in the shape getActiveProfile() returns.
+ * @throws Error listing the known profiles when the name is not found
+ */
+export function loadProfile(name: string): ModelProfile {
+  const profiles = loadProfiles();
+  const profile = profiles.find((candidate) => candidate.name === name);
+  if (!profile) {
+    throw new Error(`Unknown eval profile "${name}". Known profiles: ${profiles.map((p) => p.name).join(', ')}`);
+  }
+  return {
+    id: `eval-${profile.name}`,
+    name: profile.name,
+    display_name: profile.display_name,
+    is_active: true,
+    task_configs: profile.task_configs as ModelProfile['task_configs'],
+    created_at: '1970-01-01T00:00:00.000Z',
+    updated_at: '1970-01-01T00:00:00.000Z',
+  };
+}
+
+export function loadResponses(): ResponseCache {
+  return readFixture<ResponseCache>('responses.json');
+}
+
+/** Writes the cache back after a recording run, keys sorted so diffs stay small */
+export function saveResponses(cache: ResponseCache): void {
+  const sorted = Object.fromEntries(Object.keys(cache).sort().map((key) => [key, cache[key]]));
+  writeFileSync(`${FIXTURES_DIR}responses.json`, `${JSON.stringify(sorted, null, 2)}\n`);
+}
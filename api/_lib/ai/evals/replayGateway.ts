@@ -0,0 +1,115 @@
+/**
+ * Stand-in for generateText() during an eval run.
+ *
+ * Each call is looked up by case, model and call order. The request's
+ * system prompt, prompt, messages, temperature and token limit are hashed;
+ * a cached response recorded for a different hash is still replayed (so
+ * parsing and checks run) but reported as stale, meaning the prompt or
+ * profile changed since it was recorded and the numbers describe the old
+ * prompt. A missing response fails the call.
+ *
+ * With a `record` function (EVAL_RECORD=1) misses and stale entries are sent
+ * to the real gateway and the cache is updated instead.
+ */
+
+import { createHash } from 'node:crypto';
+import type { RecordedResponse, ResponseCache } from './corpus.js';
+
+export interface GatewayRequest {
+  model: unknown;
+  system?: string;
+  prompt?: string;
+  messages?: unknown;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface GatewayResult {
+  text: string;
+  usage: NonNullable<RecordedResponse['usage']>;
+}
+
+export type RecordFn = (request: GatewayRequest) => Promise<GatewayResult>;
+
+export interface ReplayCall {
+  key: string;
+  status: 'hit' | 'stale' | 'recorded' | 'missing';
+  text: string;
+  usage: GatewayResult['usage'];
+}
+
+export class MissingRecordingError extends Error {
+  // A client-side error, so handler failover does not move on to fallbacks
+  readonly statusCode = 400;
+
+  constructor(public readonly key: string) {
+    super(`No recorded response for ${key}. Run with EVAL_RECORD=1 to record it.`);
+    this.name = 'MissingRecordingError';
+  }
+}
+
+/** Gateway model id of an AI SDK model instance, or the id itself when replaying */
+export function modelIdOf(model: unknown): string {
+  if (typeof model === 'string') return model;
+  const id = (model as { modelId?: unknown } | null)?.modelId;
+  return typeof id === 'string' ? id : 'unknown-model';
+}
+
+export function hashRequest(request: GatewayRequest): string {
+  const { system, prompt, messages, temperature, maxOutputTokens } = request;
+  return createHash('sha256')
+    .update(JSON.stringify({ system, prompt, messages, temperature, maxOutputTokens }))
+    .digest('hex');
+}
+
+export class ReplayGateway {
+  private caseId = '';
+  private callIndex = 0;
+  private calls: ReplayCall[] = [];
+
+  constructor(
+    private readonly cache: ResponseCache,
+    private readonly record?: RecordFn,
+  ) {}
+
+  /** Starts a case; later calls are keyed to it */
+  beginCase(caseId: string): void {
+    this.caseId = caseId;
+    this.callIndex = 0;
+    this.calls = [];
+  }
+
+  /** Calls made since beginCase() */
+  takeCalls(): ReplayCall[] {
+    return this.calls;
+  }
+
+  async generateText(request: GatewayRequest): Promise<GatewayResult> {
+    const key = `${this.caseId}/${modelIdOf(request.model)}#${this.callIndex++}`;
+    const promptHash = hashRequest(request);
+    const cached = this.cache[key];
+
+    if (cached && cached.promptHash === promptHash) {
+      return this.replay(key, 'hit', cached);
+    }
+
+    if (this.record) {
+      const result = await this.record(request);
+      this.cache[key] = { promptHash, text: result.text, usage: result.usage, recordedAt: new Date().toISOString() };
+      return this.replay(key, 'recorded', this.cache[key]);
+    }
+
+    if (cached) {
+      return this.replay(key, 'stale', cached);
+    }
+
+    this.calls.push({ key, status: 'missing', text: '', usage: {} });
+    throw new MissingRecordingError(key);
+  }
+
+  private replay(key: string, status: ReplayCall['status'], response: RecordedResponse): GatewayResult {
+    const usage = response.usage ?? {};
+    this.calls.push({ key, status, text: response.text, usage });
+    return { text: response.text, usage };
+  }
+}
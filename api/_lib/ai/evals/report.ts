@@ -0,0 +1,125 @@
+/**
+ * Comparison report between two profile runs over the same corpus.
+ */
+
+import type { CaseResult, ProfileRun } from './runner.js';
+
+/** Score drop (0-1 scale) that marks a case as a regression */
+export const REGRESSION_THRESHOLD = 0.05;
+
+export interface ProfileSummary {
+  profile: string;
+  cases: number;
+  valid: number;
+  meanScore: number;
+  jsonValidRate: number;
+  totalTokens: number;
+  /** Gateway calls replayed from a recording made for a different prompt */
+  staleCalls: number;
+  missingCalls: number;
+}
+
+export interface CaseComparison {
+  caseId: string;
+  task: string;
+  baseline: CaseResult;
+  candidate: CaseResult;
+  delta: number;
+  regression: boolean;
+}
+
+export interface EvalReport {
+  baseline: ProfileSummary;
+  candidate: ProfileSummary;
+  cases: CaseComparison[];
+  regressions: string[];
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export function summarizeRun(run: ProfileRun): ProfileSummary {
+  const results = run.results;
+  const calls = results.flatMap((result) => result.calls);
+  const mean = (values: number[]) => (values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length);
+  return {
+    profile: run.profile,
+    cases: results.length,
+    valid: results.filter((result) => result.check.valid).length,
+    meanScore: round(mean(results.map((result) => result.check.score))),
+    jsonValidRate: round(mean(results.map((result) => result.check.metrics.jsonValid ?? 0))),
+    totalTokens: results.reduce((sum, result) => sum + result.totalTokens, 0),
+    staleCalls: calls.filter((call) => call.status === 'stale').length,
+    missingCalls: calls.filter((call) => call.status === 'missing').length,
+  };
+}
+
+/**
+ * Pairs the two runs case by case.
+ * @throws Error when the runs did not cover the same cases
+ */
+export function compareRuns(baseline: ProfileRun, candidate: ProfileRun): EvalReport {
+  const cases = baseline.results.map((base) => {
+    const other = candidate.results.find((result) => result.caseId === base.caseId);
+    if (!other) throw new Error(`Case ${base.caseId} is missing from the ${candidate.profile} run`);
+    const delta = round(other.check.score - base.check.score);
+    return {
+      caseId: base.caseId,
+      task: base.task,
+      baseline: base,
+      candidate: other,
+      delta,
+      regression: (base.check.valid && !other.check.valid) || delta <= -REGRESSION_THRESHOLD,
+    };
+  });
+
+  return {
+    baseline: summarizeRun(baseline),
+    candidate: summarizeRun(candidate),
+    cases,
+    regressions: cases.filter((entry) => entry.regression).map((entry) => entry.caseId),
+  };
+}
+
+function describeCase(result: CaseResult): string {
+  if (!result.check.valid) return `FAIL (${result.check.errors[0]})`;
+  const metrics = Object.entries(result.check.metrics).map(([name, value]) => `${name} ${value.toFixed(2)}`);
+  return `${result.check.score.toFixed(2)} - ${metrics.join(', ')}`;
+}
+
+/** Markdown report for the console or a file */
+export function formatReport(report: EvalReport): string {
+  const { baseline, candidate } = report;
+  const sign = (value: number) => (value > 0 ? `+${value.toFixed(3)}` : value.toFixed(3));
+  const lines = [
+    `# AI eval: ${baseline.profile} vs ${candidate.profile}`,
+    '',
+    `| | ${baseline.profile} | ${candidate.profile} |`,
+    '|---|---|---|',
+    `| Valid cases | ${baseline.valid}/${baseline.cases} | ${candidate.valid}/${candidate.cases} |`,
+    `| Mean score | ${baseline.meanScore.toFixed(3)} | ${candidate.meanScore.toFixed(3)} (${sign(round(candidate.meanScore - baseline.meanScore))}) |`,
+    `| JSON valid | ${(baseline.jsonValidRate * 100).toFixed(0)}% | ${(candidate.jsonValidRate * 100).toFixed(0)}% |`,
+    `| Tokens | ${baseline.totalTokens} | ${candidate.totalTokens} |`,
+    `| Stale / missing recordings | ${baseline.staleCalls} / ${baseline.missingCalls} | ${candidate.staleCalls} / ${candidate.missingCalls} |`,
+    '',
+    '## Cases',
+    '',
+  ];
+
+  for (const entry of report.cases) {
+    lines.push(
+      `### ${entry.caseId} (${entry.task})${entry.regression ? ' - REGRESSION' : ''}`,
+      `- ${baseline.profile}: ${describeCase(entry.baseline)}`,
+      `- ${candidate.profile}: ${describeCase(entry.candidate)}`,
+      `- delta: ${sign(entry.delta)}`,
+      '',
+    );
+  }
+
+  if (baseline.staleCalls + candidate.staleCalls > 0) {
+    lines.push('Some responses were recorded for an earlier prompt or profile; re-record with EVAL_RECORD=1 before trusting these scores.', '');
+  }
+  lines.push(report.regressions.length > 0
+    ? `Regressions: ${report.regressions.join(', ')}`
+    : 'No regressions.');
+  return lines.join('\n');
+}
@@ -0,0 +1,121 @@
+/**
+ * Replays the eval corpus through the real handlers for one model profile.
+ *
+ * The handlers run unchanged; the eval entry point (ai.eval.ts) mocks the
+ * AI SDK, the active profile, quota checks and usage tracking, and routes
+ * them to the profile and gateway of the run in progress here.
+ */
+
+import type { VercelResponse } from '@vercel/node';
+import type { AuthenticatedRequest } from '../../middleware/index.js';
+import type { ModelProfile } from '../modelProfiles.js';
+import { handleGenerateIdeas } from '../generateIdeas.js';
+import { handleGenerateInsights } from '../generateInsights.js';
+import { handleGenerateRoadmap } from '../generateRoadmap.js';
+import type { EvalCase, EvalTask } from './corpus.js';
+import { checkOutput, type CheckResult } from './checks.js';
+import type { ReplayCall, ReplayGateway } from './replayGateway.js';
+
+type Handler = (req: AuthenticatedRequest, res: VercelResponse) => Promise<unknown>;
+
+const HANDLERS: Record<EvalTask, Handler> = {
+  'generate-ideas': handleGenerateIdeas,
+  'generate-insights': handleGenerateInsights,
+  'generate-roadmap': handleGenerateRoadmap,
+};
+
+export interface CaseResult {
+  caseId: string;
+  task: EvalTask;
+  status: number;
+  check: CheckResult;
+  calls: ReplayCall[];
+  totalTokens: number;
+}
+
+export interface ProfileRun {
+  profile: string;
+  results: CaseResult[];
+}
+
+let activeProfile: ModelProfile | null = null;
+let activeGateway: ReplayGateway | null = null;
+
+/** Profile of the run in progress, for the mocked getActiveProfile() */
+export function evalProfile(): ModelProfile {
+  if (!activeProfile) throw new Error('No eval run in progress');
+  return activeProfile;
+}
+
+/** Gateway of the run in progress, for the mocked generateText() */
+export function evalGateway(): ReplayGateway {
+  if (!activeGateway) throw new Error('No eval run in progress');
+  return activeGateway;
+}
+
+// Just enough of VercelResponse for the JSON paths of the handlers
+function captureResponse() {
+  const captured = { status: 0, body: undefined as unknown };
+  const res = {
+    status(code: number) {
+      captured.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      captured.body = body;
+      return res;
+    },
+    setHeader() {
+      return res;
+    },
+  };
+  return { res: res as unknown as VercelResponse, captured };
+}
+
+async function runCase(evalCase: EvalCase, gateway: ReplayGateway): Promise<CaseResult> {
+  gateway.beginCase(evalCase.id);
+  const req = {
+    body: { ...evalCase.body },
+    query: {},
+    // Each case gets its own address so handler rate limits never trip
+    headers: { 'x-forwarded-for': `eval-${evalCase.id}` },
+    user: { id: 'eval-user', email: 'eval@example.com', role: 'user' },
+  } as unknown as AuthenticatedRequest;
+  const { res, captured } = captureResponse();
+
+  try {
+    await HANDLERS[evalCase.task](req, res);
+  } catch (error) {
+    captured.status = 500;
+    captured.body = { error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const calls = gateway.takeCalls();
+  return {
+    caseId: evalCase.id,
+    task: evalCase.task,
+    status: captured.status,
+    check: checkOutput(evalCase, captured.status, captured.body, calls.map((call) => call.text)),
+    calls,
+    totalTokens: calls.reduce((sum, call) => sum + (call.usage.totalTokens ?? 0), 0),
+  };
+}
+
+/**
+ * Runs every case against one profile. Cases run one after another since
+ * the handlers share the mocked profile and gateway.
+ */
+export async function runEvalSuite(profile: ModelProfile, cases: EvalCase[], gateway: ReplayGateway): Promise<ProfileRun> {
+  activeProfile = profile;
+  activeGateway = gateway;
+  try {
+    const results: CaseResult[] = [];
+    for (const evalCase of cases) {
+      results.push(await runCase(evalCase, gateway));
+    }
+    return { profile: profile.name, results };
+  } finally {
+    activeProfile = null;
+    activeGateway = null;
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Provider failover with per-model circuit breaking.
+ *
+ * selectModel() picks a primary model and a fallback chain. withModelFailover()
+ * calls the primary and, when it fails with a provider-side error (429,
+ * timeout, 5xx, network, unknown model), moves to the next fallback. Each
+ * attempt goes to a single model, so the caller always knows which model
+ * answered and can report and bill for that one.
+ *
+ * Outcomes are tracked per model (error rate over the last requests,
+ * consecutive failures, average latency). A model that keeps failing gets an
+ * open circuit and is skipped for a cool-down period, after which one trial
+ * request is let through (half-open). When every candidate is open they are
+ * tried anyway, so a request is never refused without an attempt.
+ *
+ * Capability constraints from selectModel still hold for fallbacks: vision
+ * requests never go to providers without image support, and audio never
+ * leaves whisper.
+ *
+ * State lives in module memory, so it is per serverless instance, like the
+ * profile cache in modelProfiles.ts.
+ */
+
+import type { ModelSelection, TaskRoutingContext } from './modelRouter.js';
+
+/** Consecutive provider failures that open a model's circuit */
+export const CIRCUIT_FAILURE_THRESHOLD = 3;
+/** Failure rate over the recent window that opens the circuit */
+export const CIRCUIT_FAILURE_RATE = 0.5;
+/** Minimum outcomes in the window before the failure rate is considered */
+const MIN_WINDOW_REQUESTS = 10;
+const WINDOW_SIZE = 20;
+/** How long an open circuit skips the model before a trial request */
+export const CIRCUIT_COOLDOWN_MS = 30_000;
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.2;
+
+/** Providers without image input support (see selectModel's vision rule) */
+const NO_VISION_PROVIDERS = ['minimax'];
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ModelHealth {
+  gatewayModelId: string;
+  state: CircuitState;
+  requests: number;
+  failures: number;
+  /** Failure rate over the recent window, 0-1 */
+  errorRate: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number;
+  lastError?: string;
+}
+
+interface HealthRecord {
+  outcomes: boolean[];
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+  lastError?: string;
+}
+
+export interface FailoverResult<T> {
+  result: T;
+  /** Model that answered, e.g. 'openai/gpt-4o' */
+  gatewayModelId: string;
+  /** Model name without the provider prefix, as used for token tracking */
+  modelId: string;
+  /** Models that failed before this one answered */
+  failedModels: string[];
+}
+
+export interface FailoverOptions {
+  /**
+   * Checked before moving to the next model. Streaming callers return false
+   * once output has reached the client, since a retry would repeat it.
+   */
+  canRetry?: () => boolean;
+  /** Clock for tests */
+  now?: () => number;
+}
+
+const health = new Map<string, HealthRecord>();
+
+/** Reset all model health. Exposed for test isolation only. */
+export function _resetModelHealthForTesting(): void {
+  health.clear();
+}
+
+function recordFor(gatewayModelId: string): HealthRecord {
+  let record = health.get(gatewayModelId);
+  if (!record) {
+    record = { outcomes: [], requests: 0, failures: 0, consecutiveFailures: 0, avgLatencyMs: 0, openedAt: null, trialInFlight: false };
+    health.set(gatewayModelId, record);
+  }
+  return record;
+}
+
+function errorRate(record: HealthRecord): number {
+  if (record.outcomes.length === 0) return 0;
+  return record.outcomes.filter((ok) => !ok).length / record.outcomes.length;
+}
+
+function circuitState(record: HealthRecord, now: number): CircuitState {
+  if (record.openedAt === null) return 'closed';
+  return now - record.openedAt >= CIRCUIT_COOLDOWN_MS ? 'half-open' : 'open';
+}
+
+function recordOutcome(gatewayModelId: string, ok: boolean, latencyMs: number, now: number, error?: unknown): void {
+  const record = recordFor(gatewayModelId);
+  record.requests++;
+  record.outcomes = [...record.outcomes, ok].slice(-WINDOW_SIZE);
+  record.avgLatencyMs = record.requests === 1
+    ? latencyMs
+    : record.avgLatencyMs + LATENCY_SMOOTHING * (latencyMs - record.avgLatencyMs);
+  record.trialInFlight = false;
+
+  if (ok) {
+    record.consecutiveFailures = 0;
+    record.openedAt = null;
+    return;
+  }
+
+  record.failures++;
+  record.consecutiveFailures++;
+  record.lastError = error instanceof Error ? error.message : String(error);
+  const tripped = record.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD
+    || (record.outcomes.length >= MIN_WINDOW_REQUESTS && errorRate(record) >= CIRCUIT_FAILURE_RATE);
+  // A failed trial re-opens the circuit for another cool-down
+  if (tripped || record.openedAt !== null) {
+    record.openedAt = now;
+  }
+}
+
+/** Health of every model used by this instance, for diagnostics */
+export function getModelHealth(now: number = Date.now()): ModelHealth[] {
+  return [...health].map(([gatewayModelId, record]) => ({
+    gatewayModelId,
+    state: circuitState(record, now),
+    requests: record.requests,
+    failures: record.failures,
+    errorRate: Math.round(errorRate(record) * 1000) / 1000,
+    consecutiveFailures: record.consecutiveFailures,
+    avgLatencyMs: Math.round(record.avgLatencyMs),
+    ...(record.lastError ? { lastError: record.lastError } : {}),
+  }));
+}
+
+/**
+ * Primary model followed by the fallbacks the request's capabilities allow.
+ */
+export function failoverCandidates(
+  selection: ModelSelection,
+  ctx: Pick<TaskRoutingContext, 'hasVision' | 'hasAudio'>,
+): string[] {
+  if (ctx.hasAudio) return [selection.gatewayModelId];
+  const candidates = [selection.gatewayModelId];
+  for (const model of selection.fallbackModels) {
+    if (candidates.includes(model)) continue;
+    if (ctx.hasVision && NO_VISION_PROVIDERS.includes(model.split('/')[0])) continue;
+    candidates.push(model);
+  }
+  return candidates;
+}
+
+function statusCodeOf(error: unknown): number | undefined {
+  const candidate = error as { statusCode?: unknown; status?: unknown; lastError?: unknown } | null;
+  if (!candidate || typeof candidate !== 'object') return undefined;
+  if (typeof candidate.statusCode === 'number') return candidate.statusCode;
+  if (typeof candidate.status === 'number') return candidate.status;
+  // The AI SDK wraps exhausted retries in a RetryError
+  return candidate.lastError ? statusCodeOf(candidate.lastError) : undefined;
+}
+
+/**
+ * Whether another model might succeed where this one failed: rate limits,
+ * timeouts, server errors, unknown models and network failures. Cancelled
+ * requests and other client errors (bad input, auth) are not retried.
+ */
+export function isProviderFailure(error: unknown): boolean {
+  if (error instanceof Error && (error.name === 'AbortError' || error.name === 'ResponseAborted')) return false;
+  const status = statusCodeOf(error);
+  if (status === undefined) return true;
+  return status === 404 || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Runs `attempt` against the primary model, falling back along the chain on
+ * provider failures. Models with an open circuit are tried last.
+ *
+ * @param selection - Result of selectModel()
+ * @param ctx - Capabilities the request needs
+ * @param attempt - Makes the model call for one gateway model id
+ * @returns The result and the model that produced it
+ * @throws The last error when every candidate fails, or the first
+ *   non-provider error straight away
+ */
+export async function withModelFailover<T>(
+  selection: ModelSelection,
+  ctx: Pick<TaskRoutingContext, 'hasVision' | 'hasAudio'>,
+  attempt: (gatewayModelId: string) => Promise<T>,
+  options: FailoverOptions = {},
+): Promise<FailoverResult<T>> {
+  const now = options.now ?? Date.now;
+  const candidates = failoverCandidates(selection, ctx);
+
+  // Healthy and half-open models first, in chain order; open circuits last
+  const available = candidates.filter((model) => {
+    const record = health.get(model);
+    if (!record) return true;
+    const state = circuitState(record, now());
+    return state === 'closed' || (state === 'half-open' && !record.trialInFlight);
+  });
+  const ordered = [...available, ...candidates.filter((model) => !available.includes(model))];
+
+  const failedModels: string[] = [];
+  let lastError: unknown;
+  for (const gatewayModelId of ordered) {
+    const record = recordFor(gatewayModelId);
+    if (circuitState(record, now()) === 'half-open') record.trialInFlight = true;
+
+    const startedAt = now();
+    try {
+      const result = await attempt(gatewayModelId);
+      recordOutcome(gatewayModelId, true, now() - startedAt, now());
+      if (failedModels.length > 0) {
+        console.warn(`AI failover: ${gatewayModelId} answered after ${failedModels.join(', ')} failed`);
+      }
+      return {
+        result,
+        gatewayModelId,
+        modelId: gatewayModelId.split('/').pop() ?? gatewayModelId,
+        failedModels,
+      };
+    } catch (error) {
+      record.trialInFlight = false;
+      if (!isProviderFailure(error)) throw error;
+      recordOutcome(gatewayModelId, false, now() - startedAt, now(), error);
+      failedModels.push(gatewayModelId);
+      lastError = error;
+      if (options.canRetry && !options.canRetry()) break;
+      console.warn(`AI model ${gatewayModelId} failed, trying next fallback:`, error instanceof Error ? error.message : error);
+    }
+  }
+  throw lastError;
+}
@@ -3,7 +3,12 @@
  *
  * Replaces raw fetch() to OpenAI/Anthropic APIs with generateText() via
  * the AI Gateway. Preserves identical response shape, validation, and
- * subscription limit enforcement.
+ * subscription limit enforcement. With `stream: true` each idea is sent as
+ * an `idea` event as soon as it is complete (see utils/streaming). Provider
+ * failures fall over to the profile's fallback models (see failover.ts).
+ *
+ * With a brainstorm `technique` it returns starter prompts for the session
+ * rounds instead of ideas (see src/utils/brainstormTechniques.ts).
  */
 
 import { generateText } from 'ai';
@@ -12,18 +17,90 @@ import type { AuthenticatedRequest } from '../middleware/index.js';
 import { InputValidator, commonRules } from '../utils/validation.js';
 import { checkLimit, trackAIUsage } from '../services/subscriptionService.js';
 import { trackTokenUsage } from '../utils/supabaseAdmin.js';
-import { selectModel, getProviderOptions } from './modelRouter.js';
+import { selectModel, type TaskRoutingContext } from './modelRouter.js';
+import { withModelFailover } from './failover.js';
 import { getModel } from './providers.js';
 import { getActiveProfile } from './modelProfiles.js';
 import { parseJsonResponse } from './utils/parsing.js';
 import { mapUsageToTracking } from './utils/tokenTracking.js';
 import { getProjectTypePersona } from './utils/prompts.js';
+import {
+  wantsStream,
+  openEventStream,
+  streamGeneratedText,
+  createItemEmitter,
+  parseCompletedArrayItems,
+  type AiEventStream,
+} from './utils/streaming.js';
+
+const PROMPT_ROUNDS = ['ideation', 'reveal', 'grouping', 'voting', 'placement'];
+
+// Mirrors TECHNIQUE_TEMPLATES in src/utils/brainstormTechniques.ts
+const TECHNIQUE_GUIDES: Record<string, string> = {
+  scamper: 'SCAMPER: Substitute, Combine, Adapt, Modify, Put to other use, Eliminate, Reverse',
+  'crazy-8s': 'Crazy 8s: eight rapid ideas in eight minutes, quantity over polish',
+  'how-might-we': 'How Might We: reframe problems as "How might we...?" opportunity questions',
+  starbursting: 'Starbursting: question the idea with Who, What, When, Where, Why and How',
+};
+
+interface StarterPrompt {
+  round: string;
+  label: string;
+  text: string;
+}
+
+function buildStarterPromptMessages(
+  technique: string,
+  title: string,
+  description: string,
+  projectType: string,
+  count: number
+) {
+  const system = `You are an experienced workshop facilitator preparing a ${projectType} brainstorming session.
+
+TECHNIQUE: ${TECHNIQUE_GUIDES[technique]}
+
+Write prompts participants answer on their phones. Each prompt is one short question or instruction, specific to the project, and belongs to a round: ${PROMPT_ROUNDS.join(', ')}. Most prompts should be for ideation.
+
+RESPONSE FORMAT:
+Return exactly ${count} prompts as a JSON array with this exact format:
+[
+  {
+    "round": "ideation",
+    "label": "Short tag, at most three words",
+    "text": "The prompt shown to participants"
+  }
+]`;
+
+  const prompt = `PROJECT DETAILS:
+Title: ${title}
+Description: ${description}
+Type: ${projectType}
+
+TASK: Write ${count} starter prompts that apply the ${technique} technique to this project.`;
+
+  return { system, prompt };
+}
+
+function toStarterPrompts(parsed: unknown): StarterPrompt[] {
+  if (!Array.isArray(parsed)) return [];
+  return parsed
+    .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    .map((item) => ({
+      round: String(item.round ?? ''),
+      label: String(item.label ?? '').trim(),
+      text: String(item.text ?? '').trim(),
+    }))
+    .filter((item) => PROMPT_ROUNDS.includes(item.round) && item.label && item.text);
+}
 
 /**
  * Handles the generate-ideas action.
  *
  * Validates input, checks subscription limits, generates ideas via AI SDK,
- * tracks usage, and returns { ideas: [...] }.
+ * tracks usage, and returns { ideas: [...], model } where model is the
+ * gateway model that answered (or streams it, see above). Technique
+ * requests return { prompts: [...], model } and are never streamed.
  */
 export async function handleGenerateIdeas(req: AuthenticatedRequest, res: VercelResponse) {
   // Validate and sanitize input
@@ -33,6 +110,7 @@ export async function handleGenerateIdeas(req: AuthenticatedRequest, res: Vercel
     { ...commonRules.projectType, required: false },
     { ...commonRules.count, required: false },
     { ...commonRules.tolerance, required: false },
+    { field: 'technique', type: 'string', required: false, allowedValues: Object.keys(TECHNIQUE_GUIDES) },
   ]);
 
   if (!validation.isValid) {
@@ -42,7 +120,8 @@ export async function handleGenerateIdeas(req: AuthenticatedRequest, res: Vercel
     });
   }
 
-  const { title, description, projectType = 'other', count = 8, tolerance = 50 } = validation.sanitizedData;
+  const { title, description, projectType = 'other', count = 8, tolerance = 50, technique } = validation.sanitizedData;
+  let stream: AiEventStream | null = null;
 
   try {
     // T-02-07: checkLimit MUST be first operation after auth to prevent cost amplification
@@ -61,15 +140,13 @@ export async function handleGenerateIdeas(req: AuthenticatedRequest, res: Vercel
 
     // Select model via profile-aware router (ADR-0013 Step 3)
     const profile = await getActiveProfile();
-    const selection = selectModel({
+    const routing: TaskRoutingContext = {
       task: 'generate-ideas',
       hasVision: false,
       hasAudio: false,
       userTier: 'free', // NOTE: userTier hardcoded to 'free' — per-tier routing deferred (ADR-0013 anti-goal)
-    }, profile);
-
-    const model = getModel(selection.gatewayModelId);
-    const providerOptions = getProviderOptions(selection.fallbackModels);
+    };
+    const selection = selectModel(routing, profile);
 
     // Build persona-driven prompts
     const personaContext = getProjectTypePersona(projectType, tolerance);
@@ -114,17 +191,35 @@ TASK: Generate ${count} actionable ideas that vary in effort and impact levels.
 
 ${personaContext.additionalPrompt}`;
 
+    const messages = technique
+      ? buildStarterPromptMessages(technique, title, description, projectType, count)
+      : { system: systemPrompt, prompt: userPrompt };
+
     const startTime = Date.now();
 
     // Generate via AI SDK (replaces raw fetch to OpenAI/Anthropic)
-    const { text, usage } = await generateText({
-      model,
-      system: systemPrompt,
-      prompt: userPrompt,
-      temperature: selection.temperature,
-      maxOutputTokens: selection.maxOutputTokens,
-      ...(providerOptions ? { providerOptions } : {}),
-    });
+    if (!technique && wantsStream(req)) {
+      stream = openEventStream(res);
+    }
+    const activeStream = stream;
+    const emitIdeas = activeStream
+      ? createItemEmitter(activeStream, 'idea', (partial) => parseCompletedArrayItems(partial))
+      : null;
+    let streamed = false;
+    const { result: { text, usage }, gatewayModelId, modelId } = await withModelFailover(selection, routing, (candidate) => {
+      const request = {
+        model: getModel(candidate),
+        ...messages,
+        temperature: selection.temperature,
+        maxOutputTokens: selection.maxOutputTokens,
+      };
+      return activeStream && emitIdeas
+        ? streamGeneratedText(activeStream, request, (partial) => {
+            streamed = true;
+            emitIdeas(partial);
+          })
+        : generateText(request);
+    }, { canRetry: () => !streamed });
 
     const responseTimeMs = Date.now() - startTime;
 
@@ -137,14 +232,15 @@ ${personaContext.additionalPrompt}`;
       console.error('Failed to parse AI response as JSON, returning empty ideas');
       ideas = [];
     }
+    const prompts = technique ? toStarterPrompts(ideas) : null;
 
     // Track token usage
     const mappedUsage = mapUsageToTracking(usage);
     await trackTokenUsage({
       userId,
-      projectId: req.body.projectId || null,
+      projectId: typeof req.body.projectId === 'string' ? req.body.projectId : null,
       endpoint: 'generate-ideas',
-      model: selection.modelId,
+      model: modelId,
       usage: mappedUsage,
       responseTimeMs,
       success: true,
@@ -159,8 +255,25 @@ ${personaContext.additionalPrompt}`;
       // Don't fail the request if tracking fails
     }
 
-    return res.status(200).json({ ideas });
+    if (stream) {
+      stream.send('done', { ideas, model: gatewayModelId });
+      stream.close();
+      return;
+    }
+    if (prompts) {
+      return res.status(200).json({ prompts, model: gatewayModelId });
+    }
+    return res.status(200).json({ ideas, model: gatewayModelId });
   } catch (error) {
+    if (stream) {
+      // A client that disconnected cancelled the request; nothing to report
+      if (!stream.signal.aborted) {
+        console.error('Error streaming ideas:', error);
+        stream.send('error', { error: 'Failed to generate ideas' });
+      }
+      stream.close();
+      return;
+    }
     console.error('Error generating ideas:', error);
     // T-02-06: Do not expose raw AI SDK error details in production
     return res.status(500).json({
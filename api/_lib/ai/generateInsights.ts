@@ -7,18 +7,40 @@
  * - Anthropic fallback when OpenAI fails
  * - Multi-modal content processing (cached file analysis)
  * - Complex prompt construction with project context
+ *
+ * With `stream: true` each top-level section of the report is sent as a
+ * `section` event ({ key, value }) once complete (see utils/streaming).
+ * Provider failures fall over to the profile's fallback models (see
+ * failover.ts); the response names the model that answered as `model`.
+ * File content in documentContext is cleaned and fenced by
+ * utils/contextGuard.ts before it reaches either prompt.
  */
 
 import { generateText } from 'ai';
 import type { VercelResponse } from '@vercel/node';
 import type { AuthenticatedRequest } from '../middleware/index.js';
 import { checkLimit, trackAIUsage } from '../services/subscriptionService.js';
-import { selectModel, getProviderOptions } from './modelRouter.js';
+import { trackTokenUsage } from '../utils/supabaseAdmin.js';
+import { selectModel, type TaskRoutingContext } from './modelRouter.js';
+import { withModelFailover } from './failover.js';
 import { getModel } from './providers.js';
 import { getActiveProfile } from './modelProfiles.js';
 import type { ModelProfile } from './modelProfiles.js';
 import { parseJsonResponse } from './utils/parsing.js';
-import { mapUsageToTracking } from './utils/tokenTracking.js';
+import { mapUsageToTracking, type AISdkUsage } from './utils/tokenTracking.js';
+import {
+  guardDocumentContext,
+  fenceUntrusted,
+  logContextFindings,
+  UNTRUSTED_CONTENT_INSTRUCTION,
+} from './utils/contextGuard.js';
+import {
+  wantsStream,
+  openEventStream,
+  streamGeneratedText,
+  createFieldEmitter,
+  type AiEventStream,
+} from './utils/streaming.js';
 
 // Rate limiting store (preserved from original)
 const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
@@ -53,6 +75,8 @@ function getRandomTemperature(): number {
 /**
  * Processes cached file analysis from document context.
  * Preserved from original handler -- processes pre-analyzed file results.
+ * Expects documentContext already passed through guardDocumentContext; each
+ * piece of file text is fenced here.
  */
 async function processCachedFileAnalysis(documentContext: any[] = []) {
   if (!documentContext || documentContext.length === 0) {
@@ -79,37 +103,37 @@ async function processCachedFileAnalysis(documentContext: any[] = []) {
         const analysis = doc.ai_analysis;
 
         if (analysis.summary) {
-          textContent += `File Analysis - ${doc.name}:\n${analysis.summary}\n\n`;
+          textContent += `File Analysis - ${doc.name}:\n${fenceUntrusted(doc.name, analysis.summary)}\n\n`;
         }
 
         if (analysis.key_insights && analysis.key_insights.length > 0) {
-          textContent += `Key Insights from ${doc.name}:\n${analysis.key_insights.map((insight: string) => `- ${insight}`).join('\n')}\n\n`;
+          textContent += `Key Insights from ${doc.name}:\n${fenceUntrusted(doc.name, analysis.key_insights.map((insight: string) => `- ${insight}`).join('\n'))}\n\n`;
         }
 
         if (analysis.content_type === 'image' && analysis.visual_description) {
           hasVisualContent = true;
-          imageDescriptions += `Image "${doc.name}": ${analysis.visual_description}\n\n`;
+          imageDescriptions += `Image "${doc.name}":\n${fenceUntrusted(doc.name, analysis.visual_description)}\n\n`;
           if (analysis.extracted_text) {
-            textContent += `Text extracted from image ${doc.name}: ${analysis.extracted_text}\n\n`;
+            textContent += `Text extracted from image ${doc.name}:\n${fenceUntrusted(doc.name, analysis.extracted_text)}\n\n`;
           }
         }
 
         if ((analysis.content_type === 'audio' || analysis.content_type === 'video') && analysis.audio_transcript) {
           hasAudioContent = true;
-          audioTranscripts += `Audio from ${doc.name}: ${analysis.audio_transcript}\n\n`;
+          audioTranscripts += `Audio from ${doc.name}:\n${fenceUntrusted(doc.name, analysis.audio_transcript)}\n\n`;
         }
 
         if (analysis.content_type === 'text' && analysis.extracted_text) {
-          textContent += `Content from ${doc.name}: ${analysis.extracted_text}\n\n`;
+          textContent += `Content from ${doc.name}:\n${fenceUntrusted(doc.name, analysis.extracted_text)}\n\n`;
         }
       } else {
         // Fallback to existing content if no analysis available
         if (doc.content) {
           if (doc.type && doc.type.startsWith('image/')) {
             hasVisualContent = true;
-            imageDescriptions += `Image "${doc.name}": ${doc.content}\n\n`;
+            imageDescriptions += `Image "${doc.name}":\n${fenceUntrusted(doc.name, doc.content)}\n\n`;
           } else {
-            textContent += `Content from ${doc.name}: ${doc.content}\n\n`;
+            textContent += `Content from ${doc.name}:\n${fenceUntrusted(doc.name, doc.content)}\n\n`;
           }
         }
       }
@@ -145,7 +169,7 @@ CRITICAL INSTRUCTIONS:
 4. THINK LIKE AN INSIDER: Write as if you understand this exact business and industry.
 
 ${multiModalContent.hasVisualContent ? 'VISUAL CONTEXT: This project includes images/videos. Analyze what they reveal about the product, market, or business model.' : ''}
-${multiModalContent.hasAudioContent ? 'AUDIO CONTEXT: This project includes transcribed audio. Consider the spoken insights and strategic discussions.' : ''}
+${multiModalContent.hasAudioContent ? 'AUDIO CONTEXT: This project includes transcribed audio. Consider the spoken insights and strategic discussions.' : ''}${multiModalContent.textContent || multiModalContent.audioTranscripts || multiModalContent.imageDescriptions ? `\n${UNTRUSTED_CONTENT_INSTRUCTION}` : ''}
 
 FORBIDDEN PATTERNS - Do NOT use these generic phrases:
 - "focus on user experience" (be specific about WHAT user experience)
@@ -225,9 +249,20 @@ function buildInsightsUserPrompt(
 ): string {
   const ideaAnalysis = ideas.map((idea, index) => {
     const position = idea.quadrant || 'unknown';
-    return `${index + 1}. "${idea.title}" (${position} quadrant)${idea.description ? ` - ${idea.description}` : ''}`;
+    const score = idea.score ? ` [${idea.score}]` : '';
+    const theme = idea.theme ? ` {theme: ${idea.theme}}` : '';
+    return `${index + 1}. "${idea.title}" (${position} quadrant)${score}${theme}${idea.description ? ` - ${idea.description}` : ''}`;
   }).join('\n');
 
+  // Themes the team grouped the ideas into on the matrix
+  const themeCounts = new Map<string, number>();
+  for (const idea of ideas) {
+    if (typeof idea.theme === 'string' && idea.theme) themeCounts.set(idea.theme, (themeCounts.get(idea.theme) ?? 0) + 1);
+  }
+  const themeSection = themeCounts.size > 0
+    ? `\n\nTEAM-DEFINED THEMES (use these as the strategic themes in your analysis):\n${[...themeCounts].map(([theme, count]) => `- ${theme}: ${count} ideas`).join('\n')}`
+    : '';
+
   const projectContextStr = `
 PROJECT ANALYSIS REQUIRED FOR: ${projectName} (${projectType})
 
@@ -238,7 +273,7 @@ QUADRANT DISTRIBUTION:
 - Quick Wins: ${ideas.filter(i => i.quadrant === 'quick-wins').length} ideas
 - Major Projects: ${ideas.filter(i => i.quadrant === 'major-projects').length} ideas
 - Fill-ins: ${ideas.filter(i => i.quadrant === 'fill-ins').length} ideas
-- Thankless Tasks: ${ideas.filter(i => i.quadrant === 'thankless-tasks').length} ideas`;
+- Thankless Tasks: ${ideas.filter(i => i.quadrant === 'thankless-tasks').length} ideas${themeSection}`;
 
   return `STRATEGIC ANALYSIS REQUEST:
 
@@ -291,7 +326,7 @@ Avoid generic business templates. Instead, provide thoughtful analysis that some
 Write conversationally and insightfully, like you're advising a founder or product team who knows their domain well.
 
 IMPORTANT: Respond ONLY with valid JSON. Do not include any explanatory text before or after the JSON.
-
+${documentContext && documentContext.length > 0 ? `\n${UNTRUSTED_CONTENT_INSTRUCTION}\n` : ''}
 I'm looking for strategic insights on this project: ${projectName} (${projectType})
 
 IDEAS WE'RE CONSIDERING:
@@ -301,7 +336,7 @@ ${roadmapContext ? `We already have some roadmap planning in place.` : ''}
 
 ${documentContext && documentContext.length > 0 ? `
 ADDITIONAL CONTEXT:
-${documentContext.map(doc => `- ${doc.name}: ${doc.content?.substring(0, 200)}...`).join('\n')}
+${documentContext.map(doc => `- ${doc.name}:\n${fenceUntrusted(doc.name, `${doc.content?.substring(0, 200) ?? ''}...`)}`).join('\n')}
 ` : ''}
 
 Provide your analysis as a JSON object with these sections:
@@ -346,6 +381,7 @@ Provide your analysis as a JSON object with these sections:
  * fallback if the primary OpenAI call fails.
  */
 export async function handleGenerateInsights(req: AuthenticatedRequest, res: VercelResponse) {
+  let stream: AiEventStream | null = null;
   try {
     const clientIP = req.headers['x-forwarded-for'] as string || req.socket?.remoteAddress || 'unknown';
 
@@ -353,7 +389,7 @@ export async function handleGenerateInsights(req: AuthenticatedRequest, res: Ver
       return res.status(429).json({ error: 'Rate limit exceeded. Please try again later.' });
     }
 
-    const { ideas, projectName, projectType, roadmapContext, documentContext, focusArea } = req.body;
+    const { ideas, projectName, projectType, roadmapContext, focusArea } = req.body;
 
     if (!ideas || !Array.isArray(ideas)) {
       return res.status(400).json({ error: 'Ideas array is required' });
@@ -382,38 +418,83 @@ export async function handleGenerateInsights(req: AuthenticatedRequest, res: Ver
       });
     }
 
+    // Uploaded file text is untrusted: clean it and audit-log anything that looks like an injection
+    const { documents: documentContext, flagged } = guardDocumentContext(req.body.documentContext);
+    if (flagged.length > 0) {
+      await logContextFindings({
+        userId,
+        projectId: typeof req.body.projectId === 'string' ? req.body.projectId : null,
+        source: 'generate-insights',
+        files: flagged,
+      });
+    }
+
     // Profile-aware model routing (ADR-0013 Step 3)
     const profile = await getActiveProfile();
-    let insights: Record<string, unknown> = {};
+    let generated: GeneratedInsights | null = null;
+    const startTime = Date.now();
+
+    if (wantsStream(req)) {
+      stream = openEventStream(res);
+    }
 
     if (openaiKey) {
       try {
-        insights = await generateInsightsWithOpenAI(ideas, projectName, projectType, roadmapContext, documentContext, focusArea, profile);
+        generated = await generateInsightsWithOpenAI(ideas, projectName, projectType, roadmapContext, documentContext, focusArea, profile, stream);
       } catch (openaiError) {
+        // A cancelled stream is not a provider failure
+        if (stream?.signal.aborted) throw openaiError;
         console.error('OpenAI insights generation failed, trying Anthropic fallback:', openaiError);
         if (anthropicKey) {
-          insights = await generateInsightsWithAnthropic(ideas, projectName, projectType, roadmapContext, documentContext, profile);
+          generated = await generateInsightsWithAnthropic(ideas, projectName, projectType, roadmapContext, documentContext, profile, stream);
         } else {
           throw openaiError;
         }
       }
     } else if (anthropicKey) {
-      insights = await generateInsightsWithAnthropic(ideas, projectName, projectType, roadmapContext, documentContext, profile);
+      generated = await generateInsightsWithAnthropic(ideas, projectName, projectType, roadmapContext, documentContext, profile, stream);
     }
 
+    const insights = generated?.insights;
+
     // Validate response structure
     if (!insights || typeof insights !== 'object' || Object.keys(insights).length === 0) {
       throw new Error('AI service returned empty or invalid response');
     }
 
+    await trackTokenUsage({
+      userId,
+      projectId: typeof req.body.projectId === 'string' ? req.body.projectId : null,
+      endpoint: 'generate-insights',
+      model: generated!.modelId,
+      usage: mapUsageToTracking(generated!.usage),
+      responseTimeMs: Date.now() - startTime,
+      success: true,
+      profileName: profile.name,
+    });
+
     // ADR-0015 Step 6: Track usage after successful generation
     await trackAIUsage(userId, 'ai_insights');
 
-    return res.status(200).json({ insights });
+    if (stream) {
+      stream.send('done', { insights, model: generated?.gatewayModelId });
+      stream.close();
+      return;
+    }
+    return res.status(200).json({ insights, model: generated?.gatewayModelId });
   } catch (error) {
-    console.error('Function error:', error);
     // T-02-06: Do not expose raw AI SDK error details
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    if (stream) {
+      // A client that disconnected cancelled the request; nothing to report
+      if (!stream.signal.aborted) {
+        console.error('Function error:', error);
+        stream.send('error', { error: `Failed to generate insights: ${errorMessage}` });
+      }
+      stream.close();
+      return;
+    }
+    console.error('Function error:', error);
     return res.status(500).json({
       error: `Failed to generate insights: ${errorMessage}`,
       timestamp: new Date().toISOString(),
@@ -422,6 +503,14 @@ export async function handleGenerateInsights(req: AuthenticatedRequest, res: Ver
   }
 }
 
+interface GeneratedInsights {
+  insights: Record<string, unknown>;
+  /** Gateway model that answered */
+  gatewayModelId: string;
+  modelId: string;
+  usage: AISdkUsage;
+}
+
 /**
  * Generate insights via AI SDK using the primary model (OpenAI).
  */
@@ -433,29 +522,34 @@ async function generateInsightsWithOpenAI(
   documentContext: any[] = [],
   focusArea: string = 'standard',
   profile?: ModelProfile | null,
-): Promise<Record<string, unknown>> {
+  stream: AiEventStream | null = null,
+): Promise<GeneratedInsights> {
   const multiModalContent = await processCachedFileAnalysis(documentContext);
 
-  const selection = selectModel({
+  const routing: TaskRoutingContext = {
     task: 'generate-insights',
     hasVision: multiModalContent.hasVisualContent,
     hasAudio: multiModalContent.hasAudioContent,
     userTier: 'free', // NOTE: userTier hardcoded to 'free' — per-tier routing deferred (ADR-0013 anti-goal)
-  }, profile);
-
-  const model = getModel(selection.gatewayModelId);
-  const providerOptions = getProviderOptions(selection.fallbackModels);
+  };
+  const selection = selectModel(routing, profile);
 
   const systemPrompt = buildInsightsSystemPrompt(multiModalContent, focusArea);
   const userPrompt = buildInsightsUserPrompt(ideas, projectName, projectType, roadmapContext, multiModalContent);
-
-  const { text, usage: _usage } = await generateText({
-    model,
-    system: systemPrompt,
-    prompt: userPrompt,
-    temperature: selection.temperature ?? getRandomTemperature(),
-    maxOutputTokens: selection.maxOutputTokens,
-    ...(providerOptions ? { providerOptions } : {}),
+  const temperature = selection.temperature ?? getRandomTemperature();
+
+  // A fallback model's sections are sent again and replace those already streamed
+  const { result: { text, usage }, gatewayModelId, modelId } = await withModelFailover(selection, routing, (candidate) => {
+    const request = {
+      model: getModel(candidate),
+      system: systemPrompt,
+      prompt: userPrompt,
+      temperature,
+      maxOutputTokens: selection.maxOutputTokens,
+    };
+    return stream
+      ? streamGeneratedText(stream, request, createFieldEmitter(stream, 'section'))
+      : generateText(request);
   });
 
   if (!text) {
@@ -463,7 +557,7 @@ async function generateInsightsWithOpenAI(
   }
 
   const parsed = parseJsonResponse(text);
-  return parsed as Record<string, unknown>;
+  return { insights: parsed as Record<string, unknown>, gatewayModelId, modelId, usage };
 }
 
 /**
@@ -476,27 +570,32 @@ async function generateInsightsWithAnthropic(
   roadmapContext: any = null,
   documentContext: any[] = [],
   profile?: ModelProfile | null,
-): Promise<Record<string, unknown>> {
+  stream: AiEventStream | null = null,
+): Promise<GeneratedInsights> {
   // Profile-aware routing replaces hardcoded anthropic model (ADR-0013 Step 3).
-  // The gateway fallback system handles provider failover via providerOptions.
-  const selection = selectModel({
+  // Provider failover runs through the profile's fallback chain (failover.ts).
+  const routing: TaskRoutingContext = {
     task: 'generate-insights',
     hasVision: false,
     hasAudio: false,
     userTier: 'free',
-  }, profile);
-
-  const model = getModel(selection.gatewayModelId);
-  const providerOptions = getProviderOptions(selection.fallbackModels);
+  };
+  const selection = selectModel(routing, profile);
 
   const prompt = buildAnthropicFallbackPrompt(ideas, projectName, projectType, roadmapContext, documentContext);
-
-  const { text } = await generateText({
-    model,
-    prompt,
-    temperature: selection.temperature ?? getRandomTemperature(),
-    maxOutputTokens: selection.maxOutputTokens,
-    ...(providerOptions ? { providerOptions } : {}),
+  const temperature = selection.temperature ?? getRandomTemperature();
+
+  // Sections already sent by the primary model are sent again and replace them
+  const { result: { text, usage }, gatewayModelId, modelId } = await withModelFailover(selection, routing, (candidate) => {
+    const request = {
+      model: getModel(candidate),
+      prompt,
+      temperature,
+      maxOutputTokens: selection.maxOutputTokens,
+    };
+    return stream
+      ? streamGeneratedText(stream, request, createFieldEmitter(stream, 'section'))
+      : generateText(request);
   });
 
   if (!text) {
@@ -504,5 +603,5 @@ async function generateInsightsWithAnthropic(
   }
 
   const parsed = parseJsonResponse(text);
-  return parsed as Record<string, unknown>;
+  return { insights: parsed as Record<string, unknown>, gatewayModelId, modelId, usage };
 }
@@ -4,16 +4,41 @@
  * Replaces raw fetch() to OpenAI API with generateText() via the AI Gateway.
  * Preserves identical response shape and project-type-specific prompt adaptation.
  * Handles both 'generate-roadmap' and 'generate-roadmap-v2' actions.
+ *
+ * With `stream: true` each roadmap phase is sent as a `phase` event once
+ * complete (see utils/streaming).
+ *
+ * With `regeneratePhase` only that phase of an existing roadmap is rewritten
+ * and returned as { phase }; the client swaps it into the roadmap.
+ *
+ * With `refresh` the model sees an existing roadmap and the ideas changed
+ * since it was made, and proposes epic additions, updates and removals,
+ * returned as { changes }. Changes to locked epics are dropped here; the
+ * client shows the rest for review before saving a new version.
+ *
+ * Provider failures fall over to the profile's fallback models (see
+ * failover.ts); responses name the model that answered as `model`.
  */
 
 import { generateText } from 'ai';
 import type { VercelResponse } from '@vercel/node';
 import type { AuthenticatedRequest } from '../middleware/index.js';
 import { checkLimit, trackAIUsage } from '../services/subscriptionService.js';
-import { selectModel, getProviderOptions } from './modelRouter.js';
+import { trackTokenUsage } from '../utils/supabaseAdmin.js';
+import { selectModel, type TaskRoutingContext } from './modelRouter.js';
+import { withModelFailover } from './failover.js';
 import { getModel } from './providers.js';
 import { getActiveProfile } from './modelProfiles.js';
 import { parseJsonResponse } from './utils/parsing.js';
+import { mapUsageToTracking, type AISdkUsage } from './utils/tokenTracking.js';
+import {
+  wantsStream,
+  openEventStream,
+  streamGeneratedText,
+  createItemEmitter,
+  parseCompletedArrayItems,
+  type AiEventStream,
+} from './utils/streaming.js';
 
 // ============================================================================
 // Project-type-specific prompt builders (moved from api/ai.ts per D-06)
@@ -227,8 +252,9 @@ function getRoadmapIndustryInsights(projectType: string): string {
  * Validates input, generates roadmap via AI SDK, and returns { roadmap: {...} }.
  */
 export async function handleGenerateRoadmap(req: AuthenticatedRequest, res: VercelResponse) {
+  let stream: AiEventStream | null = null;
   try {
-    const { projectName, projectType, ideas } = req.body;
+    const { projectName, projectType, ideas, regeneratePhase, refresh } = req.body;
 
     if (!projectName || !ideas || !Array.isArray(ideas)) {
       return res.status(400).json({ error: 'Project name and ideas array are required' });
@@ -256,18 +282,81 @@ export async function handleGenerateRoadmap(req: AuthenticatedRequest, res: Verc
       });
     }
 
-    const roadmap = await generateRoadmapWithAI(projectName, projectType, ideas);
+    const projectId = typeof req.body.projectId === 'string' ? req.body.projectId : null;
+    const startTime = Date.now();
+
+    if (regeneratePhase) {
+      const target = regeneratePhase.phase;
+      if (!target || typeof target.phase !== 'string' || !Array.isArray(target.epics)) {
+        return res.status(400).json({ error: 'The phase to regenerate is required' });
+      }
+      const { phase, ...call } = await regeneratePhaseWithAI(projectName, projectType, ideas, regeneratePhase);
+      await trackRoadmapTokens(userId, projectId, call, Date.now() - startTime);
+      await trackAIUsage(userId, 'ai_roadmap');
+      return res.status(200).json({ phase, model: call.gatewayModelId });
+    }
+
+    if (refresh) {
+      if (!Array.isArray(refresh.roadmap?.roadmapAnalysis?.phases)) {
+        return res.status(400).json({ error: 'The roadmap to refresh is required' });
+      }
+      const { changes, ...call } = await refreshRoadmapWithAI(projectName, projectType, ideas, refresh);
+      await trackRoadmapTokens(userId, projectId, call, Date.now() - startTime);
+      await trackAIUsage(userId, 'ai_roadmap');
+      return res.status(200).json({ changes, model: call.gatewayModelId });
+    }
+
+    if (wantsStream(req)) {
+      stream = openEventStream(res);
+    }
+    const { roadmap, ...call } = await generateRoadmapWithAI(projectName, projectType, ideas, stream);
+    await trackRoadmapTokens(userId, projectId, call, Date.now() - startTime);
 
     // ADR-0015 Step 6: Track usage after successful generation
     await trackAIUsage(userId, 'ai_roadmap');
 
-    return res.status(200).json({ roadmap });
+    if (stream) {
+      stream.send('done', { roadmap, model: call.gatewayModelId });
+      stream.close();
+      return;
+    }
+    return res.status(200).json({ roadmap, model: call.gatewayModelId });
   } catch (error) {
+    if (stream) {
+      // A client that disconnected cancelled the request; nothing to report
+      if (!stream.signal.aborted) {
+        console.error('Roadmap error:', error);
+        stream.send('error', { error: 'Failed to generate roadmap' });
+      }
+      stream.close();
+      return;
+    }
     console.error('Roadmap error:', error);
     return res.status(500).json({ error: 'Failed to generate roadmap' });
   }
 }
 
+/** The model that answered and what it used, for token tracking */
+interface ModelCall {
+  gatewayModelId: string;
+  modelId: string;
+  usage: AISdkUsage;
+  profileName: string;
+}
+
+function trackRoadmapTokens(userId: string, projectId: string | null, call: ModelCall, responseTimeMs: number) {
+  return trackTokenUsage({
+    userId,
+    projectId,
+    endpoint: 'generate-roadmap',
+    model: call.modelId,
+    usage: mapUsageToTracking(call.usage),
+    responseTimeMs,
+    success: true,
+    profileName: call.profileName,
+  });
+}
+
 /**
  * Generates a roadmap via AI SDK using the model router.
  */
@@ -275,20 +364,30 @@ async function generateRoadmapWithAI(
   projectName: string,
   projectType: string,
   ideas: any[],
-): Promise<Record<string, unknown>> {
+  stream: AiEventStream | null = null,
+): Promise<{ roadmap: Record<string, unknown> } & ModelCall> {
   // Profile-aware model routing (ADR-0013 Step 3)
   const profile = await getActiveProfile();
-  const selection = selectModel({
+  const routing: TaskRoutingContext = {
     task: 'generate-roadmap',
     hasVision: false,
     hasAudio: false,
     userTier: 'free', // NOTE: userTier hardcoded to 'free' — per-tier routing deferred (ADR-0013 anti-goal)
-  }, profile);
+  };
+  const selection = selectModel(routing, profile);
 
-  const model = getModel(selection.gatewayModelId);
-  const providerOptions = getProviderOptions(selection.fallbackModels);
   const projectContext = getProjectTypeContext(projectType);
 
+  // Themes the team grouped the ideas into on the matrix become epic groupings
+  const themes = new Map<string, string[]>();
+  for (const idea of ideas) {
+    if (typeof idea.theme !== 'string' || !idea.theme) continue;
+    themes.set(idea.theme, [...(themes.get(idea.theme) ?? []), idea.title]);
+  }
+  const themeSection = themes.size > 0
+    ? `\n\nTEAM-DEFINED THEMES (plan each theme's ideas together, as one epic or a sequence of epics named after the theme):\n${[...themes].map(([theme, titles]) => `- ${theme}: ${titles.join('; ')}`).join('\n')}`
+    : '';
+
   const systemPrompt = `${getRoadmapPersona(projectType)}
 
 CRITICAL REQUIREMENTS - ADAPT YOUR APPROACH:
@@ -349,7 +448,7 @@ Return a JSON object with this EXACT structure matching the RoadmapData interfac
 
 Project: ${projectName}
 Type: ${projectType}
-Ideas to incorporate: ${ideas.map(idea => `- ${idea.title}: ${idea.description}`).join('\n')}
+Ideas to incorporate: ${ideas.map(idea => `- ${idea.title}: ${idea.description}`).join('\n')}${themeSection}
 
 PROJECT FOCUS AREAS (align epics with these themes):
 ${projectContext.focusAreas.map(area => `- ${area}`).join('\n')}
@@ -378,20 +477,307 @@ ROADMAP REQUIREMENTS:
 
 Generate a roadmap that creates a comprehensive, domain-appropriate plan.`;
 
-  const { text } = await generateText({
-    model,
+  const emitPhases = stream
+    ? createItemEmitter(stream, 'phase', (partial) => parseCompletedArrayItems(partial, 'phases'))
+    : null;
+  // Phases already sent cannot be taken back, so no fallback once one is out
+  let streamed = false;
+  const { result: { text, usage }, gatewayModelId, modelId } = await withModelFailover(selection, routing, (candidate) => {
+    const request = {
+      model: getModel(candidate),
+      system: systemPrompt,
+      prompt: userPrompt,
+      temperature: selection.temperature,
+      maxOutputTokens: selection.maxOutputTokens,
+    };
+    return stream && emitPhases
+      ? streamGeneratedText(stream, request, (partial) => {
+          streamed = true;
+          emitPhases(partial);
+        })
+      : generateText(request);
+  }, { canRetry: () => !streamed });
+
+  const call = { gatewayModelId, modelId, usage, profileName: profile.name };
+  // Parse response, fallback to empty object on failure (preserving original behavior)
+  try {
+    const parsed = parseJsonResponse(text);
+    return { roadmap: parsed as Record<string, unknown>, ...call };
+  } catch (_parseError) {
+    return { roadmap: {}, ...call };
+  }
+}
+
+interface PhaseRegenerationRequest {
+  phase: { phase: string; duration?: string; description?: string; epics: unknown[] };
+  otherPhases?: unknown[];
+  instructions?: unknown;
+}
+
+/**
+ * Rewrites one phase of an existing roadmap. The other phases are named so
+ * the model keeps this phase's scope distinct from theirs.
+ */
+async function regeneratePhaseWithAI(
+  projectName: string,
+  projectType: string,
+  ideas: any[],
+  request: PhaseRegenerationRequest,
+): Promise<{ phase: Record<string, unknown> } & ModelCall> {
+  const profile = await getActiveProfile();
+  const routing: TaskRoutingContext = {
+    task: 'generate-roadmap',
+    hasVision: false,
+    hasAudio: false,
+    userTier: 'free',
+  };
+  const selection = selectModel(routing, profile);
+
+  const instructions = typeof request.instructions === 'string' ? request.instructions.trim().slice(0, 500) : '';
+  const otherPhases = (Array.isArray(request.otherPhases) ? request.otherPhases : [])
+    .filter((name): name is string => typeof name === 'string')
+    .map((name) => name.slice(0, 200));
+
+  const systemPrompt = `${getRoadmapPersona(projectType)}
+
+You are revising ONE phase of an existing roadmap. Keep its place in the sequence and do not take over work that belongs to the other phases.
+
+Return a JSON object with this EXACT structure matching the Phase interface:
+{
+  "phase": "Phase name",
+  "duration": "3-4 weeks",
+  "description": "Detailed phase description explaining goals, approach, and expected outcomes",
+  "epics": [
+    {
+      "title": "Epic Title (specific and actionable)",
+      "description": "Comprehensive epic description",
+      "userStories": ["As a [user type], I want [functionality] so that [benefit]"],
+      "deliverables": ["Specific deliverable 1", "Specific deliverable 2"],
+      "priority": "high|medium|low",
+      "complexity": "high|medium|low",
+      "relatedIdeas": ["idea title 1"]
+    }
+  ],
+  "risks": ["Specific risk with mitigation strategy"],
+  "successCriteria": ["Measurable success criteria"]
+}`;
+
+  const userPrompt = `Project: ${projectName}
+Type: ${projectType}
+Other phases in this roadmap: ${otherPhases.length > 0 ? otherPhases.join('; ') : 'none'}
+
+CURRENT PHASE:
+${JSON.stringify(request.phase, null, 2)}
+
+Ideas on the matrix: ${ideas.map(idea => `- ${idea.title}: ${idea.description}`).join('\n')}
+
+${instructions ? `REQUESTED CHANGES: ${instructions}` : 'Improve this phase: sharpen the epics, deliverables, risks and success criteria.'}`;
+
+  const { result: { text, usage }, gatewayModelId, modelId } = await withModelFailover(selection, routing, (candidate) => generateText({
+    model: getModel(candidate),
     system: systemPrompt,
     prompt: userPrompt,
     temperature: selection.temperature,
     maxOutputTokens: selection.maxOutputTokens,
-    ...(providerOptions ? { providerOptions } : {}),
-  });
+  }));
 
-  // Parse response, fallback to empty object on failure (preserving original behavior)
-  try {
-    const parsed = parseJsonResponse(text);
-    return parsed as Record<string, unknown>;
-  } catch (_parseError) {
-    return {};
+  const parsed = parseJsonResponse(text) as Record<string, unknown>;
+  if (!parsed || typeof parsed.phase !== 'string' || !Array.isArray(parsed.epics)) {
+    throw new Error('AI returned a malformed roadmap phase');
+  }
+  return { phase: parsed, gatewayModelId, modelId, usage, profileName: profile.name };
+}
+
+interface RefreshEpic {
+  title?: unknown;
+  description?: unknown;
+  relatedIdeas?: unknown;
+  locked?: unknown;
+}
+
+interface RefreshPhase {
+  phase?: unknown;
+  duration?: unknown;
+  epics?: unknown;
+}
+
+interface RoadmapRefreshRequest {
+  roadmap: { roadmapAnalysis: { phases: RefreshPhase[] } };
+  changedIdeas?: unknown;
+  removedIdeas?: unknown;
+}
+
+/** One epic change as returned to the client (RoadmapEpicChange in src/types) */
+export interface RoadmapEpicChange {
+  id: string;
+  action: 'add' | 'update' | 'remove';
+  phaseIndex: number;
+  epicIndex?: number;
+  epic?: Record<string, unknown>;
+  reason: string;
+}
+
+const MAX_REFRESH_CHANGES = 20;
+const LEVELS = ['high', 'medium', 'low'];
+
+function epicsOf(phase: RefreshPhase | undefined): RefreshEpic[] {
+  return Array.isArray(phase?.epics) ? (phase!.epics as RefreshEpic[]) : [];
+}
+
+function stringList(value: unknown, max: number): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').slice(0, max).map((item) => item.slice(0, 300))
+    : [];
+}
+
+function normalizeEpic(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== 'object') return null;
+  const epic = value as Record<string, unknown>;
+  if (typeof epic.title !== 'string' || !epic.title.trim()) return null;
+  const level = (field: unknown) => (typeof field === 'string' && LEVELS.includes(field.toLowerCase()) ? field.toLowerCase() : 'medium');
+  return {
+    title: epic.title.trim().slice(0, 200),
+    description: typeof epic.description === 'string' ? epic.description.slice(0, 2000) : '',
+    userStories: stringList(epic.userStories, 8),
+    deliverables: stringList(epic.deliverables, 8),
+    priority: level(epic.priority),
+    complexity: level(epic.complexity),
+    relatedIdeas: stringList(epic.relatedIdeas, 10),
+  };
+}
+
+/**
+ * Keeps the well-formed changes from a refresh response: known actions,
+ * phase and epic indexes that exist, at most one change per epic, and none
+ * that touch a locked epic.
+ * @param raw - Parsed model response, expected as { changes: [...] }
+ * @param phases - Phases of the roadmap being refreshed
+ */
+export function sanitizeRoadmapChanges(raw: unknown, phases: RefreshPhase[]): RoadmapEpicChange[] {
+  const items = raw && typeof raw === 'object' && Array.isArray((raw as { changes?: unknown }).changes)
+    ? ((raw as { changes: unknown[] }).changes)
+    : [];
+  const touched = new Set<string>();
+  const changes: RoadmapEpicChange[] = [];
+
+  for (const item of items) {
+    if (changes.length >= MAX_REFRESH_CHANGES) break;
+    if (!item || typeof item !== 'object') continue;
+    const { action, phaseIndex, epicIndex, epic, reason } = item as Record<string, unknown>;
+    if (action !== 'add' && action !== 'update' && action !== 'remove') continue;
+    if (!Number.isInteger(phaseIndex) || (phaseIndex as number) < 0 || (phaseIndex as number) >= phases.length) continue;
+    const phaseEpics = epicsOf(phases[phaseIndex as number]);
+
+    const change: RoadmapEpicChange = {
+      id: `change-${changes.length}`,
+      action,
+      phaseIndex: phaseIndex as number,
+      reason: typeof reason === 'string' ? reason.slice(0, 300) : '',
+    };
+
+    if (action !== 'add') {
+      if (!Number.isInteger(epicIndex) || (epicIndex as number) < 0 || (epicIndex as number) >= phaseEpics.length) continue;
+      if (phaseEpics[epicIndex as number].locked === true) continue;
+      const key = `${phaseIndex}.${epicIndex}`;
+      if (touched.has(key)) continue;
+      touched.add(key);
+      change.epicIndex = epicIndex as number;
+    }
+    if (action !== 'remove') {
+      const normalized = normalizeEpic(epic);
+      if (!normalized) continue;
+      change.epic = normalized;
+    }
+    changes.push(change);
   }
+  return changes;
+}
+
+/**
+ * Proposes the epic changes an existing roadmap needs after its ideas
+ * changed. Locked epics are shown to the model as fixed and any change it
+ * still proposes for them is dropped.
+ */
+async function refreshRoadmapWithAI(
+  projectName: string,
+  projectType: string,
+  ideas: any[],
+  request: RoadmapRefreshRequest,
+): Promise<{ changes: RoadmapEpicChange[] } & ModelCall> {
+  const profile = await getActiveProfile();
+  const routing: TaskRoutingContext = {
+    task: 'generate-roadmap',
+    hasVision: false,
+    hasAudio: false,
+    userTier: 'free',
+  };
+  const selection = selectModel(routing, profile);
+
+  const phases = request.roadmap.roadmapAnalysis.phases;
+  const changedIdeas = (Array.isArray(request.changedIdeas) ? request.changedIdeas : [])
+    .filter((idea): idea is { title: string; description?: unknown } => typeof idea?.title === 'string');
+  const removedIdeas = stringList(request.removedIdeas, 50);
+
+  const roadmapOutline = phases.map((phase, phaseIndex) => {
+    const epics = epicsOf(phase).map((epic, epicIndex) => {
+      const related = stringList(epic.relatedIdeas, 10);
+      const description = typeof epic.description === 'string' ? ` - ${epic.description.slice(0, 200)}` : '';
+      return `  [${phaseIndex}.${epicIndex}]${epic.locked === true ? ' LOCKED' : ''} ${String(epic.title ?? '')}${description}${related.length > 0 ? ` (ideas: ${related.join('; ')})` : ''}`;
+    });
+    return `Phase ${phaseIndex}: ${String(phase.phase ?? '')} (${String(phase.duration ?? '')})\n${epics.join('\n')}`;
+  }).join('\n');
+
+  const systemPrompt = `${getRoadmapPersona(projectType)}
+
+You are refreshing an existing roadmap after some of its ideas changed. The team has edited this roadmap by hand, so change as little as possible:
+- Propose only the epic changes that the changed or removed ideas call for. Leave every other epic out of your answer.
+- Never update or remove an epic marked LOCKED.
+- Add an epic to the phase where its work fits; update an epic when the ideas it covers changed; remove an epic only when all the ideas it covers were removed.
+
+Return a JSON object with this EXACT structure:
+{
+  "changes": [
+    {
+      "action": "add|update|remove",
+      "phaseIndex": 0,
+      "epicIndex": 1,
+      "epic": {
+        "title": "Epic Title (specific and actionable)",
+        "description": "Comprehensive epic description",
+        "userStories": ["As a [user type], I want [functionality] so that [benefit]"],
+        "deliverables": ["Specific deliverable 1"],
+        "priority": "high|medium|low",
+        "complexity": "high|medium|low",
+        "relatedIdeas": ["idea title 1"]
+      },
+      "reason": "Which idea change this answers"
+    }
+  ]
+}
+Omit "epicIndex" for "add" and "epic" for "remove". An "update" gives the whole revised epic. Return { "changes": [] } if nothing needs to change.`;
+
+  const userPrompt = `Project: ${projectName}
+Type: ${projectType}
+
+CURRENT ROADMAP (epics as [phase.epic]):
+${roadmapOutline}
+
+IDEAS ADDED OR EDITED SINCE THIS ROADMAP WAS MADE:
+${changedIdeas.length > 0 ? changedIdeas.map((idea) => `- ${idea.title}: ${typeof idea.description === 'string' ? idea.description : ''}`).join('\n') : 'none'}
+
+IDEAS REMOVED SINCE THIS ROADMAP WAS MADE:
+${removedIdeas.length > 0 ? removedIdeas.map((title) => `- ${title}`).join('\n') : 'none'}
+
+All ideas now on the matrix: ${ideas.map((idea) => idea.title).join('; ')}`;
+
+  const { result: { text, usage }, gatewayModelId, modelId } = await withModelFailover(selection, routing, (candidate) => generateText({
+    model: getModel(candidate),
+    system: systemPrompt,
+    prompt: userPrompt,
+    temperature: selection.temperature,
+    maxOutputTokens: selection.maxOutputTokens,
+  }));
+
+  const changes = sanitizeRoadmapChanges(parseJsonResponse(text), phases);
+  return { changes, gatewayModelId, modelId, usage, profileName: profile.name };
 }
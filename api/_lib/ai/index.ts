@@ -15,7 +15,7 @@ export {
 } from './modelProfiles.js';
 
 // Provider factory
-export { getModel } from './providers.js';
+export { getModel, getEmbeddingModel, EMBEDDING_MODEL_ID } from './providers.js';
 
 // Model router
 export {
@@ -25,6 +25,18 @@ export {
   type ModelSelection,
 } from './modelRouter.js';
 
+// Provider failover
+export {
+  withModelFailover,
+  failoverCandidates,
+  getModelHealth,
+  type ModelHealth,
+  type FailoverResult,
+} from './failover.js';
+
+// Pre-flight cost estimate for budget checks
+export { estimateRequestCost } from './costEstimate.js';
+
 // Shared utilities
 export { parseJsonResponse } from './utils/parsing.js';
 export { mapUsageToTracking, type AISdkUsage, type TokenTrackingUsage } from './utils/tokenTracking.js';
@@ -34,6 +46,10 @@ export { getProjectTypePersona, type PersonaContext } from './utils/prompts.js';
 export { handleGenerateIdeas } from './generateIdeas.js';
 export { handleGenerateInsights } from './generateInsights.js';
 export { handleGenerateRoadmap } from './generateRoadmap.js';
+export { handlePlaceIdeas } from './placeIdeas.js';
+export { handleEmbedIdeas } from './embedIdeas.js';
+export { handleClusterIdeas } from './clusterIdeas.js';
+export { handleProjectChat } from './projectChat.js';
 
 // Multi-modal handlers (Plan 03)
 export { handleAnalyzeFile } from './analyzeFile.js';
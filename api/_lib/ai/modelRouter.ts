@@ -9,7 +9,8 @@
  *
  * Per D-07, D-08: selectModel maps { task, hasVision, hasAudio, userTier }
  * to { provider, modelId, gatewayModelId }.
- * Per D-10: All tasks use generateText (no streaming).
+ * Per D-10: tasks use generateText; generate-ideas, generate-insights and
+ * generate-roadmap can instead stream through streamText (utils/streaming.ts).
  *
  * ADR-0013 Step 2: selectModel accepts an optional ModelProfile. When provided
  * and the task exists in profile.task_configs, routing uses the profile's model.
@@ -26,6 +27,9 @@ export interface TaskRoutingContext {
     | 'generate-ideas'
     | 'generate-insights'
     | 'generate-roadmap'
+    | 'place-ideas'
+    | 'cluster-ideas'
+    | 'project-chat'
     | 'analyze-file'
     | 'analyze-image'
     | 'analyze-video'
@@ -56,6 +60,9 @@ const MODEL_CONFIG: Record<string, { temperature: number; maxOutputTokens: numbe
   'generate-ideas': { temperature: 0.8, maxOutputTokens: 4096 },
   'generate-insights': { temperature: 0.5, maxOutputTokens: 4096 },
   'generate-roadmap': { temperature: 0.6, maxOutputTokens: 8192 },
+  'place-ideas': { temperature: 0.3, maxOutputTokens: 4096 },
+  'cluster-ideas': { temperature: 0.3, maxOutputTokens: 4096 },
+  'project-chat': { temperature: 0.4, maxOutputTokens: 2048 },
   'analyze-file': { temperature: 0.3, maxOutputTokens: 4096 },
   'analyze-image': { temperature: 0.3, maxOutputTokens: 4096 },
   'analyze-video': { temperature: 0.3, maxOutputTokens: 4096 },
@@ -132,6 +139,9 @@ export function selectModel(ctx: TaskRoutingContext, profile?: ModelProfile | nu
     case 'generate-ideas':
     case 'generate-insights':
     case 'generate-roadmap':
+    case 'place-ideas':
+    case 'cluster-ideas':
+    case 'project-chat':
     case 'analyze-video':
     case 'transcribe-summary':
       return {
@@ -146,7 +156,7 @@ export function selectModel(ctx: TaskRoutingContext, profile?: ModelProfile | nu
     default: {
       const _exhaustive: never = ctx.task;
       throw new Error(
-        `Unknown task type: "${ctx.task}". Expected one of: generate-ideas, generate-insights, generate-roadmap, analyze-file, analyze-image, analyze-video, transcribe-audio, transcribe-summary`
+        `Unknown task type: "${ctx.task}". Expected one of: generate-ideas, generate-insights, generate-roadmap, place-ideas, cluster-ideas, project-chat, analyze-file, analyze-image, analyze-video, transcribe-audio, transcribe-summary`
       );
     }
   }
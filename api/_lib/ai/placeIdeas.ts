@@ -0,0 +1,232 @@
+/**
+ * Place Ideas handler -- AI "place for me" suggestions for the matrix.
+ *
+ * Scores each idea on the project's two matrix axes (0 = the axis's low end,
+ * 100 = its high end) against the project description and the ideas already
+ * on the board, with a one-line rationale. Nothing is saved here: the client
+ * turns scores into positions, lets the user accept or reject each one and
+ * commits the accepted ones itself.
+ */
+
+import { generateText } from 'ai';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthenticatedRequest } from '../middleware/index.js';
+import { checkLimit, trackAIUsage } from '../services/subscriptionService.js';
+import { trackTokenUsage } from '../utils/supabaseAdmin.js';
+import { selectModel, type TaskRoutingContext } from './modelRouter.js';
+import { withModelFailover } from './failover.js';
+import { getModel } from './providers.js';
+import { getActiveProfile } from './modelProfiles.js';
+import { parseJsonResponse } from './utils/parsing.js';
+import { mapUsageToTracking } from './utils/tokenTracking.js';
+
+/** Most ideas placed in one request */
+export const MAX_IDEAS_TO_PLACE = 30;
+/** Most existing ideas sent as calibration context */
+const MAX_BOARD_CONTEXT = 60;
+const MAX_RATIONALE_LENGTH = 200;
+
+interface AxisInput {
+  label: string;
+  low: string;
+  high: string;
+}
+
+interface IdeaInput {
+  id: string;
+  title: string;
+  description: string;
+}
+
+interface BoardIdeaInput {
+  title: string;
+  xScore: number;
+  yScore: number;
+}
+
+export interface IdeaPlacement {
+  id: string;
+  xScore: number;
+  yScore: number;
+  rationale: string;
+}
+
+const DEFAULT_X_AXIS: AxisInput = { label: 'Implementation Difficulty', low: 'Low Effort', high: 'High Effort' };
+const DEFAULT_Y_AXIS: AxisInput = { label: 'Business Value', low: 'Low Value', high: 'High Value' };
+
+function text(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function readAxis(value: unknown, fallback: AxisInput): AxisInput {
+  const axis = (value ?? {}) as Record<string, unknown>;
+  return {
+    label: text(axis.label, 80) || fallback.label,
+    low: text(axis.low, 80) || fallback.low,
+    high: text(axis.high, 80) || fallback.high,
+  };
+}
+
+function clampScore(value: unknown): number | null {
+  const score = typeof value === 'string' ? Number(value) : value;
+  if (typeof score !== 'number' || !Number.isFinite(score)) return null;
+  return Math.round(Math.max(0, Math.min(100, score)));
+}
+
+/**
+ * Keep one well-formed placement per requested idea, in request order.
+ * Unknown ids, duplicates and entries without both scores are dropped.
+ */
+export function normalizePlacements(raw: unknown, ideaIds: string[]): IdeaPlacement[] {
+  const list = Array.isArray(raw)
+    ? raw
+    : Array.isArray((raw as { placements?: unknown })?.placements)
+      ? (raw as { placements: unknown[] }).placements
+      : [];
+
+  const byId = new Map<string, IdeaPlacement>();
+  for (const entry of list) {
+    const item = (entry ?? {}) as Record<string, unknown>;
+    const id = typeof item.id === 'string' ? item.id : String(item.id ?? '');
+    const xScore = clampScore(item.xScore);
+    const yScore = clampScore(item.yScore);
+    if (!ideaIds.includes(id) || byId.has(id) || xScore === null || yScore === null) continue;
+    byId.set(id, { id, xScore, yScore, rationale: text(item.rationale, MAX_RATIONALE_LENGTH) });
+  }
+
+  return ideaIds.flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * Handles the place-ideas action.
+ *
+ * Body: { projectName, projectDescription?, projectType?, xAxis?, yAxis?,
+ * ideas: [{ id, title, description }], board?: [{ title, xScore, yScore }] }.
+ * Returns { placements: [{ id, xScore, yScore, rationale }] }.
+ */
+export async function handlePlaceIdeas(req: AuthenticatedRequest, res: VercelResponse) {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const projectName = text(body.projectName, 200);
+
+  if (!projectName || !Array.isArray(body.ideas) || body.ideas.length === 0) {
+    return res.status(400).json({ error: 'Project name and ideas array are required' });
+  }
+  if (body.ideas.length > MAX_IDEAS_TO_PLACE) {
+    return res.status(400).json({ error: `At most ${MAX_IDEAS_TO_PLACE} ideas can be placed at once` });
+  }
+
+  const ideas: IdeaInput[] = (body.ideas as unknown[]).map((idea) => {
+    const item = (idea ?? {}) as Record<string, unknown>;
+    return { id: text(item.id, 100), title: text(item.title, 200), description: text(item.description, 1000) };
+  });
+  if (ideas.some((idea) => !idea.id || !idea.title)) {
+    return res.status(400).json({ error: 'Every idea needs an id and a title' });
+  }
+
+  const board: BoardIdeaInput[] = (Array.isArray(body.board) ? body.board : [])
+    .slice(0, MAX_BOARD_CONTEXT)
+    .flatMap((idea: unknown) => {
+      const item = (idea ?? {}) as Record<string, unknown>;
+      const title = text(item.title, 200);
+      const xScore = clampScore(item.xScore);
+      const yScore = clampScore(item.yScore);
+      return title && xScore !== null && yScore !== null ? [{ title, xScore, yScore }] : [];
+    });
+  const xAxis = readAxis(body.xAxis, DEFAULT_X_AXIS);
+  const yAxis = readAxis(body.yAxis, DEFAULT_Y_AXIS);
+  const projectDescription = text(body.projectDescription, 2000);
+  const projectType = text(body.projectType, 50) || 'other';
+
+  try {
+    // Quota enforcement before AI processing; placements count as idea generation
+    const userId = req.user!.id;
+    const limitCheck = await checkLimit(userId, 'ai_ideas');
+
+    if (!limitCheck.canUse) {
+      return res.status(402).json({
+        error: {
+          code: 'quota_exceeded',
+          resource: 'ai_ideas',
+          limit: limitCheck.limit,
+          used: limitCheck.current,
+          upgradeUrl: '/pricing',
+        },
+      });
+    }
+
+    const profile = await getActiveProfile();
+    const routing: TaskRoutingContext = {
+      task: 'place-ideas',
+      hasVision: false,
+      hasAudio: false,
+      userTier: 'free',
+    };
+    const selection = selectModel(routing, profile);
+
+    const systemPrompt = `You are a product strategist placing ideas on a two-axis prioritization matrix.
+
+AXES:
+- xScore: ${xAxis.label}. 0 = ${xAxis.low}, 100 = ${xAxis.high}.
+- yScore: ${yAxis.label}. 0 = ${yAxis.low}, 100 = ${yAxis.high}.
+
+Score every idea on both axes for THIS project, judged against its description. When ideas are already on the board, keep your scores consistent with theirs: an idea that is clearly harder or more valuable than a placed one should score beyond it.
+
+RESPONSE FORMAT:
+Return only a JSON array, one entry per idea, using the ids given:
+[
+  { "id": "idea id", "xScore": 0-100, "yScore": 0-100, "rationale": "One sentence (max 25 words) explaining both scores" }
+]`;
+
+    const boardSection = board.length > 0
+      ? `\nALREADY ON THE BOARD (for calibration):\n${board.map((idea) => `- "${idea.title}": xScore ${idea.xScore}, yScore ${idea.yScore}`).join('\n')}\n`
+      : '';
+
+    const userPrompt = `PROJECT: ${projectName}
+Type: ${projectType}
+Description: ${projectDescription || 'No description provided'}
+${boardSection}
+IDEAS TO PLACE:
+${ideas.map((idea) => `- id: ${idea.id}\n  title: ${idea.title}${idea.description ? `\n  details: ${idea.description}` : ''}`).join('\n')}`;
+
+    const startTime = Date.now();
+    const { result: { text: responseText, usage }, gatewayModelId, modelId } = await withModelFailover(selection, routing, (candidate) => generateText({
+      model: getModel(candidate),
+      system: systemPrompt,
+      prompt: userPrompt,
+      temperature: selection.temperature,
+      maxOutputTokens: selection.maxOutputTokens,
+    }));
+    const responseTimeMs = Date.now() - startTime;
+
+    let placements: IdeaPlacement[];
+    try {
+      placements = normalizePlacements(parseJsonResponse(responseText), ideas.map((idea) => idea.id));
+    } catch (_parseError) {
+      console.error('Failed to parse AI placement response as JSON');
+      placements = [];
+    }
+
+    await trackTokenUsage({
+      userId,
+      projectId: typeof body.projectId === 'string' ? body.projectId : null,
+      endpoint: 'place-ideas',
+      model: modelId,
+      usage: mapUsageToTracking(usage),
+      responseTimeMs,
+      success: true,
+      profileName: profile.name,
+    });
+
+    try {
+      await trackAIUsage(userId, 'ai_ideas');
+    } catch (_trackingError) {
+      console.error('Failed to track AI usage (non-critical):', _trackingError);
+    }
+
+    return res.status(200).json({ placements, model: gatewayModelId });
+  } catch (error) {
+    console.error('Error placing ideas:', error);
+    // T-02-06: Do not expose raw AI SDK error details
+    return res.status(500).json({ error: 'Failed to place ideas' });
+  }
+}
@@ -0,0 +1,425 @@
+/**
+ * Project Chat handler -- the assistant side panel.
+ *
+ * Answers questions about one project from the context the client gathered
+ * (ideas, latest roadmap and insights, excerpts from analysed files) and may
+ * propose actions: create an idea, move an idea to a quadrant, or regenerate
+ * a roadmap phase. Nothing is changed here; the user confirms each proposed
+ * action in the panel and the client carries it out.
+ *
+ * File summaries and excerpts are untrusted: they go through the context
+ * guard and are fenced in the prompt like the files of other AI requests.
+ */
+
+import { generateText } from 'ai';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthenticatedRequest } from '../middleware/index.js';
+import { checkLimit, trackAIUsage } from '../services/subscriptionService.js';
+import { trackTokenUsage } from '../utils/supabaseAdmin.js';
+import { selectModel, type TaskRoutingContext } from './modelRouter.js';
+import { withModelFailover } from './failover.js';
+import { getModel } from './providers.js';
+import { getActiveProfile } from './modelProfiles.js';
+import { parseJsonResponse } from './utils/parsing.js';
+import { mapUsageToTracking } from './utils/tokenTracking.js';
+import {
+  guardFileContent,
+  fenceUntrusted,
+  logContextFindings,
+  MAX_FILE_CONTEXT_CHARS,
+  UNTRUSTED_CONTENT_INSTRUCTION,
+  type ContextFinding,
+  type FlaggedFile,
+} from './utils/contextGuard.js';
+
+/** Most earlier messages sent back to the model */
+export const MAX_CHAT_MESSAGES = 20;
+const MAX_MESSAGE_LENGTH = 4000;
+const MAX_CONTEXT_IDEAS = 300;
+const MAX_CONTEXT_FILES = 5;
+const MAX_ACTIONS = 5;
+
+const PRIORITIES = ['low', 'moderate', 'high', 'strategic', 'innovation'];
+
+export type ChatAction =
+  | { type: 'create_idea'; content: string; details: string; quadrant?: string; priority: string }
+  | { type: 'move_idea'; ideaId: string; quadrant: string }
+  | { type: 'regenerate_roadmap_phase'; phaseIndex: number; instructions: string };
+
+interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface ContextIdea {
+  id: string;
+  title: string;
+  details: string;
+  quadrant: string;
+  priority: string;
+  tags: string[];
+  theme: string;
+}
+
+interface ContextPhase {
+  phase: string;
+  duration: string;
+  description: string;
+  epics: string[];
+}
+
+interface ContextFile {
+  id: string;
+  name: string;
+  summary: string;
+  keyInsights: string[];
+  excerpts: string[];
+}
+
+interface ChatContext {
+  quadrants: Array<{ id: string; label: string }>;
+  ideas: ContextIdea[];
+  roadmap: { totalDuration: string; phases: ContextPhase[] } | null;
+  insights: { executiveSummary: string; keyInsights: string[]; recommendations: string[] } | null;
+  files: ContextFile[];
+}
+
+function text(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function texts(value: unknown, maxItems: number, maxLength: number): string[] {
+  return (Array.isArray(value) ? value : [])
+    .map((item) => text(item, maxLength))
+    .filter(Boolean)
+    .slice(0, maxItems);
+}
+
+function record(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * Sanitize the project context sent by the client. Everything is optional;
+ * missing parts are left out of the prompt.
+ */
+export function normalizeChatContext(raw: unknown): ChatContext {
+  const body = record(raw);
+
+  const quadrants = (Array.isArray(body.quadrants) ? body.quadrants : [])
+    .map((entry) => {
+      const item = record(entry);
+      return { id: text(item.id, 50), label: text(item.label, 100) };
+    })
+    .filter((quadrant) => quadrant.id && quadrant.label);
+
+  const ideas = (Array.isArray(body.ideas) ? body.ideas : [])
+    .slice(0, MAX_CONTEXT_IDEAS)
+    .map((entry) => {
+      const item = record(entry);
+      return {
+        id: text(item.id, 100),
+        title: text(item.title, 200),
+        details: text(item.details, 500),
+        quadrant: text(item.quadrant, 100),
+        priority: text(item.priority, 20),
+        tags: texts(item.tags, 10, 50),
+        theme: text(item.theme, 60),
+      };
+    })
+    .filter((idea) => idea.id && idea.title);
+
+  const roadmapBody = record(body.roadmap);
+  const phases = (Array.isArray(roadmapBody.phases) ? roadmapBody.phases : []).slice(0, 12).map((entry) => {
+    const item = record(entry);
+    return {
+      phase: text(item.phase, 200),
+      duration: text(item.duration, 50),
+      description: text(item.description, 1000),
+      epics: texts(item.epics, 12, 200),
+    };
+  });
+  const roadmap = phases.length > 0 ? { totalDuration: text(roadmapBody.totalDuration, 50), phases } : null;
+
+  const insightsBody = record(body.insights);
+  const insights = {
+    executiveSummary: text(insightsBody.executiveSummary, 3000),
+    keyInsights: texts(insightsBody.keyInsights, 10, 500),
+    recommendations: texts(insightsBody.recommendations, 10, 500),
+  };
+
+  const files = (Array.isArray(body.files) ? body.files : [])
+    .slice(0, MAX_CONTEXT_FILES)
+    .map((entry) => {
+      const item = record(entry);
+      return {
+        id: text(item.id, 100),
+        name: text(item.name, 200),
+        summary: text(item.summary, 2000),
+        keyInsights: texts(item.keyInsights, 10, 500),
+        excerpts: texts(item.excerpts, 3, 2000),
+      };
+    })
+    .filter((file) => file.name);
+
+  return {
+    quadrants,
+    ideas,
+    roadmap,
+    insights: insights.executiveSummary || insights.keyInsights.length > 0 || insights.recommendations.length > 0
+      ? insights
+      : null,
+    files,
+  };
+}
+
+/**
+ * Cleans and caps the file text in the chat context. Summary, key points and
+ * excerpts share the per-file cap in that order.
+ * @returns The cleaned files, and the files that had findings
+ */
+export function guardChatFiles(files: ContextFile[]): { files: ContextFile[]; flagged: FlaggedFile[] } {
+  const flagged: FlaggedFile[] = [];
+  const guardedFiles = files.map((file) => {
+    let budget = MAX_FILE_CONTEXT_CHARS;
+    const findings: ContextFinding[] = [];
+    const guard = (value: string): string => {
+      if (budget <= 0) return '';
+      const guarded = guardFileContent(value, budget);
+      budget -= guarded.text.length;
+      findings.push(...guarded.findings);
+      return guarded.text;
+    };
+
+    const guarded = {
+      ...file,
+      summary: guard(file.summary),
+      keyInsights: file.keyInsights.map(guard).filter(Boolean),
+      excerpts: file.excerpts.map(guard).filter(Boolean),
+    };
+    if (findings.length > 0) {
+      flagged.push({ id: file.id || null, name: file.name, findings });
+    }
+    return guarded;
+  });
+
+  return { files: guardedFiles, flagged };
+}
+
+/**
+ * Keep well-formed actions that refer to things in the context: known
+ * ideas, configured quadrants and existing roadmap phases. Anything else is
+ * dropped rather than shown to the user as a button that cannot work.
+ */
+export function normalizeChatActions(raw: unknown, context: ChatContext): ChatAction[] {
+  const ideaIds = new Set(context.ideas.map((idea) => idea.id));
+  const quadrantIds = new Set(context.quadrants.map((quadrant) => quadrant.id));
+  const phaseCount = context.roadmap?.phases.length ?? 0;
+  const actions: ChatAction[] = [];
+
+  for (const entry of Array.isArray(raw) ? raw : []) {
+    const item = record(entry);
+    const quadrant = text(item.quadrant, 50);
+
+    if (item.type === 'create_idea') {
+      const content = text(item.content, 200);
+      if (!content) continue;
+      const priority = text(item.priority, 20);
+      actions.push({
+        type: 'create_idea',
+        content,
+        details: text(item.details, 1000),
+        ...(quadrantIds.has(quadrant) ? { quadrant } : {}),
+        priority: PRIORITIES.includes(priority) ? priority : 'moderate',
+      });
+    } else if (item.type === 'move_idea') {
+      const ideaId = text(item.ideaId, 100);
+      if (!ideaIds.has(ideaId) || !quadrantIds.has(quadrant)) continue;
+      actions.push({ type: 'move_idea', ideaId, quadrant });
+    } else if (item.type === 'regenerate_roadmap_phase') {
+      const phaseIndex = Number(item.phaseIndex);
+      if (!Number.isInteger(phaseIndex) || phaseIndex < 0 || phaseIndex >= phaseCount) continue;
+      actions.push({ type: 'regenerate_roadmap_phase', phaseIndex, instructions: text(item.instructions, 500) });
+    }
+
+    if (actions.length === MAX_ACTIONS) break;
+  }
+
+  return actions;
+}
+
+/**
+ * Builds the project section of the system prompt from the sanitized context.
+ */
+export function buildChatContextPrompt(
+  project: { name: string; type: string; description: string },
+  context: ChatContext
+): string {
+  const quadrantLabels = new Map(context.quadrants.map((quadrant) => [quadrant.id, quadrant.label]));
+  const sections: string[] = [
+    `PROJECT: ${project.name}\nType: ${project.type}\nDescription: ${project.description || 'No description provided'}`,
+  ];
+
+  if (context.quadrants.length > 0) {
+    sections.push(`MATRIX QUADRANTS (id: label):\n${context.quadrants.map((q) => `- ${q.id}: ${q.label}`).join('\n')}`);
+  }
+
+  sections.push(context.ideas.length > 0
+    ? `IDEAS ON THE MATRIX (${context.ideas.length}):\n${context.ideas.map((idea) => {
+        const facts = [
+          `quadrant: ${quadrantLabels.get(idea.quadrant) ?? (idea.quadrant || 'unknown')}`,
+          idea.priority && `priority: ${idea.priority}`,
+          idea.tags.length > 0 && `tags: ${idea.tags.join(', ')}`,
+          idea.theme && `theme: ${idea.theme}`,
+        ].filter(Boolean).join(' | ');
+        return `- [${idea.id}] ${idea.title} (${facts})${idea.details ? `\n  ${idea.details}` : ''}`;
+      }).join('\n')}`
+    : 'IDEAS ON THE MATRIX: none yet');
+
+  if (context.roadmap) {
+    sections.push(`LATEST ROADMAP${context.roadmap.totalDuration ? ` (${context.roadmap.totalDuration})` : ''}:\n${
+      context.roadmap.phases.map((phase, index) =>
+        `Phase ${index} - ${phase.phase}${phase.duration ? ` (${phase.duration})` : ''}: ${phase.description}${
+          phase.epics.length > 0 ? `\n  Epics: ${phase.epics.join('; ')}` : ''}`
+      ).join('\n')}`);
+  }
+
+  if (context.insights) {
+    sections.push(`LATEST INSIGHTS REPORT:${
+      context.insights.executiveSummary ? `\nSummary: ${context.insights.executiveSummary}` : ''}${
+      context.insights.keyInsights.length > 0 ? `\nKey insights:\n${context.insights.keyInsights.map((i) => `- ${i}`).join('\n')}` : ''}${
+      context.insights.recommendations.length > 0 ? `\nRecommendations:\n${context.insights.recommendations.map((r) => `- ${r}`).join('\n')}` : ''}`);
+  }
+
+  if (context.files.length > 0) {
+    sections.push(`PROJECT FILES (analysis and the excerpts most relevant to the question):\n${context.files.map((file) => `[File: ${file.name}]\n${fenceUntrusted(file.name, [
+      file.summary && `Summary: ${file.summary}`,
+      file.keyInsights.length > 0 && `Key points:\n${file.keyInsights.map((i) => `- ${i}`).join('\n')}`,
+      ...file.excerpts.map((excerpt) => `Excerpt: """${excerpt}"""`),
+    ].filter(Boolean).join('\n'))}`).join('\n\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Handles the project-chat action.
+ *
+ * Body: { projectName, projectDescription?, projectType?, messages: [{ role,
+ * content }], context: { quadrants, ideas, roadmap, insights, files } }. The
+ * last message must be the user's.
+ * Returns { reply, actions }.
+ */
+export async function handleProjectChat(req: AuthenticatedRequest, res: VercelResponse) {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const projectName = text(body.projectName, 200);
+
+  const messages: ChatMessage[] = (Array.isArray(body.messages) ? body.messages : [])
+    .slice(-MAX_CHAT_MESSAGES)
+    .map((entry) => {
+      const item = record(entry);
+      return { role: item.role === 'assistant' ? 'assistant' as const : 'user' as const, content: text(item.content, MAX_MESSAGE_LENGTH) };
+    })
+    .filter((message) => message.content);
+
+  if (!projectName || messages.length === 0 || messages[messages.length - 1].role !== 'user') {
+    return res.status(400).json({ error: 'Project name and a question are required' });
+  }
+
+  const normalized = normalizeChatContext(body.context);
+  const { files, flagged } = guardChatFiles(normalized.files);
+  const context = { ...normalized, files };
+  const projectId = typeof body.projectId === 'string' ? body.projectId : null;
+  const projectDescription = text(body.projectDescription, 2000);
+  const projectType = text(body.projectType, 50) || 'other';
+
+  try {
+    // Quota enforcement before AI processing; chat counts as insights
+    const userId = req.user!.id;
+    const limitCheck = await checkLimit(userId, 'ai_insights');
+
+    if (!limitCheck.canUse) {
+      return res.status(402).json({
+        error: {
+          code: 'quota_exceeded',
+          resource: 'ai_insights',
+          limit: limitCheck.limit,
+          used: limitCheck.current,
+          upgradeUrl: '/pricing',
+        },
+      });
+    }
+
+    // File text is untrusted: audit-log anything that looked like an injection
+    if (flagged.length > 0) {
+      await logContextFindings({ userId, projectId, source: 'project-chat', files: flagged });
+    }
+
+    const profile = await getActiveProfile();
+    const routing: TaskRoutingContext = {
+      task: 'project-chat',
+      hasVision: false,
+      hasAudio: false,
+      userTier: 'free',
+    };
+    const selection = selectModel(routing, profile);
+
+    const systemPrompt = `You are the project assistant in a prioritization matrix app. Answer the team's questions about this project using only the project context below. Be concise and specific: name ideas by title, and say plainly when the context does not contain the answer.${context.files.length > 0 ? ` ${UNTRUSTED_CONTENT_INSTRUCTION}` : ''}
+
+When it would help, propose up to ${MAX_ACTIONS} actions. The user confirms each one before it runs. Available actions:
+- { "type": "create_idea", "content": "short title", "details": "one or two sentences", "quadrant": "quadrant id", "priority": "low|moderate|high|strategic|innovation" }
+- { "type": "move_idea", "ideaId": "id in [brackets] from the idea list", "quadrant": "quadrant id" }${context.roadmap ? `
+- { "type": "regenerate_roadmap_phase", "phaseIndex": phase number from the roadmap, "instructions": "what to change" }` : ''}
+Only propose actions the user asked for or that follow directly from the answer.
+
+RESPONSE FORMAT:
+Return only a JSON object:
+{ "reply": "your answer in plain text or simple markdown", "actions": [] }
+
+${buildChatContextPrompt({ name: projectName, type: projectType, description: projectDescription }, context)}`;
+
+    const startTime = Date.now();
+    const { result: { text: responseText, usage }, gatewayModelId, modelId } = await withModelFailover(selection, routing, (candidate) => generateText({
+      model: getModel(candidate),
+      system: systemPrompt,
+      messages,
+      temperature: selection.temperature,
+      maxOutputTokens: selection.maxOutputTokens,
+    }));
+    const responseTimeMs = Date.now() - startTime;
+
+    // A model that answers in plain text still answers; it just proposes nothing
+    let reply = responseText.trim();
+    let actions: ChatAction[] = [];
+    try {
+      const parsed = record(parseJsonResponse(responseText));
+      reply = text(parsed.reply, 8000) || reply;
+      actions = normalizeChatActions(parsed.actions, context);
+    } catch (_parseError) {
+      console.error('AI chat response was not JSON; returning it as the reply');
+    }
+
+    await trackTokenUsage({
+      userId,
+      projectId,
+      endpoint: 'project-chat',
+      model: modelId,
+      usage: mapUsageToTracking(usage),
+      responseTimeMs,
+      success: true,
+      profileName: profile.name,
+    });
+
+    try {
+      await trackAIUsage(userId, 'ai_insights');
+    } catch (_trackingError) {
+      console.error('Failed to track AI usage (non-critical):', _trackingError);
+    }
+
+    return res.status(200).json({ reply, actions, model: gatewayModelId });
+  } catch (error) {
+    console.error('Error in project chat:', error);
+    // T-02-06: Do not expose raw AI SDK error details
+    return res.status(500).json({ error: 'Failed to answer the question' });
+  }
+}
@@ -51,3 +51,16 @@ export function getModel(gatewayModelId: GatewayModelId | (string & {})) {
   const gw = getGateway();
   return gw(gatewayModelId as GatewayModelId);
 }
+
+/** Embedding model used for idea similarity (duplicate detection) */
+export const EMBEDDING_MODEL_ID = 'openai/text-embedding-3-small';
+
+/**
+ * Returns an AI SDK embedding model instance for use with embedMany().
+ *
+ * @param gatewayModelId - Embedding model ID in provider/model format
+ */
+export function getEmbeddingModel(gatewayModelId: string = EMBEDDING_MODEL_ID) {
+  const gw = getGateway();
+  return gw.embeddingModel(gatewayModelId);
+}
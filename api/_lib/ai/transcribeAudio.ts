@@ -12,7 +12,8 @@
 
 import { generateText, experimental_transcribe } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
-import { selectModel, getProviderOptions } from './modelRouter.js';
+import { selectModel, type TaskRoutingContext } from './modelRouter.js';
+import { withModelFailover } from './failover.js';
 import { getModel } from './providers.js';
 import { getActiveProfile } from './modelProfiles.js';
 import { createClient } from '@supabase/supabase-js';
@@ -125,14 +126,13 @@ export async function handleTranscribeAudio(req: AuthenticatedRequest, res: Verc
     // The Whisper transcription above remains a targeted @ai-sdk/openai exception (gateway
     // does not support transcription models). AI_GATEWAY_API_KEY is required for this step.
     const profile = await getActiveProfile();
-    const summarySelection = selectModel({
+    const summaryRouting: TaskRoutingContext = {
       task: 'transcribe-summary',
       hasVision: false,
       hasAudio: false,
       userTier: 'free',
-    }, profile);
-    const summaryModel = getModel(summarySelection.gatewayModelId);
-    const providerOptions = getProviderOptions(summarySelection.fallbackModels);
+    };
+    const summarySelection = selectModel(summaryRouting, profile);
 
     const projectInfo = projectContext
       ? `\n\nProject: ${projectContext.projectName || 'Unknown'}\nType: ${projectContext.projectType || 'General'}`
@@ -149,13 +149,12 @@ Provide a concise analysis with:
 
 Return as JSON: { "summary": "...", "keyPoints": ["point1", "point2", ...] }`;
 
-    const { text: summaryText, usage } = await generateText({
-      model: summaryModel,
+    const { result: { text: summaryText, usage }, gatewayModelId } = await withModelFailover(summarySelection, summaryRouting, (candidate) => generateText({
+      model: getModel(candidate),
       prompt: summaryPrompt,
       maxOutputTokens: summarySelection.maxOutputTokens,
       temperature: summarySelection.temperature,
-      ...(providerOptions ? { providerOptions } : {}),
-    });
+    }));
 
     const tracking = mapUsageToTracking(usage as any);
     console.log('Summary generated, tokens used:', tracking.total_tokens);
@@ -190,6 +189,7 @@ Return as JSON: { "summary": "...", "keyPoints": ["point1", "point2", ...] }`;
         language,
         duration: null,
       },
+      model: gatewayModelId,
     });
 
   } catch (error) {
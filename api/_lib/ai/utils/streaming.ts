@@ -0,0 +1,231 @@
+/**
+ * Server-sent event streaming for AI generation handlers.
+ *
+ * generate-ideas, generate-insights and generate-roadmap accept `stream: true`
+ * in the body (or `?stream=1`). Validation and quota checks still answer with
+ * plain JSON errors; once generation starts the response becomes an SSE
+ * stream:
+ *
+ * - partial events as soon as a piece of the JSON output is complete
+ *   (`idea`, `phase` or `section`, one per element)
+ * - `done` with the same body the non-streaming response would have sent
+ * - `error` with `{ error }` if generation fails part-way
+ *
+ * Closing the connection aborts the model call. That is watched on the
+ * response: the request emits `close` as soon as its body has been read.
+ */
+
+import { streamText } from 'ai';
+import type { LanguageModelUsage } from 'ai';
+import type { VercelResponse } from '@vercel/node';
+import type { AuthenticatedRequest } from '../../middleware/index.js';
+
+export interface AiEventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  /** Aborted when the client disconnects */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Whether the caller asked for a streamed response.
+ */
+export function wantsStream(req: AuthenticatedRequest): boolean {
+  return req.body?.stream === true || req.query?.stream === '1';
+}
+
+/**
+ * Switches the response to an SSE stream.
+ */
+export function openEventStream(res: VercelResponse): AiEventStream {
+  const controller = new AbortController();
+  let closed = false;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable proxy buffering so events reach the browser as they are written
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+
+  // Closed before we ended it: the client went away
+  res.on?.('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  return {
+    send(event, data) {
+      if (closed || controller.signal.aborted) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      res.end();
+    },
+    signal: controller.signal,
+  };
+}
+
+type StreamTextParams = Parameters<typeof streamText>[0];
+
+/**
+ * Runs the model with streamText, calling `onText` with the text so far after
+ * every chunk. Resolves with the full text and token usage, like generateText.
+ */
+export async function streamGeneratedText(
+  stream: AiEventStream,
+  params: Omit<StreamTextParams, 'abortSignal'>,
+  onText: (text: string) => void,
+): Promise<{ text: string; usage: LanguageModelUsage }> {
+  let streamError: unknown = null;
+  const result = streamText({
+    ...params,
+    abortSignal: stream.signal,
+    onError: ({ error }) => {
+      streamError = error;
+    },
+  } as StreamTextParams);
+
+  let text = '';
+  for await (const chunk of result.textStream) {
+    text += chunk;
+    onText(text);
+  }
+  if (streamError) throw streamError;
+
+  return { text, usage: await result.usage };
+}
+
+// ---------------------------------------------------------------------------
+// Partial JSON
+// ---------------------------------------------------------------------------
+
+interface Frame {
+  kind: '{' | '[';
+  key: string | null;
+  entryStart: number;
+  target: boolean;
+}
+
+/**
+ * Scans possibly-truncated JSON and returns the raw text of every complete
+ * entry of the containers selected by `isTarget`. An entry is complete once
+ * the separator or closing bracket after it has arrived.
+ */
+function completedEntries(
+  text: string,
+  isTarget: (kind: Frame['kind'], key: string | null, depth: number) => boolean,
+): string[] {
+  const entries: string[] = [];
+  const stack: Frame[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastString: string | null = null;
+  let pendingKey: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') {
+        inString = false;
+        lastString = text.slice(stringStart, i + 1);
+      }
+      continue;
+    }
+
+    const top = stack[stack.length - 1];
+    if (ch === '"') {
+      inString = true;
+      stringStart = i;
+    } else if (ch === ':') {
+      try {
+        pendingKey = lastString ? JSON.parse(lastString) : null;
+      } catch {
+        pendingKey = null;
+      }
+    } else if (ch === '{' || ch === '[') {
+      const key = top?.kind === '{' ? pendingKey : null;
+      stack.push({ kind: ch, key, entryStart: i + 1, target: isTarget(ch, key, stack.length) });
+    } else if (ch === ',' || ch === '}' || ch === ']') {
+      if (top?.target) {
+        const raw = text.slice(top.entryStart, i).trim();
+        if (raw) entries.push(raw);
+        top.entryStart = i + 1;
+      }
+      if (ch !== ',') stack.pop();
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Complete elements of an array in partial JSON: the top-level array, or the
+ * first array under `key` (e.g. `phases`).
+ */
+export function parseCompletedArrayItems(text: string, key?: string): unknown[] {
+  const raws = completedEntries(text, (kind, frameKey, depth) =>
+    kind === '[' && (key ? frameKey === key : depth === 0));
+  const items: unknown[] = [];
+  for (const raw of raws) {
+    try {
+      items.push(JSON.parse(raw));
+    } catch {
+      // Not an element we can use (e.g. prose with brackets before the JSON)
+    }
+  }
+  return items;
+}
+
+/**
+ * Complete fields of the top-level object in partial JSON.
+ */
+export function parseCompletedFields(text: string): Record<string, unknown> {
+  const raws = completedEntries(text, (kind, _key, depth) => kind === '{' && depth === 0);
+  const fields: Record<string, unknown> = {};
+  for (const raw of raws) {
+    try {
+      Object.assign(fields, JSON.parse(`{${raw}}`));
+    } catch {
+      // Skip fields that do not parse on their own
+    }
+  }
+  return fields;
+}
+
+/**
+ * Returns an `onText` callback that sends each newly completed item once.
+ */
+export function createItemEmitter(
+  stream: AiEventStream,
+  event: string,
+  extract: (text: string) => unknown[],
+): (text: string) => void {
+  let sent = 0;
+  return (text) => {
+    const items = extract(text);
+    for (; sent < items.length; sent++) {
+      stream.send(event, items[sent]);
+    }
+  };
+}
+
+/**
+ * Returns an `onText` callback that sends each newly completed top-level
+ * field once, as `{ key, value }`.
+ */
+export function createFieldEmitter(stream: AiEventStream, event: string): (text: string) => void {
+  const sent = new Set<string>();
+  return (text) => {
+    for (const [key, value] of Object.entries(parseCompletedFields(text))) {
+      if (sent.has(key)) continue;
+      sent.add(key);
+      stream.send(event, { key, value });
+    }
+  };
+}
@@ -1,8 +1,9 @@
 /**
- * Audit Logger — Shared Writer for Authentication Events
+ * Audit Logger — Shared Writer for Authentication and Security Events
  *
- * Writes auth-lifecycle events to the `admin_audit_log` table with strict
- * privacy guarantees (L001 retro lesson):
+ * Writes auth-lifecycle events, and security events such as a suspected
+ * prompt injection in an uploaded file, to the `admin_audit_log` table with
+ * strict privacy guarantees (L001 retro lesson):
  *   - No raw email, no password, no access/refresh tokens, no CSRF, no reset token
  *   - Email → SHA-256 hash of lowercase/trimmed value
  *   - Session reference → first 8 chars of SHA-256 of access_token (never the token itself)
@@ -43,6 +44,7 @@ export type AuditEvent =
   | 'EMAIL_CONFIRMED'
   | 'RATE_LIMIT_BLOCKED'
   | 'TERMINAL_LOGOUT'
+  | 'PROMPT_INJECTION_DETECTED'
 
 export interface AuditLogParams {
   event: AuditEvent
@@ -51,6 +53,10 @@ export interface AuditLogParams {
   ipAddress?: string
   userAgent?: string
   context?: Record<string, unknown>
+  /** Authenticated user, when the event has one; defaults to the nil UUID */
+  userId?: string
+  /** Endpoint the event came from; defaults to /api/auth */
+  resource?: string
 }
 
 // Nil UUID used when the audit row has no authenticated user_id available.
@@ -204,9 +210,9 @@ export async function logAuthEvent(params: AuditLogParams): Promise<void> {
     }
 
     const row = {
-      user_id: NIL_UUID,
+      user_id: params.userId ?? NIL_UUID,
       action: params.event,
-      resource: '/api/auth',
+      resource: params.resource ?? '/api/auth',
       is_admin: false,
       timestamp: new Date().toISOString(),
       ip_address: params.ipAddress ? maskIp(params.ipAddress) : null,
@@ -0,0 +1,196 @@
+/**
+ * budgetService backend tests
+ *
+ * Covers checkBudget: no budgets, soft-limit warnings, hard stops from the
+ * month's spend and from the pre-flight estimate, alert recording, and
+ * failing open when the lookup errors.
+ *
+ * Mock strategy: same as subscriptionService.test — a shared `from` mock
+ * returning chainable builders per table.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../utils/supabaseAdmin', () => {
+  const fromMock = vi.fn()
+  return {
+    supabaseAdmin: { from: fromMock },
+    __from: fromMock,
+  }
+})
+
+import * as adminLib from '../../utils/supabaseAdmin'
+import { canAccessProject, checkBudget, _resetBudgetAlertsForTesting, type AiBudget } from '../budgetService'
+
+const fromMock = (adminLib as any).__from as ReturnType<typeof vi.fn>
+
+const USER_ID = '11111111-1111-4111-8111-111111111111'
+const PROJECT_ID = '22222222-2222-4222-8222-222222222222'
+const NOW = new Date('2026-10-19T12:00:00Z')
+
+// Chainable builder; `resolve` receives the .eq() filter so spend can differ per scope
+function makeBuilder(resolve: (eq: [string, unknown] | null) => any) {
+  let eqFilter: [string, unknown] | null = null
+  const builder: any = {
+    select: vi.fn(() => builder),
+    eq: vi.fn((column: string, value: unknown) => {
+      eqFilter = [column, value]
+      return builder
+    }),
+    in: vi.fn(() => builder),
+    gte: vi.fn(() => builder),
+    upsert: vi.fn(() => builder),
+    then: (cb: (v: any) => any) => Promise.resolve(resolve(eqFilter)).then(cb),
+  }
+  return builder
+}
+
+function budget(overrides: Partial<AiBudget>): AiBudget {
+  return {
+    id: 'b1',
+    scope: 'project',
+    scope_id: PROJECT_ID,
+    monthly_cost_limit: 10,
+    monthly_token_limit: null,
+    soft_limit_percent: 80,
+    ...overrides,
+  }
+}
+
+// Wires ai_budgets, ai_token_usage (spend keyed by scope id) and ai_budget_alerts
+function mockTables(budgets: AiBudget[], spend: Record<string, { cost: number; tokens: number }>) {
+  const alertBuilders: any[] = []
+  fromMock.mockImplementation((table: string) => {
+    if (table === 'ai_budgets') return makeBuilder(() => ({ data: budgets, error: null }))
+    if (table === 'ai_token_usage') {
+      return makeBuilder((eq) => {
+        const entry = eq ? spend[eq[1] as string] : undefined
+        return { data: entry ? [{ total_cost: String(entry.cost), total_tokens: entry.tokens }] : [], error: null }
+      })
+    }
+    if (table === 'ai_budget_alerts') {
+      const builder = makeBuilder(() => ({ error: null }))
+      alertBuilders.push(builder)
+      return builder
+    }
+    throw new Error(`unexpected table: ${table}`)
+  })
+  return alertBuilders
+}
+
+beforeEach(() => {
+  fromMock.mockReset()
+  _resetBudgetAlertsForTesting()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('checkBudget', () => {
+  it('allows the call and reports ok when no budget applies', async () => {
+    mockTables([], {})
+    const result = await checkBudget(USER_ID, PROJECT_ID, undefined, NOW)
+    expect(result).toEqual({
+      allowed: true,
+      level: 'ok',
+      budgets: [],
+      blockedBy: null,
+      resetsAt: '2026-11-01T00:00:00.000Z',
+    })
+  })
+
+  it('warns once spend passes the soft limit and records one alert', async () => {
+    const alerts = mockTables([budget({})], { [PROJECT_ID]: { cost: 8.5, tokens: 1000 } })
+    const result = await checkBudget(USER_ID, PROJECT_ID, undefined, NOW)
+
+    expect(result.allowed).toBe(true)
+    expect(result.level).toBe('warning')
+    expect(result.budgets[0]).toMatchObject({ spentCost: 8.5, percentUsed: 85, level: 'warning' })
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0].upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ budget_id: 'b1', period: '2026-10-01', threshold: 80 }),
+      { onConflict: 'budget_id,period,threshold', ignoreDuplicates: true }
+    )
+  })
+
+  it('does not record the same alert twice', async () => {
+    const alerts = mockTables([budget({})], { [PROJECT_ID]: { cost: 8.5, tokens: 0 } })
+    await checkBudget(USER_ID, PROJECT_ID, undefined, NOW)
+    await checkBudget(USER_ID, PROJECT_ID, undefined, NOW)
+    expect(alerts).toHaveLength(1)
+  })
+
+  it('refuses a call whose estimate would pass the budget', async () => {
+    mockTables([budget({})], { [PROJECT_ID]: { cost: 9.99, tokens: 0 } })
+    const estimate = { model: 'gpt-4o', inputTokens: 2000, outputTokens: 4000, totalTokens: 6000, cost: 0.05 }
+    const result = await checkBudget(USER_ID, PROJECT_ID, estimate, NOW)
+
+    expect(result.allowed).toBe(false)
+    expect(result.level).toBe('exceeded')
+    expect(result.blockedBy).toMatchObject({ budgetId: 'b1', scope: 'project' })
+  })
+
+  it('applies token limits and user budgets alongside project budgets', async () => {
+    mockTables(
+      [
+        budget({}),
+        budget({ id: 'b2', scope: 'user', scope_id: USER_ID, monthly_cost_limit: null, monthly_token_limit: 10000 }),
+      ],
+      { [PROJECT_ID]: { cost: 1, tokens: 500 }, [USER_ID]: { cost: 1, tokens: 10000 } }
+    )
+    const result = await checkBudget(USER_ID, PROJECT_ID, undefined, NOW)
+
+    expect(result.allowed).toBe(false)
+    expect(result.budgets.map((status) => status.level)).toEqual(['ok', 'exceeded'])
+    expect(result.blockedBy).toMatchObject({ budgetId: 'b2', scope: 'user', percentUsed: 100 })
+  })
+
+  it('ignores budgets for other scopes returned by the id lookup', async () => {
+    mockTables([budget({ scope: 'user', scope_id: PROJECT_ID })], { [PROJECT_ID]: { cost: 50, tokens: 0 } })
+    const result = await checkBudget(USER_ID, PROJECT_ID, undefined, NOW)
+    expect(result.budgets).toEqual([])
+    expect(result.allowed).toBe(true)
+  })
+
+  it('fails open when the budget lookup errors', async () => {
+    fromMock.mockImplementation(() => makeBuilder(() => ({ data: null, error: { message: 'db down' } })))
+    const result = await checkBudget(USER_ID, PROJECT_ID, undefined, NOW)
+    expect(result.allowed).toBe(true)
+    expect(result.level).toBe('ok')
+  })
+})
+
+describe('canAccessProject', () => {
+  const OTHER_ID = '33333333-3333-4333-8333-333333333333'
+
+  function mockProject(ownerId: string | null, collaborators: string[] = []) {
+    fromMock.mockImplementation((table: string) => {
+      if (table === 'projects') return makeBuilder(() => ({ data: ownerId ? [{ owner_id: ownerId }] : [], error: null }))
+      if (table === 'project_collaborators') {
+        return makeBuilder((eq) => ({ data: collaborators.filter((id) => id === eq?.[1]).map((id) => ({ user_id: id })), error: null }))
+      }
+      throw new Error(`unexpected table: ${table}`)
+    })
+  }
+
+  it('allows the owner and collaborators', async () => {
+    mockProject(USER_ID)
+    expect(await canAccessProject(USER_ID, PROJECT_ID)).toBe(true)
+
+    mockProject(OTHER_ID, [USER_ID])
+    expect(await canAccessProject(USER_ID, PROJECT_ID)).toBe(true)
+  })
+
+  it('refuses other users, unknown projects and malformed ids', async () => {
+    mockProject(OTHER_ID)
+    expect(await canAccessProject(USER_ID, PROJECT_ID)).toBe(false)
+
+    mockProject(null)
+    expect(await canAccessProject(USER_ID, PROJECT_ID)).toBe(false)
+    expect(await canAccessProject(USER_ID, 'not-a-uuid')).toBe(false)
+  })
+
+  it('fails closed when the lookup errors', async () => {
+    fromMock.mockImplementation(() => makeBuilder(() => ({ data: null, error: { message: 'db down' } })))
+    expect(await canAccessProject(USER_ID, PROJECT_ID)).toBe(false)
+  })
+})
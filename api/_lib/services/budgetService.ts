@@ -0,0 +1,274 @@
+/**
+ * Server-Side AI Budget Service
+ *
+ * Monthly AI spend budgets per project and per user (ai_budgets table).
+ * checkBudget runs before every AI call in api/ai.ts:
+ * - below the budget's soft limit (default 80%) the call goes ahead
+ * - from the soft limit the call goes ahead and the status is 'warning'
+ * - when the month's spend plus the call's estimated cost would pass 100%
+ *   the call is refused (AI_BUDGET_EXCEEDED)
+ *
+ * Spend is the sum of ai_token_usage for the calendar month (UTC). Crossing
+ * the soft limit or 100% records an ai_budget_alerts row for admins, once per
+ * budget, month and threshold. The crossing is noticed by the next check, so
+ * an alert lands with the first AI request after the spend that caused it.
+ *
+ * A project's budget and spend are only used for its owner and collaborators:
+ * api/ai.ts checks canAccessProject before a project id reaches checkBudget or
+ * token tracking.
+ *
+ * DO NOT import from ../../../src/ - those are frontend-only modules!
+ */
+
+import { supabaseAdmin } from '../utils/supabaseAdmin.js'
+import { isValidUUID } from '../utils/apiUuid.js'
+
+export type BudgetScope = 'project' | 'user'
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded'
+
+export interface AiBudget {
+  id: string
+  scope: BudgetScope
+  scope_id: string
+  monthly_cost_limit: number | null
+  monthly_token_limit: number | null
+  soft_limit_percent: number
+}
+
+export interface BudgetStatus {
+  budgetId: string
+  scope: BudgetScope
+  scopeId: string
+  costLimit: number | null
+  tokenLimit: number | null
+  spentCost: number
+  spentTokens: number
+  /** Highest of the cost and token percentages, 0-100+ */
+  percentUsed: number
+  softLimitPercent: number
+  level: BudgetLevel
+}
+
+/** Pre-flight estimate of one AI call */
+export interface CostEstimate {
+  model: string
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+  cost: number
+}
+
+export interface BudgetCheckResult {
+  allowed: boolean
+  /** Worst level across the budgets that apply */
+  level: BudgetLevel
+  budgets: BudgetStatus[]
+  /** The budget the call would overrun, when refused */
+  blockedBy: BudgetStatus | null
+  resetsAt: string
+}
+
+// Alerts already written by this instance, so checks above a threshold skip the insert
+const recordedAlerts = new Set<string>()
+
+/** Reset the recorded-alert cache. Exposed for test isolation only. */
+export function _resetBudgetAlertsForTesting(): void {
+  recordedAlerts.clear()
+}
+
+function monthStart(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+function nextMonthStart(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+}
+
+function percentOf(value: number, limit: number | null): number {
+  return limit ? (value / limit) * 100 : 0
+}
+
+function levelFor(percentUsed: number, softLimitPercent: number): BudgetLevel {
+  if (percentUsed >= 100) return 'exceeded'
+  if (percentUsed >= softLimitPercent) return 'warning'
+  return 'ok'
+}
+
+const LEVEL_ORDER: BudgetLevel[] = ['ok', 'warning', 'exceeded']
+
+async function loadBudgets(userId: string, projectId: string | null): Promise<AiBudget[]> {
+  const scopeIds = projectId ? [userId, projectId] : [userId]
+  const { data, error } = await supabaseAdmin
+    .from('ai_budgets')
+    .select('id, scope, scope_id, monthly_cost_limit, monthly_token_limit, soft_limit_percent')
+    .in('scope_id', scopeIds)
+
+  if (error) throw new Error(`Failed to load AI budgets: ${error.message}`)
+
+  return ((data ?? []) as AiBudget[]).filter((budget) =>
+    (budget.scope === 'user' && budget.scope_id === userId) ||
+    (budget.scope === 'project' && budget.scope_id === projectId)
+  )
+}
+
+async function monthSpend(budget: AiBudget, since: Date): Promise<{ cost: number; tokens: number }> {
+  const { data, error } = await supabaseAdmin
+    .from('ai_token_usage')
+    .select('total_cost, total_tokens')
+    .eq(budget.scope === 'user' ? 'user_id' : 'project_id', budget.scope_id)
+    .gte('created_at', since.toISOString())
+
+  if (error) throw new Error(`Failed to load AI spend: ${error.message}`)
+
+  const rows = (data ?? []) as Array<{ total_cost: number | string | null; total_tokens: number | null }>
+  return {
+    cost: rows.reduce((sum, row) => sum + Number(row.total_cost || 0), 0),
+    tokens: rows.reduce((sum, row) => sum + (row.total_tokens || 0), 0),
+  }
+}
+
+/**
+ * Whether the user owns or collaborates on the project. Fails closed: a
+ * lookup error means no access.
+ * @param userId - User making the call
+ * @param projectId - Project id from the request
+ */
+export async function canAccessProject(userId: string, projectId: string): Promise<boolean> {
+  if (!supabaseAdmin || !isValidUUID(projectId)) return false
+
+  try {
+    const { data: projects, error } = await supabaseAdmin
+      .from('projects')
+      .select('owner_id')
+      .eq('id', projectId)
+    if (error) throw new Error(`Failed to load project: ${error.message}`)
+
+    const project = (projects ?? [])[0] as { owner_id: string } | undefined
+    if (!project) return false
+    if (project.owner_id === userId) return true
+
+    const { data: collaborators, error: collaboratorError } = await supabaseAdmin
+      .from('project_collaborators')
+      .select('user_id')
+      .eq('project_id', projectId)
+      .eq('user_id', userId)
+    if (collaboratorError) throw new Error(`Failed to load collaborators: ${collaboratorError.message}`)
+
+    return (collaborators ?? []).length > 0
+  } catch (error) {
+    console.error('❌ Error in canAccessProject:', error)
+    return false
+  }
+}
+
+/**
+ * This month's spend against one budget.
+ * @param budget - An ai_budgets row
+ * @param now - Clock for tests
+ */
+export async function getBudgetStatus(budget: AiBudget, now: Date = new Date()): Promise<BudgetStatus> {
+  const spent = await monthSpend(budget, monthStart(now))
+  const costLimit = budget.monthly_cost_limit === null ? null : Number(budget.monthly_cost_limit)
+  const tokenLimit = budget.monthly_token_limit === null ? null : Number(budget.monthly_token_limit)
+  const percentUsed = Math.max(percentOf(spent.cost, costLimit), percentOf(spent.tokens, tokenLimit))
+  return {
+    budgetId: budget.id,
+    scope: budget.scope,
+    scopeId: budget.scope_id,
+    costLimit,
+    tokenLimit,
+    spentCost: spent.cost,
+    spentTokens: spent.tokens,
+    percentUsed,
+    softLimitPercent: budget.soft_limit_percent,
+    level: levelFor(percentUsed, budget.soft_limit_percent),
+  }
+}
+
+/**
+ * Records the soft-limit and 100% alerts a budget has reached this month.
+ * The unique (budget_id, period, threshold) key keeps one row per crossing.
+ */
+async function recordAlerts(status: BudgetStatus, period: string): Promise<void> {
+  const thresholds = [status.softLimitPercent, 100].filter((threshold) => status.percentUsed >= threshold)
+
+  for (const threshold of thresholds) {
+    const key = `${status.budgetId}:${period}:${threshold}`
+    if (recordedAlerts.has(key)) continue
+
+    const { error } = await supabaseAdmin
+      .from('ai_budget_alerts')
+      .upsert({
+        budget_id: status.budgetId,
+        period,
+        threshold,
+        percent_used: Math.round(status.percentUsed * 10) / 10,
+        spent_cost: status.spentCost,
+        spent_tokens: status.spentTokens,
+      }, { onConflict: 'budget_id,period,threshold', ignoreDuplicates: true })
+
+    if (error) {
+      console.error('❌ Failed to record AI budget alert:', error)
+      continue
+    }
+    recordedAlerts.add(key)
+    console.warn(`⚠️ AI budget alert: ${status.scope} ${status.scopeId} at ${status.percentUsed.toFixed(1)}% of its monthly budget (threshold ${threshold}%)`)
+  }
+}
+
+/**
+ * Current month's spend against every budget that applies to a call.
+ * @param userId - User making the call
+ * @param projectId - Project the call is for, if any
+ * @param estimate - Estimated cost of the call; omit for a status-only read
+ * @param now - Clock for tests
+ */
+export async function checkBudget(
+  userId: string,
+  projectId: string | null,
+  estimate?: CostEstimate,
+  now: Date = new Date()
+): Promise<BudgetCheckResult> {
+  const resetsAt = nextMonthStart(now).toISOString()
+  const open: BudgetCheckResult = { allowed: true, level: 'ok', budgets: [], blockedBy: null, resetsAt }
+
+  // checkLimit already fails closed when the database is unavailable; a
+  // budget lookup failure should not take every AI feature down with it
+  if (!supabaseAdmin) {
+    console.error('❌ Supabase admin client not initialized - skipping AI budget check')
+    return open
+  }
+
+  try {
+    const validProjectId = projectId && isValidUUID(projectId) ? projectId : null
+    const budgets = await loadBudgets(userId, validProjectId)
+    if (budgets.length === 0) return open
+
+    const period = monthStart(now).toISOString().slice(0, 10)
+    const statuses: BudgetStatus[] = []
+    let blockedBy: BudgetStatus | null = null
+
+    for (const budget of budgets) {
+      const status = await getBudgetStatus(budget, now)
+      statuses.push(status)
+
+      const projected = Math.max(
+        percentOf(status.spentCost + (estimate?.cost ?? 0), status.costLimit),
+        percentOf(status.spentTokens + (estimate?.totalTokens ?? 0), status.tokenLimit)
+      )
+      const overrun = estimate ? projected > 100 : status.percentUsed >= 100
+      if (overrun && !blockedBy) blockedBy = status
+
+      await recordAlerts(status, period)
+    }
+
+    const level = statuses.reduce<BudgetLevel>(
+      (worst, status) => (LEVEL_ORDER.indexOf(status.level) > LEVEL_ORDER.indexOf(worst) ? status.level : worst),
+      'ok'
+    )
+    return { allowed: !blockedBy, level: blockedBy ? 'exceeded' : level, budgets: statuses, blockedBy, resetsAt }
+  } catch (error) {
+    console.error('❌ Error in checkBudget:', error)
+    return open
+  }
+}
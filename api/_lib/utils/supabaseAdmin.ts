@@ -106,9 +106,10 @@ export async function trackTokenUsage(params: {
 
 /**
  * Get model costs per 1M tokens
- * Source: OpenAI pricing as of 2025-01
+ * Source: OpenAI pricing as of 2025-01; gateway models at list price.
+ * Unlisted models cost 0, so only token budgets apply to them.
  */
-function getModelCosts(model: string): { input: number; output: number } {
+export function getModelCosts(model: string): { input: number; output: number } {
   const costs: Record<string, { input: number; output: number }> = {
     // GPT-5 Series (2025)
     'gpt-5': { input: 1.25, output: 10.00 },
@@ -131,6 +132,16 @@ function getModelCosts(model: string): { input: number; output: number } {
     // Specialized Models
     'gpt-realtime': { input: 6.00, output: 18.00 },
     'whisper-1': { input: 0.006, output: 0.006 }, // per minute, not per 1M tokens
+
+    // AI Gateway models used by the model profiles
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'deepseek-v3.2': { input: 0.28, output: 0.42 },
+    'claude-haiku-4.5': { input: 1.00, output: 5.00 },
+    'claude-sonnet-4.6': { input: 3.00, output: 15.00 },
+    'claude-opus-4.6': { input: 5.00, output: 25.00 },
+
+    // Embeddings (input only)
+    'text-embedding-3-small': { input: 0.02, output: 0 },
   }
 
   return costs[model] || { input: 0, output: 0 }
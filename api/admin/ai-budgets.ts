@@ -0,0 +1,346 @@
+/**
+ * Admin AI Budgets API Endpoint
+ *
+ * Manages monthly AI spend budgets (see api/_lib/services/budgetService.ts):
+ * - GET    /api/admin/ai-budgets             — Budgets with this month's spend, and open alerts
+ * - PUT    /api/admin/ai-budgets             — Create or update the budget for a project or user
+ * - DELETE /api/admin/ai-budgets?id=<id>     — Remove a budget
+ * - POST   /api/admin/ai-budgets?action=acknowledge&id=<alertId> — Dismiss an alert
+ *
+ * Authentication: Requires admin or super_admin role
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { getBudgetStatus, type AiBudget, type BudgetScope } from '../_lib/services/budgetService.js'
+import { isValidUUID } from '../_lib/utils/apiUuid.js'
+
+// Direct environment variable access (no shared module)
+const supabaseUrl = process.env.SUPABASE_URL || ''
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || ''
+
+// ============================================================================
+// INLINE AUTH UTILITIES (matches token-spend.ts pattern)
+// ============================================================================
+
+interface AuthResult {
+  userId: string
+  email: string
+  role: string
+}
+
+function parseCookies(cookieHeader: string | undefined): Record<string, string> {
+  if (!cookieHeader) return {}
+  const cookies: Record<string, string> = {}
+  cookieHeader.split(';').forEach(cookie => {
+    const [name, ...rest] = cookie.split('=')
+    const value = rest.join('=').trim()
+    if (name && value) {
+      try {
+        cookies[name.trim()] = decodeURIComponent(value)
+      } catch {
+        // Invalid cookie value, skip
+      }
+    }
+  })
+  return cookies
+}
+
+function getCookie(req: { headers: { cookie?: string } }, name: string): string | undefined {
+  const cookies = parseCookies(req.headers.cookie)
+  return cookies[name]
+}
+
+async function authenticateRequest(req: VercelRequest): Promise<AuthResult | null> {
+  if (!supabaseUrl || !supabaseServiceKey || !supabaseAnonKey) {
+    console.error('Missing Supabase environment variables')
+    return null
+  }
+
+  let accessToken: string | undefined
+  const authHeader = req.headers.authorization
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    accessToken = authHeader.substring(7)
+  }
+
+  if (!accessToken) {
+    accessToken = getCookie(req, 'sb-access-token')
+  }
+
+  if (!accessToken) {
+    return null
+  }
+
+  const authClient = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+  })
+
+  const { data: { user }, error: authError } = await authClient.auth.getUser(accessToken)
+  if (authError || !user) {
+    console.error('Auth error:', authError)
+    return null
+  }
+
+  const { data: profile } = await authClient
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (!profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return null
+  }
+
+  return {
+    userId: user.id,
+    email: user.email || '',
+    role: profile.role,
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+interface BudgetInput {
+  scope: BudgetScope
+  scope_id: string
+  monthly_cost_limit: number | null
+  monthly_token_limit: number | null
+  soft_limit_percent: number
+}
+
+function optionalPositive(value: unknown): number | null | undefined {
+  if (value === null || value === undefined || value === '') return null
+  const number = Number(value)
+  return Number.isFinite(number) && number > 0 ? number : undefined
+}
+
+function validateBudget(body: unknown): { valid: true; budget: BudgetInput } | { valid: false; error: string } {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be an object' }
+  }
+  const input = body as Record<string, unknown>
+
+  if (input.scope !== 'project' && input.scope !== 'user') {
+    return { valid: false, error: 'scope must be "project" or "user"' }
+  }
+  if (typeof input.scopeId !== 'string' || !isValidUUID(input.scopeId)) {
+    return { valid: false, error: 'scopeId must be a project or user id' }
+  }
+
+  const costLimit = optionalPositive(input.monthlyCostLimit)
+  const tokenLimit = optionalPositive(input.monthlyTokenLimit)
+  if (costLimit === undefined) {
+    return { valid: false, error: 'monthlyCostLimit must be a positive number' }
+  }
+  if (tokenLimit === undefined) {
+    return { valid: false, error: 'monthlyTokenLimit must be a positive number' }
+  }
+  if (costLimit === null && tokenLimit === null) {
+    return { valid: false, error: 'Set a monthly cost limit, a token limit, or both' }
+  }
+
+  const softLimit = input.softLimitPercent === undefined ? 80 : Number(input.softLimitPercent)
+  if (!Number.isInteger(softLimit) || softLimit < 1 || softLimit > 99) {
+    return { valid: false, error: 'softLimitPercent must be a whole number from 1 to 99' }
+  }
+
+  return {
+    valid: true,
+    budget: {
+      scope: input.scope,
+      scope_id: input.scopeId,
+      monthly_cost_limit: costLimit,
+      monthly_token_limit: tokenLimit === null ? null : Math.round(tokenLimit),
+      soft_limit_percent: softLimit,
+    },
+  }
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+async function scopeNames(
+  adminClient: SupabaseClient,
+  budgets: AiBudget[]
+): Promise<Map<string, string>> {
+  const names = new Map<string, string>()
+  const projectIds = budgets.filter(b => b.scope === 'project').map(b => b.scope_id)
+  const userIds = budgets.filter(b => b.scope === 'user').map(b => b.scope_id)
+
+  if (projectIds.length > 0) {
+    const { data } = await adminClient.from('projects').select('id, name').in('id', projectIds)
+    for (const project of (data ?? []) as Array<{ id: string; name: string }>) {
+      names.set(project.id, project.name)
+    }
+  }
+  if (userIds.length > 0) {
+    const { data } = await adminClient.from('user_profiles').select('id, email, full_name').in('id', userIds)
+    for (const user of (data ?? []) as Array<{ id: string; email: string; full_name: string | null }>) {
+      names.set(user.id, user.full_name || user.email)
+    }
+  }
+  return names
+}
+
+async function handleGet(res: VercelResponse, adminClient: SupabaseClient) {
+  const { data: budgets, error } = await adminClient
+    .from('ai_budgets')
+    .select('id, scope, scope_id, monthly_cost_limit, monthly_token_limit, soft_limit_percent')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Failed to fetch AI budgets:', error)
+    return res.status(500).json({ success: false, error: 'Failed to fetch AI budgets' })
+  }
+
+  const rows = (budgets ?? []) as AiBudget[]
+  const [names, statuses] = await Promise.all([
+    scopeNames(adminClient, rows),
+    Promise.all(rows.map(budget => getBudgetStatus(budget))),
+  ])
+
+  const { data: alerts, error: alertsError } = await adminClient
+    .from('ai_budget_alerts')
+    .select('id, budget_id, period, threshold, percent_used, spent_cost, spent_tokens, created_at')
+    .is('acknowledged_at', null)
+    .order('created_at', { ascending: false })
+    .limit(50)
+
+  if (alertsError) {
+    console.error('Failed to fetch AI budget alerts:', alertsError)
+  }
+
+  return res.status(200).json({
+    success: true,
+    budgets: statuses.map(status => ({ ...status, name: names.get(status.scopeId) ?? null })),
+    alerts: ((alerts ?? []) as Array<Record<string, unknown>>).map(alert => {
+      const budget = rows.find(b => b.id === alert.budget_id)
+      return {
+        ...alert,
+        scope: budget?.scope ?? null,
+        scope_id: budget?.scope_id ?? null,
+        name: budget ? names.get(budget.scope_id) ?? null : null,
+      }
+    }),
+  })
+}
+
+async function handlePut(
+  req: VercelRequest,
+  res: VercelResponse,
+  adminClient: SupabaseClient,
+  auth: AuthResult
+) {
+  const validation = validateBudget(req.body)
+  if (!validation.valid) {
+    return res.status(400).json({ success: false, error: validation.error })
+  }
+
+  const { data: saved, error } = await adminClient
+    .from('ai_budgets')
+    .upsert({ ...validation.budget, created_by: auth.userId }, { onConflict: 'scope,scope_id' })
+    .select('id, scope, scope_id, monthly_cost_limit, monthly_token_limit, soft_limit_percent')
+    .single()
+
+  if (error || !saved) {
+    console.error('Failed to save AI budget:', error)
+    return res.status(500).json({ success: false, error: 'Failed to save AI budget' })
+  }
+
+  return res.status(200).json({ success: true, budget: await getBudgetStatus(saved as AiBudget) })
+}
+
+async function handleDelete(
+  req: VercelRequest,
+  res: VercelResponse,
+  adminClient: SupabaseClient
+) {
+  const budgetId = String(req.query.id ?? '')
+  if (!budgetId) {
+    return res.status(400).json({ success: false, error: 'Query param "id" is required' })
+  }
+
+  const { error } = await adminClient.from('ai_budgets').delete().eq('id', budgetId)
+
+  if (error) {
+    console.error('Failed to delete AI budget:', error)
+    return res.status(500).json({ success: false, error: 'Failed to delete AI budget' })
+  }
+
+  return res.status(200).json({ success: true })
+}
+
+async function handleAcknowledge(
+  req: VercelRequest,
+  res: VercelResponse,
+  adminClient: SupabaseClient,
+  auth: AuthResult
+) {
+  const alertId = String(req.query.id ?? '')
+  if (!alertId) {
+    return res.status(400).json({ success: false, error: 'Query param "id" is required' })
+  }
+
+  const { error } = await adminClient
+    .from('ai_budget_alerts')
+    .update({ acknowledged_at: new Date().toISOString(), acknowledged_by: auth.userId })
+    .eq('id', alertId)
+
+  if (error) {
+    console.error('Failed to acknowledge AI budget alert:', error)
+    return res.status(500).json({ success: false, error: 'Failed to acknowledge alert' })
+  }
+
+  return res.status(200).json({ success: true })
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+async function aiBudgetsHandler(req: VercelRequest, res: VercelResponse) {
+  const auth = await authenticateRequest(req)
+  if (!auth) {
+    return res.status(401).json({ success: false, error: 'Unauthorized' })
+  }
+
+  const adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  })
+
+  try {
+    if (req.method === 'GET') {
+      return await handleGet(res, adminClient)
+    }
+
+    if (req.method === 'PUT') {
+      return await handlePut(req, res, adminClient, auth)
+    }
+
+    if (req.method === 'DELETE') {
+      return await handleDelete(req, res, adminClient)
+    }
+
+    if (req.method === 'POST') {
+      const action = String(req.query.action ?? '')
+      if (action === 'acknowledge') {
+        return await handleAcknowledge(req, res, adminClient, auth)
+      }
+      return res.status(400).json({ success: false, error: `Unknown action: "${action}"` })
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  } catch (error) {
+    console.error('AI budgets handler error:', error)
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    })
+  }
+}
+
+export default aiBudgetsHandler
@@ -6,14 +6,33 @@
  *
  * Routes:
  * - GET  /api/ai?action=quota-status&type=ai_ideas
+ * - GET  /api/ai?action=budget-status&projectId=<id>
  * - POST /api/ai?action=generate-ideas
  * - POST /api/ai?action=generate-insights
  * - POST /api/ai?action=generate-roadmap
  * - POST /api/ai?action=generate-roadmap-v2
+ * - POST /api/ai?action=place-ideas
+ * - POST /api/ai?action=embed-ideas
+ * - POST /api/ai?action=cluster-ideas
+ * - POST /api/ai?action=project-chat
  * - POST /api/ai?action=analyze-file
  * - POST /api/ai?action=analyze-image
  * - POST /api/ai?action=analyze-video
  * - POST /api/ai?action=transcribe-audio
+ *
+ * generate-ideas, generate-insights and generate-roadmap stream partial
+ * results as server-sent events when the body has `stream: true`
+ * (see _lib/ai/utils/streaming.ts).
+ *
+ * Every POST is checked against the project's and user's monthly AI budgets
+ * first (see _lib/services/budgetService.ts); a request whose estimated cost
+ * would overrun one is refused with 403 AI_BUDGET_EXCEEDED.
+ *
+ * A projectId in the body or query is only accepted from the project's owner,
+ * collaborators or an admin (403 PROJECT_ACCESS_DENIED otherwise), so spend
+ * cannot be read from or charged to another team's budget. Actions that
+ * always work on a project require one; the rest count against the user's
+ * budget alone when sent without one.
  */
 
 import type { VercelResponse } from '@vercel/node';
@@ -28,12 +47,19 @@ import {
   handleGenerateIdeas,
   handleGenerateInsights,
   handleGenerateRoadmap,
+  handlePlaceIdeas,
+  handleEmbedIdeas,
+  handleClusterIdeas,
+  handleProjectChat,
   handleAnalyzeFile,
   handleAnalyzeImage,
   handleAnalyzeVideo,
   handleTranscribeAudio,
+  estimateRequestCost,
+  getActiveProfile,
 } from './_lib/ai/index.js';
 import { checkLimit } from './_lib/services/subscriptionService.js';
+import { canAccessProject, checkBudget, type BudgetStatus } from './_lib/services/budgetService.js';
 
 function getResetsAt(): string {
   const now = new Date();
@@ -65,6 +91,78 @@ async function handleQuotaStatus(req: AuthenticatedRequest, res: VercelResponse)
   });
 }
 
+function projectIdOf(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+// Actions that only make sense for a project; they must name one
+const PROJECT_ACTIONS = new Set(['place-ideas', 'cluster-ideas', 'project-chat', 'analyze-file']);
+
+/**
+ * Sends 403 and returns false when the caller may not use `projectId`.
+ */
+async function checkProjectAccess(
+  req: AuthenticatedRequest,
+  res: VercelResponse,
+  projectId: string | null,
+): Promise<boolean> {
+  if (!projectId) return true;
+  const isAdmin = req.user?.role === 'admin' || req.user?.role === 'super_admin';
+  if (isAdmin || (await canAccessProject(req.user!.id, projectId))) return true;
+
+  res.status(403).json({ error: 'PROJECT_ACCESS_DENIED', message: 'You do not have access to this project.' });
+  return false;
+}
+
+async function handleBudgetStatus(req: AuthenticatedRequest, res: VercelResponse) {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const projectId = projectIdOf(req.query.projectId);
+  if (!(await checkProjectAccess(req, res, projectId))) {
+    return;
+  }
+
+  const result = await checkBudget(userId, projectId);
+
+  return res.status(200).json({
+    level: result.level,
+    budgets: result.budgets,
+    resetsAt: result.resetsAt,
+  });
+}
+
+function budgetExceededMessage(budget: BudgetStatus): string {
+  const owner = budget.scope === 'project' ? 'This project' : 'Your account';
+  return budget.percentUsed >= 100
+    ? `${owner} has used its AI budget for this month. Ask an admin to raise the budget, or try again next month.`
+    : `${owner} is close to its monthly AI budget and this request could exceed it. Ask an admin to raise the budget, or try again next month.`;
+}
+
+/**
+ * Pre-flight budget check for a POST action. Sends the 403 and returns
+ * false when the request's estimated cost would overrun a budget.
+ */
+async function withinBudget(req: AuthenticatedRequest, res: VercelResponse, action: string): Promise<boolean> {
+  const estimate = estimateRequestCost(action, req.body, await getActiveProfile());
+  if (!estimate) return true;
+
+  const result = await checkBudget(req.user!.id, projectIdOf(req.body?.projectId), estimate);
+  const budget = result.blockedBy;
+  if (!budget) return true;
+
+  res.status(403).json({
+    error: 'AI_BUDGET_EXCEEDED',
+    message: budgetExceededMessage(budget),
+    scope: budget.scope,
+    percentUsed: Math.round(budget.percentUsed * 10) / 10,
+    resetsAt: result.resetsAt,
+  });
+  return false;
+}
+
 async function aiRouter(req: AuthenticatedRequest, res: VercelResponse) {
   const action = (req.query.action as string) || '';
 
@@ -75,10 +173,30 @@ async function aiRouter(req: AuthenticatedRequest, res: VercelResponse) {
     return handleQuotaStatus(req, res);
   }
 
+  if (action === 'budget-status') {
+    if (req.method !== 'GET') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+    return handleBudgetStatus(req, res);
+  }
+
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // Handlers track usage against body.projectId, so it is vetted here first
+  const projectId = projectIdOf(req.body?.projectId);
+  if (!projectId && PROJECT_ACTIONS.has(action)) {
+    return res.status(400).json({ error: 'projectId is required' });
+  }
+  if (!(await checkProjectAccess(req, res, projectId))) {
+    return;
+  }
+
+  if (!(await withinBudget(req, res, action))) {
+    return;
+  }
+
   switch (action) {
     case 'generate-ideas':
       return handleGenerateIdeas(req, res);
@@ -87,6 +205,14 @@ async function aiRouter(req: AuthenticatedRequest, res: VercelResponse) {
     case 'generate-roadmap':
     case 'generate-roadmap-v2':
       return handleGenerateRoadmap(req, res);
+    case 'place-ideas':
+      return handlePlaceIdeas(req, res);
+    case 'embed-ideas':
+      return handleEmbedIdeas(req, res);
+    case 'cluster-ideas':
+      return handleClusterIdeas(req, res);
+    case 'project-chat':
+      return handleProjectChat(req, res);
     case 'analyze-file':
       return handleAnalyzeFile(req, res);
     case 'analyze-image':
@@ -102,11 +228,16 @@ async function aiRouter(req: AuthenticatedRequest, res: VercelResponse) {
           'generate-ideas',
           'generate-insights',
           'generate-roadmap',
+          'place-ideas',
+          'embed-ideas',
+          'cluster-ideas',
+          'project-chat',
           'analyze-file',
           'analyze-image',
           'analyze-video',
           'transcribe-audio',
           'quota-status',
+          'budget-status',
         ],
       });
   }
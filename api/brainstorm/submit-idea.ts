@@ -70,6 +70,117 @@ function validatePriority(priority?: string): ModerationResult {
   return { valid: true }
 }
 
+// ============================================
+// Inline Content Flagging
+// ============================================
+
+// Same checks as ContentModerationService.flagIdeaContent: flagged ideas are
+// held for the facilitator (session_held_ideas) instead of posted to the board
+type ModerationFlag = 'profanity' | 'link' | 'spam'
+
+const PROFANITY_PATTERN = /\b(fuck|shit|damn|crap|hell|ass|bitch)\b/i
+const LINK_PATTERN = /https?:\/\/\S+|www\.\S+/gi
+const SPAM_PATTERNS = [
+  /(.)\1{10,}/, // Repeated characters
+  /\b[A-Z]{10,}\b/, // Excessive caps
+  /\b\d{10,}\b/ // Long number sequences
+]
+
+function flagIdeaContent(text: string): ModerationFlag[] {
+  const flags: ModerationFlag[] = []
+  if (PROFANITY_PATTERN.test(text)) flags.push('profanity')
+  const withoutLinks = text.replace(LINK_PATTERN, ' ')
+  if (withoutLinks !== text) flags.push('link')
+  if (SPAM_PATTERNS.some((pattern) => pattern.test(withoutLinks))) flags.push('spam')
+  return flags
+}
+
+// ============================================
+// Inline Duplicate Detection
+// ============================================
+
+// Lexical score as in src/utils/ideaSimilarity.ts (word overlap blended with
+// character trigrams); submissions are flagged, never rejected
+const DUPLICATE_THRESHOLD = 0.5
+const MAX_DUPLICATE_CANDIDATES = 300
+const MAX_POSSIBLE_DUPLICATES = 3
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from', 'has', 'have', 'in', 'into',
+  'is', 'it', 'its', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'this', 'to', 'up', 'us',
+  'we', 'with', 'you', 'your', 'add', 'adding', 'allow', 'let', 'make', 'new', 'support', 'users'
+])
+
+interface PossibleDuplicate {
+  id: string
+  content: string
+  similarity: number
+}
+
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3)
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2)
+  if (word.length > 4 && word.endsWith('es')) return word.slice(0, -2)
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+  return word
+}
+
+function tokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem)
+}
+
+function lexicalSimilarity(a: string, b: string): number {
+  const left = tokens(a)
+  const right = tokens(b)
+
+  const counts = (words: string[]) => {
+    const map = new Map<string, number>()
+    for (const word of words) map.set(word, (map.get(word) ?? 0) + 1)
+    return map
+  }
+  const leftCounts = counts(left)
+  const rightCounts = counts(right)
+  let dot = 0
+  leftCounts.forEach((count, word) => { dot += count * (rightCounts.get(word) ?? 0) })
+  const norm = (map: Map<string, number>) => Math.sqrt([...map.values()].reduce((sum, n) => sum + n * n, 0))
+  const denominator = norm(leftCounts) * norm(rightCounts)
+  const termCosine = denominator === 0 ? 0 : dot / denominator
+
+  const trigrams = (words: string[]) => {
+    const normalized = ` ${words.join(' ')} `
+    const grams = new Set<string>()
+    for (let i = 0; i < normalized.length - 2; i++) grams.add(normalized.slice(i, i + 3))
+    return grams
+  }
+  const leftGrams = trigrams(left)
+  const rightGrams = trigrams(right)
+  let shared = 0
+  leftGrams.forEach((gram) => { if (rightGrams.has(gram)) shared++ })
+  const dice = leftGrams.size === 0 || rightGrams.size === 0 ? 0 : (2 * shared) / (leftGrams.size + rightGrams.size)
+
+  return Math.round((0.6 * termCosine + 0.4 * dice) * 1000) / 1000
+}
+
+function findPossibleDuplicates(
+  text: string,
+  candidates: Array<{ id: string; content: string; details?: string | null }>
+): PossibleDuplicate[] {
+  return candidates
+    .map((candidate) => ({
+      id: candidate.id,
+      content: candidate.content,
+      similarity: lexicalSimilarity(text, [candidate.content, candidate.details].filter(Boolean).join('. '))
+    }))
+    .filter((match) => match.similarity >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, MAX_POSSIBLE_DUPLICATES)
+}
+
 // ============================================
 // Inline Rate Limiting (simple in-memory)
 // ============================================
@@ -210,7 +321,7 @@ async function submitIdeaHandler(
     // Validate session exists and is active
     const { data: session, error: sessionError } = await supabase
       .from('brainstorm_sessions')
-      .select('id, project_id, status')
+      .select('id, project_id, status, current_round, round_ends_at, prompts, current_prompt_id')
       .eq('id', input.sessionId)
       .single()
 
@@ -230,6 +341,21 @@ async function submitIdeaHandler(
       })
     }
 
+    // Facilitated rounds: ideas are only taken during ideation, until its timer runs out
+    // (mirrors canSubmitInRound in src/utils/brainstormRounds.ts)
+    if (session.current_round) {
+      const roundOver = !!session.round_ends_at && new Date(session.round_ends_at).getTime() <= Date.now()
+      if (session.current_round !== 'ideation' || roundOver) {
+        return res.status(403).json({
+          success: false,
+          error: session.current_round === 'ideation'
+            ? 'Time is up for this round'
+            : 'Ideas cannot be submitted in this round',
+          code: 'ROUND_CLOSED'
+        })
+      }
+    }
+
     // Validate participant exists and belongs to session
     // Note: session_participants table uses is_approved and disconnected_at, not status
     const { data: participant, error: participantError } = await supabase
@@ -271,6 +397,53 @@ async function submitIdeaHandler(
       })
     }
 
+    // Tag the idea with the technique prompt it answers
+    // (mirrors getCurrentPrompt in src/utils/brainstormTechniques.ts)
+    const prompts: Array<{ id: string; round: string; label: string }> = Array.isArray(session.prompts)
+      ? session.prompts
+      : []
+    const currentPrompt = prompts.find((prompt) => prompt.id === session.current_prompt_id)
+    const tags = currentPrompt && currentPrompt.round === session.current_round ? [currentPrompt.label] : []
+
+    // Hold flagged submissions for facilitator review
+    const flags = flagIdeaContent([contentValidation.sanitizedContent, input.details].filter(Boolean).join('\n'))
+    if (flags.length > 0) {
+      const { data: held, error: holdError } = await supabase
+        .from('session_held_ideas')
+        .insert([
+          {
+            session_id: input.sessionId,
+            participant_id: input.participantId,
+            content: contentValidation.sanitizedContent,
+            details: input.details || null,
+            priority: input.priority || 'moderate',
+            flags,
+            tags
+          }
+        ])
+        .select('id, content, created_at')
+        .single()
+
+      if (holdError || !held) {
+        console.error('Error holding idea for review:', holdError)
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to submit idea for review',
+          code: 'DATABASE_ERROR'
+        })
+      }
+
+      return res.status(202).json({
+        success: true,
+        held: true,
+        idea: {
+          id: held.id,
+          content: held.content,
+          created_at: held.created_at
+        }
+      })
+    }
+
     // Create idea in database
     // Note: The ideas table doesn't have a default UUID generator, so we must provide one
     const ideaId = crypto.randomUUID()
@@ -292,6 +465,7 @@ async function submitIdeaHandler(
           content: contentValidation.sanitizedContent,
           details: input.details || null,
           priority: input.priority || 'moderate',
+          tags,
           submitted_via: 'mobile',
           created_by: null, // Anonymous mobile submission
           // Set default position in bottom-right quadrant (low impact, low effort)
@@ -347,13 +521,34 @@ async function submitIdeaHandler(
       // Don't fail the request
     }
 
+    // Flag near-duplicates already on the board (best effort)
+    let possibleDuplicates: PossibleDuplicate[] = []
+    try {
+      const { data: existingIdeas } = await supabase
+        .from('ideas')
+        .select('id, content, details')
+        .eq('project_id', session.project_id)
+        .neq('id', idea.id)
+        .order('created_at', { ascending: false })
+        .limit(MAX_DUPLICATE_CANDIDATES)
+
+      possibleDuplicates = findPossibleDuplicates(
+        [idea.content, input.details].filter(Boolean).join('. '),
+        existingIdeas || []
+      )
+    } catch (duplicateError) {
+      console.warn('Failed to check for duplicate ideas:', duplicateError)
+      // Don't fail the request
+    }
+
     return res.status(201).json({
       success: true,
       idea: {
         id: idea.id,
         content: idea.content,
         created_at: idea.created_at
-      }
+      },
+      possibleDuplicates
     })
   } catch (error) {
     console.error('Error submitting idea:', error)
@@ -44,6 +44,11 @@ vi.mock('../hooks/brainstorm/useBrainstormRealtime', () => ({
   }))
 }))
 
+// MobileJoinPage listens for the facilitator's approval decisions
+vi.mock('../hooks/useBrainstormRealtime', () => ({
+  useBrainstormRealtime: vi.fn(() => ({ participants: [], ideas: [] }))
+}))
+
 import * as configModule from '../lib/config'
 
 describe('Phase Three Regression Tests - Existing Features Intact', () => {
@@ -18,6 +18,7 @@ import { useAIGeneration } from '../hooks/useAIGeneration'
 import { STAGE_CONFIGS } from '../hooks/stageConfigs'
 import { useToast } from '../contexts/ToastContext'
 import AIProgressOverlay from './ui/AIProgressOverlay'
+import AIBudgetNotice from './ui/AIBudgetNotice'
 import { Button } from './ui/Button'
 import { Input } from './ui/Input'
 import { FileService } from '../lib/fileService'
@@ -584,6 +585,8 @@ const AIIdeaModal: React.FC<AIIdeaModalProps> = ({ onClose, onAdd, currentProjec
             onRetry={aiGeneration.retry}
           />
 
+          <AIBudgetNotice projectId={currentProject?.id} />
+
           {activeTab === 'generate' && (
             <>
               {/* Title Input */}
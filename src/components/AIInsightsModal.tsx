@@ -1,16 +1,19 @@
-import React, { useState, useEffect, useTransition } from 'react'
+import React, { useState, useEffect, useRef, useTransition } from 'react'
 import { Sparkles, TrendingUp, Target, CheckCircle, AlertTriangle, Download, Save, FileText, Lightbulb } from 'lucide-react'
 import { IdeaCard, Project, ProjectFile } from '../types'
 import { aiService } from '../lib/aiService'
 import { OpenAIModel } from '../lib/ai/openaiModelRouter'
 import { FileService } from '../lib/fileService'
 import { exportGraphicalInsightsToPDF } from '../utils/pdfExportSimple'
+import { countIdeasByQuadrant, resolveMatrixConfig } from '../utils/matrixQuadrant'
+import { getPlacedIdeas } from '../utils/ideaScoring'
 import { useAIWorker } from '../hooks/useAIWorker'
 import { useAsyncOperation } from '../hooks/shared/useAsyncOperation'
 import { BaseModal } from './shared/Modal'
 import { ProjectRepository } from '../lib/repositories'
 import { useLogger } from '../lib/logging'
 import { Button } from './ui/Button'
+import AIBudgetNotice from './ui/AIBudgetNotice'
 
 interface AIInsightsModalProps {
   isOpen: boolean
@@ -52,6 +55,11 @@ const AIInsightsModal: React.FC<AIInsightsModalProps> = ({ isOpen, ideas, curren
   const [aiStage, setAiStage] = useState<'analyzing' | 'synthesizing' | 'optimizing' | 'finalizing' | 'complete'>('analyzing')
   const [processingSteps, setProcessingSteps] = useState<string[]>([])
   const [estimatedTime, setEstimatedTime] = useState<number>(0)
+  // Sections of the report streamed in so far, previewed while loading
+  const [partialInsights, setPartialInsights] = useState<Partial<InsightsReport> | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Positions as the matrix shows them, so quadrants match the board
+  const placedIdeas = getPlacedIdeas(ideas || [], currentProject?.settings?.matrix_view)
 
   // Insights generation with unified async operation management
   const insightsOperation = useAsyncOperation(
@@ -82,15 +90,38 @@ const AIInsightsModal: React.FC<AIInsightsModalProps> = ({ isOpen, ideas, curren
         setEstimatedTime(4)
       })
 
-      // Call the AI service facade
-      const report = await aiService.generateInsights(
-        ideas,
-        currentProject?.name,
-        currentProject?.project_type,
-        currentProject?.id,
-        currentProject,
-        preferredModel
-      )
+      // Call the AI service facade, streaming sections as they are written
+      const controller = new AbortController()
+      abortControllerRef.current = controller
+      setPartialInsights(null)
+      let report: InsightsReport
+      try {
+        report = await aiService.generateInsights(
+          placedIdeas,
+          currentProject?.name,
+          currentProject?.project_type,
+          currentProject?.id,
+          currentProject,
+          preferredModel,
+          controller.signal,
+          (partial) => {
+            if (controller.signal.aborted) return
+            const sections = Object.keys(partial).length
+            setPartialInsights(partial as Partial<InsightsReport>)
+            startTransition(() => {
+              setAiStage(sections > 2 ? 'finalizing' : 'optimizing')
+              setAiProgress(Math.min(95, 50 + sections * 8))
+            })
+          }
+        )
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError' && controller.signal.aborted) {
+          throw new Error('Insights generation was cancelled')
+        }
+        throw error
+      } finally {
+        if (abortControllerRef.current === controller) abortControllerRef.current = null
+      }
 
       startTransition(() => {
         setAiProgress(100)
@@ -278,6 +309,8 @@ const AIInsightsModal: React.FC<AIInsightsModalProps> = ({ isOpen, ideas, curren
   useEffect(() => {
     if (!isOpen) {
       logger.debug('🎭 AIInsightsModal: Modal closed, resetting all states')
+      // Stop a generation that is still streaming
+      abortControllerRef.current?.abort()
       // Reset async operations
       insightsOperation.reset()
       historicalOperation.reset()
@@ -291,6 +324,7 @@ const AIInsightsModal: React.FC<AIInsightsModalProps> = ({ isOpen, ideas, curren
         setProcessingSteps([])
         setEstimatedTime(0)
         setSavedInsightId(null)
+        setPartialInsights(null)
       }, 0)
     }
   }, [isOpen])
@@ -300,7 +334,11 @@ const AIInsightsModal: React.FC<AIInsightsModalProps> = ({ isOpen, ideas, curren
     const insights = insightsOperation.state.data || historicalOperation.state.data
     if (insights) {
       try {
-        await exportGraphicalInsightsToPDF(insights, currentProject?.name)
+        const matrixConfig = resolveMatrixConfig(currentProject?.settings?.matrix_view)
+        await exportGraphicalInsightsToPDF(insights, currentProject?.name, {
+          config: matrixConfig,
+          counts: countIdeasByQuadrant(placedIdeas, matrixConfig)
+        })
       } catch (error) {
         logger.error('PDF export failed', error, {
           ideaCount: (ideas || []).length,
@@ -387,6 +425,7 @@ const AIInsightsModal: React.FC<AIInsightsModalProps> = ({ isOpen, ideas, curren
 
         {/* Content */}
         <div className="p-6">
+          <AIBudgetNotice projectId={currentProject?.id} className="mb-4" />
           {(insightsOperation.state.loading || historicalOperation.state.loading) && (
             <div className="py-8">
               {/* Premium AI Processing Interface */}
@@ -464,6 +503,35 @@ const AIInsightsModal: React.FC<AIInsightsModalProps> = ({ isOpen, ideas, curren
                     )
                   })}
                 </div>
+
+                {/* Sections streamed in so far */}
+                {insightsOperation.state.loading && partialInsights && (partialInsights.executiveSummary || partialInsights.keyInsights) && (
+                  <div className="rounded-xl border p-4 mt-6 bg-surface-primary border-hairline-default" data-testid="insights-stream-preview">
+                    {partialInsights.executiveSummary && (
+                      <p className="text-sm leading-relaxed text-graphite-700">{partialInsights.executiveSummary}</p>
+                    )}
+                    {partialInsights.keyInsights && partialInsights.keyInsights.length > 0 && (
+                      <ul className="mt-3 space-y-1 text-sm text-graphite-600 list-disc list-inside">
+                        {partialInsights.keyInsights.map((item, index) => (
+                          <li key={index}>{item.insight}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {insightsOperation.state.loading && (
+                  <div className="flex justify-center mt-6">
+                    <Button
+                      onClick={() => abortControllerRef.current?.abort()}
+                      variant="secondary"
+                      size="sm"
+                      aria-label="Cancel insights generation"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -62,6 +62,8 @@ const AIStarterModal: React.FC<AIStarterModalProps> = ({ currentUser, onClose, o
   const [questionAnswers, setQuestionAnswers] = useState<Record<number, string>>({})
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Ideas streamed in while generation is still running
+  const [streamedIdeas, setStreamedIdeas] = useState<IdeaCard[]>([])
   const [ideaCount, setIdeaCount] = useState<number>(AI_STARTER_VALIDATION.DEFAULT_IDEA_COUNT)
   const [ideaTolerance, setIdeaTolerance] = useState<number>(AI_STARTER_VALIDATION.DEFAULT_IDEA_TOLERANCE)
 
@@ -197,13 +199,20 @@ const AIStarterModal: React.FC<AIStarterModalProps> = ({ currentUser, onClose, o
 
       let result: Awaited<ReturnType<typeof aiService.generateProjectIdeas>> | undefined
 
+      setStreamedIdeas([])
       await aiGeneration.execute(async (signal: AbortSignal) => {
         result = await aiService.generateProjectIdeas(
           projectName,
           projectDescription,
           effectiveProjectType,
           ideaCount,
-          ideaTolerance
+          ideaTolerance,
+          {
+            signal,
+            onPartial: (ideas) => {
+              if (!signal.aborted) setStreamedIdeas(ideas)
+            }
+          }
         )
         if (signal.aborted) return
       })
@@ -268,13 +277,20 @@ const AIStarterModal: React.FC<AIStarterModalProps> = ({ currentUser, onClose, o
 
       let result: Awaited<ReturnType<typeof aiService.generateProjectIdeas>> | undefined
 
+      setStreamedIdeas([])
       await aiGeneration.execute(async (signal: AbortSignal) => {
         result = await aiService.generateProjectIdeas(
           projectName,
           enhancedDescription,
           effectiveProjectType,
           ideaCount,
-          ideaTolerance
+          ideaTolerance,
+          {
+            signal,
+            onPartial: (ideas) => {
+              if (!signal.aborted) setStreamedIdeas(ideas)
+            }
+          }
         )
         if (signal.aborted) return
       })
@@ -411,7 +427,20 @@ const AIStarterModal: React.FC<AIStarterModalProps> = ({ currentUser, onClose, o
             onCancel={aiGeneration.cancel}
             error={aiGeneration.error}
             onRetry={aiGeneration.retry}
-          />
+          >
+            {streamedIdeas.length > 0 && (
+              <div className="rounded-xl border p-4 bg-surface-primary border-hairline-default" data-testid="ai-starter-streamed-ideas">
+                <h4 className="text-sm font-semibold mb-3 text-graphite-700">
+                  Ideas so far ({streamedIdeas.length}/{ideaCount})
+                </h4>
+                <ul className="space-y-1 text-sm text-graphite-700 max-h-40 overflow-y-auto">
+                  {streamedIdeas.map((idea) => (
+                    <li key={idea.id}>{idea.content}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </AIProgressOverlay>
 
           {error && (
             <div className="mb-6 rounded-lg p-4 border" style={{
@@ -1,7 +1,9 @@
 import React, { useState } from 'react'
 import { Plus } from 'lucide-react'
-import { IdeaCard, User } from '../types'
+import { IdeaCard, IdeaScores, ScoringFramework, User } from '../types'
 import { BaseModal } from './shared'
+import IdeaScoreFields from './matrix/IdeaScoreFields'
+import IdeaTagFields from './matrix/IdeaTagFields'
 import Button from './ui/Button'
 import { Input } from './ui/Input'
 import { Textarea } from './ui/Textarea'
@@ -13,14 +15,20 @@ interface AddIdeaModalProps {
   currentUser?: User | null
   /** Custom portal target for fullscreen mode */
   portalTarget?: HTMLElement
+  /** Project's scoring framework, shown first in the score inputs */
+  scoringFramework?: ScoringFramework
+  /** Project tags and tags used on the board, offered in the tag input */
+  tagSuggestions?: string[]
 }
 
-const AddIdeaModal: React.FC<AddIdeaModalProps> = ({ isOpen, onClose, onAdd, currentUser, portalTarget }) => {
+const AddIdeaModal: React.FC<AddIdeaModalProps> = ({ isOpen, onClose, onAdd, currentUser, portalTarget, scoringFramework, tagSuggestions }) => {
   const [content, setContent] = useState('')
   const [details, setDetails] = useState('')
   const [x, setX] = useState(260) // Center of 520px usable area
   const [y, setY] = useState(260) // Center of 520px usable area
   const [priority, setPriority] = useState<IdeaCard['priority']>('moderate')
+  const [scores, setScores] = useState<IdeaScores>({})
+  const [tags, setTags] = useState<string[]>([])
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
@@ -32,6 +40,8 @@ const AddIdeaModal: React.FC<AddIdeaModalProps> = ({ isOpen, onClose, onAdd, cur
       x,
       y,
       priority,
+      scores: Object.keys(scores).length > 0 ? scores : null,
+      tags,
       created_by: currentUser?.id || 'Anonymous',
       is_collapsed: true, // Default to minimized view
       editing_by: null, // Not being edited initially
@@ -44,6 +54,8 @@ const AddIdeaModal: React.FC<AddIdeaModalProps> = ({ isOpen, onClose, onAdd, cur
     setX(260)
     setY(260)
     setPriority('moderate')
+    setScores({})
+    setTags([])
   }
 
   return (
@@ -119,6 +131,12 @@ const AddIdeaModal: React.FC<AddIdeaModalProps> = ({ isOpen, onClose, onAdd, cur
             </select>
           </div>
 
+          {/* Tags */}
+          <IdeaTagFields tags={tags} onChange={setTags} suggestions={tagSuggestions} />
+
+          {/* Scores */}
+          <IdeaScoreFields scores={scores} onChange={setScores} defaultFramework={scoringFramework} />
+
           {/* Info */}
           <div className="rounded-lg p-4 bg-canvas-secondary">
             <h4 className="text-sm font-medium mb-2 text-graphite-700">💡 Tip</h4>
@@ -1,12 +1,16 @@
 import React, { useState, useEffect, forwardRef, useImperativeHandle, useContext } from 'react'
 import { useDroppable } from '@dnd-kit/core'
-import { IdeaCard, User } from '../types'
+import { IdeaCard, IdeaCluster, User } from '../types'
 import { OptimizedIdeaCard } from './matrix/OptimizedIdeaCard'
 import { SkeletonMatrix } from './ui'
 import { DotVotingContext } from '../contexts/DotVotingContext'
 import { DotVoteControls } from './brainstorm/DotVoteControls'
 import { ProjectRealtimeContext } from '../contexts/ProjectRealtimeContext'
 import { LockedCardOverlay } from './project/LockedCardOverlay'
+import { BlindRatingContext } from '../contexts/BlindRatingContext'
+import { ConsensusSpreadLayer } from './project/ConsensusSpreadLayer'
+import { ClusterOutlineLayer } from './matrix/ClusterOutlineLayer'
+import { BlindRatingCardBadge } from './project/BlindRatingCardBadge'
 import { useComponentState } from '../hooks/useComponentState'
 import { useComponentStateContext } from '../contexts/ComponentStateProvider'
 import { useMatrixPerformance } from '../hooks/useMatrixPerformance'
@@ -16,6 +20,15 @@ import {
   ComponentSize
 } from '../types/componentState'
 import { logger } from '../utils/logger'
+import { getIdeasInRect, rectFromPoints } from '../utils/ideaSelection'
+import {
+  DEFAULT_MATRIX_CONFIG,
+  coordinateToPercent,
+  formatAxisLabel,
+  getCellBoundaries,
+  type MatrixConfig
+} from '../utils/matrixQuadrant'
+import { ideaCardPositions } from '../utils/ideaClusters'
 
 interface DesignMatrixProps {
   ideas: IdeaCard[]
@@ -50,6 +63,47 @@ interface DesignMatrixProps {
   hasOpenModal?: boolean
   /** Phase Four: Set of idea IDs that were submitted from mobile devices */
   mobileIdeaIds?: Set<string>
+  /** Project-specific axes and quadrants (defaults to the value/effort 2x2) */
+  matrixConfig?: MatrixConfig
+  /** Render cards without drag, edit or delete (history replay) */
+  readOnly?: boolean
+  /** Ideas picked for bulk actions */
+  selectedIds?: ReadonlySet<string>
+  /** Enables multi-select: shift-click toggles a card, dragging on empty space draws a lasso */
+  onSelectionChange?: (ids: Set<string>) => void
+  /** Ideas that don't match the active filter; drawn faded but still interactive */
+  dimmedIds?: ReadonlySet<string>
+  /** Idea clusters to outline behind the cards */
+  clusters?: ReadonlyArray<IdeaCluster>
+}
+
+// A lasso smaller than this (as a fraction of the matrix) is a plain click
+const MIN_LASSO_SIZE = 0.01
+
+const EMPTY_IDS: ReadonlySet<string> = new Set()
+const NO_CLUSTERS: ReadonlyArray<IdeaCluster> = []
+
+// Anchor labels to the outer edges of edge cells and center them in middle cells
+function getQuadrantLabelPosition(row: number, col: number, divisions: number): React.CSSProperties {
+  const style: React.CSSProperties = {}
+  const transforms: string[] = []
+
+  if (col === 0) style.left = '1.5rem'
+  else if (col === divisions - 1) style.right = '1.5rem'
+  else {
+    style.left = '50%'
+    transforms.push('translateX(-50%)')
+  }
+
+  if (row === 0) style.top = '1.5rem'
+  else if (row === divisions - 1) style.bottom = '5rem'
+  else {
+    style.top = '50%'
+    transforms.push('translateY(-50%)')
+  }
+
+  if (transforms.length > 0) style.transform = transforms.join(' ')
+  return style
 }
 
 // Matrix component reference for imperative operations
@@ -86,12 +140,21 @@ const DesignMatrix = forwardRef<DesignMatrixRef, DesignMatrixProps>(({
   showLabels = true,
   isFullscreen = false,
   hasOpenModal = false,
-  mobileIdeaIds = new Set()
+  mobileIdeaIds = new Set(),
+  matrixConfig = DEFAULT_MATRIX_CONFIG,
+  readOnly = false,
+  selectedIds = EMPTY_IDS,
+  onSelectionChange,
+  dimmedIds = EMPTY_IDS,
+  clusters = NO_CLUSTERS
 }, ref) => {
   // NOTE: Auto-positioning of stacked brainstorm ideas is now handled in useIdeas.ts
   // This ensures state coordinates match visual positions, fixing the first-drag snap-back bug.
 
   const [hoveredQuadrant, setHoveredQuadrant] = useState<string | null>(null)
+  // Lasso corners as fractions of the matrix container, so zoom doesn't matter
+  const [lasso, setLasso] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null)
+  const canSelect = Boolean(onSelectionChange) && !readOnly
 
   // Nullable context read — returns null when no DotVotingProvider wraps this
   // component (non-session mode). Never throws, unlike useDotVotingContext().
@@ -101,6 +164,9 @@ const DesignMatrix = forwardRef<DesignMatrixRef, DesignMatrixProps>(({
   // this component (non-fullscreen path, D-27). Never throws.
   const projectRealtimeContext = useContext(ProjectRealtimeContext)
 
+  // Nullable context read — returns null when no blind rating round is wired up.
+  const blindRatingContext = useContext(BlindRatingContext)
+
   // CRITICAL FIX: All hooks must be called before ANY conditional early returns
   // This ensures consistent hook execution order and prevents "Rendered fewer hooks than expected" error
 
@@ -216,6 +282,48 @@ const DesignMatrix = forwardRef<DesignMatrixRef, DesignMatrixProps>(({
     })
   }
 
+  // Multi-select: shift-click toggles a card, dragging on empty space draws a lasso
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect()
+    return {
+      x: (e.clientX - bounds.left) / (bounds.width || 1),
+      y: (e.clientY - bounds.top) / (bounds.height || 1)
+    }
+  }
+
+  const handleLassoStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!canSelect || e.button !== 0) return
+    if ((e.target as HTMLElement).closest('[data-idea-id]')) return
+    e.currentTarget.setPointerCapture?.(e.pointerId)
+    const point = toPoint(e)
+    setLasso({ start: point, end: point })
+  }
+
+  const handleLassoMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!lasso) return
+    const end = toPoint(e)
+    setLasso((current) => (current ? { ...current, end } : current))
+  }
+
+  const handleLassoEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!lasso || !onSelectionChange) return
+    setLasso(null)
+    const rect = rectFromPoints(lasso.start, toPoint(e))
+    const isClick = rect.right - rect.left < MIN_LASSO_SIZE && rect.bottom - rect.top < MIN_LASSO_SIZE
+    const picked = isClick ? [] : getIdeasInRect(ideas || [], rect)
+    onSelectionChange(new Set(e.shiftKey ? [...selectedIds, ...picked] : picked))
+  }
+
+  const handleCardClickCapture = (e: React.MouseEvent, ideaId: string) => {
+    if (!canSelect || !e.shiftKey || !onSelectionChange) return
+    e.preventDefault()
+    e.stopPropagation()
+    const next = new Set(selectedIds)
+    if (next.has(ideaId)) next.delete(ideaId)
+    else next.add(ideaId)
+    onSelectionChange(next)
+  }
+
   // Show skeleton loading state
   if (componentState.isLoading) {
     return (
@@ -300,6 +408,10 @@ const DesignMatrix = forwardRef<DesignMatrixRef, DesignMatrixProps>(({
           // FIX: Prevent grid flicker during card deletion by containing repaints
           contain: 'layout paint'
         }}
+        onPointerDown={handleLassoStart}
+        onPointerMove={handleLassoMove}
+        onPointerUp={handleLassoEnd}
+        onPointerCancel={() => setLasso(null)}
       >
         {/* Matrix Grid Background */}
         {showGrid && <div className="matrix-grid" />}
@@ -309,81 +421,63 @@ const DesignMatrix = forwardRef<DesignMatrixRef, DesignMatrixProps>(({
 
         {/* Axis Labels */}
         <div className="matrix-axis matrix-axis-x" style={{ color: '#64748b' }}>
-          Implementation Difficulty →
+          {formatAxisLabel(matrixConfig.xAxis, 'x')}
         </div>
         <div className="matrix-axis matrix-axis-y" style={{ color: '#64748b' }}>
-          ← Business Value
+          {formatAxisLabel(matrixConfig.yAxis, 'y')}
         </div>
 
         {/* Enhanced Quadrant Labels with Performance-Optimized Hover */}
-        {showLabels && (
-          <>
-            <div
-              className={`absolute top-6 left-6 bg-emerald-50 text-emerald-800 px-4 py-3 rounded-xl text-sm font-semibold border border-emerald-200/60 shadow-sm cursor-pointer instant-hover-card ${
-                hoveredQuadrant === 'quick-wins' ? 'matrix-hover-layer bg-emerald-100' : ''
-              }`}
-              onMouseEnter={() => handleQuadrantHover('quick-wins')}
-              onMouseLeave={() => handleQuadrantHover(null)}
-              data-testid="quadrant-quick-wins"
-            >
-              <div className="flex items-center gap-2 mb-1">
-                <div className="w-2 h-2 bg-emerald-500 rounded-full"></div>
-                Quick Wins
-              </div>
-              <div className="text-xs text-emerald-600 font-normal">High Value • Low Effort</div>
-            </div>
+        {showLabels && matrixConfig.quadrants.map((quadrant, index) => {
+          const row = Math.floor(index / matrixConfig.divisions)
+          const col = index % matrixConfig.divisions
+          const isHovered = hoveredQuadrant === quadrant.id
 
+          return (
             <div
-              className={`absolute top-6 right-6 bg-blue-50 text-blue-800 px-4 py-3 rounded-xl text-sm font-semibold border border-blue-200/60 shadow-sm cursor-pointer instant-hover-card ${
-                hoveredQuadrant === 'strategic' ? 'matrix-hover-layer bg-blue-100' : ''
+              key={quadrant.id}
+              className={`absolute px-4 py-3 rounded-xl text-sm font-semibold border shadow-sm cursor-pointer instant-hover-card text-slate-800 ${
+                isHovered ? 'matrix-hover-layer' : ''
               }`}
-              onMouseEnter={() => handleQuadrantHover('strategic')}
+              style={{
+                ...getQuadrantLabelPosition(row, col, matrixConfig.divisions),
+                backgroundColor: `${quadrant.color}${isHovered ? '26' : '14'}`,
+                borderColor: `${quadrant.color}40`
+              }}
+              onMouseEnter={() => handleQuadrantHover(quadrant.id)}
               onMouseLeave={() => handleQuadrantHover(null)}
-              data-testid="quadrant-strategic"
+              data-testid={`quadrant-${quadrant.id}`}
             >
               <div className="flex items-center gap-2 mb-1">
-                <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                Strategic
+                <div className="w-2 h-2 rounded-full" style={{ backgroundColor: quadrant.color }}></div>
+                {quadrant.label}
               </div>
-              <div className="text-xs text-blue-600 font-normal">High Value • High Effort</div>
+              {quadrant.description && (
+                <div className="text-xs text-slate-600 font-normal">{quadrant.description}</div>
+              )}
             </div>
+          )
+        })}
 
+        {/* Modern Center Lines (cell dividers for 3x3 layouts) */}
+        {getCellBoundaries(matrixConfig).map((boundary) => (
+          <React.Fragment key={boundary}>
             <div
-              className={`absolute bottom-20 left-6 bg-amber-50 text-amber-800 px-4 py-3 rounded-xl text-sm font-semibold border border-amber-200/60 shadow-sm cursor-pointer instant-hover-card ${
-                hoveredQuadrant === 'reconsider' ? 'matrix-hover-layer bg-amber-100' : ''
-              }`}
-              onMouseEnter={() => handleQuadrantHover('reconsider')}
-              onMouseLeave={() => handleQuadrantHover(null)}
-              data-testid="quadrant-reconsider"
-            >
-              <div className="flex items-center gap-2 mb-1">
-                <div className="w-2 h-2 bg-amber-500 rounded-full"></div>
-                Reconsider
-              </div>
-              <div className="text-xs text-amber-600 font-normal">Low Value • Low Effort</div>
-            </div>
-
+              className="absolute top-0 bottom-0 w-px bg-slate-300/60 transform -translate-x-0.5"
+              style={{ left: `${coordinateToPercent(boundary)}%` }}
+            ></div>
             <div
-              className={`absolute bottom-20 right-6 bg-red-50 text-red-800 px-4 py-3 rounded-xl text-sm font-semibold border border-red-200/60 shadow-sm cursor-pointer instant-hover-card ${
-                hoveredQuadrant === 'avoid' ? 'matrix-hover-layer bg-red-100' : ''
-              }`}
-              onMouseEnter={() => handleQuadrantHover('avoid')}
-              onMouseLeave={() => handleQuadrantHover(null)}
-              data-testid="quadrant-avoid"
-            >
-              <div className="flex items-center gap-2 mb-1">
-                <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                Avoid
-              </div>
-              <div className="text-xs text-red-600 font-normal">Low Value • High Effort</div>
-            </div>
-          </>
-        )}
+              className="absolute left-0 right-0 h-px bg-slate-300/60 transform -translate-y-0.5"
+              style={{ top: `${coordinateToPercent(boundary)}%` }}
+            ></div>
+          </React.Fragment>
+        ))}
 
-        {/* Modern Center Lines */}
-        <div className="absolute top-0 bottom-0 left-1/2 w-px bg-slate-300/60 transform -translate-x-0.5"></div>
-        <div className="absolute left-0 right-0 top-1/2 h-px bg-slate-300/60 transform -translate-y-0.5"></div>
+        {/* Blind rating: ellipses of disagreement sit behind the cards */}
+        {blindRatingContext && <ConsensusSpreadLayer />}
 
+        {/* Idea clusters: outlines sit behind the cards */}
+        <ClusterOutlineLayer clusters={clusters} positions={ideaCardPositions(ideas || [])} />
 
         {/* Idea Cards */}
         {(ideas || []).map((idea) => {
@@ -410,8 +504,10 @@ const DesignMatrix = forwardRef<DesignMatrixRef, DesignMatrixProps>(({
             })
           }
 
-          const xPercent = ((safeX + 40) / 600) * 100
-          const yPercent = ((safeY + 40) / 600) * 100
+          const xPercent = coordinateToPercent(safeX)
+          const yPercent = coordinateToPercent(safeY)
+          const isSelected = selectedIds.has(idea.id)
+          const isDimmed = dimmedIds.has(idea.id)
 
           return (
             <div
@@ -422,7 +518,7 @@ const DesignMatrix = forwardRef<DesignMatrixRef, DesignMatrixProps>(({
                 left: `${xPercent}%`,
                 top: `${yPercent}%`,
                 transform: 'translate(-50%, -50%)',
-                opacity: activeId === idea.id ? 0.3 : 1,  // Fade original during drag
+                opacity: activeId === idea.id ? 0.3 : isDimmed ? 0.25 : 1,  // Fade original during drag
                 visibility: activeId === idea.id ? 'hidden' : 'visible',  // Hide completely during drag
                 // FIX: Use 'layout style' containment instead of 'content'
                 // 'content' includes paint containment which clips overflow (cuts off delete button)
@@ -431,9 +527,18 @@ const DesignMatrix = forwardRef<DesignMatrixRef, DesignMatrixProps>(({
                 // CRITICAL: Allow delete button to overflow card bounds
                 overflow: 'visible',
                 // Only use willChange during active drag to avoid GPU layer thrashing
-                willChange: activeId === idea.id ? 'transform, opacity' : 'auto'
+                willChange: activeId === idea.id ? 'transform, opacity' : 'auto',
+                // Replayed cards are snapshots; dragging them would move the live idea
+                pointerEvents: readOnly ? 'none' : undefined,
+                outline: isSelected ? '2px solid var(--sapphire-500)' : undefined,
+                outlineOffset: isSelected ? '4px' : undefined,
+                borderRadius: isSelected ? '0.75rem' : undefined
               }}
               data-testid={`idea-card-${idea.id}`}
+              data-idea-id={idea.id}
+              data-selected={isSelected || undefined}
+              data-dimmed={isDimmed || undefined}
+              onClickCapture={(e) => handleCardClickCapture(e, idea.id)}
               // Performance monitoring completely disabled for optimal experience
             >
               <OptimizedIdeaCard
@@ -443,6 +548,7 @@ const DesignMatrix = forwardRef<DesignMatrixRef, DesignMatrixProps>(({
                 onDelete={() => handleDeleteIdea(idea.id)}
                 onToggleCollapse={(ideaId, collapsed) => handleToggleCollapse(ideaId, collapsed)}
                 isFromMobile={mobileIdeaIds.has(idea.id)}
+                matrixConfig={matrixConfig}
               />
               {votingContext && (
                 <DotVoteControls ideaId={idea.id} ideaTitle={idea.content} />
@@ -450,10 +556,31 @@ const DesignMatrix = forwardRef<DesignMatrixRef, DesignMatrixProps>(({
               {projectRealtimeContext && (
                 <LockedCardOverlay ideaId={idea.id} ideaTitle={idea.content} />
               )}
+              {blindRatingContext && (
+                <BlindRatingCardBadge ideaId={idea.id} ideaTitle={idea.content} />
+              )}
             </div>
           )
         })}
 
+        {/* Selection lasso */}
+        {lasso && (() => {
+          const rect = rectFromPoints(lasso.start, lasso.end)
+          return (
+            <div
+              className="absolute rounded-sm border border-dashed border-sapphire-500 bg-sapphire-500/10"
+              style={{
+                left: `${rect.left * 100}%`,
+                top: `${rect.top * 100}%`,
+                width: `${(rect.right - rect.left) * 100}%`,
+                height: `${(rect.bottom - rect.top) * 100}%`,
+                pointerEvents: 'none'
+              }}
+              data-testid="matrix-selection-lasso"
+            />
+          )
+        })()}
+
         {/* Enhanced Empty State */}
         {(ideas || []).length === 0 && (
           <div className="absolute inset-0 flex items-center justify-center" style={{ pointerEvents: 'none' }}>
@@ -463,7 +590,7 @@ const DesignMatrix = forwardRef<DesignMatrixRef, DesignMatrixProps>(({
               <p className="text-slate-600 mb-6 max-w-md">Add your first idea to get started with the priority matrix. Drag ideas between quadrants to organize by value and effort.</p>
               <div className="inline-flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-700 rounded-lg text-sm font-medium">
                 <span>💫</span>
-                <span>Tip: Quick Wins (top-left) are your best opportunities</span>
+                <span>Tip: {matrixConfig.quadrants[0].label} (top-left) are your best opportunities</span>
               </div>
             </div>
           </div>
@@ -1,12 +1,14 @@
 import React, { useState, useEffect, useCallback } from 'react'
 import { Edit3, Trash2, AlertCircle } from 'lucide-react'
-import { IdeaCard, User } from '../types'
+import { IdeaCard, IdeaScores, ScoringFramework, User } from '../types'
 import { IdeaRepository } from '../lib/repositories'
 import { useToast } from '../contexts/ToastContext'
 import { BaseModal } from './shared/Modal'
 import { Button } from './ui/Button'
 import { Input } from './ui/Input'
 import { Textarea } from './ui/Textarea'
+import IdeaScoreFields from './matrix/IdeaScoreFields'
+import IdeaTagFields from './matrix/IdeaTagFields'
 import { logger } from '../utils/logger'
 
 interface EditIdeaModalProps {
@@ -18,15 +20,21 @@ interface EditIdeaModalProps {
   onDelete: (ideaId: string) => void
   /** Custom portal target for fullscreen mode */
   portalTarget?: HTMLElement
+  /** Project's scoring framework, shown first in the score inputs */
+  scoringFramework?: ScoringFramework
+  /** Project tags and tags used on the board, offered in the tag input */
+  tagSuggestions?: string[]
 }
 
-const EditIdeaModal: React.FC<EditIdeaModalProps> = ({ idea, isOpen, currentUser, onClose, onUpdate, onDelete, portalTarget }) => {
+const EditIdeaModal: React.FC<EditIdeaModalProps> = ({ idea, isOpen, currentUser, onClose, onUpdate, onDelete, portalTarget, scoringFramework, tagSuggestions }) => {
   const { showWarning, showError, showSuccess } = useToast()
   const [content, setContent] = useState(idea?.content || '')
   const [details, setDetails] = useState(idea?.details || '')
   const [x] = useState(idea?.x || 260)
   const [y] = useState(idea?.y || 260)
   const [priority, setPriority] = useState<IdeaCard['priority']>(idea?.priority || 'moderate')
+  const [scores, setScores] = useState<IdeaScores>(idea?.scores || {})
+  const [tags, setTags] = useState<string[]>(idea?.tags || [])
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [isLocked, setIsLocked] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -69,6 +77,8 @@ const EditIdeaModal: React.FC<EditIdeaModalProps> = ({ idea, isOpen, currentUser
       setContent(idea.content || '')
       setDetails(idea.details || '')
       setPriority(idea.priority || 'moderate')
+      setScores(idea.scores || {})
+      setTags(idea.tags || [])
     }
   }, [idea])
 
@@ -138,6 +148,8 @@ const EditIdeaModal: React.FC<EditIdeaModalProps> = ({ idea, isOpen, currentUser
         x,
         y,
         priority,
+        scores: Object.keys(scores).length > 0 ? scores : null,
+        tags,
         editing_by: null,
         editing_at: null,
         updated_at: new Date().toISOString()
@@ -291,6 +303,12 @@ const EditIdeaModal: React.FC<EditIdeaModalProps> = ({ idea, isOpen, currentUser
             </select>
           </div>
 
+          {/* Tags */}
+          <IdeaTagFields tags={tags} onChange={setTags} suggestions={tagSuggestions} />
+
+          {/* Scores */}
+          <IdeaScoreFields scores={scores} onChange={setScores} defaultFramework={scoringFramework} />
+
           {/* Info */}
           <div className="rounded-lg p-4 bg-canvas-secondary">
             <h4 className="text-sm font-medium mb-2 text-graphite-700">💡 Tip</h4>
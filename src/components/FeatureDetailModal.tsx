@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react'
-import { X, Calendar, Users, Flag, Zap, Target, CheckCircle, Clock, AlertTriangle, Edit, Save, Trash2, Plus, ChevronDown } from 'lucide-react'
+import { X, Calendar, Users, Flag, Zap, Target, CheckCircle, Clock, AlertTriangle, Edit, Save, Trash2, Plus, ChevronDown, Lock } from 'lucide-react'
 import { Button } from './ui/Button'
 
 interface FeatureDetail {
@@ -17,6 +17,7 @@ interface FeatureDetail {
   risks?: string[]
   successCriteria?: string[]
   complexity?: string
+  locked?: boolean
 }
 
 interface FeatureDetailModalProps {
@@ -312,6 +313,18 @@ const FeatureDetailModal: React.FC<FeatureDetailModalProps> = ({
                       </select>
                       <ChevronDown className="absolute right-2.5 top-1/2 transform -translate-y-1/2 w-3.5 h-3.5 pointer-events-none text-graphite-400" />
                     </div>
+                    <label
+                      className="flex items-center gap-2 px-3 py-2 text-sm font-medium cursor-pointer text-graphite-700"
+                      title="Roadmap refresh will not change a locked feature"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={!!currentFeature.locked}
+                        onChange={(e) => updateFeature({ locked: e.target.checked })}
+                      />
+                      <Lock className="w-3.5 h-3.5" />
+                      Lock
+                    </label>
                   </>
                 ) : (
                   <>
@@ -327,6 +340,15 @@ const FeatureDetailModal: React.FC<FeatureDetailModalProps> = ({
                       <Users className="w-3 h-3 inline mr-1.5" />
                       {getTeamDisplayName(currentFeature.team)}
                     </span>
+                    {currentFeature.locked && (
+                      <span
+                        className="px-3 py-1.5 rounded-lg text-xs font-medium border bg-graphite-100 text-graphite-800 border-hairline-default"
+                        title="Roadmap refresh will not change a locked feature"
+                      >
+                        <Lock className="w-3 h-3 inline mr-1.5" />
+                        Locked
+                      </span>
+                    )}
                   </>
                 )}
               </div>
@@ -1,6 +1,6 @@
 import React from 'react'
-import { X, FileText, Image, Download, Play, Volume2 } from 'lucide-react'
-import { ProjectFile } from '../types'
+import { X, FileText, Image, Download, Play, Volume2, ShieldAlert } from 'lucide-react'
+import { ProjectFile, ContentGuardFindingKind } from '../types'
 import { logger } from '../utils/logger'
 import { useToast } from '../contexts/ToastContext'
 import { FileService } from '../lib/fileService'
@@ -13,6 +13,13 @@ interface FileViewerProps {
   onClose: () => void
 }
 
+const FINDING_LABELS: Record<ContentGuardFindingKind, string> = {
+  instruction: 'Instructions aimed at the AI',
+  role_marker: 'Chat role markers',
+  exfiltration: 'Attempt to send data elsewhere',
+  hidden_text: 'Hidden text or metadata'
+}
+
 const FileViewer: React.FC<FileViewerProps> = ({ file, isOpen, onClose }) => {
   const { showError, showWarning } = useToast()
   const [fileUrl, setFileUrl] = useState<string | null>(null)
@@ -396,6 +403,29 @@ const FileViewer: React.FC<FileViewerProps> = ({ file, isOpen, onClose }) => {
                 </div>
               </div>
             </div>
+
+            {/* Prompt-injection findings from the file analysis */}
+            {file.ai_analysis?.content_guard && file.ai_analysis.content_guard.findings.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-4" role="alert">
+                <div className="flex items-start space-x-2">
+                  <ShieldAlert className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <h4 className="text-sm font-medium text-amber-900 mb-1">Possible prompt injection</h4>
+                    <p className="text-sm text-amber-700 mb-2">
+                      This file contains text that looks like instructions to the AI. It is still used as reference material, but fenced off so the AI reads it as content only.
+                    </p>
+                    <ul className="space-y-1">
+                      {file.ai_analysis.content_guard.findings.map((finding, index) => (
+                        <li key={index} className="text-sm text-amber-800">
+                          <span className="font-medium">{FINDING_LABELS[finding.kind] ?? finding.kind}:</span>{' '}
+                          <span className="font-mono text-xs">{finding.excerpt}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -3,12 +3,16 @@
  * Phase Three Implementation
  *
  * Touch-optimized form for mobile participants to submit ideas
- * Features: Character limits, priority selector, validation, success feedback, recent ideas list
+ * Features: Character limits, priority selector, validation, success feedback, recent ideas list,
+ * possible-duplicate notice, held-for-review notice, current round with its timer
  */
 
 import React, { useState, useRef, useEffect } from 'react'
 import type { BrainstormSession, SessionParticipant } from '../types/BrainstormSession'
 import { BrainstormSessionService } from '../lib/services/BrainstormSessionService'
+import { useRoundCountdown } from '../hooks/useRoundCountdown'
+import { ROUND_DEFINITIONS, canSubmitInRound, formatRoundTime } from '../utils/brainstormRounds'
+import { getCurrentPrompt } from '../utils/brainstormTechniques'
 import LoadingSpinner from './ui/LoadingSpinner'
 
 interface MobileIdeaSubmitFormProps {
@@ -20,6 +24,8 @@ interface SubmittedIdea {
   id: string
   content: string
   created_at: string
+  /** Held for the facilitator's review rather than posted to the board */
+  held?: boolean
 }
 
 type Priority = 'low' | 'moderate' | 'high'
@@ -35,9 +41,18 @@ export default function MobileIdeaSubmitForm({
   const [showSuccess, setShowSuccess] = useState(false)
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
   const [recentIdeas, setRecentIdeas] = useState<SubmittedIdea[]>([])
+  // Content of an existing idea the last submission resembles
+  const [similarIdea, setSimilarIdea] = useState<string | null>(null)
 
   const contentRef = useRef<HTMLTextAreaElement>(null)
 
+  // Facilitated rounds decide when ideas are taken; the countdown re-renders every second
+  const round = session.current_round ? ROUND_DEFINITIONS[session.current_round] : null
+  const roundTimeRemaining = useRoundCountdown(session.round_ends_at)
+  // Technique prompt the participant is answering; submitted ideas are tagged with it
+  const prompt = getCurrentPrompt(session)
+  const acceptingIdeas = session.status === 'active' && canSubmitInRound(session)
+
   useEffect(() => {
     // Auto-focus content textarea on mount
     contentRef.current?.focus()
@@ -49,6 +64,7 @@ export default function MobileIdeaSubmitForm({
   const isContentTooLong = contentLength > 200
   const isDetailsTooLong = detailsLength > 500
   const canSubmit =
+    acceptingIdeas &&
     content.trim().length >= 10 &&
     contentLength <= 200 &&
     detailsLength <= 500 &&
@@ -61,6 +77,7 @@ export default function MobileIdeaSubmitForm({
 
     setIsSubmitting(true)
     setErrorMessage(null)
+    setSimilarIdea(null)
 
     try {
       const result = await BrainstormSessionService.submitIdea({
@@ -84,8 +101,10 @@ export default function MobileIdeaSubmitForm({
 
       // Success! Add to recent ideas and reset form
       if (result.idea) {
-        setRecentIdeas((prev) => [result.idea!, ...prev].slice(0, 5)) // Keep last 5
+        const submitted = { ...result.idea, held: result.held }
+        setRecentIdeas((prev) => [submitted, ...prev].slice(0, 5)) // Keep last 5
       }
+      setSimilarIdea(result.possibleDuplicates?.[0]?.content ?? null)
 
       setContent('')
       setDetails('')
@@ -151,6 +170,27 @@ export default function MobileIdeaSubmitForm({
         </div>
       </div>
 
+      {/* Current Round */}
+      {round && (
+        <div className="bg-blue-50 border-b border-blue-100 px-4 py-3" role="status" aria-live="polite">
+          <div className="flex items-center justify-between">
+            <p className="font-semibold text-blue-900">{round.label}</p>
+            {roundTimeRemaining !== null && (
+              <p className="font-semibold tabular-nums text-blue-900" role="timer">
+                {roundTimeRemaining === 0 ? "Time's up" : formatRoundTime(roundTimeRemaining)}
+              </p>
+            )}
+          </div>
+          <p className="text-sm text-blue-800 mt-0.5">{round.participantPrompt}</p>
+          {prompt && (
+            <div className="mt-2 rounded-md bg-white/70 px-3 py-2" aria-label="Current prompt">
+              <p className="text-xs font-semibold uppercase tracking-wide text-blue-700">{prompt.label}</p>
+              <p className="text-base text-blue-950">{prompt.text}</p>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Success Toast */}
       {showSuccess && (
         <div className="fixed top-20 left-1/2 transform -translate-x-1/2 z-50 animate-[slideDown_0.3s_ease-out]">
@@ -163,7 +203,9 @@ export default function MobileIdeaSubmitForm({
                 d="M5 13l4 4L19 7"
               />
             </svg>
-            <span className="font-medium">Idea submitted successfully!</span>
+            <span className="font-medium">
+              {recentIdeas[0]?.held ? 'Idea sent to the facilitator for review' : 'Idea submitted successfully!'}
+            </span>
           </div>
         </div>
       )}
@@ -191,7 +233,7 @@ export default function MobileIdeaSubmitForm({
               }`}
               rows={3}
               maxLength={200}
-              disabled={isSubmitting || session.status !== 'active'}
+              disabled={isSubmitting || !acceptingIdeas}
             />
             <div className="flex justify-between items-center mt-1">
               <div>
@@ -229,7 +271,7 @@ export default function MobileIdeaSubmitForm({
               }`}
               rows={4}
               maxLength={500}
-              disabled={isSubmitting || session.status !== 'active'}
+              disabled={isSubmitting || !acceptingIdeas}
             />
             <div className="flex justify-end mt-1">
               <p
@@ -249,7 +291,7 @@ export default function MobileIdeaSubmitForm({
               <button
                 type="button"
                 onClick={() => setPriority('low')}
-                disabled={isSubmitting || session.status !== 'active'}
+                disabled={isSubmitting || !acceptingIdeas}
                 className={`min-h-11 min-w-11 px-4 py-3 rounded-lg border-2 font-medium text-base transition-all ${
                   priority === 'low'
                     ? 'border-blue-500 bg-blue-50 text-blue-700'
@@ -261,7 +303,7 @@ export default function MobileIdeaSubmitForm({
               <button
                 type="button"
                 onClick={() => setPriority('moderate')}
-                disabled={isSubmitting || session.status !== 'active'}
+                disabled={isSubmitting || !acceptingIdeas}
                 className={`min-h-11 min-w-11 px-4 py-3 rounded-lg border-2 font-medium text-base transition-all ${
                   priority === 'moderate'
                     ? 'border-blue-500 bg-blue-50 text-blue-700'
@@ -273,7 +315,7 @@ export default function MobileIdeaSubmitForm({
               <button
                 type="button"
                 onClick={() => setPriority('high')}
-                disabled={isSubmitting || session.status !== 'active'}
+                disabled={isSubmitting || !acceptingIdeas}
                 className={`min-h-11 min-w-11 px-4 py-3 rounded-lg border-2 font-medium text-base transition-all ${
                   priority === 'high'
                     ? 'border-blue-500 bg-blue-50 text-blue-700'
@@ -285,6 +327,15 @@ export default function MobileIdeaSubmitForm({
             </div>
           </div>
 
+          {/* Possible Duplicate Notice */}
+          {similarIdea && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4" role="status" data-testid="possible-duplicate-notice">
+              <p className="text-sm text-amber-800">
+                Your idea was added. It looks similar to &ldquo;{similarIdea}&rdquo; &mdash; the facilitator may merge them.
+              </p>
+            </div>
+          )}
+
           {/* Error Message */}
           {errorMessage && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
@@ -325,10 +376,14 @@ export default function MobileIdeaSubmitForm({
             )}
           </button>
 
-          {session.status !== 'active' && (
+          {session.status !== 'active' ? (
             <p className="text-center text-sm text-amber-600">
               Session is currently {session.status}. Idea submission is disabled.
             </p>
+          ) : !acceptingIdeas && (
+            <p className="text-center text-sm text-amber-600">
+              Idea submission is closed for this round.
+            </p>
           )}
         </form>
 
@@ -347,6 +402,7 @@ export default function MobileIdeaSubmitForm({
                   <p className="text-neutral-800">{idea.content}</p>
                   <p className="text-xs text-neutral-500 mt-2">
                     {new Date(idea.created_at).toLocaleTimeString()}
+                    {idea.held && <span className="ml-2 text-amber-700">Waiting for facilitator review</span>}
                   </p>
                 </div>
               ))}
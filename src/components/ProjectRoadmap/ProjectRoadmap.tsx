@@ -1,18 +1,22 @@
 import React, { useState, useEffect, useMemo, useRef, lazy, Suspense } from 'react'
 import { Grid3X3, Map } from 'lucide-react'
-import { Project, IdeaCard, ProjectRoadmap as ProjectRoadmapType } from '../../types'
+import { Project, IdeaCard, ProjectRoadmap as ProjectRoadmapType, RoadmapEpicChange } from '../../types'
 import { aiService } from '../../lib/aiService'
 import { DatabaseService } from '../../lib/database'
 import { useLogger } from '../../lib/logging'
 import { useAIGeneration } from '../../hooks/useAIGeneration'
 import { STAGE_CONFIGS } from '../../hooks/stageConfigs'
 import { useToast } from '../../contexts/ToastContext'
+import { resolveMatrixConfig } from '../../utils/matrixQuadrant'
+import { applyRoadmapChanges, findRoadmapIdeaChanges } from '../../utils/roadmapRefresh'
 import AIProgressOverlay from '../ui/AIProgressOverlay'
+import AIBudgetNotice from '../ui/AIBudgetNotice'
 import TimelineRoadmap from '../TimelineRoadmap'
 import RoadmapHeader from './RoadmapHeader'
 import PhaseList from './PhaseList'
 import MilestoneTimeline from './MilestoneTimeline'
-import { RoadmapData, RoadmapViewMode, RoadmapState } from './types'
+import RoadmapRefreshModal from './RoadmapRefreshModal'
+import { Phase, RoadmapData, RoadmapViewMode, RoadmapState } from './types'
 
 // Lazy load the RoadmapExportModal to reduce bundle size
 const RoadmapExportModal = lazy(() => import('../RoadmapExportModal'))
@@ -25,11 +29,13 @@ interface ProjectRoadmapProps {
 
 const ProjectRoadmap: React.FC<ProjectRoadmapProps> = ({ currentUser, currentProject, ideas }) => {
   const logger = useLogger('ProjectRoadmap')
-  const { showSuccess } = useToast()
+  const { showSuccess, showError } = useToast()
   const aiGeneration = useAIGeneration(STAGE_CONFIGS.roadmap)
 
   // ALL HOOKS MUST BE CALLED BEFORE ANY CONDITIONAL RETURNS
   const [roadmapData, setRoadmapData] = useState<RoadmapData | null>(null)
+  // Phases streamed in while the roadmap is being generated
+  const [streamedPhases, setStreamedPhases] = useState<Phase[]>([])
   const [state, setState] = useState<RoadmapState>({
     isLoading: false,
     error: null,
@@ -37,8 +43,10 @@ const ProjectRoadmap: React.FC<ProjectRoadmapProps> = ({ currentUser, currentPro
     showHistory: false,
     selectedRoadmapId: null,
     showConfirmModal: false,
-    isExportModalOpen: false
+    isExportModalOpen: false,
+    proposedChanges: null
   })
+  const [isSavingRefresh, setIsSavingRefresh] = useState(false)
   const [roadmapHistory, setRoadmapHistory] = useState<ProjectRoadmapType[]>([])
   const [viewMode, setViewMode] = useState<RoadmapViewMode['mode']>('timeline')
 
@@ -145,6 +153,7 @@ const ProjectRoadmap: React.FC<ProjectRoadmapProps> = ({ currentUser, currentPro
           risks: phase.risks,
           successCriteria: phase.successCriteria,
           complexity: epic.complexity,
+          locked: epic.locked,
           phaseIndex,
           epicIndex
         })
@@ -264,6 +273,7 @@ const ProjectRoadmap: React.FC<ProjectRoadmapProps> = ({ currentUser, currentPro
     }
 
     setState(prev => ({ ...prev, error: null, showConfirmModal: false }))
+    setStreamedPhases([])
 
     await aiGeneration.execute(async (signal: AbortSignal) => {
       logger.debug('🗺️ Generating roadmap for project:', { projectName: currentProject.name })
@@ -273,7 +283,13 @@ const ProjectRoadmap: React.FC<ProjectRoadmapProps> = ({ currentUser, currentPro
         ideas,
         currentProject.name,
         currentProject.project_type,
-        signal
+        signal,
+        resolveMatrixConfig(currentProject.settings?.matrix_view),
+        (phases) => {
+          if (!signal.aborted) setStreamedPhases(phases)
+        },
+        currentProject.settings?.idea_clusters,
+        currentProject.id
       )
 
       if (signal.aborted) return
@@ -310,6 +326,55 @@ const ProjectRoadmap: React.FC<ProjectRoadmapProps> = ({ currentUser, currentPro
     })
   }
 
+  // Refresh: the AI proposes epic changes for ideas changed since this version
+  const refreshRoadmap = async () => {
+    const roadmapAnalysis = roadmapData?.roadmapAnalysis
+    if (!currentProject || !roadmapData || !roadmapAnalysis) return
+
+    const selected = roadmapHistory.find(roadmap => roadmap.id === state.selectedRoadmapId)
+    if (!selected) {
+      logger.warn('Cannot refresh roadmap: selected version not found')
+      return
+    }
+
+    const { changed, removed } = findRoadmapIdeaChanges(ideas, roadmapData, selected.created_at)
+    if (changed.length === 0 && removed.length === 0) {
+      showSuccess('Roadmap is up to date with your ideas', 3000)
+      return
+    }
+
+    await aiGeneration.execute(async (signal: AbortSignal) => {
+      logger.debug('🗺️ Refreshing roadmap:', { changed: changed.length, removed: removed.length })
+      const changes = await aiService.refreshRoadmap({ roadmapAnalysis }, ideas, changed, removed, currentProject, signal)
+      if (signal.aborted) return
+
+      window.dispatchEvent(new CustomEvent('ai-quota-changed'))
+      if (changes.length === 0) {
+        showSuccess('No roadmap changes needed for the changed ideas', 3000)
+        return
+      }
+      setState(prev => ({ ...prev, proposedChanges: changes }))
+    })
+  }
+
+  const acceptRefreshChanges = async (accepted: RoadmapEpicChange[]) => {
+    if (!currentProject || !roadmapData) return
+
+    const updated = applyRoadmapChanges(roadmapData, accepted)
+    setIsSavingRefresh(true)
+    try {
+      const roadmapId = await DatabaseService.saveProjectRoadmap(currentProject.id, updated, currentUser, ideas.length)
+      setRoadmapData(updated)
+      setState(prev => ({ ...prev, proposedChanges: null, selectedRoadmapId: roadmapId ?? prev.selectedRoadmapId }))
+      await loadRoadmapHistory()
+      showSuccess('Roadmap updated and saved as a new version', 3000)
+    } catch (_error) {
+      logger.error('Error saving refreshed roadmap:', _error)
+      showError('Failed to save the refreshed roadmap')
+    }
+    setIsSavingRefresh(false)
+  }
+
   const togglePhaseExpansion = (phaseIndex: number) => {
     setState(prev => {
       const newExpanded = new Set(prev.expandedPhases)
@@ -354,6 +419,14 @@ const ProjectRoadmap: React.FC<ProjectRoadmapProps> = ({ currentUser, currentPro
               epic.duration = updatedFeature.duration
               epic.team = updatedFeature.team
               epic.status = updatedFeature.status
+              // Edits from the feature detail modal
+              epic.title = updatedFeature.title
+              if (updatedFeature.description !== undefined) epic.description = updatedFeature.description
+              if (updatedFeature.priority) epic.priority = updatedFeature.priority
+              if (updatedFeature.complexity) epic.complexity = updatedFeature.complexity
+              if (updatedFeature.userStories) epic.userStories = updatedFeature.userStories
+              if (updatedFeature.deliverables) epic.deliverables = updatedFeature.deliverables
+              epic.locked = updatedFeature.locked || undefined
               logger.debug(`📝 Updated epic "${epic.title}": start=${updatedFeature.startMonth}, duration=${updatedFeature.duration}`)
             }
           })
@@ -429,7 +502,26 @@ const ProjectRoadmap: React.FC<ProjectRoadmapProps> = ({ currentUser, currentPro
               onCancel={aiGeneration.cancel}
               error={aiGeneration.error}
               onRetry={aiGeneration.retry}
-            />
+            >
+              {aiGeneration.isGenerating && streamedPhases.length > 0 && (
+                <div className="rounded-xl border p-4 bg-surface-primary border-hairline-default" data-testid="roadmap-streamed-phases">
+                  <h4 className="text-sm font-semibold mb-3 text-graphite-700">
+                    Phases so far
+                  </h4>
+                  <ol className="space-y-2 text-sm">
+                    {streamedPhases.map((phase, index) => (
+                      <li key={index} className="text-graphite-700">
+                        <span className="font-medium">{phase.phase || `Phase ${index + 1}`}</span>
+                        {phase.duration && <span className="text-graphite-500"> · {phase.duration}</span>}
+                        {phase.epics?.length > 0 && (
+                          <span className="text-graphite-500"> · {phase.epics.length} epics</span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </AIProgressOverlay>
           </div>
         </div>
       ) : (
@@ -441,10 +533,13 @@ const ProjectRoadmap: React.FC<ProjectRoadmapProps> = ({ currentUser, currentPro
             roadmapHistory={roadmapHistory}
             selectedRoadmapId={state.selectedRoadmapId}
             onGenerateRoadmap={handleGenerateRoadmap}
+            onRefreshRoadmap={refreshRoadmap}
             onHistorySelect={handleHistorySelect}
             onExportClick={() => setState(prev => ({ ...prev, isExportModalOpen: true }))}
           />
 
+          <AIBudgetNotice projectId={currentProject?.id} className="mb-4" />
+
           {roadmapData && (
             <div>
               {/* Timeline View */}
@@ -546,6 +641,17 @@ const ProjectRoadmap: React.FC<ProjectRoadmapProps> = ({ currentUser, currentPro
         </Suspense>
       )}
 
+      {/* Refresh Review Modal */}
+      {state.proposedChanges && roadmapData && (
+        <RoadmapRefreshModal
+          roadmapData={roadmapData}
+          changes={state.proposedChanges}
+          isSaving={isSavingRefresh}
+          onAccept={acceptRefreshChanges}
+          onDiscard={() => setState(prev => ({ ...prev, proposedChanges: null }))}
+        />
+      )}
+
       {/* Confirmation Modal */}
       {state.showConfirmModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
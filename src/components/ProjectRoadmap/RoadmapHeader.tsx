@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react'
-import { Map, Download, History, Sparkles, Loader, ChevronDown } from 'lucide-react'
+import { Map, Download, History, Sparkles, Loader, ChevronDown, RefreshCw } from 'lucide-react'
 import { Project, ProjectRoadmap as ProjectRoadmapType, ProjectType } from '../../types'
 import { RoadmapData } from './types'
 import { Button } from '../ui/Button'
@@ -21,6 +21,8 @@ interface RoadmapHeaderProps {
   roadmapHistory: ProjectRoadmapType[]
   selectedRoadmapId: string | null
   onGenerateRoadmap: () => void
+  // Proposes updates for changed ideas instead of regenerating everything
+  onRefreshRoadmap?: () => void
   onHistorySelect: (roadmap: ProjectRoadmapType) => void
   onExportClick: () => void
 }
@@ -32,6 +34,7 @@ const RoadmapHeader: React.FC<RoadmapHeaderProps> = ({
   roadmapHistory,
   selectedRoadmapId,
   onGenerateRoadmap,
+  onRefreshRoadmap,
   onHistorySelect,
   onExportClick
 }) => {
@@ -87,6 +90,20 @@ const RoadmapHeader: React.FC<RoadmapHeaderProps> = ({
             {isLoading ? 'Generating...' : `${roadmapData ? 'Regenerate' : 'Generate'} Roadmap`}
           </Button>
 
+          {/* Refresh Button */}
+          {roadmapData && onRefreshRoadmap && (
+            <Button
+              onClick={onRefreshRoadmap}
+              disabled={isLoading}
+              variant="secondary"
+              size="lg"
+              icon={<RefreshCw className="w-5 h-5" />}
+              title="Update the roadmap for ideas changed since it was made, keeping your edits"
+            >
+              <span className="hidden sm:inline">Refresh</span>
+            </Button>
+          )}
+
           {/* Export Button */}
           {roadmapData && (
             <Button
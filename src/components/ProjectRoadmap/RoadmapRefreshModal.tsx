@@ -0,0 +1,135 @@
+import React, { useState } from 'react'
+import { Plus, Minus, PenLine } from 'lucide-react'
+import { RoadmapEpicChange } from '../../types'
+import { diffEpic, EpicFieldDiff } from '../../utils/roadmapRefresh'
+import { Button } from '../ui/Button'
+import { RoadmapData } from './types'
+
+interface RoadmapRefreshModalProps {
+  roadmapData: RoadmapData
+  changes: RoadmapEpicChange[]
+  isSaving: boolean
+  onAccept: (accepted: RoadmapEpicChange[]) => void
+  onDiscard: () => void
+}
+
+const ACTION_STYLES: Record<RoadmapEpicChange['action'], { label: string; className: string; icon: React.ReactNode }> = {
+  add: { label: 'Add', className: 'bg-emerald-100 text-emerald-800', icon: <Plus className="w-3 h-3" /> },
+  update: { label: 'Update', className: 'bg-sapphire-100 text-sapphire-800', icon: <PenLine className="w-3 h-3" /> },
+  remove: { label: 'Remove', className: 'bg-garnet-100 text-garnet-800', icon: <Minus className="w-3 h-3" /> }
+}
+
+const FIELD_LABELS: Record<EpicFieldDiff['field'], string> = {
+  title: 'Title',
+  description: 'Description',
+  priority: 'Priority',
+  complexity: 'Complexity',
+  userStories: 'User stories',
+  deliverables: 'Deliverables',
+  relatedIdeas: 'Related ideas'
+}
+
+const FieldDiff: React.FC<{ diff: EpicFieldDiff }> = ({ diff }) => (
+  <div className="text-sm">
+    <span className="font-medium text-slate-700">{FIELD_LABELS[diff.field]}: </span>
+    {'before' in diff ? (
+      <>
+        <span className="line-through text-slate-400">{diff.before || '(empty)'}</span>
+        {' → '}
+        <span className="text-slate-900">{diff.after || '(empty)'}</span>
+      </>
+    ) : (
+      <ul className="mt-1 space-y-0.5">
+        {diff.added.map(item => <li key={`+${item}`} className="text-emerald-700">+ {item}</li>)}
+        {diff.removed.map(item => <li key={`-${item}`} className="text-garnet-700 line-through">− {item}</li>)}
+      </ul>
+    )}
+  </div>
+)
+
+/**
+ * Review of the changes a roadmap refresh proposes. Each change can be left
+ * out; the accepted ones are saved as a new roadmap version.
+ */
+const RoadmapRefreshModal: React.FC<RoadmapRefreshModalProps> = ({ roadmapData, changes, isSaving, onAccept, onDiscard }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(changes.map(change => change.id)))
+  const phases = roadmapData.roadmapAnalysis?.phases ?? []
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full mx-4 max-h-[85vh] flex flex-col" role="dialog" aria-label="Review roadmap changes">
+        <div className="p-6 border-b border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900 mb-1">Review Roadmap Changes</h3>
+          <p className="text-sm text-slate-600">
+            {changes.length} {changes.length === 1 ? 'change' : 'changes'} proposed for ideas changed since this version.
+            Locked epics and your timeline edits are kept. Accepted changes are saved as a new roadmap version.
+          </p>
+        </div>
+
+        <ul className="p-6 space-y-3 overflow-y-auto">
+          {changes.map(change => {
+            const phase = phases[change.phaseIndex]
+            const existing = change.epicIndex !== undefined ? phase?.epics[change.epicIndex] : undefined
+            const style = ACTION_STYLES[change.action]
+            return (
+              <li key={change.id} className="border border-slate-200 rounded-lg p-4">
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={selected.has(change.id)}
+                    onChange={() => toggle(change.id)}
+                    aria-label={`${style.label} ${change.epic?.title ?? existing?.title ?? 'epic'}`}
+                  />
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${style.className}`}>
+                        {style.icon}
+                        {style.label}
+                      </span>
+                      <span className="font-medium text-slate-900">{change.epic?.title ?? existing?.title}</span>
+                      {phase && <span className="text-xs text-slate-500">in {phase.phase}</span>}
+                    </div>
+                    {change.action === 'add' && change.epic?.description && (
+                      <p className="text-sm text-slate-600">{change.epic.description}</p>
+                    )}
+                    {change.action === 'update' && existing && change.epic && (
+                      diffEpic(existing, change.epic).map(diff => <FieldDiff key={diff.field} diff={diff} />)
+                    )}
+                    {change.reason && <p className="text-xs italic text-slate-500">{change.reason}</p>}
+                  </div>
+                </label>
+              </li>
+            )
+          })}
+        </ul>
+
+        <div className="p-6 border-t border-slate-200 flex gap-3">
+          <Button
+            onClick={() => onAccept(changes.filter(change => selected.has(change.id)))}
+            disabled={isSaving || selected.size === 0}
+            variant="sapphire"
+            state={isSaving ? 'loading' : 'idle'}
+            className="flex-1"
+          >
+            {`Save as New Version (${selected.size})`}
+          </Button>
+          <Button onClick={onDiscard} disabled={isSaving} variant="secondary" className="flex-1">
+            Discard
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default RoadmapRefreshModal
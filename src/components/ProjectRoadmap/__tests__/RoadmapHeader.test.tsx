@@ -113,6 +113,22 @@ describe('RoadmapHeader', () => {
       expect(defaultProps.onGenerateRoadmap).toHaveBeenCalledTimes(1)
     })
 
+    it('should call onRefreshRoadmap when refresh button is clicked', async () => {
+      const user = userEvent.setup()
+      const onRefreshRoadmap = vi.fn()
+      render(<RoadmapHeader {...defaultProps} onRefreshRoadmap={onRefreshRoadmap} />)
+
+      await user.click(screen.getByRole('button', { name: /refresh/i }))
+
+      expect(onRefreshRoadmap).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not show refresh button without a roadmap', () => {
+      render(<RoadmapHeader {...defaultProps} roadmapData={null} onRefreshRoadmap={vi.fn()} />)
+
+      expect(screen.queryByRole('button', { name: /refresh/i })).not.toBeInTheDocument()
+    })
+
     it('should disable generate button when loading', () => {
       render(<RoadmapHeader {...defaultProps} isLoading={true} />)
 
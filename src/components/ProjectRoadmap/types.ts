@@ -1,3 +1,5 @@
+import type { RoadmapEpicChange } from '../../types'
+
 export interface Epic {
   title: string
   description: string
@@ -11,6 +13,8 @@ export interface Epic {
   duration?: number
   status?: 'planned' | 'in-progress' | 'completed'
   team?: string
+  // Set by a user; roadmap refresh never changes a locked epic
+  locked?: boolean
 }
 
 export interface Phase {
@@ -57,4 +61,6 @@ export interface RoadmapState {
   selectedRoadmapId: string | null
   showConfirmModal: boolean
   isExportModalOpen: boolean
+  // Changes proposed by a roadmap refresh, waiting for review
+  proposedChanges: RoadmapEpicChange[] | null
 }
\ No newline at end of file
@@ -24,6 +24,7 @@ interface RoadmapFeature {
   risks?: string[]
   successCriteria?: string[]
   complexity?: string
+  locked?: boolean
 }
 
 interface TeamLane {
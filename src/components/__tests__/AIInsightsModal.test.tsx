@@ -686,7 +686,11 @@ describe('AIInsightsModal - Comprehensive Test Suite', () => {
       await waitFor(() => {
         expect(exportGraphicalInsightsToPDF).toHaveBeenCalledWith(
           sampleInsights,
-          sampleProject.name
+          sampleProject.name,
+          expect.objectContaining({
+            config: expect.objectContaining({ layout: '2x2' }),
+            counts: expect.any(Object)
+          })
         )
       })
     })
@@ -783,6 +787,11 @@ describe('AIInsightsModal - Comprehensive Test Suite', () => {
 
       // Should not crash
       expect(screen.getByTestId('ai-insights-modal')).toBeInTheDocument()
+
+      // Let the deferred file load settle so it does not leak into the next test
+      await waitFor(() => {
+        expect(FileService.getProjectFiles).toHaveBeenCalledWith('project123')
+      })
     })
 
     it('should not load files when no project ID', async () => {
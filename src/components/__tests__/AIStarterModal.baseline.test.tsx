@@ -467,7 +467,8 @@ describe('AIStarterModal', () => {
           'Detailed description with clear goals and target audience',
           expect.any(String), // project type (auto-detected)
           8, // default idea count
-          50 // default tolerance
+          50, // default tolerance
+          expect.objectContaining({ onPartial: expect.any(Function) })
         )
       })
     })
@@ -538,7 +539,8 @@ describe('AIStarterModal', () => {
           'Test description',
           'marketing', // manual selection
           8,
-          50
+          50,
+          expect.objectContaining({ onPartial: expect.any(Function) })
         )
       })
     })
@@ -567,7 +569,8 @@ describe('AIStarterModal', () => {
           'Test description',
           expect.any(String),
           10, // custom idea count
-          75 // custom tolerance
+          75, // custom tolerance
+          expect.objectContaining({ onPartial: expect.any(Function) })
         )
       })
     })
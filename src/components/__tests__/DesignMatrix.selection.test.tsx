@@ -0,0 +1,139 @@
+/**
+ * DesignMatrix multi-select — shift-click toggling and lasso selection
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import React from 'react'
+
+// --------------------------------------------------------------------------
+// Module mocks
+// --------------------------------------------------------------------------
+
+vi.mock('../../utils/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+vi.mock('@dnd-kit/core', () => ({
+  useDroppable: () => ({ setNodeRef: vi.fn() }),
+}))
+
+vi.mock('../matrix/OptimizedIdeaCard', () => ({
+  OptimizedIdeaCard: ({ idea }: { idea: { id: string; content: string } }) => (
+    <div data-testid={`idea-card-${idea.id}`}>{idea.content}</div>
+  ),
+}))
+
+vi.mock('../ui', () => ({
+  SkeletonMatrix: () => <div data-testid="skeleton-matrix" />,
+}))
+
+vi.mock('../../hooks/useComponentState', () => ({
+  useComponentState: () => ({
+    state: 'idle',
+    isLoading: false,
+    hasError: false,
+    variant: 'matrix-safe',
+    size: 'md',
+    className: '',
+    config: { errorMessage: undefined },
+    setState: vi.fn(),
+    setError: vi.fn(),
+    setSuccess: vi.fn(),
+    reset: vi.fn(),
+    executeAction: vi.fn(),
+  }),
+}))
+
+vi.mock('../../contexts/ComponentStateProvider', () => ({
+  useComponentStateContext: () => null,
+}))
+
+vi.mock('../../hooks/useMatrixPerformance', () => ({
+  useMatrixPerformance: () => ({ matrixRef: { current: null } }),
+}))
+
+// --------------------------------------------------------------------------
+// Import after mocks
+// --------------------------------------------------------------------------
+
+import DesignMatrix from '../DesignMatrix'
+import type { IdeaCard, User } from '../../types'
+
+// --------------------------------------------------------------------------
+// Fixtures
+// --------------------------------------------------------------------------
+
+// x=100 renders at ~23% of the matrix, x=400 at 73%
+const mockIdeas: IdeaCard[] = [
+  { id: 'i1', content: 'Alpha', project_id: 'p1', x: 100, y: 100 } as IdeaCard,
+  { id: 'i2', content: 'Beta', project_id: 'p1', x: 400, y: 400 } as IdeaCard,
+]
+
+const mockUser = { id: 'u1', email: 'test@example.com' } as unknown as User
+
+describe('DesignMatrix multi-select', () => {
+  const onSelectionChange = vi.fn()
+
+  const renderMatrix = (selectedIds: Set<string> = new Set()) =>
+    render(
+      <DesignMatrix
+        ideas={mockIdeas}
+        currentUser={mockUser}
+        onEditIdea={vi.fn()}
+        onDeleteIdea={vi.fn()}
+        onToggleCollapse={vi.fn()}
+        selectedIds={selectedIds}
+        onSelectionChange={onSelectionChange}
+      />
+    )
+
+  beforeEach(() => {
+    onSelectionChange.mockClear()
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue({
+      left: 0, top: 0, right: 600, bottom: 600, width: 600, height: 600, x: 0, y: 0, toJSON: () => ({})
+    } as DOMRect)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('toggles a card with shift-click', () => {
+    renderMatrix(new Set(['i2']))
+
+    const wrapper = document.querySelector('[data-idea-id="i1"]') as HTMLElement
+    fireEvent.click(wrapper, { shiftKey: true })
+
+    expect(onSelectionChange).toHaveBeenCalledWith(new Set(['i2', 'i1']))
+  })
+
+  it('marks selected cards', () => {
+    renderMatrix(new Set(['i1']))
+    expect(document.querySelector('[data-idea-id="i1"]')).toHaveAttribute('data-selected', 'true')
+    expect(document.querySelector('[data-idea-id="i2"]')).not.toHaveAttribute('data-selected')
+  })
+
+  it('selects the cards inside a lasso drawn on empty space', () => {
+    renderMatrix()
+    const matrix = screen.getByTestId('design-matrix')
+
+    fireEvent.pointerDown(matrix, { button: 0, clientX: 10, clientY: 10 })
+    fireEvent.pointerMove(matrix, { clientX: 200, clientY: 200 })
+    expect(screen.getByTestId('matrix-selection-lasso')).toBeInTheDocument()
+    fireEvent.pointerUp(matrix, { clientX: 200, clientY: 200 })
+
+    expect(onSelectionChange).toHaveBeenCalledWith(new Set(['i1']))
+    expect(screen.queryByTestId('matrix-selection-lasso')).not.toBeInTheDocument()
+  })
+
+  it('clears the selection on a plain click on empty space', () => {
+    renderMatrix(new Set(['i1']))
+    const matrix = screen.getByTestId('design-matrix')
+
+    fireEvent.pointerDown(matrix, { button: 0, clientX: 300, clientY: 300 })
+    fireEvent.pointerUp(matrix, { clientX: 300, clientY: 300 })
+
+    expect(onSelectionChange).toHaveBeenCalledWith(new Set())
+  })
+})
@@ -36,7 +36,8 @@ vi.mock('lucide-react', () => ({
   Save: () => <span data-testid="icon-save">Save</span>,
   Trash2: () => <span data-testid="icon-trash2">Trash2</span>,
   Plus: () => <span data-testid="icon-plus">Plus</span>,
-  ChevronDown: () => <span data-testid="icon-chevron-down">ChevronDown</span>
+  ChevronDown: () => <span data-testid="icon-chevron-down">ChevronDown</span>,
+  Lock: () => <span data-testid="icon-lock" />
 }))
 
 interface FeatureDetail {
@@ -659,6 +660,16 @@ describe('FeatureDetailModal - Comprehensive Test Suite', () => {
       expect(mockOnClose).toHaveBeenCalled()
     })
 
+    it('should save the lock flag when Lock is checked', async () => {
+      const user = userEvent.setup()
+      render(<FeatureDetailModal {...defaultProps} mode="edit" />)
+
+      await user.click(screen.getByRole('checkbox', { name: /lock/i }))
+      await user.click(screen.getByRole('button', { name: /save/i }))
+
+      expect(mockOnSave).toHaveBeenCalledWith(expect.objectContaining({ locked: true }))
+    })
+
     it('should not save if title is empty', async () => {
       const user = userEvent.setup()
       render(<FeatureDetailModal {...defaultProps} mode="edit" />)
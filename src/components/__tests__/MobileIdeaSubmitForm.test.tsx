@@ -201,6 +201,29 @@ describe('MobileIdeaSubmitForm', () => {
     })
   })
 
+  it('notes when the submitted idea looks like an existing one', async () => {
+    const user = userEvent.setup()
+    const mockSubmitIdea = vi.mocked(BrainstormSessionService.submitIdea)
+    mockSubmitIdea.mockResolvedValueOnce({
+      success: true,
+      idea: {
+        id: 'idea-2',
+        content: 'Dark mode for the app',
+        created_at: new Date().toISOString()
+      },
+      possibleDuplicates: [{ id: 'idea-1', content: 'Add a dark mode', similarity: 0.82 }]
+    })
+
+    render(<MobileIdeaSubmitForm session={mockSession} participant={mockParticipant} />)
+
+    await user.type(screen.getByPlaceholderText(/Enter your idea/i), 'Dark mode for the app')
+    await user.click(screen.getByRole('button', { name: /Submit Idea/i }))
+
+    await waitFor(() => {
+      expect(screen.getByTestId('possible-duplicate-notice')).toHaveTextContent('Add a dark mode')
+    })
+  })
+
   it('shows success toast after successful submission', async () => {
     vi.useFakeTimers()
     const user = userEvent.setup({ delay: null })
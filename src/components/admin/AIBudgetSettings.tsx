@@ -0,0 +1,365 @@
+/**
+ * AI Budget Settings Component
+ *
+ * Admin management of monthly AI spend budgets (/api/admin/ai-budgets):
+ * - Open alerts for budgets past their soft limit or 100%
+ * - This month's spend against each project and user budget
+ * - Add, edit and remove budgets
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { AlertTriangle, Check, Plus, Trash2, Save } from 'lucide-react'
+import { getAuthHeadersSync } from '../../lib/authHeaders'
+import { logger } from '../../utils/logger'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type BudgetScope = 'project' | 'user'
+
+interface BudgetRow {
+  budgetId: string
+  scope: BudgetScope
+  scopeId: string
+  name: string | null
+  costLimit: number | null
+  tokenLimit: number | null
+  spentCost: number
+  spentTokens: number
+  percentUsed: number
+  softLimitPercent: number
+  level: 'ok' | 'warning' | 'exceeded'
+}
+
+interface BudgetAlert {
+  id: string
+  budget_id: string
+  threshold: number
+  percent_used: number
+  spent_cost: number
+  created_at: string
+  scope: BudgetScope | null
+  name: string | null
+}
+
+interface BudgetForm {
+  scope: BudgetScope
+  scopeId: string
+  monthlyCostLimit: string
+  monthlyTokenLimit: string
+  softLimitPercent: string
+}
+
+const EMPTY_FORM: BudgetForm = {
+  scope: 'project',
+  scopeId: '',
+  monthlyCostLimit: '',
+  monthlyTokenLimit: '',
+  softLimitPercent: '80',
+}
+
+const LEVEL_BAR: Record<BudgetRow['level'], string> = {
+  ok: 'bg-emerald-500',
+  warning: 'bg-amber-500',
+  exceeded: 'bg-red-500',
+}
+
+function formatCurrency(value: number): string {
+  return `$${value.toFixed(2)}`
+}
+
+function formatLimit(budget: BudgetRow): string {
+  const parts: string[] = []
+  if (budget.costLimit !== null) parts.push(`${formatCurrency(budget.spentCost)} / ${formatCurrency(budget.costLimit)}`)
+  if (budget.tokenLimit !== null) parts.push(`${budget.spentTokens.toLocaleString()} / ${budget.tokenLimit.toLocaleString()} tokens`)
+  return parts.join(' • ')
+}
+
+function toForm(budget: BudgetRow): BudgetForm {
+  return {
+    scope: budget.scope,
+    scopeId: budget.scopeId,
+    monthlyCostLimit: budget.costLimit === null ? '' : String(budget.costLimit),
+    monthlyTokenLimit: budget.tokenLimit === null ? '' : String(budget.tokenLimit),
+    softLimitPercent: String(budget.softLimitPercent),
+  }
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function AIBudgetSettings() {
+  const [budgets, setBudgets] = useState<BudgetRow[]>([])
+  const [alerts, setAlerts] = useState<BudgetAlert[]>([])
+  const [form, setForm] = useState<BudgetForm | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadBudgets = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/admin/ai-budgets', {
+        headers: getAuthHeadersSync(),
+        credentials: 'include',
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to load AI budgets (${response.status})`)
+      }
+      const result = await response.json()
+      setBudgets(result.budgets ?? [])
+      setAlerts(result.alerts ?? [])
+    } catch (err) {
+      logger.error('Failed to load AI budgets:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load AI budgets')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadBudgets()
+  }, [loadBudgets])
+
+  async function request(url: string, init: RequestInit) {
+    const response = await fetch(url, {
+      ...init,
+      headers: getAuthHeadersSync(),
+      credentials: 'include',
+    })
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      throw new Error(body.error ?? `Request failed (${response.status})`)
+    }
+  }
+
+  async function handleSave() {
+    if (!form) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      await request('/api/admin/ai-budgets', {
+        method: 'PUT',
+        body: JSON.stringify({
+          scope: form.scope,
+          scopeId: form.scopeId.trim(),
+          monthlyCostLimit: form.monthlyCostLimit.trim() || null,
+          monthlyTokenLimit: form.monthlyTokenLimit.trim() || null,
+          softLimitPercent: parseInt(form.softLimitPercent, 10),
+        }),
+      })
+      setForm(null)
+      await loadBudgets()
+    } catch (err) {
+      logger.error('Failed to save AI budget:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save AI budget')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function handleDelete(budget: BudgetRow) {
+    if (!window.confirm(`Remove the AI budget for ${budget.name ?? budget.scopeId}?`)) return
+    try {
+      await request(`/api/admin/ai-budgets?id=${budget.budgetId}`, { method: 'DELETE' })
+      await loadBudgets()
+    } catch (err) {
+      logger.error('Failed to delete AI budget:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete AI budget')
+    }
+  }
+
+  async function handleAcknowledge(alert: BudgetAlert) {
+    try {
+      await request(`/api/admin/ai-budgets?action=acknowledge&id=${alert.id}`, { method: 'POST' })
+      setAlerts(prev => prev.filter(a => a.id !== alert.id))
+    } catch (err) {
+      logger.error('Failed to acknowledge AI budget alert:', err)
+      setError(err instanceof Error ? err.message : 'Failed to acknowledge alert')
+    }
+  }
+
+  function updateForm(field: keyof BudgetForm, value: string) {
+    setForm(prev => (prev ? { ...prev, [field]: value } : prev))
+  }
+
+  // ============================================================================
+  // RENDER
+  // ============================================================================
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">AI Budgets</h2>
+          <p className="text-sm text-slate-500">
+            Monthly caps per project or user. AI requests warn at the soft limit and stop at 100%.
+          </p>
+        </div>
+        {!form && (
+          <button
+            onClick={() => setForm(EMPTY_FORM)}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            Add budget
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700" role="alert">
+          {error}
+        </div>
+      )}
+
+      {alerts.length > 0 && (
+        <div className="mb-4 space-y-2">
+          {alerts.map(alert => (
+            <div
+              key={alert.id}
+              className={`flex items-center gap-3 p-3 rounded-lg border ${
+                alert.threshold >= 100 ? 'bg-red-50 border-red-200' : 'bg-orange-50 border-orange-200'
+              }`}
+            >
+              <AlertTriangle className={`w-4 h-4 ${alert.threshold >= 100 ? 'text-red-600' : 'text-orange-600'}`} />
+              <span className="flex-1 text-sm text-slate-700">
+                {alert.scope === 'user' ? 'User' : 'Project'} <strong>{alert.name ?? 'unknown'}</strong>{' '}
+                {alert.threshold >= 100 ? 'reached' : 'passed'} {alert.threshold}% of its monthly AI budget
+                ({Math.round(alert.percent_used)}%, {formatCurrency(Number(alert.spent_cost))}) on{' '}
+                {new Date(alert.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              </span>
+              <button
+                onClick={() => handleAcknowledge(alert)}
+                className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900"
+              >
+                <Check className="w-4 h-4" />
+                Acknowledge
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {form && (
+        <div className="mb-4 p-4 rounded-lg border border-slate-200 bg-slate-50">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <label className="text-sm text-slate-600">
+              Applies to
+              <select
+                value={form.scope}
+                onChange={e => updateForm('scope', e.target.value)}
+                className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm"
+              >
+                <option value="project">Project</option>
+                <option value="user">User</option>
+              </select>
+            </label>
+            <label className="text-sm text-slate-600">
+              {form.scope === 'project' ? 'Project ID' : 'User ID'}
+              <input
+                value={form.scopeId}
+                onChange={e => updateForm('scopeId', e.target.value)}
+                className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm font-mono"
+              />
+            </label>
+            <label className="text-sm text-slate-600">
+              Monthly cost ($)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.monthlyCostLimit}
+                onChange={e => updateForm('monthlyCostLimit', e.target.value)}
+                className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm"
+              />
+            </label>
+            <label className="text-sm text-slate-600">
+              Monthly tokens
+              <input
+                type="number"
+                min="0"
+                value={form.monthlyTokenLimit}
+                onChange={e => updateForm('monthlyTokenLimit', e.target.value)}
+                className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm"
+              />
+            </label>
+            <label className="text-sm text-slate-600">
+              Warn at (%)
+              <input
+                type="number"
+                min="1"
+                max="99"
+                value={form.softLimitPercent}
+                onChange={e => updateForm('softLimitPercent', e.target.value)}
+                className="mt-1 w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm"
+              />
+            </label>
+          </div>
+          <div className="flex justify-end gap-2 mt-3">
+            <button
+              onClick={() => setForm(null)}
+              className="px-3 py-2 text-sm text-slate-600 hover:text-slate-900"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !form.scopeId.trim()}
+              className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {isSaving ? 'Saving...' : 'Save budget'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading budgets...</p>
+      ) : budgets.length === 0 ? (
+        <p className="text-sm text-slate-500">No AI budgets set. AI spend is only limited by subscription quotas.</p>
+      ) : (
+        <div className="space-y-3">
+          {budgets.map(budget => (
+            <div key={budget.budgetId} className="flex items-center gap-4">
+              <div className="flex-1">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm text-slate-700">
+                    <span className="text-xs uppercase text-slate-400 mr-2">{budget.scope}</span>
+                    {budget.name ?? <code className="font-mono">{budget.scopeId}</code>}
+                  </span>
+                  <span className="text-sm text-slate-500">
+                    {formatLimit(budget)} • {Math.round(budget.percentUsed)}%
+                  </span>
+                </div>
+                <div className="relative h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className={`absolute inset-y-0 left-0 rounded-full ${LEVEL_BAR[budget.level]}`}
+                    style={{ width: `${Math.min(budget.percentUsed, 100)}%` }}
+                  />
+                </div>
+              </div>
+              <button
+                onClick={() => setForm(toForm(budget))}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => handleDelete(budget)}
+                className="text-slate-400 hover:text-red-600"
+                aria-label={`Remove budget for ${budget.name ?? budget.scopeId}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
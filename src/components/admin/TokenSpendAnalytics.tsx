@@ -14,6 +14,7 @@ import { Zap, DollarSign, TrendingUp, TrendingDown, AlertTriangle, RefreshCw, Ca
 import type { User } from '../../types'
 import { getAuthHeadersSync } from '../../lib/authHeaders'
 import { logger } from '../../utils/logger'
+import AIBudgetSettings from './AIBudgetSettings'
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -401,6 +402,9 @@ export default function TokenSpendAnalytics({ currentUser: _currentUser }: Token
         </div>
       )}
 
+      {/* Project and user budgets */}
+      <AIBudgetSettings />
+
       {/* Endpoint Breakdown */}
       <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
         <h2 className="text-lg font-semibold text-slate-900 mb-4">Cost by Endpoint</h2>
@@ -5,7 +5,7 @@
  * Uses context providers to eliminate prop drilling and manage state cleanly.
  */
 
-import React, { useMemo, useEffect } from 'react'
+import React, { useMemo, useEffect, useState } from 'react'
 import { Analytics } from '@vercel/analytics/react'
 import AdminPortal from '../admin/AdminPortal'
 import AppLayout from '../layout/AppLayout'
@@ -13,13 +13,14 @@ import PageRouter from '../layout/PageRouter'
 import PaymentFailedBanner from '../billing/PaymentFailedBanner'
 // import PerformanceOverlay from '../dev/PerformanceOverlay'
 // import TestDataInjector from '../test/TestDataInjector'
-import { User } from '../../types'
+import { IdeaFilter, User } from '../../types'
 import { useNavigation } from '../../contexts/NavigationContext'
 import { useProject } from '../../contexts/ProjectContext'
 import { useModal } from '../../contexts/ModalContext'
 import { useUser } from '../../contexts/UserContext'
 import { useIdeas } from '../../hooks/useIdeas'
 import { useBrowserHistory } from '../../hooks/useBrowserHistory'
+import { useUndoRedoShortcuts } from '../../hooks/useUndoRedoShortcuts'
 import { logger } from '../../utils/logger'
 
 interface MainAppProps {
@@ -69,7 +70,12 @@ export default function MainApp({
     updateIdea,
     deleteIdea,
     toggleCollapse,
-    handleDragEnd
+    handleDragEnd,
+    undo,
+    redo,
+    bulkUpdateIdeas,
+    bulkDeleteIdeas,
+    mergeIdeas
   } = useIdeas({
     currentUser: effectiveUser,
     currentProject,
@@ -78,12 +84,24 @@ export default function MainApp({
     setEditingIdea
   })
 
+  // Matrix undo/redo, only while the matrix is on screen and no modal is open
+  useUndoRedoShortcuts({
+    enabled: currentPage === 'matrix' && !editingIdea && !showAddModal && !showAIModal,
+    undo,
+    redo
+  })
+
+  // Matrix filter; lives here so useBrowserHistory can mirror it into the URL
+  const [ideaFilter, setIdeaFilter] = useState<IdeaFilter>({})
+
   // Browser history integration
   const { isRestoringProject } = useBrowserHistory({
     currentPage,
     onPageChange: handlePageChange,
     currentProject,
-    onProjectRestore: handleProjectRestore
+    onProjectRestore: handleProjectRestore,
+    ideaFilter,
+    onIdeaFilterChange: setIdeaFilter
   })
 
   // Intelligent initial route determination
@@ -186,6 +204,9 @@ export default function MainApp({
         deleteIdea={deleteIdea}
         toggleCollapse={toggleCollapse}
         handleDragEnd={handleDragEnd}
+        bulkUpdateIdeas={bulkUpdateIdeas}
+        bulkDeleteIdeas={bulkDeleteIdeas}
+        mergeIdeas={mergeIdeas}
         loadIdeas={loadIdeas}
       >
         <PageRouter
@@ -203,6 +224,8 @@ export default function MainApp({
           setIdeas={setIdeas}
           isRestoringProject={isRestoringProject}
           loadIdeas={loadIdeas}
+          ideaFilter={ideaFilter}
+          onIdeaFilterChange={setIdeaFilter}
         />
       </AppLayout>
       <Analytics />
@@ -0,0 +1,219 @@
+/**
+ * ProjectBackupPanel — full project backup and restore on the Data Management page
+ *
+ * Downloads the project as a versioned JSON archive and restores archives
+ * either as a new project or merged into the current one, listing anything
+ * that could not be restored as-is.
+ */
+
+import React, { useRef, useState } from 'react'
+import { AlertCircle, AlertTriangle, Archive, CheckCircle, Download, Upload } from 'lucide-react'
+import type { Project } from '../../types'
+import { ProjectBackupService, type ProjectRestoreResult } from '../../lib/services/ProjectBackupService'
+import { parseProjectArchive, projectArchiveFileName, type ProjectArchive } from '../../lib/backup/projectArchive'
+import { canExport } from '../../lib/config/tierLimits'
+import { useSubscription } from '../../hooks/useSubscription'
+import { logger } from '../../utils/logger'
+
+interface ProjectBackupPanelProps {
+  currentProject: Project
+  userId: string
+  /** Called with the project the archive was restored into */
+  onProjectRestored: (project: Project) => void
+}
+
+function downloadArchive(archive: ProjectArchive) {
+  const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json;charset=utf-8;' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = projectArchiveFileName(archive)
+  link.style.visibility = 'hidden'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+const ProjectBackupPanel: React.FC<ProjectBackupPanelProps> = ({ currentProject, userId, onProjectRestored }) => {
+  const { subscription } = useSubscription()
+  const canExportArchive = canExport(subscription?.tier ?? 'free', 'json')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [busy, setBusy] = useState<'export' | 'restore' | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const [pendingArchive, setPendingArchive] = useState<ProjectArchive | null>(null)
+  const [result, setResult] = useState<ProjectRestoreResult | null>(null)
+
+  const handleExport = async () => {
+    setBusy('export')
+    setErrors([])
+    const response = await ProjectBackupService.exportProject(currentProject.id, { userId })
+    setBusy(null)
+    if (response.success) {
+      downloadArchive(response.data)
+    } else {
+      setErrors([`Backup failed: ${response.error.message}`])
+    }
+  }
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setResult(null)
+    try {
+      const parsed = parseProjectArchive(await file.text())
+      if (parsed.ok) {
+        setErrors([])
+        setPendingArchive(parsed.archive)
+      } else {
+        setPendingArchive(null)
+        setErrors(parsed.errors)
+      }
+    } catch (error) {
+      logger.error('Failed to read backup file:', error)
+      setErrors(['The file could not be read.'])
+    }
+  }
+
+  const handleRestore = async (merge: boolean) => {
+    if (!pendingArchive) return
+    setBusy('restore')
+    const response = await ProjectBackupService.restoreProject(pendingArchive, {
+      userId,
+      targetProject: merge ? currentProject : null
+    })
+    setBusy(null)
+    if (response.success) {
+      setPendingArchive(null)
+      setResult(response.data)
+      onProjectRestored(response.data.project)
+    } else {
+      setErrors([`Restore failed: ${response.error.message}`])
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-200/60 shadow-sm" data-testid="project-backup-panel">
+      <div className="flex items-start gap-4 mb-6">
+        <div className="p-3 bg-slate-100 rounded-xl">
+          <Archive className="w-6 h-6 text-slate-700" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900 mb-1">Project Backup</h3>
+          <p className="text-sm text-slate-600">
+            Back up the whole project — settings, ideas, roadmaps, insights, file list, brainstorm sessions and votes — as a JSON file,
+            or restore a backup to move a project between workspaces.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={handleExport}
+          disabled={!canExportArchive || busy !== null}
+          className="flex items-center space-x-2 bg-slate-800 text-white px-4 py-2 rounded-lg hover:bg-slate-900 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          data-testid="project-backup-export"
+        >
+          <Download className="w-4 h-4" />
+          <span>{busy === 'export' ? 'Preparing backup...' : 'Download backup (JSON)'}</span>
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy !== null}
+          className="flex items-center space-x-2 border border-slate-300 text-slate-700 px-4 py-2 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+          data-testid="project-backup-import"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Restore from backup</span>
+        </button>
+      </div>
+      {!canExportArchive && (
+        <p className="text-xs text-slate-500 mt-2">JSON backups are included in the Enterprise plan.</p>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-4 text-red-700 bg-red-50 px-4 py-3 rounded-lg" role="alert" data-testid="project-backup-errors">
+          <div className="flex items-center space-x-2 font-medium text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span>This backup can't be used</span>
+          </div>
+          <ul className="mt-2 list-disc list-inside text-xs space-y-0.5">
+            {errors.map((error) => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {pendingArchive && (
+        <div className="mt-4 border border-slate-200 rounded-lg px-4 py-3" data-testid="project-backup-preview">
+          <p className="text-sm font-medium text-slate-900">
+            "{pendingArchive.project.name}" — backed up {new Date(pendingArchive.exported_at).toLocaleString()}
+          </p>
+          <p className="text-xs text-slate-600 mt-1">
+            {pendingArchive.ideas.length} ideas, {pendingArchive.roadmaps.length} roadmaps, {pendingArchive.insights.length} insights,{' '}
+            {pendingArchive.files.length} files, {pendingArchive.brainstorm_sessions.length} sessions, {pendingArchive.votes.length} votes
+          </p>
+          <div className="flex flex-wrap gap-3 mt-3">
+            <button
+              onClick={() => handleRestore(false)}
+              disabled={busy !== null}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              data-testid="project-backup-restore-new"
+            >
+              {busy === 'restore' ? 'Restoring...' : 'Restore as new project'}
+            </button>
+            <button
+              onClick={() => handleRestore(true)}
+              disabled={busy !== null}
+              className="px-3 py-1.5 text-sm border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+              data-testid="project-backup-restore-merge"
+            >
+              Merge into "{currentProject.name}"
+            </button>
+            <button
+              onClick={() => setPendingArchive(null)}
+              disabled={busy !== null}
+              className="px-3 py-1.5 text-sm text-slate-500 hover:text-slate-800"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-4 bg-emerald-50 px-4 py-3 rounded-lg" role="status" data-testid="project-backup-result">
+          <div className="flex items-center space-x-2 text-emerald-700 text-sm font-medium">
+            <CheckCircle className="w-4 h-4" />
+            <span>
+              Restored {result.restored.ideas} ideas, {result.restored.roadmaps} roadmaps, {result.restored.insights} insights,{' '}
+              {result.restored.sessions} sessions and {result.restored.votes} votes into "{result.project.name}"
+            </span>
+          </div>
+          {result.conflicts.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-amber-800" data-testid="project-backup-conflicts">
+              {result.conflicts.map((conflict, index) => (
+                <li key={`${conflict.kind}-${conflict.sourceId ?? index}`} className="flex items-start gap-1.5">
+                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                  <span>{conflict.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileSelect}
+        style={{ display: 'none' }}
+        data-testid="project-backup-file"
+      />
+    </div>
+  )
+}
+
+export default ProjectBackupPanel
@@ -44,8 +44,8 @@ export default function DesktopParticipantPanel({
     return null
   }
 
-  // Filter active participants and sort
-  const activeParticipants = participants.filter((p) => !p.disconnected_at)
+  // Filter active participants and sort (pending joiners are in the moderation console)
+  const activeParticipants = participants.filter((p) => !p.disconnected_at && p.is_approved !== false)
   const sortedParticipants = [...activeParticipants].sort((a, b) => {
     // Sort by contribution count (descending), then by last active (descending)
     if (b.contribution_count !== a.contribution_count) {
@@ -2,12 +2,14 @@
  * DotBudgetIndicator — Phase 05.4a Wave 3, Unit 4
  *
  * Always-visible vote budget chip for the session header.
- * Shows "{votesUsed} / {total} votes used" with 5 decorative mini dots.
+ * Shows "{votesUsed} / {total} votes used" with one decorative mini dot per
+ * vote; ranked and points sessions say "ranked" / "points used" instead, and
+ * thumbs sessions (no budget) show how many ideas were rated.
  *
  * Props:
  *   votesUsed — number of votes the current user has cast (0..total).
  *               When omitted, reads from DotVotingContext (session header usage).
- *   total     — max votes allowed per user (default: 5)
+ *   total     — max votes allowed per user (default: the session's budget, else 5)
  *
  * Accessibility: chip aria-label + aria-live="polite" on text for SR updates.
  * Mini dots are aria-hidden (decorative).
@@ -15,6 +17,7 @@
 
 import React, { useContext } from 'react'
 import { DotVotingContext } from '../../contexts/DotVotingContext'
+import { DEFAULT_VOTING_CONFIG } from '../../utils/votingSchemes'
 
 export interface DotBudgetIndicatorProps {
   /** When provided, renders as a controlled display component (tests use this path). */
@@ -24,14 +27,33 @@ export interface DotBudgetIndicatorProps {
 
 export function DotBudgetIndicator({
   votesUsed: votesUsedProp,
-  total = 5,
+  total: totalProp,
 }: DotBudgetIndicatorProps): React.ReactElement {
   // Read from context when prop is not provided (session header wire-up path).
   // useContext is safe to call unconditionally; returns null outside a provider.
   const ctx = useContext(DotVotingContext)
   const votesUsed = votesUsedProp ?? ctx?.votesUsed ?? 0
+  const config = ctx?.config ?? DEFAULT_VOTING_CONFIG
+  const total = totalProp ?? config.budget
 
+  if (config.scheme === 'thumbs') {
+    return (
+      <div
+        className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-graphite-100"
+        aria-label={`Ideas rated: ${votesUsed}`}
+      >
+        <span aria-live="polite" className="text-sm font-semibold text-graphite-700">
+          {votesUsed} rated
+        </span>
+      </div>
+    )
+  }
+
+  const usedLabel = config.scheme === 'ranked' ? 'ranked' : config.scheme === 'points' ? 'points used' : 'votes used'
   const isFull = votesUsed >= total
+  // Points budgets are too large for one dot each; fill ten dots proportionally
+  const dotCount = config.scheme === 'points' ? 10 : total
+  const filledDots = config.scheme === 'points' ? Math.round((votesUsed / total) * dotCount) : votesUsed
 
   return (
     <div
@@ -39,17 +61,17 @@ export function DotBudgetIndicator({
         'inline-flex items-center gap-2 px-3 py-1.5 rounded-full',
         isFull ? 'bg-graphite-200' : 'bg-graphite-100',
       ].join(' ')}
-      aria-label={`Vote budget: ${votesUsed} of ${total} votes used`}
+      aria-label={`Vote budget: ${votesUsed} of ${total} ${usedLabel}`}
     >
       {/* Decorative mini dots — each span is aria-hidden (UX §2b: "decorative, aria-hidden") */}
       <div className="flex items-center gap-0.5">
-        {Array.from({ length: total }, (_, i) => (
+        {Array.from({ length: dotCount }, (_, i) => (
           <span
             key={i}
             aria-hidden="true"
             className={[
               'w-2 h-2 rounded-full',
-              i < votesUsed ? 'bg-graphite-700' : 'bg-graphite-300',
+              i < filledDots ? 'bg-graphite-700' : 'bg-graphite-300',
             ].join(' ')}
           />
         ))}
@@ -63,7 +85,7 @@ export function DotBudgetIndicator({
           isFull ? 'text-graphite-800' : 'text-graphite-700',
         ].join(' ')}
       >
-        {votesUsed} / {total} votes used
+        {votesUsed} / {total} {usedLabel}
       </span>
     </div>
   )
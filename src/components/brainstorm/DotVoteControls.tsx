@@ -1,7 +1,9 @@
 /**
  * DotVoteControls — Phase 05.4a Wave 3, Unit 4
  *
- * Per-idea voting UI. Renders 5 interactive dot buttons.
+ * Per-idea voting UI. Renders one interactive dot button per dot in the
+ * session's budget, or the control for its voting scheme: a rank picker,
+ * thumbs up/down or a points stepper (utils/votingSchemes).
  * Reads state from DotVotingContext (D-11: single context per session page).
  *
  * Props:
@@ -12,7 +14,8 @@
  *   - Container: role="group" aria-label="Votes for {ideaTitle}"
  *   - Each dot: <button> with aria-pressed + aria-label per UX §2a verbatim copy
  *   - Error: role="alert" (assertive announcement)
- *   - Tally: min-w-[1.5rem] text-center, always visible (D-17)
+ *   - Tally: min-w-[1.5rem] text-center, always visible (D-17); a dash while
+ *     the session hides tallies until the facilitator reveals them
  *   - Reconnecting: all dots aria-disabled, status text shown
  *
  * Animation:
@@ -21,7 +24,9 @@
  */
 
 import React, { useRef, useEffect, useState } from 'react'
+import { Minus, Plus, ThumbsDown, ThumbsUp } from 'lucide-react'
 import { useDotVotingContext } from '../../contexts/DotVotingContext'
+import { DEFAULT_VOTING_CONFIG, POINTS_STEP } from '../../utils/votingSchemes'
 
 export interface DotVoteControlsProps {
   ideaId: string
@@ -29,7 +34,6 @@ export interface DotVoteControlsProps {
 }
 
 const TALLY_BUMP_DURATION_MS = 200
-const MAX_VOTES = 5
 
 function prefersReducedMotion(): boolean {
   if (typeof window === 'undefined') return false
@@ -42,6 +46,9 @@ export function DotVoteControls({
 }: DotVoteControlsProps): React.ReactElement {
   const ctx = useDotVotingContext()
   const { votesUsed, votesRemaining, tallies, myVotes, castVote, removeVote, error } = ctx
+  // Providers predating voting schemes (and test fixtures) omit these fields
+  const config = ctx.config ?? DEFAULT_VOTING_CONFIG
+  const myWeight = ctx.myWeights?.get(ideaId) ?? (myVotes.has(ideaId) ? 1 : undefined)
 
   // connectionState may not exist on all versions of the context type yet;
   // access via unknown cast so we don't break if field is absent.
@@ -74,9 +81,9 @@ export function DotVoteControls({
   }, [tally])
 
   // Determine which dots are "filled" = own vote slots
-  // myVotes is a Set<ideaId> — if this idea is in myVotes, the user has 1 vote here.
-  // All 5 dots represent the user's OWN slot choices; filled = own vote on this idea.
-  const ownVoteCount = myVotes.has(ideaId) ? 1 : 0
+  // Every dot represents one of the user's OWN slot choices; filled = own dots
+  // on this idea (one at most unless the session allows several).
+  const ownVoteCount = myWeight ?? 0
 
   function handleDotClick(dotIndex: number) {
     if (isReconnecting) return
@@ -99,9 +106,9 @@ export function DotVoteControls({
     const isOwnVoteDot = dotIndex < ownVoteCount
     const n = votesUsed
     if (isOwnVoteDot) {
-      return `Remove vote from ${ideaTitle}. ${n} of ${MAX_VOTES} votes used.`
+      return `Remove vote from ${ideaTitle}. ${n} of ${config.budget} votes used.`
     }
-    return `Cast vote for ${ideaTitle}. ${n} of ${MAX_VOTES} votes used.`
+    return `Cast vote for ${ideaTitle}. ${n} of ${config.budget} votes used.`
   }
 
   function getDotClasses(dotIndex: number): string {
@@ -125,6 +132,129 @@ export function DotVoteControls({
     return votesRemaining === 0 && !isOwnVoteDot
   }
 
+  const buttonFocusClasses =
+    'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-sapphire-500 focus-visible:ring-offset-2'
+
+  function renderDots(): React.ReactNode {
+    return Array.from({ length: config.budget }, (_, i) => {
+      const disabled = isDotDisabled(i)
+      const isOwnVoteDot = i < ownVoteCount
+      return (
+        <button
+          key={i}
+          type="button"
+          aria-label={getDotAriaLabel(i)}
+          aria-pressed={isOwnVoteDot ? 'true' : 'false'}
+          aria-disabled={disabled ? 'true' : 'false'}
+          onClick={() => handleDotClick(i)}
+          className={[
+            // 44×44px touch target via padding (12px dot + 16px × 2 = 44px)
+            'p-4 -m-4 flex items-center justify-center',
+            buttonFocusClasses,
+            disabled ? 'cursor-not-allowed' : 'cursor-pointer',
+          ].join(' ')}
+        >
+          <span className={getDotClasses(i)} />
+        </button>
+      )
+    })
+  }
+
+  // Ranked choice: pick this idea's rank; ranks given to other ideas are unavailable
+  function renderRankPicker(): React.ReactNode {
+    const takenRanks = new Set(
+      [...(ctx.myWeights ?? new Map<string, number>()).entries()]
+        .filter(([otherId]) => otherId !== ideaId)
+        .map(([, rank]) => rank)
+    )
+    const isBudgetFull = votesRemaining === 0 && myWeight === undefined
+    return (
+      <select
+        aria-label={`Rank for ${ideaTitle}. ${votesUsed} of ${config.budget} ranked.`}
+        value={myWeight ?? ''}
+        disabled={isReconnecting || isBudgetFull}
+        onChange={(event) => {
+          const rank = Number(event.target.value)
+          void (rank ? castVote(ideaId, rank) : removeVote(ideaId))
+        }}
+        className="text-xs rounded border border-graphite-300 px-1.5 py-1 bg-white"
+      >
+        <option value="">Unranked</option>
+        {Array.from({ length: config.budget }, (_, i) => i + 1).map((rank) => (
+          <option key={rank} value={rank} disabled={takenRanks.has(rank)}>
+            #{rank}
+          </option>
+        ))}
+      </select>
+    )
+  }
+
+  function renderThumbs(): React.ReactNode {
+    return ([1, -1] as const).map((thumb) => {
+      const isPressed = myWeight === thumb
+      const Icon = thumb === 1 ? ThumbsUp : ThumbsDown
+      return (
+        <button
+          key={thumb}
+          type="button"
+          aria-label={`Thumbs ${thumb === 1 ? 'up' : 'down'} for ${ideaTitle}`}
+          aria-pressed={isPressed ? 'true' : 'false'}
+          aria-disabled={isReconnecting ? 'true' : 'false'}
+          onClick={() => {
+            if (isReconnecting) return
+            void (isPressed ? removeVote(ideaId) : castVote(ideaId, thumb))
+          }}
+          className={[
+            'p-1.5 rounded-md',
+            buttonFocusClasses,
+            isPressed ? 'bg-brand-primary text-white' : 'text-graphite-500 hover:bg-graphite-100',
+          ].join(' ')}
+        >
+          <Icon className="w-4 h-4" />
+        </button>
+      )
+    })
+  }
+
+  // Points: give or take back POINTS_STEP at a time
+  function renderPointsStepper(): React.ReactNode {
+    const allocated = myWeight ?? 0
+    const canTake = !isReconnecting && allocated > 0
+    const canGive = !isReconnecting && votesRemaining > 0
+    return (
+      <>
+        <button
+          type="button"
+          aria-label={`Take ${POINTS_STEP} points from ${ideaTitle}`}
+          aria-disabled={canTake ? 'false' : 'true'}
+          onClick={() => {
+            if (!canTake) return
+            const next = allocated - POINTS_STEP
+            void (next > 0 ? castVote(ideaId, next) : removeVote(ideaId))
+          }}
+          className={`p-1 rounded-md text-graphite-600 hover:bg-graphite-100 ${buttonFocusClasses}`}
+        >
+          <Minus className="w-3.5 h-3.5" />
+        </button>
+        <span className="text-xs font-medium text-graphite-700 min-w-[3rem] text-center">
+          {allocated} pts
+        </span>
+        <button
+          type="button"
+          aria-label={`Give ${POINTS_STEP} points to ${ideaTitle}. ${votesUsed} of ${config.budget} points used.`}
+          aria-disabled={canGive ? 'false' : 'true'}
+          onClick={() => {
+            if (!canGive) return
+            void castVote(ideaId)
+          }}
+          className={`p-1 rounded-md text-graphite-600 hover:bg-graphite-100 ${buttonFocusClasses}`}
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </>
+    )
+  }
+
   return (
     <div className="flex flex-col gap-1">
       {/* Reconnecting status (UX §2a disabled state) */}
@@ -138,29 +268,13 @@ export function DotVoteControls({
         aria-label={`Votes for ${ideaTitle}`}
         className="flex items-center gap-1 sm:gap-2"
       >
-        {Array.from({ length: MAX_VOTES }, (_, i) => {
-          const disabled = isDotDisabled(i)
-          const isOwnVoteDot = i < ownVoteCount
-          return (
-            <button
-              key={i}
-              type="button"
-              aria-label={getDotAriaLabel(i)}
-              aria-pressed={isOwnVoteDot ? 'true' : 'false'}
-              aria-disabled={disabled ? 'true' : 'false'}
-              onClick={() => handleDotClick(i)}
-              className={[
-                // 44×44px touch target via padding (12px dot + 16px × 2 = 44px)
-                'p-4 -m-4 flex items-center justify-center',
-                'focus-visible:outline-none focus-visible:ring-2',
-                'focus-visible:ring-sapphire-500 focus-visible:ring-offset-2',
-                disabled ? 'cursor-not-allowed' : 'cursor-pointer',
-              ].join(' ')}
-            >
-              <span className={getDotClasses(i)} />
-            </button>
-          )
-        })}
+        {config.scheme === 'ranked'
+          ? renderRankPicker()
+          : config.scheme === 'thumbs'
+            ? renderThumbs()
+            : config.scheme === 'points'
+              ? renderPointsStepper()
+              : renderDots()}
 
         {/* Tally label — always visible (D-17), min-width prevents layout shift */}
         <span
@@ -169,7 +283,14 @@ export function DotVoteControls({
             isBumping ? 'animate-tally-bump' : '',
           ].join(' ').trim()}
         >
-          {tally}
+          {ctx.talliesHidden ? (
+            <span title="Tallies are hidden until the facilitator reveals them">
+              <span aria-hidden="true">–</span>
+              <span className="sr-only">Tally hidden</span>
+            </span>
+          ) : (
+            tally
+          )}
         </span>
       </div>
 
@@ -0,0 +1,268 @@
+/**
+ * Session Moderation Console Component
+ *
+ * Facilitator queue shown next to the participant panel: participants waiting
+ * for approval and submissions held by content moderation. Every action is
+ * written to the database, so the change reaches the facilitator and the
+ * participant's phone over the realtime channels.
+ */
+
+import { useState } from 'react'
+import { Check, Ban, PenLine, ShieldCheck, X } from 'lucide-react'
+import { BrainstormSessionService } from '../../lib/services/BrainstormSessionService'
+import type {
+  BrainstormSession,
+  HeldIdea,
+  IdeaModerationFlag,
+  ModerationActionResponse,
+  SessionParticipant
+} from '../../types/BrainstormSession'
+import { Button } from '../ui/Button'
+
+interface SessionModerationConsoleProps {
+  session: BrainstormSession
+  participants: SessionParticipant[]
+  /** Pending held submissions */
+  heldIdeas: HeldIdea[]
+  onSessionUpdated?: (session: BrainstormSession) => void
+  className?: string
+}
+
+const FLAG_LABELS: Record<IdeaModerationFlag, string> = {
+  profanity: 'Language',
+  link: 'Link',
+  spam: 'Spam'
+}
+
+/**
+ * Apply a realtime change to the pending queue: reviewed items drop out
+ */
+export function applyHeldIdeaChange(heldIdeas: HeldIdea[], change: HeldIdea): HeldIdea[] {
+  const others = heldIdeas.filter((heldIdea) => heldIdea.id !== change.id)
+  if (change.status !== 'pending') return others
+  return [...others, change].sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+export default function SessionModerationConsole({
+  session,
+  participants,
+  heldIdeas,
+  onSessionUpdated,
+  className = ''
+}: SessionModerationConsoleProps) {
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ id: string; content: string; details: string } | null>(null)
+
+  const pendingParticipants = participants.filter((p) => !p.is_approved && !p.disconnected_at)
+  const participantName = (participantId: string) =>
+    participants.find((p) => p.id === participantId)?.participant_name ?? 'Unknown participant'
+  const pendingCount = pendingParticipants.length + heldIdeas.length
+
+  /**
+   * Run one moderation action; the realtime update removes the item
+   */
+  const runAction = async (id: string, action: () => Promise<ModerationActionResponse>) => {
+    setBusyId(id)
+    setErrorMessage(null)
+    const response = await action()
+    if (!response.success) {
+      setErrorMessage(response.error || 'Moderation action failed')
+    }
+    setBusyId(null)
+    return response.success
+  }
+
+  const handleToggleApproval = async () => {
+    const requireApproval = !session.require_approval
+    const updated = await runAction(session.id, () =>
+      BrainstormSessionService.setRequireApproval(session.id, requireApproval)
+    )
+    if (updated) {
+      onSessionUpdated?.({ ...session, require_approval: requireApproval })
+    }
+  }
+
+  const handleBan = async (participantId: string) => {
+    if (!window.confirm(`Ban ${participantName(participantId)} from this session? Their held ideas will be rejected.`)) {
+      return
+    }
+    await runAction(participantId, () => BrainstormSessionService.banParticipant(participantId))
+  }
+
+  const handleSaveEdit = async () => {
+    if (!editing || !editing.content.trim()) return
+    const approved = await runAction(editing.id, () =>
+      BrainstormSessionService.approveHeldIdea(editing.id, {
+        content: editing.content.trim(),
+        details: editing.details.trim()
+      })
+    )
+    if (approved) setEditing(null)
+  }
+
+  return (
+    <div
+      className={`bg-white/95 backdrop-blur-md rounded-lg border border-white/20 shadow-lg ${className}`}
+      style={{ width: '280px' }}
+      aria-label="Moderation"
+    >
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-neutral-200/50 bg-white/50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4 text-neutral-600" />
+            <h3 className="text-sm font-semibold text-neutral-800">Moderation</h3>
+          </div>
+          {pendingCount > 0 && (
+            <div className="px-2 py-0.5 bg-amber-100 rounded-full">
+              <span className="text-xs font-semibold text-amber-700">{pendingCount}</span>
+            </div>
+          )}
+        </div>
+        <label className="flex items-center gap-2 mt-2 text-xs text-neutral-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={session.require_approval}
+            onChange={handleToggleApproval}
+            disabled={busyId === session.id}
+          />
+          Approve new participants before they can submit
+        </label>
+      </div>
+
+      {errorMessage && (
+        <p className="px-4 py-2 text-xs text-red-700 bg-red-50" role="alert">
+          {errorMessage}
+        </p>
+      )}
+
+      <div className="max-h-96 overflow-y-auto divide-y divide-neutral-100">
+        {pendingCount === 0 && (
+          <p className="px-4 py-6 text-center text-sm text-neutral-500">Nothing waiting for review</p>
+        )}
+
+        {/* Participants waiting for approval */}
+        {pendingParticipants.map((participant) => (
+          <div key={participant.id} className="px-4 py-3">
+            <p className="text-sm font-medium text-neutral-800 truncate">{participant.participant_name}</p>
+            <p className="text-xs text-neutral-500 mb-2">Waiting to join</p>
+            <div className="flex gap-2">
+              <Button
+                size="xs"
+                variant="success"
+                icon={<Check className="w-3 h-3" />}
+                disabled={busyId === participant.id}
+                onClick={() => runAction(participant.id, () => BrainstormSessionService.approveParticipant(participant.id))}
+              >
+                Approve
+              </Button>
+              <Button
+                size="xs"
+                variant="secondary"
+                icon={<X className="w-3 h-3" />}
+                disabled={busyId === participant.id}
+                onClick={() => runAction(participant.id, () => BrainstormSessionService.rejectParticipant(participant.id))}
+              >
+                Reject
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {/* Held submissions */}
+        {heldIdeas.map((heldIdea) => (
+          <div key={heldIdea.id} className="px-4 py-3">
+            <div className="flex items-center gap-1.5 flex-wrap mb-1">
+              {heldIdea.flags.map((flag) => (
+                <span key={flag} className="text-xs px-1.5 py-0.5 bg-amber-100 text-amber-800 rounded">
+                  {FLAG_LABELS[flag] ?? flag}
+                </span>
+              ))}
+              <span className="text-xs text-neutral-500 truncate">{participantName(heldIdea.participant_id)}</span>
+            </div>
+
+            {editing?.id === heldIdea.id ? (
+              <div className="space-y-2">
+                <textarea
+                  className="w-full text-sm border border-neutral-300 rounded p-1.5"
+                  rows={2}
+                  value={editing.content}
+                  onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                  aria-label="Idea text"
+                />
+                <textarea
+                  className="w-full text-xs border border-neutral-300 rounded p-1.5"
+                  rows={2}
+                  value={editing.details}
+                  onChange={(e) => setEditing({ ...editing, details: e.target.value })}
+                  aria-label="Idea details"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="xs"
+                    variant="success"
+                    disabled={busyId === heldIdea.id || !editing.content.trim()}
+                    onClick={handleSaveEdit}
+                  >
+                    Save & Approve
+                  </Button>
+                  <Button size="xs" variant="ghost" onClick={() => setEditing(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-neutral-800 break-words">{heldIdea.content}</p>
+                {heldIdea.details && (
+                  <p className="text-xs text-neutral-500 break-words mt-0.5">{heldIdea.details}</p>
+                )}
+                <div className="flex gap-1.5 mt-2 flex-wrap">
+                  <Button
+                    size="xs"
+                    variant="success"
+                    icon={<Check className="w-3 h-3" />}
+                    disabled={busyId === heldIdea.id}
+                    onClick={() => runAction(heldIdea.id, () => BrainstormSessionService.approveHeldIdea(heldIdea.id))}
+                  >
+                    Approve
+                  </Button>
+                  <Button
+                    size="xs"
+                    variant="secondary"
+                    icon={<PenLine className="w-3 h-3" />}
+                    disabled={busyId === heldIdea.id}
+                    onClick={() =>
+                      setEditing({ id: heldIdea.id, content: heldIdea.content, details: heldIdea.details ?? '' })
+                    }
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="xs"
+                    variant="secondary"
+                    icon={<X className="w-3 h-3" />}
+                    disabled={busyId === heldIdea.id}
+                    onClick={() => runAction(heldIdea.id, () => BrainstormSessionService.rejectHeldIdea(heldIdea.id))}
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    size="xs"
+                    variant="danger"
+                    icon={<Ban className="w-3 h-3" />}
+                    disabled={busyId === heldIdea.participant_id}
+                    onClick={() => handleBan(heldIdea.participant_id)}
+                  >
+                    Ban
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+/**
+ * Session Round Controls Component
+ *
+ * Facilitator controls for moving a brainstorm session through its rounds:
+ * silent ideation, reveal, grouping, dot voting and final placement. Each
+ * round starts with its own timer; the change reaches participants' phones
+ * over the session channel. Sessions started from a technique template also
+ * step through the round's prompts here, and hidden or anonymous votes are
+ * revealed from here.
+ */
+
+import { useState } from 'react'
+import { ChevronRight, Clock, Eye, SkipForward, Square } from 'lucide-react'
+import { BrainstormSessionService } from '../../lib/services/BrainstormSessionService'
+import { useRoundCountdown } from '../../hooks/useRoundCountdown'
+import { BRAINSTORM_ROUNDS, ROUND_DEFINITIONS, formatRoundTime, getNextRound } from '../../utils/brainstormRounds'
+import { getCurrentPrompt, getRoundPrompts, getTechniqueRoundMinutes } from '../../utils/brainstormTechniques'
+import type { BrainstormRound, BrainstormSession } from '../../types/BrainstormSession'
+import { Button } from '../ui/Button'
+
+interface SessionRoundControlsProps {
+  session: BrainstormSession
+  onSessionUpdated?: (session: BrainstormSession) => void
+  className?: string
+}
+
+const DURATION_OPTIONS = [1, 2, 3, 5, 10, 15]
+
+export default function SessionRoundControls({
+  session,
+  onSessionUpdated,
+  className = ''
+}: SessionRoundControlsProps) {
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  // Minutes for the next round; null when the facilitator picks no timer
+  const [durationChoice, setDurationChoice] = useState<{ round: BrainstormRound; minutes: number | null } | null>(null)
+  const timeRemaining = useRoundCountdown(session.round_ends_at)
+
+  const currentRound = session.current_round ?? null
+  const currentIndex = currentRound ? BRAINSTORM_ROUNDS.indexOf(currentRound) : -1
+  const nextRound = getNextRound(currentRound)
+  const nextMinutes =
+    nextRound && durationChoice?.round === nextRound
+      ? durationChoice.minutes
+      : nextRound
+        ? (getTechniqueRoundMinutes(session.technique, nextRound) ?? ROUND_DEFINITIONS[nextRound].defaultMinutes)
+        : null
+  // A technique may time a round outside the usual options (Crazy 8s takes eight minutes)
+  const durationOptions =
+    nextMinutes && !DURATION_OPTIONS.includes(nextMinutes)
+      ? [...DURATION_OPTIONS, nextMinutes].sort((a, b) => a - b)
+      : DURATION_OPTIONS
+  const roundPrompts = currentRound ? getRoundPrompts(session, currentRound) : []
+  const currentPrompt = getCurrentPrompt(session)
+  const nextPrompt = roundPrompts[roundPrompts.findIndex((prompt) => prompt.id === currentPrompt?.id) + 1]
+
+  const changeRound = async (round: BrainstormRound | null, minutes?: number) => {
+    setIsProcessing(true)
+    setErrorMessage(null)
+    const response = await BrainstormSessionService.setRound(session.id, round, minutes)
+    if (response.success && response.session) {
+      onSessionUpdated?.(response.session)
+    } else {
+      setErrorMessage(response.error || 'Failed to change round')
+    }
+    setIsProcessing(false)
+  }
+
+  const votesHidden = (session.vote_visibility ?? 'live') !== 'live' && !session.votes_revealed_at
+
+  const revealVotes = async () => {
+    setIsProcessing(true)
+    setErrorMessage(null)
+    const response = await BrainstormSessionService.revealVotes(session.id)
+    if (response.success && response.session) {
+      onSessionUpdated?.(response.session)
+    } else {
+      setErrorMessage(response.error || 'Failed to reveal votes')
+    }
+    setIsProcessing(false)
+  }
+
+  const changePrompt = async (promptId: string) => {
+    setIsProcessing(true)
+    setErrorMessage(null)
+    const response = await BrainstormSessionService.setCurrentPrompt(session.id, promptId)
+    if (response.success && response.session) {
+      onSessionUpdated?.(response.session)
+    } else {
+      setErrorMessage(response.error || 'Failed to change prompt')
+    }
+    setIsProcessing(false)
+  }
+
+  return (
+    <div
+      className={`bg-white/95 backdrop-blur-md rounded-lg border border-white/20 shadow-lg ${className}`}
+      style={{ width: '280px' }}
+      aria-label="Rounds"
+    >
+      {/* Header */}
+      <div className="px-4 py-3 border-b border-neutral-200/50 bg-white/50 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-neutral-800">
+          {currentRound ? ROUND_DEFINITIONS[currentRound].label : 'Open brainstorm'}
+        </h3>
+        {timeRemaining !== null && (
+          <div
+            className={`flex items-center gap-1 text-sm font-semibold tabular-nums ${
+              timeRemaining === 0 ? 'text-red-600' : 'text-neutral-700'
+            }`}
+            role="timer"
+          >
+            <Clock className="w-4 h-4" />
+            {timeRemaining === 0 ? "Time's up" : formatRoundTime(timeRemaining)}
+          </div>
+        )}
+      </div>
+
+      {/* Round progress */}
+      <ol className="flex gap-1 px-4 pt-3" aria-label="Round progress">
+        {BRAINSTORM_ROUNDS.map((round, index) => (
+          <li
+            key={round}
+            title={ROUND_DEFINITIONS[round].label}
+            aria-current={round === currentRound ? 'step' : undefined}
+            className={`h-1.5 flex-1 rounded-full ${
+              index < currentIndex ? 'bg-sapphire-300' : index === currentIndex ? 'bg-sapphire-600' : 'bg-neutral-200'
+            }`}
+          />
+        ))}
+      </ol>
+
+      <div className="px-4 py-3 space-y-2">
+        {currentPrompt && (
+          <div className="rounded-md bg-sapphire-50 px-3 py-2" aria-label="Current prompt">
+            <p className="text-xs font-semibold text-sapphire-800">
+              {currentPrompt.label}
+              {roundPrompts.length > 1 &&
+                ` (${roundPrompts.indexOf(currentPrompt) + 1}/${roundPrompts.length})`}
+            </p>
+            <p className="text-xs text-sapphire-700">{currentPrompt.text}</p>
+          </div>
+        )}
+        {nextPrompt && (
+          <Button
+            size="sm"
+            variant="secondary"
+            className="w-full"
+            icon={<ChevronRight className="w-4 h-4" />}
+            disabled={isProcessing}
+            onClick={() => changePrompt(nextPrompt.id)}
+          >
+            Next prompt
+          </Button>
+        )}
+        {votesHidden && (
+          <Button
+            size="sm"
+            variant="secondary"
+            className="w-full"
+            icon={<Eye className="w-4 h-4" />}
+            disabled={isProcessing}
+            onClick={revealVotes}
+          >
+            Reveal votes
+          </Button>
+        )}
+        {nextRound && (
+          <>
+            <label className="flex items-center justify-between gap-2 text-xs text-neutral-600">
+              Timer for {ROUND_DEFINITIONS[nextRound].label.toLowerCase()}
+              <select
+                className="text-xs border border-neutral-300 rounded px-1.5 py-1"
+                value={nextMinutes ?? ''}
+                onChange={(e) =>
+                  setDurationChoice({ round: nextRound, minutes: e.target.value ? Number(e.target.value) : null })
+                }
+                disabled={isProcessing}
+              >
+                {durationOptions.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {minutes} min
+                  </option>
+                ))}
+                <option value="">No timer</option>
+              </select>
+            </label>
+            <Button
+              size="sm"
+              variant="sapphire"
+              className="w-full"
+              icon={<SkipForward className="w-4 h-4" />}
+              disabled={isProcessing}
+              onClick={() => changeRound(nextRound, nextMinutes ?? undefined)}
+            >
+              {`Start ${ROUND_DEFINITIONS[nextRound].label.toLowerCase()}`}
+            </Button>
+          </>
+        )}
+        {currentRound && (
+          <Button
+            size="sm"
+            variant="secondary"
+            className="w-full"
+            icon={<Square className="w-4 h-4" />}
+            disabled={isProcessing}
+            onClick={() => changeRound(null)}
+          >
+            {nextRound ? 'End rounds' : 'Finish rounds'}
+          </Button>
+        )}
+        {errorMessage && (
+          <p className="text-xs text-red-700" role="alert">
+            {errorMessage}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,258 @@
+/**
+ * Session Setup Modal Component
+ *
+ * Shown before a brainstorm session starts. The facilitator picks a
+ * technique template (or an open brainstorm), can ask the AI for extra
+ * prompts tailored to the project, previews the prompts participants
+ * will answer in each round, and chooses how the session votes.
+ */
+
+import { useMemo, useState } from 'react'
+import { Play, Sparkles } from 'lucide-react'
+import { aiService } from '../../lib/aiService'
+import { BRAINSTORM_ROUNDS, ROUND_DEFINITIONS } from '../../utils/brainstormRounds'
+import { BRAINSTORM_TECHNIQUES, TECHNIQUE_TEMPLATES, seedSessionPrompts } from '../../utils/brainstormTechniques'
+import { DEFAULT_VOTING_CONFIG, VOTE_VISIBILITIES, VOTING_SCHEMES, type VotingConfig } from '../../utils/votingSchemes'
+import type { BrainstormTechnique, SessionPrompt, VoteVisibility, VotingScheme } from '../../types/BrainstormSession'
+import type { Project } from '../../types'
+import { BaseModal } from '../shared/Modal'
+import { Button } from '../ui/Button'
+import { logger } from '../../utils/logger'
+
+interface SessionSetupModalProps {
+  isOpen: boolean
+  onClose: () => void
+  project: Pick<Project, 'id' | 'name' | 'description' | 'project_type'>
+  onStart: (technique: BrainstormTechnique | null, prompts: SessionPrompt[], voting: VotingConfig) => void
+  isStarting?: boolean
+  portalTarget?: HTMLElement
+}
+
+export default function SessionSetupModal({
+  isOpen,
+  onClose,
+  project,
+  onStart,
+  isStarting = false,
+  portalTarget
+}: SessionSetupModalProps) {
+  const [technique, setTechnique] = useState<BrainstormTechnique | null>(null)
+  // AI-tailored prompts for the selected technique
+  const [tailoredPrompts, setTailoredPrompts] = useState<Array<Omit<SessionPrompt, 'id'>>>([])
+  const [isTailoring, setIsTailoring] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [voting, setVoting] = useState<VotingConfig>(DEFAULT_VOTING_CONFIG)
+  const votingScheme = VOTING_SCHEMES[voting.scheme]
+
+  const prompts = useMemo(
+    () => (technique ? seedSessionPrompts(technique, tailoredPrompts) : []),
+    [technique, tailoredPrompts]
+  )
+
+  const selectTechnique = (next: BrainstormTechnique | null) => {
+    setTechnique(next)
+    setTailoredPrompts([])
+    setErrorMessage(null)
+  }
+
+  const selectVotingScheme = (scheme: VotingScheme) => {
+    setVoting((current) => ({
+      ...current,
+      scheme,
+      budget: VOTING_SCHEMES[scheme].defaultBudget,
+      allowMultiple: false
+    }))
+  }
+
+  const changeVoteBudget = (value: number) => {
+    if (!Number.isInteger(value)) return
+    setVoting((current) => ({
+      ...current,
+      budget: Math.min(Math.max(value, 1), VOTING_SCHEMES[current.scheme].maxBudget)
+    }))
+  }
+
+  const tailorPrompts = async () => {
+    if (!technique) return
+    setIsTailoring(true)
+    setErrorMessage(null)
+    try {
+      setTailoredPrompts(await aiService.generateSessionPrompts(technique, project))
+    } catch (error) {
+      logger.error('Failed to tailor session prompts:', error)
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to tailor prompts')
+    }
+    setIsTailoring(false)
+  }
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title="Start a brainstorm" size="lg" portalTarget={portalTarget}>
+      <div className="p-6 space-y-4">
+        <fieldset>
+          <legend className="text-sm font-semibold text-neutral-800 mb-2">Technique</legend>
+          <div className="grid grid-cols-2 gap-2">
+            <TechniqueOption
+              name="Open brainstorm"
+              description="No prompts; participants add any idea."
+              selected={technique === null}
+              onSelect={() => selectTechnique(null)}
+            />
+            {BRAINSTORM_TECHNIQUES.map((option) => (
+              <TechniqueOption
+                key={option}
+                name={TECHNIQUE_TEMPLATES[option].name}
+                description={TECHNIQUE_TEMPLATES[option].description}
+                selected={technique === option}
+                onSelect={() => selectTechnique(option)}
+              />
+            ))}
+          </div>
+        </fieldset>
+
+        {technique && (
+          <section aria-label="Prompts">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-neutral-800">Prompts</h3>
+              <Button
+                size="sm"
+                variant="secondary"
+                icon={<Sparkles className="w-4 h-4" />}
+                disabled={isTailoring || isStarting}
+                onClick={tailorPrompts}
+              >
+                {isTailoring ? 'Tailoring...' : 'Tailor prompts with AI'}
+              </Button>
+            </div>
+            <div className="max-h-64 overflow-y-auto space-y-3">
+              {BRAINSTORM_ROUNDS.map((round) => {
+                const roundPrompts = prompts.filter((prompt) => prompt.round === round)
+                if (roundPrompts.length === 0) return null
+                return (
+                  <div key={round}>
+                    <p className="text-xs font-medium uppercase tracking-wide text-neutral-500">
+                      {ROUND_DEFINITIONS[round].label}
+                    </p>
+                    <ul className="mt-1 space-y-1">
+                      {roundPrompts.map((prompt) => (
+                        <li key={prompt.id} className="text-sm text-neutral-700">
+                          <span className="font-medium">{prompt.label}:</span> {prompt.text}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )
+              })}
+            </div>
+          </section>
+        )}
+
+        <fieldset>
+          <legend className="text-sm font-semibold text-neutral-800 mb-2">Voting</legend>
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-xs text-neutral-600">
+              Scheme
+              <select
+                value={voting.scheme}
+                onChange={(event) => selectVotingScheme(event.target.value as VotingScheme)}
+                className="mt-1 block rounded-md border border-neutral-300 px-2 py-1 text-sm text-neutral-800"
+              >
+                {(Object.keys(VOTING_SCHEMES) as VotingScheme[]).map((scheme) => (
+                  <option key={scheme} value={scheme}>
+                    {VOTING_SCHEMES[scheme].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {votingScheme.budgetLabel && (
+              <label className="text-xs text-neutral-600">
+                {votingScheme.budgetLabel}
+                <input
+                  type="number"
+                  min={1}
+                  max={votingScheme.maxBudget}
+                  value={voting.budget}
+                  onChange={(event) => changeVoteBudget(Number(event.target.value))}
+                  className="mt-1 block w-24 rounded-md border border-neutral-300 px-2 py-1 text-sm text-neutral-800"
+                />
+              </label>
+            )}
+            {voting.scheme === 'dots' && (
+              <label className="flex items-center gap-2 text-xs text-neutral-600">
+                <input
+                  type="checkbox"
+                  checked={voting.allowMultiple}
+                  onChange={(event) => setVoting((current) => ({ ...current, allowMultiple: event.target.checked }))}
+                />
+                Allow several dots on one idea
+              </label>
+            )}
+          </div>
+          <p className="mt-1 text-xs text-neutral-500">{votingScheme.description}</p>
+          <label className="mt-3 block text-xs text-neutral-600">
+            Who sees votes
+            <select
+              value={voting.visibility ?? 'live'}
+              onChange={(event) =>
+                setVoting((current) => ({ ...current, visibility: event.target.value as VoteVisibility }))
+              }
+              className="mt-1 block rounded-md border border-neutral-300 px-2 py-1 text-sm text-neutral-800"
+            >
+              {(Object.keys(VOTE_VISIBILITIES) as VoteVisibility[]).map((visibility) => (
+                <option key={visibility} value={visibility}>
+                  {VOTE_VISIBILITIES[visibility].label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="mt-1 text-xs text-neutral-500">{VOTE_VISIBILITIES[voting.visibility ?? 'live'].description}</p>
+        </fieldset>
+
+        {errorMessage && (
+          <p className="text-xs text-red-700" role="alert">
+            {errorMessage}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isStarting}>
+            Cancel
+          </Button>
+          <Button
+            variant="sapphire"
+            icon={<Play className="w-4 h-4" />}
+            disabled={isStarting || isTailoring}
+            onClick={() => onStart(technique, prompts, voting)}
+          >
+            {isStarting ? 'Starting...' : 'Start session'}
+          </Button>
+        </div>
+      </div>
+    </BaseModal>
+  )
+}
+
+function TechniqueOption({
+  name,
+  description,
+  selected,
+  onSelect
+}: {
+  name: string
+  description: string
+  selected: boolean
+  onSelect: () => void
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={selected}
+      onClick={onSelect}
+      className={`text-left rounded-lg border px-3 py-2 transition-colors ${
+        selected ? 'border-sapphire-500 bg-sapphire-50' : 'border-neutral-200 hover:border-neutral-300'
+      }`}
+    >
+      <span className="block text-sm font-medium text-neutral-800">{name}</span>
+      <span className="block text-xs text-neutral-500">{description}</span>
+    </button>
+  )
+}
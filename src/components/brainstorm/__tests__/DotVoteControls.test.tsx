@@ -428,3 +428,56 @@ describe('T-054A-093: disabled during reconnecting state', () => {
     expect(screen.getByText(/reconnecting/i)).toBeDefined()
   })
 })
+
+// --------------------------------------------------------------------------
+// Voting schemes: the control follows the session's scheme
+// --------------------------------------------------------------------------
+describe('voting schemes', () => {
+  it('renders one dot per dot in the budget with several filled', () => {
+    mockUseDotVotingContext.mockReturnValue(
+      makeContext({
+        config: { scheme: 'dots', budget: 7, allowMultiple: true },
+        myVotes: new Set(['idea-1']),
+        myWeights: new Map([['idea-1', 3]]),
+        votesUsed: 3,
+        votesRemaining: 4,
+      })
+    )
+    render(<DotVoteControls ideaId="idea-1" ideaTitle="Launch plan" />)
+
+    const buttons = screen.getAllByRole('button')
+    expect(buttons).toHaveLength(7)
+    expect(buttons.filter((button) => button.getAttribute('aria-pressed') === 'true')).toHaveLength(3)
+    expect(buttons[0]).toHaveAttribute('aria-label', 'Remove vote from Launch plan. 3 of 7 votes used.')
+  })
+
+  it('casts a thumbs down and takes back a pressed thumb', () => {
+    const castVote = vi.fn().mockResolvedValue(undefined)
+    const removeVote = vi.fn().mockResolvedValue(undefined)
+    mockUseDotVotingContext.mockReturnValue(
+      makeContext({
+        config: { scheme: 'thumbs', budget: 1, allowMultiple: false },
+        myWeights: new Map([['idea-1', 1]]),
+        castVote,
+        removeVote,
+      })
+    )
+    render(<DotVoteControls ideaId="idea-1" ideaTitle="Launch plan" />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Thumbs down for Launch plan' }))
+    expect(castVote).toHaveBeenCalledWith('idea-1', -1)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Thumbs up for Launch plan' }))
+    expect(removeVote).toHaveBeenCalledWith('idea-1')
+  })
+
+  it('shows a dash instead of the tally while tallies are hidden', () => {
+    mockUseDotVotingContext.mockReturnValue(
+      makeContext({ tallies: new Map([['idea-1', 4]]), talliesHidden: true })
+    )
+    render(<DotVoteControls ideaId="idea-1" ideaTitle="Launch plan" />)
+
+    expect(screen.getByText('Tally hidden')).toBeInTheDocument()
+    expect(screen.queryByText('4')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * SessionModerationConsole Component Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+
+vi.mock('../../../lib/services/BrainstormSessionService', () => ({
+  BrainstormSessionService: {
+    setRequireApproval: vi.fn(),
+    approveParticipant: vi.fn(),
+    rejectParticipant: vi.fn(),
+    banParticipant: vi.fn(),
+    approveHeldIdea: vi.fn(),
+    rejectHeldIdea: vi.fn()
+  }
+}))
+
+import SessionModerationConsole, { applyHeldIdeaChange } from '../SessionModerationConsole'
+import { BrainstormSessionService } from '../../../lib/services/BrainstormSessionService'
+import type { BrainstormSession, HeldIdea, SessionParticipant } from '../../../types/BrainstormSession'
+
+const mockService = vi.mocked(BrainstormSessionService)
+
+const session = {
+  id: 'session-1',
+  require_approval: true
+} as BrainstormSession
+
+const participants: SessionParticipant[] = [
+  {
+    id: 'p-1',
+    session_id: 'session-1',
+    participant_name: 'Alice Johnson',
+    is_anonymous: false,
+    is_approved: false,
+    contribution_count: 0,
+    joined_at: '2026-10-19T10:00:00Z',
+    last_active_at: '2026-10-19T10:00:00Z'
+  },
+  {
+    id: 'p-2',
+    session_id: 'session-1',
+    participant_name: 'Bob Smith',
+    is_anonymous: false,
+    is_approved: true,
+    contribution_count: 2,
+    joined_at: '2026-10-19T10:00:00Z',
+    last_active_at: '2026-10-19T10:00:00Z'
+  }
+]
+
+const heldIdea: HeldIdea = {
+  id: 'held-1',
+  session_id: 'session-1',
+  participant_id: 'p-2',
+  content: 'See www.example.com',
+  priority: 'moderate',
+  flags: ['link'],
+  status: 'pending',
+  created_at: '2026-10-19T10:05:00Z'
+}
+
+describe('SessionModerationConsole', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('lists pending participants and held ideas', () => {
+    render(<SessionModerationConsole session={session} participants={participants} heldIdeas={[heldIdea]} />)
+
+    expect(screen.getByText('Alice Johnson')).toBeInTheDocument()
+    expect(screen.getByText('See www.example.com')).toBeInTheDocument()
+    expect(screen.getByText('Link')).toBeInTheDocument()
+    expect(screen.getByText('Bob Smith')).toBeInTheDocument()
+  })
+
+  it('approves a pending participant', async () => {
+    mockService.approveParticipant.mockResolvedValue({ success: true })
+    render(<SessionModerationConsole session={session} participants={participants} heldIdeas={[]} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /approve/i }))
+
+    await waitFor(() => expect(mockService.approveParticipant).toHaveBeenCalledWith('p-1'))
+  })
+
+  it('approves an edited held idea', async () => {
+    mockService.approveHeldIdea.mockResolvedValue({ success: true })
+    render(<SessionModerationConsole session={session} participants={[]} heldIdeas={[heldIdea]} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /edit/i }))
+    fireEvent.change(screen.getByLabelText('Idea text'), { target: { value: 'See the example site' } })
+    fireEvent.click(screen.getByRole('button', { name: /save & approve/i }))
+
+    await waitFor(() =>
+      expect(mockService.approveHeldIdea).toHaveBeenCalledWith('held-1', {
+        content: 'See the example site',
+        details: ''
+      })
+    )
+  })
+
+  it('shows the error when an action fails', async () => {
+    mockService.rejectHeldIdea.mockResolvedValue({ success: false, error: 'Not allowed' })
+    render(<SessionModerationConsole session={session} participants={[]} heldIdeas={[heldIdea]} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /reject/i }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Not allowed')
+  })
+
+  it('drops reviewed held ideas from the queue', () => {
+    const later = { ...heldIdea, id: 'held-2', created_at: '2026-10-19T10:06:00Z' }
+
+    expect(applyHeldIdeaChange([heldIdea], later)).toEqual([heldIdea, later])
+    expect(applyHeldIdeaChange([heldIdea, later], { ...heldIdea, status: 'approved' })).toEqual([later])
+  })
+})
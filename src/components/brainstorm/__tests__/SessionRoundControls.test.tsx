@@ -0,0 +1,110 @@
+/**
+ * SessionRoundControls Component Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+
+vi.mock('../../../lib/services/BrainstormSessionService', () => ({
+  BrainstormSessionService: {
+    setRound: vi.fn(),
+    setCurrentPrompt: vi.fn(),
+    revealVotes: vi.fn()
+  }
+}))
+
+import SessionRoundControls from '../SessionRoundControls'
+import { BrainstormSessionService } from '../../../lib/services/BrainstormSessionService'
+import { seedSessionPrompts } from '../../../utils/brainstormTechniques'
+import type { BrainstormSession } from '../../../types/BrainstormSession'
+
+const mockService = vi.mocked(BrainstormSessionService)
+
+const session = {
+  id: 'session-1',
+  status: 'active',
+  current_round: null,
+  round_ends_at: null
+} as BrainstormSession
+
+describe('SessionRoundControls', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('starts silent ideation with its default timer', async () => {
+    const updated = { ...session, current_round: 'ideation' } as BrainstormSession
+    mockService.setRound.mockResolvedValue({ success: true, session: updated })
+    const onSessionUpdated = vi.fn()
+    render(<SessionRoundControls session={session} onSessionUpdated={onSessionUpdated} />)
+
+    expect(screen.getByText('Open brainstorm')).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: /start silent ideation/i }))
+
+    await waitFor(() => expect(onSessionUpdated).toHaveBeenCalledWith(updated))
+    expect(mockService.setRound).toHaveBeenCalledWith('session-1', 'ideation', 5)
+  })
+
+  it('starts the next round untimed when no timer is picked', async () => {
+    mockService.setRound.mockResolvedValue({ success: true, session })
+    const ideation = {
+      ...session,
+      current_round: 'ideation',
+      round_ends_at: new Date(Date.now() + 60000).toISOString()
+    } as BrainstormSession
+    render(<SessionRoundControls session={ideation} />)
+
+    expect(screen.getByRole('timer')).toHaveTextContent('1:00')
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: '' } })
+    fireEvent.click(screen.getByRole('button', { name: /start reveal/i }))
+
+    await waitFor(() => expect(mockService.setRound).toHaveBeenCalledWith('session-1', 'reveal', undefined))
+  })
+
+  it('ends rounds and shows failures', async () => {
+    mockService.setRound.mockResolvedValue({ success: false, error: 'Session not found' })
+    render(<SessionRoundControls session={{ ...session, current_round: 'voting' } as BrainstormSession} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /end rounds/i }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Session not found')
+    expect(mockService.setRound).toHaveBeenCalledWith('session-1', null, undefined)
+  })
+
+  it('uses the technique timer and steps through the round prompts', async () => {
+    mockService.setCurrentPrompt.mockResolvedValue({ success: true, session })
+    const crazy8s = { ...session, technique: 'crazy-8s', prompts: seedSessionPrompts('crazy-8s') } as BrainstormSession
+    const { rerender } = render(<SessionRoundControls session={crazy8s} />)
+
+    expect(screen.getByRole('combobox')).toHaveValue('8')
+
+    const scamper = {
+      ...session,
+      technique: 'scamper',
+      prompts: seedSessionPrompts('scamper'),
+      current_round: 'ideation',
+      current_prompt_id: 'prompt-1'
+    } as BrainstormSession
+    rerender(<SessionRoundControls session={scamper} />)
+
+    expect(screen.getByLabelText('Current prompt')).toHaveTextContent('Substitute (1/7)')
+    fireEvent.click(screen.getByRole('button', { name: /next prompt/i }))
+
+    await waitFor(() => expect(mockService.setCurrentPrompt).toHaveBeenCalledWith('session-1', 'prompt-2'))
+  })
+
+  it('reveals hidden votes once', async () => {
+    const hidden = { ...session, vote_visibility: 'hidden', votes_revealed_at: null } as BrainstormSession
+    const revealed = { ...hidden, votes_revealed_at: '2026-10-19T10:00:00Z' }
+    mockService.revealVotes.mockResolvedValue({ success: true, session: revealed })
+    const onSessionUpdated = vi.fn()
+    const { rerender } = render(<SessionRoundControls session={hidden} onSessionUpdated={onSessionUpdated} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /reveal votes/i }))
+
+    await waitFor(() => expect(onSessionUpdated).toHaveBeenCalledWith(revealed))
+    expect(mockService.revealVotes).toHaveBeenCalledWith('session-1')
+    rerender(<SessionRoundControls session={revealed} />)
+    expect(screen.queryByRole('button', { name: /reveal votes/i })).not.toBeInTheDocument()
+  })
+})
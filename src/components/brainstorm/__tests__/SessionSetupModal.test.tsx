@@ -0,0 +1,87 @@
+/**
+ * SessionSetupModal Component Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+
+vi.mock('../../../lib/aiService', () => ({
+  aiService: {
+    generateSessionPrompts: vi.fn()
+  }
+}))
+
+import SessionSetupModal from '../SessionSetupModal'
+import { aiService } from '../../../lib/aiService'
+
+const mockAiService = vi.mocked(aiService)
+
+const project = {
+  id: 'project-1',
+  name: 'Checkout redesign',
+  description: 'Reduce drop-off at payment',
+  project_type: 'software' as const
+}
+
+describe('SessionSetupModal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('starts an open brainstorm without prompts', () => {
+    const onStart = vi.fn()
+    render(<SessionSetupModal isOpen onClose={vi.fn()} project={project} onStart={onStart} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /start session/i }))
+
+    expect(onStart).toHaveBeenCalledWith(null, [], {
+      scheme: 'dots',
+      budget: 5,
+      allowMultiple: false,
+      visibility: 'live'
+    })
+  })
+
+  it('starts with the chosen voting scheme, budget and visibility', () => {
+    const onStart = vi.fn()
+    render(<SessionSetupModal isOpen onClose={vi.fn()} project={project} onStart={onStart} />)
+
+    fireEvent.click(screen.getByLabelText(/allow several dots on one idea/i))
+    fireEvent.change(screen.getByLabelText(/scheme/i), { target: { value: 'points' } })
+    expect(screen.getByLabelText(/points per person/i)).toHaveValue(100)
+    expect(screen.queryByLabelText(/allow several dots/i)).not.toBeInTheDocument()
+    fireEvent.change(screen.getByLabelText(/points per person/i), { target: { value: '50' } })
+    fireEvent.change(screen.getByLabelText(/who sees votes/i), { target: { value: 'anonymous' } })
+
+    fireEvent.click(screen.getByRole('button', { name: /start session/i }))
+
+    expect(onStart).toHaveBeenCalledWith(null, [], {
+      scheme: 'points',
+      budget: 50,
+      allowMultiple: false,
+      visibility: 'anonymous'
+    })
+  })
+
+  it('previews the technique prompts and adds the ones tailored by the AI', async () => {
+    mockAiService.generateSessionPrompts.mockResolvedValue([
+      { round: 'ideation', label: 'Payment', text: 'How might we make paying feel effortless?' }
+    ])
+    const onStart = vi.fn()
+    render(<SessionSetupModal isOpen onClose={vi.fn()} project={project} onStart={onStart} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /how might we/i }))
+    expect(screen.getByText(/remove the biggest frustration/)).toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: /tailor prompts with ai/i }))
+    expect(await screen.findByText(/make paying feel effortless/)).toBeInTheDocument()
+    expect(mockAiService.generateSessionPrompts).toHaveBeenCalledWith('how-might-we', project)
+
+    fireEvent.click(screen.getByRole('button', { name: /start session/i }))
+    await waitFor(() => expect(onStart).toHaveBeenCalled())
+    const [technique, prompts] = onStart.mock.calls[0]
+    expect(technique).toBe('how-might-we')
+    expect(prompts).toHaveLength(5)
+    expect(prompts[4]).toMatchObject({ id: 'prompt-5', label: 'Payment' })
+  })
+})
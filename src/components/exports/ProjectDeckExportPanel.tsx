@@ -0,0 +1,91 @@
+/**
+ * ProjectDeckExportPanel — PowerPoint export on the Data Management page
+ *
+ * Builds a deck from the current ideas, the project's matrix layout and the
+ * latest saved insights and roadmap.
+ */
+
+import React, { useState } from 'react'
+import { AlertCircle, Presentation } from 'lucide-react'
+import type { IdeaCard, InsightsData, Project, RoadmapData } from '../../types'
+import { DatabaseService } from '../../lib/database'
+import { exportProjectDeck } from '../../lib/pptx'
+import { canExport } from '../../lib/config/tierLimits'
+import { useSubscription } from '../../hooks/useSubscription'
+import { resolveMatrixConfig } from '../../utils/matrixQuadrant'
+import { getPlacedIdeas } from '../../utils/ideaScoring'
+import { logger } from '../../utils/logger'
+
+interface ProjectDeckExportPanelProps {
+  currentProject: Project
+  ideas: IdeaCard[]
+}
+
+const ProjectDeckExportPanel: React.FC<ProjectDeckExportPanelProps> = ({ currentProject, ideas }) => {
+  const { subscription } = useSubscription()
+  const canExportDeck = canExport(subscription?.tier ?? 'free', 'ppt')
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async () => {
+    setExporting(true)
+    setError(null)
+    try {
+      // Insights and roadmaps are optional; the deck skips their slides when missing
+      const [insights, roadmaps] = await Promise.all([
+        DatabaseService.getProjectInsights(currentProject.id),
+        DatabaseService.getProjectRoadmaps(currentProject.id)
+      ])
+      await exportProjectDeck({
+        project: currentProject,
+        ideas: getPlacedIdeas(ideas, currentProject.settings?.matrix_view),
+        matrixConfig: resolveMatrixConfig(currentProject.settings?.matrix_view),
+        insights: (insights[0]?.insights_data as InsightsData | undefined) ?? null,
+        roadmap: (roadmaps[0]?.roadmap_data as RoadmapData | undefined) ?? null
+      })
+    } catch (exportError) {
+      logger.error('Failed to export presentation:', exportError)
+      setError('The presentation could not be created. Please try again.')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-200/60 shadow-sm" data-testid="project-deck-export-panel">
+      <div className="flex items-start gap-4 mb-6">
+        <div className="p-3 bg-orange-50 rounded-xl">
+          <Presentation className="w-6 h-6 text-orange-600" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900 mb-1">Presentation</h3>
+          <p className="text-sm text-slate-600">
+            Download a PowerPoint deck with the matrix, an idea list for each quadrant, and the latest insights and roadmap.
+          </p>
+        </div>
+      </div>
+
+      <button
+        onClick={handleExport}
+        disabled={!canExportDeck || exporting || ideas.length === 0}
+        className="flex items-center space-x-2 bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        data-testid="project-deck-export"
+      >
+        <Presentation className="w-4 h-4" />
+        <span>{exporting ? 'Building presentation...' : 'Export presentation (PPTX)'}</span>
+      </button>
+      {!canExportDeck && (
+        <p className="text-xs text-slate-500 mt-2">PowerPoint export is included in the Team and Enterprise plans.</p>
+      )}
+
+      {error && (
+        <div className="mt-4 flex items-center space-x-2 text-red-600 bg-red-50 px-4 py-3 rounded-lg" role="alert">
+          <AlertCircle className="w-4 h-4" />
+          <span className="text-sm font-medium">{error}</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ProjectDeckExportPanel
@@ -0,0 +1,249 @@
+/**
+ * ProjectWorkbookPanel — Excel export and import on the Data Management page
+ *
+ * Exports ideas, the latest roadmap and vote tallies as a workbook. An edited
+ * workbook can be uploaded again: its Ideas sheet is compared with the
+ * current ideas and the changes are listed for review before they are saved.
+ */
+
+import React, { useRef, useState } from 'react'
+import { AlertCircle, CheckCircle, Download, FileSpreadsheet, Upload } from 'lucide-react'
+import type { IdeaCard, Project, RoadmapData } from '../../types'
+import { DatabaseService } from '../../lib/database'
+import { supabase } from '../../lib/supabase'
+import { listVotesForProject } from '../../lib/repositories/voteRepository'
+import {
+  applyIdeaWorkbookDiff,
+  exportProjectWorkbook,
+  parseIdeaWorkbook,
+  type IdeaWorkbookApplyResult,
+  type IdeaWorkbookDiff
+} from '../../lib/xlsx'
+import { canExport } from '../../lib/config/tierLimits'
+import { useSubscription } from '../../hooks/useSubscription'
+import { getPlacedIdeas } from '../../utils/ideaScoring'
+import { resolveMatrixConfig } from '../../utils/matrixQuadrant'
+import { logger } from '../../utils/logger'
+
+interface ProjectWorkbookPanelProps {
+  currentProject: Project
+  ideas: IdeaCard[]
+  userId: string
+  /** Called after imported changes were saved */
+  onDataUpdated: () => void
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  content: 'Title',
+  details: 'Details',
+  priority: 'Priority',
+  x: 'X',
+  y: 'Y',
+  tags: 'Tags'
+}
+
+// Keep the preview readable for big imports
+const PREVIEW_LIMIT = 25
+
+const ProjectWorkbookPanel: React.FC<ProjectWorkbookPanelProps> = ({ currentProject, ideas, userId, onDataUpdated }) => {
+  const { subscription } = useSubscription()
+  const canExportWorkbook = canExport(subscription?.tier ?? 'free', 'xlsx')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [busy, setBusy] = useState<'export' | 'read' | 'apply' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [diff, setDiff] = useState<IdeaWorkbookDiff | null>(null)
+  const [result, setResult] = useState<IdeaWorkbookApplyResult | null>(null)
+  // Export, and compare imports against, positions as the matrix shows them
+  const placedIdeas = getPlacedIdeas(ideas, currentProject.settings?.matrix_view)
+
+  const handleExport = async () => {
+    setBusy('export')
+    setError(null)
+    try {
+      const [roadmaps, votes] = await Promise.all([
+        DatabaseService.getProjectRoadmaps(currentProject.id),
+        listVotesForProject(currentProject.id)
+      ])
+      await exportProjectWorkbook({
+        projectName: currentProject.name,
+        ideas: placedIdeas,
+        matrixConfig: resolveMatrixConfig(currentProject.settings?.matrix_view),
+        roadmap: (roadmaps[0]?.roadmap_data as RoadmapData | undefined) ?? null,
+        votes
+      })
+    } catch (exportError) {
+      logger.error('Failed to export workbook:', exportError)
+      setError('The workbook could not be created. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setBusy('read')
+    setError(null)
+    setResult(null)
+    try {
+      setDiff(await parseIdeaWorkbook(await file.arrayBuffer(), placedIdeas))
+    } catch (readError) {
+      logger.error('Failed to read workbook:', readError)
+      setDiff(null)
+      setError('The file could not be read.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleApply = async () => {
+    if (!diff) return
+    setBusy('apply')
+    const applied = await applyIdeaWorkbookDiff(diff, { projectId: currentProject.id, userId, client: supabase })
+    setBusy(null)
+    setDiff(null)
+    setResult(applied)
+    if (applied.created + applied.updated > 0) onDataUpdated()
+  }
+
+  const hasChanges = !!diff && diff.creates.length + diff.updates.length > 0
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-200/60 shadow-sm" data-testid="project-workbook-panel">
+      <div className="flex items-start gap-4 mb-6">
+        <div className="p-3 bg-emerald-50 rounded-xl">
+          <FileSpreadsheet className="w-6 h-6 text-emerald-700" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900 mb-1">Spreadsheet</h3>
+          <p className="text-sm text-slate-600">
+            Download ideas, roadmap epics, milestones and vote tallies as an Excel workbook. Edit the Ideas sheet and upload it
+            again to review and apply the changes.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={handleExport}
+          disabled={!canExportWorkbook || busy !== null}
+          className="flex items-center space-x-2 bg-emerald-700 text-white px-4 py-2 rounded-lg hover:bg-emerald-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          data-testid="project-workbook-export"
+        >
+          <Download className="w-4 h-4" />
+          <span>{busy === 'export' ? 'Preparing workbook...' : 'Export workbook (XLSX)'}</span>
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy !== null}
+          className="flex items-center space-x-2 border border-slate-300 text-slate-700 px-4 py-2 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+          data-testid="project-workbook-import"
+        >
+          <Upload className="w-4 h-4" />
+          <span>{busy === 'read' ? 'Reading workbook...' : 'Import edited workbook'}</span>
+        </button>
+      </div>
+      {!canExportWorkbook && (
+        <p className="text-xs text-slate-500 mt-2">Excel export is included in the Enterprise plan.</p>
+      )}
+
+      {error && (
+        <div className="mt-4 flex items-center space-x-2 text-red-600 bg-red-50 px-4 py-3 rounded-lg" role="alert">
+          <AlertCircle className="w-4 h-4" />
+          <span className="text-sm font-medium">{error}</span>
+        </div>
+      )}
+
+      {diff && (
+        <div className="mt-4 border border-slate-200 rounded-lg px-4 py-3" data-testid="project-workbook-preview">
+          <p className="text-sm font-medium text-slate-900">
+            {diff.updates.length} ideas to update, {diff.creates.length} to add, {diff.unchanged} unchanged
+          </p>
+          {diff.notInSheet > 0 && (
+            <p className="text-xs text-slate-500 mt-1">
+              {diff.notInSheet} ideas are not in the workbook and will be kept as they are.
+            </p>
+          )}
+
+          {diff.errors.length > 0 && (
+            <ul className="mt-2 list-disc list-inside text-xs text-red-700 space-y-0.5" data-testid="project-workbook-errors">
+              {diff.errors.map((message) => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+
+          {hasChanges && (
+            <ul className="mt-3 max-h-64 overflow-y-auto divide-y divide-slate-100 text-xs">
+              {diff.updates.slice(0, PREVIEW_LIMIT).map((update) => (
+                <li key={update.id} className="py-1.5">
+                  <span className="font-medium text-slate-800">{update.title}</span>
+                  {update.fields.map((change) => (
+                    <div key={change.field} className="text-slate-600 pl-3">
+                      {FIELD_LABELS[change.field]}: <span className="line-through text-slate-400">{change.from || '—'}</span> → {change.to || '—'}
+                    </div>
+                  ))}
+                </li>
+              ))}
+              {diff.creates.slice(0, PREVIEW_LIMIT).map((create) => (
+                <li key={`new-${create.row}`} className="py-1.5 text-emerald-700">
+                  <span className="font-medium">New:</span> {create.idea.content}
+                </li>
+              ))}
+              {diff.updates.length + diff.creates.length > PREVIEW_LIMIT * 2 && (
+                <li className="py-1.5 text-slate-500">…and more</li>
+              )}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-3 mt-3">
+            <button
+              onClick={handleApply}
+              disabled={!hasChanges || busy !== null}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              data-testid="project-workbook-apply"
+            >
+              {busy === 'apply' ? 'Applying...' : 'Apply changes'}
+            </button>
+            <button
+              onClick={() => setDiff(null)}
+              disabled={busy !== null}
+              className="px-3 py-1.5 text-sm text-slate-500 hover:text-slate-800"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div
+          className={`mt-4 px-4 py-3 rounded-lg ${result.failures.length > 0 ? 'bg-amber-50' : 'bg-emerald-50'}`}
+          role="status"
+          data-testid="project-workbook-result"
+        >
+          <div className="flex items-center space-x-2 text-emerald-700 text-sm font-medium">
+            <CheckCircle className="w-4 h-4" />
+            <span>Updated {result.updated} and added {result.created} ideas</span>
+          </div>
+          {result.failures.length > 0 && (
+            <ul className="mt-2 list-disc list-inside text-xs text-amber-800 space-y-0.5">
+              {result.failures.map((failure) => <li key={failure}>{failure}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        onChange={handleFileSelect}
+        style={{ display: 'none' }}
+        data-testid="project-workbook-file"
+      />
+    </div>
+  )
+}
+
+export default ProjectWorkbookPanel
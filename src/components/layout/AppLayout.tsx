@@ -1,4 +1,5 @@
 import React, { useState, lazy, Suspense } from 'react'
+import { MessageSquare } from 'lucide-react'
 import { DndContext, DragOverlay, PointerSensor, useSensor, useSensors } from '@dnd-kit/core'
 import { User, Project, IdeaCard } from '../../types'
 import Sidebar from '../Sidebar'
@@ -7,9 +8,13 @@ import { OptimizedIdeaCard } from '../matrix/OptimizedIdeaCard'
 const AddIdeaModal = lazy(() => import('../AddIdeaModal'))
 const AIIdeaModal = lazy(() => import('../AIIdeaModal'))
 const EditIdeaModal = lazy(() => import('../EditIdeaModal'))
+const ProjectChatPanel = lazy(() => import('../project/ProjectChatPanel'))
 import { getAccessibleLandmarkProps } from '../../utils/accessibility'
 import { useBreakpoint } from '../../hooks/useBreakpoint'
 import MobileShell from '../mobile/MobileShell'
+import { getScorePlacementSettings } from '../../utils/ideaScoring'
+import { collectIdeaTags } from '../../utils/ideaFilter'
+import type { IdeaBulkUpdate, IdeaMergeInput } from '../../lib/repositories'
 
 interface AppLayoutProps {
   currentUser: User
@@ -36,6 +41,9 @@ interface AppLayoutProps {
   deleteIdea?: (ideaId: string) => Promise<void>
   toggleCollapse?: (ideaId: string, collapsed?: boolean) => Promise<void>
   handleDragEnd?: (event: any) => Promise<void>
+  bulkUpdateIdeas?: (updates: IdeaBulkUpdate[], label?: string) => Promise<number>
+  bulkDeleteIdeas?: (ideaIds: string[]) => Promise<number>
+  mergeIdeas?: (input: IdeaMergeInput) => Promise<IdeaCard>
   /** Callback to reload ideas (polling fallback) */
   loadIdeas?: (projectId?: string, skipClear?: boolean) => Promise<void>
 }
@@ -63,11 +71,17 @@ const AppLayout: React.FC<AppLayoutProps> = ({
   deleteIdea,
   toggleCollapse,
   handleDragEnd,
+  bulkUpdateIdeas,
+  bulkDeleteIdeas,
+  mergeIdeas,
   loadIdeas
 }) => {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
   const [isInFullscreen, setIsInFullscreen] = useState(false)
+  const [showChat, setShowChat] = useState(false)
   const { isMobile } = useBreakpoint()
+  const { framework: scoringFramework } = getScorePlacementSettings(currentProject?.settings?.matrix_view)
+  const tagSuggestions = collectIdeaTags(ideas, currentProject?.settings?.idea_tags)
 
   // Track fullscreen state changes to prevent duplicate modal rendering
   React.useEffect(() => {
@@ -149,6 +163,9 @@ const AppLayout: React.FC<AppLayoutProps> = ({
           deleteIdea,
           toggleCollapse,
           handleDragEnd,
+          bulkUpdateIdeas,
+          bulkDeleteIdeas,
+          mergeIdeas,
           loadIdeas,
         })}
       </MobileShell>
@@ -206,6 +223,9 @@ const AppLayout: React.FC<AppLayoutProps> = ({
             deleteIdea,
             toggleCollapse,
             handleDragEnd,
+            bulkUpdateIdeas,
+            bulkDeleteIdeas,
+            mergeIdeas,
             loadIdeas
           })}
 
@@ -257,6 +277,8 @@ const AppLayout: React.FC<AppLayoutProps> = ({
             onClose={() => setShowAddModal(false)}
             onAdd={addIdea}
             currentUser={currentUser}
+            scoringFramework={scoringFramework}
+            tagSuggestions={tagSuggestions}
           />
         </Suspense>
       )}
@@ -272,6 +294,35 @@ const AppLayout: React.FC<AppLayoutProps> = ({
         </Suspense>
       )}
 
+      {/* Project assistant - toggle and side panel */}
+      {!isInFullscreen && currentProject && !showChat && (
+        <button
+          type="button"
+          onClick={() => setShowChat(true)}
+          className="fixed bottom-6 right-6 z-30 flex items-center gap-2 rounded-full px-4 py-3 text-sm font-medium text-white shadow-lg"
+          style={{ backgroundColor: 'var(--sapphire-600)' }}
+          aria-label="Open project assistant"
+          data-testid="project-chat-toggle"
+        >
+          <MessageSquare className="w-4 h-4" aria-hidden="true" />
+          Ask about this project
+        </button>
+      )}
+
+      {!isInFullscreen && currentProject && showChat && (
+        <Suspense fallback={null}>
+          <ProjectChatPanel
+            key={currentProject.id}
+            project={currentProject}
+            currentUser={currentUser}
+            ideas={ideas}
+            addIdea={addIdea}
+            updateIdea={updateIdea}
+            onClose={() => setShowChat(false)}
+          />
+        </Suspense>
+      )}
+
       {!isInFullscreen && updateIdea && deleteIdea && editingIdea && (
         <Suspense fallback={null}>
           <EditIdeaModal
@@ -281,6 +332,8 @@ const AppLayout: React.FC<AppLayoutProps> = ({
             onClose={() => setEditingIdea(null)}
             onUpdate={updateIdea}
             onDelete={deleteIdea}
+            scoringFramework={scoringFramework}
+            tagSuggestions={tagSuggestions}
           />
         </Suspense>
       )}
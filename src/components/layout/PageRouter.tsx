@@ -19,11 +19,14 @@ const SkeletonTestPage = lazy(() => import('../pages/SkeletonTestPage').then(m =
 const MonochromaticDemo = lazy(() => import('../demo/MonochromaticDemo'))
 // import PerformanceDashboard from '../dev/PerformanceDashboard'
 import { useProjectFiles } from '../../hooks/useProjectFiles'
-import { IdeaCard } from '../../types'
+import { IdeaCard, IdeaFilter } from '../../types'
+import type { IdeaBulkUpdate, IdeaMergeInput } from '../../lib/repositories'
 import { logger } from '../../utils/logger'
 import { useBreakpoint } from '../../hooks/useBreakpoint'
 import { DesktopOnlyHint } from '../shared/DesktopOnlyHint'
 import MobileMatrixPage from '../mobile/MobileMatrixPage'
+import { resolveMatrixConfig } from '../../utils/matrixQuadrant'
+import { getPlacedIdeas } from '../../utils/ideaScoring'
 
 // Desktop-only routes per 07-MOBILE-AUDIT.md — users on mobile see a
 // non-blocking "Best on desktop" hint above these pages (D-06, D-08).
@@ -63,7 +66,13 @@ interface PageRouterProps {
   updateIdea?: (updatedIdea: IdeaCard) => Promise<void>
   toggleCollapse?: (ideaId: string, collapsed?: boolean) => Promise<void>
   handleDragEnd?: (event: any) => Promise<void>
+  bulkUpdateIdeas?: (updates: IdeaBulkUpdate[], label?: string) => Promise<number>
+  bulkDeleteIdeas?: (ideaIds: string[]) => Promise<number>
+  mergeIdeas?: (input: IdeaMergeInput) => Promise<IdeaCard>
   isRestoringProject?: boolean
+  /** Matrix filter, kept in the URL by useBrowserHistory */
+  ideaFilter?: IdeaFilter
+  onIdeaFilterChange?: (filter: IdeaFilter) => void
   /** Callback to reload ideas (polling fallback) */
   loadIdeas?: (projectId?: string, skipClear?: boolean) => Promise<void>
 }
@@ -103,8 +112,13 @@ const PageRouter: React.FC<PageRouterProps> = ({
   updateIdea: _updateIdea,
   toggleCollapse,
   handleDragEnd,
+  bulkUpdateIdeas,
+  bulkDeleteIdeas,
+  mergeIdeas,
   isRestoringProject = false,
-  loadIdeas
+  loadIdeas,
+  ideaFilter,
+  onIdeaFilterChange
 }) => {
   const { getCurrentProjectFiles, handleFilesUploaded, handleDeleteFile } = useProjectFiles(currentProject)
   const { isMobile } = useBreakpoint()
@@ -143,8 +157,9 @@ const PageRouter: React.FC<PageRouterProps> = ({
         if (isMobile) {
           return (
             <MobileMatrixPage
-              ideas={ideas}
+              ideas={getPlacedIdeas(ideas, currentProject?.settings?.matrix_view)}
               onEditIdea={(idea) => onSetEditingIdea?.(idea)}
+              matrixConfig={resolveMatrixConfig(currentProject?.settings?.matrix_view)}
             />
           )
         }
@@ -169,7 +184,12 @@ const PageRouter: React.FC<PageRouterProps> = ({
             deleteIdea={deleteIdea}
             toggleCollapse={toggleCollapse}
             handleDragEnd={handleDragEnd}
+            bulkUpdateIdeas={bulkUpdateIdeas}
+            bulkDeleteIdeas={bulkDeleteIdeas}
+            mergeIdeas={mergeIdeas}
             loadIdeas={loadIdeas}
+            ideaFilter={ideaFilter}
+            onIdeaFilterChange={onIdeaFilterChange}
           />
         )
       
@@ -190,6 +210,12 @@ const PageRouter: React.FC<PageRouterProps> = ({
               ideas={ideas}
               currentUser={currentUser?.email || currentUser?.full_name || 'Anonymous'}
               onDataUpdated={onDataUpdated}
+              currentProject={currentProject}
+              userId={currentUser?.id}
+              onProjectRestored={(project) => {
+                onProjectSelect(project)
+                onDataUpdated()
+              }}
             />
           </div>
         )
@@ -0,0 +1,58 @@
+/**
+ * ClusterOutlineLayer — idea clusters on the matrix
+ *
+ * Draws a dashed outline in each cluster's colour around its cards, with the
+ * cluster name in the top-left corner. Sits behind the cards and ignores the
+ * pointer so dragging and the lasso work as before.
+ *
+ * Positions are card centres in percent of the matrix container; each board
+ * passes where it actually drew the cards.
+ */
+
+import React from 'react'
+import type { IdeaCluster } from '../../types'
+import { getClusterOutline, type CardPosition } from '../../utils/ideaClusters'
+
+interface ClusterOutlineLayerProps {
+  clusters: ReadonlyArray<IdeaCluster>
+  positions: ReadonlyArray<CardPosition>
+}
+
+export function ClusterOutlineLayer({ clusters, positions }: ClusterOutlineLayerProps): React.ReactElement | null {
+  if (clusters.length === 0) return null
+
+  return (
+    <div
+      className="absolute inset-0 pointer-events-none"
+      data-testid="cluster-outline-layer"
+      aria-hidden="true"
+    >
+      {clusters.map((cluster) => {
+        const outline = getClusterOutline(cluster, positions)
+        if (!outline) return null
+        return (
+          <div
+            key={cluster.id}
+            data-testid={`cluster-outline-${cluster.id}`}
+            className="absolute rounded-2xl border-2 border-dashed"
+            style={{
+              left: `${outline.left}%`,
+              top: `${outline.top}%`,
+              width: `${outline.width}%`,
+              height: `${outline.height}%`,
+              borderColor: cluster.color,
+              backgroundColor: `${cluster.color}0d`,
+            }}
+          >
+            <span
+              className="absolute -top-3 left-3 max-w-[90%] truncate rounded-full px-2 py-0.5 text-xs font-medium text-white shadow-sm"
+              style={{ backgroundColor: cluster.color }}
+            >
+              {cluster.name}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,282 @@
+/**
+ * DuplicateIdeasModal - find near-duplicate ideas and merge them
+ *
+ * Scans the board for ideas that say the same thing (embeddings, or the
+ * lexical fallback when offline) and lists each group. Per group, pick the
+ * idea to keep and which others to fold into it; the merged title and
+ * details start from buildMergedIdea and can be edited before merging.
+ * Closing the modal cancels a pending scan.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { Copy, GitMerge } from 'lucide-react'
+import type { IdeaCard } from '../../types'
+import { aiService } from '../../lib/aiService'
+import type { IdeaMergeInput } from '../../lib/repositories'
+import { buildMergedIdea, type DuplicateGroup, type SimilarityMethod } from '../../utils/ideaSimilarity'
+import { BaseModal } from '../shared/Modal'
+import { Button } from '../ui/Button'
+import { logger } from '../../utils/logger'
+
+interface DuplicateIdeasModalProps {
+  isOpen: boolean
+  ideas: IdeaCard[]
+  projectId: string
+  onClose: () => void
+  onMerge: (input: IdeaMergeInput) => Promise<IdeaCard>
+}
+
+interface MergeDraft {
+  targetId: string
+  /** Group members left out of this merge */
+  skippedIds: Set<string>
+  content: string
+  details: string
+}
+
+const inputClassName = 'w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 border-hairline-default text-graphite-900 bg-surface-primary'
+
+const groupKey = (group: DuplicateGroup) => group.ideaIds.join(',')
+
+// Default merged text; recomputed (replacing edits) when the target or the members change
+function draftFor(group: DuplicateGroup, targetId: string, skippedIds: Set<string>, ideasById: Map<string, IdeaCard>): MergeDraft {
+  const target = ideasById.get(targetId)!
+  const sources = group.ideaIds
+    .filter((id) => id !== targetId && !skippedIds.has(id))
+    .map((id) => ideasById.get(id)!)
+  return { targetId, skippedIds, ...buildMergedIdea(target, sources) }
+}
+
+const DuplicateIdeasModal: React.FC<DuplicateIdeasModalProps> = ({
+  isOpen,
+  ideas,
+  projectId,
+  onClose,
+  onMerge
+}) => {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([])
+  const [method, setMethod] = useState<SimilarityMethod>('embedding')
+  const [drafts, setDrafts] = useState<Record<string, MergeDraft>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [mergingKey, setMergingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const ideasById = new Map(ideas.map((idea) => [idea.id, idea]))
+
+  const scan = useCallback(async () => {
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    const byId = new Map(ideas.map((idea) => [idea.id, idea]))
+
+    try {
+      const result = await aiService.findDuplicateIdeas(ideas, projectId, controller.signal)
+      if (controller.signal.aborted) return
+      // Keep the earliest idea by default; later ones are usually the repeats
+      const nextDrafts: Record<string, MergeDraft> = {}
+      for (const group of result.groups) {
+        const [oldest] = [...group.ideaIds].sort((a, b) => byId.get(a)!.created_at.localeCompare(byId.get(b)!.created_at))
+        nextDrafts[groupKey(group)] = draftFor(group, oldest, new Set(), byId)
+      }
+      setGroups(result.groups)
+      setMethod(result.method)
+      setDrafts(nextDrafts)
+    } catch (err) {
+      if (controller.signal.aborted) return
+      logger.error('Failed to find duplicate ideas:', err)
+      setError(err instanceof Error ? err.message : 'Failed to find duplicate ideas')
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false)
+    }
+  }, [ideas, projectId])
+
+  // Scan once when mounted; the parent renders the modal only while it is open
+  useEffect(() => {
+    void scan()
+    return () => abortControllerRef.current?.abort()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const handleRetry = () => {
+    setError(null)
+    setIsLoading(true)
+    void scan()
+  }
+
+  const updateDraft = (group: DuplicateGroup, changes: Partial<MergeDraft>) => {
+    const key = groupKey(group)
+    setDrafts((current) => ({ ...current, [key]: { ...current[key], ...changes } }))
+  }
+
+  const chooseTarget = (group: DuplicateGroup, targetId: string) => {
+    const skippedIds = new Set(drafts[groupKey(group)].skippedIds)
+    skippedIds.delete(targetId)
+    updateDraft(group, draftFor(group, targetId, skippedIds, ideasById))
+  }
+
+  const toggleSkipped = (group: DuplicateGroup, ideaId: string) => {
+    const draft = drafts[groupKey(group)]
+    const skippedIds = new Set(draft.skippedIds)
+    if (skippedIds.has(ideaId)) skippedIds.delete(ideaId)
+    else skippedIds.add(ideaId)
+    updateDraft(group, draftFor(group, draft.targetId, skippedIds, ideasById))
+  }
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const key = groupKey(group)
+    const draft = drafts[key]
+    setMergingKey(key)
+    setError(null)
+    try {
+      await onMerge({
+        targetId: draft.targetId,
+        sourceIds: group.ideaIds.filter((id) => id !== draft.targetId && !draft.skippedIds.has(id)),
+        content: draft.content.trim(),
+        details: draft.details.trim()
+      })
+      setGroups((current) => current.filter((candidate) => groupKey(candidate) !== key))
+    } catch (err) {
+      logger.error('Failed to merge ideas:', err)
+      setError(err instanceof Error ? err.message : 'Failed to merge ideas')
+    } finally {
+      setMergingKey(null)
+    }
+  }
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Duplicate ideas"
+      size="lg"
+      loading={isLoading}
+      loadingText={`Comparing ${ideas.length} ideas...`}
+    >
+      <div className="p-6 space-y-4" data-testid="duplicate-ideas-modal">
+        <div className="flex items-center space-x-3">
+          <Copy className="w-5 h-5 text-sapphire-600" />
+          <p className="text-graphite-600">
+            Merging keeps one idea, moves votes onto it and credits every creator. Merged ideas are removed.
+            Points spent on several of them add up; other duplicate votes are given back.
+          </p>
+        </div>
+
+        {method === 'lexical' && !isLoading && (
+          <p className="text-xs text-graphite-500" data-testid="duplicate-ideas-lexical">
+            Compared by wording only; semantic matching is unavailable right now.
+          </p>
+        )}
+
+        {error && (
+          <div className="rounded-lg border border-garnet-200 bg-garnet-50 px-4 py-3 text-sm text-garnet-800" role="alert">
+            {error}
+          </div>
+        )}
+
+        {!isLoading && groups.length === 0 && !error && (
+          <p className="text-sm text-graphite-600" data-testid="duplicate-ideas-empty">
+            No near-duplicate ideas found.
+          </p>
+        )}
+
+        <ul className="space-y-4 max-h-[55vh] overflow-y-auto" data-testid="duplicate-ideas-list">
+          {groups.map((group) => {
+            const key = groupKey(group)
+            const draft = drafts[key]
+            if (!draft) return null
+            const mergeCount = group.ideaIds.filter((id) => id !== draft.targetId && !draft.skippedIds.has(id)).length
+
+            return (
+              <li key={key} className="rounded-lg border p-3 border-hairline-default space-y-3" data-testid={`duplicate-group-${group.ideaIds[0]}`}>
+                <p className="text-xs font-medium text-graphite-500">{Math.round(group.similarity * 100)}% similar</p>
+                <ul className="space-y-1">
+                  {group.ideaIds.map((id) => {
+                    const idea = ideasById.get(id)
+                    if (!idea) return null
+                    const isTarget = id === draft.targetId
+                    return (
+                      <li key={id} className="flex items-center gap-3 text-sm">
+                        <label className="flex items-center gap-2 min-w-0 flex-1">
+                          <input
+                            type="radio"
+                            name={`keep-${key}`}
+                            checked={isTarget}
+                            onChange={() => chooseTarget(group, id)}
+                            data-testid={`duplicate-keep-${id}`}
+                          />
+                          <span className={`truncate ${isTarget ? 'font-medium text-graphite-900' : 'text-graphite-700'}`}>{idea.content}</span>
+                        </label>
+                        {isTarget ? (
+                          <span className="text-xs text-graphite-500">Keep</span>
+                        ) : (
+                          <label className="flex items-center gap-1 text-xs text-graphite-600">
+                            <input
+                              type="checkbox"
+                              checked={!draft.skippedIds.has(id)}
+                              onChange={() => toggleSkipped(group, id)}
+                              data-testid={`duplicate-include-${id}`}
+                            />
+                            Merge in
+                          </label>
+                        )}
+                      </li>
+                    )
+                  })}
+                </ul>
+
+                <label className="block text-xs font-medium text-graphite-600">
+                  Merged title
+                  <input
+                    type="text"
+                    value={draft.content}
+                    onChange={(e) => updateDraft(group, { content: e.target.value })}
+                    className={`${inputClassName} mt-1`}
+                    data-testid={`duplicate-content-${group.ideaIds[0]}`}
+                  />
+                </label>
+                <label className="block text-xs font-medium text-graphite-600">
+                  Merged details
+                  <textarea
+                    value={draft.details}
+                    onChange={(e) => updateDraft(group, { details: e.target.value })}
+                    rows={4}
+                    className={`${inputClassName} mt-1`}
+                    data-testid={`duplicate-details-${group.ideaIds[0]}`}
+                  />
+                </label>
+
+                <div className="flex justify-end">
+                  <Button
+                    type="button"
+                    variant="primary"
+                    size="sm"
+                    icon={<GitMerge className="w-4 h-4" />}
+                    onClick={() => handleMerge(group)}
+                    disabled={mergeCount === 0 || !draft.content.trim() || mergingKey !== null}
+                    data-testid={`duplicate-merge-${group.ideaIds[0]}`}
+                  >
+                    {mergingKey === key ? 'Merging...' : `Merge ${mergeCount + 1} ideas`}
+                  </Button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+
+        <div className="flex justify-end gap-3 pt-2">
+          {error && groups.length === 0 ? (
+            <Button type="button" onClick={handleRetry} variant="primary">
+              Try again
+            </Button>
+          ) : null}
+          <Button type="button" onClick={onClose} variant="secondary">
+            Close
+          </Button>
+        </div>
+      </div>
+    </BaseModal>
+  )
+}
+
+export default DuplicateIdeasModal
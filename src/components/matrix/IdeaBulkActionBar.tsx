@@ -0,0 +1,243 @@
+/**
+ * IdeaBulkActionBar — actions for a multi-selection of idea cards
+ *
+ * Move to a quadrant, set priority, collapse/expand, add tags, export and
+ * delete. Every change goes out as one batched call. Ideas a collaborator is
+ * dragging (drag lock) or editing are left out of the batch and reported.
+ */
+
+import React, { useContext, useEffect, useState } from 'react'
+import { ChevronsDownUp, ChevronsUpDown, Download, Tag, Trash2, X } from 'lucide-react'
+import type { IdeaCard, User } from '../../types'
+import type { IdeaBulkUpdate } from '../../lib/repositories'
+import { ProjectRealtimeContext } from '../../contexts/ProjectRealtimeContext'
+import { useToast } from '../../contexts/ToastContext'
+import { exportToCSV } from '../../utils/csvUtils'
+import { mergeTags, planQuadrantMove } from '../../utils/ideaSelection'
+import { DEFAULT_MATRIX_CONFIG, type MatrixConfig } from '../../utils/matrixQuadrant'
+import { logger } from '../../utils/logger'
+import { Button } from '../ui/Button'
+
+// Editing locks older than this are stale (matches OptimizedIdeaCard)
+const EDIT_LOCK_TTL_MS = 5 * 60 * 1000
+
+export interface IdeaBulkActionBarProps {
+  /** Selected ideas, as displayed on the matrix */
+  ideas: IdeaCard[]
+  currentUser: User | null
+  matrixConfig?: MatrixConfig
+  onBulkUpdate: (updates: IdeaBulkUpdate[], label?: string) => Promise<number>
+  onBulkDelete: (ideaIds: string[]) => Promise<number>
+  onClearSelection: () => void
+  /** Ideas whose position is derived (score placement) and cannot be moved */
+  isPositionLocked?: (idea: IdeaCard) => boolean
+}
+
+function isEditedByOther(idea: IdeaCard, userId: string | undefined): boolean {
+  if (!idea.editing_by || idea.editing_by === userId) return false
+  return !idea.editing_at || Date.now() - new Date(idea.editing_at).getTime() <= EDIT_LOCK_TTL_MS
+}
+
+export function IdeaBulkActionBar({
+  ideas,
+  currentUser,
+  matrixConfig = DEFAULT_MATRIX_CONFIG,
+  onBulkUpdate,
+  onBulkDelete,
+  onClearSelection,
+  isPositionLocked
+}: IdeaBulkActionBarProps): React.ReactElement | null {
+  const realtime = useContext(ProjectRealtimeContext)
+  const { showError, showSuccess, showWarning } = useToast()
+  const [tagInput, setTagInput] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  // Escape clears the selection first; captured so it doesn't also exit full screen
+  const hasSelection = ideas.length > 0
+  useEffect(() => {
+    if (!hasSelection) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return
+      e.stopPropagation()
+      onClearSelection()
+    }
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [hasSelection, onClearSelection])
+
+  if (ideas.length === 0) return null
+
+  // Split the selection into ideas we may change and ones a collaborator holds
+  const partition = () => {
+    const available: IdeaCard[] = []
+    let locked = 0
+    for (const idea of ideas) {
+      if (realtime?.dragLock.isLockedByOther(idea.id) || isEditedByOther(idea, currentUser?.id)) locked++
+      else available.push(idea)
+    }
+    return { available, locked }
+  }
+
+  const run = async (label: string, action: (available: IdeaCard[]) => Promise<number>) => {
+    const { available, locked } = partition()
+    if (available.length === 0) {
+      showWarning('All selected ideas are being edited by collaborators.')
+      return
+    }
+    setBusy(true)
+    try {
+      const changed = await action(available)
+      if (locked > 0) {
+        showWarning(`${label}: skipped ${locked} idea${locked === 1 ? '' : 's'} a collaborator is editing.`)
+      } else if (changed > 0) {
+        showSuccess(`${label}: ${changed} idea${changed === 1 ? '' : 's'}`)
+      }
+    } catch (error) {
+      logger.error(`Bulk action failed (${label}):`, error)
+      showError(`${label} failed. No changes were saved.`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleMove = (quadrantId: string) => {
+    const quadrant = matrixConfig.quadrants.find((q) => q.id === quadrantId)
+    if (!quadrant) return
+    run(`Move to ${quadrant.label}`, (available) =>
+      onBulkUpdate(
+        planQuadrantMove(available.filter((idea) => !isPositionLocked?.(idea)), quadrantId, matrixConfig),
+        `Move to ${quadrant.label}`
+      )
+    )
+  }
+
+  const handlePriority = (priority: IdeaCard['priority']) => {
+    run('Set priority', (available) =>
+      onBulkUpdate(
+        available.filter((idea) => idea.priority !== priority).map((idea) => ({ id: idea.id, priority })),
+        'Set priority'
+      )
+    )
+  }
+
+  const handleCollapse = (collapsed: boolean) => {
+    const label = collapsed ? 'Collapse' : 'Expand'
+    run(label, (available) =>
+      onBulkUpdate(
+        available.filter((idea) => Boolean(idea.is_collapsed) !== collapsed).map((idea) => ({ id: idea.id, is_collapsed: collapsed })),
+        label
+      )
+    )
+  }
+
+  const handleAddTags = (e: React.FormEvent) => {
+    e.preventDefault()
+    const added = tagInput.split(',')
+    if (mergeTags([], added).length === 0) return
+    run('Add tags', async (available) => {
+      const changed = await onBulkUpdate(
+        available.flatMap((idea) => {
+          const tags = mergeTags(idea.tags, added)
+          return tags.length === (idea.tags ?? []).length ? [] : [{ id: idea.id, tags }]
+        }),
+        'Add tags'
+      )
+      setTagInput('')
+      return changed
+    })
+  }
+
+  const handleDelete = () => {
+    const count = ideas.length
+    if (!window.confirm(`Delete ${count} idea${count === 1 ? '' : 's'}? You can undo this with Ctrl+Z.`)) return
+    run('Delete', async (available) => {
+      const deleted = await onBulkDelete(available.map((idea) => idea.id))
+      onClearSelection()
+      return deleted
+    })
+  }
+
+  return (
+    <div
+      className="mb-4 flex flex-wrap items-center gap-3 rounded-lg border border-sapphire-200 bg-sapphire-50 px-4 py-3 text-sm text-graphite-800 shadow-sm"
+      role="toolbar"
+      aria-label="Bulk actions for selected ideas"
+      data-testid="idea-bulk-action-bar"
+    >
+      <span className="font-semibold" aria-live="polite" data-testid="idea-bulk-count">
+        {ideas.length} selected
+      </span>
+
+      <select
+        value=""
+        onChange={(e) => handleMove(e.target.value)}
+        disabled={busy}
+        className="px-2 py-1 border rounded border-hairline-default bg-surface-primary"
+        aria-label="Move selected ideas to quadrant"
+        data-testid="idea-bulk-move"
+      >
+        <option value="" disabled>Move to…</option>
+        {matrixConfig.quadrants.map((quadrant) => (
+          <option key={quadrant.id} value={quadrant.id}>{quadrant.label}</option>
+        ))}
+      </select>
+
+      <select
+        value=""
+        onChange={(e) => handlePriority(e.target.value as IdeaCard['priority'])}
+        disabled={busy}
+        className="px-2 py-1 border rounded border-hairline-default bg-surface-primary"
+        aria-label="Set priority of selected ideas"
+        data-testid="idea-bulk-priority"
+      >
+        <option value="" disabled>Priority…</option>
+        <option value="low">🟢 Low Priority</option>
+        <option value="moderate">🟡 Moderate</option>
+        <option value="high">🔴 High Priority</option>
+        <option value="strategic">🔵 Strategic</option>
+        <option value="innovation">🟣 Innovation</option>
+      </select>
+
+      <Button onClick={() => handleCollapse(true)} variant="secondary" size="sm" icon={<ChevronsDownUp className="w-4 h-4" />} disabled={busy} data-testid="idea-bulk-collapse">
+        Collapse
+      </Button>
+      <Button onClick={() => handleCollapse(false)} variant="secondary" size="sm" icon={<ChevronsUpDown className="w-4 h-4" />} disabled={busy} data-testid="idea-bulk-expand">
+        Expand
+      </Button>
+
+      <form onSubmit={handleAddTags} className="flex items-center gap-1">
+        <input
+          type="text"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          placeholder="tag, another tag"
+          className="w-36 px-2 py-1 border rounded border-hairline-default bg-surface-primary"
+          aria-label="Tags to add to selected ideas"
+          data-testid="idea-bulk-tag-input"
+        />
+        <Button type="submit" variant="secondary" size="sm" icon={<Tag className="w-4 h-4" />} disabled={busy || !tagInput.trim()} data-testid="idea-bulk-tag">
+          Tag
+        </Button>
+      </form>
+
+      <Button onClick={() => exportToCSV(ideas)} variant="secondary" size="sm" icon={<Download className="w-4 h-4" />} data-testid="idea-bulk-export">
+        Export
+      </Button>
+      <Button onClick={handleDelete} variant="danger" size="sm" icon={<Trash2 className="w-4 h-4" />} disabled={busy} data-testid="idea-bulk-delete">
+        Delete
+      </Button>
+
+      <button
+        type="button"
+        onClick={onClearSelection}
+        className="ml-auto p-1 rounded text-graphite-500 hover:text-graphite-800"
+        aria-label="Clear selection"
+        data-testid="idea-bulk-clear"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
+
+export default IdeaBulkActionBar
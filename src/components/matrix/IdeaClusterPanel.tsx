@@ -0,0 +1,254 @@
+/**
+ * IdeaClusterPanel — named themes grouping ideas on the matrix
+ *
+ * "Auto-cluster" asks the AI to group the board into themes; the result
+ * replaces the current clusters. Clusters can be renamed, deleted and
+ * adjusted by moving the selected cards in or out. Clusters are saved in
+ * project settings for the whole team, outlined on the board, and used as
+ * themes by insights and roadmap generation. Collaborators who cannot edit
+ * the project's settings see them read-only.
+ */
+
+import React, { useEffect, useRef, useState } from 'react'
+import { Layers, Plus, Sparkles, Trash2, X } from 'lucide-react'
+import type { IdeaCard, IdeaCluster, Project, User } from '../../types'
+import { aiService } from '../../lib/aiService'
+import { MAX_IDEAS_PER_CLUSTERING } from '../../lib/ai'
+import { canEditProjectSettings, withIdeaClusters } from '../../lib/config/projectSettings'
+import { DatabaseService } from '../../lib/database'
+import { useToast } from '../../contexts/ToastContext'
+import { clusterColor, moveIdeasToCluster } from '../../utils/ideaClusters'
+import { logger } from '../../utils/logger'
+import { Button } from '../ui/Button'
+
+const MAX_CLUSTER_NAME_LENGTH = 60
+
+export interface IdeaClusterPanelProps {
+  /** Ideas on the board */
+  ideas: IdeaCard[]
+  /** Saved clusters, already resolved against the board */
+  clusters: IdeaCluster[]
+  /** Ideas picked on the board, for adding to or removing from a cluster */
+  selectedIdeas: IdeaCard[]
+  project: Project
+  onProjectChange: (project: Project) => void
+  currentUser: User | null
+}
+
+export function IdeaClusterPanel({
+  ideas,
+  clusters,
+  selectedIdeas,
+  project,
+  onProjectChange,
+  currentUser
+}: IdeaClusterPanelProps): React.ReactElement {
+  const { showError, showSuccess } = useToast()
+  const [busy, setBusy] = useState(false)
+  const [isClustering, setIsClustering] = useState(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // Cancel a pending request when the panel closes
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  const canEdit = canEditProjectSettings(project, currentUser)
+  const ideasById = new Map(ideas.map((idea) => [idea.id, idea]))
+  const selectedIds = selectedIdeas.map((idea) => idea.id)
+
+  const persistClusters = async (next: IdeaCluster[]) => {
+    setBusy(true)
+    try {
+      const updated = await DatabaseService.updateProject(project.id, {
+        settings: withIdeaClusters(project.settings, next)
+      })
+      if (updated) onProjectChange(updated)
+      return Boolean(updated)
+    } catch (error) {
+      logger.error('Failed to save idea clusters:', error)
+      showError('Failed to save clusters')
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleAutoCluster = async () => {
+    if (clusters.length > 0 && !window.confirm('Replace the current clusters with AI-suggested themes?')) return
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    setIsClustering(true)
+    try {
+      const next = await aiService.clusterIdeas(ideas, project, controller.signal)
+      if (controller.signal.aborted) return
+      if (await persistClusters(next)) showSuccess(`Grouped ideas into ${next.length} themes`)
+    } catch (error) {
+      if (controller.signal.aborted) return
+      logger.error('Failed to cluster ideas:', error)
+      showError(error instanceof Error ? error.message : 'Failed to cluster ideas')
+    } finally {
+      if (!controller.signal.aborted) setIsClustering(false)
+    }
+  }
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort()
+    setIsClustering(false)
+  }
+
+  const handleRename = (cluster: IdeaCluster, value: string) => {
+    const name = value.trim().slice(0, MAX_CLUSTER_NAME_LENGTH)
+    if (!name || name === cluster.name) return
+    void persistClusters(clusters.map((c) => (c.id === cluster.id ? { ...c, name } : c)))
+  }
+
+  const handleDelete = (cluster: IdeaCluster) => {
+    if (!window.confirm(`Delete cluster "${cluster.name}"? Its ideas stay on the board.`)) return
+    void persistClusters(clusters.filter((c) => c.id !== cluster.id))
+  }
+
+  const handleNewFromSelection = () => {
+    const cluster: IdeaCluster = {
+      id: crypto.randomUUID(),
+      name: `Theme ${clusters.length + 1}`,
+      idea_ids: [],
+      color: clusterColor(clusters.length)
+    }
+    void persistClusters(moveIdeasToCluster([...clusters, cluster], selectedIds, cluster.id))
+  }
+
+  return (
+    <section
+      className="mb-4 rounded-lg border border-hairline-default bg-surface-primary px-4 py-3 text-sm text-graphite-800 space-y-3"
+      aria-label="Idea clusters"
+      data-testid="idea-cluster-panel"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <Layers className="w-4 h-4 text-graphite-500" aria-hidden="true" />
+        <span className="font-medium mr-auto">Clusters</span>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          icon={<Plus className="w-4 h-4" />}
+          onClick={handleNewFromSelection}
+          disabled={!canEdit || busy || isClustering || selectedIds.length === 0}
+          title="Group the selected ideas into a new cluster"
+          data-testid="idea-cluster-new"
+        >
+          New from selection
+        </Button>
+        {isClustering ? (
+          <Button type="button" variant="secondary" size="sm" onClick={handleCancel} data-testid="idea-cluster-cancel">
+            Cancel
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            variant="sapphire"
+            size="sm"
+            icon={<Sparkles className="w-4 h-4" />}
+            onClick={handleAutoCluster}
+            disabled={!canEdit || busy || ideas.length < 2}
+            data-testid="idea-cluster-auto"
+          >
+            Auto-cluster
+          </Button>
+        )}
+      </div>
+
+      {!canEdit && (
+        <p className="text-xs text-graphite-500" data-testid="idea-cluster-read-only">
+          Only the project owner can change clusters.
+        </p>
+      )}
+      {isClustering && (
+        <p className="text-graphite-600" role="status">
+          Grouping {Math.min(ideas.length, MAX_IDEAS_PER_CLUSTERING)} ideas into themes...
+        </p>
+      )}
+      {ideas.length > MAX_IDEAS_PER_CLUSTERING && !isClustering && (
+        <p className="text-xs text-graphite-500">
+          Auto-cluster groups the first {MAX_IDEAS_PER_CLUSTERING} ideas; add the rest by selecting them.
+        </p>
+      )}
+
+      {clusters.length === 0 ? (
+        <p className="text-graphite-600" data-testid="idea-cluster-empty">
+          No clusters yet. Auto-cluster the board, or select ideas and group them.
+        </p>
+      ) : (
+        <ul className="space-y-2" data-testid="idea-cluster-list">
+          {clusters.map((cluster) => (
+            <li
+              key={cluster.id}
+              className="rounded-md border border-hairline-default px-3 py-2 space-y-2"
+              data-testid={`idea-cluster-${cluster.id}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: cluster.color }} aria-hidden="true" />
+                <input
+                  // Re-mount when the saved name changes so the field shows it
+                  key={cluster.name}
+                  type="text"
+                  defaultValue={cluster.name}
+                  maxLength={MAX_CLUSTER_NAME_LENGTH}
+                  onBlur={(e) => handleRename(cluster, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur()
+                  }}
+                  disabled={!canEdit || busy}
+                  className="flex-1 min-w-0 px-2 py-1 border rounded border-hairline-default bg-surface-primary text-graphite-900 font-medium"
+                  aria-label={`Cluster name ${cluster.name}`}
+                  data-testid={`idea-cluster-name-${cluster.id}`}
+                />
+                <span className="text-xs text-graphite-500">{cluster.idea_ids.length}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => void persistClusters(moveIdeasToCluster(clusters, selectedIds, cluster.id))}
+                  disabled={!canEdit || busy || selectedIds.length === 0}
+                  data-testid={`idea-cluster-add-${cluster.id}`}
+                >
+                  Add selected
+                </Button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(cluster)}
+                  disabled={!canEdit || busy}
+                  className="text-graphite-400 hover:text-garnet-600"
+                  aria-label={`Delete cluster ${cluster.name}`}
+                  data-testid={`idea-cluster-delete-${cluster.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {cluster.idea_ids.map((id) => (
+                  <span
+                    key={id}
+                    className="inline-flex items-center gap-1 max-w-[16rem] px-2 py-0.5 rounded-full text-xs bg-graphite-50 text-graphite-700 border border-hairline-default"
+                  >
+                    <span className="truncate">{ideasById.get(id)?.content ?? id}</span>
+                    <button
+                      type="button"
+                      onClick={() => void persistClusters(moveIdeasToCluster(clusters, [id], null))}
+                      disabled={!canEdit || busy}
+                      className="text-graphite-400 hover:text-graphite-700"
+                      aria-label={`Remove ${ideasById.get(id)?.content ?? 'idea'} from ${cluster.name}`}
+                      data-testid={`idea-cluster-remove-${cluster.id}-${id}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+export default IdeaClusterPanel
@@ -0,0 +1,293 @@
+/**
+ * IdeaFilterBar — filters the matrix by tag, priority, quadrant, creator and
+ * created date
+ *
+ * Non-matching cards stay on the board, dimmed. The filter lives in the URL,
+ * so a link to the matrix reproduces it; named filters are saved in project
+ * settings for the whole team, so only those who can edit the project's
+ * settings can save or delete them.
+ */
+
+import React, { useState } from 'react'
+import { Bookmark, Filter, Link2, Trash2, X } from 'lucide-react'
+import type { IdeaCard, IdeaFilter, Project, SavedIdeaFilter, User } from '../../types'
+import { canEditProjectSettings, withSavedIdeaFilters } from '../../lib/config/projectSettings'
+import { DatabaseService } from '../../lib/database'
+import { useToast } from '../../contexts/ToastContext'
+import { collectIdeaCreators, collectIdeaTags, isIdeaFilterActive, isSameIdeaFilter, normalizeIdeaFilter } from '../../utils/ideaFilter'
+import { DEFAULT_MATRIX_CONFIG, type MatrixConfig } from '../../utils/matrixQuadrant'
+import { logger } from '../../utils/logger'
+import { Button } from '../ui/Button'
+
+const PRIORITIES: ReadonlyArray<IdeaCard['priority']> = ['low', 'moderate', 'high', 'strategic', 'innovation']
+
+const controlClassName = 'px-2 py-1 border rounded border-hairline-default bg-surface-primary text-graphite-900'
+
+export interface IdeaFilterBarProps {
+  /** Ideas on the board, used for the tag and creator options */
+  ideas: IdeaCard[]
+  filter: IdeaFilter
+  onFilterChange: (filter: IdeaFilter) => void
+  /** Number of ideas matching the filter */
+  matchCount: number
+  project: Project
+  onProjectChange: (project: Project) => void
+  currentUser: User | null
+  matrixConfig?: MatrixConfig
+}
+
+export function IdeaFilterBar({
+  ideas,
+  filter,
+  onFilterChange,
+  matchCount,
+  project,
+  onProjectChange,
+  currentUser,
+  matrixConfig = DEFAULT_MATRIX_CONFIG
+}: IdeaFilterBarProps): React.ReactElement {
+  const { showError, showSuccess } = useToast()
+  const [saveName, setSaveName] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const savedFilters = project.settings?.saved_idea_filters ?? []
+  const canSave = canEditProjectSettings(project, currentUser)
+  const activeSaved = savedFilters.find((saved) => isSameIdeaFilter(saved.filter, filter))
+  const isActive = isIdeaFilterActive(filter)
+  const selectedTags = filter.tags ?? []
+  const tagOptions = collectIdeaTags(ideas, project.settings?.idea_tags)
+    .filter((tag) => !selectedTags.some((t) => t.toLowerCase() === tag.toLowerCase()))
+  // Keep a creator from a shared link selectable even if none of their ideas are on the board
+  const creators = collectIdeaCreators(ideas)
+  if (filter.createdBy && !creators.includes(filter.createdBy)) creators.push(filter.createdBy)
+
+  const update = (patch: Partial<IdeaFilter>) => onFilterChange(normalizeIdeaFilter({ ...filter, ...patch }))
+
+  const persistSavedFilters = async (next: SavedIdeaFilter[]) => {
+    setBusy(true)
+    try {
+      const updated = await DatabaseService.updateProject(project.id, {
+        settings: withSavedIdeaFilters(project.settings, next)
+      })
+      if (updated) onProjectChange(updated)
+      return Boolean(updated)
+    } catch (error) {
+      logger.error('Failed to save matrix filters:', error)
+      showError('Failed to save filter')
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = saveName?.trim()
+    if (!name) return
+    const saved: SavedIdeaFilter = {
+      id: crypto.randomUUID(),
+      name,
+      filter: normalizeIdeaFilter(filter),
+      created_by: currentUser?.id,
+      created_at: new Date().toISOString()
+    }
+    // A filter saved under an existing name replaces it
+    const next = [...savedFilters.filter((s) => s.name.toLowerCase() !== name.toLowerCase()), saved]
+    if (await persistSavedFilters(next)) {
+      setSaveName(null)
+      showSuccess(`Saved filter "${name}"`)
+    }
+  }
+
+  const handleDeleteSaved = async (saved: SavedIdeaFilter) => {
+    if (!window.confirm(`Delete saved filter "${saved.name}"?`)) return
+    await persistSavedFilters(savedFilters.filter((s) => s.id !== saved.id))
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      showSuccess('Filter link copied')
+    } catch (error) {
+      logger.error('Failed to copy filter link:', error)
+      showError('Could not copy the link')
+    }
+  }
+
+  return (
+    <div
+      className="mb-4 flex flex-wrap items-center gap-2 rounded-lg border border-hairline-default bg-surface-primary px-4 py-3 text-sm text-graphite-800"
+      role="search"
+      aria-label="Filter ideas"
+      data-testid="idea-filter-bar"
+    >
+      <Filter className="w-4 h-4 text-graphite-500" aria-hidden="true" />
+
+      {selectedTags.map((tag) => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-sapphire-50 text-sapphire-800 border border-sapphire-200"
+        >
+          {tag}
+          <button
+            type="button"
+            onClick={() => update({ tags: selectedTags.filter((t) => t !== tag) })}
+            className="text-sapphire-500 hover:text-sapphire-800"
+            aria-label={`Remove tag filter ${tag}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      <select
+        value=""
+        onChange={(e) => e.target.value && update({ tags: [...selectedTags, e.target.value] })}
+        className={controlClassName}
+        aria-label="Filter by tag"
+        disabled={tagOptions.length === 0}
+        data-testid="idea-filter-tag"
+      >
+        <option value="">Tag…</option>
+        {tagOptions.map((tag) => (
+          <option key={tag} value={tag}>{tag}</option>
+        ))}
+      </select>
+
+      <select
+        value={filter.priority ?? ''}
+        onChange={(e) => update({ priority: (e.target.value || undefined) as IdeaCard['priority'] | undefined })}
+        className={`${controlClassName} capitalize`}
+        aria-label="Filter by priority"
+        data-testid="idea-filter-priority"
+      >
+        <option value="">Any priority</option>
+        {PRIORITIES.map((priority) => (
+          <option key={priority} value={priority}>{priority}</option>
+        ))}
+      </select>
+
+      <select
+        value={filter.quadrant ?? ''}
+        onChange={(e) => update({ quadrant: e.target.value || undefined })}
+        className={controlClassName}
+        aria-label="Filter by quadrant"
+        data-testid="idea-filter-quadrant"
+      >
+        <option value="">Any quadrant</option>
+        {matrixConfig.quadrants.map((quadrant) => (
+          <option key={quadrant.id} value={quadrant.id}>{quadrant.label}</option>
+        ))}
+      </select>
+
+      <select
+        value={filter.createdBy ?? ''}
+        onChange={(e) => update({ createdBy: e.target.value || undefined })}
+        className={controlClassName}
+        aria-label="Filter by creator"
+        data-testid="idea-filter-creator"
+      >
+        <option value="">Anyone</option>
+        {creators.map((id) => (
+          <option key={id} value={id}>{id === currentUser?.id ? 'You' : `Collaborator ${id.slice(0, 8)}`}</option>
+        ))}
+      </select>
+
+      <label className="flex items-center gap-1 text-graphite-600">
+        From
+        <input
+          type="date"
+          value={filter.createdAfter ?? ''}
+          max={filter.createdBefore}
+          onChange={(e) => update({ createdAfter: e.target.value || undefined })}
+          className={controlClassName}
+          data-testid="idea-filter-from"
+        />
+      </label>
+      <label className="flex items-center gap-1 text-graphite-600">
+        To
+        <input
+          type="date"
+          value={filter.createdBefore ?? ''}
+          min={filter.createdAfter}
+          onChange={(e) => update({ createdBefore: e.target.value || undefined })}
+          className={controlClassName}
+          data-testid="idea-filter-to"
+        />
+      </label>
+
+      {isActive && (
+        <>
+          <span className="font-medium" aria-live="polite" data-testid="idea-filter-count">
+            {matchCount} of {ideas.length} match
+          </span>
+          <Button onClick={() => onFilterChange({})} variant="ghost" size="sm" icon={<X className="w-4 h-4" />} data-testid="idea-filter-clear">
+            Clear
+          </Button>
+        </>
+      )}
+
+      <div className="ml-auto flex items-center gap-2">
+        {savedFilters.length > 0 && (
+          <select
+            value={activeSaved?.id ?? ''}
+            onChange={(e) => {
+              const saved = savedFilters.find((s) => s.id === e.target.value)
+              if (saved) onFilterChange(normalizeIdeaFilter(saved.filter))
+            }}
+            className={controlClassName}
+            aria-label="Saved filters"
+            data-testid="idea-filter-saved"
+          >
+            <option value="" disabled>Saved filters…</option>
+            {savedFilters.map((saved) => (
+              <option key={saved.id} value={saved.id}>{saved.name}</option>
+            ))}
+          </select>
+        )}
+        {canSave && activeSaved && (
+          <button
+            type="button"
+            onClick={() => handleDeleteSaved(activeSaved)}
+            disabled={busy}
+            className="p-1 rounded text-graphite-500 hover:text-red-600"
+            aria-label={`Delete saved filter ${activeSaved.name}`}
+            data-testid="idea-filter-delete-saved"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+        {canSave && isActive && !activeSaved && (
+          saveName === null ? (
+            <Button onClick={() => setSaveName('')} variant="secondary" size="sm" icon={<Bookmark className="w-4 h-4" />} data-testid="idea-filter-save">
+              Save
+            </Button>
+          ) : (
+            <form onSubmit={handleSave} className="flex items-center gap-1">
+              <input
+                type="text"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setSaveName(null)}
+                placeholder="Filter name"
+                className={`w-36 ${controlClassName}`}
+                aria-label="Saved filter name"
+                autoFocus
+                data-testid="idea-filter-save-name"
+              />
+              <Button type="submit" variant="secondary" size="sm" disabled={busy || !saveName.trim()} data-testid="idea-filter-save-confirm">
+                Save
+              </Button>
+            </form>
+          )
+        )}
+        {isActive && (
+          <Button onClick={handleCopyLink} variant="secondary" size="sm" icon={<Link2 className="w-4 h-4" />} data-testid="idea-filter-copy-link">
+            Copy link
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default IdeaFilterBar
@@ -0,0 +1,200 @@
+/**
+ * IdeaPlacementModal - review AI placement suggestions ("place for me")
+ *
+ * Asks the AI for a position and a one-line rationale per idea, then lists
+ * each suggestion with the quadrant it moves from and to. Every suggestion is
+ * accepted by default and can be rejected per card; only accepted positions
+ * are handed to onApply. Closing the modal cancels a pending request.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { ArrowRight, Check, Wand2, X } from 'lucide-react'
+import type { IdeaCard, Project } from '../../types'
+import { aiService } from '../../lib/aiService'
+import type { IdeaPlacementSuggestion } from '../../lib/ai'
+import { DEFAULT_MATRIX_CONFIG, getMatrixCell, type MatrixConfig } from '../../utils/matrixQuadrant'
+import { BaseModal } from '../shared/Modal'
+import { Button } from '../ui/Button'
+import { logger } from '../../utils/logger'
+
+export interface AcceptedPlacement {
+  ideaId: string
+  x: number
+  y: number
+}
+
+interface IdeaPlacementModalProps {
+  isOpen: boolean
+  /** Ideas to place */
+  ideas: IdeaCard[]
+  /** Everything on the matrix, sent as calibration context */
+  board: IdeaCard[]
+  project: Project
+  matrixConfig?: MatrixConfig
+  onClose: () => void
+  onApply: (placements: AcceptedPlacement[]) => Promise<void>
+}
+
+const IdeaPlacementModal: React.FC<IdeaPlacementModalProps> = ({
+  isOpen,
+  ideas,
+  board,
+  project,
+  matrixConfig = DEFAULT_MATRIX_CONFIG,
+  onClose,
+  onApply
+}) => {
+  const [suggestions, setSuggestions] = useState<IdeaPlacementSuggestion[]>([])
+  const [rejectedIds, setRejectedIds] = useState<Set<string>>(() => new Set())
+  const [isLoading, setIsLoading] = useState(true)
+  const [isApplying, setIsApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const requestSuggestions = useCallback(async () => {
+    abortControllerRef.current?.abort()
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    try {
+      const result = await aiService.suggestIdeaPlacements(ideas, board, project, matrixConfig, controller.signal)
+      if (controller.signal.aborted) return
+      setSuggestions(result)
+      setRejectedIds(new Set())
+    } catch (err) {
+      if (controller.signal.aborted) return
+      logger.error('Failed to get AI placement suggestions:', err)
+      setError(err instanceof Error ? err.message : 'Failed to get placement suggestions')
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false)
+    }
+  }, [ideas, board, project, matrixConfig])
+
+  // Fetch once when mounted; the parent renders the modal only while it is open
+  useEffect(() => {
+    void requestSuggestions()
+    return () => abortControllerRef.current?.abort()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const handleRetry = () => {
+    setError(null)
+    setIsLoading(true)
+    void requestSuggestions()
+  }
+
+  const toggleRejected = (ideaId: string) => {
+    setRejectedIds((current) => {
+      const next = new Set(current)
+      if (next.has(ideaId)) next.delete(ideaId)
+      else next.add(ideaId)
+      return next
+    })
+  }
+
+  const accepted = suggestions.filter((suggestion) => !rejectedIds.has(suggestion.ideaId))
+
+  const handleApply = async () => {
+    setIsApplying(true)
+    try {
+      await onApply(accepted.map(({ ideaId, x, y }) => ({ ideaId, x, y })))
+      onClose()
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const ideasById = new Map(ideas.map((idea) => [idea.id, idea]))
+
+  return (
+    <BaseModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Place ideas with AI"
+      size="lg"
+      loading={isLoading}
+      loadingText={`Scoring ${ideas.length} idea${ideas.length === 1 ? '' : 's'} against ${project.name}...`}
+    >
+      <div className="p-6 space-y-4" data-testid="idea-placement-modal">
+        <div className="flex items-center space-x-3">
+          <Wand2 className="w-5 h-5 text-sapphire-600" />
+          <p className="text-graphite-600">
+            Review each suggested position. Rejected cards stay where they are.
+          </p>
+        </div>
+
+        {error ? (
+          <div className="rounded-lg border border-garnet-200 bg-garnet-50 px-4 py-3 text-sm text-garnet-800" role="alert">
+            {error}
+          </div>
+        ) : (
+          <ul className="space-y-3 max-h-[50vh] overflow-y-auto" data-testid="idea-placement-list">
+            {suggestions.map((suggestion) => {
+              const idea = ideasById.get(suggestion.ideaId)
+              if (!idea) return null
+              const from = getMatrixCell(idea.x, idea.y, matrixConfig)
+              const to = getMatrixCell(suggestion.x, suggestion.y, matrixConfig)
+              const isRejected = rejectedIds.has(suggestion.ideaId)
+
+              return (
+                <li
+                  key={suggestion.ideaId}
+                  className={`rounded-lg border p-3 border-hairline-default ${isRejected ? 'opacity-50' : ''}`}
+                  data-testid={`idea-placement-${suggestion.ideaId}`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-graphite-900 truncate">{idea.content}</p>
+                      <p className="mt-1 flex items-center gap-2 text-xs">
+                        <span style={{ color: from.color }}>{from.label}</span>
+                        <ArrowRight className="w-3 h-3 text-graphite-400" />
+                        <span className="font-semibold" style={{ color: to.color }}>{to.label}</span>
+                      </p>
+                      {suggestion.rationale && (
+                        <p className="mt-1 text-sm text-graphite-600">{suggestion.rationale}</p>
+                      )}
+                    </div>
+                    <Button
+                      type="button"
+                      variant={isRejected ? 'secondary' : 'primary'}
+                      size="sm"
+                      icon={isRejected ? <X className="w-4 h-4" /> : <Check className="w-4 h-4" />}
+                      aria-pressed={!isRejected}
+                      onClick={() => toggleRejected(suggestion.ideaId)}
+                      data-testid={`idea-placement-toggle-${suggestion.ideaId}`}
+                    >
+                      {isRejected ? 'Rejected' : 'Accepted'}
+                    </Button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button type="button" onClick={onClose} variant="secondary">
+            Cancel
+          </Button>
+          {error ? (
+            <Button type="button" onClick={handleRetry} variant="primary">
+              Try again
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              onClick={handleApply}
+              variant="primary"
+              disabled={accepted.length === 0 || isApplying}
+              data-testid="idea-placement-apply"
+            >
+              {isApplying ? 'Applying...' : `Apply ${accepted.length} placement${accepted.length === 1 ? '' : 's'}`}
+            </Button>
+          )}
+        </div>
+      </div>
+    </BaseModal>
+  )
+}
+
+export default IdeaPlacementModal
@@ -0,0 +1,94 @@
+/**
+ * IdeaScoreFields - RICE / ICE / WSJF score inputs shared by the add and edit idea modals
+ */
+
+import React, { useState } from 'react'
+import { Calculator } from 'lucide-react'
+import type { IdeaScores, ScoringFramework } from '../../types'
+import {
+  SCORING_FRAMEWORKS,
+  SCORING_FRAMEWORK_IDS,
+  calculateIdeaScore,
+  formatIdeaScore
+} from '../../utils/ideaScoring'
+
+interface IdeaScoreFieldsProps {
+  scores: IdeaScores
+  onChange: (scores: IdeaScores) => void
+  /** Framework tab shown first, usually the project's configured framework */
+  defaultFramework?: ScoringFramework
+}
+
+const inputClassName = 'w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 border-hairline-default text-graphite-900 bg-surface-primary'
+
+const IdeaScoreFields: React.FC<IdeaScoreFieldsProps> = ({ scores, onChange, defaultFramework = 'rice' }) => {
+  const [framework, setFramework] = useState<ScoringFramework>(defaultFramework)
+  const definition = SCORING_FRAMEWORKS[framework]
+  const values = (scores[framework] || {}) as Record<string, number | undefined>
+  const score = calculateIdeaScore(scores, framework)
+
+  const handleFieldChange = (key: string, raw: string) => {
+    const parsed = raw === '' ? undefined : Number(raw)
+    onChange({
+      ...scores,
+      [framework]: {
+        ...values,
+        [key]: parsed !== undefined && Number.isFinite(parsed) ? parsed : undefined
+      }
+    })
+  }
+
+  return (
+    <div className="rounded-lg p-4 border border-hairline-default space-y-3" data-testid="idea-score-fields">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Calculator className="w-4 h-4 text-sapphire-600" />
+          <span className="text-sm font-medium text-graphite-700">Scoring</span>
+        </div>
+        <div className="flex rounded-md border border-hairline-default overflow-hidden" role="tablist">
+          {SCORING_FRAMEWORK_IDS.map((id) => (
+            <button
+              key={id}
+              type="button"
+              role="tab"
+              aria-selected={framework === id}
+              onClick={() => setFramework(id)}
+              className={`px-3 py-1 text-xs font-medium ${framework === id ? 'bg-sapphire-600 text-white' : 'bg-surface-primary text-graphite-600'}`}
+              data-testid={`idea-score-tab-${id}`}
+            >
+              {SCORING_FRAMEWORKS[id].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {definition.fields.map((field) => (
+          <label key={field.key} className="block text-xs font-medium text-graphite-600">
+            {field.label}
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={values[field.key] ?? ''}
+              onChange={(e) => handleFieldChange(field.key, e.target.value)}
+              className={`${inputClassName} mt-1`}
+              data-testid={`idea-score-${framework}-${field.key}`}
+            />
+            <span className="block mt-1 font-normal text-graphite-500">{field.hint}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-graphite-600">
+        <span>{definition.formula}</span>
+        <span className="font-semibold text-graphite-900" data-testid="idea-score-result">
+          {score === null ? 'Incomplete' : `${definition.label} score: ${formatIdeaScore(score)}`}
+        </span>
+      </div>
+    </div>
+  )
+}
+
+export default IdeaScoreFields
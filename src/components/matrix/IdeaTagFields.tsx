@@ -0,0 +1,90 @@
+/**
+ * IdeaTagFields - tag editor shared by the add and edit idea modals
+ *
+ * Tags are free-form; the project's tag vocabulary and tags already used on
+ * the board are offered as suggestions.
+ */
+
+import React, { useState } from 'react'
+import { Tag, X } from 'lucide-react'
+import { mergeTags } from '../../utils/ideaSelection'
+
+interface IdeaTagFieldsProps {
+  tags: string[]
+  onChange: (tags: string[]) => void
+  /** Project tags first, then tags found on other ideas */
+  suggestions?: string[]
+}
+
+const inputClassName = 'w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 border-hairline-default text-graphite-900 bg-surface-primary'
+
+const IdeaTagFields: React.FC<IdeaTagFieldsProps> = ({ tags, onChange, suggestions = [] }) => {
+  const [draft, setDraft] = useState('')
+  const remaining = suggestions.filter((tag) => !tags.some((t) => t.toLowerCase() === tag.toLowerCase()))
+
+  const commitDraft = () => {
+    if (!draft.trim()) return
+    onChange(mergeTags(tags, draft.split(',')))
+    setDraft('')
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      // Keep Enter from submitting the surrounding form
+      e.preventDefault()
+      commitDraft()
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1))
+    }
+  }
+
+  return (
+    <div data-testid="idea-tag-fields">
+      <label className="flex items-center gap-2 text-sm font-medium mb-2 text-graphite-700" htmlFor="idea-tag-input">
+        <Tag className="w-4 h-4 text-sapphire-600" />
+        Tags
+      </label>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-sapphire-50 text-sapphire-800 border border-sapphire-200"
+            >
+              {tag}
+              <button
+                type="button"
+                onClick={() => onChange(tags.filter((t) => t !== tag))}
+                className="text-sapphire-500 hover:text-sapphire-800"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <input
+        id="idea-tag-input"
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={commitDraft}
+        list={remaining.length > 0 ? 'idea-tag-suggestions' : undefined}
+        placeholder="Add a tag and press Enter"
+        className={inputClassName}
+        data-testid="idea-tag-input"
+      />
+      {remaining.length > 0 && (
+        <datalist id="idea-tag-suggestions">
+          {remaining.map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+      )}
+    </div>
+  )
+}
+
+export default IdeaTagFields
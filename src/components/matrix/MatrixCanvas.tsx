@@ -12,11 +12,12 @@
 import React, { useMemo } from 'react'
 import { useDroppable, type DragEndEvent } from '@dnd-kit/core'
 
-import type { IdeaCard, User } from '../../types'
+import type { IdeaCard, IdeaCluster, User } from '../../types'
 import { useLogger } from '../../lib/logging'
 import { MatrixGrid } from './MatrixGrid'
 import { MatrixQuadrants } from './MatrixQuadrants'
 import { MatrixCards } from './MatrixCards'
+import { ClusterOutlineLayer } from './ClusterOutlineLayer'
 import {
   // DEFAULT_MATRIX_DIMENSIONS, // Currently unused
   normalizedToPixel,
@@ -30,6 +31,7 @@ import {
 } from '../../lib/matrix/collision'
 import { Z_INDEX } from '../../lib/matrix/zIndex'
 import { performanceMonitor } from '../../lib/matrix/performance'
+import { DEFAULT_MATRIX_CONFIG, type MatrixConfig } from '../../utils/matrixQuadrant'
 
 interface MatrixCanvasProps {
   ideas: IdeaCard[]
@@ -40,8 +42,13 @@ interface MatrixCanvasProps {
   onDeleteIdea: (ideaId: string) => void
   onToggleCollapse: (ideaId: string, collapsed?: boolean) => void
   onDragEnd?: (event: DragEndEvent) => void
+  matrixConfig?: MatrixConfig
+  /** Idea clusters to outline behind the cards */
+  clusters?: ReadonlyArray<IdeaCluster>
 }
 
+const NO_CLUSTERS: ReadonlyArray<IdeaCluster> = []
+
 export const MatrixCanvas: React.FC<MatrixCanvasProps> = ({
   ideas,
   currentUser,
@@ -50,7 +57,9 @@ export const MatrixCanvas: React.FC<MatrixCanvasProps> = ({
   onEditIdea,
   onDeleteIdea,
   onToggleCollapse,
-  onDragEnd
+  onDragEnd,
+  matrixConfig = DEFAULT_MATRIX_CONFIG,
+  clusters = NO_CLUSTERS
 }) => {
   const logger = useLogger('MatrixCanvas')
 
@@ -178,7 +187,7 @@ export const MatrixCanvas: React.FC<MatrixCanvasProps> = ({
               maxWidth: '600px'
             }}
           >
-            Navigate strategic decisions through dimensional analysis • Ideas positioned by implementation complexity and strategic value
+            Navigate strategic decisions through dimensional analysis • Ideas positioned by {matrixConfig.xAxis.label.toLowerCase()} and {matrixConfig.yAxis.label.toLowerCase()}
           </p>
         </div>
       </header>
@@ -193,7 +202,7 @@ export const MatrixCanvas: React.FC<MatrixCanvasProps> = ({
           aria-label="Strategic Priority Matrix - drag and drop interface for positioning ideas"
         >
           {/* Clean Background Grid using design system */}
-          <MatrixGrid dimensions={dimensions} />
+          <MatrixGrid dimensions={dimensions} config={matrixConfig} />
 
           {/* S-Tier Axis System with subtle, professional styling */}
           <div
@@ -230,7 +239,17 @@ export const MatrixCanvas: React.FC<MatrixCanvasProps> = ({
           </div>
 
           {/* Quadrant Labels with design system integration */}
-          <MatrixQuadrants dimensions={dimensions} />
+          <MatrixQuadrants dimensions={dimensions} config={matrixConfig} />
+
+          {/* Idea clusters, outlined around the collision-resolved card positions */}
+          <ClusterOutlineLayer
+            clusters={clusters}
+            positions={positionedIdeas.map((idea) => ({
+              id: idea.id,
+              left: (idea.pixelPosition.x / dimensions.width) * 100,
+              top: (idea.pixelPosition.y / dimensions.height) * 100
+            }))}
+          />
 
           {/* Positioned Ideas with performance optimization */}
           <MatrixCards
@@ -247,7 +266,7 @@ export const MatrixCanvas: React.FC<MatrixCanvasProps> = ({
             className="matrix-axis-labels"
             style={{ zIndex: Z_INDEX.QUADRANT_LABELS }}
             role="img"
-            aria-label="Matrix axes: horizontal shows implementation complexity, vertical shows strategic value"
+            aria-label={`Matrix axes: horizontal shows ${matrixConfig.xAxis.label}, vertical shows ${matrixConfig.yAxis.label}`}
           >
             {/* Bottom axis label - Implementation Complexity */}
             <div
@@ -276,8 +295,13 @@ export const MatrixCanvas: React.FC<MatrixCanvasProps> = ({
                       gap: 'var(--space-2)'
                     }}
                   >
-                    Implementation Complexity
-                    <span style={{ color: 'var(--neutral-500)' }}>→</span>
+                    {matrixConfig.xAxis.direction === 'descending' && (
+                      <span style={{ color: 'var(--neutral-500)' }}>←</span>
+                    )}
+                    {matrixConfig.xAxis.label}
+                    {matrixConfig.xAxis.direction === 'ascending' && (
+                      <span style={{ color: 'var(--neutral-500)' }}>→</span>
+                    )}
                   </span>
                 </div>
               </div>
@@ -311,8 +335,10 @@ export const MatrixCanvas: React.FC<MatrixCanvasProps> = ({
                       gap: 'var(--space-2)'
                     }}
                   >
-                    <span style={{ color: 'var(--neutral-500)' }}>↑</span>
-                    Strategic Value
+                    <span style={{ color: 'var(--neutral-500)' }}>
+                      {matrixConfig.yAxis.direction === 'ascending' ? '↑' : '↓'}
+                    </span>
+                    {matrixConfig.yAxis.label}
                   </span>
                 </div>
               </div>
@@ -371,6 +397,8 @@ export default React.memo(MatrixCanvas, (prevProps, nextProps) => {
     prevProps.ideas === nextProps.ideas &&
     prevProps.currentUser?.id === nextProps.currentUser?.id &&
     prevProps.activeId === nextProps.activeId &&
-    prevProps.dimensions === nextProps.dimensions
+    prevProps.dimensions === nextProps.dimensions &&
+    prevProps.matrixConfig === nextProps.matrixConfig &&
+    prevProps.clusters === nextProps.clusters
   )
 })
\ No newline at end of file
@@ -12,19 +12,27 @@
  * - Grid and label visibility controls
  */
 
-import React, { useState, useEffect, useRef, lazy, Suspense } from 'react'
+import React, { useState, useEffect, useRef, useMemo, useCallback, useContext, lazy, Suspense } from 'react'
 import { DndContext, DragOverlay, DragEndEvent, PointerSensor, useSensor, useSensors } from '@dnd-kit/core'
 import { X, Plus, Sparkles, Smartphone } from 'lucide-react'
-import { IdeaCard, User, Project } from '../../types'
-import type { BrainstormSession } from '../../types/BrainstormSession'
+import { IdeaCard, IdeaCluster, User, Project } from '../../types'
+import type { BrainstormSession, BrainstormTechnique, HeldIdea, SessionPrompt } from '../../types/BrainstormSession'
+import { getVotingConfig, type VotingConfig } from '../../utils/votingSchemes'
 import DesignMatrix from '../DesignMatrix'
 import { OptimizedIdeaCard } from './OptimizedIdeaCard'
 import { logger } from '../../utils/logger'
+import { applyDragDelta, resolveMatrixConfig, type MatrixConfig } from '../../utils/matrixQuadrant'
+import { getPlacedIdeas, getScorePlacementSettings, isScorePlaced } from '../../utils/ideaScoring'
+import { collectIdeaTags } from '../../utils/ideaFilter'
+import { resolveIdeaClusters } from '../../utils/ideaClusters'
+import { ROUND_DEFINITIONS } from '../../utils/brainstormRounds'
 import { Button } from '../ui/Button'
 import { BrainstormSessionService } from '../../lib/services/BrainstormSessionService'
 import SessionQRCode from '../brainstorm/SessionQRCode'
 import SessionControls from '../brainstorm/SessionControls'
 import DesktopParticipantPanel from '../brainstorm/DesktopParticipantPanel'
+import SessionModerationConsole, { applyHeldIdeaChange } from '../brainstorm/SessionModerationConsole'
+import SessionRoundControls from '../brainstorm/SessionRoundControls'
 import { useBrainstormRealtime } from '../../hooks/useBrainstormRealtime'
 import { isFeatureEnabled } from '../../lib/config'
 // Phase 05.4a: session-scope dot voting components
@@ -37,11 +45,18 @@ import { ProjectRealtimeProvider, useProjectRealtimeContext } from '../../contex
 import { ProjectPresenceStack } from '../project/ProjectPresenceStack'
 import { ReconnectingBadge } from '../project/ReconnectingBadge'
 import { LiveCursorsLayer } from '../project/LiveCursorsLayer'
+// Blind rating: private per-rater positions revealed together on the project channel
+import { BlindRatingContext, BlindRatingProvider } from '../../contexts/BlindRatingContext'
+import { BlindRatingControls } from '../project/BlindRatingControls'
+import { applyConsensusPositions, applyRaterPositions } from '../../utils/ratingConsensus'
+import IdeaBulkActionBar, { type IdeaBulkActionBarProps } from './IdeaBulkActionBar'
+import type { IdeaBulkUpdate } from '../../lib/repositories'
 
 // Lazy load modals for performance
 const AddIdeaModal = lazy(() => import('../AddIdeaModal'))
 const AIIdeaModal = lazy(() => import('../AIIdeaModal'))
 const EditIdeaModal = lazy(() => import('../EditIdeaModal'))
+const SessionSetupModal = lazy(() => import('../brainstorm/SessionSetupModal'))
 
 interface MatrixFullScreenViewProps {
   /** Whether full-screen mode is active */
@@ -82,6 +97,12 @@ interface MatrixFullScreenViewProps {
   onRefreshIdeas?: () => Promise<void>
   /** Direct state setter for ideas (fallback when onRefreshIdeas is unavailable) */
   setIdeas?: React.Dispatch<React.SetStateAction<IdeaCard[]>>
+  /** Called after blind rating round changes are saved to project settings */
+  onProjectChange?: (project: Project) => void
+  /** Batched updates for multi-select bulk actions */
+  onBulkUpdateIdeas?: (updates: IdeaBulkUpdate[], label?: string) => Promise<number>
+  /** Batched delete for multi-select bulk actions */
+  onBulkDeleteIdeas?: (ideaIds: string[]) => Promise<number>
   // Phase 05.4a: session-scope voting props (optional — only used in session mode)
   /** Active brainstorm session ID — enables voting controls when set */
   activeSessionId?: string
@@ -107,6 +128,10 @@ interface MatrixCanvasWithCursorsProps {
   showLabels: boolean
   mobileIdeaIds: Set<string>
   hasOpenModal: boolean
+  matrixConfig: MatrixConfig
+  selectedIds?: ReadonlySet<string>
+  onSelectionChange?: (ids: Set<string>) => void
+  clusters?: ReadonlyArray<IdeaCluster>
 }
 
 function MatrixCanvasWithCursors({
@@ -121,6 +146,10 @@ function MatrixCanvasWithCursors({
   showLabels,
   mobileIdeaIds,
   hasOpenModal,
+  matrixConfig,
+  selectedIds,
+  onSelectionChange,
+  clusters,
 }: MatrixCanvasWithCursorsProps): React.ReactElement {
   const { cursors, currentUserId, attachPointerTracking } = useProjectRealtimeContext()
   const canvasRef = useRef<HTMLDivElement | null>(null)
@@ -149,12 +178,49 @@ function MatrixCanvasWithCursors({
         isFullscreen={true}
         mobileIdeaIds={mobileIdeaIds}
         hasOpenModal={hasOpenModal}
+        matrixConfig={matrixConfig}
+        selectedIds={selectedIds}
+        onSelectionChange={onSelectionChange}
+        clusters={clusters}
       />
       <LiveCursorsLayer cursors={cursors} currentUserId={currentUserId} />
     </div>
   )
 }
 
+// ---------------------------------------------------------------------------
+// BlindRatingBridge — hands the project channel manager from
+// ProjectRealtimeContext to BlindRatingProvider so rating rounds start and
+// reveal on the same channel as cursors and drag locks.
+// Must render inside ProjectRealtimeProvider.
+// ---------------------------------------------------------------------------
+
+interface BlindRatingBridgeProps {
+  project: Project
+  currentUserId: string
+  onProjectChange?: (project: Project) => void
+  children: React.ReactNode
+}
+
+function BlindRatingBridge({
+  project,
+  currentUserId,
+  onProjectChange,
+  children,
+}: BlindRatingBridgeProps): React.ReactElement {
+  const { manager } = useProjectRealtimeContext()
+  return (
+    <BlindRatingProvider
+      project={project}
+      currentUserId={currentUserId}
+      manager={manager}
+      onProjectChange={onProjectChange}
+    >
+      {children}
+    </BlindRatingProvider>
+  )
+}
+
 // ---------------------------------------------------------------------------
 // DragLockAwareDndContext — inner component that reads drag lock + cursor pause
 // from ProjectRealtimeContext and owns the DndContext + drag state (D-21, D-29).
@@ -173,6 +239,10 @@ interface DragLockAwareDndContextProps {
   showLabels: boolean
   mobileIdeaIds: Set<string>
   hasOpenModal: boolean
+  matrixConfig: MatrixConfig
+  /** Enables multi-select; bulk actions skip cards locked by other users */
+  bulkActions?: Pick<IdeaBulkActionBarProps, 'onBulkUpdate' | 'onBulkDelete' | 'isPositionLocked'>
+  clusters?: ReadonlyArray<IdeaCluster>
 }
 
 function DragLockAwareDndContext({
@@ -187,11 +257,34 @@ function DragLockAwareDndContext({
   showLabels,
   mobileIdeaIds,
   hasOpenModal,
+  matrixConfig,
+  bulkActions,
+  clusters,
 }: DragLockAwareDndContextProps): React.ReactElement {
   const { dragLock, pauseBroadcast, resumeBroadcast } = useProjectRealtimeContext()
+  // Nullable: blind rating only exists when the view has a project
+  const blindRating = useContext(BlindRatingContext)
+  const rootRef = useRef<HTMLDivElement | null>(null)
+
+  // While a blind rating round runs, raters see their own positions and
+  // everyone sees the consensus after reveal; shared x/y are untouched.
+  const displayedIdeas = useMemo(() => {
+    if (!blindRating?.status) return ideas
+    if (blindRating.status === 'revealed') return applyConsensusPositions(ideas, blindRating.consensus)
+    return applyRaterPositions(ideas, blindRating.ratings, currentUser.id)
+  }, [ideas, blindRating, currentUser.id])
 
   const [activeId, setActiveId] = useState<string | null>(null)
-  const activeIdea = activeId ? ideas.find((i) => i.id === activeId) : null
+  const activeIdea = activeId ? displayedIdeas.find((i) => i.id === activeId) : null
+
+  // Multi-select is off during blind rating: bulk edits would move shared positions
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set())
+  const canBulkEdit = Boolean(bulkActions) && !blindRating?.status
+  const selectedIdeas = useMemo(
+    () => displayedIdeas.filter((idea) => selectedIds.has(idea.id)),
+    [displayedIdeas, selectedIds]
+  )
+  const clearSelection = useCallback(() => setSelectedIds(new Set()), [])
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -214,6 +307,12 @@ function DragLockAwareDndContext({
       return
     }
 
+    // Blind rating: only raters move cards, and only until the reveal.
+    if (blindRating?.status && (blindRating.status === 'revealed' || !blindRating.canRate)) {
+      logger.debug('Drag blocked: blind rating positions are read-only', ideaId)
+      return
+    }
+
     // acquire broadcasts drag_lock to remote peers (D-29 self-echo dedup in useDragLock).
     dragLock.acquire(ideaId)
 
@@ -244,6 +343,11 @@ function DragLockAwareDndContext({
 
     setActiveId(null)
 
+    if (blindRating?.status) {
+      await handleBlindRatingDrop(event)
+      return
+    }
+
     try {
       await onDragEnd(event)
       logger.debug('✅ FULLSCREEN Drag completed successfully')
@@ -253,15 +357,31 @@ function DragLockAwareDndContext({
     }
   }
 
+  /**
+   * During a blind rating round a drop stores the rater's private position
+   * instead of moving the shared card. After reveal positions are read-only.
+   */
+  const handleBlindRatingDrop = async (event: DragEndEvent) => {
+    if (!blindRating || blindRating.status !== 'collecting' || !blindRating.canRate) return
+    const idea = displayedIdeas.find((i) => i.id === event.active.id)
+    const container = rootRef.current?.querySelector('.matrix-container') as HTMLElement | null
+    if (!idea || !container) return
+
+    const rect = container.getBoundingClientRect()
+    const position = applyDragDelta(idea, event.delta, rect)
+    if (!position) return
+    await blindRating.rateIdea(idea.id, position.x, position.y)
+  }
+
   return (
-    <div data-testid="dnd-context-root" style={{ position: 'relative', width: '100%', height: '100%' }}>
+    <div ref={rootRef} data-testid="dnd-context-root" style={{ position: 'relative', width: '100%', height: '100%' }}>
       <DndContext
         sensors={sensors}
         onDragStart={handleDragStart}
         onDragEnd={handleDragEndWrapper}
       >
         <MatrixCanvasWithCursors
-          ideas={ideas}
+          ideas={displayedIdeas}
           activeId={activeId}
           currentUser={currentUser}
           onEditIdea={onEditIdea}
@@ -272,8 +392,25 @@ function DragLockAwareDndContext({
           showLabels={showLabels}
           mobileIdeaIds={mobileIdeaIds}
           hasOpenModal={hasOpenModal}
+          matrixConfig={matrixConfig}
+          selectedIds={canBulkEdit ? selectedIds : undefined}
+          onSelectionChange={canBulkEdit ? setSelectedIds : undefined}
+          // Cards move to private or consensus positions during blind rating
+          clusters={blindRating?.status ? undefined : clusters}
         />
 
+        {canBulkEdit && bulkActions && selectedIdeas.length > 0 && (
+          <div className="absolute left-1/2 top-4 z-20 -translate-x-1/2">
+            <IdeaBulkActionBar
+              ideas={selectedIdeas}
+              currentUser={currentUser}
+              matrixConfig={matrixConfig}
+              onClearSelection={clearSelection}
+              {...bulkActions}
+            />
+          </div>
+        )}
+
         <DragOverlay
           dropAnimation={{
             duration: 200,
@@ -337,6 +474,9 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
   onUpdateIdea,
   onRefreshIdeas,
   setIdeas,
+  onProjectChange,
+  onBulkUpdateIdeas,
+  onBulkDeleteIdeas,
   activeSessionId,
   sessionUserId,
 }) => {
@@ -345,6 +485,34 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
   const [showLabels, setShowLabels] = useState(true)
   const [zoomLevel] = useState(1)
 
+  const matrixConfig = useMemo(
+    () => resolveMatrixConfig(currentProject?.settings?.matrix_view),
+    [currentProject?.settings?.matrix_view]
+  )
+  const placedIdeas = useMemo(
+    () => getPlacedIdeas(ideas, currentProject?.settings?.matrix_view),
+    [ideas, currentProject?.settings?.matrix_view]
+  )
+  const clusters = useMemo(
+    () => resolveIdeaClusters(currentProject?.settings?.idea_clusters, placedIdeas),
+    [currentProject?.settings?.idea_clusters, placedIdeas]
+  )
+  const { framework: scoringFramework } = getScorePlacementSettings(currentProject?.settings?.matrix_view)
+  const tagSuggestions = useMemo(
+    () => collectIdeaTags(ideas, currentProject?.settings?.idea_tags),
+    [ideas, currentProject?.settings?.idea_tags]
+  )
+  const bulkActions = useMemo(
+    () => onBulkUpdateIdeas && onBulkDeleteIdeas
+      ? {
+          onBulkUpdate: onBulkUpdateIdeas,
+          onBulkDelete: onBulkDeleteIdeas,
+          isPositionLocked: (idea: IdeaCard) => isScorePlaced(idea, currentProject?.settings?.matrix_view)
+        }
+      : undefined,
+    [onBulkUpdateIdeas, onBulkDeleteIdeas, currentProject?.settings?.matrix_view]
+  )
+
   // Track if we've successfully entered fullscreen
   const hasEnteredFullscreen = useRef(false)
 
@@ -353,8 +521,21 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
     (BrainstormSession & { qrCodeData: string }) | null
   >(null)
   const [isCreatingSession, setIsCreatingSession] = useState(false)
+  const [showSessionSetup, setShowSessionSetup] = useState(false)
   const [showSessionQR, setShowSessionQR] = useState(false)
   const [mobileIdeaIds, setMobileIdeaIds] = useState<Set<string>>(new Set())
+  // Submissions held for the facilitator's review
+  const [heldIdeas, setHeldIdeas] = useState<HeldIdea[]>([])
+
+  // Silent ideation: ideas from the session stay off the shared board until the reveal
+  const currentRound = brainstormSession?.current_round
+  const boardIdeas = useMemo(
+    () =>
+      brainstormSession && currentRound && !ROUND_DEFINITIONS[currentRound].showsSessionIdeas
+        ? placedIdeas.filter((idea) => (idea as IdeaCard & { session_id?: string }).session_id !== brainstormSession.id)
+        : placedIdeas,
+    [placedIdeas, brainstormSession, currentRound]
+  )
 
   // Phase 05.4a: ScopedRealtimeManager for voting (session mode only).
   // Single instance passed to SessionPresenceStack to prevent double-channel creation (MUST-FIX 4).
@@ -379,6 +560,10 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
   }, [activeSessionId, sessionUserId, currentUser.full_name, currentUser.email])
 
   const isVotingActive = !!(activeSessionId && sessionUserId && votingManager)
+  const votingConfig = useMemo(
+    () => (brainstormSession && brainstormSession.id === activeSessionId ? getVotingConfig(brainstormSession) : undefined),
+    [brainstormSession, activeSessionId]
+  )
 
   // Phase Four: Real-time brainstorm data (participants, ideas, session state)
   // NOTE: Ideas are handled by the main useIdeas hook's real-time subscription (project-based).
@@ -409,16 +594,44 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
       logger.debug('Participant left:', participantId)
     },
     onSessionStateChanged: (state) => {
-      logger.debug('Session state changed:', state.status)
-      // Update the session status in state
+      logger.debug('Session state changed:', state.status, state.round)
+      // Update the session status and round in state
       if (brainstormSession) {
         setBrainstormSession((prev) =>
-          prev ? { ...prev, status: state.status } : null
+          prev
+            ? {
+                ...prev,
+                status: state.status,
+                current_round: state.round,
+                round_ends_at: state.roundEndsAt,
+                current_prompt_id: state.currentPromptId,
+                votes_revealed_at: state.votesRevealedAt
+              }
+            : null
         )
       }
+    },
+    onHeldIdeaChanged: (heldIdea) => {
+      setHeldIdeas((prev) => applyHeldIdeaChange(prev, heldIdea))
     }
   })
 
+  // Load the moderation queue when a session starts; realtime keeps it current
+  useEffect(() => {
+    const sessionId = brainstormSession?.id
+    if (!sessionId) {
+      setHeldIdeas([])
+      return
+    }
+    let cancelled = false
+    void BrainstormSessionService.getPendingHeldIdeas(sessionId).then((pending) => {
+      if (!cancelled) setHeldIdeas(pending)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [brainstormSession?.id])
+
   // Ref for fullscreen container (used as modal portal target)
   const fullscreenContainerRef = useRef<HTMLDivElement | null>(null)
 
@@ -662,9 +875,14 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
 
   /**
    * Phase Four: Enable Mobile Join
-   * Creates a new brainstorm session and displays QR code
+   * Creates a new brainstorm session from the chosen technique and voting
+   * scheme and displays QR code
    */
-  const handleEnableMobileJoin = async () => {
+  const handleEnableMobileJoin = async (
+    technique: BrainstormTechnique | null,
+    prompts: SessionPrompt[],
+    voting: VotingConfig
+  ) => {
     if (!currentProject || !currentUser?.id) {
       logger.error('Cannot create session: missing project or user')
       return
@@ -681,11 +899,18 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
         maxParticipants: 50,
         allowAnonymous: true,
         requireApproval: false,
-        enableVoting: false
+        enableVoting: false,
+        technique: technique ?? undefined,
+        prompts,
+        votingScheme: voting.scheme,
+        voteBudget: voting.budget,
+        allowMultipleVotes: voting.allowMultiple,
+        voteVisibility: voting.visibility
       })
 
       if (response.success && response.session) {
         setBrainstormSession(response.session)
+        setShowSessionSetup(false)
         setShowSessionQR(true)
         logger.debug('Brainstorm session created:', response.session.id)
       } else {
@@ -698,6 +923,20 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
     }
   }
 
+  /**
+   * Blind rating: write the revealed consensus back to the shared positions
+   */
+  const handleApplyConsensus = async (positions: ReadonlyMap<string, { x: number; y: number }>) => {
+    if (!onUpdateIdea) {
+      logger.warn('Update idea callback not provided')
+      return
+    }
+    for (const [ideaId, position] of positions) {
+      if (!ideas.some((idea) => idea.id === ideaId)) continue
+      await onUpdateIdea(ideaId, position)
+    }
+  }
+
   /**
    * Phase Four: Close session QR overlay
    */
@@ -767,6 +1006,11 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
       currentUserDisplayName={currentUser.full_name ?? currentUser.email ?? currentUser.id}
       setIdeas={setIdeas ?? (() => undefined)}
     >
+      <BlindRatingBridge
+        project={currentProject}
+        currentUserId={currentUser.id}
+        onProjectChange={onProjectChange}
+      >
       <div
         data-testid="project-realtime-provider"
         style={{ display: 'contents' }}
@@ -854,6 +1098,8 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
                 currentUserDisplayName={currentUser.full_name ?? currentUser.email ?? currentUser.id}
               />
             )}
+            {/* Blind rating round controls (facilitator) and progress (raters) */}
+            <BlindRatingControls ideas={ideas} onApplyConsensus={handleApplyConsensus} />
             {/* DEV MODE: Diagnostic Banner */}
             {import.meta.env.DEV && (
               <div className="px-3 py-1 rounded bg-yellow-500/20 border border-yellow-500/50 text-xs text-yellow-200">
@@ -872,7 +1118,7 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
             {/* Phase Four: Mobile Join Button (when no session) */}
             {isFeatureEnabled('MOBILE_BRAINSTORM_PHASE4') && !brainstormSession && (
               <Button
-                onClick={handleEnableMobileJoin}
+                onClick={() => setShowSessionSetup(true)}
                 variant="secondary"
                 size="md"
                 icon={<Smartphone className="w-4 h-4" />}
@@ -942,7 +1188,7 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
         {/* DragLockAwareDndContext — reads drag lock + cursor pause from context,
             owns activeId state and drag handlers (Wave 3, Unit 3.5) */}
         <DragLockAwareDndContext
-          ideas={ideas}
+          ideas={boardIdeas}
           currentUser={currentUser}
           onEditIdea={onEditIdea}
           onDeleteIdea={onDeleteIdea}
@@ -953,6 +1199,9 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
           showLabels={showLabels}
           mobileIdeaIds={mobileIdeaIds}
           hasOpenModal={!!(showAddModal || showAIModal || editingIdea)}
+          matrixConfig={matrixConfig}
+          bulkActions={bulkActions}
+          clusters={clusters}
         />
       </div>
 
@@ -960,6 +1209,20 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
       <div style={{
         pointerEvents: 'auto'
       }}>
+        {/* Phase Four: Session setup (technique and prompts) before the session starts */}
+        {isFeatureEnabled('MOBILE_BRAINSTORM_PHASE4') && currentProject && showSessionSetup && !brainstormSession && (
+          <Suspense fallback={null}>
+            <SessionSetupModal
+              isOpen={showSessionSetup}
+              onClose={() => setShowSessionSetup(false)}
+              project={currentProject}
+              onStart={handleEnableMobileJoin}
+              isStarting={isCreatingSession}
+              portalTarget={fullscreenContainerRef.current || undefined}
+            />
+          </Suspense>
+        )}
+
         {showAddModal && onAddIdea && (
           <Suspense fallback={null}>
             <AddIdeaModal
@@ -968,6 +1231,8 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
               onAdd={onAddIdea}
               currentUser={currentUser}
               portalTarget={fullscreenContainerRef.current || undefined}
+              scoringFramework={scoringFramework}
+              tagSuggestions={tagSuggestions}
             />
           </Suspense>
         )}
@@ -997,6 +1262,8 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
               onDelete={onDeleteIdea}
               currentUser={currentUser}
               portalTarget={fullscreenContainerRef.current || undefined}
+              scoringFramework={scoringFramework}
+              tagSuggestions={tagSuggestions}
             />
           </Suspense>
         )}
@@ -1004,11 +1271,21 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
 
       {/* Phase Four: Desktop Participant Panel (when session active) */}
       {isFeatureEnabled('MOBILE_BRAINSTORM_PHASE4') && brainstormSession && (
-        <div className="fixed top-20 right-4 z-40 pointer-events-auto">
+        <div className="fixed top-20 right-4 z-40 pointer-events-auto flex flex-col gap-3">
+          <SessionRoundControls
+            session={brainstormSession}
+            onSessionUpdated={handleSessionUpdated}
+          />
           <DesktopParticipantPanel
             participants={realtimeData.participants}
             sessionId={brainstormSession.id}
           />
+          <SessionModerationConsole
+            session={brainstormSession}
+            participants={realtimeData.participants}
+            heldIdeas={heldIdeas}
+            onSessionUpdated={handleSessionUpdated}
+          />
         </div>
       )}
 
@@ -1029,6 +1306,7 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
         )}
     </div>
     </div>
+      </BlindRatingBridge>
     </ProjectRealtimeProvider>
   ) : null
 
@@ -1041,6 +1319,7 @@ export const MatrixFullScreenView: React.FC<MatrixFullScreenViewProps> = ({
         sessionId={activeSessionId}
         currentUserId={sessionUserId}
         manager={votingManager}
+        config={votingConfig}
       >
         {viewContent}
       </DotVotingProvider>
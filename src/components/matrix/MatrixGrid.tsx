@@ -1,22 +1,45 @@
 /**
- * MatrixGrid - Background grid and depth field
+ * MatrixGrid - Background grid, depth field and cell dividers
  */
 
 import React from 'react'
-import type { MatrixDimensions } from '../../lib/matrix/coordinates'
+import { normalizedToPixel, type MatrixDimensions } from '../../lib/matrix/coordinates'
 import { Z_INDEX } from '../../lib/matrix/zIndex'
+import { DEFAULT_MATRIX_CONFIG, type MatrixConfig } from '../../utils/matrixQuadrant'
 
 interface MatrixGridProps {
   dimensions: MatrixDimensions
+  config?: MatrixConfig
 }
 
-export const MatrixGrid: React.FC<MatrixGridProps> = (_props) => {
+export const MatrixGrid: React.FC<MatrixGridProps> = ({ dimensions, config = DEFAULT_MATRIX_CONFIG }) => {
+  // The 2x2 center axes are drawn by MatrixCanvas; only 3x3 needs extra dividers
+  const dividers = config.divisions > 2
+    ? Array.from({ length: config.divisions - 1 }, (_, i) => {
+        const fraction = (i + 1) / config.divisions
+        return normalizedToPixel({ x: fraction, y: fraction }, dimensions)
+      })
+    : []
+
   return (
     <div
       className="absolute inset-0 matrix-grid-background matrix-depth-field"
       style={{ zIndex: Z_INDEX.MATRIX_GRID }}
-    />
+    >
+      {dividers.map((offset, index) => (
+        <React.Fragment key={index}>
+          <div
+            className="absolute top-0 bottom-0 w-px"
+            style={{ left: offset.x, backgroundColor: 'var(--neutral-200)' }}
+          />
+          <div
+            className="absolute left-0 right-0 h-px"
+            style={{ top: offset.y, backgroundColor: 'var(--neutral-200)' }}
+          />
+        </React.Fragment>
+      ))}
+    </div>
   )
 }
 
-export default React.memo(MatrixGrid)
\ No newline at end of file
+export default React.memo(MatrixGrid)
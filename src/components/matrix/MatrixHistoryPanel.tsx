@@ -0,0 +1,196 @@
+/**
+ * MatrixHistoryPanel — timeline scrubber and replay for the matrix
+ *
+ * Scrubbing shows the board as it stood at the chosen moment; Replay animates
+ * every idea from its position on one date to its position on another. The
+ * panel emits the board to render through `onBoardChange`; the page swaps it
+ * in for the live ideas and makes the matrix read-only while open.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { History, Pause, Play, X } from 'lucide-react'
+import type { IdeaCard } from '../../types'
+import { useMatrixHistory } from '../../hooks/useMatrixHistory'
+import { interpolateBoards, reconstructBoardAt, summarizeChanges } from '../../utils/matrixHistory'
+import { Button } from '../ui/Button'
+
+const REPLAY_DURATION_MS = 4000
+
+export interface MatrixHistoryPanelProps {
+  projectId: string
+  onBoardChange: (ideas: IdeaCard[]) => void
+  onClose: () => void
+}
+
+// Local calendar date for <input type="date">
+function toDateInput(time: number): string {
+  const date = new Date(time)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function easeInOut(t: number): number {
+  return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2
+}
+
+export function MatrixHistoryPanel({
+  projectId,
+  onBoardChange,
+  onClose
+}: MatrixHistoryPanelProps): React.ReactElement {
+  const { revisions, range, loading, error } = useMatrixHistory(projectId, true)
+  const [scrubTime, setScrubTime] = useState<number | null>(null)
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+  const [playing, setPlaying] = useState(false)
+  const frameRef = useRef<number | null>(null)
+
+  const stopReplay = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    frameRef.current = null
+    setPlaying(false)
+  }, [])
+
+  // Open on the latest known board
+  useEffect(() => {
+    if (range) onBoardChange(reconstructBoardAt(revisions, range.end))
+  }, [revisions, range, onBoardChange])
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+  }, [])
+
+  const currentTime = scrubTime ?? range?.end ?? 0
+  const fromValue = fromDate || (range ? toDateInput(range.start) : '')
+  const toValue = toDate || (range ? toDateInput(range.end) : '')
+  const replayStart = fromValue ? new Date(`${fromValue}T00:00:00`).getTime() : NaN
+  const replayEnd = toValue ? new Date(`${toValue}T23:59:59.999`).getTime() : NaN
+  const canReplay = Number.isFinite(replayStart) && Number.isFinite(replayEnd) && replayStart < replayEnd
+
+  const handleScrub = (event: React.ChangeEvent<HTMLInputElement>) => {
+    stopReplay()
+    const time = Number(event.target.value)
+    setScrubTime(time)
+    onBoardChange(reconstructBoardAt(revisions, time))
+  }
+
+  const handleReplay = () => {
+    if (playing) {
+      stopReplay()
+      return
+    }
+    if (!canReplay) return
+
+    const fromBoard = reconstructBoardAt(revisions, replayStart)
+    const toBoard = reconstructBoardAt(revisions, replayEnd)
+    let startedAt: number | null = null
+    setPlaying(true)
+
+    const step = (now: number) => {
+      startedAt ??= now
+      const progress = Math.min(1, (now - startedAt) / REPLAY_DURATION_MS)
+      onBoardChange(interpolateBoards(fromBoard, toBoard, easeInOut(progress)))
+      setScrubTime(replayStart + (replayEnd - replayStart) * progress)
+      if (progress < 1) {
+        frameRef.current = requestAnimationFrame(step)
+      } else {
+        frameRef.current = null
+        setPlaying(false)
+      }
+    }
+    frameRef.current = requestAnimationFrame(step)
+  }
+
+  const summary = canReplay ? summarizeChanges(revisions, replayStart, replayEnd) : null
+  const summaryText = summary && [
+    summary.moved && `${summary.moved} moved`,
+    summary.reprioritized && `${summary.reprioritized} reprioritized`,
+    summary.edited && `${summary.edited} edited`,
+    summary.created && `${summary.created} added`,
+    summary.merged && `${summary.merged} merged`,
+    summary.deleted && `${summary.deleted} removed`
+  ].filter(Boolean).join(' · ')
+
+  return (
+    <div
+      className="mb-4 rounded-lg border border-hairline-default bg-surface-primary px-4 py-3 shadow-sm"
+      data-testid="matrix-history-panel"
+    >
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div className="flex items-center gap-2 text-sm font-semibold text-graphite-800">
+          <History className="w-4 h-4" aria-hidden="true" />
+          Matrix history
+          <span className="font-normal text-graphite-500" aria-live="polite" data-testid="matrix-history-time">
+            {range ? new Date(currentTime).toLocaleString() : ''}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded text-graphite-500 hover:text-graphite-800"
+          aria-label="Back to live matrix"
+          data-testid="matrix-history-close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && <p role="alert" className="text-sm text-red-600 mb-2">{error}</p>}
+
+      {loading && !range ? (
+        <p className="text-sm text-graphite-500">Loading history…</p>
+      ) : !range ? (
+        <p className="text-sm text-graphite-500">No changes recorded for this project yet.</p>
+      ) : (
+        <>
+          <input
+            type="range"
+            min={range.start}
+            max={range.end}
+            step={1000}
+            value={currentTime}
+            onChange={handleScrub}
+            className="w-full accent-sapphire-600"
+            aria-label="Matrix history timeline"
+            data-testid="matrix-history-scrubber"
+          />
+          <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-graphite-700">
+            <label className="flex items-center gap-2">
+              From
+              <input
+                type="date"
+                value={fromValue}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="px-2 py-1 border rounded border-hairline-default bg-surface-primary"
+                data-testid="matrix-history-from"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              To
+              <input
+                type="date"
+                value={toValue}
+                onChange={(e) => setToDate(e.target.value)}
+                className="px-2 py-1 border rounded border-hairline-default bg-surface-primary"
+                data-testid="matrix-history-to"
+              />
+            </label>
+            <Button
+              onClick={handleReplay}
+              variant="secondary"
+              size="sm"
+              icon={playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              disabled={!canReplay && !playing}
+              data-testid="matrix-history-replay"
+            >
+              {playing ? 'Pause' : 'Replay'}
+            </Button>
+            {summaryText && <span className="text-graphite-500">{summaryText}</span>}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default MatrixHistoryPanel
@@ -1,131 +1,81 @@
 /**
- * MatrixQuadrants - Static quadrant labels and styling
+ * MatrixQuadrants - Quadrant labels and styling driven by the project's matrix config
  */
 
 import React from 'react'
 import type { MatrixDimensions } from '../../lib/matrix/coordinates'
 import { Z_INDEX } from '../../lib/matrix/zIndex'
+import { DEFAULT_MATRIX_CONFIG, type MatrixConfig } from '../../utils/matrixQuadrant'
 
 interface MatrixQuadrantsProps {
   dimensions: MatrixDimensions
+  config?: MatrixConfig
 }
 
-export const MatrixQuadrants: React.FC<MatrixQuadrantsProps> = (_props) => {
-  return (
-    <div className="matrix-quadrants" style={{ zIndex: Z_INDEX.QUADRANT_LABELS }}>
-      {/* Quick Wins - Top Left */}
-      <div className="absolute top-8 left-8 spatial-object--quickwin px-6 py-4">
-        <div className="flex items-center gap-3 mb-2">
-          <div className="w-3 h-3 bg-white rounded-full shadow-sm"></div>
-          <span
-            style={{
-              color: 'var(--brand-primary)',
-              fontSize: 'var(--font-size-lg)',
-              fontWeight: 'var(--font-weight-semibold)'
-            }}
-          >
-            Quick Wins
-          </span>
-        </div>
-        <div
-          style={{
-            color: 'var(--brand-secondary)',
-            fontSize: 'var(--font-size-sm)',
-            fontWeight: 'var(--font-weight-medium)'
-          }}
-        >
-          High Impact • Low Complexity
-        </div>
-      </div>
+// Edge cells hug the outer corners; middle cells (3x3) are centered in their band
+function getLabelPlacement(row: number, col: number, divisions: number): React.CSSProperties {
+  const style: React.CSSProperties = {}
+  const transforms: string[] = []
 
-      {/* Strategic - Top Right */}
-      <div className="absolute top-8 right-8 spatial-object--strategic px-6 py-4">
-        <div className="flex items-center gap-3 mb-2">
-          <div className="w-3 h-3 bg-white rounded-full shadow-sm"></div>
-          <span
-            style={{
-              color: 'var(--brand-primary)',
-              fontSize: 'var(--font-size-lg)',
-              fontWeight: 'var(--font-weight-semibold)'
-            }}
-          >
-            Strategic Investments
-          </span>
-        </div>
-        <div
-          style={{
-            color: 'var(--brand-secondary)',
-            fontSize: 'var(--font-size-sm)',
-            fontWeight: 'var(--font-weight-medium)'
-          }}
-        >
-          High Impact • High Complexity
-        </div>
-      </div>
+  if (col === 0) style.left = 'var(--space-8)'
+  else if (col === divisions - 1) style.right = 'var(--space-8)'
+  else {
+    style.left = '50%'
+    transforms.push('translateX(-50%)')
+  }
 
-      {/* Reconsider - Bottom Left */}
-      <div
-        className="absolute bottom-24 left-8 spatial-object px-6 py-4"
-        style={{
-          background: 'linear-gradient(135deg, var(--reconsider-primary), var(--reconsider-accent))',
-          color: 'var(--brand-primary)'
-        }}
-      >
-        <div className="flex items-center gap-3 mb-2">
-          <div className="w-3 h-3 bg-white rounded-full shadow-sm"></div>
-          <span
-            style={{
-              color: 'var(--brand-primary)',
-              fontSize: 'var(--font-size-lg)',
-              fontWeight: 'var(--font-weight-semibold)'
-            }}
-          >
-            Reconsider
-          </span>
-        </div>
-        <div
-          style={{
-            color: 'var(--brand-secondary)',
-            fontSize: 'var(--font-size-sm)',
-            fontWeight: 'var(--font-weight-medium)'
-          }}
-        >
-          Low Impact • Low Complexity
-        </div>
-      </div>
+  if (row === 0) style.top = 'var(--space-8)'
+  else if (row === divisions - 1) style.bottom = '6rem'
+  else {
+    style.top = '50%'
+    transforms.push('translateY(-50%)')
+  }
 
-      {/* Avoid - Bottom Right */}
-      <div
-        className="absolute bottom-24 right-8 spatial-object px-6 py-4"
-        style={{
-          background: 'linear-gradient(135deg, var(--avoid-primary), var(--avoid-accent))',
-          color: 'var(--brand-primary)'
-        }}
-      >
-        <div className="flex items-center gap-3 mb-2">
-          <div className="w-3 h-3 bg-white rounded-full shadow-sm"></div>
-          <span
-            style={{
-              color: 'var(--brand-primary)',
-              fontSize: 'var(--font-size-lg)',
-              fontWeight: 'var(--font-weight-semibold)'
-            }}
-          >
-            Avoid
-          </span>
-        </div>
+  if (transforms.length > 0) style.transform = transforms.join(' ')
+  return style
+}
+
+export const MatrixQuadrants: React.FC<MatrixQuadrantsProps> = ({ config = DEFAULT_MATRIX_CONFIG }) => {
+  return (
+    <div className="matrix-quadrants" style={{ zIndex: Z_INDEX.QUADRANT_LABELS }}>
+      {config.quadrants.map((quadrant, index) => (
         <div
+          key={quadrant.id}
+          className="absolute spatial-object px-6 py-4"
           style={{
-            color: 'var(--brand-secondary)',
-            fontSize: 'var(--font-size-sm)',
-            fontWeight: 'var(--font-weight-medium)'
+            ...getLabelPlacement(Math.floor(index / config.divisions), index % config.divisions, config.divisions),
+            background: `linear-gradient(135deg, ${quadrant.color}33, ${quadrant.color}14)`,
+            color: 'var(--brand-primary)'
           }}
+          data-testid={`matrix-quadrant-${quadrant.id}`}
         >
-          Low Impact • High Complexity
+          <div className="flex items-center gap-3 mb-2">
+            <div className="w-3 h-3 rounded-full shadow-sm" style={{ backgroundColor: quadrant.color }}></div>
+            <span
+              style={{
+                color: 'var(--brand-primary)',
+                fontSize: 'var(--font-size-lg)',
+                fontWeight: 'var(--font-weight-semibold)'
+              }}
+            >
+              {quadrant.label}
+            </span>
+          </div>
+          {quadrant.description && (
+            <div
+              style={{
+                color: 'var(--brand-secondary)',
+                fontSize: 'var(--font-size-sm)',
+                fontWeight: 'var(--font-weight-medium)'
+              }}
+            >
+              {quadrant.description}
+            </div>
+          )}
         </div>
-      </div>
+      ))}
     </div>
   )
 }
 
-export default React.memo(MatrixQuadrants)
\ No newline at end of file
+export default React.memo(MatrixQuadrants)
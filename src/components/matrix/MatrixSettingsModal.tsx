@@ -0,0 +1,273 @@
+/**
+ * MatrixSettingsModal - Per-project axis and quadrant configuration
+ *
+ * Edits ProjectSettings.matrix_view: axis names and direction, quadrant names,
+ * descriptions and colors, and the 2x2 / 3x3 layout. Also edits the project's
+ * tag vocabulary (ProjectSettings.idea_tags) offered when tagging ideas.
+ */
+
+import React, { useState, useEffect } from 'react'
+import { SlidersHorizontal, RotateCcw } from 'lucide-react'
+import type { MatrixAxisConfig, MatrixLayout, MatrixQuadrantConfig, Project } from '../../types'
+import { DatabaseService } from '../../lib/database'
+import { withMatrixViewSettings, withProjectTagSettings } from '../../lib/config/projectSettings'
+import { mergeTags } from '../../utils/ideaSelection'
+import {
+  DEFAULT_QUADRANTS_2X2,
+  DEFAULT_QUADRANTS_3X3,
+  DEFAULT_X_AXIS,
+  DEFAULT_Y_AXIS,
+  resolveMatrixConfig
+} from '../../utils/matrixQuadrant'
+import { useToast } from '../../contexts/ToastContext'
+import { BaseModal } from '../shared/Modal'
+import { Button } from '../ui/Button'
+import { logger } from '../../utils/logger'
+
+interface MatrixSettingsModalProps {
+  isOpen: boolean
+  project: Project
+  onClose: () => void
+  onSaved?: (project: Project) => void
+}
+
+const inputClassName = 'w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 border-hairline-default text-graphite-900 bg-surface-primary'
+
+interface AxisFieldsProps {
+  title: string
+  axis: MatrixAxisConfig
+  onChange: (axis: MatrixAxisConfig) => void
+  testIdPrefix: string
+}
+
+const AxisFields: React.FC<AxisFieldsProps> = ({ title, axis, onChange, testIdPrefix }) => (
+  <fieldset className="rounded-lg p-4 border border-hairline-default space-y-3">
+    <legend className="px-1 text-sm font-medium text-graphite-700">{title}</legend>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <label className="block text-xs font-medium text-graphite-600">
+        Name
+        <input
+          type="text"
+          value={axis.label}
+          onChange={(e) => onChange({ ...axis, label: e.target.value })}
+          className={`${inputClassName} mt-1`}
+          data-testid={`${testIdPrefix}-label`}
+        />
+      </label>
+      <label className="block text-xs font-medium text-graphite-600">
+        Direction
+        <select
+          value={axis.direction}
+          onChange={(e) => onChange({ ...axis, direction: e.target.value as MatrixAxisConfig['direction'] })}
+          className={`${inputClassName} mt-1`}
+          data-testid={`${testIdPrefix}-direction`}
+        >
+          <option value="ascending">Ascending</option>
+          <option value="descending">Descending</option>
+        </select>
+      </label>
+      <label className="block text-xs font-medium text-graphite-600">
+        Low end label
+        <input
+          type="text"
+          value={axis.low_label || ''}
+          onChange={(e) => onChange({ ...axis, low_label: e.target.value })}
+          className={`${inputClassName} mt-1`}
+        />
+      </label>
+      <label className="block text-xs font-medium text-graphite-600">
+        High end label
+        <input
+          type="text"
+          value={axis.high_label || ''}
+          onChange={(e) => onChange({ ...axis, high_label: e.target.value })}
+          className={`${inputClassName} mt-1`}
+        />
+      </label>
+    </div>
+  </fieldset>
+)
+
+const MatrixSettingsModal: React.FC<MatrixSettingsModalProps> = ({ isOpen, project, onClose, onSaved }) => {
+  const { showSuccess, showError } = useToast()
+  const [layout, setLayout] = useState<MatrixLayout>('2x2')
+  const [xAxis, setXAxis] = useState<MatrixAxisConfig>(DEFAULT_X_AXIS)
+  const [yAxis, setYAxis] = useState<MatrixAxisConfig>(DEFAULT_Y_AXIS)
+  const [quadrants, setQuadrants] = useState<MatrixQuadrantConfig[]>(DEFAULT_QUADRANTS_2X2)
+  const [projectTags, setProjectTags] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Load current configuration whenever the modal opens
+  useEffect(() => {
+    if (!isOpen) return
+    const config = resolveMatrixConfig(project.settings?.matrix_view)
+    setLayout(config.layout)
+    setXAxis(config.xAxis)
+    setYAxis(config.yAxis)
+    setQuadrants(config.quadrants)
+    setProjectTags((project.settings?.idea_tags ?? []).join(', '))
+  }, [isOpen, project.settings?.matrix_view, project.settings?.idea_tags])
+
+  const handleLayoutChange = (nextLayout: MatrixLayout) => {
+    setLayout(nextLayout)
+    // Quadrant lists are layout-specific, so switching resets them
+    setQuadrants(nextLayout === '3x3' ? DEFAULT_QUADRANTS_3X3 : DEFAULT_QUADRANTS_2X2)
+  }
+
+  const updateQuadrant = (index: number, updates: Partial<MatrixQuadrantConfig>) => {
+    setQuadrants((current) => current.map((q, i) => (i === index ? { ...q, ...updates } : q)))
+  }
+
+  const handleReset = () => {
+    setLayout('2x2')
+    setXAxis(DEFAULT_X_AXIS)
+    setYAxis(DEFAULT_Y_AXIS)
+    setQuadrants(DEFAULT_QUADRANTS_2X2)
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const settings = withProjectTagSettings(
+        withMatrixViewSettings(project.settings, {
+          layout,
+          x_axis: xAxis,
+          y_axis: yAxis,
+          quadrants
+        }),
+        mergeTags([], projectTags.split(','))
+      )
+      const updated = await DatabaseService.updateProject(project.id, { settings })
+      if (!updated) {
+        throw new Error('Project update returned no data')
+      }
+      showSuccess('Matrix settings saved')
+      onSaved?.(updated)
+      onClose()
+    } catch (error) {
+      logger.error('Failed to save matrix settings:', error)
+      showError('Failed to save matrix settings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const divisions = layout === '3x3' ? 3 : 2
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title="Matrix Settings" size="xl">
+      <div className="p-6 space-y-6" data-testid="matrix-settings-modal">
+        <div className="flex items-center space-x-3">
+          <SlidersHorizontal className="w-5 h-5 text-sapphire-600" />
+          <p className="text-graphite-600">Define the axes and quadrants used for this project's matrix</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2 text-graphite-700">Layout</label>
+          <select
+            value={layout}
+            onChange={(e) => handleLayoutChange(e.target.value as MatrixLayout)}
+            className={inputClassName}
+            data-testid="matrix-settings-layout"
+          >
+            <option value="2x2">2 × 2 quadrants</option>
+            <option value="3x3">3 × 3 grid</option>
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <AxisFields title="Horizontal axis" axis={xAxis} onChange={setXAxis} testIdPrefix="matrix-settings-x" />
+          <AxisFields title="Vertical axis" axis={yAxis} onChange={setYAxis} testIdPrefix="matrix-settings-y" />
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium mb-2 text-graphite-700">Quadrants</h4>
+          <div
+            className="grid gap-3"
+            style={{ gridTemplateColumns: `repeat(${divisions}, minmax(0, 1fr))` }}
+          >
+            {quadrants.map((quadrant, index) => (
+              <div
+                key={`${layout}-${index}`}
+                className="rounded-lg p-3 border space-y-2"
+                style={{ borderColor: quadrant.color }}
+                data-testid={`matrix-settings-quadrant-${index}`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={quadrant.color}
+                    onChange={(e) => updateQuadrant(index, { color: e.target.value })}
+                    className="w-8 h-8 rounded cursor-pointer"
+                    aria-label={`${quadrant.label} color`}
+                  />
+                  <input
+                    type="text"
+                    value={quadrant.label}
+                    onChange={(e) => updateQuadrant(index, { label: e.target.value })}
+                    className={inputClassName}
+                    aria-label={`Quadrant ${index + 1} name`}
+                  />
+                </div>
+                <input
+                  type="text"
+                  value={quadrant.description || ''}
+                  onChange={(e) => updateQuadrant(index, { description: e.target.value })}
+                  placeholder="Description"
+                  className={`${inputClassName} text-xs`}
+                  aria-label={`Quadrant ${index + 1} description`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2 text-graphite-700" htmlFor="matrix-settings-tags">
+            Project tags
+          </label>
+          <input
+            id="matrix-settings-tags"
+            type="text"
+            value={projectTags}
+            onChange={(e) => setProjectTags(e.target.value)}
+            placeholder="e.g. Mobile, Enterprise, Team Payments"
+            className={inputClassName}
+            data-testid="matrix-settings-tags"
+          />
+          <p className="mt-1 text-xs text-graphite-500">
+            Comma-separated. Offered as suggestions when tagging ideas; free-form tags still work.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between pt-4 border-t border-hairline-default">
+          <Button
+            type="button"
+            onClick={handleReset}
+            variant="ghost"
+            size="sm"
+            icon={<RotateCcw className="w-4 h-4" />}
+          >
+            Reset to defaults
+          </Button>
+          <div className="flex space-x-3">
+            <Button type="button" onClick={onClose} variant="secondary">
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              variant="sapphire"
+              data-testid="matrix-settings-save"
+            >
+              {isSaving ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </BaseModal>
+  )
+}
+
+export default MatrixSettingsModal
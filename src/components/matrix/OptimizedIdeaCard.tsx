@@ -23,7 +23,7 @@ import { useLogger } from '../../lib/logging'
 import { getCardZIndex } from '../../lib/matrix/zIndex'
 import { areIdeasEqual } from '../../lib/matrix/performance'
 import { ConfirmModal } from '../shared/Modal'
-import { calculateQuadrant, QUADRANT_COLORS } from '../../utils/matrixQuadrant'
+import { DEFAULT_MATRIX_CONFIG, getMatrixCell, type MatrixConfig } from '../../utils/matrixQuadrant'
 
 interface OptimizedIdeaCardProps {
   idea: IdeaCard
@@ -34,6 +34,7 @@ interface OptimizedIdeaCardProps {
   onToggleCollapse: (ideaId: string, collapsed: boolean) => void
   isFromMobile?: boolean // Phase Three: Indicates idea was submitted from mobile device
   isNewIdea?: boolean // Phase Three: Triggers scale-in animation for newly created ideas
+  matrixConfig?: MatrixConfig // Project-specific quadrants used for the border color
 }
 
 // S-tier priority configuration using design system tokens
@@ -98,7 +99,8 @@ export const OptimizedIdeaCard: React.FC<OptimizedIdeaCardProps> = ({
   onDelete,
   onToggleCollapse,
   isFromMobile = false,
-  isNewIdea = false
+  isNewIdea = false,
+  matrixConfig = DEFAULT_MATRIX_CONFIG
 }) => {
   const logger = useLogger('OptimizedIdeaCard')
 
@@ -149,9 +151,8 @@ export const OptimizedIdeaCard: React.FC<OptimizedIdeaCardProps> = ({
 
   // Memoized quadrant and border color calculation
   const quadrantBorderColor = useMemo(() => {
-    const quadrant = calculateQuadrant(idea.x, idea.y)
-    return QUADRANT_COLORS[quadrant]
-  }, [idea.x, idea.y])
+    return getMatrixCell(idea.x, idea.y, matrixConfig).color
+  }, [idea.x, idea.y, matrixConfig])
 
   // Memoized z-index calculation
   const zIndex = useMemo(() => getCardZIndex({
@@ -608,6 +609,25 @@ export const OptimizedIdeaCard: React.FC<OptimizedIdeaCardProps> = ({
             </p>
           )}
 
+          {idea.tags && idea.tags.length > 0 && (
+            <div className="flex flex-wrap" style={{ gap: '4px', marginBottom: '8px' }} data-testid={`idea-tags-${idea.id}`}>
+              {idea.tags.map((tag) => (
+                <span
+                  key={tag}
+                  style={{
+                    fontSize: '9px',
+                    padding: '1px 6px',
+                    borderRadius: 'var(--radius-full)',
+                    background: 'var(--neutral-100)',
+                    color: 'var(--brand-secondary)'
+                  }}
+                >
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* Footer - REDESIGN: Compact metadata */}
           <div
             id={`idea-${idea.id}-meta`}
@@ -733,6 +753,7 @@ export default React.memo(OptimizedIdeaCard, (prevProps, nextProps) => {
     prevProps.currentUser?.id === nextProps.currentUser?.id &&
     prevProps.isDragOverlay === nextProps.isDragOverlay &&
     prevProps.isFromMobile === nextProps.isFromMobile &&
-    prevProps.isNewIdea === nextProps.isNewIdea
+    prevProps.isNewIdea === nextProps.isNewIdea &&
+    prevProps.matrixConfig === nextProps.matrixConfig
   )
 })
\ No newline at end of file
@@ -0,0 +1,109 @@
+/**
+ * IdeaBulkActionBar Test Suite
+ *
+ * Tests batched bulk actions and skipping of cards locked by collaborators
+ */
+
+import React from 'react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { IdeaBulkActionBar } from '../IdeaBulkActionBar'
+import { ProjectRealtimeContext, type ProjectRealtimeContextValue } from '../../../contexts/ProjectRealtimeContext'
+import type { IdeaCard } from '../../../types'
+
+const toast = vi.hoisted(() => ({
+  showError: vi.fn(),
+  showSuccess: vi.fn(),
+  showWarning: vi.fn()
+}))
+
+vi.mock('../../../contexts/ToastContext', () => ({
+  useToast: () => toast
+}))
+
+const idea = (id: string, overrides: Partial<IdeaCard> = {}): IdeaCard => ({
+  id,
+  content: id,
+  details: '',
+  x: 130,
+  y: 130,
+  priority: 'moderate',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides
+})
+
+describe('IdeaBulkActionBar', () => {
+  const onBulkUpdate = vi.fn()
+  const onBulkDelete = vi.fn()
+  const onClearSelection = vi.fn()
+
+  const renderBar = (ideas: IdeaCard[], lockedIds: string[] = []) => {
+    const realtime = {
+      dragLock: {
+        acquire: vi.fn(),
+        release: vi.fn(),
+        isLockedByOther: (id: string) => lockedIds.includes(id)
+      }
+    } as unknown as ProjectRealtimeContextValue
+
+    return render(
+      <ProjectRealtimeContext.Provider value={realtime}>
+        <IdeaBulkActionBar
+          ideas={ideas}
+          currentUser={null}
+          onBulkUpdate={onBulkUpdate}
+          onBulkDelete={onBulkDelete}
+          onClearSelection={onClearSelection}
+        />
+      </ProjectRealtimeContext.Provider>
+    )
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    onBulkUpdate.mockResolvedValue(1)
+  })
+
+  it('renders nothing without a selection', () => {
+    const { container } = renderBar([])
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('sends one batched update and skips cards dragged by collaborators', async () => {
+    renderBar([idea('a'), idea('b')], ['b'])
+
+    fireEvent.change(screen.getByTestId('idea-bulk-priority'), { target: { value: 'high' } })
+
+    await waitFor(() => expect(toast.showWarning).toHaveBeenCalled())
+    expect(onBulkUpdate).toHaveBeenCalledTimes(1)
+    expect(onBulkUpdate).toHaveBeenCalledWith([{ id: 'a', priority: 'high' }], 'Set priority')
+  })
+
+  it('moves ideas into the chosen quadrant', async () => {
+    renderBar([idea('a')])
+
+    fireEvent.change(screen.getByTestId('idea-bulk-move'), { target: { value: 'avoid' } })
+
+    await waitFor(() => expect(onBulkUpdate).toHaveBeenCalledTimes(1))
+    const [[updates]] = onBulkUpdate.mock.calls
+    expect(updates).toHaveLength(1)
+    expect(updates[0].x).toBeGreaterThan(260)
+    expect(updates[0].y).toBeGreaterThan(260)
+  })
+
+  it('adds tags without duplicating existing ones', async () => {
+    renderBar([idea('a', { tags: ['Mobile'] }), idea('b', { tags: ['mobile'] })])
+
+    fireEvent.change(screen.getByTestId('idea-bulk-tag-input'), { target: { value: 'mobile' } })
+    fireEvent.click(screen.getByTestId('idea-bulk-tag'))
+
+    await waitFor(() => expect(onBulkUpdate).toHaveBeenCalledWith([], 'Add tags'))
+  })
+
+  it('clears the selection on Escape', () => {
+    renderBar([idea('a')])
+    fireEvent.keyDown(window, { key: 'Escape' })
+    expect(onClearSelection).toHaveBeenCalled()
+  })
+})
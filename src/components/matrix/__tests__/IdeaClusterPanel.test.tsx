@@ -0,0 +1,143 @@
+/**
+ * IdeaClusterPanel Test Suite
+ *
+ * Tests auto-clustering, renaming and adjusting clusters in project settings
+ */
+
+import React from 'react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { IdeaClusterPanel } from '../IdeaClusterPanel'
+import { DatabaseService } from '../../../lib/database'
+import { aiService } from '../../../lib/aiService'
+import type { IdeaCard, IdeaCluster, Project, User } from '../../../types'
+
+const toast = vi.hoisted(() => ({
+  showError: vi.fn(),
+  showSuccess: vi.fn()
+}))
+
+vi.mock('../../../contexts/ToastContext', () => ({
+  useToast: () => toast
+}))
+
+vi.mock('../../../lib/database', () => ({
+  DatabaseService: { updateProject: vi.fn() }
+}))
+
+vi.mock('../../../lib/aiService', () => ({
+  aiService: { clusterIdeas: vi.fn() }
+}))
+
+const idea = (id: string): IdeaCard => ({
+  id,
+  content: `Idea ${id}`,
+  details: '',
+  x: 130,
+  y: 130,
+  priority: 'moderate',
+  created_by: 'user-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+})
+
+const project = (settings: Project['settings'] = {}): Project => ({
+  id: 'project-1',
+  name: 'Project',
+  project_type: 'other',
+  status: 'active',
+  priority_level: 'medium',
+  visibility: 'private',
+  owner_id: 'user-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  settings
+} as Project)
+
+const owner: User = { id: 'user-1', email: 'owner@example.com' }
+const collaborator: User = { id: 'user-2', email: 'collaborator@example.com' }
+
+const onboarding: IdeaCluster = { id: 'c1', name: 'Onboarding', idea_ids: ['a', 'b'], color: '#2563eb' }
+
+describe('IdeaClusterPanel', () => {
+  const onProjectChange = vi.fn()
+  const ideas = [idea('a'), idea('b'), idea('c')]
+
+  const renderPanel = (clusters: IdeaCluster[] = [], selectedIdeas: IdeaCard[] = [], currentUser: User = owner) =>
+    render(
+      <IdeaClusterPanel
+        ideas={ideas}
+        clusters={clusters}
+        selectedIdeas={selectedIdeas}
+        project={project({ idea_clusters: clusters })}
+        onProjectChange={onProjectChange}
+        currentUser={currentUser}
+      />
+    )
+
+  const savedClusters = () =>
+    vi.mocked(DatabaseService.updateProject).mock.calls[0][1].settings?.idea_clusters
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(DatabaseService.updateProject).mockImplementation(async (id, updates) => ({ ...project(), id, ...updates }) as Project)
+  })
+
+  it('saves AI clusters to project settings', async () => {
+    const clusters: IdeaCluster[] = [onboarding, { id: 'c2', name: 'Billing', idea_ids: ['c'], color: '#16a34a' }]
+    vi.mocked(aiService.clusterIdeas).mockResolvedValue(clusters)
+    renderPanel()
+
+    fireEvent.click(screen.getByTestId('idea-cluster-auto'))
+
+    await waitFor(() => expect(onProjectChange).toHaveBeenCalled())
+    expect(aiService.clusterIdeas).toHaveBeenCalledWith(ideas, expect.objectContaining({ id: 'project-1' }), expect.any(AbortSignal))
+    expect(savedClusters()).toEqual(clusters)
+    expect(toast.showSuccess).toHaveBeenCalledWith('Grouped ideas into 2 themes')
+  })
+
+  it('renames a cluster on blur', async () => {
+    renderPanel([onboarding])
+
+    const input = screen.getByTestId('idea-cluster-name-c1')
+    fireEvent.change(input, { target: { value: 'First run' } })
+    fireEvent.blur(input)
+
+    await waitFor(() => expect(onProjectChange).toHaveBeenCalled())
+    expect(savedClusters()).toEqual([{ ...onboarding, name: 'First run' }])
+  })
+
+  it('moves selected ideas into a cluster and removes single ideas', async () => {
+    renderPanel([onboarding], [idea('c')])
+
+    fireEvent.click(screen.getByTestId('idea-cluster-add-c1'))
+    await waitFor(() => expect(onProjectChange).toHaveBeenCalledTimes(1))
+    expect(savedClusters()).toEqual([{ ...onboarding, idea_ids: ['a', 'b', 'c'] }])
+
+    fireEvent.click(screen.getByTestId('idea-cluster-remove-c1-a'))
+    await waitFor(() => expect(onProjectChange).toHaveBeenCalledTimes(2))
+    expect(vi.mocked(DatabaseService.updateProject).mock.calls[1][1].settings?.idea_clusters).toEqual([
+      { ...onboarding, idea_ids: ['b'] }
+    ])
+  })
+
+  it('shows an error when clustering fails', async () => {
+    vi.mocked(aiService.clusterIdeas).mockRejectedValue(new Error('AI returned no clusters -- please try again'))
+    renderPanel()
+
+    fireEvent.click(screen.getByTestId('idea-cluster-auto'))
+
+    await waitFor(() => expect(toast.showError).toHaveBeenCalledWith('AI returned no clusters -- please try again'))
+    expect(DatabaseService.updateProject).not.toHaveBeenCalled()
+  })
+
+  it('shows clusters read-only to collaborators', () => {
+    renderPanel([onboarding], [ideas[2]], collaborator)
+
+    expect(screen.getByTestId('idea-cluster-read-only')).toBeInTheDocument()
+    expect(screen.getByTestId('idea-cluster-auto')).toBeDisabled()
+    expect(screen.getByTestId('idea-cluster-new')).toBeDisabled()
+    expect(screen.getByTestId('idea-cluster-name-c1')).toBeDisabled()
+    expect(screen.getByTestId('idea-cluster-delete-c1')).toBeDisabled()
+  })
+})
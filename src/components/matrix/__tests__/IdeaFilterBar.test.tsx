@@ -0,0 +1,131 @@
+/**
+ * IdeaFilterBar Test Suite
+ *
+ * Tests filter controls, match count and saved filters in project settings
+ */
+
+import React from 'react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { IdeaFilterBar } from '../IdeaFilterBar'
+import { DatabaseService } from '../../../lib/database'
+import type { IdeaCard, IdeaFilter, Project, User } from '../../../types'
+
+const toast = vi.hoisted(() => ({
+  showError: vi.fn(),
+  showSuccess: vi.fn()
+}))
+
+vi.mock('../../../contexts/ToastContext', () => ({
+  useToast: () => toast
+}))
+
+vi.mock('../../../lib/database', () => ({
+  DatabaseService: { updateProject: vi.fn() }
+}))
+
+const idea = (id: string, overrides: Partial<IdeaCard> = {}): IdeaCard => ({
+  id,
+  content: id,
+  details: '',
+  x: 130,
+  y: 130,
+  priority: 'moderate',
+  created_by: 'user-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides
+})
+
+const project = (settings: Project['settings'] = {}): Project => ({
+  id: 'project-1',
+  name: 'Project',
+  project_type: 'other',
+  status: 'active',
+  priority_level: 'medium',
+  visibility: 'private',
+  owner_id: 'user-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  settings
+} as Project)
+
+const owner: User = { id: 'user-1', email: 'owner@example.com' }
+const collaborator: User = { id: 'user-2', email: 'collaborator@example.com' }
+
+describe('IdeaFilterBar', () => {
+  const onFilterChange = vi.fn()
+  const onProjectChange = vi.fn()
+
+  const renderBar = (filter: IdeaFilter, currentProject = project(), currentUser: User = owner) =>
+    render(
+      <IdeaFilterBar
+        ideas={[idea('a', { tags: ['Mobile'] }), idea('b')]}
+        filter={filter}
+        onFilterChange={onFilterChange}
+        matchCount={1}
+        project={currentProject}
+        onProjectChange={onProjectChange}
+        currentUser={currentUser}
+      />
+    )
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('adds criteria to the current filter', () => {
+    renderBar({ priority: 'high' })
+
+    fireEvent.change(screen.getByTestId('idea-filter-tag'), { target: { value: 'Mobile' } })
+    expect(onFilterChange).toHaveBeenCalledWith({ tags: ['Mobile'], priority: 'high' })
+  })
+
+  it('shows the match count and clears an active filter', () => {
+    renderBar({ priority: 'high' })
+
+    expect(screen.getByTestId('idea-filter-count')).toHaveTextContent('1 of 2 match')
+    fireEvent.click(screen.getByTestId('idea-filter-clear'))
+    expect(onFilterChange).toHaveBeenCalledWith({})
+  })
+
+  it('saves the current filter under a name in project settings', async () => {
+    const updated = project()
+    vi.mocked(DatabaseService.updateProject).mockResolvedValue(updated)
+    renderBar({ tags: ['Mobile'] })
+
+    fireEvent.click(screen.getByTestId('idea-filter-save'))
+    fireEvent.change(screen.getByTestId('idea-filter-save-name'), { target: { value: 'Mobile work' } })
+    fireEvent.click(screen.getByTestId('idea-filter-save-confirm'))
+
+    await waitFor(() => expect(onProjectChange).toHaveBeenCalledWith(updated))
+    const [[, { settings }]] = vi.mocked(DatabaseService.updateProject).mock.calls
+    expect(settings?.saved_idea_filters).toEqual([
+      expect.objectContaining({ name: 'Mobile work', filter: { tags: ['Mobile'] } })
+    ])
+  })
+
+  it('applies a saved filter', () => {
+    renderBar({}, project({
+      saved_idea_filters: [{ id: 'saved-1', name: 'High', filter: { priority: 'high' }, created_at: '2026-01-01T00:00:00.000Z' }]
+    }))
+
+    fireEvent.change(screen.getByTestId('idea-filter-saved'), { target: { value: 'saved-1' } })
+    expect(onFilterChange).toHaveBeenCalledWith({ priority: 'high' })
+  })
+
+  it('lets only those who can edit the project save or delete filters', () => {
+    const withSaved = project({
+      saved_idea_filters: [{ id: 'saved-1', name: 'High', filter: { priority: 'high' }, created_at: '2026-01-01T00:00:00.000Z' }]
+    })
+    const { unmount } = renderBar({ priority: 'high' }, withSaved, collaborator)
+
+    expect(screen.getByTestId('idea-filter-saved')).toBeInTheDocument()
+    expect(screen.queryByTestId('idea-filter-delete-saved')).not.toBeInTheDocument()
+
+    unmount()
+    renderBar({ tags: ['Mobile'] }, withSaved, collaborator)
+    expect(screen.queryByTestId('idea-filter-save')).not.toBeInTheDocument()
+    expect(screen.getByTestId('idea-filter-copy-link')).toBeInTheDocument()
+  })
+})
@@ -121,6 +121,27 @@ vi.mock('../../../lib/repositories/voteRepository', () => ({
   },
 }))
 
+// Blind rating: no round running — drags go through the normal onDragEnd path
+vi.mock('../../../hooks/useBlindRating', () => ({
+  useBlindRating: vi.fn(() => ({
+    status: null,
+    role: 'owner',
+    canRate: true,
+    isFacilitator: true,
+    myRatings: new Map(),
+    ratings: [],
+    consensus: new Map(),
+    widestDisagreements: [],
+    raterProgress: new Map(),
+    rateIdea: vi.fn(),
+    startRound: vi.fn(),
+    reveal: vi.fn(),
+    endRound: vi.fn(),
+    loading: false,
+    error: null,
+  })),
+}))
+
 vi.mock('../../brainstorm/SessionQRCode', () => ({ default: () => null }))
 vi.mock('../../brainstorm/SessionControls', () => ({ default: () => null }))
 vi.mock('../../brainstorm/DesktopParticipantPanel', () => ({ default: () => null }))
@@ -2,39 +2,37 @@ import React, { useMemo, useState } from 'react'
 import { ChevronDown, ChevronRight } from 'lucide-react'
 import type { IdeaCard } from '../../types'
 import {
-  calculateQuadrant,
-  QUADRANT_COLORS,
-  QUADRANT_LABELS,
-  type Quadrant,
+  DEFAULT_MATRIX_CONFIG,
+  getMatrixCell,
+  type MatrixConfig,
 } from '../../utils/matrixQuadrant'
 
 interface MobileMatrixPageProps {
   ideas: IdeaCard[]
   onEditIdea?: (idea: IdeaCard) => void
+  matrixConfig?: MatrixConfig
 }
 
-const QUADRANT_ORDER: Quadrant[] = ['quick-wins', 'strategic', 'reconsider', 'avoid']
-
-export const MobileMatrixPage: React.FC<MobileMatrixPageProps> = ({ ideas, onEditIdea }) => {
+export const MobileMatrixPage: React.FC<MobileMatrixPageProps> = ({
+  ideas,
+  onEditIdea,
+  matrixConfig = DEFAULT_MATRIX_CONFIG,
+}) => {
   const grouped = useMemo(() => {
-    const acc: Record<Quadrant, IdeaCard[]> = {
-      'quick-wins': [],
-      strategic: [],
-      reconsider: [],
-      avoid: [],
-    }
+    const acc: Record<string, IdeaCard[]> = {}
+    for (const quadrant of matrixConfig.quadrants) acc[quadrant.id] = []
     for (const idea of ideas) {
-      acc[calculateQuadrant(idea.x, idea.y)].push(idea)
+      acc[getMatrixCell(idea.x, idea.y, matrixConfig).id].push(idea)
     }
     return acc
-  }, [ideas])
+  }, [ideas, matrixConfig])
 
-  const [open, setOpen] = useState<Record<Quadrant, boolean>>({
-    'quick-wins': true,
-    strategic: true,
-    reconsider: false,
-    avoid: false,
-  })
+  // Top row (highest value by default) starts expanded
+  const [open, setOpen] = useState<Record<string, boolean>>(() =>
+    Object.fromEntries(
+      matrixConfig.quadrants.map((quadrant, index) => [quadrant.id, index < matrixConfig.divisions])
+    )
+  )
 
   if (ideas.length === 0) {
     return (
@@ -47,9 +45,10 @@ export const MobileMatrixPage: React.FC<MobileMatrixPageProps> = ({ ideas, onEdi
 
   return (
     <div className="px-4 py-4 space-y-4">
-      {QUADRANT_ORDER.map((q) => {
+      {matrixConfig.quadrants.map((quadrant) => {
+        const q = quadrant.id
         const list = grouped[q]
-        const isOpen = open[q]
+        const isOpen = !!open[q]
         return (
           <section key={q} className="rounded-lg border border-neutral-200 bg-white">
             <button
@@ -62,9 +61,9 @@ export const MobileMatrixPage: React.FC<MobileMatrixPageProps> = ({ ideas, onEdi
                 <span
                   aria-hidden="true"
                   className="inline-block w-2.5 h-2.5 rounded-full"
-                  style={{ backgroundColor: QUADRANT_COLORS[q] }}
+                  style={{ backgroundColor: quadrant.color }}
                 />
-                <span className="font-medium text-neutral-900">{QUADRANT_LABELS[q]}</span>
+                <span className="font-medium text-neutral-900">{quadrant.label}</span>
                 <span className="text-xs text-neutral-500">({list.length})</span>
               </div>
               {isOpen ? (
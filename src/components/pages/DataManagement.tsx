@@ -1,18 +1,32 @@
 import React, { useState, useRef } from 'react'
 import { Download, Upload, FileText, AlertCircle, CheckCircle, Database, Trash2 } from 'lucide-react'
-import { IdeaCard } from '../../types'
+import { IdeaCard, Project } from '../../types'
 import { exportToCSV, parseCSV, validateCSVFile } from '../../utils/csvUtils'
 import { DatabaseService } from '../../lib/database'
 import { supabase } from '../../lib/supabase'
 import { logger } from '../../utils/logger'
+import ProjectBackupPanel from '../backup/ProjectBackupPanel'
+import ProjectDeckExportPanel from '../exports/ProjectDeckExportPanel'
+import ProjectWorkbookPanel from '../exports/ProjectWorkbookPanel'
 
 interface DataManagementProps {
   ideas: IdeaCard[]
   currentUser: string
   onDataUpdated: () => void
+  currentProject?: Project | null
+  userId?: string
+  /** Called after a backup was restored, with the project it went into */
+  onProjectRestored?: (project: Project) => void
 }
 
-const DataManagement: React.FC<DataManagementProps> = ({ ideas, currentUser, onDataUpdated }) => {
+const DataManagement: React.FC<DataManagementProps> = ({
+  ideas,
+  currentUser,
+  onDataUpdated,
+  currentProject,
+  userId,
+  onProjectRestored
+}) => {
   const [importStatus, setImportStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle')
   const [importMessage, setImportMessage] = useState('')
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
@@ -199,6 +213,30 @@ const DataManagement: React.FC<DataManagementProps> = ({ ideas, currentUser, onD
         </div>
       </div>
 
+      {/* PowerPoint deck */}
+      {currentProject && (
+        <ProjectDeckExportPanel currentProject={currentProject} ideas={ideas || []} />
+      )}
+
+      {/* Excel workbook */}
+      {currentProject && userId && (
+        <ProjectWorkbookPanel
+          currentProject={currentProject}
+          ideas={ideas || []}
+          userId={userId}
+          onDataUpdated={onDataUpdated}
+        />
+      )}
+
+      {/* Full project backup */}
+      {currentProject && userId && onProjectRestored && (
+        <ProjectBackupPanel
+          currentProject={currentProject}
+          userId={userId}
+          onProjectRestored={onProjectRestored}
+        />
+      )}
+
       {/* Danger Zone */}
       {(ideas || []).length > 0 && (
         <div className="bg-red-50 border border-red-200/60 rounded-2xl p-6">
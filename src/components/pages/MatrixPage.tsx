@@ -1,14 +1,30 @@
-import React, { useState, useCallback } from 'react'
+import React, { useState, useCallback, useMemo } from 'react'
 import { createPortal } from 'react-dom'
-import { Plus, Sparkles, Target, Lightbulb, Maximize2 } from 'lucide-react'
-import { User, Project, IdeaCard } from '../../types'
+import { Plus, Sparkles, Target, Lightbulb, Maximize2, SlidersHorizontal, EyeOff, History, Wand2, Copy, Layers } from 'lucide-react'
+import { User, Project, IdeaCard, IdeaFilter, MatrixLayout, MatrixPlacementMode, ScoringFramework } from '../../types'
 import DesignMatrix from '../DesignMatrix'
 import ProjectHeader from '../ProjectHeader'
 import ProjectFiles from '../ProjectFiles'
 import MatrixFullScreenView from '../matrix/MatrixFullScreenView'
+import MatrixSettingsModal from '../matrix/MatrixSettingsModal'
+import MatrixHistoryPanel from '../matrix/MatrixHistoryPanel'
+import IdeaBulkActionBar from '../matrix/IdeaBulkActionBar'
+import IdeaFilterBar from '../matrix/IdeaFilterBar'
+import IdeaPlacementModal, { type AcceptedPlacement } from '../matrix/IdeaPlacementModal'
+import DuplicateIdeasModal from '../matrix/DuplicateIdeasModal'
+import IdeaClusterPanel from '../matrix/IdeaClusterPanel'
 import { useProjectFiles } from '../../hooks/useProjectFiles'
 import { Button } from '../ui/Button'
 import { logger } from '../../utils/logger'
+import { countIdeasByQuadrant, resolveMatrixConfig } from '../../utils/matrixQuadrant'
+import { isIdeaFilterActive, matchesIdeaFilter } from '../../utils/ideaFilter'
+import { resolveIdeaClusters } from '../../utils/ideaClusters'
+import { SCORING_FRAMEWORKS, SCORING_FRAMEWORK_IDS, getPlacedIdeas, getScorePlacementSettings, isScorePlaced } from '../../utils/ideaScoring'
+import { canEditProjectSettings, withMatrixViewSettings } from '../../lib/config/projectSettings'
+import { DatabaseService } from '../../lib/database'
+import { MAX_IDEAS_PER_PLACEMENT } from '../../lib/ai'
+import { useToast } from '../../contexts/ToastContext'
+import type { IdeaBulkUpdate, IdeaMergeInput } from '../../lib/repositories'
 
 interface MatrixPageProps {
   currentUser: User
@@ -28,6 +44,9 @@ interface MatrixPageProps {
   deleteIdea?: (ideaId: string) => Promise<void>
   toggleCollapse?: (ideaId: string, collapsed?: boolean) => Promise<void>
   handleDragEnd?: (event: any) => Promise<void>
+  bulkUpdateIdeas?: (updates: IdeaBulkUpdate[], label?: string) => Promise<number>
+  bulkDeleteIdeas?: (ideaIds: string[]) => Promise<number>
+  mergeIdeas?: (input: IdeaMergeInput) => Promise<IdeaCard>
   // Modal state for fullscreen rendering
   showAddModal?: boolean
   showAIModal?: boolean
@@ -35,6 +54,18 @@ interface MatrixPageProps {
   updateIdea?: (updatedIdea: IdeaCard) => Promise<void> // Signature from useIdeas hook
   /** Callback to reload ideas (polling fallback) */
   loadIdeas?: (projectId?: string, skipClear?: boolean) => Promise<void>
+  /** Matrix filter, kept in sync with the URL by useBrowserHistory */
+  ideaFilter?: IdeaFilter
+  onIdeaFilterChange?: (filter: IdeaFilter) => void
+}
+
+const NO_FILTER: IdeaFilter = {}
+
+// Statistics grid per layout: one row of five cards for 2x2; for 3x3 the total
+// spans a row above the nine cells, laid out like the board
+const STAT_GRID_CLASSES: Record<MatrixLayout, { grid: string; total: string }> = {
+  '2x2': { grid: 'md:grid-cols-5', total: '' },
+  '3x3': { grid: 'md:grid-cols-3', total: 'md:col-span-3' }
 }
 
 const MatrixPage: React.FC<MatrixPageProps> = ({
@@ -53,14 +84,93 @@ const MatrixPage: React.FC<MatrixPageProps> = ({
   deleteIdea,
   toggleCollapse,
   handleDragEnd,
+  bulkUpdateIdeas,
+  bulkDeleteIdeas,
+  mergeIdeas,
   showAddModal,
   showAIModal,
   addIdea,
   updateIdea,
-  loadIdeas
+  loadIdeas,
+  ideaFilter = NO_FILTER,
+  onIdeaFilterChange
 }) => {
   // Full-screen state
   const [isFullScreen, setIsFullScreen] = useState(false)
+  const [showMatrixSettings, setShowMatrixSettings] = useState(false)
+  // History timeline: replayIdeas replaces the live board while it is open
+  const [showHistory, setShowHistory] = useState(false)
+  const [replayIdeas, setReplayIdeas] = useState<IdeaCard[] | null>(null)
+  // Multi-select for bulk actions; ids of ideas that are gone are ignored
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set())
+  // Ideas under AI placement review, fixed when the review opens
+  const [placementIdeas, setPlacementIdeas] = useState<IdeaCard[] | null>(null)
+  const [showDuplicates, setShowDuplicates] = useState(false)
+  const [showClusters, setShowClusters] = useState(false)
+
+  const matrixConfig = useMemo(
+    () => resolveMatrixConfig(currentProject?.settings?.matrix_view),
+    [currentProject?.settings?.matrix_view]
+  )
+  const placement = getScorePlacementSettings(currentProject?.settings?.matrix_view)
+  const placedIdeas = useMemo(
+    () => getPlacedIdeas(ideas, currentProject?.settings?.matrix_view),
+    [ideas, currentProject?.settings?.matrix_view]
+  )
+  const quadrantCounts = useMemo(() => countIdeasByQuadrant(placedIdeas, matrixConfig), [placedIdeas, matrixConfig])
+  const selectedIdeas = useMemo(
+    () => placedIdeas.filter((idea) => selectedIds.has(idea.id)),
+    [placedIdeas, selectedIds]
+  )
+  // Cards outside the filter stay on the board, dimmed
+  const dimmedIds = useMemo(() => {
+    if (!isIdeaFilterActive(ideaFilter)) return undefined
+    return new Set(placedIdeas.filter((idea) => !matchesIdeaFilter(idea, ideaFilter, matrixConfig)).map((idea) => idea.id))
+  }, [placedIdeas, ideaFilter, matrixConfig])
+  const clusters = useMemo(
+    () => resolveIdeaClusters(currentProject?.settings?.idea_clusters, placedIdeas),
+    [currentProject?.settings?.idea_clusters, placedIdeas]
+  )
+  const canBulkEdit = Boolean(bulkUpdateIdeas && bulkDeleteIdeas) && replayIdeas === null
+  // Placement mode and matrix settings are saved in project settings
+  const canEditSettings = canEditProjectSettings(currentProject, currentUser)
+  const ownerOnlyTitle = canEditSettings ? undefined : 'Only the project owner can change this'
+  const { showError, showSuccess } = useToast()
+
+  const handlePlacementChange = useCallback(async (mode: MatrixPlacementMode, framework: ScoringFramework) => {
+    if (!currentProject || !canEditSettings) return
+    try {
+      const settings = withMatrixViewSettings(currentProject.settings, {
+        placement_mode: mode,
+        scoring_framework: framework
+      })
+      const updated = await DatabaseService.updateProject(currentProject.id, { settings })
+      if (updated) onProjectChange(updated)
+    } catch (error) {
+      logger.error('Failed to update matrix placement mode:', error)
+      showError('Failed to update placement mode')
+    }
+  }, [currentProject, canEditSettings, onProjectChange, showError])
+
+  const handleClearSelection = useCallback(() => setSelectedIds(new Set()), [])
+
+  const isPositionLocked = useCallback(
+    (idea: IdeaCard) => isScorePlaced(idea, currentProject?.settings?.matrix_view),
+    [currentProject?.settings?.matrix_view]
+  )
+
+  // AI placement targets the selection, or else ideas nobody has placed yet
+  const placementCandidates = useMemo(() => {
+    const pool = selectedIdeas.length > 0
+      ? selectedIdeas
+      : placedIdeas.filter((idea) => idea.unplaced)
+    return pool.filter((idea) => !isPositionLocked(idea)).slice(0, MAX_IDEAS_PER_PLACEMENT)
+  }, [selectedIdeas, placedIdeas, isPositionLocked])
+
+  const handleCloseHistory = useCallback(() => {
+    setShowHistory(false)
+    setReplayIdeas(null)
+  }, [])
 
   // Memoize onExit callback to prevent useEffect cleanup in MatrixFullScreenView
   const handleExitFullScreen = useCallback(() => {
@@ -90,6 +200,24 @@ const MatrixPage: React.FC<MatrixPageProps> = ({
     await updateIdea(updatedIdea)
   }, [updateIdea, ideas])
 
+  // Accepted AI placements are saved as one batch, undone in one step
+  const handleApplyPlacements = useCallback(async (placements: AcceptedPlacement[]) => {
+    if (!bulkUpdateIdeas || placements.length === 0) return
+    try {
+      const placed = await bulkUpdateIdeas(placements.map(({ ideaId, x, y }) => ({ id: ideaId, x, y })), 'AI placement')
+      showSuccess(`Placed ${placed} idea${placed === 1 ? '' : 's'}`)
+    } catch (error) {
+      logger.error('Failed to apply AI placements:', error)
+      showError('Failed to place ideas')
+    }
+  }, [bulkUpdateIdeas, showSuccess, showError])
+
+  const handleMergeIdeas = useCallback(async (input: IdeaMergeInput) => {
+    const merged = await mergeIdeas!(input)
+    showSuccess(`Merged ${input.sourceIds.length + 1} ideas into "${merged.content}"`)
+    return merged
+  }, [mergeIdeas, showSuccess])
+
   // Memoize refresh callback for polling fallback (brainstorm sessions)
   // CRITICAL: Pass skipClear=true to prevent flickering during polling refreshes
   const handleRefreshIdeas = useCallback(async () => {
@@ -130,10 +258,44 @@ const MatrixPage: React.FC<MatrixPageProps> = ({
           onUpdateIdea={handleUpdateIdea}
           onRefreshIdeas={handleRefreshIdeas}
           setIdeas={setIdeas}
+          onProjectChange={onProjectChange}
+          onBulkUpdateIdeas={bulkUpdateIdeas}
+          onBulkDeleteIdeas={bulkDeleteIdeas}
         />,
         document.body
       )}
 
+      {showMatrixSettings && currentProject && (
+        <MatrixSettingsModal
+          isOpen={showMatrixSettings}
+          project={currentProject}
+          onClose={() => setShowMatrixSettings(false)}
+          onSaved={onProjectChange}
+        />
+      )}
+
+      {placementIdeas && currentProject && (
+        <IdeaPlacementModal
+          isOpen={true}
+          ideas={placementIdeas}
+          board={placedIdeas}
+          project={currentProject}
+          matrixConfig={matrixConfig}
+          onClose={() => setPlacementIdeas(null)}
+          onApply={handleApplyPlacements}
+        />
+      )}
+
+      {showDuplicates && currentProject && (
+        <DuplicateIdeasModal
+          isOpen={true}
+          ideas={ideas}
+          projectId={currentProject.id}
+          onClose={() => setShowDuplicates(false)}
+          onMerge={handleMergeIdeas}
+        />
+      )}
+
       {/* Normal View */}
       <div className={`bg-slate-50 min-h-screen ${isFullScreen ? 'hidden' : ''}`}>
         {/* Main Content — responsive padding (07-02): mobile reduces to px-4 */}
@@ -150,6 +312,60 @@ const MatrixPage: React.FC<MatrixPageProps> = ({
           <>
             {/* Add Idea Buttons */}
             <div className="flex justify-end gap-3 mb-6">
+              <div className="flex items-center gap-2 mr-auto" data-testid="matrix-placement-controls">
+                <div className="flex rounded-lg border border-hairline-default overflow-hidden" role="group" aria-label="Card placement">
+                  {(['free', 'score'] as MatrixPlacementMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      aria-pressed={placement.mode === mode}
+                      onClick={() => handlePlacementChange(mode, placement.framework)}
+                      disabled={!canEditSettings}
+                      title={ownerOnlyTitle}
+                      className={`px-3 py-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed ${placement.mode === mode ? 'bg-sapphire-600 text-white' : 'bg-surface-primary text-graphite-600'}`}
+                      data-testid={`matrix-placement-${mode}`}
+                    >
+                      {mode === 'free' ? 'Free placement' : 'Score-driven'}
+                    </button>
+                  ))}
+                </div>
+                {placement.mode === 'score' && (
+                  <select
+                    value={placement.framework}
+                    onChange={(e) => handlePlacementChange('score', e.target.value as ScoringFramework)}
+                    disabled={!canEditSettings}
+                    title={ownerOnlyTitle}
+                    className="px-3 py-2 text-sm border rounded-lg border-hairline-default text-graphite-900 bg-surface-primary"
+                    aria-label="Scoring framework"
+                    data-testid="matrix-scoring-framework"
+                  >
+                    {SCORING_FRAMEWORK_IDS.map((id) => (
+                      <option key={id} value={id}>{SCORING_FRAMEWORKS[id].label}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <Button
+                onClick={() => setShowMatrixSettings(true)}
+                variant="secondary"
+                size="md"
+                icon={<SlidersHorizontal className="w-4 h-4" />}
+                disabled={!canEditSettings}
+                title={ownerOnlyTitle}
+                data-testid="matrix-settings-button"
+              >
+                Matrix Settings
+              </Button>
+              <Button
+                onClick={() => (showHistory ? handleCloseHistory() : setShowHistory(true))}
+                variant="secondary"
+                size="md"
+                icon={<History className="w-4 h-4" />}
+                aria-pressed={showHistory}
+                data-testid="matrix-history-button"
+              >
+                History
+              </Button>
               <Button
                 onClick={() => setIsFullScreen(true)}
                 variant="secondary"
@@ -160,6 +376,37 @@ const MatrixPage: React.FC<MatrixPageProps> = ({
               >
                 Full Screen
               </Button>
+              <Button
+                onClick={() => setPlacementIdeas(placementCandidates)}
+                variant="secondary"
+                size="md"
+                icon={<Wand2 className="w-4 h-4" />}
+                disabled={!bulkUpdateIdeas || replayIdeas !== null || placementCandidates.length === 0}
+                title={selectedIdeas.length > 0 ? 'Place the selected ideas' : 'Place ideas nobody has placed yet'}
+                data-testid="matrix-place-with-ai"
+              >
+                Place with AI
+              </Button>
+              <Button
+                onClick={() => setShowDuplicates(true)}
+                variant="secondary"
+                size="md"
+                icon={<Copy className="w-4 h-4" />}
+                disabled={!mergeIdeas || replayIdeas !== null || ideas.length < 2}
+                data-testid="matrix-find-duplicates"
+              >
+                Find duplicates
+              </Button>
+              <Button
+                onClick={() => setShowClusters((open) => !open)}
+                variant="secondary"
+                size="md"
+                icon={<Layers className="w-4 h-4" />}
+                aria-pressed={showClusters}
+                data-testid="matrix-clusters-button"
+              >
+                Clusters
+              </Button>
               <Button
                 onClick={() => {
                   onShowAIModal()
@@ -185,41 +432,112 @@ const MatrixPage: React.FC<MatrixPageProps> = ({
               </Button>
             </div>
 
+            {currentProject?.settings?.blind_rating && (
+              <div
+                className="mb-4 flex items-center gap-2 rounded-lg border border-sapphire-200 bg-sapphire-50 px-4 py-3 text-sm text-sapphire-800"
+                role="status"
+                data-testid="blind-rating-banner"
+              >
+                <EyeOff className="w-4 h-4 flex-shrink-0" />
+                {currentProject.settings.blind_rating.status === 'collecting'
+                  ? 'A blind rating round is running. Open Full Screen to place ideas privately.'
+                  : 'Blind ratings are revealed. Open Full Screen to see the consensus and disagreements.'}
+              </div>
+            )}
+
+            {showHistory && (
+              <MatrixHistoryPanel
+                projectId={currentProject.id}
+                onBoardChange={setReplayIdeas}
+                onClose={handleCloseHistory}
+              />
+            )}
+
+            {onIdeaFilterChange && (
+              <IdeaFilterBar
+                ideas={placedIdeas}
+                filter={ideaFilter}
+                onFilterChange={onIdeaFilterChange}
+                matchCount={placedIdeas.length - (dimmedIds?.size ?? 0)}
+                project={currentProject}
+                onProjectChange={onProjectChange}
+                currentUser={currentUser}
+                matrixConfig={matrixConfig}
+              />
+            )}
+
+            {showClusters && (
+              <IdeaClusterPanel
+                ideas={placedIdeas}
+                clusters={clusters}
+                selectedIdeas={selectedIdeas}
+                project={currentProject}
+                onProjectChange={onProjectChange}
+                currentUser={currentUser}
+              />
+            )}
+
+            {canBulkEdit && bulkUpdateIdeas && bulkDeleteIdeas && (
+              <IdeaBulkActionBar
+                ideas={selectedIdeas}
+                currentUser={currentUser}
+                matrixConfig={matrixConfig}
+                onBulkUpdate={bulkUpdateIdeas}
+                onBulkDelete={bulkDeleteIdeas}
+                onClearSelection={handleClearSelection}
+                isPositionLocked={isPositionLocked}
+              />
+            )}
+
             {!isFullScreen && (
               <DesignMatrix
-                ideas={ideas}
+                ideas={replayIdeas ?? placedIdeas}
+                readOnly={replayIdeas !== null}
+                selectedIds={canBulkEdit ? selectedIds : undefined}
+                onSelectionChange={canBulkEdit ? setSelectedIds : undefined}
+                dimmedIds={replayIdeas === null ? dimmedIds : undefined}
+                clusters={replayIdeas === null ? clusters : undefined}
                 activeId={activeId || null}
                 currentUser={currentUser}
                 onEditIdea={onSetEditingIdea || (() => {})}
                 onDeleteIdea={deleteIdea || (async () => {})}
                 onToggleCollapse={toggleCollapse || (async () => {})}
+                matrixConfig={matrixConfig}
               />
             )}
 
             {/* Modern Statistics */}
-            <div className="mt-10 grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div className={`mt-10 grid grid-cols-1 ${STAT_GRID_CLASSES[matrixConfig.layout].grid} gap-6`}>
               {[
-                { label: 'Total Ideas', value: (ideas || []).length, color: 'slate', bgColor: 'bg-slate-50', textColor: 'text-slate-600', valueColor: 'text-slate-900', icon: Lightbulb },
-                { label: 'Quick Wins', value: (ideas || []).filter(i => i.x <= 260 && i.y < 260).length, color: 'emerald', bgColor: 'bg-emerald-50', textColor: 'text-emerald-600', valueColor: 'text-emerald-900', icon: Target },
-                { label: 'Strategic', value: (ideas || []).filter(i => i.x > 260 && i.y < 260).length, color: 'blue', bgColor: 'bg-blue-50', textColor: 'text-blue-600', valueColor: 'text-blue-900', icon: Target },
-                { label: 'Avoid', value: (ideas || []).filter(i => i.x > 260 && i.y >= 260).length, color: 'red', bgColor: 'bg-red-50', textColor: 'text-red-600', valueColor: 'text-red-900', icon: Target }
-              ].map((stat, index) => (
-                <div key={index} className={`${stat.bgColor} rounded-2xl p-6 border border-${stat.color}-200/60 shadow-sm hover:shadow-md transition-shadow`}>
+                { id: 'total', label: 'Total Ideas', value: (ideas || []).length, color: '#475569', caption: 'Ideas in matrix', icon: Lightbulb, span: STAT_GRID_CLASSES[matrixConfig.layout].total },
+                ...matrixConfig.quadrants.map((quadrant) => ({
+                  id: quadrant.id,
+                  label: quadrant.label,
+                  value: quadrantCounts[quadrant.id] || 0,
+                  color: quadrant.color,
+                  caption: quadrant.description || '',
+                  icon: Target,
+                  span: ''
+                }))
+              ].map((stat) => (
+                <div
+                  key={stat.id}
+                  className={`rounded-2xl p-6 border shadow-sm hover:shadow-md transition-shadow ${stat.span}`}
+                  style={{ backgroundColor: `${stat.color}0D`, borderColor: `${stat.color}33` }}
+                  data-testid={`matrix-stat-${stat.id}`}
+                >
                   <div className="flex items-center justify-between mb-4">
-                    <div className={`p-3 ${stat.bgColor === 'bg-slate-50' ? 'bg-slate-200' : `bg-${stat.color}-200`} rounded-xl`}>
-                      <stat.icon className={`w-5 h-5 ${stat.valueColor}`} />
+                    <div className="p-3 rounded-xl" style={{ backgroundColor: `${stat.color}26` }}>
+                      <stat.icon className="w-5 h-5" style={{ color: stat.color }} />
                     </div>
-                    <div className={`text-3xl font-bold ${stat.valueColor}`}>
+                    <div className="text-3xl font-bold text-slate-900">
                       {stat.value}
                     </div>
                   </div>
                   <div>
-                    <p className={`text-sm font-semibold ${stat.textColor}`}>{stat.label}</p>
-                    <p className={`text-xs ${stat.textColor} opacity-80 mt-1`}>
-                      {stat.label === 'Total Ideas' && 'Ideas in matrix'}
-                      {stat.label === 'Quick Wins' && 'High value, low effort'}
-                      {stat.label === 'Strategic' && 'High value, high effort'}
-                      {stat.label === 'Avoid' && 'Low value, high effort'}
+                    <p className="text-sm font-semibold" style={{ color: stat.color }}>{stat.label}</p>
+                    <p className="text-xs opacity-80 mt-1" style={{ color: stat.color }}>
+                      {stat.caption}
                     </p>
                   </div>
                 </div>
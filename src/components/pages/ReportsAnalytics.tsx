@@ -6,6 +6,7 @@ import AIInsightsModal from '../AIInsightsModal'
 import { OpenAIModel } from '../../lib/ai/openaiModelRouter'
 import { logger } from '../../utils/logger'
 import { Button } from '../ui/Button'
+import { countIdeasByQuadrant, resolveMatrixConfig } from '../../utils/matrixQuadrant'
 
 interface ReportsAnalyticsProps {
   ideas: IdeaCard[]
@@ -140,12 +141,10 @@ const ReportsAnalytics: React.FC<ReportsAnalyticsProps> = ({ ideas, currentUser,
     return acc
   }, {} as Record<string, number>)
 
-  const quadrantData = {
-    quickWins: (ideas || []).filter(i => i.x <= 260 && i.y < 260).length,
-    strategic: (ideas || []).filter(i => i.x > 260 && i.y < 260).length,
-    reconsider: (ideas || []).filter(i => i.x <= 260 && i.y >= 260).length,
-    avoid: (ideas || []).filter(i => i.x > 260 && i.y >= 260).length
-  }
+  const matrixConfig = resolveMatrixConfig(currentProject?.settings?.matrix_view)
+  const quadrantData = countIdeasByQuadrant(ideas || [], matrixConfig)
+  // The top-left cell is the project's best quadrant (Quick Wins by default)
+  const topQuadrant = matrixConfig.quadrants[0]
 
   const contributorData = (ideas || []).reduce((acc, idea) => {
     const contributor = getUserDisplayName(idea.created_by)
@@ -337,10 +336,10 @@ const ReportsAnalytics: React.FC<ReportsAnalyticsProps> = ({ ideas, currentUser,
             <div className="p-3 bg-emerald-50 rounded-xl">
               <Target className="w-6 h-6 text-emerald-600" />
             </div>
-            <span className="text-2xl font-bold text-slate-900">{quadrantData.quickWins}</span>
+            <span className="text-2xl font-bold text-slate-900">{quadrantData[topQuadrant.id]}</span>
           </div>
-          <h3 className="text-sm font-semibold text-slate-700 mb-1">Quick Wins</h3>
-          <p className="text-xs text-slate-500">High value, low effort</p>
+          <h3 className="text-sm font-semibold text-slate-700 mb-1">{topQuadrant.label}</h3>
+          <p className="text-xs text-slate-500">{topQuadrant.description}</p>
         </div>
 
         <div className="bg-white rounded-2xl p-6 border border-slate-200/60 shadow-sm">
@@ -378,33 +377,22 @@ const ReportsAnalytics: React.FC<ReportsAnalyticsProps> = ({ ideas, currentUser,
           </div>
           
           <div className="space-y-4">
-            {Object.entries(quadrantData).map(([key, value]) => {
+            {matrixConfig.quadrants.map((quadrant) => {
+              const value = quadrantData[quadrant.id]
               const total = Object.values(quadrantData).reduce((a, b) => a + b, 0)
               const percentage = total > 0 ? (value / total * 100) : 0
-              const labels = {
-                quickWins: 'Quick Wins',
-                strategic: 'Strategic',
-                reconsider: 'Reconsider',
-                avoid: 'Avoid'
-              }
-              const colors = {
-                quickWins: 'bg-emerald-500',
-                strategic: 'bg-blue-500', 
-                reconsider: 'bg-amber-500',
-                avoid: 'bg-red-500'
-              }
-              
+
               return (
-                <div key={key} className="flex items-center justify-between">
+                <div key={quadrant.id} className="flex items-center justify-between">
                   <div className="flex items-center space-x-3">
-                    <div className={`w-3 h-3 rounded-full ${colors[key as keyof typeof colors]}`}></div>
-                    <span className="text-sm font-medium text-slate-700">{labels[key as keyof typeof labels]}</span>
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: quadrant.color }}></div>
+                    <span className="text-sm font-medium text-slate-700">{quadrant.label}</span>
                   </div>
                   <div className="flex items-center space-x-2">
                     <div className="w-24 bg-slate-200 rounded-full h-2">
                       <div 
-                        className={`h-2 rounded-full ${colors[key as keyof typeof colors]}`}
-                        style={{ width: `${percentage}%` }}
+                        className="h-2 rounded-full"
+                        style={{ width: `${percentage}%`, backgroundColor: quadrant.color }}
                       ></div>
                     </div>
                     <span className="text-sm font-semibold text-slate-900 w-8">{value}</span>
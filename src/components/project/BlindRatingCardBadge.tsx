@@ -0,0 +1,57 @@
+/**
+ * BlindRatingCardBadge — per-card blind rating state
+ *
+ * While collecting, raters see which ideas they have not placed yet. After
+ * reveal, the ideas with the widest disagreement get an amber ring and a
+ * rater count so the group knows where to start the discussion.
+ *
+ * Returns null outside a BlindRatingProvider (nullable pattern).
+ */
+
+import React, { useContext } from 'react'
+import { AlertTriangle, EyeOff } from 'lucide-react'
+import { BlindRatingContext } from '../../contexts/BlindRatingContext'
+
+export interface BlindRatingCardBadgeProps {
+  ideaId: string
+  ideaTitle: string
+}
+
+export function BlindRatingCardBadge({
+  ideaId,
+  ideaTitle,
+}: BlindRatingCardBadgeProps): React.ReactElement | null {
+  const ctx = useContext(BlindRatingContext)
+  if (!ctx || !ctx.status) return null
+
+  if (ctx.status === 'collecting') {
+    if (!ctx.canRate || ctx.myRatings.has(ideaId)) return null
+    return (
+      <div
+        data-testid={`blind-rating-unrated-${ideaId}`}
+        className="absolute -top-2 left-1 flex items-center gap-1 bg-graphite-700/85 text-white text-[10px] px-1.5 py-0.5 rounded-full pointer-events-none select-none z-10"
+        aria-label={`You have not rated '${ideaTitle}' yet`}
+      >
+        <EyeOff className="w-3 h-3" aria-hidden="true" />
+        <span>Not rated</span>
+      </div>
+    )
+  }
+
+  const entry = ctx.widestDisagreements.find((e) => e.ideaId === ideaId)
+  if (!entry) return null
+
+  return (
+    <div
+      data-testid={`blind-rating-disagreement-${ideaId}`}
+      className="absolute inset-0 ring-2 ring-amber-500 rounded-xl pointer-events-none z-10"
+      role="status"
+      aria-label={`Raters disagree on '${ideaTitle}'`}
+    >
+      <div className="absolute -top-2 left-1 flex items-center gap-1 bg-amber-500 text-white text-[10px] px-1.5 py-0.5 rounded-full select-none">
+        <AlertTriangle className="w-3 h-3" aria-hidden="true" />
+        <span>Split · {entry.raterCount} raters</span>
+      </div>
+    </div>
+  )
+}
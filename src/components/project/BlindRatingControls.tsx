@@ -0,0 +1,165 @@
+/**
+ * BlindRatingControls — fullscreen toolbar controls for blind rating rounds
+ *
+ * Facilitator (project owner): start a round, reveal all ratings at once,
+ * apply the consensus positions to the shared matrix and end the round.
+ * Raters see their own progress; everyone sees the most contested ideas
+ * after reveal.
+ *
+ * Reads round state from BlindRatingContext; returns null outside it.
+ */
+
+import React, { useContext, useState } from 'react'
+import { Check, Eye, EyeOff, ListOrdered, X } from 'lucide-react'
+import { BlindRatingContext } from '../../contexts/BlindRatingContext'
+import { Button } from '../ui/Button'
+import type { IdeaCard } from '../../types'
+
+export interface BlindRatingControlsProps {
+  ideas: IdeaCard[]
+  /** Write the consensus positions back to the ideas (facilitator only) */
+  onApplyConsensus: (positions: ReadonlyMap<string, { x: number; y: number }>) => Promise<void>
+}
+
+export function BlindRatingControls({
+  ideas,
+  onApplyConsensus,
+}: BlindRatingControlsProps): React.ReactElement | null {
+  const ctx = useContext(BlindRatingContext)
+  const [busy, setBusy] = useState(false)
+  const [showDisagreements, setShowDisagreements] = useState(false)
+
+  if (!ctx) return null
+
+  const run = (action: () => Promise<void>) => async () => {
+    setBusy(true)
+    try {
+      await action()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const errorText = ctx.error ? (
+    <span role="alert" className="text-xs text-amber-300">{ctx.error}</span>
+  ) : null
+
+  if (!ctx.status) {
+    if (!ctx.isFacilitator) return null
+    return (
+      <div className="flex items-center gap-2">
+        {errorText}
+        <Button
+          onClick={run(ctx.startRound)}
+          variant="secondary"
+          size="md"
+          icon={<EyeOff className="w-4 h-4" />}
+          disabled={busy}
+          data-testid="blind-rating-start"
+        >
+          Blind Rating
+        </Button>
+      </div>
+    )
+  }
+
+  if (ctx.status === 'collecting') {
+    const ratedIdeas = ideas.filter((idea) => ctx.myRatings.has(idea.id)).length
+    return (
+      <div className="flex items-center gap-2" data-testid="blind-rating-collecting">
+        {errorText}
+        <div
+          className="px-3 py-1.5 rounded-full bg-white/10 text-xs text-white"
+          aria-live="polite"
+        >
+          {ctx.canRate
+            ? `Blind rating · you rated ${ratedIdeas}/${ideas.length}`
+            : 'Blind rating in progress'}
+          {ctx.isFacilitator && ctx.raterProgress.size > 0 && ` · ${ctx.raterProgress.size} active`}
+        </div>
+        {ctx.isFacilitator && (
+          <Button
+            onClick={run(ctx.reveal)}
+            variant="sapphire"
+            size="md"
+            icon={<Eye className="w-4 h-4" />}
+            disabled={busy}
+            data-testid="blind-rating-reveal"
+          >
+            Reveal
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  const ideaTitles = new Map(ideas.map((idea) => [idea.id, idea.content]))
+  const applyConsensus = () => onApplyConsensus(
+    new Map(Array.from(ctx.consensus.values()).map((entry) => [
+      entry.ideaId,
+      { x: Math.round(entry.median.x), y: Math.round(entry.median.y) },
+    ]))
+  )
+
+  return (
+    <div className="relative flex items-center gap-2" data-testid="blind-rating-revealed">
+      {errorText}
+      <button
+        type="button"
+        onClick={() => setShowDisagreements((prev) => !prev)}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-amber-500/20 text-xs text-amber-100 hover:bg-amber-500/30"
+        aria-expanded={showDisagreements}
+        data-testid="blind-rating-disagreements-toggle"
+      >
+        <ListOrdered className="w-3.5 h-3.5" aria-hidden="true" />
+        Consensus · {ctx.widestDisagreements.length} contested
+      </button>
+      {ctx.isFacilitator && (
+        <>
+          <Button
+            onClick={run(applyConsensus)}
+            variant="sapphire"
+            size="md"
+            icon={<Check className="w-4 h-4" />}
+            disabled={busy || ctx.consensus.size === 0}
+            data-testid="blind-rating-apply"
+          >
+            Apply Consensus
+          </Button>
+          <Button
+            onClick={run(ctx.endRound)}
+            variant="secondary"
+            size="md"
+            icon={<X className="w-4 h-4" />}
+            disabled={busy}
+            data-testid="blind-rating-end"
+          >
+            End Round
+          </Button>
+        </>
+      )}
+      {showDisagreements && (
+        <div
+          className="absolute right-0 top-full mt-2 w-72 rounded-lg bg-white shadow-xl border border-hairline-default p-3 text-graphite-800"
+          data-testid="blind-rating-disagreements"
+        >
+          <p className="text-xs font-semibold text-graphite-500 mb-2">Widest disagreement</p>
+          {ctx.widestDisagreements.length === 0 ? (
+            <p className="text-sm text-graphite-600">Raters broadly agree on every idea.</p>
+          ) : (
+            <ol className="space-y-1.5">
+              {ctx.widestDisagreements.map((entry) => (
+                <li key={entry.ideaId} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{ideaTitles.get(entry.ideaId) ?? 'Deleted idea'}</span>
+                  <span className="text-xs text-graphite-500 whitespace-nowrap">
+                    {entry.raterCount} raters
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
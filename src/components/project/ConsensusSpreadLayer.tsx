@@ -0,0 +1,58 @@
+/**
+ * ConsensusSpreadLayer — blind rating reveal
+ *
+ * Draws one ellipse of disagreement per rated idea behind the cards once the
+ * facilitator reveals. The ellipse is centred on the median rating and spans
+ * one standard deviation either side on each axis; the ideas with the widest
+ * disagreement are drawn in amber.
+ *
+ * Returns null outside a BlindRatingProvider or before reveal.
+ */
+
+import React, { useContext } from 'react'
+import { BlindRatingContext } from '../../contexts/BlindRatingContext'
+import { coordinateToPercent } from '../../utils/matrixQuadrant'
+
+// Stored coordinates span 600 reference units including padding
+const REFERENCE_SIZE = 600
+// Below this the ellipse would hide behind the card anyway
+const MIN_VISIBLE_SPREAD = 4
+
+export function ConsensusSpreadLayer(): React.ReactElement | null {
+  const ctx = useContext(BlindRatingContext)
+  if (!ctx || ctx.status !== 'revealed') return null
+
+  const widest = new Set(ctx.widestDisagreements.map((entry) => entry.ideaId))
+
+  return (
+    <div
+      className="absolute inset-0 pointer-events-none"
+      data-testid="consensus-spread-layer"
+      aria-hidden="true"
+    >
+      {Array.from(ctx.consensus.values()).map((entry) => {
+        if (entry.raterCount < 2 || entry.disagreement < MIN_VISIBLE_SPREAD) return null
+        const isWide = widest.has(entry.ideaId)
+        return (
+          <div
+            key={entry.ideaId}
+            data-testid={`consensus-ellipse-${entry.ideaId}`}
+            className={[
+              'absolute rounded-full border',
+              isWide ? 'border-amber-500 bg-amber-400/15' : 'border-sapphire-300 bg-sapphire-200/15',
+            ].join(' ')}
+            style={{
+              left: `${coordinateToPercent(entry.median.x)}%`,
+              top: `${coordinateToPercent(entry.median.y)}%`,
+              width: `${((entry.spread.x * 2) / REFERENCE_SIZE) * 100}%`,
+              height: `${((entry.spread.y * 2) / REFERENCE_SIZE) * 100}%`,
+              minWidth: '8px',
+              minHeight: '8px',
+              transform: 'translate(-50%, -50%)',
+            }}
+          />
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,353 @@
+/**
+ * ProjectChatPanel — the project assistant side panel
+ *
+ * Answers questions about the current project from its ideas, the latest
+ * roadmap and insights, and its analysed files. Replies can propose actions
+ * (create an idea, move an idea, regenerate a roadmap phase); each runs only
+ * when the user applies it. A regenerated phase is saved as a new roadmap
+ * version. The conversation lasts while the panel is open.
+ */
+
+import React, { useEffect, useRef, useState } from 'react'
+import { Check, MessageSquare, Send, X } from 'lucide-react'
+import type { IdeaCard, Project, ProjectChatAction, ProjectChatMessage, ProjectFile, ProjectRoadmap, User } from '../../types'
+import { aiService } from '../../lib/aiService'
+import type { InsightsReport } from '../../lib/ai'
+import { DatabaseService } from '../../lib/database'
+import { FileService } from '../../lib/fileService'
+import { useToast } from '../../contexts/ToastContext'
+import { resolveMatrixConfig } from '../../utils/matrixQuadrant'
+import { getPlacedIdeas, isScorePlaced } from '../../utils/ideaScoring'
+import { planQuadrantMove } from '../../utils/ideaSelection'
+import { describeChatAction, newIdeaPosition } from '../../utils/projectChat'
+import { logger } from '../../utils/logger'
+import { Button } from '../ui/Button'
+import AIBudgetNotice from '../ui/AIBudgetNotice'
+
+type ActionStatus = 'running' | 'done' | 'failed' | 'dismissed'
+
+interface ProjectChatPanelProps {
+  project: Project
+  currentUser: User
+  ideas: IdeaCard[]
+  onClose: () => void
+  addIdea?: (idea: Omit<IdeaCard, 'id' | 'created_at' | 'updated_at'>) => Promise<void>
+  updateIdea?: (idea: IdeaCard) => Promise<void>
+}
+
+const SUGGESTED_QUESTIONS = [
+  'Which quick wins should we start with?',
+  'Summarize the uploaded research',
+  'What is missing from the roadmap?'
+]
+
+const actionKey = (messageIndex: number, actionIndex: number) => `${messageIndex}:${actionIndex}`
+
+const ProjectChatPanel: React.FC<ProjectChatPanelProps> = ({
+  project,
+  currentUser,
+  ideas,
+  onClose,
+  addIdea,
+  updateIdea
+}) => {
+  const { showError, showSuccess } = useToast()
+  const [messages, setMessages] = useState<ProjectChatMessage[]>([])
+  const [input, setInput] = useState('')
+  const [isAsking, setIsAsking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [roadmap, setRoadmap] = useState<ProjectRoadmap | null>(null)
+  const [insights, setInsights] = useState<InsightsReport | null>(null)
+  const [files, setFiles] = useState<ProjectFile[]>([])
+  const [actionStatus, setActionStatus] = useState<Record<string, ActionStatus>>({})
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const endRef = useRef<HTMLDivElement | null>(null)
+
+  const matrixView = project.settings?.matrix_view
+  const matrixConfig = resolveMatrixConfig(matrixView)
+  // Ideas where the board draws them, so quadrants in answers match the matrix
+  const placedIdeas = getPlacedIdeas(ideas, matrixView)
+
+  // Load the saved roadmap, insights and files once; each is optional context
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      const [roadmaps, insightHistory, projectFiles] = await Promise.all([
+        DatabaseService.getProjectRoadmaps(project.id).catch((err) => {
+          logger.warn('Project chat: roadmap unavailable', err)
+          return []
+        }),
+        DatabaseService.getProjectInsights(project.id).catch((err) => {
+          logger.warn('Project chat: insights unavailable', err)
+          return []
+        }),
+        FileService.getProjectFiles(project.id).catch((err) => {
+          logger.warn('Project chat: files unavailable', err)
+          return [] as ProjectFile[]
+        })
+      ])
+      if (cancelled) return
+      setRoadmap((roadmaps[0] as ProjectRoadmap | undefined) ?? null)
+      setInsights((insightHistory[0]?.insights_data as InsightsReport | undefined) ?? null)
+      setFiles(projectFiles)
+    }
+    void load()
+    return () => {
+      cancelled = true
+      abortControllerRef.current?.abort()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView?.({ block: 'end' })
+  }, [messages, isAsking])
+
+  const ask = async (question: string) => {
+    const content = question.trim()
+    if (!content || isAsking) return
+    const conversation: ProjectChatMessage[] = [...messages, { role: 'user', content }]
+    setMessages(conversation)
+    setInput('')
+    setError(null)
+    setIsAsking(true)
+
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    try {
+      const answer = await aiService.askProject(conversation, project, {
+        ideas: placedIdeas,
+        matrixConfig,
+        clusters: project.settings?.idea_clusters,
+        roadmap: roadmap?.roadmap_data ?? null,
+        insights,
+        files
+      }, controller.signal)
+      if (controller.signal.aborted) return
+      setMessages((current) => [...current, { role: 'assistant', content: answer.reply, actions: answer.actions }])
+    } catch (err) {
+      if (controller.signal.aborted) return
+      logger.error('Project chat failed:', err)
+      setError(err instanceof Error ? err.message : 'The assistant could not answer')
+    } finally {
+      if (!controller.signal.aborted) setIsAsking(false)
+    }
+  }
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort()
+    setIsAsking(false)
+  }
+
+  const runAction = async (action: ProjectChatAction) => {
+    switch (action.type) {
+      case 'create_idea': {
+        if (!addIdea) throw new Error('Ideas cannot be added here')
+        await addIdea({
+          content: action.content,
+          details: action.details,
+          ...newIdeaPosition(action.quadrant, matrixConfig),
+          priority: action.priority,
+          created_by: currentUser.id,
+          is_collapsed: false,
+          editing_by: null,
+          editing_at: null,
+          project_id: project.id
+        })
+        showSuccess(`Created "${action.content}"`)
+        return
+      }
+      case 'move_idea': {
+        const idea = placedIdeas.find((candidate) => candidate.id === action.ideaId)
+        if (!idea || !updateIdea) throw new Error('That idea is no longer on the matrix')
+        if (isScorePlaced(idea, matrixView)) throw new Error('This idea is positioned by its scores; edit its scores to move it')
+        const [target] = planQuadrantMove([idea], action.quadrant, matrixConfig)
+        // Already in that quadrant: nothing to do
+        if (target) await updateIdea({ ...ideas.find((candidate) => candidate.id === idea.id)!, x: target.x, y: target.y })
+        showSuccess(`Moved "${idea.content}"`)
+        return
+      }
+      case 'regenerate_roadmap_phase': {
+        if (!roadmap) throw new Error('This project has no saved roadmap')
+        const phase = await aiService.regenerateRoadmapPhase(
+          roadmap.roadmap_data,
+          action.phaseIndex,
+          placedIdeas,
+          project,
+          action.instructions
+        )
+        const phases = [...roadmap.roadmap_data.roadmapAnalysis.phases]
+        phases[action.phaseIndex] = phase
+        const roadmapData = { ...roadmap.roadmap_data, roadmapAnalysis: { ...roadmap.roadmap_data.roadmapAnalysis, phases } }
+        const savedId = await DatabaseService.saveProjectRoadmap(project.id, roadmapData, currentUser.id, ideas.length)
+        if (!savedId) throw new Error('Failed to save the roadmap')
+        setRoadmap({ ...roadmap, id: savedId, version: roadmap.version + 1, roadmap_data: roadmapData })
+        showSuccess(`Regenerated "${phase.phase}" and saved a new roadmap version`)
+        return
+      }
+    }
+  }
+
+  const handleApply = async (messageIndex: number, actionIndex: number, action: ProjectChatAction) => {
+    const key = actionKey(messageIndex, actionIndex)
+    setActionStatus((current) => ({ ...current, [key]: 'running' }))
+    try {
+      await runAction(action)
+      setActionStatus((current) => ({ ...current, [key]: 'done' }))
+    } catch (err) {
+      logger.error('Project chat action failed:', err)
+      showError(err instanceof Error ? err.message : 'The action failed')
+      setActionStatus((current) => ({ ...current, [key]: 'failed' }))
+    }
+  }
+
+  return (
+    <aside
+      className="fixed right-0 top-0 z-40 flex h-full w-full max-w-md flex-col border-l border-hairline-default bg-surface-primary shadow-xl"
+      aria-label="Project assistant"
+      data-testid="project-chat-panel"
+    >
+      <header className="flex items-center gap-2 border-b border-hairline-default px-4 py-3">
+        <MessageSquare className="w-5 h-5 text-sapphire-600" aria-hidden="true" />
+        <div className="mr-auto min-w-0">
+          <h2 className="text-sm font-semibold text-graphite-900">Project assistant</h2>
+          <p className="truncate text-xs text-graphite-500">{project.name}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-graphite-400 hover:text-graphite-700"
+          aria-label="Close assistant"
+          data-testid="project-chat-close"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </header>
+
+      <div className="flex-1 space-y-4 overflow-y-auto px-4 py-4 text-sm" data-testid="project-chat-messages">
+        {messages.length === 0 && (
+          <div className="space-y-2">
+            <p className="text-graphite-600">
+              Ask about this project&apos;s ideas, roadmap, insights or files. Suggested changes are only made when you apply them.
+            </p>
+            {SUGGESTED_QUESTIONS.map((question) => (
+              <button
+                key={question}
+                type="button"
+                onClick={() => ask(question)}
+                className="block w-full rounded-md border border-hairline-default px-3 py-2 text-left text-graphite-700 hover:bg-graphite-50"
+              >
+                {question}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {messages.map((message, messageIndex) => (
+          <div
+            key={messageIndex}
+            className={message.role === 'user' ? 'ml-8 rounded-lg bg-sapphire-50 px-3 py-2 text-sapphire-900' : 'mr-4 space-y-2'}
+            data-testid={`project-chat-message-${message.role}`}
+          >
+            <p className="whitespace-pre-wrap text-graphite-800">{message.content}</p>
+            {message.actions?.map((action, actionIndex) => {
+              const status = actionStatus[actionKey(messageIndex, actionIndex)]
+              if (status === 'dismissed') return null
+              return (
+                <div
+                  key={actionIndex}
+                  className="flex items-center gap-2 rounded-md border border-hairline-default px-3 py-2"
+                  data-testid={`project-chat-action-${messageIndex}-${actionIndex}`}
+                >
+                  <span className="flex-1 text-graphite-700">
+                    {describeChatAction(action, placedIdeas, matrixConfig, roadmap?.roadmap_data)}
+                  </span>
+                  {status === 'done' ? (
+                    <span className="flex items-center gap-1 text-xs text-emerald-700">
+                      <Check className="w-3 h-3" /> Done
+                    </span>
+                  ) : (
+                    <>
+                      <Button
+                        type="button"
+                        variant="primary"
+                        size="sm"
+                        onClick={() => handleApply(messageIndex, actionIndex, action)}
+                        disabled={status === 'running'}
+                        data-testid={`project-chat-apply-${messageIndex}-${actionIndex}`}
+                      >
+                        {status === 'running' ? 'Applying...' : status === 'failed' ? 'Retry' : 'Apply'}
+                      </Button>
+                      <button
+                        type="button"
+                        onClick={() => setActionStatus((current) => ({ ...current, [actionKey(messageIndex, actionIndex)]: 'dismissed' }))}
+                        disabled={status === 'running'}
+                        className="text-graphite-400 hover:text-graphite-700"
+                        aria-label="Dismiss suggestion"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        ))}
+
+        {isAsking && (
+          <p className="text-graphite-500" role="status">Thinking...</p>
+        )}
+        {error && (
+          <div className="rounded-lg border border-garnet-200 bg-garnet-50 px-3 py-2 text-garnet-800" role="alert">
+            {error}
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <AIBudgetNotice projectId={project.id} className="mx-4 mb-3" />
+
+      <form
+        className="flex items-end gap-2 border-t border-hairline-default px-4 py-3"
+        onSubmit={(e) => {
+          e.preventDefault()
+          void ask(input)
+        }}
+      >
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault()
+              void ask(input)
+            }
+          }}
+          rows={2}
+          placeholder="Ask about this project..."
+          className="flex-1 resize-none rounded-md border border-hairline-default bg-surface-primary px-3 py-2 text-sm text-graphite-900 focus:outline-none focus:ring-2"
+          aria-label="Question"
+          data-testid="project-chat-input"
+        />
+        {isAsking ? (
+          <Button type="button" variant="secondary" size="sm" onClick={handleCancel} data-testid="project-chat-cancel">
+            Cancel
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            variant="primary"
+            size="sm"
+            icon={<Send className="w-4 h-4" />}
+            disabled={!input.trim()}
+            aria-label="Send"
+            data-testid="project-chat-send"
+          />
+        )}
+      </form>
+    </aside>
+  )
+}
+
+export default ProjectChatPanel
@@ -0,0 +1,182 @@
+/**
+ * ProjectChatPanel Test Suite
+ *
+ * Tests asking the project assistant and applying the actions it proposes
+ */
+
+import React from 'react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import ProjectChatPanel from '../ProjectChatPanel'
+import { DatabaseService } from '../../../lib/database'
+import { aiService } from '../../../lib/aiService'
+import type { IdeaCard, Project, RoadmapData, User } from '../../../types'
+
+const toast = vi.hoisted(() => ({
+  showError: vi.fn(),
+  showSuccess: vi.fn()
+}))
+
+vi.mock('../../../contexts/ToastContext', () => ({
+  useToast: () => toast
+}))
+
+vi.mock('../../../lib/database', () => ({
+  DatabaseService: {
+    getProjectRoadmaps: vi.fn(),
+    getProjectInsights: vi.fn(),
+    saveProjectRoadmap: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/fileService', () => ({
+  FileService: { getProjectFiles: vi.fn().mockResolvedValue([]) }
+}))
+
+vi.mock('../../../lib/aiService', () => ({
+  aiService: { askProject: vi.fn(), regenerateRoadmapPhase: vi.fn() }
+}))
+
+const idea = (id: string, x: number, y: number): IdeaCard => ({
+  id,
+  content: `Idea ${id}`,
+  details: '',
+  x,
+  y,
+  priority: 'moderate',
+  created_by: 'user-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+})
+
+const project = {
+  id: 'project-1',
+  name: 'Project',
+  project_type: 'other',
+  status: 'active',
+  priority_level: 'medium',
+  visibility: 'private',
+  owner_id: 'user-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+} as Project
+
+const user = { id: 'user-1', email: 'user@example.com' } as User
+
+const roadmapData = {
+  roadmapAnalysis: {
+    totalDuration: '8 weeks',
+    phases: [
+      { phase: 'Foundation', duration: '4 weeks', description: 'Set up', epics: [] },
+      { phase: 'Launch', duration: '4 weeks', description: 'Ship', epics: [] }
+    ]
+  },
+  executionStrategy: {}
+} as unknown as RoadmapData
+
+describe('ProjectChatPanel', () => {
+  const addIdea = vi.fn()
+  const updateIdea = vi.fn()
+  const ideas = [idea('a', 390, 390)]
+
+  const renderPanel = () =>
+    render(
+      <ProjectChatPanel
+        project={project}
+        currentUser={user}
+        ideas={ideas}
+        addIdea={addIdea}
+        updateIdea={updateIdea}
+        onClose={vi.fn()}
+      />
+    )
+
+  const ask = (question: string) => {
+    fireEvent.change(screen.getByTestId('project-chat-input'), { target: { value: question } })
+    fireEvent.click(screen.getByTestId('project-chat-send'))
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(DatabaseService.getProjectRoadmaps).mockResolvedValue([
+      { id: 'roadmap-1', project_id: 'project-1', version: 1, roadmap_data: roadmapData }
+    ])
+    vi.mocked(DatabaseService.getProjectInsights).mockResolvedValue([])
+  })
+
+  it('answers a question using the loaded project context', async () => {
+    vi.mocked(aiService.askProject).mockResolvedValue({ reply: 'Start with the onboarding quick win.', actions: [] })
+    renderPanel()
+    await waitFor(() => expect(DatabaseService.getProjectRoadmaps).toHaveBeenCalled())
+
+    ask('Which quick wins first?')
+
+    expect(await screen.findByText('Start with the onboarding quick win.')).toBeInTheDocument()
+    const [messages, , sources] = vi.mocked(aiService.askProject).mock.calls[0]
+    expect(messages).toEqual([{ role: 'user', content: 'Which quick wins first?' }])
+    expect(sources.roadmap).toBe(roadmapData)
+    expect(sources.ideas.map((i) => i.id)).toEqual(['a'])
+  })
+
+  it('only moves an idea once the user applies the action', async () => {
+    vi.mocked(aiService.askProject).mockResolvedValue({
+      reply: 'That belongs in Quick Wins.',
+      actions: [{ type: 'move_idea', ideaId: 'a', quadrant: 'quick-wins' }]
+    })
+    renderPanel()
+    ask('Where should idea a go?')
+
+    expect(await screen.findByText('Move "Idea a" to Quick Wins')).toBeInTheDocument()
+    expect(updateIdea).not.toHaveBeenCalled()
+
+    fireEvent.click(screen.getByTestId('project-chat-apply-1-0'))
+
+    await waitFor(() => expect(updateIdea).toHaveBeenCalledTimes(1))
+    const moved = updateIdea.mock.calls[0][0] as IdeaCard
+    expect(moved.x).toBeLessThan(260)
+    expect(moved.y).toBeLessThan(260)
+    expect(await screen.findByText('Done')).toBeInTheDocument()
+  })
+
+  it('creates a proposed idea in the middle of its quadrant', async () => {
+    vi.mocked(aiService.askProject).mockResolvedValue({
+      reply: 'Try this.',
+      actions: [{ type: 'create_idea', content: 'Referral bonus', details: 'Reward invites', quadrant: 'quick-wins', priority: 'high' }]
+    })
+    renderPanel()
+    ask('Any new quick wins?')
+
+    fireEvent.click(await screen.findByTestId('project-chat-apply-1-0'))
+
+    await waitFor(() => expect(addIdea).toHaveBeenCalledTimes(1))
+    expect(addIdea.mock.calls[0][0]).toMatchObject({
+      content: 'Referral bonus',
+      priority: 'high',
+      created_by: 'user-1',
+      project_id: 'project-1',
+      x: 130,
+      y: 130
+    })
+  })
+
+  it('saves a regenerated phase as a new roadmap version', async () => {
+    const launch = { phase: 'Launch v2', duration: '3 weeks', description: 'Ship faster', epics: [] }
+    vi.mocked(aiService.askProject).mockResolvedValue({
+      reply: 'I can shorten the launch.',
+      actions: [{ type: 'regenerate_roadmap_phase', phaseIndex: 1, instructions: 'Make it shorter' }]
+    })
+    vi.mocked(aiService.regenerateRoadmapPhase).mockResolvedValue(launch)
+    vi.mocked(DatabaseService.saveProjectRoadmap).mockResolvedValue('roadmap-2')
+    renderPanel()
+    await waitFor(() => expect(DatabaseService.getProjectRoadmaps).toHaveBeenCalled())
+    ask('Shorten the launch')
+
+    fireEvent.click(await screen.findByTestId('project-chat-apply-1-0'))
+
+    await waitFor(() => expect(DatabaseService.saveProjectRoadmap).toHaveBeenCalledTimes(1))
+    const [projectId, saved, createdBy] = vi.mocked(DatabaseService.saveProjectRoadmap).mock.calls[0]
+    expect(projectId).toBe('project-1')
+    expect(createdBy).toBe('user-1')
+    expect(saved.roadmapAnalysis.phases.map((p: { phase: string }) => p.phase)).toEqual(['Foundation', 'Launch v2'])
+  })
+})
@@ -0,0 +1,63 @@
+/**
+ * AIBudgetNotice
+ *
+ * Inline notice for monthly AI spend budgets, shown above AI actions.
+ * Consumes useAIBudget for the project's and the user's budgets.
+ *
+ * States: warning (soft limit reached, default 80%), exceeded (100%, AI
+ * requests are refused until the month resets), hidden (no budget, below
+ * the soft limit, loading or fetch failed).
+ */
+
+import { useAIBudget, type AIBudgetStatus } from '../../hooks/useAIBudget';
+
+interface AIBudgetNoticeProps {
+  projectId?: string | null;
+  className?: string;
+}
+
+const NOTICE_STYLES = {
+  warning: 'text-amber-700 bg-amber-50 border border-amber-200',
+  exceeded: 'text-garnet-700 bg-garnet-50 border border-garnet-200',
+} as const;
+
+function scopeLabel(budget: AIBudgetStatus): string {
+  return budget.scope === 'project' ? "This project's" : 'Your';
+}
+
+function formatResetDate(resetsAt: string): string {
+  return new Date(resetsAt).toLocaleDateString(undefined, { month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+function AIBudgetNotice({ projectId, className = '' }: AIBudgetNoticeProps) {
+  const { budget } = useAIBudget(projectId);
+
+  if (!budget || budget.level === 'ok') {
+    return null;
+  }
+
+  const level = budget.level;
+  const worst = budget.budgets.reduce<AIBudgetStatus | null>(
+    (top, status) => (!top || status.percentUsed > top.percentUsed ? status : top),
+    null
+  );
+  if (!worst) {
+    return null;
+  }
+
+  const percent = Math.min(Math.round(worst.percentUsed), 100);
+  const message = level === 'exceeded'
+    ? `${scopeLabel(worst)} monthly AI budget has been reached. AI features resume on ${formatResetDate(budget.resetsAt)}.`
+    : `${scopeLabel(worst)} monthly AI budget is ${percent}% used. AI features stop at 100% until ${formatResetDate(budget.resetsAt)}.`;
+
+  return (
+    <div
+      role={level === 'exceeded' ? 'alert' : 'status'}
+      className={`rounded-lg px-3 py-2 text-sm ${NOTICE_STYLES[level]} ${className}`}
+    >
+      {message}
+    </div>
+  );
+}
+
+export default AIBudgetNotice;
@@ -6,9 +6,12 @@
  *
  * Renders a progress bar, stage indicator dots, processing step checklist,
  * countdown timer, and cancel/error controls. Fully driven by props from
- * the useAIGeneration hook.
+ * the useAIGeneration hook. Streamed partial results can be passed as
+ * children and are shown under the processing steps.
  */
 
+import type { ReactNode } from 'react';
+
 interface AIProgressOverlayProps {
   isActive: boolean;
   progress: number;
@@ -21,6 +24,8 @@ interface AIProgressOverlayProps {
   error?: string | null;
   onRetry?: () => void;
   onClose?: () => void;
+  /** Partial results received so far, shown while generation continues */
+  children?: ReactNode;
 }
 
 /**
@@ -52,6 +57,7 @@ function AIProgressOverlay({
   error,
   onRetry,
   onClose,
+  children,
 }: AIProgressOverlayProps) {
   if (!isActive) {
     return null;
@@ -178,6 +184,9 @@ function AIProgressOverlay({
           </div>
         </div>
 
+        {/* Streamed partial results */}
+        {children && <div className="mt-4">{children}</div>}
+
         {/* Stage indicator dots */}
         <div className="flex justify-center space-x-4 mt-6">
           {stageSequence.map((dotStage, index) => {
@@ -0,0 +1,55 @@
+/**
+ * BlindRatingContext
+ *
+ * Provides a single useBlindRating instance for the project matrix. The
+ * fullscreen toolbar controls, the drag handler and the DesignMatrix overlays
+ * (consensus ellipses, per-card rating badges) all read the same round state.
+ *
+ * Nullable pattern: context value is null outside the provider, so
+ * DesignMatrix can use useContext(BlindRatingContext) directly and render
+ * nothing when no provider wraps it.
+ */
+
+import React, { createContext, useContext } from 'react'
+import { useBlindRating } from '../hooks/useBlindRating'
+import type { UseBlindRatingReturn } from '../hooks/useBlindRating'
+import type { ScopedRealtimeManager } from '../lib/realtime/ScopedRealtimeManager'
+import type { Project } from '../types'
+
+export const BlindRatingContext = createContext<UseBlindRatingReturn | null>(null)
+
+export interface BlindRatingProviderProps {
+  project: Project
+  currentUserId: string
+  manager: ScopedRealtimeManager | null
+  onProjectChange?: (project: Project) => void
+  children: React.ReactNode
+}
+
+export function BlindRatingProvider({
+  project,
+  currentUserId,
+  manager,
+  onProjectChange,
+  children,
+}: BlindRatingProviderProps): React.ReactElement {
+  const value = useBlindRating({ project, currentUserId, manager, onProjectChange })
+
+  return (
+    <BlindRatingContext.Provider value={value}>
+      {children}
+    </BlindRatingContext.Provider>
+  )
+}
+
+/**
+ * Consume the blind rating context. Must be called inside a BlindRatingProvider.
+ * Throws if used outside the provider — fail-fast at development time.
+ */
+export function useBlindRatingContext(): UseBlindRatingReturn {
+  const ctx = useContext(BlindRatingContext)
+  if (ctx === null) {
+    throw new Error('useBlindRatingContext must be used inside BlindRatingProvider')
+  }
+  return ctx
+}
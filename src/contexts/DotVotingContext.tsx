@@ -13,6 +13,7 @@ import React, { createContext, useContext } from 'react'
 import { useDotVoting } from '../hooks/useDotVoting'
 import type { UseDotVotingReturn } from '../hooks/useDotVoting'
 import type { ScopedRealtimeManager } from '../lib/realtime/ScopedRealtimeManager'
+import type { VotingConfig } from '../utils/votingSchemes'
 
 // Exported so DotBudgetIndicator can read votesUsed via useContext without
 // requiring a separate prop (session header wire-up path per ADR contract table).
@@ -22,6 +23,8 @@ export interface DotVotingProviderProps {
   sessionId: string
   currentUserId: string
   manager: ScopedRealtimeManager | null
+  /** The session's voting scheme; five single dots when omitted */
+  config?: VotingConfig
   children: React.ReactNode
 }
 
@@ -29,9 +32,10 @@ export function DotVotingProvider({
   sessionId,
   currentUserId,
   manager,
+  config,
   children,
 }: DotVotingProviderProps): React.ReactElement {
-  const value = useDotVoting(sessionId, currentUserId, manager)
+  const value = useDotVoting(sessionId, currentUserId, manager, config)
 
   return (
     <DotVotingContext.Provider value={value}>
@@ -0,0 +1,129 @@
+/**
+ * useAIBudget hook tests
+ *
+ * Fetch target: GET /api/ai?action=budget-status&projectId=<id>
+ * Cache TTL: 60 seconds, per project
+ * Refresh triggers: 'ai-quota-changed' and 'ai-budget-exceeded' on window
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+import { useAIBudget, _clearAIBudgetCache } from '../useAIBudget'
+
+const PROJECT_ID = '22222222-2222-4222-8222-222222222222'
+
+const WARNING_RESPONSE = {
+  level: 'warning',
+  budgets: [
+    {
+      budgetId: 'b1',
+      scope: 'project',
+      scopeId: PROJECT_ID,
+      costLimit: 10,
+      tokenLimit: null,
+      spentCost: 8.5,
+      spentTokens: 120000,
+      percentUsed: 85,
+      softLimitPercent: 80,
+      level: 'warning',
+    },
+  ],
+  resetsAt: '2026-11-01T00:00:00.000Z',
+}
+
+function makeFetchSuccess(body: object) {
+  return vi.fn().mockResolvedValue({
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+  } as Response)
+}
+
+describe('useAIBudget', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    _clearAIBudgetCache()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('fetches the budget status for the project on mount', async () => {
+    const fetchMock = makeFetchSuccess(WARNING_RESPONSE)
+    vi.stubGlobal('fetch', fetchMock)
+
+    const { result } = renderHook(() => useAIBudget(PROJECT_ID))
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+    expect(result.current.budget).toEqual(WARNING_RESPONSE)
+    expect(result.current.error).toBeNull()
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit]
+    expect(url).toBe(`/api/ai?action=budget-status&projectId=${PROJECT_ID}`)
+    expect(init).toMatchObject({ credentials: 'include' })
+  })
+
+  it('reuses the cached status for the same project', async () => {
+    const fetchMock = makeFetchSuccess(WARNING_RESPONSE)
+    vi.stubGlobal('fetch', fetchMock)
+
+    const first = renderHook(() => useAIBudget(PROJECT_ID))
+    await waitFor(() => {
+      expect(first.result.current.isLoading).toBe(false)
+    })
+    first.unmount()
+
+    const second = renderHook(() => useAIBudget(PROJECT_ID))
+    await waitFor(() => {
+      expect(second.result.current.budget).toEqual(WARNING_RESPONSE)
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('re-fetches when the server refuses a request for budget', async () => {
+    const fetchMock = makeFetchSuccess(WARNING_RESPONSE)
+    vi.stubGlobal('fetch', fetchMock)
+
+    const { result } = renderHook(() => useAIBudget(PROJECT_ID))
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+
+    act(() => {
+      window.dispatchEvent(new CustomEvent('ai-budget-exceeded'))
+    })
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  it('reports the error and no budget when the fetch fails', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: false,
+      status: 500,
+      json: () => Promise.resolve({ error: 'Failed to load AI budget status' }),
+    } as Response))
+
+    const { result } = renderHook(() => useAIBudget(PROJECT_ID))
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false)
+    })
+    expect(result.current.budget).toBeNull()
+    expect(result.current.error).toBe('Failed to load AI budget status')
+  })
+})
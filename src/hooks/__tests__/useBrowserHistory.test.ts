@@ -521,6 +521,33 @@ describe('useBrowserHistory', () => {
     })
   })
 
+  describe('matrix filter sync', () => {
+    it('should apply a filter from a shared URL', () => {
+      mockLocation.search = '?tags=Mobile,Q3&priority=high'
+      const onIdeaFilterChange = vi.fn()
+
+      renderHook(
+        () => useBrowserHistory({ ...defaultProps, ideaFilter: {}, onIdeaFilterChange }),
+        { wrapper }
+      )
+
+      expect(onIdeaFilterChange).toHaveBeenCalledWith({ tags: ['Mobile', 'Q3'], priority: 'high' })
+      expect(mockNavigate).not.toHaveBeenCalled()
+    })
+
+    it('should write filter changes into the URL without adding history entries', () => {
+      mockLocation.search = '?project=p1'
+      const { rerender } = renderHook(
+        ({ ideaFilter }) => useBrowserHistory({ ...defaultProps, ideaFilter, onIdeaFilterChange: vi.fn() }),
+        { wrapper, initialProps: { ideaFilter: {} } }
+      )
+
+      rerender({ ideaFilter: { quadrant: 'strategic' } })
+
+      expect(mockNavigate).toHaveBeenCalledWith('/?project=p1&quadrant=strategic', { replace: true })
+    })
+  })
+
   describe('edge cases', () => {
     it('should handle missing onProjectRestore callback', () => {
       mockLocation.search = '?project=test-123'
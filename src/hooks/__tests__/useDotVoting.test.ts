@@ -1,7 +1,7 @@
 /**
  * useDotVoting hook unit tests — Phase 05.4a Wave 2, Unit 3
  *
- * Tests T-054A-050 through T-054A-063 (15 tests).
+ * Tests T-054A-050 through T-054A-063 (15 tests), plus the voting scheme tests.
  *
  * Mocks: voteRepository (all functions) + a stub ScopedRealtimeManager
  * that exposes `emitVoteEvent(payload)` for test-driven postgres_changes injection.
@@ -20,7 +20,9 @@ import React from 'react'
 
 vi.mock('../../lib/repositories/voteRepository', () => ({
   castVote: vi.fn(),
+  changeVote: vi.fn(),
   removeVote: vi.fn(),
+  fetchSessionTallies: vi.fn(),
   listVotesForSession: vi.fn(),
   reconcileTallies: vi.fn(),
   VoteRepositoryError: class VoteRepositoryError extends Error {
@@ -116,9 +118,11 @@ function createManagerStub(): ManagerStub {
 // --------------------------------------------------------------------------
 
 const mockCastVote = voteRepo.castVote as ReturnType<typeof vi.fn>
+const mockChangeVote = voteRepo.changeVote as ReturnType<typeof vi.fn>
 const mockRemoveVote = voteRepo.removeVote as ReturnType<typeof vi.fn>
 const mockListVotes = voteRepo.listVotesForSession as ReturnType<typeof vi.fn>
 const mockReconcile = voteRepo.reconcileTallies as ReturnType<typeof vi.fn>
+const mockFetchTallies = voteRepo.fetchSessionTallies as ReturnType<typeof vi.fn>
 
 beforeEach(() => {
   vi.clearAllMocks()
@@ -126,6 +130,7 @@ beforeEach(() => {
   mockReconcile.mockResolvedValue(new Map())
   mockListVotes.mockResolvedValue([])
   mockCastVote.mockResolvedValue({ ok: true })
+  mockChangeVote.mockResolvedValue({ ok: true })
   mockRemoveVote.mockResolvedValue(undefined)
 })
 
@@ -463,6 +468,25 @@ describe('T-054A-059: remote DELETE decrements tally', () => {
 
     expect(result.current.tallies.get('a')).toBe(1)
   })
+
+  it('refetches when the DELETE event carries only the primary key', async () => {
+    mockReconcile.mockResolvedValue(new Map([['a', 2]]))
+    mockListVotes.mockResolvedValue([])
+
+    const stub = createManagerStub()
+    const { result } = renderHook(() => useDotVoting('session-1', 'u1', stub.manager))
+
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(mockReconcile).toHaveBeenCalledTimes(1)
+    mockReconcile.mockResolvedValue(new Map([['a', 1]]))
+
+    act(() => {
+      stub.emitVoteEvent({ new: {}, old: { id: 'vote-9' }, eventType: 'DELETE' })
+    })
+
+    await waitFor(() => expect(result.current.tallies.get('a')).toBe(1))
+    expect(mockReconcile).toHaveBeenCalledTimes(2)
+  })
 })
 
 // --------------------------------------------------------------------------
@@ -695,3 +719,162 @@ describe('T-054A-057b: UPDATE event does NOT decrement tally', () => {
     expect(result.current.votesUsed).toBe(0)
   })
 })
+
+// --------------------------------------------------------------------------
+// Voting schemes: weights, budgets and results beyond single dots
+// --------------------------------------------------------------------------
+describe('voting schemes', () => {
+  it('adds and takes back dots one at a time when several dots are allowed', async () => {
+    mockReconcile.mockResolvedValue(new Map([['a', 2]]))
+    mockListVotes.mockResolvedValue([{ user_id: 'u1', idea_id: 'a', weight: 2 }])
+
+    const stub = createManagerStub()
+    const config = { scheme: 'dots' as const, budget: 3, allowMultiple: true }
+    const { result } = renderHook(() => useDotVoting('session-1', 'u1', stub.manager, config))
+
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(result.current.votesUsed).toBe(2)
+
+    await act(async () => {
+      await result.current.castVote('a')
+    })
+
+    expect(mockChangeVote).toHaveBeenCalledWith('session-1', 'a', 3)
+    expect(result.current.tallies.get('a')).toBe(3)
+    expect(result.current.votesRemaining).toBe(0)
+
+    await act(async () => {
+      await result.current.removeVote('a')
+    })
+
+    expect(mockChangeVote).toHaveBeenLastCalledWith('session-1', 'a', 2)
+    expect(mockRemoveVote).not.toHaveBeenCalled()
+    expect(result.current.myWeights.get('a')).toBe(2)
+  })
+
+  it('blocks allocating more points than the budget without a repo call', async () => {
+    mockListVotes.mockResolvedValue([{ user_id: 'u1', idea_id: 'a', weight: 80 }])
+
+    const stub = createManagerStub()
+    const config = { scheme: 'points' as const, budget: 100, allowMultiple: false }
+    const { result } = renderHook(() => useDotVoting('session-1', 'u1', stub.manager, config))
+
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    await act(async () => {
+      await result.current.castVote('b', 30)
+    })
+
+    expect(mockCastVote).not.toHaveBeenCalled()
+    expect(result.current.error).toBe("You've allocated all 100 points. Take some back to move them.")
+
+    await act(async () => {
+      await result.current.castVote('b')
+    })
+
+    expect(mockCastVote).toHaveBeenCalledWith('session-1', 'b', 10)
+    expect(result.current.votesUsed).toBe(90)
+  })
+
+  it('moves tallies on a remote rank change and orders results', async () => {
+    mockReconcile.mockResolvedValue(new Map([['a', 3], ['b', 1]]))
+    mockListVotes.mockResolvedValue([
+      { user_id: 'u2', idea_id: 'a', weight: 1 },
+      { user_id: 'u3', idea_id: 'b', weight: 3 },
+    ])
+
+    const stub = createManagerStub()
+    const config = { scheme: 'ranked' as const, budget: 3, allowMultiple: false }
+    const { result } = renderHook(() => useDotVoting('session-1', 'u1', stub.manager, config))
+
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(result.current.results.map((r) => r.ideaId)).toEqual(['a', 'b'])
+
+    act(() => {
+      stub.emitVoteEvent({
+        new: { user_id: 'u3', idea_id: 'b', session_id: 'session-1', weight: 1 },
+        old: { user_id: 'u3', idea_id: 'b', session_id: 'session-1', weight: 3 },
+        eventType: 'UPDATE',
+      })
+    })
+
+    expect(result.current.tallies.get('b')).toBe(3)
+    expect(result.current.results[0]).toMatchObject({ ideaId: 'a', score: 3, tied: true })
+    expect(result.current.results[1]).toMatchObject({ ideaId: 'b', score: 3, tied: true })
+  })
+})
+
+// --------------------------------------------------------------------------
+// Hidden and anonymous voting: tallies come from server-side aggregates
+// --------------------------------------------------------------------------
+describe('hidden and anonymous voting', () => {
+  const hidden = { scheme: 'dots' as const, budget: 5, allowMultiple: false, visibility: 'hidden' as const }
+
+  function createHiddenManagerStub() {
+    const stub = createManagerStub()
+    let votesChanged: (() => void) | null = null
+    ;(stub.manager.onBroadcast as ReturnType<typeof vi.fn>).mockImplementation((_event: string, handler: () => void) => {
+      votesChanged = handler
+      return () => { votesChanged = null }
+    })
+    return { ...stub, fireVotesChanged: () => votesChanged?.() }
+  }
+
+  it('withholds tallies from participants and ignores other users\' events', async () => {
+    mockFetchTallies.mockResolvedValue(null)
+    mockListVotes.mockResolvedValue([{ user_id: 'u1', idea_id: 'a', weight: 1 }])
+
+    const stub = createHiddenManagerStub()
+    const { result } = renderHook(() => useDotVoting('session-1', 'u1', stub.manager, hidden))
+
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    expect(mockReconcile).not.toHaveBeenCalled()
+    expect(result.current.talliesHidden).toBe(true)
+    expect(result.current.tallies.size).toBe(0)
+    expect(result.current.myVotes.has('a')).toBe(true)
+
+    act(() => {
+      stub.emitVoteEvent({
+        new: { user_id: 'u2', idea_id: 'b', session_id: 'session-1' },
+        old: null,
+        eventType: 'INSERT',
+      })
+    })
+
+    expect(result.current.tallies.size).toBe(0)
+    expect(result.current.results).toEqual([])
+  })
+
+  it('announces own votes without who cast them and refetches aggregates on announcements', async () => {
+    mockFetchTallies
+      .mockResolvedValueOnce([{ idea_id: 'a', score: 2, voters: 2, first_choices: 0 }])
+      .mockResolvedValueOnce([{ idea_id: 'a', score: 3, voters: 3, first_choices: 0 }])
+      .mockResolvedValue([
+        { idea_id: 'a', score: 3, voters: 3, first_choices: 0 },
+        { idea_id: 'b', score: 1, voters: 1, first_choices: 0 },
+      ])
+    mockListVotes.mockResolvedValue([])
+
+    const stub = createHiddenManagerStub()
+    const anonymous = { ...hidden, visibility: 'anonymous' as const }
+    const { result } = renderHook(() => useDotVoting('session-1', 'facilitator', stub.manager, anonymous))
+
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(result.current.talliesHidden).toBe(false)
+    expect(result.current.tallies.get('a')).toBe(2)
+
+    await act(async () => {
+      await result.current.castVote('a')
+    })
+
+    expect(stub.manager.sendBroadcast).toHaveBeenCalledWith('votes_changed', {})
+    await waitFor(() => expect(result.current.tallies.get('a')).toBe(3))
+
+    await act(async () => {
+      stub.fireVotesChanged()
+    })
+
+    await waitFor(() => expect(result.current.results.map((r) => r.ideaId)).toEqual(['a', 'b']))
+  })
+})
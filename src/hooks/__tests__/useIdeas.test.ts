@@ -11,7 +11,7 @@ import type { RealtimeIdeaPayload } from '../../lib/database/services/RealtimeSu
 // Plain mutable objects (no Object.defineProperty) to avoid clearAllMocks issues.
 // ---------------------------------------------------------------------------
 
-const { mockDb, mockOptimistic, subCaptured } = vi.hoisted(() => {
+const { mockDb, mockRepo, mockOptimistic, subCaptured } = vi.hoisted(() => {
   // Mutable slot — subscribeToIdeas writes the callback here.
   const _sub = { cb: null as ((payload: RealtimeIdeaPayload) => void) | null }
 
@@ -34,7 +34,12 @@ const { mockDb, mockOptimistic, subCaptured } = vi.hoisted(() => {
     moveIdeaOptimistic: vi.fn(),
   }
 
-  return { mockDb: _db, mockOptimistic: _opt, subCaptured: _sub }
+  const _repo = {
+    bulkUpdateIdeas: vi.fn(),
+    bulkDeleteIdeas: vi.fn(),
+  }
+
+  return { mockDb: _db, mockRepo: _repo, mockOptimistic: _opt, subCaptured: _sub }
 })
 
 // ---------------------------------------------------------------------------
@@ -43,6 +48,8 @@ const { mockDb, mockOptimistic, subCaptured } = vi.hoisted(() => {
 
 vi.mock('../../lib/database', () => ({ DatabaseService: mockDb }))
 
+vi.mock('../../lib/repositories/ideaRepository', () => ({ IdeaRepository: mockRepo }))
+
 vi.mock('../useOptimisticUpdates', () => ({
   useOptimisticUpdates: vi.fn(() => mockOptimistic),
 }))
@@ -306,6 +313,48 @@ describe('useIdeas', () => {
         )
       })
 
+      it('sends edited scores with the update', async () => {
+        const { result } = renderHook(() => useIdeas(defaultOptions))
+
+        let updateCallback: Function
+        mockOptimistic.updateIdeaOptimistic.mockImplementation((idea: unknown, cb: Function) => {
+          updateCallback = cb
+        })
+
+        const scores = { ice: { impact: 8, confidence: 7, ease: 6 } }
+
+        await act(async () => {
+          await result.current.updateIdea({ ...mockIdea, scores })
+          await updateCallback!()
+        })
+
+        expect(mockDb.updateIdea).toHaveBeenCalledWith(
+          mockIdea.id,
+          expect.objectContaining({ scores }),
+          expect.anything()
+        )
+      })
+
+      it('sends edited tags with the update', async () => {
+        const { result } = renderHook(() => useIdeas(defaultOptions))
+
+        let updateCallback: Function
+        mockOptimistic.updateIdeaOptimistic.mockImplementation((idea: unknown, cb: Function) => {
+          updateCallback = cb
+        })
+
+        await act(async () => {
+          await result.current.updateIdea({ ...mockIdea, tags: ['Q3', 'Mobile'] })
+          await updateCallback!()
+        })
+
+        expect(mockDb.updateIdea).toHaveBeenCalledWith(
+          mockIdea.id,
+          expect.objectContaining({ tags: ['Q3', 'Mobile'] }),
+          expect.anything()
+        )
+      })
+
       it('should handle idea update failure', async () => {
         mockDb.updateIdea.mockResolvedValue(null)
         const { result } = renderHook(() => useIdeas(defaultOptions))
@@ -449,10 +498,132 @@ describe('useIdeas', () => {
     })
   })
 
+  // -------------------------------------------------------------------------
+  // undo / redo
+  // -------------------------------------------------------------------------
+
+  describe('undo/redo', () => {
+    const updatedIdea = { ...mockIdea, content: 'Updated Content' }
+
+    const renderWithSavedEdit = async () => {
+      const callbacks: Function[] = []
+      mockOptimistic.updateIdeaOptimistic.mockImplementation((_idea: unknown, cb: Function) => {
+        callbacks.push(cb)
+      })
+      mockDb.updateIdea.mockResolvedValue(updatedIdea)
+      const hook = renderHook(() => useIdeas(defaultOptions))
+
+      await act(async () => {
+        await hook.result.current.updateIdea(updatedIdea)
+        await callbacks[0]()
+      })
+      return hook
+    }
+
+    it('undoes the user\'s own edit back to the previous fields', async () => {
+      const { result, rerender } = await renderWithSavedEdit()
+      expect(result.current.canUndo).toBe(true)
+
+      mockOptimistic.optimisticData = mockIdeas.map(i => (i.id === mockIdea.id ? updatedIdea : i))
+      rerender()
+
+      act(() => {
+        expect(result.current.undo()).toBe('applied')
+      })
+
+      expect(mockOptimistic.updateIdeaOptimistic).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: mockIdea.id, content: 'Test Idea' }),
+        expect.any(Function)
+      )
+      expect(result.current.canUndo).toBe(false)
+      expect(result.current.canRedo).toBe(true)
+    })
+
+    it('skips the undo when a collaborator changed the idea since', async () => {
+      const { result, rerender } = await renderWithSavedEdit()
+
+      mockOptimistic.optimisticData = mockIdeas.map(i =>
+        i.id === mockIdea.id ? { ...updatedIdea, content: 'Remote edit' } : i
+      )
+      rerender()
+
+      act(() => {
+        expect(result.current.undo()).toBe('conflict')
+      })
+
+      expect(mockOptimistic.updateIdeaOptimistic).toHaveBeenCalledTimes(1)
+      expect(result.current.canUndo).toBe(false)
+      expect(result.current.canRedo).toBe(false)
+    })
+
+    it('saves the previous tags when undoing a tag edit', async () => {
+      const callbacks: Function[] = []
+      mockOptimistic.updateIdeaOptimistic.mockImplementation((_idea: unknown, cb: Function) => {
+        callbacks.push(cb)
+      })
+      const tagged = { ...mockIdea, tags: ['Q3'] }
+      mockDb.updateIdea.mockResolvedValue(tagged)
+      const { result, rerender } = renderHook(() => useIdeas(defaultOptions))
+
+      await act(async () => {
+        await result.current.updateIdea(tagged)
+        await callbacks[0]()
+      })
+
+      mockOptimistic.optimisticData = mockIdeas.map(i => (i.id === mockIdea.id ? tagged : i))
+      rerender()
+
+      await act(async () => {
+        expect(result.current.undo()).toBe('applied')
+        await callbacks[1]()
+      })
+
+      expect(mockDb.updateIdea).toHaveBeenLastCalledWith(
+        mockIdea.id,
+        expect.objectContaining({ tags: [] }),
+        expect.anything()
+      )
+    })
+
+    it('reports an empty history', () => {
+      const { result } = renderHook(() => useIdeas(defaultOptions))
+      expect(result.current.undo()).toBe('empty')
+      expect(result.current.redo()).toBe('empty')
+    })
+  })
+
   // -------------------------------------------------------------------------
   // loadIdeas
   // -------------------------------------------------------------------------
 
+  describe('bulk operations', () => {
+    it('saves a bulk edit in one batched call and records it as one undo step', async () => {
+      const moved = mockIdeas.map(i => ({ ...i, priority: 'high' as const }))
+      mockRepo.bulkUpdateIdeas.mockResolvedValue({ success: true, data: moved })
+      const { result } = renderHook(() => useIdeas(defaultOptions))
+
+      let saved = 0
+      await act(async () => {
+        saved = await result.current.bulkUpdateIdeas(mockIdeas.map(i => ({ id: i.id, priority: 'high' })))
+      })
+
+      expect(saved).toBe(mockIdeas.length)
+      expect(mockRepo.bulkUpdateIdeas).toHaveBeenCalledTimes(1)
+      expect(result.current.canUndo).toBe(true)
+    })
+
+    it('rejects and records nothing when the batch fails', async () => {
+      mockRepo.bulkDeleteIdeas.mockResolvedValue({ success: false, error: 'denied' })
+      const { result } = renderHook(() => useIdeas(defaultOptions))
+
+      await act(async () => {
+        await expect(result.current.bulkDeleteIdeas([mockIdea.id])).rejects.toThrow('denied')
+      })
+
+      expect(result.current.canUndo).toBe(false)
+    })
+  })
+
   describe('loadIdeas', () => {
     it('should load ideas for a specific project', async () => {
       const { result } = renderHook(() => useIdeas(defaultOptions))
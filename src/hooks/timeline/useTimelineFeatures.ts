@@ -15,6 +15,7 @@ interface RoadmapFeature {
   risks?: string[]
   successCriteria?: string[]
   complexity?: string
+  locked?: boolean
   phaseIndex?: number
   epicIndex?: number
 }
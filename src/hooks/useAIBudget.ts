@@ -0,0 +1,130 @@
+/**
+ * useAIBudget -- fetches the monthly AI spend budgets that apply to the
+ * current user and, when given, a project.
+ *
+ * Behavior:
+ * - On mount: fetches GET /api/ai?action=budget-status&projectId=<id>
+ * - Caches results per project for 60 seconds (module-level, shared across instances)
+ * - Re-fetches, bypassing the cache, on 'ai-quota-changed' (an AI call was
+ *   made) and 'ai-budget-exceeded' (the server refused one)
+ * - level is 'ok' when no budget applies
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { getCsrfToken } from '../utils/cookieUtils'
+import { logger } from '../utils/logger'
+
+export type AIBudgetLevel = 'ok' | 'warning' | 'exceeded'
+
+export interface AIBudgetStatus {
+  budgetId: string
+  scope: 'project' | 'user'
+  scopeId: string
+  costLimit: number | null
+  tokenLimit: number | null
+  spentCost: number
+  spentTokens: number
+  percentUsed: number
+  softLimitPercent: number
+  level: AIBudgetLevel
+}
+
+export interface AIBudgetData {
+  level: AIBudgetLevel
+  budgets: AIBudgetStatus[]
+  resetsAt: string
+}
+
+export interface UseAIBudgetReturn {
+  budget: AIBudgetData | null
+  isLoading: boolean
+  error: string | null
+  refresh: () => void
+}
+
+const CACHE_TTL_MS = 60_000
+const REFRESH_EVENTS = ['ai-quota-changed', 'ai-budget-exceeded'] as const
+
+const cache = new Map<string, { data: AIBudgetData; fetchedAt: number }>()
+
+/** Clears the shared cache. Exposed for test isolation only. */
+export function _clearAIBudgetCache(): void {
+  cache.clear()
+}
+
+export function useAIBudget(projectId?: string | null): UseAIBudgetReturn {
+  const cacheKey = projectId || ''
+  const [budget, setBudget] = useState<AIBudgetData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const mountedRef = useRef(true)
+
+  const fetchBudget = useCallback(async (bypassCache = false) => {
+    const cached = cache.get(cacheKey)
+    if (!bypassCache && cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      setBudget(cached.data)
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      const csrfToken = getCsrfToken()
+      if (csrfToken) {
+        headers['X-CSRF-Token'] = csrfToken
+      }
+
+      const query = cacheKey ? `&projectId=${encodeURIComponent(cacheKey)}` : ''
+      const response = await fetch(`/api/ai?action=budget-status${query}`, {
+        credentials: 'include',
+        headers,
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        throw new Error(body.error || `Budget fetch failed (${response.status})`)
+      }
+
+      const data: AIBudgetData = await response.json()
+      cache.set(cacheKey, { data, fetchedAt: Date.now() })
+
+      if (mountedRef.current) {
+        setBudget(data)
+        setError(null)
+        setIsLoading(false)
+      }
+    } catch (err) {
+      logger.error('Failed to fetch AI budget', { error: err })
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch AI budget')
+        setBudget(null)
+        setIsLoading(false)
+      }
+    }
+  }, [cacheKey])
+
+  useEffect(() => {
+    mountedRef.current = true
+    void fetchBudget()
+    return () => {
+      mountedRef.current = false
+    }
+  }, [fetchBudget])
+
+  useEffect(() => {
+    const handleChange = () => {
+      void fetchBudget(true)
+    }
+    for (const event of REFRESH_EVENTS) window.addEventListener(event, handleChange)
+    return () => {
+      for (const event of REFRESH_EVENTS) window.removeEventListener(event, handleChange)
+    }
+  }, [fetchBudget])
+
+  const refresh = useCallback(() => {
+    void fetchBudget(true)
+  }, [fetchBudget])
+
+  return { budget, isLoading, error, refresh }
+}
@@ -0,0 +1,346 @@
+/**
+ * useBlindRating — project-scope blind rating rounds
+ *
+ * Each rater positions ideas privately (idea_ratings); the facilitator
+ * (project owner) reveals all ratings at once. Round state is persisted in
+ * projects.settings.blind_rating and fanned out on the project channel of
+ * ScopedRealtimeManager so every open matrix flips to the consensus view at
+ * the same moment.
+ *
+ * Broadcast events on `project:<id>`:
+ *   blind_rating_state    { blindRating }          — start / reveal / end
+ *   blind_rating_progress { userId, ratedCount }   — no positions, keeps ratings blind
+ *
+ * Polling fallback re-reads the project row and ratings when the channel is down.
+ */
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import {
+  upsertRating,
+  listRatingsForProject,
+  clearRatings,
+  RatingRepositoryError,
+} from '../lib/repositories/ratingRepository'
+import { ProjectRepository } from '../lib/repositories/projectRepository'
+import { DatabaseService } from '../lib/database'
+import { CollaborationService } from '../lib/services/CollaborationService'
+import { withBlindRatingSettings } from '../lib/config/projectSettings'
+import {
+  canRateIdeas,
+  computeConsensus,
+  getWidestDisagreements,
+  isRatingFacilitator,
+  type IdeaConsensus,
+} from '../utils/ratingConsensus'
+import { logger } from '../utils/logger'
+import type { ScopedRealtimeManager } from '../lib/realtime/ScopedRealtimeManager'
+import type {
+  BlindRatingSettings,
+  BlindRatingStatus,
+  IdeaRating,
+  Project,
+  ProjectRole,
+} from '../types'
+
+const ERROR_DISMISS_MS = 4000
+const POLLING_INTERVAL_MS = 5000
+
+const COPY_RATE_FAILED = "Couldn't save your rating. Try again."
+const COPY_RATE_LOCKED = 'Ratings are locked for this round.'
+const COPY_ROUND_FAILED = "Couldn't update the rating round. Try again."
+
+export const BLIND_RATING_STATE_EVENT = 'blind_rating_state'
+export const BLIND_RATING_PROGRESS_EVENT = 'blind_rating_progress'
+
+interface BlindRatingStatePayload {
+  blindRating: BlindRatingSettings | null
+}
+
+interface BlindRatingProgressPayload {
+  userId: string
+  ratedCount: number
+}
+
+export interface UseBlindRatingOptions {
+  project: Project
+  currentUserId: string
+  manager: ScopedRealtimeManager | null
+  onProjectChange?: (project: Project) => void
+}
+
+export interface UseBlindRatingReturn {
+  /** null when no round is running */
+  status: BlindRatingStatus | null
+  role: ProjectRole | null
+  canRate: boolean
+  isFacilitator: boolean
+  /** The current user's own ratings keyed by idea id */
+  myRatings: ReadonlyMap<string, IdeaRating>
+  /** All ratings — only the caller's own until reveal */
+  ratings: ReadonlyArray<IdeaRating>
+  consensus: ReadonlyMap<string, IdeaConsensus>
+  widestDisagreements: IdeaConsensus[]
+  /** Ideas rated so far per rater, from progress broadcasts */
+  raterProgress: ReadonlyMap<string, number>
+  rateIdea: (ideaId: string, x: number, y: number) => Promise<void>
+  startRound: () => Promise<void>
+  reveal: () => Promise<void>
+  endRound: () => Promise<void>
+  loading: boolean
+  error: string | null
+}
+
+export function useBlindRating({
+  project,
+  currentUserId,
+  manager,
+  onProjectChange,
+}: UseBlindRatingOptions): UseBlindRatingReturn {
+  const [blindRating, setBlindRating] = useState<BlindRatingSettings | null>(
+    project.settings?.blind_rating ?? null
+  )
+  const [role, setRole] = useState<ProjectRole | null>(
+    project.owner_id === currentUserId ? 'owner' : null
+  )
+  const [ratings, setRatings] = useState<IdeaRating[]>([])
+  const [raterProgress, setRaterProgress] = useState<Map<string, number>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const ratingsRef = useRef(ratings)
+  ratingsRef.current = ratings
+  const projectRef = useRef(project)
+  projectRef.current = project
+  const statusRef = useRef<BlindRatingStatus | null>(blindRating?.status ?? null)
+  statusRef.current = blindRating?.status ?? null
+
+  const errorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const setErrorWithDismiss = useCallback((msg: string) => {
+    if (errorTimerRef.current !== null) clearTimeout(errorTimerRef.current)
+    setError(msg)
+    errorTimerRef.current = setTimeout(() => {
+      setError(null)
+      errorTimerRef.current = null
+    }, ERROR_DISMISS_MS)
+  }, [])
+
+  useEffect(() => () => {
+    if (errorTimerRef.current !== null) clearTimeout(errorTimerRef.current)
+  }, [])
+
+  // Follow the persisted round when the project prop is refreshed elsewhere
+  const persistedBlindRating = project.settings?.blind_rating ?? null
+  useEffect(() => {
+    setBlindRating(persistedBlindRating)
+  // Compare by value: settings objects are recreated on every project fetch
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [persistedBlindRating?.status, persistedBlindRating?.started_at])
+
+  // ---------------------------------------------------------------------------
+  // Role: owners facilitate, editors rate, everyone else watches
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    if (project.owner_id === currentUserId) {
+      setRole('owner')
+      return
+    }
+    let cancelled = false
+    void CollaborationService.getUserProjectRole(project.id, currentUserId, { userId: currentUserId })
+      .then((result) => {
+        if (!cancelled) setRole(result.success ? result.data : null)
+      })
+      .catch((err) => logger.error('useBlindRating: role lookup failed', err))
+    return () => {
+      cancelled = true
+    }
+  }, [project.id, project.owner_id, currentUserId])
+
+  // ---------------------------------------------------------------------------
+  // Reconcile: authoritative re-fetch of ratings (RLS decides what is visible)
+  // ---------------------------------------------------------------------------
+  const reconcile = useCallback(async (): Promise<void> => {
+    try {
+      const rows = await listRatingsForProject(project.id)
+      setRatings(rows)
+    } catch (err) {
+      logger.error('useBlindRating: reconcile failed', err)
+    }
+  }, [project.id])
+
+  const applyRemoteState = useCallback((next: BlindRatingSettings | null) => {
+    const previous = statusRef.current
+    setBlindRating(next)
+    if (!next) {
+      setRatings([])
+      setRaterProgress(new Map())
+    } else if (next.status !== previous) {
+      if (next.status === 'collecting') setRaterProgress(new Map())
+      void reconcile()
+    }
+  }, [reconcile])
+
+  useEffect(() => {
+    if (!blindRating) {
+      setLoading(false)
+      return
+    }
+    void reconcile().finally(() => setLoading(false))
+  // Only refetch when a round starts or is revealed, not on every settings object
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reconcile, blindRating?.status, blindRating?.started_at])
+
+  // ---------------------------------------------------------------------------
+  // Realtime: state + progress broadcasts, polling fallback
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    if (!manager) return
+
+    const unsubState = manager.onBroadcast<BlindRatingStatePayload>(
+      BLIND_RATING_STATE_EVENT,
+      (payload) => applyRemoteState(payload?.blindRating ?? null)
+    )
+
+    const unsubProgress = manager.onBroadcast<BlindRatingProgressPayload>(
+      BLIND_RATING_PROGRESS_EVENT,
+      (payload) => {
+        if (!payload?.userId) return
+        setRaterProgress((prev) => new Map(prev).set(payload.userId, payload.ratedCount))
+      }
+    )
+
+    const unsubPollingTick = manager.onPollingTick(() => {
+      void ProjectRepository.getProjectById(projectRef.current.id).then((latest) => {
+        if (latest) applyRemoteState(latest.settings?.blind_rating ?? null)
+      })
+    }, POLLING_INTERVAL_MS)
+
+    return () => {
+      unsubState()
+      unsubProgress()
+      unsubPollingTick()
+    }
+  }, [manager, applyRemoteState])
+
+  // ---------------------------------------------------------------------------
+  // Rating: optimistic own position + repo call + rollback
+  // ---------------------------------------------------------------------------
+  const rateIdea = useCallback(async (ideaId: string, x: number, y: number): Promise<void> => {
+    if (statusRef.current !== 'collecting') {
+      setErrorWithDismiss(COPY_RATE_LOCKED)
+      return
+    }
+
+    // Ref-based read so rapid consecutive drags build on each other
+    const previous = ratingsRef.current
+    const next = previous.filter((r) => !(r.idea_id === ideaId && r.user_id === currentUserId))
+    next.push({ idea_id: ideaId, user_id: currentUserId, x, y })
+    const ratedCount = next.filter((r) => r.user_id === currentUserId).length
+    ratingsRef.current = next
+    setRatings(next)
+
+    const result = await upsertRating(project.id, ideaId, x, y)
+    if (!result.ok) {
+      ratingsRef.current = previous
+      setRatings(previous)
+      setErrorWithDismiss(result.reason === 'locked' ? COPY_RATE_LOCKED : COPY_RATE_FAILED)
+      return
+    }
+
+    manager?.sendBroadcast<BlindRatingProgressPayload>(BLIND_RATING_PROGRESS_EVENT, {
+      userId: currentUserId,
+      ratedCount,
+    })
+    setRaterProgress((prev) => new Map(prev).set(currentUserId, ratedCount))
+  }, [project.id, currentUserId, manager, setErrorWithDismiss])
+
+  // ---------------------------------------------------------------------------
+  // Facilitator actions: persist to project settings, then broadcast
+  // ---------------------------------------------------------------------------
+  const persistRound = useCallback(async (next: BlindRatingSettings | null): Promise<boolean> => {
+    const settings = withBlindRatingSettings(projectRef.current.settings, next)
+    const updated = await DatabaseService.updateProject(projectRef.current.id, { settings })
+    if (!updated) {
+      setErrorWithDismiss(COPY_ROUND_FAILED)
+      return false
+    }
+    onProjectChange?.(updated)
+    applyRemoteState(next)
+    manager?.sendBroadcast<BlindRatingStatePayload>(BLIND_RATING_STATE_EVENT, { blindRating: next })
+    return true
+  }, [manager, onProjectChange, applyRemoteState, setErrorWithDismiss])
+
+  const startRound = useCallback(async (): Promise<void> => {
+    try {
+      // A new round always starts from a clean slate
+      await clearRatings(project.id)
+      await persistRound({
+        status: 'collecting',
+        started_at: new Date().toISOString(),
+        started_by: currentUserId,
+      })
+    } catch (err) {
+      logger.error('useBlindRating: startRound failed', err)
+      setErrorWithDismiss(COPY_ROUND_FAILED)
+    }
+  }, [project.id, currentUserId, persistRound, setErrorWithDismiss])
+
+  const reveal = useCallback(async (): Promise<void> => {
+    if (!blindRating || blindRating.status !== 'collecting') return
+    try {
+      await persistRound({ ...blindRating, status: 'revealed', revealed_at: new Date().toISOString() })
+    } catch (err) {
+      logger.error('useBlindRating: reveal failed', err)
+      setErrorWithDismiss(COPY_ROUND_FAILED)
+    }
+  }, [blindRating, persistRound, setErrorWithDismiss])
+
+  const endRound = useCallback(async (): Promise<void> => {
+    try {
+      if (await persistRound(null)) {
+        await clearRatings(project.id)
+      }
+    } catch (err) {
+      // Ratings left behind are harmless: the next round clears them first
+      if (err instanceof RatingRepositoryError) {
+        logger.warn('useBlindRating: ratings not cleared after ending round', err)
+        return
+      }
+      logger.error('useBlindRating: endRound failed', err)
+      setErrorWithDismiss(COPY_ROUND_FAILED)
+    }
+  }, [project.id, persistRound, setErrorWithDismiss])
+
+  const myRatings = useMemo(() => {
+    const own = new Map<string, IdeaRating>()
+    for (const rating of ratings) {
+      if (rating.user_id === currentUserId) own.set(rating.idea_id, rating)
+    }
+    return own
+  }, [ratings, currentUserId])
+
+  const status = blindRating?.status ?? null
+  const consensus = useMemo(
+    () => (status === 'revealed' ? computeConsensus(ratings) : new Map<string, IdeaConsensus>()),
+    [status, ratings]
+  )
+  const widestDisagreements = useMemo(() => getWidestDisagreements(consensus), [consensus])
+
+  return {
+    status,
+    role,
+    canRate: canRateIdeas(role),
+    isFacilitator: isRatingFacilitator(role),
+    myRatings,
+    ratings,
+    consensus,
+    widestDisagreements,
+    raterProgress,
+    rateIdea,
+    startRound,
+    reveal,
+    endRound,
+    loading,
+    error,
+  }
+}
@@ -10,7 +10,7 @@
 
 import { useEffect, useState, useRef, useCallback } from 'react'
 import { BrainstormRealtimeManager, type PresenceState } from '../lib/realtime/BrainstormRealtimeManager'
-import type { SessionParticipant, SessionState } from '../types/BrainstormSession'
+import type { HeldIdea, SessionParticipant, SessionState } from '../types/BrainstormSession'
 
 export interface IdeaCard {
   id: string
@@ -48,6 +48,8 @@ export interface UseBrainstormRealtimeOptions {
   /** Called when participant data is updated (e.g., contribution_count changes) */
   onParticipantUpdated?: (participant: SessionParticipant) => void
   onSessionStateChanged?: (state: SessionState) => void
+  /** Facilitator only: called when a held submission is added or reviewed */
+  onHeldIdeaChanged?: (heldIdea: HeldIdea) => void
   onConnectionChange?: (isConnected: boolean) => void
   /** Called when realtime connection fails after max reconnect attempts - use to activate polling fallback */
   onConnectionFailed?: () => void
@@ -169,6 +171,10 @@ export function useBrainstormRealtime(
         setSessionState(state)
         optionsRef.current.onSessionStateChanged?.(state)
       },
+      // Only the facilitator subscribes to the moderation queue
+      onHeldIdeaChanged: optionsRef.current.onHeldIdeaChanged
+        ? (heldIdea: HeldIdea) => optionsRef.current.onHeldIdeaChanged?.(heldIdea)
+        : undefined,
       onConnectionFailed: () => {
         console.log('📡 useBrainstormRealtime: Connection failed - triggering polling fallback')
         optionsRef.current.onConnectionFailed?.()
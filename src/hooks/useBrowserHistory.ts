@@ -2,12 +2,17 @@ import { useEffect, useRef, useState } from 'react'
 import { useNavigate, useLocation } from 'react-router-dom'
 import { sanitizeProjectId } from '../utils/uuid'
 import { useLogger } from '../lib/logging'
+import type { IdeaFilter } from '../types'
+import { ideaFilterFromSearchParams, ideaFilterToSearchParams, isSameIdeaFilter } from '../utils/ideaFilter'
 
 interface UseBrowserHistoryProps {
   currentPage: string | null // null = initial route not yet determined
   onPageChange: (page: string) => void
   currentProject?: { id: string; name: string } | null
   onProjectRestore?: (projectId: string) => void
+  /** Matrix filter mirrored into the URL (?tags=&priority=…) so filtered views can be shared */
+  ideaFilter?: IdeaFilter
+  onIdeaFilterChange?: (filter: IdeaFilter) => void
 }
 
 interface UseBrowserHistoryReturn {
@@ -18,7 +23,9 @@ export const useBrowserHistory = ({
   currentPage,
   onPageChange,
   currentProject,
-  onProjectRestore
+  onProjectRestore,
+  ideaFilter,
+  onIdeaFilterChange
 }: UseBrowserHistoryProps): UseBrowserHistoryReturn => {
   const navigate = useNavigate()
   const location = useLocation()
@@ -33,6 +40,10 @@ export const useBrowserHistory = ({
   const failedRestorationAttemptsRef = useRef(new Set<string>())
   // CRITICAL FIX: Track attempted restorations to prevent infinite loop from duplicate useEffects
   const attemptedRestorationRef = useRef(new Set<string>())
+  // Filter the URL and caller last agreed on, and the caller's previous value;
+  // only changes made by the caller are written back to the URL
+  const lastIdeaFilterRef = useRef(ideaFilter)
+  const previousIdeaFilterRef = useRef(ideaFilter)
 
   // CRITICAL FIX: Enhanced project restoration with deadlock prevention and auth coordination
   useEffect(() => {
@@ -249,6 +260,11 @@ export const useBrowserHistory = ({
     if (currentProject) {
       targetUrl += `?project=${encodeURIComponent(currentProject.id)}`
     }
+    // Filters only apply to the matrix; keep them in its URL so the view can be shared
+    if (currentPage === 'matrix' && ideaFilter) {
+      const filterParams = ideaFilterToSearchParams(ideaFilter, new URLSearchParams()).toString()
+      if (filterParams) targetUrl += `${currentProject ? '&' : '?'}${filterParams}`
+    }
 
     // If we're already at the target path, don't navigate — this preserves
     // incoming query params like /subscription/success?session_id=... from
@@ -277,10 +293,39 @@ export const useBrowserHistory = ({
 
     lastCurrentPageRef.current = currentPage
     lastProjectIdRef.current = currentProject?.id
-  }, [currentPage, currentProject, navigate, pageToPath, isRestoringProject, location.search])
+  }, [currentPage, currentProject, navigate, pageToPath, isRestoringProject, location.search, ideaFilter])
   // NOTE: location.pathname and location.search intentionally excluded from deps
   // They're used for comparison only, not as triggers (would cause infinite loop)
 
+  // Sync the matrix filter from the URL (shared links, back/forward)
+  useEffect(() => {
+    if (!onIdeaFilterChange || (pathToPage[location.pathname] || 'matrix') !== 'matrix') return
+    const filterFromUrl = ideaFilterFromSearchParams(new URLSearchParams(location.search))
+    if (!isSameIdeaFilter(filterFromUrl, lastIdeaFilterRef.current ?? {})) {
+      logger.debug('Applying matrix filter from URL', { filter: filterFromUrl })
+      lastIdeaFilterRef.current = filterFromUrl
+      onIdeaFilterChange(filterFromUrl)
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [location.search, location.pathname])
+
+  // Write filter changes made on the matrix into the URL, replacing the entry
+  // so that tweaking a filter doesn't flood the back button
+  useEffect(() => {
+    if (!ideaFilter || isSameIdeaFilter(ideaFilter, previousIdeaFilterRef.current ?? {})) return
+    previousIdeaFilterRef.current = ideaFilter
+    lastIdeaFilterRef.current = ideaFilter
+    if (currentPage !== 'matrix') return
+
+    const currentParams = new URLSearchParams(location.search)
+    const nextParams = ideaFilterToSearchParams(ideaFilter, currentParams)
+    if (nextParams.toString() !== currentParams.toString()) {
+      const search = nextParams.toString()
+      navigate(`${location.pathname}${search ? `?${search}` : ''}`, { replace: true })
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ideaFilter, currentPage])
+
   // Sync page and project when URL changes (browser navigation or direct URL access)
   useEffect(() => {
     const currentPageFromUrl = pathToPage[location.pathname] || 'matrix'
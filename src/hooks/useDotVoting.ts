@@ -1,48 +1,97 @@
 /**
  * useDotVoting — Phase 05.4a Wave 2, Unit 3
  *
- * Session-scope dot voting hook. Manages optimistic state with rollback,
- * 5-dot budget enforcement, postgres_changes fanout via ScopedRealtimeManager,
- * and reconnect reconciliation.
+ * Session-scope voting hook. Manages optimistic state with rollback,
+ * budget enforcement for the session's voting scheme (utils/votingSchemes),
+ * postgres_changes fanout via ScopedRealtimeManager, and reconnect
+ * reconciliation.
  *
  * Hook contract (frozen per D-01):
  *   { votesUsed, votesRemaining, tallies, myVotes, castVote, removeVote, reconcile, loading, error }
+ * extended with { config, myWeights, results } for the non-dot schemes.
+ *
+ * Hidden and anonymous sessions: the database returns only the user's own
+ * votes, so tallies come from fetchSessionTallies (talliesHidden for
+ * participants until the facilitator reveals) and are refetched when a
+ * client broadcasts VOTES_CHANGED_EVENT. The broadcast carries no payload,
+ * so it cannot link a vote to a voter.
  *
  * Poirot Finding 4 closure: removeVote wraps voteRepository.removeVote in
  * try/catch and interprets VoteRepositoryError as a rollback trigger.
  */
 
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import {
   castVote as repoCastVote,
+  changeVote as repoChangeVote,
   removeVote as repoRemoveVote,
+  fetchSessionTallies,
   listVotesForSession,
   reconcileTallies,
   VoteRepositoryError,
+  type CastVoteResult,
+  type VoteTally,
 } from '../lib/repositories/voteRepository'
 import { logger } from '../utils/logger'
+import {
+  DEFAULT_VOTING_CONFIG,
+  areVotesPublic,
+  checkVote,
+  getDefaultVoteWeight,
+  getVoteScore,
+  getVotesRemaining,
+  getVotesUsed,
+  rankVoteResults,
+  rankVoteTallies,
+  type VoteResult,
+  type VotingConfig,
+} from '../utils/votingSchemes'
 import type { ScopedRealtimeManager } from '../lib/realtime/ScopedRealtimeManager'
 import type { ConnectionState } from '../lib/realtime/ScopedRealtimeManager'
 
-const MAX_VOTES = 5
 const ERROR_DISMISS_MS = 4000
 const POLLING_INTERVAL_MS = 5000
+/** Broadcast after a vote changes in a hidden or anonymous session */
+export const VOTES_CHANGED_EVENT = 'votes_changed'
 
 // Error copy (UX §4 verbatim)
-const COPY_BUDGET_FULL = "You've used all 5 votes. Remove one to cast another."
 const COPY_CAST_FAILED = "Couldn't save your vote. Check your connection and try again."
 const COPY_REMOVE_FAILED = "Couldn't remove your vote. Try again."
+const COPY_INVALID_VOTE = "That vote isn't allowed in this session."
+
+function budgetFullCopy(config: VotingConfig): string {
+  switch (config.scheme) {
+    case 'ranked':
+      return `You've ranked ${config.budget} ideas. Remove one to rank another.`
+    case 'points':
+      return `You've allocated all ${config.budget} points. Take some back to move them.`
+    default:
+      return `You've used all ${config.budget} votes. Remove one to cast another.`
+  }
+}
 
 export interface UseDotVotingReturn {
   votesUsed: number
   votesRemaining: number
   tallies: ReadonlyMap<string, number>
   myVotes: ReadonlySet<string>
-  castVote: (ideaId: string) => Promise<void>
+  /**
+   * Set the current user's vote on an idea. Without a weight this adds a dot,
+   * takes the best free rank, gives a thumbs up or adds a step of points.
+   */
+  castVote: (ideaId: string, weight?: number) => Promise<void>
+  /** Take back one dot (several-dots sessions) or the whole vote otherwise */
   removeVote: (ideaId: string) => Promise<void>
   reconcile: () => Promise<void>
   loading: boolean
   error: string | null
+  config: VotingConfig
+  /** The current user's weight per idea: dots, rank, +1/-1 or points */
+  myWeights: ReadonlyMap<string, number>
+  /** Ideas ordered by tally with tie-breaking applied */
+  results: VoteResult[]
+  /** Tallies are withheld until the facilitator reveals the votes */
+  talliesHidden: boolean
 }
 
 type VotePayload = {
@@ -52,24 +101,74 @@ type VotePayload = {
   eventType: string
 }
 
+type VoteEntry = { user_id: string; idea_id: string; weight: number }
+
+const voteKey = (userId: string, ideaId: string) => `${userId}:${ideaId}`
+
+function withTallyDelta(
+  tallies: Map<string, number>,
+  ideaId: string,
+  delta: number,
+  votes: ReadonlyMap<string, VoteEntry>
+): Map<string, number> {
+  const next = new Map(tallies)
+  const value = (next.get(ideaId) ?? 0) + delta
+  // Keep a net-zero tally while the idea still has votes (thumbs up and down)
+  if (value === 0 && ![...votes.values()].some((vote) => vote.idea_id === ideaId)) {
+    next.delete(ideaId)
+  } else {
+    next.set(ideaId, value)
+  }
+  return next
+}
+
 export function useDotVoting(
   sessionId: string,
   currentUserId: string,
-  manager: ScopedRealtimeManager | null
+  manager: ScopedRealtimeManager | null,
+  configProp: VotingConfig = DEFAULT_VOTING_CONFIG
 ): UseDotVotingReturn {
+  // Callers rebuild the config whenever the session row changes; keep it
+  // stable so listeners are only re-registered when the config really changes
+  const { scheme, budget, allowMultiple, visibility = 'live', revealed = false } = configProp
+  const config = useMemo<VotingConfig>(
+    () => ({ scheme, budget, allowMultiple, visibility, revealed }),
+    [scheme, budget, allowMultiple, visibility, revealed]
+  )
+  const votesPublic = areVotesPublic(config)
+
   const [tallies, setTallies] = useState<Map<string, number>>(new Map())
-  const [myVotes, setMyVotes] = useState<Set<string>>(new Set())
-  const [votesUsed, setVotesUsed] = useState(0)
+  // Server-side aggregates; used instead of vote rows when votes are not public
+  const [aggregates, setAggregates] = useState<VoteTally[] | null>([])
+  // Every vote in the session keyed by user and idea; own votes include optimistic ones
+  const [votes, setVotes] = useState<Map<string, VoteEntry>>(new Map())
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  // Ref-based access to current state for use inside callbacks without stale closures
+  // Ref-based access to current state for use inside callbacks without stale closures.
+  // Writers update the refs immediately so concurrent calls see each other.
   const talliesRef = useRef(tallies)
-  const myVotesRef = useRef(myVotes)
-  const votesUsedRef = useRef(votesUsed)
+  const votesRef = useRef(votes)
   talliesRef.current = tallies
-  myVotesRef.current = myVotes
-  votesUsedRef.current = votesUsed
+  votesRef.current = votes
+
+  const applyVotes = useCallback((next: Map<string, VoteEntry>) => {
+    votesRef.current = next
+    setVotes(next)
+  }, [])
+
+  const applyTallies = useCallback((next: Map<string, number>) => {
+    talliesRef.current = next
+    setTallies(next)
+  }, [])
+
+  const getMyWeights = useCallback((source: ReadonlyMap<string, VoteEntry>) => {
+    const weights = new Map<string, number>()
+    for (const vote of source.values()) {
+      if (vote.user_id === currentUserId) weights.set(vote.idea_id, vote.weight)
+    }
+    return weights
+  }, [currentUserId])
 
   // Track previous connection state to detect reconnecting → connected transition
   const prevConnectionStateRef = useRef<ConnectionState | null>(null)
@@ -96,26 +195,43 @@ export function useDotVoting(
   // ---------------------------------------------------------------------------
   // Reconcile: authoritative re-fetch from repository
   // ---------------------------------------------------------------------------
+  const applyAggregates = useCallback((rows: VoteTally[] | null) => {
+    setAggregates(rows)
+    applyTallies(new Map((rows ?? []).map((row) => [row.idea_id, row.score])))
+  }, [applyTallies])
+
+  const refreshTallies = useCallback(async (): Promise<void> => {
+    applyAggregates(await fetchSessionTallies(sessionId))
+  }, [sessionId, applyAggregates])
+
   const reconcile = useCallback(async (): Promise<void> => {
     try {
+      if (!votesPublic) {
+        const [rows, ownVotes] = await Promise.all([
+          fetchSessionTallies(sessionId),
+          listVotesForSession(sessionId),
+        ])
+        applyAggregates(rows)
+        applyVotes(new Map(ownVotes
+          .filter((v) => v.user_id === currentUserId)
+          .map((v) => [voteKey(v.user_id, v.idea_id), { user_id: v.user_id, idea_id: v.idea_id, weight: v.weight ?? 1 }])))
+        return
+      }
+
       const [newTallies, allVotes] = await Promise.all([
-        reconcileTallies(sessionId),
+        reconcileTallies(sessionId, config),
         listVotesForSession(sessionId),
       ])
 
-      const ownVotes = new Set(
-        allVotes
-          .filter((v) => v.user_id === currentUserId)
-          .map((v) => v.idea_id)
-      )
-
-      setTallies(newTallies)
-      setMyVotes(ownVotes)
-      setVotesUsed(ownVotes.size)
+      applyTallies(newTallies)
+      applyVotes(new Map(allVotes.map((v) => [
+        voteKey(v.user_id, v.idea_id),
+        { user_id: v.user_id, idea_id: v.idea_id, weight: v.weight ?? 1 },
+      ])))
     } catch (err) {
       logger.error('useDotVoting: reconcile failed', err)
     }
-  }, [sessionId, currentUserId])
+  }, [sessionId, currentUserId, config, votesPublic, applyTallies, applyVotes, applyAggregates])
 
   // ---------------------------------------------------------------------------
   // postgres_changes event handler
@@ -124,56 +240,87 @@ export function useDotVoting(
     // Poirot Finding 1 fix: use eventType from ScopedRealtimeManager instead of
     // heuristic (old === null && empty new). The heuristic misroutes UPDATE events
     // that arrive with no old row (e.g. full-table-scan-filtered updates).
-    const isInsert = payload.eventType === 'INSERT'
-    const isDelete = payload.eventType === 'DELETE'
+    const score = (weight: unknown) => getVoteScore(config, typeof weight === 'number' ? weight : 1)
+    // Hidden votes: own events only change own weights; tallies come from aggregates
+    const applyEventTallies = (next: Map<string, number>) => {
+      if (votesPublic) applyTallies(next)
+    }
+
+    const eventUserId = (payload.eventType === 'DELETE' ? payload.old?.user_id : payload.new.user_id) as string | undefined
+    if (!votesPublic && eventUserId !== currentUserId) return
 
-    if (isInsert) {
+    if (payload.eventType === 'INSERT') {
       const row = payload.new
       const ideaId = row.idea_id as string
       const userId = row.user_id as string
+      const key = voteKey(userId, ideaId)
 
       // D-13: dedup — skip if this is the own-user round-trip already counted optimistically
-      if (userId === currentUserId && myVotesRef.current.has(ideaId)) {
+      if (userId === currentUserId && votesRef.current.has(key)) {
         return
       }
 
-      setTallies((prev) => {
-        const next = new Map(prev)
-        next.set(ideaId, (next.get(ideaId) ?? 0) + 1)
-        return next
-      })
+      const weight = typeof row.weight === 'number' ? row.weight : 1
+      const nextVotes = new Map(votesRef.current).set(key, { user_id: userId, idea_id: ideaId, weight })
+      applyVotes(nextVotes)
+      applyEventTallies(withTallyDelta(talliesRef.current, ideaId, score(weight), nextVotes))
+    } else if (payload.eventType === 'UPDATE') {
+      // A changed weight (rank, points, thumb, extra dot) or a vote moved by a merge
+      const row = payload.new
+      const ideaId = row.idea_id as string
+      const userId = row.user_id as string
+      const weight = typeof row.weight === 'number' ? row.weight : 1
+      // Without the old row (RLS) a vote we do not hold may have moved from another idea
+      if (typeof payload.old?.idea_id !== 'string' && !votesRef.current.has(voteKey(userId, ideaId))) {
+        void reconcile()
+        return
+      }
+      const oldIdeaId = (payload.old?.idea_id as string | undefined) ?? ideaId
+      const oldKey = voteKey(userId, oldIdeaId)
+      const known = votesRef.current.get(oldKey)
+      const oldWeight = typeof payload.old?.weight === 'number' ? payload.old.weight : known?.weight ?? 1
 
-      if (userId === currentUserId) {
-        setMyVotes((prev) => new Set(prev).add(ideaId))
-        setVotesUsed((prev) => prev + 1)
+      // Own change already applied optimistically
+      if (userId === currentUserId && oldIdeaId === ideaId && known?.weight === weight) {
+        return
       }
-    } else if (isDelete) {
+
+      const nextVotes = new Map(votesRef.current)
+      nextVotes.delete(oldKey)
+      nextVotes.set(voteKey(userId, ideaId), { user_id: userId, idea_id: ideaId, weight })
+      applyVotes(nextVotes)
+      applyEventTallies(withTallyDelta(
+        withTallyDelta(talliesRef.current, oldIdeaId, -score(oldWeight), nextVotes),
+        ideaId,
+        score(weight),
+        nextVotes
+      ))
+    } else if (payload.eventType === 'DELETE') {
       const row = payload.old
       if (!row) return
-      const ideaId = row.idea_id as string
-      const userId = row.user_id as string
-
-      setTallies((prev) => {
-        const next = new Map(prev)
-        const current = next.get(ideaId) ?? 0
-        if (current <= 1) {
-          next.delete(ideaId)
-        } else {
-          next.set(ideaId, current - 1)
-        }
-        return next
-      })
+      // idea_votes has RLS, so delete events carry only the primary key; refetch
+      // rather than guess which vote went
+      if (typeof row.idea_id !== 'string' || typeof row.user_id !== 'string') {
+        void reconcile()
+        return
+      }
+      const ideaId = row.idea_id
+      const userId = row.user_id
+      const key = voteKey(userId, ideaId)
+      const known = votesRef.current.get(key)
 
-      if (userId === currentUserId) {
-        setMyVotes((prev) => {
-          const next = new Set(prev)
-          next.delete(ideaId)
-          return next
-        })
-        setVotesUsed((prev) => Math.max(0, prev - 1))
+      // Own removal already applied optimistically
+      if (userId === currentUserId && !known) {
+        return
       }
+
+      const weight = typeof row.weight === 'number' ? row.weight : known?.weight ?? 1
+      const nextVotes = new Map(votesRef.current)
+      nextVotes.delete(key)
+      applyVotes(nextVotes)
+      applyEventTallies(withTallyDelta(talliesRef.current, ideaId, -score(weight), nextVotes))
     }
-  }, [currentUserId])
+  }, [currentUserId, config, votesPublic, applyTallies, applyVotes, reconcile])
 
   // ---------------------------------------------------------------------------
   // Mount: register listeners, initial reconcile
@@ -199,6 +346,12 @@ export function useDotVoting(
       void reconcile()
     }, POLLING_INTERVAL_MS)
 
+    const unsubVotesChanged = votesPublic
+      ? null
+      : manager.onBroadcast(VOTES_CHANGED_EVENT, () => {
+          void refreshTallies()
+        })
+
     // Initial reconcile
     void reconcile().finally(() => setLoading(false))
 
@@ -206,46 +359,83 @@ export function useDotVoting(
       unsubVoteChange()
       unsubStateChange()
       unsubPollingTick()
+      unsubVotesChanged?.()
       clearErrorTimer()
     }
-  }, [manager, sessionId, handleVoteEvent, reconcile, clearErrorTimer])
+  }, [manager, sessionId, votesPublic, handleVoteEvent, reconcile, refreshTallies, clearErrorTimer])
+
+  // ---------------------------------------------------------------------------
+  // Optimistic write shared by castVote and removeVote: apply the new weight
+  // (null removes the vote) synchronously, then roll back if the repo call
+  // fails or throws
+  // ---------------------------------------------------------------------------
+  const writeVote = useCallback(async (
+    ideaId: string,
+    weight: number | null,
+    write: () => Promise<CastVoteResult>
+  ): Promise<CastVoteResult> => {
+    const prevVotes = votesRef.current
+    const prevTallies = talliesRef.current
+    const key = voteKey(currentUserId, ideaId)
+    const previous = prevVotes.get(key)
+
+    const nextVotes = new Map(prevVotes)
+    if (weight === null) {
+      nextVotes.delete(key)
+    } else {
+      nextVotes.set(key, { user_id: currentUserId, idea_id: ideaId, weight })
+    }
+    const delta =
+      (weight === null ? 0 : getVoteScore(config, weight)) -
+      (previous ? getVoteScore(config, previous.weight) : 0)
+    applyVotes(nextVotes)
+    if (votesPublic) applyTallies(withTallyDelta(prevTallies, ideaId, delta, nextVotes))
+
+    const rollback = () => {
+      applyVotes(prevVotes)
+      applyTallies(prevTallies)
+    }
+    try {
+      const result = await write()
+      if (!result.ok) {
+        rollback()
+      } else if (!votesPublic) {
+        // Others cannot see the row; tell them to refetch the aggregates
+        manager?.sendBroadcast(VOTES_CHANGED_EVENT, {})
+        void refreshTallies()
+      }
+      return result
+    } catch (err) {
+      rollback()
+      throw err
+    }
+  }, [currentUserId, config, votesPublic, manager, applyTallies, applyVotes, refreshTallies])
 
   // ---------------------------------------------------------------------------
   // castVote: synchronous optimistic update + repo call + rollback
   // ---------------------------------------------------------------------------
-  const castVote = useCallback(async (ideaId: string): Promise<void> => {
-    // Synchronous budget check — uses ref for stale-closure safety in concurrent calls
-    if (votesUsedRef.current >= MAX_VOTES) {
-      setErrorWithDismiss(COPY_BUDGET_FULL)
+  const castVote = useCallback(async (ideaId: string, weight?: number): Promise<void> => {
+    // Synchronous scheme and budget check — uses ref for stale-closure safety in concurrent calls
+    const myWeights = getMyWeights(votesRef.current)
+    const nextWeight = weight ?? getDefaultVoteWeight(config, myWeights, ideaId)
+    const check = checkVote(config, myWeights, ideaId, nextWeight)
+    if (check) {
+      setErrorWithDismiss(check === 'budget_exceeded' ? budgetFullCopy(config) : COPY_INVALID_VOTE)
       return
     }
+    if (myWeights.get(ideaId) === nextWeight) return
 
-    // Optimistic update (synchronous)
-    const prevVotesUsed = votesUsedRef.current
-    const prevMyVotes = new Set(myVotesRef.current)
-    const prevTallies = new Map(talliesRef.current)
-
-    setVotesUsed((prev) => prev + 1)
-    votesUsedRef.current = prevVotesUsed + 1  // update ref immediately for race protection
-
-    setMyVotes((prev) => new Set(prev).add(ideaId))
-    setTallies((prev) => {
-      const next = new Map(prev)
-      next.set(ideaId, (next.get(ideaId) ?? 0) + 1)
-      return next
-    })
+    const write = myWeights.has(ideaId)
+      ? () => repoChangeVote(sessionId, ideaId, nextWeight)
+      : () => repoCastVote(sessionId, ideaId, nextWeight)
 
     try {
-      const result = await repoCastVote(sessionId, ideaId)
+      const result = await writeVote(ideaId, nextWeight, write)
       if (!result.ok) {
-        // Rollback
-        setVotesUsed(prevVotesUsed)
-        votesUsedRef.current = prevVotesUsed
-        setMyVotes(prevMyVotes)
-        setTallies(prevTallies)
-
         if (result.reason === 'budget_exceeded') {
-          setErrorWithDismiss(COPY_BUDGET_FULL)
+          setErrorWithDismiss(budgetFullCopy(config))
+        } else if (result.reason === 'invalid_vote') {
+          setErrorWithDismiss(COPY_INVALID_VOTE)
         } else {
           setErrorWithDismiss(COPY_CAST_FAILED)
         }
@@ -254,73 +444,59 @@ export function useDotVoting(
         setError(null)
       }
     } catch (err) {
-      // Rollback on unexpected exception
-      setVotesUsed(prevVotesUsed)
-      votesUsedRef.current = prevVotesUsed
-      setMyVotes(prevMyVotes)
-      setTallies(prevTallies)
+      // Rolled back by writeVote
       logger.error('useDotVoting: castVote exception', err)
       setErrorWithDismiss(COPY_CAST_FAILED)
     }
-  }, [sessionId, setErrorWithDismiss, clearErrorTimer])
+  }, [sessionId, config, getMyWeights, writeVote, setErrorWithDismiss, clearErrorTimer])
 
   // ---------------------------------------------------------------------------
   // removeVote: optimistic decrement + try/catch → rollback on VoteRepositoryError
   // ---------------------------------------------------------------------------
   const removeVote = useCallback(async (ideaId: string): Promise<void> => {
-    // Optimistic update (synchronous)
-    const prevVotesUsed = votesUsedRef.current
-    const prevMyVotes = new Set(myVotesRef.current)
-    const prevTallies = new Map(talliesRef.current)
-
-    setVotesUsed((prev) => Math.max(0, prev - 1))
-    // Poirot Finding 3 fix: mirror castVote pattern — update ref immediately so
-    // rapid concurrent removeVote calls read the correct decremented value instead
-    // of a stale pre-decrement value from the previous render cycle.
-    votesUsedRef.current = Math.max(0, prevVotesUsed - 1)
-    setMyVotes((prev) => {
-      const next = new Set(prev)
-      next.delete(ideaId)
-      return next
-    })
-    setTallies((prev) => {
-      const next = new Map(prev)
-      const current = next.get(ideaId) ?? 0
-      if (current <= 1) {
-        next.delete(ideaId)
-      } else {
-        next.set(ideaId, current - 1)
-      }
-      return next
-    })
+    const current = getMyWeights(votesRef.current).get(ideaId)
+    // Several-dots sessions take back one dot at a time
+    const nextWeight = config.scheme === 'dots' && current !== undefined && current > 1 ? current - 1 : null
 
     try {
-      await repoRemoveVote(sessionId, ideaId)
-      clearErrorTimer()
-      setError(null)
-    } catch (err) {
-      // Poirot Finding 4 closure: VoteRepositoryError triggers rollback
-      if (err instanceof VoteRepositoryError) {
-        setVotesUsed(prevVotesUsed)
-        setMyVotes(prevMyVotes)
-        setTallies(prevTallies)
+      const result = await writeVote(ideaId, nextWeight, async () => {
+        if (nextWeight !== null) return repoChangeVote(sessionId, ideaId, nextWeight)
+        await repoRemoveVote(sessionId, ideaId)
+        return { ok: true }
+      })
+      if (!result.ok) {
         setErrorWithDismiss(COPY_REMOVE_FAILED)
       } else {
-        // Unexpected error — still rollback
-        setVotesUsed(prevVotesUsed)
-        setMyVotes(prevMyVotes)
-        setTallies(prevTallies)
+        clearErrorTimer()
+        setError(null)
+      }
+    } catch (err) {
+      // Poirot Finding 4 closure: VoteRepositoryError triggers rollback (done in writeVote)
+      if (!(err instanceof VoteRepositoryError)) {
         logger.error('useDotVoting: removeVote unexpected exception', err)
-        setErrorWithDismiss(COPY_REMOVE_FAILED)
       }
+      setErrorWithDismiss(COPY_REMOVE_FAILED)
     }
-  }, [sessionId, setErrorWithDismiss, clearErrorTimer])
-
-  const votesRemaining = MAX_VOTES - votesUsed
+  }, [sessionId, config, getMyWeights, writeVote, setErrorWithDismiss, clearErrorTimer])
+
+  const myWeights = useMemo(() => getMyWeights(votes), [getMyWeights, votes])
+  const myVotes = useMemo(() => new Set(myWeights.keys()), [myWeights])
+  const results = useMemo(
+    () =>
+      votesPublic
+        ? rankVoteResults(config, tallies, votes.values())
+        : rankVoteTallies((aggregates ?? []).map((row) => ({
+            ideaId: row.idea_id,
+            score: row.score,
+            voters: row.voters,
+            firstChoices: row.first_choices,
+          }))),
+    [config, votesPublic, tallies, votes, aggregates]
+  )
 
   return {
-    votesUsed,
-    votesRemaining,
+    votesUsed: getVotesUsed(config, myWeights),
+    votesRemaining: getVotesRemaining(config, myWeights),
     tallies,
     myVotes,
     castVote,
@@ -328,5 +504,9 @@ export function useDotVoting(
     reconcile,
     loading,
     error,
+    config,
+    myWeights,
+    results,
+    talliesHidden: !votesPublic && aggregates === null,
   }
 }
@@ -2,12 +2,24 @@ import { useState, useEffect, useCallback, useRef } from 'react'
 import { DragEndEvent } from '@dnd-kit/core'
 import { IdeaCard, User, Project } from '../types'
 import { DatabaseService } from '../lib/database'
+import { IdeaRepository, type IdeaBulkUpdate, type IdeaMergeInput } from '../lib/repositories/ideaRepository'
 import type { RealtimeIdeaPayload } from '../lib/database/services/RealtimeSubscriptionManager'
 import { useOptimisticUpdates } from './useOptimisticUpdates'
 import { useLogger } from '../lib/logging'
 import { useCurrentUser } from '../contexts/UserContext'
 import { supabase, createAuthenticatedClientFromLocalStorage } from '../lib/supabase'
 import { getCachedAuthToken } from '../utils/authTokenCache'
+import { isScorePlaced } from '../utils/ideaScoring'
+import {
+  UndoHistory,
+  findConflict,
+  flattenCommand,
+  hasUndoableChanges,
+  invertCommand,
+  pickUndoableFields,
+  type HistoryStepResult,
+  type MatrixCommand
+} from '../lib/matrix/undoHistory'
 
 interface UseIdeasReturn {
   ideas: IdeaCard[]
@@ -18,6 +30,18 @@ interface UseIdeasReturn {
   deleteIdea: (ideaId: string) => Promise<void>
   toggleCollapse: (ideaId: string, collapsed?: boolean) => Promise<void>
   handleDragEnd: (event: DragEndEvent) => Promise<void>
+  /** Revert this user's latest matrix action (Ctrl+Z) */
+  undo: () => HistoryStepResult
+  /** Re-apply the latest undone action (Ctrl+Shift+Z) */
+  redo: () => HistoryStepResult
+  canUndo: boolean
+  canRedo: boolean
+  /** Apply per-idea changes in one batched call; resolves to the number of ideas saved */
+  bulkUpdateIdeas: (updates: IdeaBulkUpdate[], label?: string) => Promise<number>
+  /** Delete several ideas in one batched call; resolves to the number deleted */
+  bulkDeleteIdeas: (ideaIds: string[]) => Promise<number>
+  /** Fold duplicate ideas into one; resolves to the merged idea. Not undoable */
+  mergeIdeas: (input: IdeaMergeInput) => Promise<IdeaCard>
 }
 
 interface UseIdeasOptions {
@@ -57,6 +81,30 @@ export const useIdeas = (options: UseIdeasOptions): UseIdeasReturn => {
       logger.debug('🔄 Optimistic update reverted:', { id, originalData })
     }
   })
+
+  // Undo/redo history of this user's own actions; remote edits are never
+  // recorded. Scoped to the current project and cleared when it changes.
+  const historyRef = useRef(new UndoHistory())
+  const [historyState, setHistoryState] = useState<{ projectId?: string; canUndo: boolean; canRedo: boolean }>({
+    canUndo: false,
+    canRedo: false
+  })
+
+  // Latest displayed ideas, for command snapshots and conflict checks
+  const ideasRef = useRef(optimisticData)
+  useEffect(() => {
+    ideasRef.current = optimisticData
+  }, [optimisticData])
+
+  const syncHistoryState = useCallback(() => {
+    const history = historyRef.current
+    setHistoryState({ projectId: currentProject?.id, canUndo: history.canUndo, canRedo: history.canRedo })
+  }, [currentProject?.id])
+
+  const recordCommand = useCallback((command: MatrixCommand) => {
+    historyRef.current.record(command)
+    syncHistoryState()
+  }, [syncHistoryState])
   
 
   const loadIdeas = useCallback(async (projectId?: string, skipClear = false) => {
@@ -168,25 +216,20 @@ export const useIdeas = (options: UseIdeasOptions): UseIdeasReturn => {
     }
   }, [])
 
-  const addIdea = useCallback(async (newIdea: Omit<IdeaCard, 'id' | 'created_at' | 'updated_at'>) => {
-    logger.info('Adding new idea:', { content: newIdea.content || 'Untitled' })
-    
-    const ideaWithUser = {
-      ...newIdea,
-      created_by: currentUser?.id || null,
-      project_id: currentProject?.id
-    }
-    
-    logger.debug('💾 Creating idea with optimistic update...', { ideaWithUser })
-    
-    // Use optimistic update for instant UI feedback
+  // Persistence shared by user actions and undo/redo replays. The optional
+  // callbacks run once the server has confirmed the write.
+  const persistCreate = useCallback((
+    idea: Omit<IdeaCard, 'id' | 'created_at' | 'updated_at'>,
+    onCreated?: (created: IdeaCard) => void
+  ) => {
     createIdeaOptimistic(
-      ideaWithUser,
+      idea,
       async () => {
         // Lock-free client to bypass GoTrueClient navigator.locks deadlock
         const authClient = createAuthenticatedClientFromLocalStorage() || supabase
-        const createdIdeaResponse = await DatabaseService.createIdea(ideaWithUser, authClient)
+        const createdIdeaResponse = await DatabaseService.createIdea(idea, authClient)
         if (createdIdeaResponse.success && createdIdeaResponse.data) {
+          onCreated?.(createdIdeaResponse.data)
           return createdIdeaResponse.data
         }
         throw new Error(
@@ -196,16 +239,9 @@ export const useIdeas = (options: UseIdeasOptions): UseIdeasReturn => {
         )
       }
     )
-    
-    logger.debug('🔄 Closing modals...')
-    setShowAddModal?.(false)
-    setShowAIModal?.(false)
-  }, [currentUser, currentProject, setShowAddModal, setShowAIModal, createIdeaOptimistic])
+  }, [createIdeaOptimistic])
 
-  const updateIdea = useCallback(async (updatedIdea: IdeaCard) => {
-    logger.debug('📝 Updating idea with optimistic update:', { updatedIdea })
-    
-    // Use optimistic update for instant UI feedback
+  const persistUpdate = useCallback((updatedIdea: IdeaCard, onSaved?: (saved: IdeaCard) => void) => {
     updateIdeaOptimistic(
       updatedIdea,
       async () => {
@@ -215,24 +251,23 @@ export const useIdeas = (options: UseIdeasOptions): UseIdeasReturn => {
           details: updatedIdea.details,
           x: updatedIdea.x,
           y: updatedIdea.y,
-          priority: updatedIdea.priority
+          priority: updatedIdea.priority,
+          // Only fields the edit carries; null clears the scores
+          ...(updatedIdea.tags !== undefined ? { tags: updatedIdea.tags } : {}),
+          ...(updatedIdea.scores !== undefined ? { scores: updatedIdea.scores } : {})
         }, authClient)
         if (result) {
           logger.debug('✅ Idea updated successfully in database:', { result })
+          onSaved?.(result)
           return result
         } else {
           throw new Error('Failed to update idea')
         }
       }
     )
-    
-    setEditingIdea?.(null)
-  }, [setEditingIdea, updateIdeaOptimistic])
-
-  const deleteIdea = useCallback(async (ideaId: string) => {
-    logger.debug('Deleting idea with optimistic update:', { ideaId })
+  }, [updateIdeaOptimistic, logger])
 
-    // Use optimistic update for instant UI feedback
+  const persistDelete = useCallback((ideaId: string, onDeleted?: () => void) => {
     deleteIdeaOptimistic(
       ideaId,
       async () => {
@@ -241,15 +276,61 @@ export const useIdeas = (options: UseIdeasOptions): UseIdeasReturn => {
         const success = await DatabaseService.deleteIdea(ideaId, authClient)
         if (success) {
           logger.debug('Idea deleted successfully from database:', { ideaId })
+          onDeleted?.()
           return success
         } else {
           throw new Error('Failed to delete idea')
         }
       }
     )
+  }, [deleteIdeaOptimistic, logger])
 
+  const addIdea = useCallback(async (newIdea: Omit<IdeaCard, 'id' | 'created_at' | 'updated_at'>) => {
+    logger.info('Adding new idea:', { content: newIdea.content || 'Untitled' })
+    
+    const ideaWithUser = {
+      ...newIdea,
+      created_by: currentUser?.id || null,
+      project_id: currentProject?.id
+    }
+    
+    logger.debug('💾 Creating idea with optimistic update...', { ideaWithUser })
+    
+    // Use optimistic update for instant UI feedback
+    persistCreate(ideaWithUser, (created) => recordCommand({ type: 'create', idea: created }))
+    
+    logger.debug('🔄 Closing modals...')
+    setShowAddModal?.(false)
+    setShowAIModal?.(false)
+  }, [currentUser, currentProject, setShowAddModal, setShowAIModal, persistCreate, recordCommand])
+
+  const updateIdea = useCallback(async (updatedIdea: IdeaCard) => {
+    logger.debug('📝 Updating idea with optimistic update:', { updatedIdea })
+
+    const before = ideasRef.current.find(idea => idea.id === updatedIdea.id)
+
+    // Use optimistic update for instant UI feedback
+    persistUpdate(updatedIdea, (saved) => {
+      if (before && hasUndoableChanges(before, saved)) {
+        recordCommand({ type: 'update', before, after: saved })
+      }
+    })
+    
     setEditingIdea?.(null)
-  }, [setEditingIdea, deleteIdeaOptimistic])
+  }, [setEditingIdea, persistUpdate, recordCommand])
+
+  const deleteIdea = useCallback(async (ideaId: string) => {
+    logger.debug('Deleting idea with optimistic update:', { ideaId })
+
+    const deleted = ideasRef.current.find(idea => idea.id === ideaId)
+
+    // Use optimistic update for instant UI feedback
+    persistDelete(ideaId, () => {
+      if (deleted) recordCommand({ type: 'delete', idea: deleted })
+    })
+
+    setEditingIdea?.(null)
+  }, [setEditingIdea, persistDelete, recordCommand])
 
   const toggleCollapse = useCallback(async (ideaId: string, collapsed?: boolean) => {
     // ✅ FIX: Use functional update to get FRESH state (not stale closure)
@@ -285,6 +366,12 @@ export const useIdeas = (options: UseIdeasOptions): UseIdeasReturn => {
     const idea = optimisticData.find(i => i.id === ideaId)
     if (!idea) return
 
+    // Score-driven placement owns the position of fully scored ideas
+    if (isScorePlaced(idea, currentProject?.settings?.matrix_view)) {
+      logger.debug('Ignoring drag for score-placed idea:', { ideaId })
+      return
+    }
+
     // ✅ CRITICAL FIX: Get the ACTUAL matrix container that the card is being dragged within
     // This ensures we measure the VISIBLE matrix, not a hidden duplicate elsewhere in the DOM
     //
@@ -375,12 +462,167 @@ export const useIdeas = (options: UseIdeasOptions): UseIdeasReturn => {
       async () => {
         const authClient = createAuthenticatedClientFromLocalStorage() || supabase
         const result = await DatabaseService.updateIdea(ideaId, { x: finalX, y: finalY }, authClient)
-        if (result) return result
+        if (result) {
+          recordCommand({ type: 'update', before: idea, after: result })
+          return result
+        }
         throw new Error('Failed to update idea position')
       }
     )
     logger.debug('✅ moveIdeaOptimistic call completed')
-  }, [optimisticData, moveIdeaOptimistic])
+  }, [optimisticData, moveIdeaOptimistic, currentProject?.settings?.matrix_view, recordCommand])
+
+  // Bulk changes: applied to local state at once, persisted in a single
+  // batched call, and rolled back together if that call fails
+  const persistBulkUpdate = useCallback(async (updates: IdeaBulkUpdate[]): Promise<{ before: Map<string, IdeaCard>; saved: IdeaCard[] }> => {
+    const patches = new Map(updates.map(update => [update.id, update]))
+    const before = new Map(ideasRef.current.filter(idea => patches.has(idea.id)).map(idea => [idea.id, idea]))
+
+    setIdeas(prev => prev.map(idea => {
+      const patch = patches.get(idea.id)
+      return patch ? { ...idea, ...patch } : idea
+    }))
+
+    const authClient = createAuthenticatedClientFromLocalStorage() || supabase
+    const result = await IdeaRepository.bulkUpdateIdeas(updates, authClient)
+    if (!result.success) {
+      setIdeas(prev => prev.map(idea => before.get(idea.id) ?? idea))
+      throw new Error(result.error || 'Failed to update ideas')
+    }
+
+    // Rows RLS refused come back unchanged; the rest take the server's values
+    const saved = result.data ?? []
+    const savedById = new Map(saved.map(idea => [idea.id, idea]))
+    setIdeas(prev => prev.map(idea => savedById.get(idea.id) ?? (patches.has(idea.id) ? before.get(idea.id) ?? idea : idea)))
+    return { before, saved }
+  }, [])
+
+  const bulkUpdateIdeas = useCallback(async (updates: IdeaBulkUpdate[], label = 'Bulk edit'): Promise<number> => {
+    if (updates.length === 0) return 0
+    logger.debug('Bulk updating ideas:', { label, count: updates.length })
+
+    const { before, saved } = await persistBulkUpdate(updates)
+    const commands = saved.flatMap((after): MatrixCommand[] => {
+      const previous = before.get(after.id)
+      return previous && hasUndoableChanges(previous, after) ? [{ type: 'update', before: previous, after }] : []
+    })
+    if (commands.length > 0) recordCommand({ type: 'batch', label, commands })
+    return saved.length
+  }, [persistBulkUpdate, recordCommand, logger])
+
+  const bulkDeleteIdeas = useCallback(async (ideaIds: string[]): Promise<number> => {
+    if (ideaIds.length === 0) return 0
+    logger.debug('Bulk deleting ideas:', { count: ideaIds.length })
+
+    const idSet = new Set(ideaIds)
+    const removed = ideasRef.current.filter(idea => idSet.has(idea.id))
+    const restore = (ideasToRestore: IdeaCard[]) => setIdeas(prev => [
+      ...prev,
+      ...ideasToRestore.filter(idea => !prev.some(existing => existing.id === idea.id))
+    ])
+
+    setIdeas(prev => prev.filter(idea => !idSet.has(idea.id)))
+
+    const authClient = createAuthenticatedClientFromLocalStorage() || supabase
+    const result = await IdeaRepository.bulkDeleteIdeas(ideaIds, authClient)
+    if (!result.success) {
+      restore(removed)
+      throw new Error(result.error || 'Failed to delete ideas')
+    }
+
+    const deletedIds = new Set(result.data ?? [])
+    restore(removed.filter(idea => !deletedIds.has(idea.id)))
+    const commands = removed.filter(idea => deletedIds.has(idea.id)).map((idea): MatrixCommand => ({ type: 'delete', idea }))
+    if (commands.length > 0) recordCommand({ type: 'batch', label: 'Bulk delete', commands })
+    setEditingIdea?.(null)
+    return deletedIds.size
+  }, [recordCommand, setEditingIdea, logger])
+
+  // Merges move other users' votes server-side, so they are not optimistic
+  // and are not recorded for undo
+  const mergeIdeas = useCallback(async (input: IdeaMergeInput): Promise<IdeaCard> => {
+    logger.debug('Merging ideas:', { targetId: input.targetId, count: input.sourceIds.length })
+
+    const authClient = createAuthenticatedClientFromLocalStorage() || supabase
+    const result = await IdeaRepository.mergeIdeas(input, authClient)
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to merge ideas')
+    }
+
+    const merged = result.data
+    const sourceIds = new Set(input.sourceIds)
+    setIdeas(prev => prev
+      .filter(idea => !sourceIds.has(idea.id))
+      .map(idea => (idea.id === merged.id ? merged : idea)))
+    setEditingIdea?.(null)
+    return merged
+  }, [setEditingIdea, logger])
+
+  // Replay a command through the same optimistic paths as user actions,
+  // without recording it again. Several updates (a bulk edit) go out as one batch.
+  const applyCommand = useCallback((command: MatrixCommand) => {
+    const steps = flattenCommand(command)
+    const updates = steps.flatMap(step => (step.type === 'update' ? [step.after] : []))
+    const batchUpdates = updates.length > 1
+
+    if (batchUpdates) {
+      persistBulkUpdate(updates.map(after => ({ id: after.id, ...pickUndoableFields(after) })))
+        .catch(error => logger.error('Failed to replay bulk edit:', error))
+    }
+
+    for (const step of steps) {
+      if (step.type === 'create') {
+        const { id: previousId, created_at: _createdAt, updated_at: _updatedAt, editing_by: _editingBy, editing_at: _editingAt, ...idea } = step.idea
+        // The server assigns a new id; later commands must follow it
+        persistCreate(idea, (created) => historyRef.current.remapIdeaId(previousId, created.id))
+      } else if (step.type === 'update') {
+        if (batchUpdates) continue
+        const current = ideasRef.current.find(idea => idea.id === step.after.id)
+        if (current) persistUpdate({ ...current, ...pickUndoableFields(step.after) })
+      } else {
+        persistDelete(step.idea.id)
+      }
+    }
+  }, [persistCreate, persistUpdate, persistDelete, persistBulkUpdate, logger])
+
+  const undo = useCallback((): HistoryStepResult => {
+    const history = historyRef.current
+    const command = history.peekUndo()
+    if (!command) return 'empty'
+
+    const conflictId = findConflict(invertCommand(command), ideasRef.current)
+    if (conflictId) {
+      // A collaborator changed this idea since; never overwrite their edit
+      logger.warn('Undo skipped - idea changed since this action:', { ideaId: conflictId })
+      history.discardUndo()
+      syncHistoryState()
+      return 'conflict'
+    }
+
+    const inverse = history.takeUndo()
+    if (inverse) applyCommand(inverse)
+    syncHistoryState()
+    return 'applied'
+  }, [applyCommand, syncHistoryState, logger])
+
+  const redo = useCallback((): HistoryStepResult => {
+    const history = historyRef.current
+    const command = history.peekRedo()
+    if (!command) return 'empty'
+
+    const conflictId = findConflict(command, ideasRef.current)
+    if (conflictId) {
+      logger.warn('Redo skipped - idea changed since undo:', { ideaId: conflictId })
+      history.discardRedo()
+      syncHistoryState()
+      return 'conflict'
+    }
+
+    const next = history.takeRedo()
+    if (next) applyCommand(next)
+    syncHistoryState()
+    return 'applied'
+  }, [applyCommand, syncHistoryState, logger])
 
   // Extract project ID as primitive to prevent object reference issues
   const projectId = currentProject?.id
@@ -393,6 +635,8 @@ export const useIdeas = (options: UseIdeasOptions): UseIdeasReturn => {
       skipNextLoad: skipNextLoad.current
     })
 
+    historyRef.current.clear()
+
     if (projectId) {
       // Check if skipNextLoad flag is set (ideas were just set externally)
       if (skipNextLoad.current) {
@@ -509,6 +753,13 @@ export const useIdeas = (options: UseIdeasOptions): UseIdeasReturn => {
     updateIdea,
     deleteIdea,
     toggleCollapse,
-    handleDragEnd
+    handleDragEnd,
+    undo,
+    redo,
+    bulkUpdateIdeas,
+    bulkDeleteIdeas,
+    mergeIdeas,
+    canUndo: historyState.projectId === projectId && historyState.canUndo,
+    canRedo: historyState.projectId === projectId && historyState.canRedo
   }
 }
\ No newline at end of file
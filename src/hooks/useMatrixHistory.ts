@@ -0,0 +1,60 @@
+/**
+ * useMatrixHistory -- loads a project's idea revisions for the history timeline.
+ *
+ * Revisions are fetched once when the timeline opens (`enabled` turns true)
+ * and again on `reload`. The board at any moment is derived from them with
+ * the pure helpers in utils/matrixHistory.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { IdeaRevision } from '../types'
+import { IdeaRevisionRepository } from '../lib/repositories/ideaRevisionRepository'
+import type { ApiResponse } from '../lib/repositories/types'
+import { getHistoryRange, type HistoryRange } from '../utils/matrixHistory'
+import { logger } from '../utils/logger'
+
+export interface UseMatrixHistoryReturn {
+  revisions: IdeaRevision[]
+  range: HistoryRange | null
+  loading: boolean
+  error: string | null
+  reload: () => Promise<void>
+}
+
+export function useMatrixHistory(projectId: string | null | undefined, enabled: boolean): UseMatrixHistoryReturn {
+  const [revisions, setRevisions] = useState<IdeaRevision[]>([])
+  const [loading, setLoading] = useState(enabled)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyResult = useCallback((result: ApiResponse<IdeaRevision[]>) => {
+    if (result.success) {
+      setRevisions(result.data ?? [])
+      setError(null)
+    } else {
+      logger.error('Failed to load idea revisions:', result.error)
+      setError(result.error ?? 'Failed to load history')
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || !projectId) return
+    let cancelled = false
+    void IdeaRevisionRepository.getProjectRevisions(projectId).then((result) => {
+      if (!cancelled) applyResult(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, projectId, applyResult])
+
+  const reload = useCallback(async () => {
+    if (!projectId) return
+    setLoading(true)
+    applyResult(await IdeaRevisionRepository.getProjectRevisions(projectId))
+  }, [projectId, applyResult])
+
+  const range = useMemo(() => getHistoryRange(revisions), [revisions])
+
+  return { revisions, range, loading, error, reload }
+}
@@ -0,0 +1,27 @@
+/**
+ * useRoundCountdown Hook
+ *
+ * Milliseconds left on a brainstorm round timer, updated every second.
+ * Null when the round is untimed.
+ */
+
+import { useEffect, useState } from 'react'
+import { getRoundTimeRemaining } from '../utils/brainstormRounds'
+
+export function useRoundCountdown(roundEndsAt: string | null | undefined): number | null {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!roundEndsAt) return
+    const tick = () => setNow(Date.now())
+    // Catch up at once: the clock is stale if the previous round was untimed
+    const catchUp = setTimeout(tick, 0)
+    const interval = setInterval(tick, 1000)
+    return () => {
+      clearTimeout(catchUp)
+      clearInterval(interval)
+    }
+  }, [roundEndsAt])
+
+  return getRoundTimeRemaining(roundEndsAt, now)
+}
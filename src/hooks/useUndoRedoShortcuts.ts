@@ -0,0 +1,53 @@
+/**
+ * useUndoRedoShortcuts -- Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) for matrix undo/redo.
+ *
+ * Ctrl+Y is accepted as redo too. Shortcuts are ignored while the user is
+ * typing, so text fields keep their native undo. Skipped steps (a collaborator
+ * changed the idea since) are reported with a toast.
+ */
+
+import { useEffect } from 'react'
+import type { HistoryStepResult } from '../lib/matrix/undoHistory'
+import { useToast } from '../contexts/ToastContext'
+
+interface UseUndoRedoShortcutsOptions {
+  enabled: boolean
+  undo: () => HistoryStepResult
+  redo: () => HistoryStepResult
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  )
+}
+
+export function useUndoRedoShortcuts({ enabled, undo, redo }: UseUndoRedoShortcutsOptions): void {
+  const { showWarning } = useToast()
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      if (isTypingTarget(e.target)) return
+
+      const key = e.key.toLowerCase()
+      const isRedo = (key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey)
+      const isUndo = key === 'z' && !e.shiftKey
+      if (!isUndo && !isRedo) return
+
+      e.preventDefault()
+      const result = isRedo ? redo() : undo()
+      if (result === 'conflict') {
+        showWarning(`Couldn't ${isRedo ? 'redo' : 'undo'}: a collaborator changed that idea since.`)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [enabled, undo, redo, showWarning])
+}
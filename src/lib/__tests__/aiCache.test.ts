@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest'
+import { AICache } from '../aiCache'
+import { DEFAULT_MATRIX_CONFIG, resolveMatrixConfig } from '../../utils/matrixQuadrant'
+
+describe('AICache.generateKey', () => {
+  it('ignores key order', () => {
+    expect(AICache.generateKey('op', { a: 1, b: { c: 2, d: 3 } }))
+      .toBe(AICache.generateKey('op', { b: { d: 3, c: 2 }, a: 1 }))
+  })
+
+  it('tells nested params apart', () => {
+    const ideas = [{ content: 'Idea', x: 100, y: 100 }]
+    const moved = [{ content: 'Idea', x: 400, y: 100 }]
+
+    expect(AICache.generateKey('generateRoadmap', { ideas }))
+      .not.toBe(AICache.generateKey('generateRoadmap', { ideas: moved }))
+    expect(AICache.generateKey('generateRoadmap', { ideas, matrixConfig: DEFAULT_MATRIX_CONFIG }))
+      .not.toBe(AICache.generateKey('generateRoadmap', { ideas, matrixConfig: resolveMatrixConfig({ layout: '3x3' }) }))
+  })
+})
@@ -3,13 +3,21 @@
  * Unified interface for all AI services maintaining backward compatibility
  */
 
-import { IdeaCard } from '../../types'
+import { IdeaCard, IdeaCluster, Phase, Project, ProjectChatMessage, RoadmapData, RoadmapEpicChange } from '../../types'
 import { SecureAIServiceConfig } from './services/BaseAiService'
 import { IdeaGenerationService, AIIdeaResponse } from './services/IdeaGenerationService'
-import { InsightsService } from './services/InsightsService'
+import { InsightsService, type InsightsReport } from './services/InsightsService'
 import { RoadmapService } from './services/RoadmapService'
+import { PlacementService, type IdeaPlacementSuggestion } from './services/PlacementService'
+import { ClusterService } from './services/ClusterService'
+import { ChatService, type ProjectChatReply } from './services/ChatService'
+import { SimilarityService, type DuplicateScanResult, type SimilarIdeasResult } from './services/SimilarityService'
 import { logger } from '../../utils/logger'
 import type { OpenAIModel } from './openaiModelRouter'
+import type { MatrixConfig } from '../../utils/matrixQuadrant'
+import type { AiStreamOptions } from './utils'
+import type { ProjectChatSources } from '../../utils/projectChat'
+import type { BrainstormTechnique, SessionPrompt } from '../../types/BrainstormSession'
 
 /**
  * Facade class that provides a unified interface to all AI services
@@ -19,12 +27,20 @@ export class AiServiceFacade {
   private ideaService: IdeaGenerationService
   private insightsService: InsightsService
   private roadmapService: RoadmapService
+  private placementService: PlacementService
+  private similarityService: SimilarityService
+  private clusterService: ClusterService
+  private chatService: ChatService
 
   constructor(config: SecureAIServiceConfig = {}) {
     // Initialize all services with the same config
     this.ideaService = new IdeaGenerationService(config)
     this.insightsService = new InsightsService(config)
     this.roadmapService = new RoadmapService(config)
+    this.placementService = new PlacementService(config)
+    this.similarityService = new SimilarityService(config)
+    this.clusterService = new ClusterService(config)
+    this.chatService = new ChatService(config)
 
     logger.debug('🎯 AI Service Facade initialized with modular architecture')
   }
@@ -50,6 +66,8 @@ export class AiServiceFacade {
    * @param projectType - Project type
    * @param count - Number of ideas to generate
    * @param tolerance - Tolerance percentage for idea distribution
+   * @param options - Abort signal; `onPartial` streams ideas as they are generated
+   * @param matrixConfig - Project matrix configuration the ideas are placed on
    * @returns Array of generated idea cards
    */
   async generateMultipleIdeas(
@@ -57,9 +75,28 @@ export class AiServiceFacade {
     description: string,
     projectType: string = 'General',
     count: number = 8,
-    tolerance: number = 50
+    tolerance: number = 50,
+    options?: AiStreamOptions<IdeaCard[]>,
+    matrixConfig?: MatrixConfig
   ): Promise<IdeaCard[]> {
-    return this.ideaService.generateMultipleIdeas(title, description, projectType, count, tolerance)
+    return this.ideaService.generateMultipleIdeas(title, description, projectType, count, tolerance, options, matrixConfig)
+  }
+
+  /**
+   * Generate brainstorm session prompts for a technique, tailored to the project
+   * @param technique - Technique the session follows
+   * @param project - Project the session is for
+   * @param count - Number of prompts to generate
+   * @param signal - Optional abort signal
+   * @returns Prompts to add to the technique's own, without ids
+   */
+  async generateSessionPrompts(
+    technique: BrainstormTechnique,
+    project: Pick<Project, 'id' | 'name' | 'description' | 'project_type'>,
+    count?: number,
+    signal?: AbortSignal
+  ): Promise<Array<Omit<SessionPrompt, 'id'>>> {
+    return this.ideaService.generateSessionPrompts(technique, project, count, signal)
   }
 
   /**
@@ -69,6 +106,9 @@ export class AiServiceFacade {
    * @param projectType - Project type
    * @param projectId - Project ID for additional context
    * @param currentProject - Current project object
+   * @param preferredModel - Optional model override
+   * @param signal - Optional abort signal
+   * @param onPartial - Streams the report, called with the sections received so far
    * @returns Generated insights report
    */
   async generateInsights(
@@ -78,9 +118,10 @@ export class AiServiceFacade {
     projectId?: string,
     currentProject?: any,
     preferredModel?: OpenAIModel,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    onPartial?: (partial: InsightsReport) => void
   ): Promise<any> {
-    return this.insightsService.generateInsights(ideas, projectName, projectType, projectId, currentProject, preferredModel, signal)
+    return this.insightsService.generateInsights(ideas, projectName, projectType, projectId, currentProject, preferredModel, signal, onPartial)
   }
 
   /**
@@ -88,10 +129,66 @@ export class AiServiceFacade {
    * @param ideas - Array of idea cards
    * @param projectName - Project name
    * @param projectType - Project type
+   * @param signal - Optional abort signal
+   * @param matrixConfig - Project matrix configuration used to label quadrants
+   * @param onPartial - Streams the roadmap, called with the phases received so far
+   * @param clusters - Project idea clusters, used to group epics
+   * @param projectId - Project the roadmap is for, so its AI budget applies
    * @returns Generated roadmap
    */
-  async generateRoadmap(ideas: IdeaCard[], projectName: string, projectType?: string, signal?: AbortSignal): Promise<any> {
-    return this.roadmapService.generateRoadmap(ideas, projectName, projectType, signal)
+  async generateRoadmap(
+    ideas: IdeaCard[],
+    projectName: string,
+    projectType?: string,
+    signal?: AbortSignal,
+    matrixConfig?: MatrixConfig,
+    onPartial?: (phases: Phase[]) => void,
+    clusters?: IdeaCluster[],
+    projectId?: string
+  ): Promise<any> {
+    return this.roadmapService.generateRoadmap(ideas, projectName, projectType, signal, matrixConfig, onPartial, clusters, projectId)
+  }
+
+  /**
+   * Rewrite one phase of an existing roadmap
+   * @param roadmap - Roadmap the phase belongs to
+   * @param phaseIndex - Index of the phase to rewrite
+   * @param ideas - Ideas on the matrix
+   * @param project - Project the roadmap belongs to
+   * @param instructions - What to change
+   * @param signal - Optional abort signal
+   * @returns The new phase; nothing is saved
+   */
+  async regenerateRoadmapPhase(
+    roadmap: RoadmapData,
+    phaseIndex: number,
+    ideas: IdeaCard[],
+    project: Pick<Project, 'name' | 'project_type'> & Partial<Pick<Project, 'id'>>,
+    instructions?: string,
+    signal?: AbortSignal
+  ): Promise<Phase> {
+    return this.roadmapService.regeneratePhase(roadmap, phaseIndex, ideas, project.name, project.project_type, instructions, signal, project.id)
+  }
+
+  /**
+   * Propose epic changes for the ideas that changed since a roadmap was made
+   * @param roadmap - Roadmap to refresh
+   * @param ideas - Ideas on the matrix
+   * @param changedIdeas - Ideas added or edited since the roadmap was saved
+   * @param removedIdeas - Titles of the roadmap's ideas that were deleted
+   * @param project - Project the roadmap belongs to
+   * @param signal - Optional abort signal
+   * @returns Proposed changes; nothing is saved
+   */
+  async refreshRoadmap(
+    roadmap: Pick<RoadmapData, 'roadmapAnalysis'>,
+    ideas: IdeaCard[],
+    changedIdeas: IdeaCard[],
+    removedIdeas: string[],
+    project: Pick<Project, 'name' | 'project_type'> & Partial<Pick<Project, 'id'>>,
+    signal?: AbortSignal
+  ): Promise<RoadmapEpicChange[]> {
+    return this.roadmapService.refreshRoadmap(roadmap, ideas, changedIdeas, removedIdeas, project.name, project.project_type, signal, project.id)
   }
 
   /**
@@ -101,6 +198,8 @@ export class AiServiceFacade {
    * @param projectType - Project type
    * @param count - Number of ideas to generate
    * @param tolerance - Tolerance percentage
+   * @param options - Abort signal; `onPartial` streams ideas as they are generated
+   * @param matrixConfig - Project matrix configuration the ideas are placed on
    * @returns Array of generated idea cards
    */
   async generateProjectIdeas(
@@ -108,8 +207,88 @@ export class AiServiceFacade {
     description: string,
     projectType?: string,
     count: number = 8,
-    tolerance: number = 50
+    tolerance: number = 50,
+    options?: AiStreamOptions<IdeaCard[]>,
+    matrixConfig?: MatrixConfig
   ): Promise<IdeaCard[]> {
-    return this.ideaService.generateProjectIdeas(projectName, description, projectType, count, tolerance)
+    return this.ideaService.generateProjectIdeas(projectName, description, projectType, count, tolerance, options, matrixConfig)
+  }
+
+  /**
+   * Suggest matrix positions for ideas, each with a one-line rationale
+   * @param ideas - Ideas to place
+   * @param board - All ideas on the matrix, used as calibration context
+   * @param project - Project the ideas belong to
+   * @param matrixConfig - Project matrix configuration
+   * @param signal - Optional abort signal
+   * @returns Proposed positions; nothing is saved
+   */
+  async suggestIdeaPlacements(
+    ideas: IdeaCard[],
+    board: IdeaCard[],
+    project: Pick<Project, 'id' | 'name' | 'description' | 'project_type'>,
+    matrixConfig?: MatrixConfig,
+    signal?: AbortSignal
+  ): Promise<IdeaPlacementSuggestion[]> {
+    return this.placementService.suggestPlacements(ideas, board, project, matrixConfig, signal)
+  }
+
+  /**
+   * Group near-duplicate ideas, by embeddings when available
+   * @param ideas - Ideas to compare
+   * @param projectId - Project for usage tracking
+   * @param signal - Optional abort signal
+   * @returns Duplicate groups and whether embeddings or the lexical fallback produced them
+   */
+  async findDuplicateIdeas(ideas: IdeaCard[], projectId?: string, signal?: AbortSignal): Promise<DuplicateScanResult> {
+    return this.similarityService.findDuplicates(ideas, projectId, signal)
+  }
+
+  /**
+   * Existing ideas that look like a new idea, most similar first
+   * @param idea - The idea being submitted
+   * @param ideas - Ideas already on the board
+   * @param projectId - Project for usage tracking
+   * @param signal - Optional abort signal
+   */
+  async findSimilarIdeas(
+    idea: Pick<IdeaCard, 'content' | 'details'>,
+    ideas: IdeaCard[],
+    projectId?: string,
+    signal?: AbortSignal
+  ): Promise<SimilarIdeasResult> {
+    return this.similarityService.findSimilarIdeas(idea, ideas, projectId, signal)
+  }
+
+  /**
+   * Group ideas into named themes for the matrix
+   * @param ideas - Ideas to cluster
+   * @param project - Project the themes are named for
+   * @param signal - Optional abort signal
+   * @returns Proposed clusters; nothing is saved
+   */
+  async clusterIdeas(
+    ideas: IdeaCard[],
+    project: Pick<Project, 'id' | 'name' | 'description' | 'project_type'>,
+    signal?: AbortSignal
+  ): Promise<IdeaCluster[]> {
+    return this.clusterService.clusterIdeas(ideas, project, signal)
+  }
+
+  /**
+   * Answer a question about a project for the assistant panel
+   * @param messages - Conversation so far, ending with the user's question
+   * @param project - Project being discussed
+   * @param sources - Ideas, roadmap, insights and files to answer from
+   * @param signal - Optional abort signal
+   * @returns The reply and the actions it proposes; nothing is changed
+   */
+  async askProject(
+    messages: ProjectChatMessage[],
+    project: Pick<Project, 'id' | 'name' | 'description' | 'project_type'>,
+    sources: ProjectChatSources,
+    signal?: AbortSignal
+  ): Promise<ProjectChatReply> {
+    return this.chatService.askProject(messages, project, sources, signal)
   }
 }
@@ -9,6 +9,10 @@ export { BaseAiService } from './services/BaseAiService'
 export { IdeaGenerationService } from './services/IdeaGenerationService'
 export { InsightsService } from './services/InsightsService'
 export { RoadmapService } from './services/RoadmapService'
+export { PlacementService, MAX_IDEAS_PER_PLACEMENT } from './services/PlacementService'
+export { SimilarityService, MAX_IDEAS_PER_SCAN } from './services/SimilarityService'
+export { ClusterService, MAX_IDEAS_PER_CLUSTERING } from './services/ClusterService'
+export { ChatService, MAX_CHAT_HISTORY } from './services/ChatService'
 
 // Mock Generators are intentionally NOT re-exported from the barrel
 // (ADR-0016 R8). They remain on disk for developer use via direct import
@@ -22,4 +26,8 @@ export * from './utils'
 // Type exports
 export type { IdeaCard } from '../../types'
 export type { SecureAIServiceConfig } from './services/BaseAiService'
-export type { AIIdeaResponse } from './services/IdeaGenerationService'
\ No newline at end of file
+export type { AIIdeaResponse } from './services/IdeaGenerationService'
+export type { InsightsReport } from './services/InsightsService'
+export type { IdeaPlacementSuggestion } from './services/PlacementService'
+export type { DuplicateScanResult, SimilarIdeasResult } from './services/SimilarityService'
+export type { ProjectChatReply } from './services/ChatService'
@@ -13,6 +13,7 @@ import { getCsrfToken } from '../../../utils/cookieUtils'
 // The ambient `useAuth` re-exports `bootstrapCsrfCookie` from
 // `./useAuth.bootstrap`; tests mock the `useAuth` module surface.
 import * as useAuthModule from '../../../hooks/useAuth'
+import { readEventStream, type AiStreamEvent } from '../utils/eventStream'
 
 export interface SecureAIServiceConfig {
   baseUrl?: string // For custom API endpoints (defaults to current domain)
@@ -153,42 +154,9 @@ export abstract class BaseAiService {
       }
 
       if (!response.ok) {
-        // 401-refresh and 403-CSRF-mint budgets are INDEPENDENTLY one-shot.
-        // `isRetry` tracks whether a 401 has already triggered a token refresh;
-        // `isCsrfRetry` tracks whether a 403 CSRF_COOKIE_MISSING has already
-        // triggered a re-mint. They do not share a counter — a request can
-        // legally consume one of each (e.g. 401 -> refresh -> retry -> 403
-        // CSRF_MISSING -> bootstrap -> retry) without prematurely exhausting
-        // the other budget (Poirot #5).
-        if (response.status === 401 && !isRetry) {
-          const refreshed = await this.refreshAccessToken()
-          if (refreshed) {
-            // Pass through isCsrfRetry untouched: the CSRF budget is independent
-            // of the 401 budget and must not reset just because we refreshed.
-            return this.fetchWithErrorHandling<T>(endpoint, payload, true, signal, isCsrfRetry)
-          }
-          throw new Error('Authentication expired. Please sign in again.')
-        }
-        if (response.status === 403) {
-          const errorBody = await response.json().catch(() => ({}))
-          if (errorBody?.error?.code === 'CSRF_COOKIE_MISSING') {
-            if (isCsrfRetry) {
-              throw new Error('CSRF cookie could not be re-established')
-            }
-            await useAuthModule.bootstrapCsrfCookie(true)
-            // Pass through isRetry untouched: the 401 budget is independent
-            // of the CSRF budget and must not reset just because we re-minted.
-            return this.fetchWithErrorHandling<T>(endpoint, payload, isRetry, signal, true)
-          }
-          const errorCode = errorBody?.error?.code || errorBody?.error?.message || ''
-          throw new Error(`Server error: 403 ${errorCode}`.trim())
-        }
-        if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please wait a moment before trying again.')
-        }
-        const errorBody = await response.json().catch(() => ({}))
-        const errorCode = errorBody?.error?.code || errorBody?.error?.message || ''
-        throw new Error(`Server error: ${response.status} ${errorCode}`.trim())
+        return await this.handleErrorResponse<T>(response, isRetry, isCsrfRetry, (retryAuth, retryCsrf) =>
+          this.fetchWithErrorHandling<T>(endpoint, payload, retryAuth, signal, retryCsrf)
+        )
       }
 
       return await response.json()
@@ -199,6 +167,153 @@ export abstract class BaseAiService {
     }
   }
 
+  /**
+   * Streaming variant of fetchWithErrorHandling for the generate-* actions.
+   * Sends `stream: true`, passes every partial event to `onEvent` and
+   * resolves with the `done` event's data — the same body the non-streaming
+   * call returns. The 120-second timeout restarts with every event, so long
+   * generations that keep producing output are not cut off.
+   * @param endpoint - API endpoint to call
+   * @param payload - Request payload
+   * @param onEvent - Called with each partial event (`idea`, `section`, `phase`)
+   * @param signal - Optional AbortSignal from the caller; aborting closes the stream
+   * @returns Response data from the `done` event
+   */
+  protected async streamWithErrorHandling<T>(
+    endpoint: string,
+    payload: object,
+    onEvent: (event: AiStreamEvent) => void,
+    signal?: AbortSignal,
+    isRetry = false,
+    isCsrfRetry = false
+  ): Promise<T> {
+    const IDLE_TIMEOUT_MS = 120_000
+
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    if (signal?.aborted) controller.abort()
+    signal?.addEventListener('abort', abort)
+
+    let timedOut = false
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    const restartTimeout = () => {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, IDLE_TIMEOUT_MS)
+    }
+
+    try {
+      restartTimeout()
+      const headers = await this.getAuthHeaders()
+      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+        method: 'POST',
+        headers: { ...headers, Accept: 'text/event-stream' },
+        credentials: 'include',
+        body: JSON.stringify({ ...payload, stream: true }),
+        signal: controller.signal,
+      })
+
+      if (!response.ok) {
+        // The retry runs its own timeout
+        clearTimeout(timeoutId)
+        return await this.handleErrorResponse<T>(response, isRetry, isCsrfRetry, (retryAuth, retryCsrf) =>
+          this.streamWithErrorHandling<T>(endpoint, payload, onEvent, signal, retryAuth, retryCsrf)
+        )
+      }
+
+      // A server without streaming support answers with plain JSON
+      if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        return await response.json()
+      }
+
+      let result: { data: T } | null = null
+      await readEventStream(response.body, (event) => {
+        restartTimeout()
+        if (event.event === 'done') {
+          result = { data: event.data as T }
+        } else if (event.event === 'error') {
+          const message = (event.data as { error?: string } | null)?.error
+          throw new Error(message || 'AI generation failed')
+        } else {
+          onEvent(event)
+        }
+      })
+
+      if (!result) throw new Error('AI stream ended before completing -- please try again')
+      return (result as { data: T }).data
+    } catch (_error) {
+      if (timedOut) {
+        throw Object.assign(new Error('Request timeout after 120s without progress'), { name: 'AbortError' })
+      }
+      if (_error instanceof Error && _error.name === 'AbortError') throw _error
+      logger.error(`Error streaming ${endpoint}:`, _error)
+      throw _error
+    } finally {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', abort)
+      // Closes the connection if we stopped reading early (error event, bad data)
+      controller.abort()
+    }
+  }
+
+  /**
+   * Shared handling of a non-OK response: refreshes the token on 401,
+   * re-mints the CSRF cookie on 403 CSRF_COOKIE_MISSING (calling `retry` with
+   * the updated budgets) and otherwise throws a readable error.
+   */
+  private async handleErrorResponse<T>(
+    response: Response,
+    isRetry: boolean,
+    isCsrfRetry: boolean,
+    retry: (isRetry: boolean, isCsrfRetry: boolean) => Promise<T>
+  ): Promise<T> {
+    // 401-refresh and 403-CSRF-mint budgets are INDEPENDENTLY one-shot.
+    // `isRetry` tracks whether a 401 has already triggered a token refresh;
+    // `isCsrfRetry` tracks whether a 403 CSRF_COOKIE_MISSING has already
+    // triggered a re-mint. They do not share a counter — a request can
+    // legally consume one of each (e.g. 401 -> refresh -> retry -> 403
+    // CSRF_MISSING -> bootstrap -> retry) without prematurely exhausting
+    // the other budget (Poirot #5).
+    if (response.status === 401 && !isRetry) {
+      const refreshed = await this.refreshAccessToken()
+      if (refreshed) {
+        // Pass through isCsrfRetry untouched: the CSRF budget is independent
+        // of the 401 budget and must not reset just because we refreshed.
+        return retry(true, isCsrfRetry)
+      }
+      throw new Error('Authentication expired. Please sign in again.')
+    }
+    if (response.status === 403) {
+      const errorBody = await response.json().catch(() => ({}))
+      if (errorBody?.error?.code === 'CSRF_COOKIE_MISSING') {
+        if (isCsrfRetry) {
+          throw new Error('CSRF cookie could not be re-established')
+        }
+        await useAuthModule.bootstrapCsrfCookie(true)
+        // Pass through isRetry untouched: the 401 budget is independent
+        // of the CSRF budget and must not reset just because we re-minted.
+        return retry(isRetry, true)
+      }
+      if (errorBody?.error === 'AI_BUDGET_EXCEEDED') {
+        // Budget notices refresh so they show the hard stop too
+        window.dispatchEvent(new CustomEvent('ai-budget-exceeded'))
+        throw Object.assign(new Error(errorBody.message || 'The monthly AI budget has been reached.'), {
+          code: 'AI_BUDGET_EXCEEDED'
+        })
+      }
+      const errorCode = errorBody?.error?.code || errorBody?.error?.message || ''
+      throw new Error(`Server error: 403 ${errorCode}`.trim())
+    }
+    if (response.status === 429) {
+      throw new Error('Rate limit exceeded. Please wait a moment before trying again.')
+    }
+    const errorBody = await response.json().catch(() => ({}))
+    const errorCode = errorBody?.error?.code || errorBody?.error?.message || ''
+    throw new Error(`Server error: ${response.status} ${errorCode}`.trim())
+  }
+
   /**
    * Attempt to refresh the access token via the auth endpoint.
    * Uses a module-level singleton promise so concurrent 401s coalesce into one refresh.
@@ -0,0 +1,58 @@
+/**
+ * Chat Service
+ * Answers questions about a project for the assistant side panel
+ */
+
+import { Project, ProjectChatAction, ProjectChatMessage } from '../../../types'
+import { logger } from '../../../utils/logger'
+import { BaseAiService, SecureAIServiceConfig } from './BaseAiService'
+import { buildProjectChatContext, type ProjectChatSources } from '../../../utils/projectChat'
+
+/** Earlier messages sent with each question */
+export const MAX_CHAT_HISTORY = 20
+
+export interface ProjectChatReply {
+  reply: string
+  actions: ProjectChatAction[]
+}
+
+/**
+ * Service for the project assistant
+ */
+export class ChatService extends BaseAiService {
+  constructor(config: SecureAIServiceConfig = {}) {
+    super(config)
+  }
+
+  /**
+   * Answer the last user message in a conversation about a project
+   * @param messages - Conversation so far, ending with the user's question
+   * @param project - Project being discussed
+   * @param sources - Ideas, roadmap, insights and files to answer from
+   * @param signal - Optional abort signal
+   * @returns The reply and any actions it proposes; nothing is changed
+   */
+  async askProject(
+    messages: ProjectChatMessage[],
+    project: Pick<Project, 'id' | 'name' | 'description' | 'project_type'>,
+    sources: ProjectChatSources,
+    signal?: AbortSignal
+  ): Promise<ProjectChatReply> {
+    const question = messages[messages.length - 1]?.content ?? ''
+    logger.debug('💬 Asking the project assistant:', { projectId: project.id, messages: messages.length })
+
+    const data = await this.fetchWithErrorHandling<Partial<ProjectChatReply>>('/api/ai?action=project-chat', {
+      projectId: project.id,
+      projectName: project.name,
+      projectDescription: project.description || '',
+      projectType: project.project_type || 'other',
+      messages: messages.slice(-MAX_CHAT_HISTORY).map(({ role, content }) => ({ role, content })),
+      context: buildProjectChatContext(sources, question)
+    }, false, signal)
+
+    if (!data.reply) {
+      throw new Error('AI returned no answer -- please try again')
+    }
+    return { reply: data.reply, actions: data.actions ?? [] }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Cluster Service
+ * Asks the AI to group ideas into named themes ("auto-cluster")
+ */
+
+import { IdeaCard, IdeaCluster, Project } from '../../../types'
+import { logger } from '../../../utils/logger'
+import { BaseAiService, SecureAIServiceConfig } from './BaseAiService'
+import { clusterColor } from '../../../utils/ideaClusters'
+
+/** Most ideas the server clusters in one request */
+export const MAX_IDEAS_PER_CLUSTERING = 150
+
+interface ClusterResponse {
+  clusters?: Array<{ name: string; ideaIds: string[] }>
+}
+
+/**
+ * Service for AI clustering of ideas into themes
+ */
+export class ClusterService extends BaseAiService {
+  constructor(config: SecureAIServiceConfig = {}) {
+    super(config)
+  }
+
+  /**
+   * Group ideas into named themes
+   * @param ideas - Ideas to cluster (at most MAX_IDEAS_PER_CLUSTERING)
+   * @param project - Project the themes are named for
+   * @param signal - Optional abort signal
+   * @returns Clusters with fresh ids and colors; nothing is saved
+   */
+  async clusterIdeas(
+    ideas: IdeaCard[],
+    project: Pick<Project, 'id' | 'name' | 'description' | 'project_type'>,
+    signal?: AbortSignal
+  ): Promise<IdeaCluster[]> {
+    const toCluster = ideas.slice(0, MAX_IDEAS_PER_CLUSTERING)
+    if (toCluster.length < 2) return []
+    logger.debug('🧩 Requesting AI clustering for ideas:', { count: toCluster.length })
+
+    const data = await this.fetchWithErrorHandling<ClusterResponse>('/api/ai?action=cluster-ideas', {
+      projectId: project.id,
+      projectName: project.name,
+      projectDescription: project.description || '',
+      projectType: project.project_type || 'other',
+      ideas: toCluster.map((idea) => ({ id: idea.id, title: idea.content, description: idea.details || '' }))
+    }, false, signal)
+
+    const clusteringIds = new Set(toCluster.map((idea) => idea.id))
+    const clusters = (data.clusters ?? [])
+      .map((cluster) => ({ name: cluster.name, ideaIds: cluster.ideaIds.filter((id) => clusteringIds.has(id)) }))
+      .filter((cluster) => cluster.ideaIds.length > 0)
+    if (clusters.length === 0) {
+      // A 200 with nothing usable is an error, not an empty board
+      throw new Error('AI returned no clusters -- please try again')
+    }
+
+    return clusters.map((cluster, index) => ({
+      id: crypto.randomUUID(),
+      name: cluster.name,
+      idea_ids: cluster.ideaIds,
+      color: clusterColor(index)
+    }))
+  }
+}
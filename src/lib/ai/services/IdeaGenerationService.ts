@@ -3,10 +3,12 @@
  * Handles AI-powered idea generation for projects
  */
 
-import { IdeaCard } from '../../../types'
+import { IdeaCard, Project } from '../../../types'
+import type { BrainstormTechnique, SessionPrompt } from '../../../types/BrainstormSession'
 import { logger } from '../../../utils/logger'
 import { BaseAiService, SecureAIServiceConfig } from './BaseAiService'
-import { getPositionFromQuadrant, mapToQuadrant, mapPriorityLevel, type PriorityLevel } from '../utils'
+import { DEFAULT_MATRIX_CONFIG, type MatrixConfig } from '../../../utils/matrixQuadrant'
+import { getMatrixPositionForLevels, mapPriorityLevel, type AiStreamOptions, type PriorityLevel } from '../utils'
 
 export interface AIIdeaResponse {
   content: string
@@ -14,6 +16,16 @@ export interface AIIdeaResponse {
   priority: PriorityLevel
 }
 
+/**
+ * Idea as returned by the generate-ideas endpoint
+ */
+interface GeneratedIdea {
+  title: string
+  description: string
+  effort: string
+  impact: string
+}
+
 /**
  * Service for generating ideas using AI
  */
@@ -84,6 +96,9 @@ export class IdeaGenerationService extends BaseAiService {
    * @param projectType - Project type
    * @param count - Number of ideas to generate
    * @param tolerance - Tolerance percentage for idea distribution
+   * @param options - Abort signal; `onPartial` streams the ideas and is called
+   *   with the ideas received so far after each new one
+   * @param matrixConfig - Project matrix configuration the ideas are placed on
    * @returns Array of generated idea cards
    */
   async generateMultipleIdeas(
@@ -91,7 +106,9 @@ export class IdeaGenerationService extends BaseAiService {
     description: string,
     projectType: string = 'General',
     count: number = 8,
-    tolerance: number = 50
+    tolerance: number = 50,
+    options: AiStreamOptions<IdeaCard[]> = {},
+    matrixConfig: MatrixConfig = DEFAULT_MATRIX_CONFIG
   ): Promise<IdeaCard[]> {
     logger.debug(`🧠 Generating ${count} ideas for project: "${title}" with ${tolerance}% tolerance`)
 
@@ -101,33 +118,34 @@ export class IdeaGenerationService extends BaseAiService {
       description,
       projectType,
       count,
-      tolerance
+      tolerance,
+      matrixConfig
     })
 
     return this.getOrSetCache(
       cacheKey,
       async () => {
         try {
-          const data = await this.fetchWithErrorHandling<any>('/api/ai?action=generate-ideas', {
-            title,
-            description,
-            projectType,
-            count,
-            tolerance
-          })
+          const endpoint = '/api/ai?action=generate-ideas'
+          const payload = { title, description, projectType, count, tolerance }
+          const { signal, onPartial } = options
+
+          let data: { ideas?: GeneratedIdea[] }
+          if (onPartial) {
+            const partial: IdeaCard[] = []
+            data = await this.streamWithErrorHandling<{ ideas?: GeneratedIdea[] }>(endpoint, payload, (event) => {
+              const idea = event.data as Partial<GeneratedIdea> | null
+              // Partial ideas are raw model output; skip any we could not place
+              if (event.event !== 'idea' || typeof idea?.effort !== 'string' || typeof idea?.impact !== 'string') return
+              partial.push(this.toIdeaCard(idea as GeneratedIdea, partial.length, matrixConfig))
+              onPartial([...partial])
+            }, signal)
+          } else {
+            data = await this.fetchWithErrorHandling<{ ideas?: GeneratedIdea[] }>(endpoint, payload, false, signal)
+          }
 
           if (data.ideas && data.ideas.length > 0) {
-            return (data.ideas || []).map((idea: any, index: number) => ({
-              id: `ai-${Date.now()}-${index}`,
-              content: idea.title,
-              details: idea.description,
-              x: getPositionFromQuadrant(mapToQuadrant(idea.effort, idea.impact)).x,
-              y: getPositionFromQuadrant(mapToQuadrant(idea.effort, idea.impact)).y,
-              priority: mapPriorityLevel(idea.impact, idea.effort),
-              created_by: 'ai-assistant',
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            }))
+            return data.ideas.map((idea, index) => this.toIdeaCard(idea, index, matrixConfig))
           }
 
           // 200-empty: surface as a distinct user-visible error rather than
@@ -152,6 +170,8 @@ export class IdeaGenerationService extends BaseAiService {
    * @param projectType - Project type
    * @param count - Number of ideas to generate
    * @param tolerance - Tolerance percentage
+   * @param options - Abort signal and streaming callback, see generateMultipleIdeas
+   * @param matrixConfig - Project matrix configuration the ideas are placed on
    * @returns Array of generated idea cards
    */
   async generateProjectIdeas(
@@ -159,8 +179,72 @@ export class IdeaGenerationService extends BaseAiService {
     description: string,
     projectType?: string,
     count: number = 8,
-    tolerance: number = 50
+    tolerance: number = 50,
+    options: AiStreamOptions<IdeaCard[]> = {},
+    matrixConfig?: MatrixConfig
   ): Promise<IdeaCard[]> {
-    return this.generateMultipleIdeas(projectName, description, projectType || 'General', count, tolerance)
+    return this.generateMultipleIdeas(projectName, description, projectType || 'General', count, tolerance, options, matrixConfig)
+  }
+
+  /**
+   * Generate brainstorm session prompts for a technique, tailored to the project
+   * @param technique - Technique the session follows
+   * @param project - Project the session is for
+   * @param count - Number of prompts to generate
+   * @param signal - Optional abort signal
+   * @returns Prompts to add to the technique's own, without ids
+   */
+  async generateSessionPrompts(
+    technique: BrainstormTechnique,
+    project: Pick<Project, 'id' | 'name' | 'description' | 'project_type'>,
+    count: number = 4,
+    signal?: AbortSignal
+  ): Promise<Array<Omit<SessionPrompt, 'id'>>> {
+    logger.debug(`🧠 Generating ${technique} session prompts for project: "${project.name}"`)
+
+    try {
+      const data = await this.fetchWithErrorHandling<{ prompts?: Array<Omit<SessionPrompt, 'id'>> }>(
+        '/api/ai?action=generate-ideas',
+        {
+          projectId: project.id,
+          title: project.name,
+          description: project.description || project.name,
+          projectType: project.project_type || 'other',
+          technique,
+          count
+        },
+        false,
+        signal
+      )
+
+      if (data.prompts && data.prompts.length > 0) {
+        return data.prompts
+      }
+
+      throw new Error('AI returned no prompts -- please try again')
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') throw error
+      logger.error('Error generating session prompts:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Map an idea from the API to an idea card placed by its effort and impact
+   * on the project's matrix
+   */
+  private toIdeaCard(idea: GeneratedIdea, index: number, matrixConfig: MatrixConfig): IdeaCard {
+    const position = getMatrixPositionForLevels(idea.effort, idea.impact, matrixConfig)
+    return {
+      id: `ai-${Date.now()}-${index}`,
+      content: idea.title,
+      details: idea.description,
+      x: position.x,
+      y: position.y,
+      priority: mapPriorityLevel(idea.impact, idea.effort),
+      created_by: 'ai-assistant',
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }
   }
 }
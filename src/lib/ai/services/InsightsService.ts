@@ -6,7 +6,10 @@
 import { IdeaCard, Project } from '../../../types'
 import { logger } from '../../../utils/logger'
 import { BaseAiService, SecureAIServiceConfig } from './BaseAiService'
-import { getQuadrantFromPosition } from '../utils'
+import { getConfiguredQuadrantLabel } from '../utils'
+import { resolveMatrixConfig } from '../../../utils/matrixQuadrant'
+import { SCORING_FRAMEWORKS, calculateIdeaScore, formatIdeaScore, getScorePlacementSettings } from '../../../utils/ideaScoring'
+import { getIdeaThemes } from '../../../utils/ideaClusters'
 import { OpenAIModelRouter, type OpenAIModel, type AITaskType } from '../openaiModelRouter'
 
 /**
@@ -52,7 +55,7 @@ interface InsightsRequestPayload {
 /**
  * Insights report structure
  */
-interface InsightsReport {
+export interface InsightsReport {
   executiveSummary?: string
   keyInsights?: { insight: string; impact: string }[]
   priorityRecommendations?: {
@@ -86,6 +89,10 @@ export class InsightsService extends BaseAiService {
    * @param projectType - Project type
    * @param projectId - Project ID for additional context
    * @param currentProject - Current project object
+   * @param preferredModel - Optional model override
+   * @param signal - Optional abort signal
+   * @param onPartial - When given, the report is streamed and this is called
+   *   with the sections received so far after each new section
    * @returns Generated insights report
    */
   async generateInsights(
@@ -95,15 +102,20 @@ export class InsightsService extends BaseAiService {
     projectId?: string,
     currentProject?: Project | null,
     preferredModel?: OpenAIModel,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    onPartial?: (partial: InsightsReport) => void
   ): Promise<InsightsReport> {
     logger.debug('🔍 Generating insights for', (ideas || []).length, 'ideas')
 
+    // Themes from the project's idea clusters, sent with each idea
+    const ideaThemes = getIdeaThemes(currentProject?.settings?.idea_clusters)
+
     // Create a simplified cache key from core parameters (excluding timestamps and large data)
     const ideaSignature = (ideas || []).map((idea) => ({
       content: idea.content,
       x: Math.round(idea.x / 10) * 10, // Round to reduce cache misses from minor position changes
-      y: Math.round(idea.y / 10) * 10
+      y: Math.round(idea.y / 10) * 10,
+      theme: ideaThemes.get(idea.id)
     }))
 
     const cacheKey = this.generateCacheKey('generateInsights', {
@@ -287,14 +299,24 @@ export class InsightsService extends BaseAiService {
 
           OpenAIModelRouter.logSelection(taskContext, modelSelection)
 
+          const matrixConfig = resolveMatrixConfig(currentProject?.settings?.matrix_view)
+          const { framework: scoringFramework } = getScorePlacementSettings(currentProject?.settings?.matrix_view)
+
           const requestPayload = {
-            ideas: (ideas || []).map((idea) => ({
-              title: idea.content,
-              description: idea.details,
-              quadrant: getQuadrantFromPosition(idea.x, idea.y)
-            })),
+            ideas: (ideas || []).map((idea) => {
+              const score = calculateIdeaScore(idea.scores, scoringFramework)
+              const theme = ideaThemes.get(idea.id)
+              return {
+                title: idea.content,
+                description: idea.details,
+                quadrant: getConfiguredQuadrantLabel(idea.x, idea.y, matrixConfig),
+                ...(score !== null ? { score: `${SCORING_FRAMEWORKS[scoringFramework].label} ${formatIdeaScore(score)}` } : {}),
+                ...(theme ? { theme } : {})
+              }
+            }),
             projectName: projectName || 'Project',
             projectType: projectType || 'General',
+            ...(projectId ? { projectId } : {}),
             roadmapContext: roadmapContext,
             documentContext: documentContext,
             projectContext: projectContext,
@@ -331,7 +353,20 @@ export class InsightsService extends BaseAiService {
             })
           }
 
-          const data = await this.fetchWithErrorHandling<{ insights?: InsightsReport }>('/api/ai?action=generate-insights', requestPayload, false, signal)
+          const endpoint = '/api/ai?action=generate-insights'
+          let data: { insights?: InsightsReport }
+          if (onPartial) {
+            // A section sent again (after a provider fallback) replaces the earlier one
+            const partial: Record<string, unknown> = {}
+            data = await this.streamWithErrorHandling<{ insights?: InsightsReport }>(endpoint, requestPayload, (event) => {
+              const section = event.data as { key?: string; value?: unknown } | null
+              if (event.event !== 'section' || !section?.key) return
+              partial[section.key] = section.value
+              onPartial({ ...partial } as InsightsReport)
+            }, signal)
+          } else {
+            data = await this.fetchWithErrorHandling<{ insights?: InsightsReport }>(endpoint, requestPayload, false, signal)
+          }
           const insights: InsightsReport = data.insights || {}
 
           // Log what we received from the AI API
@@ -380,6 +415,9 @@ export class InsightsService extends BaseAiService {
           if (msg.startsWith('AI returned') || msg.startsWith('AI service returned')) {
             throw apiError
           }
+          if ((apiError as { code?: string }).code === 'AI_BUDGET_EXCEEDED') {
+            throw apiError
+          }
 
           // Unconditional throw — dev-mode mock fallback removed per ADR-0016
           // Step 6 so failures surface to users in all environments.
@@ -0,0 +1,107 @@
+/**
+ * Placement Service
+ * Asks the AI to place ideas on the matrix ("place for me")
+ */
+
+import { IdeaCard, Project } from '../../../types'
+import { logger } from '../../../utils/logger'
+import { BaseAiService, SecureAIServiceConfig } from './BaseAiService'
+import {
+  DEFAULT_MATRIX_CONFIG,
+  axisValuesToPosition,
+  getMatrixCell,
+  positionToAxisValues,
+  type MatrixConfig
+} from '../../../utils/matrixQuadrant'
+
+/** Most ideas the server places in one request */
+export const MAX_IDEAS_PER_PLACEMENT = 30
+
+// Other ideas sent along so scores line up with the existing board
+const MAX_BOARD_CONTEXT = 60
+
+/**
+ * A proposed position for one idea
+ */
+export interface IdeaPlacementSuggestion {
+  ideaId: string
+  x: number
+  y: number
+  /** Label of the configured quadrant the position falls in */
+  quadrantLabel: string
+  rationale: string
+}
+
+interface PlacementResponse {
+  placements?: Array<{ id: string; xScore: number; yScore: number; rationale: string }>
+}
+
+const toScore = (value: number) => Math.round(value * 100)
+
+/**
+ * Service for AI placement of ideas on the matrix
+ */
+export class PlacementService extends BaseAiService {
+  constructor(config: SecureAIServiceConfig = {}) {
+    super(config)
+  }
+
+  /**
+   * Suggest matrix positions for ideas
+   * @param ideas - Ideas to place (at most MAX_IDEAS_PER_PLACEMENT)
+   * @param board - All ideas on the matrix, used as calibration context
+   * @param project - Project whose description the ideas are judged against
+   * @param matrixConfig - Project matrix configuration (axis meaning and direction)
+   * @param signal - Optional abort signal
+   * @returns One suggestion per idea the AI could place
+   */
+  async suggestPlacements(
+    ideas: IdeaCard[],
+    board: IdeaCard[],
+    project: Pick<Project, 'id' | 'name' | 'description' | 'project_type'>,
+    matrixConfig: MatrixConfig = DEFAULT_MATRIX_CONFIG,
+    signal?: AbortSignal
+  ): Promise<IdeaPlacementSuggestion[]> {
+    const toPlace = ideas.slice(0, MAX_IDEAS_PER_PLACEMENT)
+    if (toPlace.length === 0) return []
+    logger.debug('📍 Requesting AI placement for ideas:', { count: toPlace.length })
+
+    const placingIds = new Set(toPlace.map((idea) => idea.id))
+    const axis = (config: MatrixConfig['xAxis']) => ({ label: config.label, low: config.low_label, high: config.high_label })
+
+    const data = await this.fetchWithErrorHandling<PlacementResponse>('/api/ai?action=place-ideas', {
+      projectId: project.id,
+      projectName: project.name,
+      projectDescription: project.description || '',
+      projectType: project.project_type || 'other',
+      xAxis: axis(matrixConfig.xAxis),
+      yAxis: axis(matrixConfig.yAxis),
+      ideas: toPlace.map((idea) => ({ id: idea.id, title: idea.content, description: idea.details || '' })),
+      board: board
+        .filter((idea) => !placingIds.has(idea.id))
+        .slice(0, MAX_BOARD_CONTEXT)
+        .map((idea) => {
+          const { xValue, yValue } = positionToAxisValues(idea.x, idea.y, matrixConfig)
+          return { title: idea.content, xScore: toScore(xValue), yScore: toScore(yValue) }
+        })
+    }, false, signal)
+
+    const placements = data.placements ?? []
+    if (placements.length === 0) {
+      // A 200 with nothing usable is an error, not an empty review list
+      throw new Error('AI returned no placements -- please try again')
+    }
+
+    return placements
+      .filter((placement) => placingIds.has(placement.id))
+      .map((placement) => {
+        const position = axisValuesToPosition(placement.xScore / 100, placement.yScore / 100, matrixConfig)
+        return {
+          ideaId: placement.id,
+          ...position,
+          quadrantLabel: getMatrixCell(position.x, position.y, matrixConfig).label,
+          rationale: placement.rationale
+        }
+      })
+  }
+}
@@ -3,10 +3,25 @@
  * Handles AI-powered roadmap generation for projects
  */
 
-import { IdeaCard } from '../../../types'
+import { IdeaCard, IdeaCluster, Milestone, Phase, RoadmapData, RoadmapEpicChange } from '../../../types'
 import { logger } from '../../../utils/logger'
 import { BaseAiService, SecureAIServiceConfig } from './BaseAiService'
-import { getQuadrantFromPosition } from '../utils'
+import { getConfiguredQuadrantLabel } from '../utils'
+import type { MatrixConfig } from '../../../utils/matrixQuadrant'
+import { getIdeaThemes } from '../../../utils/ideaClusters'
+
+/**
+ * Roadmap as returned by the generate-roadmap endpoint; older responses use
+ * the flat legacy fields instead of roadmapAnalysis and executionStrategy
+ */
+interface GeneratedRoadmap extends Partial<RoadmapData> {
+  timeline?: string
+  phases?: Phase[]
+  methodology?: string
+  sprintLength?: string
+  teamRecommendations?: string
+  keyMilestones?: Milestone[]
+}
 
 /**
  * Service for generating project roadmaps using AI
@@ -21,37 +36,70 @@ export class RoadmapService extends BaseAiService {
    * @param ideas - Array of idea cards
    * @param projectName - Project name
    * @param projectType - Project type
+   * @param signal - Optional abort signal
+   * @param matrixConfig - Project matrix configuration used to label quadrants
+   * @param onPartial - When given, the roadmap is streamed and this is called
+   *   with the phases received so far after each new phase
+   * @param clusters - Project idea clusters; ideas in one cluster are planned together
+   * @param projectId - Project the roadmap is for, so its AI budget applies
    * @returns Generated roadmap
    */
-  async generateRoadmap(ideas: IdeaCard[], projectName: string, projectType?: string, signal?: AbortSignal): Promise<any> {
+  async generateRoadmap(
+    ideas: IdeaCard[],
+    projectName: string,
+    projectType?: string,
+    signal?: AbortSignal,
+    matrixConfig?: MatrixConfig,
+    onPartial?: (phases: Phase[]) => void,
+    clusters?: IdeaCluster[],
+    projectId?: string
+  ): Promise<RoadmapData> {
     logger.debug('🗺️ Generating roadmap for project:', projectName)
+    const ideaThemes = getIdeaThemes(clusters)
 
     // Create cache key from core parameters
     const ideaSignature = (ideas || []).map((idea) => ({
       content: idea.content,
       x: Math.round(idea.x / 10) * 10,
-      y: Math.round(idea.y / 10) * 10
+      y: Math.round(idea.y / 10) * 10,
+      theme: ideaThemes.get(idea.id)
     }))
 
     const cacheKey = this.generateCacheKey('generateRoadmap', {
       ideas: ideaSignature,
       projectName: projectName || 'Project',
-      projectType: projectType || 'General'
+      projectType: projectType || 'General',
+      matrixConfig
     })
 
     return this.getOrSetCache(
       cacheKey,
       async () => {
         try {
-          const data = await this.fetchWithErrorHandling<any>('/api/ai?action=generate-roadmap', {
+          const endpoint = '/api/ai?action=generate-roadmap'
+          const phases: Phase[] = []
+          const payload = {
             projectName,
             projectType: projectType || 'General',
-            ideas: (ideas || []).map((idea) => ({
-              title: idea.content,
-              description: idea.details,
-              quadrant: getQuadrantFromPosition(idea.x, idea.y)
-            }))
-          }, false, signal)
+            ...(projectId ? { projectId } : {}),
+            ideas: (ideas || []).map((idea) => {
+              const theme = ideaThemes.get(idea.id)
+              return {
+                title: idea.content,
+                description: idea.details,
+                quadrant: getConfiguredQuadrantLabel(idea.x, idea.y, matrixConfig),
+                ...(theme ? { theme } : {})
+              }
+            })
+          }
+
+          const data = onPartial
+            ? await this.streamWithErrorHandling<{ roadmap?: GeneratedRoadmap }>(endpoint, payload, (event) => {
+                if (event.event !== 'phase') return
+                phases.push(event.data as Phase)
+                onPartial([...phases])
+              }, signal)
+            : await this.fetchWithErrorHandling<{ roadmap?: GeneratedRoadmap }>(endpoint, payload, false, signal)
 
           // 200-empty: surface as a distinct user-visible error rather than
           // silently returning mock data (ADR-0016 R9).
@@ -64,7 +112,7 @@ export class RoadmapService extends BaseAiService {
           // Return the roadmap as-is if it already has the correct structure
           if (roadmap.roadmapAnalysis && roadmap.executionStrategy) {
             logger.debug('✅ Roadmap has correct structure, returning as-is')
-            return roadmap
+            return roadmap as RoadmapData
           }
 
           // Legacy format transformation for backward compatibility
@@ -99,4 +147,90 @@ export class RoadmapService extends BaseAiService {
     )
   }
 
+  /**
+   * Rewrite one phase of an existing roadmap
+   * @param roadmap - Roadmap the phase belongs to
+   * @param phaseIndex - Index of the phase to rewrite
+   * @param ideas - Ideas on the matrix
+   * @param projectName - Project name
+   * @param projectType - Project type
+   * @param instructions - What to change; empty asks for a general improvement
+   * @param signal - Optional abort signal
+   * @param projectId - Project the roadmap is for, so its AI budget applies
+   * @returns The new phase; the roadmap itself is not changed
+   */
+  async regeneratePhase(
+    roadmap: RoadmapData,
+    phaseIndex: number,
+    ideas: IdeaCard[],
+    projectName: string,
+    projectType?: string,
+    instructions?: string,
+    signal?: AbortSignal,
+    projectId?: string
+  ): Promise<Phase> {
+    const phases = roadmap.roadmapAnalysis.phases
+    const target = phases[phaseIndex]
+    if (!target) throw new Error(`Roadmap has no phase ${phaseIndex + 1}`)
+    logger.debug('🗺️ Regenerating roadmap phase:', { projectName, phase: target.phase })
+
+    const data = await this.fetchWithErrorHandling<{ phase?: Phase }>('/api/ai?action=generate-roadmap', {
+      projectName,
+      projectType: projectType || 'General',
+      ...(projectId ? { projectId } : {}),
+      ideas: (ideas || []).map((idea) => ({ title: idea.content, description: idea.details })),
+      regeneratePhase: {
+        phase: target,
+        otherPhases: phases.filter((_, index) => index !== phaseIndex).map((phase) => phase.phase),
+        instructions: instructions || ''
+      }
+    }, false, signal)
+
+    if (!data.phase) {
+      throw new Error('AI returned no roadmap phase -- please try again')
+    }
+    return data.phase
+  }
+
+  /**
+   * Propose epic changes for the ideas that changed since a roadmap was made
+   * @param roadmap - Roadmap to refresh; locked epics are left alone
+   * @param ideas - Ideas on the matrix
+   * @param changedIdeas - Ideas added or edited since the roadmap was saved
+   * @param removedIdeas - Titles of the roadmap's ideas that were deleted
+   * @param projectName - Project name
+   * @param projectType - Project type
+   * @param signal - Optional abort signal
+   * @param projectId - Project the roadmap is for, so its AI budget applies
+   * @returns Proposed changes; the roadmap itself is not changed
+   */
+  async refreshRoadmap(
+    roadmap: Pick<RoadmapData, 'roadmapAnalysis'>,
+    ideas: IdeaCard[],
+    changedIdeas: IdeaCard[],
+    removedIdeas: string[],
+    projectName: string,
+    projectType?: string,
+    signal?: AbortSignal,
+    projectId?: string
+  ): Promise<RoadmapEpicChange[]> {
+    logger.debug('🗺️ Refreshing roadmap:', { projectName, changed: changedIdeas.length, removed: removedIdeas.length })
+
+    const data = await this.fetchWithErrorHandling<{ changes?: RoadmapEpicChange[] }>('/api/ai?action=generate-roadmap', {
+      projectName,
+      projectType: projectType || 'General',
+      ...(projectId ? { projectId } : {}),
+      ideas: (ideas || []).map((idea) => ({ title: idea.content, description: idea.details })),
+      refresh: {
+        roadmap,
+        changedIdeas: changedIdeas.map((idea) => ({ title: idea.content, description: idea.details })),
+        removedIdeas
+      }
+    }, false, signal)
+
+    if (!Array.isArray(data.changes)) {
+      throw new Error('AI returned no roadmap changes -- please try again')
+    }
+    return data.changes
+  }
 }
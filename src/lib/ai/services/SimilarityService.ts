@@ -0,0 +1,137 @@
+/**
+ * Similarity Service
+ * Finds near-duplicate ideas with embeddings, falling back to lexical
+ * similarity when offline or when the embedding call fails
+ */
+
+import { IdeaCard } from '../../../types'
+import { logger } from '../../../utils/logger'
+import { BaseAiService, SecureAIServiceConfig } from './BaseAiService'
+import {
+  DUPLICATE_THRESHOLDS,
+  cosineSimilarity,
+  findDuplicateGroups,
+  ideaText,
+  lexicalSimilarity,
+  type DuplicateGroup,
+  type SimilarIdeaMatch,
+  type SimilarityMethod
+} from '../../../utils/ideaSimilarity'
+
+/** Texts per embed-ideas request (the server's limit) */
+const EMBED_BATCH_SIZE = 100
+/** Most ideas compared in one scan; pairs grow quadratically */
+export const MAX_IDEAS_PER_SCAN = 300
+
+export interface DuplicateScanResult {
+  groups: DuplicateGroup[]
+  method: SimilarityMethod
+}
+
+export interface SimilarIdeasResult {
+  matches: SimilarIdeaMatch[]
+  method: SimilarityMethod
+}
+
+interface EmbedResponse {
+  embeddings?: number[][]
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false
+
+/**
+ * Service for duplicate detection across ideas
+ */
+export class SimilarityService extends BaseAiService {
+  // Idea text -> embedding; idea text rarely changes between scans
+  private embeddingCache = new Map<string, number[]>()
+
+  constructor(config: SecureAIServiceConfig = {}) {
+    super(config)
+  }
+
+  /**
+   * Group near-duplicate ideas
+   * @param ideas - Ideas to compare (at most MAX_IDEAS_PER_SCAN)
+   * @param projectId - Project for usage tracking
+   * @param signal - Optional abort signal
+   * @returns Duplicate groups and the method that produced them
+   */
+  async findDuplicates(ideas: IdeaCard[], projectId?: string, signal?: AbortSignal): Promise<DuplicateScanResult> {
+    const scanned = ideas.slice(0, MAX_IDEAS_PER_SCAN)
+    const texts = scanned.map(ideaText)
+
+    const embeddings = await this.tryEmbed(texts, projectId, signal)
+    if (embeddings) {
+      return {
+        method: 'embedding',
+        groups: findDuplicateGroups(scanned, (i, j) => cosineSimilarity(embeddings[i], embeddings[j]), DUPLICATE_THRESHOLDS.embedding)
+      }
+    }
+
+    return {
+      method: 'lexical',
+      groups: findDuplicateGroups(scanned, (i, j) => lexicalSimilarity(texts[i], texts[j]), DUPLICATE_THRESHOLDS.lexical)
+    }
+  }
+
+  /**
+   * Existing ideas that look like a new idea, most similar first
+   * @param idea - The idea being submitted
+   * @param ideas - Ideas already on the board
+   * @param projectId - Project for usage tracking
+   * @param signal - Optional abort signal
+   */
+  async findSimilarIdeas(
+    idea: Pick<IdeaCard, 'content' | 'details'>,
+    ideas: IdeaCard[],
+    projectId?: string,
+    signal?: AbortSignal
+  ): Promise<SimilarIdeasResult> {
+    const candidates = ideas.slice(0, MAX_IDEAS_PER_SCAN)
+    if (candidates.length === 0) return { matches: [], method: 'lexical' }
+
+    const text = ideaText(idea)
+    const texts = candidates.map(ideaText)
+    const embeddings = await this.tryEmbed([text, ...texts], projectId, signal)
+    const method: SimilarityMethod = embeddings ? 'embedding' : 'lexical'
+    const score = (index: number) => embeddings
+      ? cosineSimilarity(embeddings[0], embeddings[index + 1])
+      : lexicalSimilarity(text, texts[index])
+
+    const matches = candidates
+      .map((candidate, index) => ({ ideaId: candidate.id, similarity: Math.round(score(index) * 1000) / 1000 }))
+      .filter((match) => match.similarity >= DUPLICATE_THRESHOLDS[method])
+      .sort((a, b) => b.similarity - a.similarity)
+
+    return { matches, method }
+  }
+
+  /**
+   * Embeddings for `texts` in order, or null when the lexical fallback
+   * should be used. A caller abort is rethrown rather than falling back.
+   */
+  private async tryEmbed(texts: string[], projectId?: string, signal?: AbortSignal): Promise<number[][] | null> {
+    if (texts.length < 2 || isOffline()) return null
+
+    try {
+      const missing = [...new Set(texts.filter((text) => !this.embeddingCache.has(text)))]
+      for (let start = 0; start < missing.length; start += EMBED_BATCH_SIZE) {
+        const batch = missing.slice(start, start + EMBED_BATCH_SIZE)
+        const data = await this.fetchWithErrorHandling<EmbedResponse>('/api/ai?action=embed-ideas', {
+          texts: batch,
+          projectId
+        }, false, signal)
+        if (!data.embeddings || data.embeddings.length !== batch.length) {
+          throw new Error('Embedding response did not match the request')
+        }
+        batch.forEach((text, index) => this.embeddingCache.set(text, data.embeddings![index]))
+      }
+      return texts.map((text) => this.embeddingCache.get(text)!)
+    } catch (error) {
+      if (signal?.aborted) throw error
+      logger.warn('Embedding similarity unavailable, using lexical similarity:', error)
+      return null
+    }
+  }
+}
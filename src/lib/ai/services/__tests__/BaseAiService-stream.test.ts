@@ -0,0 +1,147 @@
+/**
+ * BaseAiService streaming — partial results over server-sent events
+ *
+ * - readEventStream splits events across chunk boundaries
+ * - RoadmapService streams phases to onPartial and resolves with `done`
+ * - IdeaGenerationService maps streamed ideas to idea cards
+ * - An `error` event rejects; a stream without `done` rejects
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../../../utils/cookieUtils', () => ({
+  getCsrfToken: vi.fn(() => null),
+}))
+
+vi.mock('../../../../utils/logger')
+
+vi.mock('../../../aiCache', () => ({
+  aiCache: {
+    getOrSet: vi.fn((_key: string, callback: () => Promise<unknown>) => callback()),
+    clear: vi.fn(),
+  },
+  AICache: {
+    generateKey: vi.fn((operation: string) => `cache_key_${operation}`),
+  },
+}))
+
+const mockFetch = vi.fn()
+Object.defineProperty(global, 'fetch', {
+  value: mockFetch,
+  writable: true,
+  configurable: true,
+})
+
+import { readEventStream, type AiStreamEvent } from '../../utils/eventStream'
+import { RoadmapService } from '../RoadmapService'
+import { IdeaGenerationService } from '../IdeaGenerationService'
+
+const TEST_BASE_URL = 'https://test-app.example'
+
+function sseBody(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+}
+
+function sseResponse(chunks: string[]) {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'Content-Type': 'text/event-stream; charset=utf-8' }),
+    body: sseBody(chunks),
+    json: vi.fn(),
+  }
+}
+
+const event = (name: string, data: unknown) => `event: ${name}\ndata: ${JSON.stringify(data)}\n\n`
+
+describe('readEventStream', () => {
+  it('parses events split across chunks', async () => {
+    const events: AiStreamEvent[] = []
+    await readEventStream(
+      sseBody(['event: phase\nda', 'ta: {"phase":"One"}\n', '\nevent: done\ndata: {"ok":true}\n\n']),
+      (received) => events.push(received)
+    )
+
+    expect(events).toEqual([
+      { event: 'phase', data: { phase: 'One' } },
+      { event: 'done', data: { ok: true } },
+    ])
+  })
+})
+
+describe('BaseAiService streaming', () => {
+  beforeEach(() => {
+    // Re-apply mockFetch to override any MSW beforeAll hook (same pattern as BaseAiService.test.ts)
+    Object.defineProperty(global, 'fetch', {
+      value: mockFetch,
+      writable: true,
+      configurable: true,
+    })
+    mockFetch.mockReset()
+  })
+
+  it('streams roadmap phases and resolves with the done payload', async () => {
+    const roadmap = {
+      roadmapAnalysis: { totalDuration: '8 weeks', phases: [{ phase: 'One' }, { phase: 'Two' }] },
+      executionStrategy: { methodology: 'Agile' },
+    }
+    mockFetch.mockResolvedValueOnce(sseResponse([
+      event('phase', { phase: 'One' }),
+      event('phase', { phase: 'Two' }),
+      event('done', { roadmap }),
+    ]))
+
+    const onPartial = vi.fn()
+    const service = new RoadmapService({ baseUrl: TEST_BASE_URL })
+    const result = await service.generateRoadmap([], 'Project', 'software', undefined, undefined, onPartial)
+
+    expect(result).toEqual(roadmap)
+    expect(onPartial).toHaveBeenNthCalledWith(1, [{ phase: 'One' }])
+    expect(onPartial).toHaveBeenNthCalledWith(2, [{ phase: 'One' }, { phase: 'Two' }])
+
+    const [url, options] = mockFetch.mock.calls[0]
+    expect(url).toBe(`${TEST_BASE_URL}/api/ai?action=generate-roadmap`)
+    expect(JSON.parse(options.body).stream).toBe(true)
+    expect(options.headers.Accept).toBe('text/event-stream')
+  })
+
+  it('maps streamed ideas to idea cards', async () => {
+    const idea = { title: 'Referral program', description: 'Reward invites', effort: 'Low', impact: 'High' }
+    mockFetch.mockResolvedValueOnce(sseResponse([event('idea', idea), event('done', { ideas: [idea] })]))
+
+    const onPartial = vi.fn()
+    const service = new IdeaGenerationService({ baseUrl: TEST_BASE_URL })
+    const ideas = await service.generateMultipleIdeas('Growth', 'Grow users', 'marketing', 1, 50, { onPartial })
+
+    expect(ideas).toHaveLength(1)
+    expect(onPartial).toHaveBeenCalledTimes(1)
+    expect(onPartial.mock.calls[0][0][0]).toMatchObject({ content: 'Referral program', x: ideas[0].x, y: ideas[0].y })
+  })
+
+  it('rejects with the server message on an error event', async () => {
+    mockFetch.mockResolvedValueOnce(sseResponse([
+      event('phase', { phase: 'One' }),
+      event('error', { error: 'Failed to generate roadmap' }),
+    ]))
+
+    const service = new RoadmapService({ baseUrl: TEST_BASE_URL })
+    await expect(
+      service.generateRoadmap([], 'Project', 'software', undefined, undefined, vi.fn())
+    ).rejects.toThrow('Failed to generate roadmap')
+  })
+
+  it('rejects when the stream ends without a done event', async () => {
+    mockFetch.mockResolvedValueOnce(sseResponse([event('phase', { phase: 'One' })]))
+
+    const service = new RoadmapService({ baseUrl: TEST_BASE_URL })
+    await expect(
+      service.generateRoadmap([], 'Project', 'software', undefined, undefined, vi.fn())
+    ).rejects.toThrow('AI stream ended before completing -- please try again')
+  })
+})
@@ -528,4 +528,28 @@ describe('BaseAiService — ADR-0014 Step 1 contract', () => {
       expect(fetchOptions).toMatchObject({ credentials: 'include' })
     })
   })
+
+  // -------------------------------------------------------------------------
+  // 403 AI_BUDGET_EXCEEDED: hard stop from the monthly AI budget
+  // -------------------------------------------------------------------------
+  describe('403 AI_BUDGET_EXCEEDED', () => {
+    it('throws the server message with the error code and notifies budget listeners', async () => {
+      const listener = vi.fn()
+      window.addEventListener('ai-budget-exceeded', listener)
+      mockFetch.mockResolvedValueOnce(errorResponse(403, {
+        error: 'AI_BUDGET_EXCEEDED',
+        message: "This project's monthly AI budget has been reached.",
+      }))
+
+      await expect(
+        insightsService.generateInsights([makeIdea()], 'Test Project')
+      ).rejects.toMatchObject({
+        message: "This project's monthly AI budget has been reached.",
+        code: 'AI_BUDGET_EXCEEDED',
+      })
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      window.removeEventListener('ai-budget-exceeded', listener)
+    })
+  })
 })
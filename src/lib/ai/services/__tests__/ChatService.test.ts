@@ -0,0 +1,110 @@
+/**
+ * ChatService — project assistant
+ *
+ * - Sends the conversation and the project context built for the question
+ * - Returns the reply with its proposed actions
+ * - A 200 without a reply throws
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../../../utils/cookieUtils', () => ({
+  getCsrfToken: vi.fn(() => null),
+}))
+
+vi.mock('../../../../utils/logger')
+
+const mockFetch = vi.fn()
+Object.defineProperty(global, 'fetch', {
+  value: mockFetch,
+  writable: true,
+  configurable: true,
+})
+
+import { ChatService, MAX_CHAT_HISTORY } from '../ChatService'
+import type { IdeaCard, ProjectChatMessage } from '../../../../types'
+
+const TEST_BASE_URL = 'https://test-app.example'
+const PROJECT = { id: 'project-1', name: 'Checkout revamp', description: 'Reduce cart abandonment', project_type: 'software' as const }
+
+const IDEA: IdeaCard = {
+  id: 'idea-1',
+  content: 'One-click checkout',
+  details: 'Saved cards',
+  x: 100,
+  y: 100,
+  priority: 'high',
+  created_by: 'user-1',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+}
+
+function successResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    json: async () => body,
+  }
+}
+
+describe('ChatService', () => {
+  let service: ChatService
+
+  beforeEach(() => {
+    Object.defineProperty(global, 'fetch', {
+      value: mockFetch,
+      writable: true,
+      configurable: true,
+    })
+    mockFetch.mockReset()
+    service = new ChatService({ baseUrl: TEST_BASE_URL })
+  })
+
+  it('sends the conversation with the project context and returns the reply', async () => {
+    const actions = [{ type: 'move_idea', ideaId: 'idea-1', quadrant: 'strategic' }]
+    mockFetch.mockResolvedValueOnce(successResponse({ reply: 'It is a quick win.', actions }))
+    const messages: ProjectChatMessage[] = [
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello', actions: [] },
+      { role: 'user', content: 'Where is one-click checkout?' },
+    ]
+
+    const result = await service.askProject(messages, PROJECT, { ideas: [IDEA] })
+
+    expect(result).toEqual({ reply: 'It is a quick win.', actions })
+    const [url, options] = mockFetch.mock.calls[0]
+    expect(url).toBe(`${TEST_BASE_URL}/api/ai?action=project-chat`)
+    const body = JSON.parse(options.body)
+    expect(body.messages[1]).toEqual({ role: 'assistant', content: 'Hello' })
+    expect(body.context.ideas[0]).toEqual({
+      id: 'idea-1',
+      title: 'One-click checkout',
+      details: 'Saved cards',
+      quadrant: 'quick-wins',
+      priority: 'high',
+      tags: [],
+    })
+  })
+
+  it('sends only the most recent messages', async () => {
+    mockFetch.mockResolvedValueOnce(successResponse({ reply: 'Done' }))
+    const messages: ProjectChatMessage[] = Array.from({ length: MAX_CHAT_HISTORY + 5 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `Message ${i}`,
+    }))
+
+    const result = await service.askProject(messages, PROJECT, { ideas: [] })
+
+    expect(result.actions).toEqual([])
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.messages).toHaveLength(MAX_CHAT_HISTORY)
+    expect(body.messages[MAX_CHAT_HISTORY - 1].content).toBe(`Message ${MAX_CHAT_HISTORY + 4}`)
+  })
+
+  it('throws when the AI returns no answer', async () => {
+    mockFetch.mockResolvedValueOnce(successResponse({ reply: '' }))
+
+    await expect(service.askProject([{ role: 'user', content: 'Hi' }], PROJECT, { ideas: [] }))
+      .rejects.toThrow('AI returned no answer -- please try again')
+  })
+})
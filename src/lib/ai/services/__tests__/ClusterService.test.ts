@@ -0,0 +1,105 @@
+/**
+ * ClusterService — AI "auto-cluster"
+ *
+ * - Sends the ideas and maps returned themes to clusters with ids and colors
+ * - Ignores ids that were not sent
+ * - A 200 without clusters throws
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../../../utils/cookieUtils', () => ({
+  getCsrfToken: vi.fn(() => null),
+}))
+
+vi.mock('../../../../utils/logger')
+
+const mockFetch = vi.fn()
+Object.defineProperty(global, 'fetch', {
+  value: mockFetch,
+  writable: true,
+  configurable: true,
+})
+
+import { ClusterService } from '../ClusterService'
+import { CLUSTER_COLORS } from '../../../../utils/ideaClusters'
+import type { IdeaCard } from '../../../../types'
+
+const TEST_BASE_URL = 'https://test-app.example'
+const PROJECT = { id: 'project-1', name: 'Checkout revamp', description: 'Reduce cart abandonment', project_type: 'software' as const }
+
+function makeIdea(id: string, content: string, details = ''): IdeaCard {
+  return {
+    id,
+    content,
+    details,
+    x: 260,
+    y: 260,
+    priority: 'moderate',
+    created_by: 'user-1',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  }
+}
+
+const IDEAS = [
+  makeIdea('idea-1', 'One-click checkout', 'Saved cards'),
+  makeIdea('idea-2', 'Guest checkout'),
+  makeIdea('idea-3', 'Abandoned cart emails'),
+]
+
+function successResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    json: async () => body,
+  }
+}
+
+describe('ClusterService', () => {
+  let service: ClusterService
+
+  beforeEach(() => {
+    Object.defineProperty(global, 'fetch', {
+      value: mockFetch,
+      writable: true,
+      configurable: true,
+    })
+    mockFetch.mockReset()
+    service = new ClusterService({ baseUrl: TEST_BASE_URL })
+  })
+
+  it('sends the ideas and returns clusters with ids and colors', async () => {
+    mockFetch.mockResolvedValueOnce(successResponse({
+      clusters: [
+        { name: 'Faster checkout', ideaIds: ['idea-1', 'idea-2', 'not-sent'] },
+        { name: 'Win-back', ideaIds: ['idea-3'] },
+      ],
+    }))
+
+    const clusters = await service.clusterIdeas(IDEAS, PROJECT)
+
+    expect(clusters).toEqual([
+      { id: expect.any(String), name: 'Faster checkout', idea_ids: ['idea-1', 'idea-2'], color: CLUSTER_COLORS[0] },
+      { id: expect.any(String), name: 'Win-back', idea_ids: ['idea-3'], color: CLUSTER_COLORS[1] },
+    ])
+    expect(clusters[0].id).not.toBe(clusters[1].id)
+
+    const [url, options] = mockFetch.mock.calls[0]
+    expect(url).toBe(`${TEST_BASE_URL}/api/ai?action=cluster-ideas`)
+    const body = JSON.parse(options.body)
+    expect(body.projectName).toBe('Checkout revamp')
+    expect(body.ideas[0]).toEqual({ id: 'idea-1', title: 'One-click checkout', description: 'Saved cards' })
+  })
+
+  it('throws when the AI returns no clusters', async () => {
+    mockFetch.mockResolvedValueOnce(successResponse({ clusters: [] }))
+
+    await expect(service.clusterIdeas(IDEAS, PROJECT)).rejects.toThrow('AI returned no clusters -- please try again')
+  })
+
+  it('does not call the API with fewer than two ideas', async () => {
+    expect(await service.clusterIdeas([IDEAS[0]], PROJECT)).toEqual([])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
@@ -64,6 +64,7 @@ Object.defineProperty(global, 'fetch', {
 // ---------------------------------------------------------------------------
 
 import { IdeaGenerationService } from '../IdeaGenerationService'
+import { getMatrixCell, resolveMatrixConfig } from '../../../../utils/matrixQuadrant'
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -314,4 +315,18 @@ describe('IdeaGenerationService — ADR-0016 Step 4 failure paths', () => {
       expect(typeof result.priority).toBe('string')
     }
   )
+
+  it('generateMultipleIdeas places ideas on the project matrix', async () => {
+    mockFetch.mockResolvedValue(successResponse({ ideas: [{ ...VALID_IDEA_BODY.ideas[0], effort: 'low' }] }))
+    const matrixConfig = resolveMatrixConfig({
+      layout: '3x3',
+      x_axis: { label: 'Effort', low_label: 'Low', high_label: 'High', direction: 'descending' }
+    })
+
+    const [idea] = await service.generateMultipleIdeas('My Project', 'Description', 'SaaS', 1, 50, {}, matrixConfig)
+
+    // Effort runs right to left on this board, so low effort is the right column
+    expect(idea).toMatchObject({ x: 390, y: 130 })
+    expect(getMatrixCell(idea.x, idea.y, matrixConfig).id).toBe('strategic')
+  })
 })
@@ -0,0 +1,117 @@
+/**
+ * PlacementService — AI "place for me" suggestions
+ *
+ * - Sends axes and board scores, maps returned scores to matrix positions
+ * - Honours descending axes
+ * - A 200 without placements throws
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../../../utils/cookieUtils', () => ({
+  getCsrfToken: vi.fn(() => null),
+}))
+
+vi.mock('../../../../utils/logger')
+
+const mockFetch = vi.fn()
+Object.defineProperty(global, 'fetch', {
+  value: mockFetch,
+  writable: true,
+  configurable: true,
+})
+
+import { PlacementService } from '../PlacementService'
+import { resolveMatrixConfig } from '../../../../utils/matrixQuadrant'
+import type { IdeaCard } from '../../../../types'
+
+const TEST_BASE_URL = 'https://test-app.example'
+const PROJECT = { id: 'project-1', name: 'Checkout revamp', description: 'Reduce cart abandonment', project_type: 'software' as const }
+
+function makeIdea(overrides: Partial<IdeaCard> = {}): IdeaCard {
+  return {
+    id: 'idea-1',
+    content: 'One-click checkout',
+    details: 'Saved cards',
+    x: 260,
+    y: 260,
+    priority: 'moderate',
+    created_by: 'user-1',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+function successResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    json: async () => body,
+  }
+}
+
+describe('PlacementService', () => {
+  let service: PlacementService
+
+  beforeEach(() => {
+    Object.defineProperty(global, 'fetch', {
+      value: mockFetch,
+      writable: true,
+      configurable: true,
+    })
+    mockFetch.mockReset()
+    service = new PlacementService({ baseUrl: TEST_BASE_URL })
+  })
+
+  it('sends the board as scores and maps placements to positions', async () => {
+    mockFetch.mockResolvedValueOnce(successResponse({
+      placements: [
+        { id: 'idea-1', xScore: 25, yScore: 75, rationale: 'Cheap and lifts conversion' },
+        { id: 'not-requested', xScore: 50, yScore: 50, rationale: '' },
+      ],
+    }))
+    const idea = makeIdea()
+    const placed = makeIdea({ id: 'idea-2', content: 'Faster page loads', x: 390, y: 130 })
+
+    const result = await service.suggestPlacements([idea], [idea, placed], PROJECT)
+
+    expect(result).toEqual([
+      { ideaId: 'idea-1', x: 130, y: 130, quadrantLabel: 'Quick Wins', rationale: 'Cheap and lifts conversion' },
+    ])
+
+    const [url, options] = mockFetch.mock.calls[0]
+    expect(url).toBe(`${TEST_BASE_URL}/api/ai?action=place-ideas`)
+    const body = JSON.parse(options.body)
+    expect(body.ideas).toEqual([{ id: 'idea-1', title: 'One-click checkout', description: 'Saved cards' }])
+    expect(body.board).toEqual([{ title: 'Faster page loads', xScore: 75, yScore: 75 }])
+    expect(body.xAxis).toEqual({ label: 'Implementation Difficulty', low: 'Low Effort', high: 'High Effort' })
+  })
+
+  it('honours a descending axis', async () => {
+    mockFetch.mockResolvedValueOnce(successResponse({
+      placements: [{ id: 'idea-1', xScore: 25, yScore: 75, rationale: '' }],
+    }))
+    const config = resolveMatrixConfig({
+      x_axis: { label: 'Effort', low_label: 'Low', high_label: 'High', direction: 'descending' },
+    })
+
+    const [suggestion] = await service.suggestPlacements([makeIdea()], [], PROJECT, config)
+
+    expect(suggestion.x).toBe(390)
+    expect(suggestion.y).toBe(130)
+  })
+
+  it('throws when the AI returns no placements', async () => {
+    mockFetch.mockResolvedValueOnce(successResponse({ placements: [] }))
+
+    await expect(service.suggestPlacements([makeIdea()], [], PROJECT)).rejects.toThrow(
+      'AI returned no placements -- please try again'
+    )
+  })
+
+  it('does not call the API without ideas', async () => {
+    expect(await service.suggestPlacements([], [makeIdea()], PROJECT)).toEqual([])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
@@ -67,6 +67,8 @@ Object.defineProperty(global, 'fetch', {
 // ---------------------------------------------------------------------------
 
 import { RoadmapService } from '../RoadmapService'
+import { aiCache } from '../../../aiCache'
+import { DEFAULT_MATRIX_CONFIG, resolveMatrixConfig } from '../../../../utils/matrixQuadrant'
 import type { IdeaCard } from '../../../../types'
 
 // ---------------------------------------------------------------------------
@@ -284,4 +286,82 @@ describe('RoadmapService — ADR-0016 Step 5 failure paths', () => {
       expect(hasMethod).toBe(false)
     }
   )
+
+  it('sends each idea\'s cluster as its theme', async () => {
+    mockFetch.mockResolvedValue(successResponse(VALID_ROADMAP_BODY))
+    const clusters = [{ id: 'cluster-1', name: 'Onboarding', idea_ids: ['idea-1'], color: '#2563eb' }]
+
+    await service.generateRoadmap(
+      [makeIdea(), makeIdea({ id: 'idea-2', content: 'Unclustered idea' })],
+      'My Project',
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      clusters
+    )
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.ideas[0].theme).toBe('Onboarding')
+    expect(body.ideas[1]).not.toHaveProperty('theme')
+  })
+
+  it('caches roadmaps per matrix configuration', async () => {
+    mockFetch.mockResolvedValue(successResponse(VALID_ROADMAP_BODY))
+    const threeByThree = resolveMatrixConfig({ layout: '3x3' })
+
+    await service.generateRoadmap([makeIdea()], 'My Project', undefined, undefined, DEFAULT_MATRIX_CONFIG)
+    await service.generateRoadmap([makeIdea()], 'My Project', undefined, undefined, threeByThree)
+
+    const [first, second] = vi.mocked(aiCache.getOrSet).mock.calls.map(([key]) => key)
+    expect(first).not.toBe(second)
+  })
+
+  it('regenerates one phase, naming the others', async () => {
+    const roadmap = {
+      ...VALID_ROADMAP_BODY.roadmap,
+      roadmapAnalysis: {
+        totalDuration: '3 months',
+        phases: [
+          VALID_ROADMAP_BODY.roadmap.roadmapAnalysis.phases[0],
+          { ...VALID_ROADMAP_BODY.roadmap.roadmapAnalysis.phases[0], phase: 'Phase 2' },
+        ],
+      },
+    }
+    const revised = { ...roadmap.roadmapAnalysis.phases[1], description: 'Revised' }
+    mockFetch.mockResolvedValue(successResponse({ phase: revised }))
+
+    const phase = await service.regeneratePhase(roadmap, 1, [makeIdea()], 'My Project', 'software', 'Add a pilot')
+
+    expect(phase).toEqual(revised)
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.regeneratePhase).toEqual({ phase: roadmap.roadmapAnalysis.phases[1], otherPhases: ['Phase 1'], instructions: 'Add a pilot' })
+    await expect(service.regeneratePhase(roadmap, 5, [], 'My Project')).rejects.toThrow('Roadmap has no phase 6')
+  })
+  it('asks for refresh changes with the changed and removed ideas', async () => {
+    const changes = [{ id: 'change-0', action: 'remove', phaseIndex: 0, epicIndex: 0, reason: 'Idea deleted' }]
+    mockFetch.mockResolvedValue(successResponse({ changes }))
+    const { roadmapAnalysis } = VALID_ROADMAP_BODY.roadmap
+
+    const result = await service.refreshRoadmap(
+      { roadmapAnalysis },
+      [makeIdea()],
+      [makeIdea()],
+      ['Old idea'],
+      'My Project',
+      'software',
+      undefined,
+      'project-1'
+    )
+
+    expect(result).toEqual(changes)
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.projectId).toBe('project-1')
+    expect(body.refresh.roadmap).toEqual({ roadmapAnalysis })
+    expect(body.refresh.changedIdeas).toEqual([{ title: makeIdea().content, description: makeIdea().details }])
+    expect(body.refresh.removedIdeas).toEqual(['Old idea'])
+
+    mockFetch.mockResolvedValue(successResponse({}))
+    await expect(service.refreshRoadmap({ roadmapAnalysis }, [], [], [], 'My Project')).rejects.toThrow('AI returned no roadmap changes')
+  })
 })
@@ -0,0 +1,124 @@
+/**
+ * SimilarityService — duplicate detection
+ *
+ * - Groups ideas by embedding cosine similarity, caching embeddings
+ * - Falls back to lexical similarity when offline or the call fails
+ * - A caller abort is rethrown, not swallowed by the fallback
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('../../../../utils/cookieUtils', () => ({
+  getCsrfToken: vi.fn(() => null),
+}))
+
+vi.mock('../../../../utils/logger')
+
+const mockFetch = vi.fn()
+Object.defineProperty(global, 'fetch', {
+  value: mockFetch,
+  writable: true,
+  configurable: true,
+})
+
+import { SimilarityService } from '../SimilarityService'
+import type { IdeaCard } from '../../../../types'
+
+const TEST_BASE_URL = 'https://test-app.example'
+
+function makeIdea(id: string, content: string): IdeaCard {
+  return {
+    id,
+    content,
+    details: '',
+    x: 260,
+    y: 260,
+    priority: 'moderate',
+    created_by: 'user-1',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  }
+}
+
+const IDEAS = [
+  makeIdea('idea-1', 'Add a dark mode'),
+  makeIdea('idea-2', 'Export reports to PDF'),
+  makeIdea('idea-3', 'Dark mode for the app'),
+]
+
+function successResponse(body: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    json: async () => body,
+  }
+}
+
+describe('SimilarityService', () => {
+  let service: SimilarityService
+
+  beforeEach(() => {
+    Object.defineProperty(global, 'fetch', {
+      value: mockFetch,
+      writable: true,
+      configurable: true,
+    })
+    mockFetch.mockReset()
+    service = new SimilarityService({ baseUrl: TEST_BASE_URL })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('groups ideas by embedding similarity and reuses cached embeddings', async () => {
+    mockFetch.mockResolvedValueOnce(successResponse({
+      embeddings: [[1, 0, 0], [0, 1, 0], [0.95, 0.05, 0]],
+    }))
+
+    const result = await service.findDuplicates(IDEAS, 'project-1')
+
+    expect(result.method).toBe('embedding')
+    expect(result.groups).toHaveLength(1)
+    expect(result.groups[0].ideaIds).toEqual(['idea-1', 'idea-3'])
+
+    const [url, options] = mockFetch.mock.calls[0]
+    expect(url).toBe(`${TEST_BASE_URL}/api/ai?action=embed-ideas`)
+    expect(JSON.parse(options.body)).toEqual({
+      texts: ['Add a dark mode', 'Export reports to PDF', 'Dark mode for the app'],
+      projectId: 'project-1',
+    })
+
+    await service.findDuplicates(IDEAS, 'project-1')
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('falls back to lexical similarity when the embedding call fails', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+
+    const result = await service.findDuplicates(IDEAS)
+
+    expect(result.method).toBe('lexical')
+    expect(result.groups.map((group) => group.ideaIds)).toEqual([['idea-1', 'idea-3']])
+  })
+
+  it('uses lexical similarity without calling the API when offline', async () => {
+    vi.stubGlobal('navigator', { onLine: false })
+
+    const result = await service.findSimilarIdeas({ content: 'Dark mode', details: '' }, IDEAS)
+
+    expect(result.method).toBe('lexical')
+    expect(result.matches.map((match) => match.ideaId)).toEqual(['idea-1', 'idea-3'])
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('rethrows when the caller aborts', async () => {
+    const controller = new AbortController()
+    mockFetch.mockImplementationOnce(() => {
+      controller.abort()
+      return Promise.reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }))
+    })
+
+    await expect(service.findDuplicates(IDEAS, undefined, controller.signal)).rejects.toThrow('aborted')
+  })
+})
@@ -3,6 +3,13 @@
  * Maps impact/effort coordinates to Design Matrix quadrants
  */
 
+import {
+  DEFAULT_MATRIX_CONFIG,
+  axisValuesToPosition,
+  getMatrixCell,
+  type MatrixConfig
+} from '../../../utils/matrixQuadrant'
+
 /**
  * Get quadrant name from position coordinates
  * @param x - Horizontal position (-100 to 100)
@@ -63,3 +70,52 @@ export function mapToQuadrant(effort: string, impact: string): string {
   // Money Pit: High effort, Low impact
   return 'Money Pit'
 }
+
+// ---------------------------------------------------------------------------
+// Project-configured matrices (stored 0-520 coordinates)
+// ---------------------------------------------------------------------------
+
+const LEVEL_VALUES: Record<string, number> = {
+  'very low': 0.1,
+  'low': 0.25,
+  'medium': 0.5,
+  'high': 0.75,
+  'very high': 0.9
+}
+
+function levelToValue(level: string): number {
+  return LEVEL_VALUES[level.trim().toLowerCase()] ?? 0.5
+}
+
+/**
+ * Get the project's quadrant label for a stored matrix position
+ * @param x - Stored horizontal position (0 to 520)
+ * @param y - Stored vertical position (0 to 520)
+ * @param config - Resolved project matrix configuration
+ * @returns Quadrant label as configured for the project
+ */
+export function getConfiguredQuadrantLabel(
+  x: number,
+  y: number,
+  config: MatrixConfig = DEFAULT_MATRIX_CONFIG
+): string {
+  return getMatrixCell(x, y, config).label
+}
+
+/**
+ * Map effort and impact levels to a stored matrix position.
+ * Effort is placed on the configured horizontal axis and impact on the vertical
+ * axis; axis direction is honoured, so the result lands in the cell a human
+ * would pick on that project's board.
+ * @param effort - Effort level (Very Low/Low/Medium/High/Very High)
+ * @param impact - Impact level (Very Low/Low/Medium/High/Very High)
+ * @param config - Resolved project matrix configuration
+ * @returns Stored position { x, y } in the 0-520 range
+ */
+export function getMatrixPositionForLevels(
+  effort: string,
+  impact: string,
+  config: MatrixConfig = DEFAULT_MATRIX_CONFIG
+): { x: number; y: number } {
+  return axisValuesToPosition(levelToValue(effort), levelToValue(impact), config)
+}
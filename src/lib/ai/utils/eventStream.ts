@@ -0,0 +1,74 @@
+/**
+ * Server-Sent Event Reader
+ * Parses the SSE stream written by the AI endpoints in streaming mode
+ * (api/_lib/ai/utils/streaming.ts)
+ */
+
+/**
+ * One event read from an AI stream
+ */
+export interface AiStreamEvent {
+  event: string
+  data: unknown
+}
+
+/**
+ * Partial-result callbacks accepted by the streaming AI methods. Passing
+ * `onPartial` switches the request to streaming mode.
+ */
+export interface AiStreamOptions<P> {
+  signal?: AbortSignal
+  onPartial?: (partial: P) => void
+}
+
+/**
+ * Parse one `event:` / `data:` block. Returns null for comments and blocks
+ * without data.
+ */
+export function parseEventBlock(block: string): AiStreamEvent | null {
+  let event = 'message'
+  const data: string[] = []
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim()
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+  }
+  if (data.length === 0) return null
+  try {
+    return { event, data: JSON.parse(data.join('\n')) }
+  } catch {
+    return { event, data: data.join('\n') }
+  }
+}
+
+/**
+ * Read an SSE body to the end, calling `onEvent` for every event.
+ * Rejects with an AbortError when the request is cancelled.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AiStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const parsed = parseEventBlock(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (parsed) onEvent(parsed)
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+    const rest = parseEventBlock(buffer + decoder.decode())
+    if (rest) onEvent(rest)
+  } finally {
+    reader.releaseLock()
+  }
+}
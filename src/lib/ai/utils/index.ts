@@ -7,3 +7,5 @@ export * from './QuadrantMapper'
 export * from './PriorityMapper'
 export * from './AiConstants'
 export * from './InsightsValidator'
+export * from './eventStream'
+export * from './fileContentGuard'
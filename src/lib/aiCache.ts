@@ -230,8 +230,13 @@ export class AICache {
    * Generate cache key from parameters
    */
   static generateKey(method: string, params: any): string {
-    // Create deterministic key from method and parameters
-    const paramStr = JSON.stringify(params, Object.keys(params).sort())
+    // Create deterministic key from method and parameters. Keys are sorted at
+    // every level, so nested params (idea lists, matrix settings) count too
+    const paramStr = JSON.stringify(params, (_key, value) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.keys(value).sort().map((key) => [key, value[key]]))
+        : value
+    )
     const hash = this.simpleHash(paramStr)
     return `${method}:${hash}`
   }
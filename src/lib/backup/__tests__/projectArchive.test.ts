@@ -0,0 +1,185 @@
+/**
+ * projectArchive tests — building, validating and planning restores of
+ * project backups
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { IdeaCard, Project } from '../../../types'
+import type { BrainstormSession } from '../../../types/BrainstormSession'
+import {
+  PROJECT_ARCHIVE_VERSION,
+  createProjectArchive,
+  parseProjectArchive,
+  planProjectRestore,
+  type ProjectArchive
+} from '../projectArchive'
+
+const project = {
+  id: 'project-1',
+  name: 'Launch',
+  project_type: 'software',
+  status: 'active',
+  visibility: 'private',
+  priority_level: 'high',
+  owner_id: 'owner',
+  settings: { idea_tags: ['Mobile'] },
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+} as Project
+
+const idea = (id: string, overrides: Partial<IdeaCard> = {}): IdeaCard => ({
+  id,
+  content: `Idea ${id}`,
+  details: '',
+  x: 100,
+  y: 100,
+  priority: 'moderate',
+  created_by: 'user-1',
+  created_at: '2026-01-02T00:00:00.000Z',
+  updated_at: '2026-01-02T00:00:00.000Z',
+  ...overrides
+})
+
+const session = {
+  id: 'session-1',
+  project_id: 'project-1',
+  facilitator_id: 'user-1',
+  name: 'Kickoff',
+  status: 'active',
+  join_code: 'ABCD-1234',
+  access_token: 'secret-token',
+  expires_at: '2026-01-03T00:00:00.000Z',
+  max_participants: 50,
+  allow_anonymous: true,
+  require_approval: false,
+  enable_voting: true,
+  voting_scheme: 'ranked',
+  vote_budget: 3,
+  created_at: '2026-01-02T00:00:00.000Z',
+  updated_at: '2026-01-02T00:00:00.000Z'
+} as BrainstormSession
+
+const buildArchive = (): ProjectArchive => createProjectArchive({
+  project,
+  ideas: [idea('a', { editing_by: 'user-2', session_id: 'session-1' } as Partial<IdeaCard>), idea('b', { tags: ['Mobile'] })],
+  roadmaps: [{ id: 'roadmap-1', version: 3, name: 'Roadmap v3', roadmap_data: { items: [{ ideaId: 'a' }] }, created_by: 'user-1', ideas_analyzed: 2, created_at: '2026-01-04T00:00:00.000Z' }],
+  insights: [],
+  files: [{
+    id: 'file-1', project_id: 'project-1', name: 'brief.pdf', original_name: 'brief.pdf', file_type: 'pdf', file_size: 10,
+    mime_type: 'application/pdf', storage_path: 'p/brief.pdf', file_data: 'base64', uploaded_by: 'user-1',
+    created_at: '2026-01-02T00:00:00.000Z', updated_at: '2026-01-02T00:00:00.000Z'
+  }],
+  sessions: [session],
+  votes: [
+    { session_id: 'session-1', idea_id: 'a', user_id: 'user-1', weight: 2 },
+    { session_id: 'session-1', idea_id: 'b', user_id: 'user-2', weight: 1 }
+  ]
+}, 'user-1', new Date('2026-02-01T00:00:00.000Z'))
+
+let counter = 0
+const nextId = () => `new-${++counter}`
+
+describe('projectArchive', () => {
+  it('leaves out locks, session secrets and file contents', () => {
+    const archive = buildArchive()
+
+    expect(archive.version).toBe(PROJECT_ARCHIVE_VERSION)
+    expect(archive.ideas[0]).not.toHaveProperty('editing_by')
+    expect(archive.ideas[0].session_id).toBe('session-1')
+    expect(archive.brainstorm_sessions[0]).not.toHaveProperty('access_token')
+    expect(archive.brainstorm_sessions[0]).not.toHaveProperty('join_code')
+    expect(archive.files[0]).not.toHaveProperty('file_data')
+  })
+
+  it('keeps vote weights and each session\'s voting settings', () => {
+    const archive = buildArchive()
+
+    expect(archive.brainstorm_sessions[0]).toMatchObject({
+      voting_scheme: 'ranked', vote_budget: 3, allow_multiple_votes: false, vote_visibility: 'live'
+    })
+    expect(archive.votes.map((vote) => vote.weight)).toEqual([2, 1])
+  })
+
+  describe('parseProjectArchive', () => {
+    it('accepts an archive it produced', () => {
+      const result = parseProjectArchive(JSON.stringify(buildArchive()))
+      expect(result.ok).toBe(true)
+    })
+
+    it('reads version 1 archives with default voting settings and weights', () => {
+      const archive = buildArchive() as unknown as Record<string, any>
+      archive.version = 1
+      for (const field of ['voting_scheme', 'vote_budget', 'allow_multiple_votes', 'vote_visibility']) {
+        delete archive.brainstorm_sessions[0][field]
+      }
+      for (const vote of archive.votes) delete vote.weight
+
+      const result = parseProjectArchive(JSON.stringify(archive))
+      if (!result.ok) throw new Error(result.errors.join('; '))
+      expect(result.archive.brainstorm_sessions[0]).toMatchObject({
+        voting_scheme: 'dots', vote_budget: 5, allow_multiple_votes: false, vote_visibility: 'live'
+      })
+      expect(result.archive.votes.map((vote) => vote.weight)).toEqual([1, 1])
+    })
+
+    it('rejects other files and newer format versions', () => {
+      expect(parseProjectArchive('not json')).toEqual({ ok: false, errors: ['File is not valid JSON'] })
+      expect(parseProjectArchive('{"ideas": []}')).toEqual({ ok: false, errors: ['File is not a project backup'] })
+
+      const newer = { ...buildArchive(), version: PROJECT_ARCHIVE_VERSION + 1 }
+      const result = parseProjectArchive(JSON.stringify(newer))
+      expect(result.ok).toBe(false)
+    })
+
+    it('reports each invalid field', () => {
+      const archive = buildArchive() as unknown as Record<string, any>
+      archive.ideas[1].x = 'left'
+      archive.ideas[1].priority = 'urgent'
+      archive.ideas.push({ ...archive.ideas[0] })
+      delete archive.votes
+
+      const result = parseProjectArchive(JSON.stringify(archive))
+      expect(result).toEqual({
+        ok: false,
+        errors: [
+          'ideas[1].x must be number',
+          'ideas[1].priority "urgent" is not a known priority',
+          'ideas[2].id "a" is duplicated',
+          'votes must be an array'
+        ]
+      })
+    })
+  })
+
+  describe('planProjectRestore', () => {
+    it('gives every row a new ID and rewrites references', () => {
+      const plan = planProjectRestore(buildArchive(), { projectId: 'target', userId: 'user-1', createIdeaId: nextId, createId: nextId })
+
+      const newA = plan.ideaIds.get('a')!
+      const newSession = plan.sessions[0].id
+      expect(newA).not.toBe('a')
+      expect(plan.ideas.every((row) => row.project_id === 'target')).toBe(true)
+      expect(plan.ideas[0].session_id).toBe(newSession)
+      expect(plan.sessions[0].status).toBe('completed')
+      expect(plan.roadmaps[0]).toMatchObject({ version: 1, project_id: 'target', roadmap_data: { items: [{ ideaId: newA }] } })
+      expect(plan.votes).toEqual([{ session_id: newSession, idea_id: newA, user_id: 'user-1', weight: 2 }])
+      expect(plan.sessions[0]).toMatchObject({ voting_scheme: 'ranked', vote_budget: 3 })
+    })
+
+    it('reports ideas that already exist, other people\'s votes and missing files', () => {
+      const plan = planProjectRestore(buildArchive(), {
+        projectId: 'target',
+        userId: 'user-1',
+        existingIdeas: [{ id: 'existing-b', content: ' idea B ' }],
+        versionOffset: { roadmaps: 4 },
+        createIdeaId: nextId,
+        createId: nextId
+      })
+
+      expect(plan.ideas).toHaveLength(1)
+      expect(plan.ideaIds.get('b')).toBe('existing-b')
+      expect(plan.roadmaps[0].version).toBe(5)
+      expect(plan.conflicts.map((conflict) => conflict.kind)).toEqual(['duplicate_idea', 'vote_not_restored', 'file_not_restored'])
+    })
+  })
+})
@@ -0,0 +1,473 @@
+/**
+ * Project archive — versioned JSON backup of a whole project
+ *
+ * An archive holds the project with its settings, ideas, roadmaps, insights,
+ * file metadata, brainstorm sessions and votes. This module is pure: it
+ * builds archives, validates untrusted archive files and plans a restore
+ * (new IDs, rewritten references, conflicts). ProjectBackupService does the
+ * reading and writing.
+ *
+ * Version 2 added vote weights and each session's voting settings. Version 1
+ * archives still parse: their votes count as weight 1 and their sessions get
+ * the default voting settings.
+ */
+
+import type { IdeaCard, Project, ProjectFile, ProjectSettings } from '../../types'
+import type { BrainstormSession } from '../../types/BrainstormSession'
+import { DEFAULT_VOTING_CONFIG, VOTE_VISIBILITIES, VOTING_SCHEMES } from '../../utils/votingSchemes'
+
+export const PROJECT_ARCHIVE_FORMAT = 'prioritas-project-archive'
+export const PROJECT_ARCHIVE_VERSION = 2
+
+// Stop collecting validation errors after this many; the file is broken either way
+const MAX_VALIDATION_ERRORS = 20
+
+export type ArchivedProject = Pick<
+  Project,
+  | 'id' | 'name' | 'description' | 'project_type' | 'status' | 'visibility' | 'priority_level'
+  | 'start_date' | 'target_date' | 'budget' | 'team_size' | 'tags' | 'settings' | 'created_at'
+>
+
+export type ArchivedIdea = Pick<
+  IdeaCard,
+  'id' | 'content' | 'details' | 'x' | 'y' | 'priority' | 'created_by' | 'created_at' | 'updated_at' | 'is_collapsed' | 'scores' | 'tags'
+> & {
+  session_id?: string | null
+}
+
+export interface ArchivedRoadmap {
+  id: string
+  version: number
+  name: string
+  roadmap_data: unknown
+  created_by: string
+  ideas_analyzed: number
+  created_at: string
+}
+
+export interface ArchivedInsight {
+  id: string
+  version: number
+  name: string
+  insights_data: unknown
+  created_by: string
+  ideas_analyzed: number
+  created_at: string
+}
+
+// File contents live in storage and are not part of the archive
+export type ArchivedFile = Pick<
+  ProjectFile,
+  'id' | 'name' | 'original_name' | 'file_type' | 'file_size' | 'mime_type' | 'storage_path' | 'content_preview' | 'uploaded_by' | 'created_at'
+>
+
+// Join codes and access tokens are secrets; a restore issues new ones
+export type ArchivedSession = Pick<
+  BrainstormSession,
+  | 'id' | 'name' | 'description' | 'status' | 'facilitator_id' | 'max_participants' | 'allow_anonymous'
+  | 'require_approval' | 'enable_voting' | 'time_limit_minutes' | 'created_at' | 'started_at' | 'ended_at'
+  | 'voting_scheme' | 'vote_budget' | 'allow_multiple_votes' | 'vote_visibility'
+>
+
+export interface ArchivedVote {
+  session_id: string
+  idea_id: string
+  user_id: string
+  /** Dots, rank, thumb or points per the session's voting_scheme */
+  weight: number
+}
+
+export interface ProjectArchive {
+  format: typeof PROJECT_ARCHIVE_FORMAT
+  version: number
+  exported_at: string
+  exported_by?: string
+  project: ArchivedProject
+  ideas: ArchivedIdea[]
+  roadmaps: ArchivedRoadmap[]
+  insights: ArchivedInsight[]
+  files: ArchivedFile[]
+  brainstorm_sessions: ArchivedSession[]
+  votes: ArchivedVote[]
+}
+
+export interface ProjectArchiveContents {
+  project: Project
+  ideas: Array<IdeaCard & { session_id?: string | null }>
+  roadmaps: ArchivedRoadmap[]
+  insights: ArchivedInsight[]
+  files: ProjectFile[]
+  sessions: BrainstormSession[]
+  votes: ArchivedVote[]
+}
+
+export type ProjectArchiveParseResult =
+  | { ok: true; archive: ProjectArchive }
+  | { ok: false; errors: string[] }
+
+export type ProjectRestoreConflictKind =
+  | 'project_renamed'
+  | 'duplicate_idea'
+  | 'missing_reference'
+  | 'vote_not_restored'
+  | 'file_not_restored'
+  | 'setting_reset'
+
+export interface ProjectRestoreConflict {
+  kind: ProjectRestoreConflictKind
+  message: string
+  /** ID in the archive the conflict refers to, if any */
+  sourceId?: string
+}
+
+export interface ProjectRestoreOptions {
+  /** Project the archive is restored into */
+  projectId: string
+  /** User performing the restore; becomes facilitator and author of derived rows */
+  userId: string
+  /** Ideas already in the target project (merging into an existing project) */
+  existingIdeas?: ReadonlyArray<Pick<IdeaCard, 'id' | 'content'>>
+  /** Highest roadmap/insight versions already in the target project */
+  versionOffset?: { roadmaps?: number; insights?: number }
+  createIdeaId: () => string
+  createId: () => string
+}
+
+export interface ProjectRestorePlan {
+  settings: ProjectSettings | undefined
+  ideas: Array<Omit<ArchivedIdea, 'session_id'> & { project_id: string; session_id: string | null }>
+  roadmaps: Array<Omit<ArchivedRoadmap, 'created_at'> & { project_id: string }>
+  insights: Array<Omit<ArchivedInsight, 'created_at'> & { project_id: string }>
+  sessions: Array<Omit<ArchivedSession, 'facilitator_id'> & { project_id: string; facilitator_id: string }>
+  votes: ArchivedVote[]
+  /** Archive idea ID → restored (or matched existing) idea ID */
+  ideaIds: Map<string, string>
+  conflicts: ProjectRestoreConflict[]
+}
+
+// A session's voting settings, with defaults for any that are not set
+function sessionVotingSettings(
+  session: Pick<BrainstormSession, 'voting_scheme' | 'vote_budget' | 'allow_multiple_votes' | 'vote_visibility'>
+) {
+  const scheme = session.voting_scheme ?? DEFAULT_VOTING_CONFIG.scheme
+  return {
+    voting_scheme: scheme,
+    vote_budget: session.vote_budget ?? VOTING_SCHEMES[scheme].defaultBudget,
+    allow_multiple_votes: session.allow_multiple_votes ?? false,
+    vote_visibility: session.vote_visibility ?? 'live'
+  }
+}
+
+/**
+ * Build an archive from rows read out of the database, dropping locks,
+ * secrets and file contents.
+ */
+export function createProjectArchive(
+  contents: ProjectArchiveContents,
+  exportedBy?: string,
+  exportedAt: Date = new Date()
+): ProjectArchive {
+  const { project } = contents
+  return {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exported_at: exportedAt.toISOString(),
+    exported_by: exportedBy,
+    project: {
+      id: project.id,
+      name: project.name,
+      description: project.description,
+      project_type: project.project_type,
+      status: project.status,
+      visibility: project.visibility,
+      priority_level: project.priority_level,
+      start_date: project.start_date,
+      target_date: project.target_date,
+      budget: project.budget,
+      team_size: project.team_size,
+      tags: project.tags,
+      settings: project.settings,
+      created_at: project.created_at
+    },
+    ideas: contents.ideas.map((idea) => ({
+      id: idea.id,
+      content: idea.content,
+      details: idea.details ?? '',
+      x: idea.x,
+      y: idea.y,
+      priority: idea.priority,
+      created_by: idea.created_by ?? null,
+      created_at: idea.created_at,
+      updated_at: idea.updated_at,
+      is_collapsed: idea.is_collapsed ?? false,
+      scores: idea.scores ?? null,
+      tags: idea.tags ?? [],
+      session_id: idea.session_id ?? null
+    })),
+    roadmaps: contents.roadmaps.map(({ id, version, name, roadmap_data, created_by, ideas_analyzed, created_at }) => ({
+      id, version, name, roadmap_data, created_by, ideas_analyzed, created_at
+    })),
+    insights: contents.insights.map(({ id, version, name, insights_data, created_by, ideas_analyzed, created_at }) => ({
+      id, version, name, insights_data, created_by, ideas_analyzed, created_at
+    })),
+    files: contents.files.map((file) => ({
+      id: file.id,
+      name: file.name,
+      original_name: file.original_name,
+      file_type: file.file_type,
+      file_size: file.file_size,
+      mime_type: file.mime_type,
+      storage_path: file.storage_path,
+      content_preview: file.content_preview,
+      uploaded_by: file.uploaded_by,
+      created_at: file.created_at
+    })),
+    brainstorm_sessions: contents.sessions.map((session) => ({
+      id: session.id,
+      name: session.name,
+      description: session.description,
+      status: session.status,
+      facilitator_id: session.facilitator_id,
+      max_participants: session.max_participants,
+      allow_anonymous: session.allow_anonymous,
+      require_approval: session.require_approval,
+      enable_voting: session.enable_voting,
+      time_limit_minutes: session.time_limit_minutes,
+      created_at: session.created_at,
+      started_at: session.started_at,
+      ended_at: session.ended_at,
+      ...sessionVotingSettings(session)
+    })),
+    votes: contents.votes.map(({ session_id, idea_id, user_id, weight }) => ({ session_id, idea_id, user_id, weight }))
+  }
+}
+
+export function projectArchiveFileName(archive: ProjectArchive): string {
+  const slug = archive.project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project'
+  return `${slug}-backup-${archive.exported_at.slice(0, 10)}.json`
+}
+
+type FieldCheck = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'string?' | 'number?' | 'object?' | 'array?' | 'boolean?'
+
+const ROW_SCHEMAS: Record<'ideas' | 'roadmaps' | 'insights' | 'files' | 'brainstorm_sessions' | 'votes', Record<string, FieldCheck>> = {
+  ideas: { id: 'string', content: 'string', x: 'number', y: 'number', priority: 'string', created_at: 'string', tags: 'array?', scores: 'object?' },
+  roadmaps: { id: 'string', version: 'number', name: 'string', roadmap_data: 'object', ideas_analyzed: 'number?' },
+  insights: { id: 'string', version: 'number', name: 'string', insights_data: 'object', ideas_analyzed: 'number?' },
+  files: { id: 'string', name: 'string', original_name: 'string', file_type: 'string', mime_type: 'string' },
+  brainstorm_sessions: {
+    id: 'string', name: 'string', status: 'string', enable_voting: 'boolean?',
+    voting_scheme: 'string?', vote_budget: 'number?', allow_multiple_votes: 'boolean?', vote_visibility: 'string?'
+  },
+  votes: { session_id: 'string', idea_id: 'string', user_id: 'string', weight: 'number?' }
+}
+
+const IDEA_PRIORITIES = new Set(['low', 'moderate', 'high', 'strategic', 'innovation'])
+const SESSION_STATUSES = new Set(['active', 'paused', 'completed', 'archived'])
+const VOTE_VISIBILITY_VALUES = new Set(Object.keys(VOTE_VISIBILITIES))
+
+function checkField(value: unknown, check: FieldCheck): boolean {
+  const optional = check.endsWith('?')
+  if (value === undefined || value === null) return optional
+  switch (check.replace('?', '')) {
+    case 'number': return typeof value === 'number' && Number.isFinite(value)
+    case 'array': return Array.isArray(value)
+    case 'object': return typeof value === 'object' && !Array.isArray(value)
+    default: return typeof value === check.replace('?', '')
+  }
+}
+
+/**
+ * Parse and validate an archive file. Returns every problem found (up to a
+ * limit) so the user can tell a wrong file from a damaged one.
+ */
+export function parseProjectArchive(text: string): ProjectArchiveParseResult {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON'] }
+  }
+
+  if (!raw || typeof raw !== 'object' || (raw as { format?: unknown }).format !== PROJECT_ARCHIVE_FORMAT) {
+    return { ok: false, errors: ['File is not a project backup'] }
+  }
+  const data = raw as Record<string, unknown>
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    return { ok: false, errors: ['Backup has no valid format version'] }
+  }
+  if (data.version > PROJECT_ARCHIVE_VERSION) {
+    return { ok: false, errors: [`Backup format version ${data.version} is newer than this app supports (${PROJECT_ARCHIVE_VERSION})`] }
+  }
+
+  const errors: string[] = []
+  const project = data.project as Record<string, unknown> | undefined
+  if (!project || typeof project !== 'object') {
+    errors.push('project is missing')
+  } else {
+    if (!checkField(project.name, 'string') || !(project.name as string).trim()) errors.push('project.name must be a non-empty string')
+    if (!checkField(project.settings, 'object?')) errors.push('project.settings must be an object')
+  }
+
+  for (const [collection, schema] of Object.entries(ROW_SCHEMAS)) {
+    const rows = data[collection]
+    if (!Array.isArray(rows)) {
+      errors.push(`${collection} must be an array`)
+      continue
+    }
+    const ids = new Set<string>()
+    rows.forEach((row, index) => {
+      if (!row || typeof row !== 'object') {
+        errors.push(`${collection}[${index}] must be an object`)
+        return
+      }
+      const record = row as Record<string, unknown>
+      for (const [field, check] of Object.entries(schema)) {
+        if (!checkField(record[field], check)) errors.push(`${collection}[${index}].${field} must be ${check.replace('?', '')}`)
+      }
+      if (typeof record.id === 'string') {
+        if (ids.has(record.id)) errors.push(`${collection}[${index}].id "${record.id}" is duplicated`)
+        ids.add(record.id)
+      }
+      if (collection === 'ideas' && typeof record.priority === 'string' && !IDEA_PRIORITIES.has(record.priority)) {
+        errors.push(`ideas[${index}].priority "${record.priority}" is not a known priority`)
+      }
+      if (collection === 'brainstorm_sessions' && typeof record.status === 'string' && !SESSION_STATUSES.has(record.status)) {
+        errors.push(`brainstorm_sessions[${index}].status "${record.status}" is not a known status`)
+      }
+      if (collection === 'brainstorm_sessions' && typeof record.voting_scheme === 'string' && !(record.voting_scheme in VOTING_SCHEMES)) {
+        errors.push(`brainstorm_sessions[${index}].voting_scheme "${record.voting_scheme}" is not a known voting scheme`)
+      }
+      if (collection === 'brainstorm_sessions' && typeof record.vote_visibility === 'string' && !VOTE_VISIBILITY_VALUES.has(record.vote_visibility)) {
+        errors.push(`brainstorm_sessions[${index}].vote_visibility "${record.vote_visibility}" is not a known vote visibility`)
+      }
+    })
+  }
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, MAX_VALIDATION_ERRORS)
+    if (errors.length > shown.length) shown.push(`…and ${errors.length - shown.length} more`)
+    return { ok: false, errors: shown }
+  }
+  return { ok: true, archive: upgradeProjectArchive(data as unknown as ProjectArchive) }
+}
+
+// Fill in what older versions did not record, so restores always see the current shape
+function upgradeProjectArchive(archive: ProjectArchive): ProjectArchive {
+  return {
+    ...archive,
+    brainstorm_sessions: archive.brainstorm_sessions.map((session) => ({ ...session, ...sessionVotingSettings(session) })),
+    votes: archive.votes.map((vote) => ({ ...vote, weight: vote.weight ?? 1 }))
+  }
+}
+
+// Rewrite archive idea IDs wherever they appear as values in roadmap/insight JSON
+function remapIdeaReferences(value: unknown, ideaIds: ReadonlyMap<string, string>): unknown {
+  if (typeof value === 'string') return ideaIds.get(value) ?? value
+  if (Array.isArray(value)) return value.map((item) => remapIdeaReferences(item, ideaIds))
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, remapIdeaReferences(item, ideaIds)]))
+  }
+  return value
+}
+
+const normalizeContent = (content: string) => content.trim().toLowerCase()
+
+/**
+ * Plan restoring an archive into a project: give every row a new ID, rewrite
+ * references to match, and list what could not be restored as-is.
+ */
+export function planProjectRestore(archive: ProjectArchive, options: ProjectRestoreOptions): ProjectRestorePlan {
+  const { projectId, userId, existingIdeas = [], versionOffset = {}, createIdeaId, createId } = options
+  const conflicts: ProjectRestoreConflict[] = []
+
+  // A running blind rating round refers to ratings that are not in the archive
+  let settings = archive.project.settings
+  if (settings?.blind_rating) {
+    const { blind_rating: _blindRating, ...rest } = settings
+    settings = rest
+    conflicts.push({ kind: 'setting_reset', message: 'The blind rating round was not restored; start a new round if needed' })
+  }
+
+  const sessionIds = new Map(archive.brainstorm_sessions.map((session) => [session.id, createId()]))
+  const sessions = archive.brainstorm_sessions.map((session) => ({
+    ...session,
+    id: sessionIds.get(session.id)!,
+    project_id: projectId,
+    facilitator_id: userId,
+    // Restored sessions are history; nobody can join them
+    status: session.status === 'active' || session.status === 'paused' ? 'completed' as const : session.status
+  }))
+
+  // Merging into a project that already has an idea with the same text keeps the existing idea
+  const existingByContent = new Map(existingIdeas.map((idea) => [normalizeContent(idea.content), idea.id]))
+  const ideaIds = new Map<string, string>()
+  const ideas: ProjectRestorePlan['ideas'] = []
+  for (const idea of archive.ideas) {
+    const existingId = existingByContent.get(normalizeContent(idea.content))
+    if (existingId) {
+      ideaIds.set(idea.id, existingId)
+      conflicts.push({ kind: 'duplicate_idea', message: `"${idea.content}" already exists in this project and was skipped`, sourceId: idea.id })
+      continue
+    }
+    const id = createIdeaId()
+    ideaIds.set(idea.id, id)
+    const { session_id: sessionId, ...rest } = idea
+    ideas.push({
+      ...rest,
+      id,
+      project_id: projectId,
+      session_id: sessionId ? sessionIds.get(sessionId) ?? null : null
+    })
+  }
+
+  const roadmaps = [...archive.roadmaps]
+    .sort((a, b) => a.version - b.version)
+    .map(({ created_at: _createdAt, ...roadmap }, index) => ({
+      ...roadmap,
+      id: createId(),
+      project_id: projectId,
+      version: (versionOffset.roadmaps ?? 0) + index + 1,
+      created_by: userId,
+      ideas_analyzed: roadmap.ideas_analyzed ?? 0,
+      roadmap_data: remapIdeaReferences(roadmap.roadmap_data, ideaIds)
+    }))
+
+  const insights = [...archive.insights]
+    .sort((a, b) => a.version - b.version)
+    .map(({ created_at: _createdAt, ...insight }, index) => ({
+      ...insight,
+      id: createId(),
+      project_id: projectId,
+      version: (versionOffset.insights ?? 0) + index + 1,
+      created_by: userId,
+      ideas_analyzed: insight.ideas_analyzed ?? 0,
+      insights_data: remapIdeaReferences(insight.insights_data, ideaIds)
+    }))
+
+  // Vote policies only let users cast their own votes, so other people's votes can't be recreated
+  const votes: ArchivedVote[] = []
+  let othersVotes = 0
+  for (const vote of archive.votes) {
+    const sessionId = sessionIds.get(vote.session_id)
+    const ideaId = ideaIds.get(vote.idea_id)
+    if (!sessionId || !ideaId) {
+      conflicts.push({ kind: 'missing_reference', message: 'A vote refers to an idea or session that is not in the backup and was skipped', sourceId: vote.idea_id })
+    } else if (vote.user_id !== userId) {
+      othersVotes++
+    } else {
+      votes.push({ session_id: sessionId, idea_id: ideaId, user_id: userId, weight: vote.weight })
+    }
+  }
+  if (othersVotes > 0) {
+    conflicts.push({ kind: 'vote_not_restored', message: `${othersVotes} vote(s) cast by other people were not restored` })
+  }
+
+  if (archive.files.length > 0) {
+    conflicts.push({
+      kind: 'file_not_restored',
+      message: `${archive.files.length} file(s) are listed in the backup without their contents; upload them again`
+    })
+  }
+
+  return { settings, ideas, roadmaps, insights, sessions, votes, ideaIds, conflicts }
+}
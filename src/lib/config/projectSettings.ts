@@ -0,0 +1,132 @@
+/**
+ * Project Settings Defaults
+ *
+ * `projects.settings` is a nullable jsonb column, so most projects have no
+ * settings at all. These helpers fill in defaults when reading and merge
+ * partial updates when writing, so callers never persist a half-formed object.
+ */
+
+import type { BlindRatingSettings, IdeaCluster, MatrixViewSettings, Project, ProjectSettings, SavedIdeaFilter, User } from '../../types'
+
+export const DEFAULT_MATRIX_VIEW_SETTINGS: MatrixViewSettings = {
+  show_grid: true,
+  snap_to_grid: false,
+  grid_size: 20
+}
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  auto_save_interval: 5,
+  enable_real_time_collaboration: true,
+  default_idea_priority: 'moderate',
+  matrix_view: DEFAULT_MATRIX_VIEW_SETTINGS,
+  notifications: {
+    idea_updates: true,
+    new_collaborators: true,
+    roadmap_changes: true
+  },
+  archive_completed_after: 0
+}
+
+/**
+ * Read project settings with defaults applied.
+ */
+export function getProjectSettings(settings?: Partial<ProjectSettings> | null): ProjectSettings {
+  return {
+    ...DEFAULT_PROJECT_SETTINGS,
+    ...settings,
+    matrix_view: {
+      ...DEFAULT_MATRIX_VIEW_SETTINGS,
+      ...settings?.matrix_view
+    },
+    notifications: {
+      ...DEFAULT_PROJECT_SETTINGS.notifications,
+      ...settings?.notifications
+    }
+  }
+}
+
+/**
+ * Merge a matrix_view patch into existing settings, returning a complete
+ * ProjectSettings object ready for `updateProject`.
+ */
+export function withMatrixViewSettings(
+  settings: Partial<ProjectSettings> | null | undefined,
+  matrixView: Partial<MatrixViewSettings>
+): ProjectSettings {
+  const current = getProjectSettings(settings)
+  return {
+    ...current,
+    matrix_view: {
+      ...current.matrix_view,
+      ...matrixView
+    }
+  }
+}
+
+/**
+ * Set or clear the blind rating round, returning complete ProjectSettings
+ * ready for `updateProject`. Pass null to end the round.
+ */
+export function withBlindRatingSettings(
+  settings: Partial<ProjectSettings> | null | undefined,
+  blindRating: BlindRatingSettings | null
+): ProjectSettings {
+  return {
+    ...getProjectSettings(settings),
+    blind_rating: blindRating
+  }
+}
+
+/**
+ * Replace the project's tag vocabulary, returning complete ProjectSettings
+ * ready for `updateProject`.
+ */
+export function withProjectTagSettings(
+  settings: Partial<ProjectSettings> | null | undefined,
+  ideaTags: string[]
+): ProjectSettings {
+  return {
+    ...getProjectSettings(settings),
+    idea_tags: ideaTags
+  }
+}
+
+/**
+ * Replace the project's saved matrix filters, returning complete
+ * ProjectSettings ready for `updateProject`.
+ */
+export function withSavedIdeaFilters(
+  settings: Partial<ProjectSettings> | null | undefined,
+  savedFilters: SavedIdeaFilter[]
+): ProjectSettings {
+  return {
+    ...getProjectSettings(settings),
+    saved_idea_filters: savedFilters
+  }
+}
+
+/**
+ * Replace the project's idea clusters, returning complete ProjectSettings
+ * ready for `updateProject`.
+ */
+export function withIdeaClusters(
+  settings: Partial<ProjectSettings> | null | undefined,
+  clusters: IdeaCluster[]
+): ProjectSettings {
+  return {
+    ...getProjectSettings(settings),
+    idea_clusters: clusters
+  }
+}
+
+/**
+ * Whether a user can save the project's settings. Only the owner and admins
+ * may update `projects`, so collaborators get these controls read-only.
+ */
+export function canEditProjectSettings(
+  project: Pick<Project, 'owner_id'> | null | undefined,
+  user: Pick<User, 'id' | 'role'> | null | undefined
+): boolean {
+  if (!project || !user) return false
+  return project.owner_id === user.id || user.role === 'admin' || user.role === 'super_admin'
+}
@@ -0,0 +1,120 @@
+/**
+ * Undo History Test Suite
+ *
+ * Tests command inversion, conflict detection and the undo/redo stacks
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { IdeaCard } from '../../../types'
+import { UndoHistory, findConflict, hasUndoableChanges, invertCommand, type MatrixCommand } from '../undoHistory'
+
+const idea = (overrides: Partial<IdeaCard> = {}): IdeaCard => ({
+  id: 'idea-1',
+  content: 'Idea',
+  details: '',
+  x: 100,
+  y: 100,
+  priority: 'moderate',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides
+})
+
+const move: MatrixCommand = { type: 'update', before: idea(), after: idea({ x: 300 }) }
+
+describe('undoHistory', () => {
+  describe('invertCommand', () => {
+    it('swaps creates and deletes and reverses updates', () => {
+      expect(invertCommand({ type: 'create', idea: idea() })).toEqual({ type: 'delete', idea: idea() })
+      expect(invertCommand({ type: 'delete', idea: idea() })).toEqual({ type: 'create', idea: idea() })
+      expect(invertCommand(move)).toEqual({ type: 'update', before: idea({ x: 300 }), after: idea() })
+    })
+
+    it('inverts batches in reverse order', () => {
+      const batch: MatrixCommand = {
+        type: 'batch',
+        label: 'Bulk delete',
+        commands: [{ type: 'delete', idea: idea({ id: 'a' }) }, { type: 'delete', idea: idea({ id: 'b' }) }]
+      }
+      const inverse = invertCommand(batch)
+      expect(inverse.type === 'batch' && inverse.commands.map(c => c.type === 'create' && c.idea.id)).toEqual(['b', 'a'])
+    })
+  })
+
+  describe('findConflict', () => {
+    it('allows a command when ideas match the expected state', () => {
+      expect(findConflict(invertCommand(move), [idea({ x: 300 })])).toBeNull()
+    })
+
+    it('reports ideas a collaborator changed or deleted since', () => {
+      expect(findConflict(invertCommand(move), [idea({ x: 300, priority: 'high' })])).toBe('idea-1')
+      expect(findConflict(invertCommand(move), [])).toBe('idea-1')
+    })
+
+    it('ignores fields undo does not restore', () => {
+      expect(findConflict(invertCommand(move), [idea({ x: 300, is_collapsed: true, updated_at: 'later' })])).toBeNull()
+    })
+
+    it('reports a recreate whose idea already exists', () => {
+      expect(findConflict({ type: 'create', idea: idea() }, [idea()])).toBe('idea-1')
+    })
+  })
+
+  it('hasUndoableChanges ignores untracked fields', () => {
+    expect(hasUndoableChanges(idea(), idea({ updated_at: 'later' }))).toBe(false)
+    expect(hasUndoableChanges(idea(), idea({ content: 'Renamed' }))).toBe(true)
+    expect(hasUndoableChanges(idea({ tags: ['Q3'] }), idea({ tags: ['Q3'] }))).toBe(false)
+    expect(hasUndoableChanges(idea(), idea({ tags: ['Q3'] }))).toBe(true)
+  })
+
+  it('hasUndoableChanges compares scores by value', () => {
+    const scores = { ice: { impact: 5, confidence: 6, ease: 7 } }
+    expect(hasUndoableChanges(idea({ scores }), idea({ scores: { ice: { ease: 7, impact: 5, confidence: 6 } } }))).toBe(false)
+    expect(hasUndoableChanges(idea({ scores: null }), idea())).toBe(false)
+    expect(hasUndoableChanges(idea({ scores }), idea({ scores: { ice: { ...scores.ice, ease: 3 } } }))).toBe(true)
+  })
+
+  describe('UndoHistory', () => {
+    it('moves commands between the undo and redo stacks', () => {
+      const history = new UndoHistory()
+      history.record(move)
+
+      expect(history.takeUndo()).toEqual(invertCommand(move))
+      expect(history.canUndo).toBe(false)
+      expect(history.canRedo).toBe(true)
+
+      expect(history.takeRedo()).toEqual(move)
+      expect(history.canUndo).toBe(true)
+      expect(history.canRedo).toBe(false)
+    })
+
+    it('clears redo history when a new action is recorded', () => {
+      const history = new UndoHistory()
+      history.record(move)
+      history.takeUndo()
+      history.record({ type: 'create', idea: idea({ id: 'idea-2' }) })
+      expect(history.canRedo).toBe(false)
+    })
+
+    it('keeps at most `limit` commands', () => {
+      const history = new UndoHistory(2)
+      history.record({ type: 'create', idea: idea({ id: 'a' }) })
+      history.record({ type: 'create', idea: idea({ id: 'b' }) })
+      history.record({ type: 'create', idea: idea({ id: 'c' }) })
+      history.takeUndo()
+      history.takeUndo()
+      expect(history.canUndo).toBe(false)
+    })
+
+    it('remaps ids of recreated ideas across both stacks', () => {
+      const history = new UndoHistory()
+      history.record(move)
+      history.record({ type: 'delete', idea: idea() })
+      history.takeUndo()
+      history.remapIdeaId('idea-1', 'idea-9')
+
+      expect(history.peekRedo()).toEqual({ type: 'delete', idea: idea({ id: 'idea-9' }) })
+      expect(history.peekUndo()).toEqual({ type: 'update', before: idea({ id: 'idea-9' }), after: idea({ id: 'idea-9', x: 300 }) })
+    })
+  })
+})
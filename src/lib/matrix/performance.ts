@@ -56,6 +56,7 @@ export function areIdeasEqual(prev: IdeaCard, next: IdeaCard): boolean {
     prev.priority === next.priority &&
     prev.is_collapsed === next.is_collapsed &&
     prev.editing_by === next.editing_by &&
+    (prev.tags ?? []).join('\n') === (next.tags ?? []).join('\n') &&
     // Compare matrix_position if it exists
     (prev.matrix_position?.x === next.matrix_position?.x) &&
     (prev.matrix_position?.y === next.matrix_position?.y) &&
@@ -0,0 +1,212 @@
+/**
+ * Matrix Undo/Redo History
+ *
+ * Command-based history of the current user's own matrix edits. Each command
+ * records enough state to be inverted: creates and deletes keep the full
+ * idea, updates (edits and moves) keep the before/after snapshots, and bulk
+ * operations group several commands so they undo in one step.
+ *
+ * Only local actions are recorded, so remote edits arriving over realtime are
+ * never undone. Before a command is applied, `findConflict` checks that the
+ * ideas it touches still look the way this user left them; if a collaborator
+ * has changed or deleted one since, the command is dropped instead of
+ * overwriting their work.
+ */
+
+import type { IdeaCard } from '../../types'
+
+export type MatrixCommand =
+  | { type: 'create'; idea: IdeaCard }
+  | { type: 'update'; before: IdeaCard; after: IdeaCard }
+  | { type: 'delete'; idea: IdeaCard }
+  | { type: 'batch'; label: string; commands: MatrixCommand[] }
+
+/** Fields an update command restores; locks, collapse state and timestamps are not history */
+export const UNDOABLE_FIELDS = ['content', 'details', 'x', 'y', 'priority', 'tags', 'scores'] as const
+
+export type UndoableField = typeof UNDOABLE_FIELDS[number]
+
+export const UNDO_HISTORY_LIMIT = 100
+
+/** Outcome of an undo or redo request */
+export type HistoryStepResult = 'applied' | 'conflict' | 'empty'
+
+export function pickUndoableFields(idea: IdeaCard): Pick<IdeaCard, UndoableField> {
+  return {
+    content: idea.content,
+    details: idea.details,
+    x: idea.x,
+    y: idea.y,
+    priority: idea.priority,
+    tags: idea.tags ?? [],
+    scores: idea.scores ?? null
+  }
+}
+
+function sameTags(a: IdeaCard['tags'], b: IdeaCard['tags']): boolean {
+  const left = a ?? []
+  const right = b ?? []
+  return left.length === right.length && left.every((tag, i) => tag === right[i])
+}
+
+// Scores are jsonb: compare by value, ignoring key order and unset inputs
+function sameScores(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return (a ?? null) === (b ?? null)
+  }
+  const left = a as Record<string, unknown>
+  const right = b as Record<string, unknown>
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)])
+  return [...keys].every(key => sameScores(left[key], right[key]))
+}
+
+function matchesSnapshot(current: IdeaCard, snapshot: IdeaCard): boolean {
+  return UNDOABLE_FIELDS.every(field => {
+    if (field === 'tags') return sameTags(current.tags, snapshot.tags)
+    if (field === 'scores') return sameScores(current.scores, snapshot.scores)
+    return current[field] === snapshot[field]
+  })
+}
+
+/** Whether `after` differs from `before` in any field an update restores */
+export function hasUndoableChanges(before: IdeaCard, after: IdeaCard): boolean {
+  return !matchesSnapshot(after, before)
+}
+
+/**
+ * The command that reverses `command`. Batches reverse in the opposite order.
+ */
+export function invertCommand(command: MatrixCommand): MatrixCommand {
+  switch (command.type) {
+    case 'create':
+      return { type: 'delete', idea: command.idea }
+    case 'delete':
+      return { type: 'create', idea: command.idea }
+    case 'update':
+      return { type: 'update', before: command.after, after: command.before }
+    case 'batch':
+      return {
+        type: 'batch',
+        label: command.label,
+        commands: command.commands.map(invertCommand).reverse()
+      }
+  }
+}
+
+/**
+ * Flatten batches into the primitive commands to execute, in order.
+ */
+export function flattenCommand(command: MatrixCommand): Exclude<MatrixCommand, { type: 'batch' }>[] {
+  return command.type === 'batch' ? command.commands.flatMap(flattenCommand) : [command]
+}
+
+/**
+ * Id of the first idea that no longer matches what `command` expects to find,
+ * or null when the command can be applied safely.
+ */
+export function findConflict(command: MatrixCommand, ideas: ReadonlyArray<IdeaCard>): string | null {
+  const byId = new Map(ideas.map(idea => [idea.id, idea]))
+
+  for (const step of flattenCommand(command)) {
+    if (step.type === 'create') {
+      if (byId.has(step.idea.id)) return step.idea.id
+      continue
+    }
+    const expected = step.type === 'update' ? step.before : step.idea
+    const current = byId.get(expected.id)
+    if (!current || !matchesSnapshot(current, expected)) return expected.id
+  }
+  return null
+}
+
+function remapCommand(command: MatrixCommand, fromId: string, toId: string): MatrixCommand {
+  const remap = (idea: IdeaCard): IdeaCard => (idea.id === fromId ? { ...idea, id: toId } : idea)
+  switch (command.type) {
+    case 'create':
+    case 'delete':
+      return { ...command, idea: remap(command.idea) }
+    case 'update':
+      return { ...command, before: remap(command.before), after: remap(command.after) }
+    case 'batch':
+      return { ...command, commands: command.commands.map(c => remapCommand(c, fromId, toId)) }
+  }
+}
+
+export class UndoHistory {
+  private undoStack: MatrixCommand[] = []
+  private redoStack: MatrixCommand[] = []
+
+  constructor(private readonly limit = UNDO_HISTORY_LIMIT) {}
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * Record a new user action. Starts a new branch, so redo history is cleared.
+   */
+  record(command: MatrixCommand): void {
+    if (command.type === 'batch' && command.commands.length === 0) return
+    this.undoStack.push(command)
+    if (this.undoStack.length > this.limit) this.undoStack.shift()
+    this.redoStack = []
+  }
+
+  peekUndo(): MatrixCommand | undefined {
+    return this.undoStack[this.undoStack.length - 1]
+  }
+
+  peekRedo(): MatrixCommand | undefined {
+    return this.redoStack[this.redoStack.length - 1]
+  }
+
+  /**
+   * Move the latest command to the redo stack and return its inverse to apply.
+   */
+  takeUndo(): MatrixCommand | undefined {
+    const command = this.undoStack.pop()
+    if (!command) return undefined
+    this.redoStack.push(command)
+    return invertCommand(command)
+  }
+
+  /**
+   * Move the latest undone command back to the undo stack and return it to apply.
+   */
+  takeRedo(): MatrixCommand | undefined {
+    const command = this.redoStack.pop()
+    if (!command) return undefined
+    this.undoStack.push(command)
+    return command
+  }
+
+  /** Drop the latest undo command, e.g. after it conflicted with a remote edit */
+  discardUndo(): void {
+    this.undoStack.pop()
+  }
+
+  /** Drop the latest redo command */
+  discardRedo(): void {
+    this.redoStack.pop()
+  }
+
+  /**
+   * Re-point every command at a new id. Recreating a deleted idea gives it a
+   * fresh server id, and earlier commands must follow it.
+   */
+  remapIdeaId(fromId: string, toId: string): void {
+    if (fromId === toId) return
+    this.undoStack = this.undoStack.map(c => remapCommand(c, fromId, toId))
+    this.redoStack = this.redoStack.map(c => remapCommand(c, fromId, toId))
+  }
+
+  clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+  }
+}
@@ -1,11 +1,14 @@
 /**
  * Multi-Modal File Processor for AI Integration
- * Extracts meaningful content from all file types for AI analysis
+ * Extracts meaningful content from all file types for AI analysis.
+ * Uploaded file text is untrusted: it is cleaned and capped on the way in and
+ * fenced in <untrusted_file> tags in the prompt context.
  */
 
-import { ProjectFile } from '../types'
+import { ProjectFile, ContentGuardFinding } from '../types'
 import { FileService } from './fileService'
 import { logger } from '../utils/logger'
+import { guardFileContent, fenceUntrusted, UNTRUSTED_CONTENT_INSTRUCTION } from './ai/utils/fileContentGuard'
 
 export interface ProcessedFileContent {
   name: string
@@ -16,6 +19,7 @@ export interface ProcessedFileContent {
   extractedText?: string
   audioTranscript?: string
   metadata?: any
+  contentFindings?: ContentGuardFinding[]
 }
 
 export interface MultiModalContext {
@@ -83,12 +87,20 @@ export class MultiModalProcessor {
   /**
    * Process individual file based on type
    */
-  private static async processIndividualFile(file: ProjectFile): Promise<ProcessedFileContent> {
+  private static async processIndividualFile(uploaded: ProjectFile): Promise<ProcessedFileContent> {
+    const guarded = guardFileContent(uploaded.content_preview || '')
+    if (guarded.findings.length > 0) {
+      logger.warn(`⚠️ Possible prompt injection in file ${uploaded.name}:`, guarded.findings.map(f => f.kind))
+    }
+    // Everything below reads the cleaned preview
+    const file: ProjectFile = { ...uploaded, content_preview: guarded.text }
+
     const baseContent: ProcessedFileContent = {
       name: file.name,
       type: file.file_type,
       originalMimeType: file.mime_type,
       content: file.content_preview || '',
+      contentFindings: guarded.findings,
       metadata: {
         size: file.file_size,
         uploadedAt: file.created_at,
@@ -292,13 +304,13 @@ export class MultiModalProcessor {
       return ''
     }
     
-    const sections = []
+    const sections = [UNTRUSTED_CONTENT_INSTRUCTION]
     
     // Text documents section
     if (context.textDocuments.length > 0) {
       sections.push(`UPLOADED DOCUMENTS (${context.textDocuments.length} files):`)
       context.textDocuments.forEach(doc => {
-        sections.push(`• ${doc.name}: ${doc.content.substring(0, 300)}${doc.content.length > 300 ? '...' : ''}`)
+        sections.push(`• ${doc.name}:\n${fenceUntrusted(doc.name, `${doc.content.substring(0, 300)}${doc.content.length > 300 ? '...' : ''}`)}`)
       })
     }
     
@@ -308,7 +320,7 @@ export class MultiModalProcessor {
       context.images.forEach(img => {
         sections.push(`• ${img.name}: ${img.visualDescription}`)
         if (img.extractedText) {
-          sections.push(`  Text extracted: ${img.extractedText}`)
+          sections.push(`  Text extracted:\n${fenceUntrusted(img.name, img.extractedText)}`)
         }
       })
     }
@@ -319,7 +331,7 @@ export class MultiModalProcessor {
       context.videos.forEach(vid => {
         sections.push(`• ${vid.name}: ${vid.visualDescription}`)
         if (vid.audioTranscript) {
-          sections.push(`  Audio content: ${vid.audioTranscript}`)
+          sections.push(`  Audio content:\n${fenceUntrusted(vid.name, vid.audioTranscript)}`)
         }
       })
     }
@@ -328,7 +340,7 @@ export class MultiModalProcessor {
     if (context.audio.length > 0) {
       sections.push(`\nUPLOADED AUDIO (${context.audio.length} files):`)
       context.audio.forEach(aud => {
-        sections.push(`• ${aud.name}: ${aud.audioTranscript}`)
+        sections.push(`• ${aud.name}:\n${fenceUntrusted(aud.name, aud.audioTranscript ?? '')}`)
       })
     }
     
@@ -11,6 +11,8 @@
 
 import { logger } from '../../logging'
 import { loadPdfMake } from '../loaders/PdfLibraryLoader'
+import { formatAxisLabel, type MatrixConfig } from '../../../utils/matrixQuadrant'
+import type { Content, TableCell } from 'pdfmake/interfaces'
 
 const insightsLogger = logger.withContext({ component: 'GraphicalInsightsPdfGenerator' })
 
@@ -38,6 +40,14 @@ interface RiskAssessment {
   opportunities?: string[]
 }
 
+/**
+ * Matrix layout and per-quadrant idea counts for the distribution section
+ */
+export interface MatrixPdfSummary {
+  config: MatrixConfig
+  counts: Record<string, number>
+}
+
 interface InsightsReport {
   executiveSummary?: string
   keyInsights?: InsightItem[]
@@ -688,12 +698,72 @@ function createPrioritySection(recommendations: PriorityRecommendations): any[]
   return sections
 }
 
+/**
+ * Create the matrix distribution section using the project's quadrant configuration
+ */
+function createMatrixDistribution(summary: MatrixPdfSummary): Content[] {
+  const { config, counts } = summary
+  const rows: TableCell[][] = []
+
+  for (let row = 0; row < config.divisions; row++) {
+    rows.push(config.quadrants.slice(row * config.divisions, (row + 1) * config.divisions).map(quadrant => ({
+      stack: [
+        {
+          text: quadrant.label,
+          fontSize: 11,
+          bold: true,
+          color: quadrant.color
+        },
+        ...(quadrant.description ? [{
+          text: quadrant.description,
+          fontSize: 9,
+          color: LuxColors.graphite500,
+          margin: [0, 2, 0, 0]
+        }] : []),
+        {
+          text: `${counts[quadrant.id] || 0} ideas`,
+          fontSize: 18,
+          bold: true,
+          color: LuxColors.graphite800,
+          margin: [0, 6, 0, 0]
+        }
+      ],
+      fillColor: LuxColors.graphite100,
+      margin: [12, 10, 12, 10]
+    })))
+  }
+
+  return [
+    {
+      text: `${formatAxisLabel(config.yAxis, 'y')}  ·  ${formatAxisLabel(config.xAxis, 'x')}`,
+      fontSize: 10,
+      color: LuxColors.graphite500,
+      margin: [0, 0, 0, 10]
+    },
+    {
+      table: {
+        widths: Array(config.divisions).fill('*'),
+        body: rows
+      },
+      layout: {
+        hLineWidth: () => 2,
+        vLineWidth: () => 2,
+        hLineColor: () => LuxColors.surface,
+        vLineColor: () => LuxColors.surface
+      },
+      margin: [0, 0, 0, 20],
+      unbreakable: true
+    }
+  ]
+}
+
 /**
  * Generate premium graphical insights PDF
  */
 export async function exportGraphicalInsightsToPDF(
   insights: InsightsReport,
-  projectName?: string
+  projectName?: string,
+  matrixSummary?: MatrixPdfSummary
 ): Promise<void> {
   try {
     insightsLogger.info('Generating graphical insights PDF', { projectName })
@@ -704,6 +774,18 @@ export async function exportGraphicalInsightsToPDF(
       // Graphical header with metrics dashboard
       ...createGraphicalHeader(projectName || 'Project Insights', insights),
 
+      // Matrix distribution using the project's axes and quadrants
+      ...(matrixSummary ? [
+        {
+          text: 'Matrix Distribution',
+          fontSize: 24,
+          bold: true,
+          color: LuxColors.graphite800,
+          margin: [0, 20, 0, 6]
+        },
+        ...createMatrixDistribution(matrixSummary)
+      ] : []),
+
       // Key Insights section
       ...(insights.keyInsights && insights.keyInsights.length > 0 ? [
         {
@@ -9,3 +9,4 @@
 export { exportRoadmapToPDF } from './RoadmapPdfGenerator'
 export { exportInsightsToPDFProfessional } from './ProfessionalInsightsPdfGenerator'
 export { exportGraphicalInsightsToPDF } from './GraphicalInsightsPdfGenerator'
+export type { MatrixPdfSummary } from './GraphicalInsightsPdfGenerator'
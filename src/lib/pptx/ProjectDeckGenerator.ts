@@ -0,0 +1,372 @@
+/**
+ * Project Deck Generator
+ * Builds a PowerPoint (PPTX) deck for a project
+ *
+ * The deck contains:
+ * - Title slide
+ * - Matrix slide drawn from the project's quadrants, with a legend
+ * - One slide per quadrant listing its ideas (continued when long)
+ * - Insight summary slides from InsightsData
+ * - Roadmap overview and one slide per phase from RoadmapData
+ *
+ * Colors and type sizes come from the PDF styling tokens so decks match the
+ * PDF exports. pptxgenjs is loaded on demand.
+ *
+ * @module ProjectDeckGenerator
+ */
+
+import type PptxGenJS from 'pptxgenjs'
+import type { IdeaCard, InsightsData, Project, RoadmapData } from '../../types'
+import { PdfColors, PdfTypography } from '../pdf/config/PdfStyles'
+import {
+  DEFAULT_MATRIX_CONFIG,
+  MATRIX_COORDINATE_MAX,
+  formatAxisLabel,
+  getCellBounds,
+  getMatrixCell,
+  type MatrixConfig
+} from '../../utils/matrixQuadrant'
+import { logger } from '../logging'
+
+const deckLogger = logger.withContext({ component: 'ProjectDeckGenerator' })
+
+/**
+ * Everything the deck is built from; insights and roadmap slides are left
+ * out when their data is missing
+ */
+export interface ProjectDeckInput {
+  project: Pick<Project, 'name' | 'description'>
+  ideas: IdeaCard[]
+  matrixConfig?: MatrixConfig
+  insights?: InsightsData | null
+  roadmap?: RoadmapData | null
+  generatedAt?: Date
+}
+
+// 16:9 widescreen, 13.33 x 7.5 inches
+const SLIDE_WIDTH = 13.33
+const MARGIN = 0.6
+const CONTENT_WIDTH = SLIDE_WIDTH - MARGIN * 2
+
+// Slides are read from a distance; scale the PDF type sizes up
+const TYPE_SCALE = 1.5
+const FONT_FACE = 'Helvetica'
+
+// Rows per quadrant slide before it continues on the next one
+const IDEAS_PER_SLIDE = 12
+
+const PRIORITY_ORDER: Record<IdeaCard['priority'], number> = {
+  strategic: 0,
+  high: 1,
+  innovation: 2,
+  moderate: 3,
+  low: 4
+}
+
+/** pptxgenjs wants hex colors without the leading # */
+const hex = (color: string) => color.replace('#', '').toUpperCase()
+
+const rgbHex = (rgb: readonly [number, number, number]) =>
+  rgb.map((channel) => channel.toString(16).padStart(2, '0')).join('').toUpperCase()
+
+const pt = (size: number) => Math.round(size * TYPE_SCALE)
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text)
+
+const COLORS = {
+  brand: hex(PdfColors.brand.primary),
+  heading: hex(PdfColors.gray.gray900),
+  body: hex(PdfColors.gray.gray700),
+  muted: hex(PdfColors.gray.medium),
+  panel: hex(PdfColors.backgrounds.light),
+  border: rgbHex(PdfColors.gray.border),
+  white: hex(PdfColors.base.white)
+}
+
+function addSlideTitle(slide: PptxGenJS.Slide, title: string, subtitle?: string) {
+  slide.addText(title, {
+    x: MARGIN, y: 0.35, w: CONTENT_WIDTH, h: 0.6,
+    fontFace: FONT_FACE, fontSize: pt(PdfTypography.sizes.h1Large), bold: true, color: COLORS.heading
+  })
+  slide.addShape('rect', { x: MARGIN, y: 0.98, w: 1.2, h: 0.05, fill: { color: COLORS.brand }, line: { color: COLORS.brand } })
+  if (subtitle) {
+    slide.addText(subtitle, {
+      x: MARGIN, y: 1.05, w: CONTENT_WIDTH, h: 0.4,
+      fontFace: FONT_FACE, fontSize: pt(PdfTypography.sizes.bodySmall), color: COLORS.muted
+    })
+  }
+}
+
+function addBulletList(slide: PptxGenJS.Slide, items: string[], box: { x: number; y: number; w: number; h: number }, heading?: string) {
+  const rows: PptxGenJS.TextProps[] = []
+  if (heading) {
+    rows.push({ text: heading, options: { bold: true, color: COLORS.heading, fontSize: pt(PdfTypography.sizes.h3Small), breakLine: true } })
+  }
+  if (items.length === 0) {
+    rows.push({ text: 'None listed', options: { italic: true, color: COLORS.muted } })
+  }
+  items.forEach((item) => rows.push({ text: item, options: { bullet: true, breakLine: true } }))
+  slide.addText(rows, {
+    ...box,
+    valign: 'top',
+    fontFace: FONT_FACE, fontSize: pt(PdfTypography.sizes.bodySmall), color: COLORS.body,
+    paraSpaceAfter: 4
+  })
+}
+
+/**
+ * Order ideas by quadrant (in the configured cell order), then priority, and
+ * number them; the numbers tie matrix dots to quadrant slide rows
+ */
+function groupIdeasByQuadrant(ideas: IdeaCard[], config: MatrixConfig) {
+  const groups = new Map(config.quadrants.map((quadrant) => [quadrant.id, [] as IdeaCard[]]))
+  ideas.forEach((idea) => groups.get(getMatrixCell(idea.x, idea.y, config).id)?.push(idea))
+
+  const numbers = new Map<string, number>()
+  let next = 1
+  for (const group of groups.values()) {
+    group.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.content.localeCompare(b.content))
+    group.forEach((idea) => numbers.set(idea.id, next++))
+  }
+  return { groups, numbers }
+}
+
+function addTitleSlide(pptx: PptxGenJS, input: ProjectDeckInput, generatedAt: Date) {
+  const slide = pptx.addSlide()
+  slide.background = { color: COLORS.brand }
+  slide.addText(input.project.name, {
+    x: MARGIN, y: 2.3, w: CONTENT_WIDTH, h: 1.2,
+    fontFace: FONT_FACE, fontSize: pt(PdfTypography.sizes.h1Large) + 8, bold: true, color: COLORS.white
+  })
+  if (input.project.description) {
+    slide.addText(truncate(input.project.description, 280), {
+      x: MARGIN, y: 3.5, w: CONTENT_WIDTH * 0.8, h: 1.2, valign: 'top',
+      fontFace: FONT_FACE, fontSize: pt(PdfTypography.sizes.body), color: COLORS.white
+    })
+  }
+  slide.addText(
+    `${input.ideas.length} ideas • ${generatedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`,
+    {
+      x: MARGIN, y: 6.4, w: CONTENT_WIDTH, h: 0.4,
+      fontFace: FONT_FACE, fontSize: pt(PdfTypography.sizes.bodySmall), color: COLORS.white
+    }
+  )
+}
+
+function addMatrixSlide(pptx: PptxGenJS, ideas: IdeaCard[], config: MatrixConfig, numbers: Map<string, number>) {
+  const slide = pptx.addSlide()
+  addSlideTitle(slide, 'Priority Matrix', `${config.yAxis.label} vs. ${config.xAxis.label}`)
+
+  const size = 5.4
+  const left = MARGIN + 0.5
+  const top = 1.55
+  const scale = size / MATRIX_COORDINATE_MAX
+
+  config.quadrants.forEach((quadrant) => {
+    const bounds = getCellBounds(quadrant.id, config)!
+    slide.addShape('rect', {
+      x: left + bounds.minX * scale,
+      y: top + bounds.minY * scale,
+      w: (bounds.maxX - bounds.minX) * scale,
+      h: (bounds.maxY - bounds.minY) * scale,
+      fill: { color: hex(quadrant.color), transparency: 85 },
+      line: { color: COLORS.border, width: 0.75 }
+    })
+    slide.addText(quadrant.label, {
+      x: left + bounds.minX * scale + 0.05,
+      y: top + bounds.minY * scale + 0.05,
+      w: (bounds.maxX - bounds.minX) * scale - 0.1,
+      h: 0.3,
+      fontFace: FONT_FACE, fontSize: pt(PdfTypography.sizes.micro), bold: true, color: hex(quadrant.color)
+    })
+  })
+
+  slide.addText(formatAxisLabel(config.xAxis, 'x'), {
+    x: left, y: top + size + 0.05, w: size, h: 0.3, align: 'center',
+    fontFace: FONT_FACE, fontSize: pt(PdfTypography.sizes.caption), color: COLORS.muted
+  })
+  slide.addText(formatAxisLabel(config.yAxis, 'y'), {
+    x: left - size / 2 - 0.3, y: top + size / 2 - 0.15, w: size, h: 0.3, align: 'center', rotate: 270,
+    fontFace: FONT_FACE, fontSize: pt(PdfTypography.sizes.caption), color: COLORS.muted
+  })
+
+  const dot = 0.26
+  ideas.forEach((idea) => {
+    const quadrant = getMatrixCell(idea.x, idea.y, config)
+    const x = Math.min(Math.max(idea.x, 0), MATRIX_COORDINATE_MAX) * scale
+    const y = Math.min(Math.max(idea.y, 0), MATRIX_COORDINATE_MAX) * scale
+    slide.addText(String(numbers.get(idea.id) ?? ''), {
+      shape: 'ellipse',
+      x: left + x - dot / 2, y: top + y - dot / 2, w: dot, h: dot,
+      align: 'center', valign: 'middle', margin: 0,
+      fill: { color: hex(quadrant.color) }, line: { color: COLORS.white, width: 0.75 },
+      fontFace: FONT_FACE, fontSize: PdfTypography.sizes.micro, bold: true, color: COLORS.white
+    })
+  })
+
+  // Legend
+  const legendLeft = left + size + 0.8
+  const counts = new Map<string, number>()
+  ideas.forEach((idea) => {
+    const id = getMatrixCell(idea.x, idea.y, config).id
+    counts.set(id, (counts.get(id) ?? 0) + 1)
+  })
+  config.quadrants.forEach((quadrant, index) => {
+    const y = top + index * (config.divisions === 3 ? 0.58 : 0.9)
+    slide.addShape('rect', { x: legendLeft, y: y + 0.05, w: 0.25, h: 0.25, fill: { color: hex(quadrant.color) }, line: { color: hex(quadrant.color) } })
+    slide.addText([
+      { text: `${quadrant.label} (${counts.get(quadrant.id) ?? 0})`, options: { bold: true, color: COLORS.heading, breakLine: true } },
+      { text: quadrant.description ?? '', options: { color: COLORS.muted, fontSize: pt(PdfTypography.sizes.micro) } }
+    ], {
+      x: legendLeft + 0.4, y, w: SLIDE_WIDTH - MARGIN - legendLeft - 0.4, h: config.divisions === 3 ? 0.55 : 0.8, valign: 'top',
+      fontFace: FONT_FACE, fontSize: pt(PdfTypography.sizes.caption)
+    })
+  })
+}
+
+function addQuadrantSlides(pptx: PptxGenJS, config: MatrixConfig, groups: Map<string, IdeaCard[]>, numbers: Map<string, number>) {
+  const headerCell = (text: string): PptxGenJS.TableCell => ({
+    text,
+    options: { bold: true, color: COLORS.white, fill: { color: COLORS.brand } }
+  })
+
+  config.quadrants.forEach((quadrant) => {
+    const ideas = groups.get(quadrant.id) ?? []
+    const pages = Math.max(1, Math.ceil(ideas.length / IDEAS_PER_SLIDE))
+
+    for (let page = 0; page < pages; page++) {
+      const slide = pptx.addSlide()
+      const title = page === 0 ? quadrant.label : `${quadrant.label} (continued)`
+      addSlideTitle(slide, title, `${quadrant.description ? `${quadrant.description} • ` : ''}${ideas.length} ideas`)
+      slide.addShape('rect', { x: 0, y: 0, w: 0.15, h: 7.5, fill: { color: hex(quadrant.color) }, line: { color: hex(quadrant.color) } })
+
+      if (ideas.length === 0) {
+        slide.addText('No ideas in this quadrant yet.', {
+          x: MARGIN, y: 1.7, w: CONTENT_WIDTH, h: 0.5,
+          fontFace: FONT_FACE, fontSize: pt(PdfTypography.sizes.bodySmall), italic: true, color: COLORS.muted
+        })
+        continue
+      }
+
+      const rows: PptxGenJS.TableRow[] = [
+        [headerCell('#'), headerCell('Idea'), headerCell('Priority'), headerCell('Details')],
+        ...ideas.slice(page * IDEAS_PER_SLIDE, (page + 1) * IDEAS_PER_SLIDE).map((idea) => [
+          { text: String(numbers.get(idea.id) ?? '') },
+          { text: truncate(idea.content, 80), options: { bold: true } },
+          { text: idea.priority },
+          { text: truncate(idea.details ?? '', 140) }
+        ])
+      ]
+      slide.addTable(rows, {
+        x: MARGIN, y: 1.6, w: CONTENT_WIDTH, colW: [0.5, 4, 1.3, CONTENT_WIDTH - 5.8],
+        fontFace: FONT_FACE, fontSize: pt(PdfTypography.sizes.caption), color: COLORS.body,
+        border: { type: 'solid', pt: 0.5, color: COLORS.border },
+        fill: { color: COLORS.white },
+        valign: 'middle'
+      })
+    }
+  })
+}
+
+function addInsightSlides(pptx: PptxGenJS, insights: InsightsData, config: MatrixConfig) {
+  const summary = pptx.addSlide()
+  addSlideTitle(summary, 'Insights Summary', insights.generated_at ? `Generated ${new Date(insights.generated_at).toLocaleDateString()}` : undefined)
+
+  const stats: Array<[string, string]> = [
+    ['Total ideas', String(insights.summary?.total_ideas ?? 0)],
+    ['Avg. priority score', (insights.summary?.avg_priority_score ?? 0).toFixed(1)],
+    ['Completion rate', `${Math.round(insights.summary?.completion_rate ?? 0)}%`],
+    ['Time spent', `${insights.summary?.time_spent ?? 0} h`]
+  ]
+  const cardWidth = (CONTENT_WIDTH - 0.3 * (stats.length - 1)) / stats.length
+  stats.forEach(([label, value], index) => {
+    summary.addText([
+      { text: value, options: { fontSize: pt(PdfTypography.sizes.h1Large), bold: true, color: COLORS.brand, breakLine: true } },
+      { text: label, options: { fontSize: pt(PdfTypography.sizes.caption), color: COLORS.muted } }
+    ], {
+      x: MARGIN + index * (cardWidth + 0.3), y: 1.7, w: cardWidth, h: 1.3, align: 'center',
+      fontFace: FONT_FACE, fill: { color: COLORS.panel }, line: { color: COLORS.border, width: 0.75 }
+    })
+  })
+
+  const quadrantLabel = (id: string) => config.quadrants.find((quadrant) => quadrant.id === id)?.label ?? id
+  const distribution = (title: string, values: Record<string, number> | undefined, label: (key: string) => string = (key) => key) =>
+    [title, ...Object.entries(values ?? {}).map(([key, count]) => `${label(key)}: ${count}`)]
+  const [priorityTitle, ...byPriority] = distribution('By priority', insights.distribution?.by_priority)
+  const [quadrantTitle, ...byQuadrant] = distribution('By quadrant', insights.distribution?.by_quadrant, quadrantLabel)
+  addBulletList(summary, byPriority, { x: MARGIN, y: 3.4, w: CONTENT_WIDTH / 2 - 0.2, h: 3.5 }, priorityTitle)
+  addBulletList(summary, byQuadrant, { x: MARGIN + CONTENT_WIDTH / 2 + 0.2, y: 3.4, w: CONTENT_WIDTH / 2 - 0.2, h: 3.5 }, quadrantTitle)
+
+  const findings = pptx.addSlide()
+  addSlideTitle(findings, 'Recommendations & Risks')
+  addBulletList(findings, (insights.recommendations ?? []).slice(0, 8), { x: MARGIN, y: 1.5, w: CONTENT_WIDTH / 2 - 0.2, h: 5.5 }, 'Recommendations')
+  addBulletList(findings, (insights.risk_factors ?? []).slice(0, 8), { x: MARGIN + CONTENT_WIDTH / 2 + 0.2, y: 1.5, w: CONTENT_WIDTH / 2 - 0.2, h: 5.5 }, 'Risk factors')
+}
+
+function addRoadmapSlides(pptx: PptxGenJS, roadmap: RoadmapData) {
+  const phases = roadmap.roadmapAnalysis?.phases ?? []
+  const strategy = roadmap.executionStrategy
+
+  const overview = pptx.addSlide()
+  addSlideTitle(
+    overview,
+    'Roadmap',
+    [roadmap.roadmapAnalysis?.totalDuration, strategy?.methodology, strategy?.sprintLength && `${strategy.sprintLength} sprints`]
+      .filter(Boolean)
+      .join(' • ')
+  )
+  addBulletList(overview, phases.map((phase) => `${phase.phase} — ${phase.duration}`), { x: MARGIN, y: 1.6, w: CONTENT_WIDTH / 2 - 0.2, h: 5.3 }, 'Phases')
+  addBulletList(
+    overview,
+    (strategy?.keyMilestones ?? []).map((milestone) => `${milestone.milestone} (${milestone.timeline})`),
+    { x: MARGIN + CONTENT_WIDTH / 2 + 0.2, y: 1.6, w: CONTENT_WIDTH / 2 - 0.2, h: 5.3 },
+    'Key milestones'
+  )
+
+  phases.forEach((phase, index) => {
+    const slide = pptx.addSlide()
+    addSlideTitle(slide, `Phase ${index + 1}: ${phase.phase}`, [phase.duration, truncate(phase.description ?? '', 160)].filter(Boolean).join(' • '))
+    addBulletList(
+      slide,
+      (phase.epics ?? []).slice(0, 8).map((epic) => `${epic.title} — ${epic.priority} priority, ${epic.complexity} complexity`),
+      { x: MARGIN, y: 1.6, w: CONTENT_WIDTH * 0.55, h: 5.3 },
+      'Epics'
+    )
+    addBulletList(slide, (phase.risks ?? []).slice(0, 5), { x: MARGIN + CONTENT_WIDTH * 0.6, y: 1.6, w: CONTENT_WIDTH * 0.4, h: 2.5 }, 'Risks')
+    addBulletList(slide, (phase.successCriteria ?? []).slice(0, 5), { x: MARGIN + CONTENT_WIDTH * 0.6, y: 4.3, w: CONTENT_WIDTH * 0.4, h: 2.6 }, 'Success criteria')
+  })
+}
+
+/**
+ * Add every slide of the project deck to a presentation
+ */
+export function buildProjectDeck(pptx: PptxGenJS, input: ProjectDeckInput): void {
+  const config = input.matrixConfig ?? DEFAULT_MATRIX_CONFIG
+  const generatedAt = input.generatedAt ?? new Date()
+  const { groups, numbers } = groupIdeasByQuadrant(input.ideas, config)
+
+  pptx.layout = 'LAYOUT_WIDE'
+  pptx.title = `${input.project.name} — Prioritization`
+
+  addTitleSlide(pptx, input, generatedAt)
+  addMatrixSlide(pptx, input.ideas, config, numbers)
+  addQuadrantSlides(pptx, config, groups, numbers)
+  if (input.insights) addInsightSlides(pptx, input.insights, config)
+  if (input.roadmap) addRoadmapSlides(pptx, input.roadmap)
+}
+
+export function projectDeckFileName(projectName: string, date: Date = new Date()): string {
+  const slug = projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project'
+  return `${slug}-deck-${date.toISOString().slice(0, 10)}.pptx`
+}
+
+/**
+ * Build the project deck and download it
+ */
+export async function exportProjectDeck(input: ProjectDeckInput): Promise<void> {
+  deckLogger.debug('Generating project deck', { ideas: input.ideas.length, insights: !!input.insights, roadmap: !!input.roadmap })
+  const { default: PptxGenJSClass } = await import('pptxgenjs')
+  const pptx = new PptxGenJSClass()
+  buildProjectDeck(pptx, input)
+  await pptx.writeFile({ fileName: projectDeckFileName(input.project.name, input.generatedAt) })
+}
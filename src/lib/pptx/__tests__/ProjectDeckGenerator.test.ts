@@ -0,0 +1,121 @@
+/**
+ * ProjectDeckGenerator tests — slide structure of the PowerPoint export
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import type PptxGenJS from 'pptxgenjs'
+import type { IdeaCard, InsightsData, RoadmapData } from '../../../types'
+import { DEFAULT_MATRIX_CONFIG } from '../../../utils/matrixQuadrant'
+import { buildProjectDeck, projectDeckFileName } from '../ProjectDeckGenerator'
+
+vi.mock('../../logging', () => ({
+  logger: { withContext: () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }) }
+}))
+
+interface RecordedSlide {
+  texts: string[]
+  shapes: number
+  tables: unknown[][][]
+}
+
+function createRecorder() {
+  const slides: RecordedSlide[] = []
+  const pptx = {
+    addSlide: () => {
+      const recorded: RecordedSlide = { texts: [], shapes: 0, tables: [] }
+      slides.push(recorded)
+      return {
+        addText: (text: string | Array<{ text: string }>) => {
+          recorded.texts.push(typeof text === 'string' ? text : text.map((run) => run.text).join('\n'))
+        },
+        addShape: () => { recorded.shapes++ },
+        addTable: (rows: Array<Array<{ text: string }>>) => {
+          recorded.tables.push(rows.map((row) => row.map((cell) => cell.text)))
+        }
+      }
+    }
+  }
+  return { pptx: pptx as unknown as PptxGenJS, slides }
+}
+
+const idea = (id: string, x: number, y: number, priority: IdeaCard['priority'] = 'moderate'): IdeaCard => ({
+  id,
+  content: `Idea ${id}`,
+  details: '',
+  x,
+  y,
+  priority,
+  created_by: 'user-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+})
+
+const project = { name: 'Launch Plan', description: 'Q3 launch' }
+const generatedAt = new Date('2026-03-01T00:00:00.000Z')
+
+describe('ProjectDeckGenerator', () => {
+  it('adds a title, matrix and quadrant slides with ideas numbered by quadrant', () => {
+    const { pptx, slides } = createRecorder()
+    buildProjectDeck(pptx, {
+      project,
+      ideas: [idea('late', 400, 100), idea('quick', 100, 100, 'low'), idea('first', 120, 80, 'strategic')],
+      generatedAt
+    })
+
+    // title + matrix + one per quadrant
+    expect(slides).toHaveLength(2 + DEFAULT_MATRIX_CONFIG.quadrants.length)
+    expect(slides[0].texts).toContain('Launch Plan')
+    expect(slides[1].texts).toEqual(expect.arrayContaining(['Priority Matrix', '1', '2', '3']))
+
+    const quickWins = slides[2]
+    expect(quickWins.texts[0]).toBe(DEFAULT_MATRIX_CONFIG.quadrants[0].label)
+    expect(quickWins.tables[0].slice(1).map((row) => row.slice(0, 2))).toEqual([['1', 'Idea first'], ['2', 'Idea quick']])
+    expect(slides[3].tables[0][1].slice(0, 2)).toEqual(['3', 'Idea late'])
+    expect(slides[4].texts).toContain('No ideas in this quadrant yet.')
+  })
+
+  it('continues long quadrants on another slide', () => {
+    const { pptx, slides } = createRecorder()
+    const ideas = Array.from({ length: 15 }, (_, index) => idea(`i${String(index).padStart(2, '0')}`, 50, 50))
+    buildProjectDeck(pptx, { project, ideas, generatedAt })
+
+    expect(slides[2].tables[0]).toHaveLength(13)
+    expect(slides[3].texts[0]).toBe(`${DEFAULT_MATRIX_CONFIG.quadrants[0].label} (continued)`)
+    expect(slides[3].tables[0]).toHaveLength(4)
+  })
+
+  it('adds insight and roadmap slides when their data is present', () => {
+    const insights = {
+      summary: { total_ideas: 3, avg_priority_score: 2.5, completion_rate: 40, time_spent: 12 },
+      distribution: { by_priority: { high: 2 }, by_quadrant: { 'quick-wins': 1 }, by_status: {} },
+      trends: {},
+      recommendations: ['Ship the onboarding flow'],
+      risk_factors: ['Thin QA coverage'],
+      generated_at: '2026-02-01T00:00:00.000Z'
+    } as unknown as InsightsData
+    const roadmap = {
+      roadmapAnalysis: {
+        totalDuration: '12 weeks',
+        phases: [
+          { phase: 'Foundation', duration: '4 weeks', description: 'Set up', epics: [], risks: ['Hiring'], successCriteria: ['CI green'] },
+          { phase: 'Launch', duration: '8 weeks', description: 'Go live', epics: [], risks: [], successCriteria: [] }
+        ]
+      },
+      executionStrategy: { methodology: 'Scrum', sprintLength: '2 weeks', teamRecommendations: '', keyMilestones: [{ milestone: 'Beta', timeline: 'Week 6', description: '' }] }
+    } as unknown as RoadmapData
+
+    const { pptx, slides } = createRecorder()
+    buildProjectDeck(pptx, { project, ideas: [], insights, roadmap, generatedAt })
+
+    const titles = slides.map((slide) => slide.texts[0])
+    expect(titles.slice(6)).toEqual(['Insights Summary', 'Recommendations & Risks', 'Roadmap', 'Phase 1: Foundation', 'Phase 2: Launch'])
+    expect(slides[6].texts.join('\n')).toContain('Quick Wins: 1')
+    expect(slides[7].texts.join('\n')).toContain('Ship the onboarding flow')
+    expect(slides[8].texts.join('\n')).toContain('Beta (Week 6)')
+    expect(slides[9].texts.join('\n')).toContain('CI green')
+  })
+
+  it('names the file after the project', () => {
+    expect(projectDeckFileName('Launch Plan!', generatedAt)).toBe('launch-plan-deck-2026-03-01.pptx')
+  })
+})
@@ -0,0 +1,21 @@
+/**
+ * PPTX Generation Module
+ *
+ * PowerPoint decks built with pptxgenjs, styled with the PDF module's tokens.
+ *
+ * @example
+ * ```typescript
+ * import { exportProjectDeck } from '@/lib/pptx'
+ *
+ * await exportProjectDeck({ project, ideas, matrixConfig, insights, roadmap })
+ * ```
+ *
+ * @module pptx
+ */
+
+export {
+  buildProjectDeck,
+  exportProjectDeck,
+  projectDeckFileName,
+  type ProjectDeckInput
+} from './ProjectDeckGenerator'
@@ -11,7 +11,7 @@
  */
 
 import { supabase } from '../supabase'
-import type { BrainstormRealtimeConfig, SessionState } from '../../types/BrainstormSession'
+import type { BrainstormRealtimeConfig, HeldIdea, SessionState } from '../../types/BrainstormSession'
 import { RealtimeChannel, REALTIME_LISTEN_TYPES } from '@supabase/supabase-js'
 
 export interface PresenceState {
@@ -214,7 +214,11 @@ export class BrainstormRealtimeManager {
 
             const state: SessionState = {
               status: session.status,
-              timeRemaining: Math.max(0, timeRemaining)
+              timeRemaining: Math.max(0, timeRemaining),
+              round: session.current_round ?? null,
+              roundEndsAt: session.round_ends_at ?? null,
+              currentPromptId: session.current_prompt_id ?? null,
+              votesRevealedAt: session.votes_revealed_at ?? null
             }
 
             config.onSessionStateChanged(state)
@@ -231,6 +235,45 @@ export class BrainstormRealtimeManager {
 
       this.channels.set('session', sessionChannel)
 
+      // Create moderation channel (facilitator only: held submissions)
+      if (config.onHeldIdeaChanged) {
+        const onHeldIdeaChanged = config.onHeldIdeaChanged
+        const moderationChannel = supabase
+          .channel(`moderation:${sessionId}`)
+          .on(
+            'postgres_changes',
+            {
+              event: 'INSERT',
+              schema: 'public',
+              table: 'session_held_ideas',
+              filter: `session_id=eq.${sessionId}`
+            },
+            (payload) => {
+              onHeldIdeaChanged(payload.new as HeldIdea)
+            }
+          )
+          .on(
+            'postgres_changes',
+            {
+              event: 'UPDATE',
+              schema: 'public',
+              table: 'session_held_ideas',
+              filter: `session_id=eq.${sessionId}`
+            },
+            (payload) => {
+              onHeldIdeaChanged(payload.new as HeldIdea)
+            }
+          )
+          .subscribe((status, error) => {
+            if (status === 'CLOSED' || status === 'CHANNEL_ERROR') {
+              console.error('Moderation channel error:', error)
+              this.handleDisconnection('moderation')
+            }
+          })
+
+        this.channels.set('moderation', moderationChannel)
+      }
+
       // Start batch processing timer
       this.startBatchProcessing()
     } catch (error) {
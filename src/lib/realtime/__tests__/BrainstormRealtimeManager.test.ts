@@ -114,6 +114,27 @@ describe('BrainstormRealtimeManager', () => {
       expect(mocked.channel).toHaveBeenCalledWith(`session:test-session-123`)
     })
 
+    it('should add a moderation channel when held ideas are observed', () => {
+      const mocked = vi.mocked(supabaseModule.supabase)
+      const onHeldIdeaChanged = vi.fn()
+
+      manager.subscribe({ ...config, onHeldIdeaChanged })
+
+      expect(mocked.channel).toHaveBeenCalledTimes(4)
+      expect(mocked.channel).toHaveBeenCalledWith(`moderation:test-session-123`)
+
+      const heldUpdateCall = mockChannel.on.mock.calls.find(
+        (call) =>
+          call[0] === 'postgres_changes' &&
+          call[1].table === 'session_held_ideas' &&
+          call[1].event === 'UPDATE'
+      )
+      const heldIdea = { id: 'held-1', status: 'rejected' }
+      heldUpdateCall?.[2]({ new: heldIdea })
+
+      expect(onHeldIdeaChanged).toHaveBeenCalledWith(heldIdea)
+    })
+
     it('should register postgres_changes listeners for ideas', () => {
       manager.subscribe(config)
 
@@ -485,12 +506,42 @@ describe('BrainstormRealtimeManager', () => {
 
       expect(config.onSessionStateChanged).toHaveBeenCalledWith({
         status: 'active',
-        timeRemaining: expect.any(Number)
+        timeRemaining: expect.any(Number),
+        round: null,
+        roundEndsAt: null,
+        currentPromptId: null,
+        votesRevealedAt: null
       })
 
       const call = config.onSessionStateChanged.mock.calls[0][0] as SessionState
       expect(call.timeRemaining).toBeGreaterThan(0)
     })
+
+    it('should include the current round and its timer', () => {
+      manager.subscribe(config)
+
+      const sessionUpdateCall = mockChannel.on.mock.calls.find(
+        (call) =>
+          call[0] === 'postgres_changes' &&
+          call[1].table === 'brainstorm_sessions' &&
+          call[1].event === 'UPDATE'
+      )
+      const roundEndsAt = new Date(Date.now() + 300000).toISOString()
+
+      sessionUpdateCall?.[2]({
+        new: {
+          id: 'test-session-123',
+          status: 'active',
+          expires_at: new Date(Date.now() + 3600000).toISOString(),
+          current_round: 'ideation',
+          round_ends_at: roundEndsAt
+        }
+      })
+
+      expect(config.onSessionStateChanged).toHaveBeenCalledWith(
+        expect.objectContaining({ round: 'ideation', roundEndsAt })
+      )
+    })
   })
 
   describe('Cleanup and Lifecycle', () => {
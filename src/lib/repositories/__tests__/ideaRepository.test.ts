@@ -24,6 +24,7 @@ vi.mock('../../supabase', () => {
   return {
     supabase: {
       from: vi.fn(),
+      rpc: vi.fn(),
       channel: vi.fn(),
       removeChannel: vi.fn()
     }
@@ -55,6 +56,7 @@ function setupMocks() {
     update: vi.fn().mockReturnThis(),
     delete: vi.fn().mockReturnThis(),
     eq: vi.fn().mockReturnThis(),
+    in: vi.fn().mockReturnThis(),
     not: vi.fn().mockReturnThis(),
     lt: vi.fn().mockReturnThis(),
     or: vi.fn().mockReturnThis(),
@@ -495,6 +497,91 @@ describe('IdeaRepository', () => {
     })
   })
 
+  describe('bulkUpdateIdeas', () => {
+    it('should send the whole batch in a single RPC call', async () => {
+      const updates = [
+        { id: 'idea123', x: 80, y: 120 },
+        { id: 'idea456', priority: 'low' as const }
+      ]
+      mockSupabase.rpc.mockResolvedValue({ data: [{ ...sampleIdea, x: 80, y: 120 }], error: null })
+
+      const result = await IdeaRepository.bulkUpdateIdeas(updates)
+
+      expect(mockSupabase.rpc).toHaveBeenCalledTimes(1)
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('bulk_update_ideas', { _updates: updates })
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual([{ ...sampleIdea, x: 80, y: 120 }])
+    })
+
+    it('should skip the round trip for an empty batch', async () => {
+      const result = await IdeaRepository.bulkUpdateIdeas([])
+
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+      expect(result).toEqual({ success: true, data: [] })
+    })
+
+    it('should map RPC errors to an error response', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'denied', code: '42501' } })
+
+      const result = await IdeaRepository.bulkUpdateIdeas([{ id: 'idea123', priority: 'high' }])
+
+      expect(result.success).toBe(false)
+      expect(result.code).toBe('FORBIDDEN')
+    })
+  })
+
+  describe('bulkDeleteIdeas', () => {
+    it('should delete all ids in one query and return the deleted ids', async () => {
+      mockQuery.select.mockResolvedValue({ data: [{ id: 'idea123' }], error: null })
+
+      const result = await IdeaRepository.bulkDeleteIdeas(['idea123', 'idea456'])
+
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1)
+      expect(mockQuery.in).toHaveBeenCalledWith('id', ['idea123', 'idea456'])
+      expect(result).toEqual({ success: true, data: ['idea123'] })
+    })
+
+    it('should handle network failures', async () => {
+      mockQuery.select.mockRejectedValue(new Error('Connection timeout'))
+
+      const result = await IdeaRepository.bulkDeleteIdeas(['idea123'])
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Connection timeout')
+    })
+  })
+
+  describe('mergeIdeas', () => {
+    it('should call merge_ideas with the merged content', async () => {
+      const merged = { ...sampleIdea, content: 'Merged', contributors: ['user456'] }
+      mockSupabase.rpc.mockResolvedValue({ data: merged, error: null })
+
+      const result = await IdeaRepository.mergeIdeas({
+        targetId: 'idea123',
+        sourceIds: ['idea456'],
+        content: 'Merged',
+        details: 'Both details'
+      })
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('merge_ideas', {
+        _target_id: 'idea123',
+        _source_ids: ['idea456'],
+        _content: 'Merged',
+        _details: 'Both details'
+      })
+      expect(result).toEqual({ success: true, data: merged })
+    })
+
+    it('should map a refused merge to an error response', async () => {
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { message: 'merge_ideas: not allowed', code: '42501' } })
+
+      const result = await IdeaRepository.mergeIdeas({ targetId: 'idea123', sourceIds: ['idea456'], content: 'Merged', details: '' })
+
+      expect(result.success).toBe(false)
+      expect(result.code).toBe('FORBIDDEN')
+    })
+  })
+
   describe('Locking Mechanisms', () => {
     beforeEach(() => {
       vi.useFakeTimers()
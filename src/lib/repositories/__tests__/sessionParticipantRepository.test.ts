@@ -0,0 +1,67 @@
+/**
+ * sessionParticipantRepository unit tests
+ *
+ * Bans are enforced by the enforce_participant_ban trigger in the migration;
+ * these tests confirm joinSession surfaces its refusal to callers.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../supabase', () => ({
+  supabase: { from: vi.fn() },
+}))
+
+import { SessionParticipantRepository } from '../sessionParticipantRepository'
+import { supabase } from '../../supabase'
+
+const mockFrom = supabase.from as unknown as ReturnType<typeof vi.fn>
+
+function mockInsert(result: { data: unknown; error: unknown }) {
+  const single = vi.fn().mockResolvedValue(result)
+  const select = vi.fn().mockReturnValue({ single })
+  const insert = vi.fn().mockReturnValue({ select })
+  mockFrom.mockReturnValue({ insert })
+  return insert
+}
+
+const input = { sessionId: 'session-1', participantName: 'Sam', deviceFingerprint: 'device-1' }
+
+describe('SessionParticipantRepository.joinSession', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('inserts a pending participant when the session requires approval', async () => {
+    const insert = mockInsert({ data: { id: 'participant-1' }, error: null })
+
+    const result = await SessionParticipantRepository.joinSession(input, true)
+
+    expect(result).toEqual(expect.objectContaining({ success: true, data: { id: 'participant-1' } }))
+    expect(insert).toHaveBeenCalledWith([
+      expect.objectContaining({ session_id: 'session-1', device_fingerprint: 'device-1', is_approved: false }),
+    ])
+  })
+
+  it('reports a banned device when the database refuses the join', async () => {
+    mockInsert({
+      data: null,
+      error: { code: '42501', message: 'session_participant_banned: device is banned from session session-1' },
+    })
+
+    const result = await SessionParticipantRepository.joinSession(input)
+
+    expect(result).toEqual(expect.objectContaining({
+      success: false,
+      error: 'You have been removed from this session',
+      code: 'BANNED',
+    }))
+  })
+
+  it('reports other refusals as permission errors', async () => {
+    mockInsert({ data: null, error: { code: '42501', message: 'new row violates row-level security policy' } })
+
+    const result = await SessionParticipantRepository.joinSession(input)
+
+    expect(result).toEqual(expect.objectContaining({ success: false, code: 'FORBIDDEN' }))
+  })
+})
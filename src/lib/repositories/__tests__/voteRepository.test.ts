@@ -4,15 +4,18 @@
  * Validates the dot-voting data layer:
  * - castVote success path
  * - castVote budget_exceeded mapping when RLS rejects (Postgres 42501)
+ * - changeVote updates the weight and maps scheme rejections (22023) to invalid_vote
  * - removeVote success path (returns void, no throw)
  * - removeVote throws VoteRepositoryError on Supabase error (D-07)
  * - removeVote throws VoteRepositoryError when unauthenticated (D-07)
  * - removeVote wraps unexpected exceptions in VoteRepositoryError (D-07)
  * - countForUser arithmetic
- * - reconcileTallies aggregation into Map<idea_id, count>
+ * - reconcileTallies aggregation into Map<idea_id, score>
+ * - fetchSessionTallies reads aggregates and reports hidden tallies as null
  *
- * The 5-dot budget itself is enforced by RLS in the migration; these tests
- * confirm the repository correctly surfaces RLS rejection to callers.
+ * The voting scheme and budget are enforced by the enforce_vote_scheme
+ * trigger in the migration; these tests confirm the repository correctly
+ * surfaces its rejections to callers.
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
@@ -21,6 +24,7 @@ vi.mock('../../supabase', () => {
   return {
     supabase: {
       from: vi.fn(),
+      rpc: vi.fn(),
       auth: {
         getUser: vi.fn().mockResolvedValue({
           data: { user: { id: 'user-1' } },
@@ -35,11 +39,20 @@ vi.mock('../../../utils/logger', () => ({
   logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
 }))
 
-import { castVote, removeVote, countForUser, reconcileTallies, VoteRepositoryError } from '../voteRepository'
+import {
+  castVote,
+  changeVote,
+  removeVote,
+  countForUser,
+  reconcileTallies,
+  fetchSessionTallies,
+  VoteRepositoryError,
+} from '../voteRepository'
 import { supabase } from '../../supabase'
 
 const mockSupabase = supabase as unknown as {
   from: ReturnType<typeof vi.fn>
+  rpc: ReturnType<typeof vi.fn>
   auth: { getUser: ReturnType<typeof vi.fn> }
 }
 
@@ -134,6 +147,7 @@ describe('voteRepository.castVote', () => {
       user_id: 'user-1',
       idea_id: 'idea-1',
       session_id: 'session-1',
+      weight: 1,
     })
   })
 
@@ -148,6 +162,40 @@ describe('voteRepository.castVote', () => {
   })
 })
 
+describe('voteRepository.changeVote', () => {
+  function makeUpdateChain(result: { error: unknown }) {
+    const single = vi.fn().mockResolvedValue({ data: null, ...result })
+    const select = vi.fn().mockReturnValue({ single })
+    const eq3 = vi.fn().mockReturnValue({ select })
+    const eq2 = vi.fn().mockReturnValue({ eq: eq3 })
+    const eq1 = vi.fn().mockReturnValue({ eq: eq2 })
+    const update = vi.fn().mockReturnValue({ eq: eq1 })
+    return { from: vi.fn().mockReturnValue({ update }), update, eq1, eq2, eq3 }
+  }
+
+  it('updates the weight of the current user\'s vote', async () => {
+    const chain = makeUpdateChain({ error: null })
+    mockSupabase.from.mockImplementation(chain.from)
+
+    const result = await changeVote('session-1', 'idea-1', 30)
+    expect(result).toEqual({ ok: true })
+    expect(chain.update).toHaveBeenCalledWith({ weight: 30 })
+    expect(chain.eq1).toHaveBeenCalledWith('user_id', 'user-1')
+    expect(chain.eq2).toHaveBeenCalledWith('session_id', 'session-1')
+    expect(chain.eq3).toHaveBeenCalledWith('idea_id', 'idea-1')
+  })
+
+  it('returns { ok: false, reason: "invalid_vote" } when the scheme rejects the weight (22023)', async () => {
+    const chain = makeUpdateChain({
+      error: { code: '22023', message: 'enforce_vote_scheme: rank 1 is already used' },
+    })
+    mockSupabase.from.mockImplementation(chain.from)
+
+    const result = await changeVote('session-1', 'idea-1', 1)
+    expect(result).toEqual({ ok: false, reason: 'invalid_vote' })
+  })
+})
+
 describe('voteRepository.countForUser', () => {
   it('returns the count returned by Supabase', async () => {
     const eq2 = vi.fn().mockResolvedValue({ count: 3, error: null })
@@ -183,6 +231,44 @@ describe('voteRepository.reconcileTallies', () => {
     expect(tallies.get('c')).toBe(1)
     expect(tallies.size).toBe(3)
   })
+
+  it('scores weighted votes by the voting scheme', async () => {
+    const eq = vi.fn().mockResolvedValue({
+      data: [
+        { idea_id: 'a', weight: 1 },
+        { idea_id: 'b', weight: 3 },
+        { idea_id: 'a', weight: 2 },
+      ],
+      error: null,
+    })
+    mockSupabase.from.mockReturnValue({ select: vi.fn().mockReturnValue({ eq }) })
+
+    const tallies = await reconcileTallies('session-1', { scheme: 'ranked', budget: 3, allowMultiple: false })
+    expect(tallies.get('a')).toBe(5)
+    expect(tallies.get('b')).toBe(1)
+  })
+})
+
+describe('voteRepository.fetchSessionTallies', () => {
+  it('returns the aggregates from session_vote_tallies', async () => {
+    mockSupabase.rpc.mockResolvedValue({
+      data: [{ idea_id: 'a', score: '7', voters: '3', first_choices: '0' }],
+      error: null,
+    })
+
+    const tallies = await fetchSessionTallies('session-1')
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('session_vote_tallies', { _session_id: 'session-1' })
+    expect(tallies).toEqual([{ idea_id: 'a', score: 7, voters: 3, first_choices: 0 }])
+  })
+
+  it('returns null while the votes are hidden from the caller', async () => {
+    mockSupabase.rpc.mockResolvedValue({
+      data: null,
+      error: { code: '42501', message: 'session_vote_tallies: votes are hidden until revealed' },
+    })
+
+    expect(await fetchSessionTallies('session-1')).toBeNull()
+  })
 })
 
 describe('VoteRepositoryError', () => {
@@ -7,6 +7,7 @@
 
 import { supabase, createAuthenticatedClientFromLocalStorage } from '../supabase'
 import type {
+  BrainstormRound,
   BrainstormSession,
   CreateSessionInput,
   ApiResponse
@@ -48,6 +49,12 @@ export class BrainstormSessionRepository {
             require_approval: input.requireApproval ?? false,
             enable_voting: input.enableVoting ?? false,
             time_limit_minutes: input.durationMinutes,
+            technique: input.technique ?? null,
+            prompts: input.prompts ?? [],
+            voting_scheme: input.votingScheme ?? 'dots',
+            vote_budget: input.voteBudget ?? 5,
+            allow_multiple_votes: input.allowMultipleVotes ?? false,
+            vote_visibility: input.voteVisibility ?? 'live',
             status: 'active',
             started_at: new Date().toISOString()
           }
@@ -222,6 +229,114 @@ export class BrainstormSessionRepository {
     }
   }
 
+  /**
+   * Turn facilitator approval of new participants on or off
+   */
+  static async setRequireApproval(
+    sessionId: string,
+    requireApproval: boolean
+  ): Promise<ApiResponse<BrainstormSession>> {
+    try {
+      const { data, error } = await supabase
+        .from('brainstorm_sessions')
+        .update({ require_approval: requireApproval })
+        .eq('id', sessionId)
+        .select()
+        .single()
+
+      if (error) return handleSupabaseError<BrainstormSession>(error, 'Update session approval')
+
+      return createSuccessResponse(data)
+    } catch (error) {
+      return createErrorResponse<BrainstormSession>(
+        error instanceof Error ? error.message : 'Unknown error',
+        'EXCEPTION'
+      )
+    }
+  }
+
+  /**
+   * Set the facilitated round, its timer and first prompt; a null round ends facilitated rounds
+   */
+  static async setRound(
+    sessionId: string,
+    round: BrainstormRound | null,
+    roundEndsAt: string | null,
+    currentPromptId: string | null = null
+  ): Promise<ApiResponse<BrainstormSession>> {
+    try {
+      const { data, error } = await supabase
+        .from('brainstorm_sessions')
+        .update({
+          current_round: round,
+          round_started_at: round ? new Date().toISOString() : null,
+          round_ends_at: round ? roundEndsAt : null,
+          current_prompt_id: round ? currentPromptId : null
+        })
+        .eq('id', sessionId)
+        .select()
+        .single()
+
+      if (error) return handleSupabaseError<BrainstormSession>(error, 'Update session round')
+
+      return createSuccessResponse(data)
+    } catch (error) {
+      return createErrorResponse<BrainstormSession>(
+        error instanceof Error ? error.message : 'Unknown error',
+        'EXCEPTION'
+      )
+    }
+  }
+
+  /**
+   * Move participants on to another prompt of the current round
+   */
+  static async setCurrentPrompt(
+    sessionId: string,
+    promptId: string
+  ): Promise<ApiResponse<BrainstormSession>> {
+    try {
+      const { data, error } = await supabase
+        .from('brainstorm_sessions')
+        .update({ current_prompt_id: promptId })
+        .eq('id', sessionId)
+        .select()
+        .single()
+
+      if (error) return handleSupabaseError<BrainstormSession>(error, 'Update session prompt')
+
+      return createSuccessResponse(data)
+    } catch (error) {
+      return createErrorResponse<BrainstormSession>(
+        error instanceof Error ? error.message : 'Unknown error',
+        'EXCEPTION'
+      )
+    }
+  }
+
+  /**
+   * Reveal a hidden or anonymous session's votes to participants
+   */
+  static async revealVotes(sessionId: string): Promise<ApiResponse<BrainstormSession>> {
+    try {
+      const { data, error } = await supabase
+        .from('brainstorm_sessions')
+        .update({ votes_revealed_at: new Date().toISOString() })
+        .eq('id', sessionId)
+        .select()
+        .single()
+
+      if (error) return handleSupabaseError<BrainstormSession>(error, 'Reveal session votes')
+
+      return createSuccessResponse(data)
+    } catch (error) {
+      return createErrorResponse<BrainstormSession>(
+        error instanceof Error ? error.message : 'Unknown error',
+        'EXCEPTION'
+      )
+    }
+  }
+
   /**
    * End a session (mark as completed)
    */
@@ -1,5 +1,6 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { supabase } from '../supabase'
-import { IdeaCard } from '../../types'
+import { IdeaCard, IdeaScores } from '../../types'
 import { logger } from '../../utils/logger'
 import { ApiResponse, createSuccessResponse, createErrorResponse, handleSupabaseError } from './types'
 
@@ -11,6 +12,24 @@ export interface CreateIdeaInput {
   priority: 'low' | 'moderate' | 'high' | 'strategic' | 'innovation'
   created_by?: string
   project_id?: string
+  scores?: IdeaScores | null
+}
+
+/**
+ * One element of a bulk update: the idea id plus only the fields to change
+ */
+export type IdeaBulkUpdate = { id: string } & Partial<
+  Pick<IdeaCard, 'content' | 'details' | 'x' | 'y' | 'priority' | 'is_collapsed' | 'tags' | 'scores'>
+>
+
+/**
+ * Merged content for merge_ideas; the target keeps its position and priority
+ */
+export interface IdeaMergeInput {
+  targetId: string
+  sourceIds: string[]
+  content: string
+  details: string
 }
 
 /**
@@ -115,6 +134,7 @@ export class IdeaRepository {
         priority: idea.priority,
         created_by: idea.created_by || null,
         project_id: idea.project_id || null,
+        ...(idea.scores ? { scores: idea.scores } : {}),
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       }
@@ -201,6 +221,105 @@ export class IdeaRepository {
     }
   }
 
+  /**
+   * Apply a batch of per-idea changes in one round trip (bulk_update_ideas RPC).
+   * Returns only the rows RLS allowed the caller to update.
+   */
+  static async bulkUpdateIdeas(
+    updates: IdeaBulkUpdate[],
+    client: SupabaseClient = supabase
+  ): Promise<ApiResponse<IdeaCard[]>> {
+    if (updates.length === 0) return createSuccessResponse([])
+
+    try {
+      logger.debug('Bulk updating ideas:', { count: updates.length })
+
+      const { data, error } = await client.rpc('bulk_update_ideas', { _updates: updates })
+
+      if (error) {
+        logger.error('Error bulk updating ideas:', error)
+        return handleSupabaseError<IdeaCard[]>(error, 'Bulk update ideas')
+      }
+
+      return createSuccessResponse((data || []) as IdeaCard[])
+    } catch (error) {
+      logger.error('Failed to bulk update ideas:', error)
+      return createErrorResponse<IdeaCard[]>(
+        error instanceof Error ? error.message : 'Unknown error occurred',
+        'EXCEPTION'
+      )
+    }
+  }
+
+  /**
+   * Delete several ideas in one round trip. Returns the ids actually deleted.
+   */
+  static async bulkDeleteIdeas(
+    ids: string[],
+    client: SupabaseClient = supabase
+  ): Promise<ApiResponse<string[]>> {
+    if (ids.length === 0) return createSuccessResponse([])
+
+    try {
+      logger.debug('Bulk deleting ideas:', { count: ids.length })
+
+      const { data, error } = await client
+        .from('ideas')
+        .delete()
+        .in('id', ids)
+        .select('id')
+
+      if (error) {
+        logger.error('Error bulk deleting ideas:', error)
+        return handleSupabaseError<string[]>(error, 'Bulk delete ideas')
+      }
+
+      return createSuccessResponse((data || []).map((row: { id: string }) => row.id))
+    } catch (error) {
+      logger.error('Failed to bulk delete ideas:', error)
+      return createErrorResponse<string[]>(
+        error instanceof Error ? error.message : 'Unknown error occurred',
+        'EXCEPTION'
+      )
+    }
+  }
+
+  /**
+   * Fold duplicate ideas into one (merge_ideas RPC). Moves their votes and
+   * creators to the target, deletes them and logs the merge. A voter who
+   * backed several of them keeps one vote: its weight is their total under
+   * points (or multi-dot dots), otherwise the extra votes are given back.
+   * Returns the merged target.
+   */
+  static async mergeIdeas(
+    input: IdeaMergeInput,
+    client: SupabaseClient = supabase
+  ): Promise<ApiResponse<IdeaCard>> {
+    try {
+      logger.debug('Merging ideas:', { targetId: input.targetId, count: input.sourceIds.length })
+
+      const { data, error } = await client.rpc('merge_ideas', {
+        _target_id: input.targetId,
+        _source_ids: input.sourceIds,
+        _content: input.content,
+        _details: input.details
+      })
+
+      if (error) {
+        logger.error('Error merging ideas:', error)
+        return handleSupabaseError<IdeaCard>(error, 'Merge ideas')
+      }
+
+      return createSuccessResponse(data as IdeaCard)
+    } catch (error) {
+      logger.error('Failed to merge ideas:', error)
+      return createErrorResponse<IdeaCard>(
+        error instanceof Error ? error.message : 'Unknown error occurred',
+        'EXCEPTION'
+      )
+    }
+  }
+
   /**
    * Lock an idea for editing
    */
@@ -0,0 +1,58 @@
+/**
+ * Idea Revision Repository
+ *
+ * Read access to `idea_revisions`, the append-only idea history behind the
+ * matrix timeline. Rows are written by the `record_idea_revision` trigger on
+ * `ideas` (migration 20261019020000), never by the client.
+ */
+
+import { supabase } from '../supabase'
+import type { IdeaRevision } from '../../types'
+import type { ApiResponse } from './types'
+import { createSuccessResponse, createErrorResponse, handleSupabaseError } from './types'
+
+export class IdeaRevisionRepository {
+  /**
+   * Get a project's revisions in chronological order, optionally bounded by time
+   */
+  static async getProjectRevisions(
+    projectId: string,
+    startTime?: string,
+    endTime?: string
+  ): Promise<ApiResponse<IdeaRevision[]>> {
+    try {
+      let query = supabase
+        .from('idea_revisions')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true })
+
+      if (startTime) {
+        query = query.gte('created_at', startTime)
+      }
+
+      if (endTime) {
+        query = query.lte('created_at', endTime)
+      }
+
+      const { data, error } = await query
+
+      if (error) return handleSupabaseError<IdeaRevision[]>(error, 'Get project revisions')
+
+      // numeric columns arrive as strings from PostgREST
+      const revisions = (data || []).map((row: IdeaRevision) => ({
+        ...row,
+        x: Number(row.x),
+        y: Number(row.y),
+        changed_fields: row.changed_fields || []
+      }))
+
+      return createSuccessResponse(revisions)
+    } catch (error) {
+      return createErrorResponse<IdeaRevision[]>(
+        error instanceof Error ? error.message : 'Unknown error',
+        'EXCEPTION'
+      )
+    }
+  }
+}
@@ -9,7 +9,7 @@ export type { ApiResponse } from './types'
 export { createSuccessResponse, createErrorResponse, handleSupabaseError } from './types'
 
 // Re-export commonly used types
-export type { CreateIdeaInput } from './ideaRepository'
+export type { CreateIdeaInput, IdeaBulkUpdate, IdeaMergeInput } from './ideaRepository'
 export type { IdeaCard, Project, User, AuthUser } from '../../types'
 
 // Export admin types
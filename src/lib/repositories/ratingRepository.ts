@@ -0,0 +1,132 @@
+import { supabase } from '../supabase'
+import { logger } from '../../utils/logger'
+import type { IdeaRating } from '../../types'
+
+/**
+ * Rating Repository
+ *
+ * Handles all database operations for `idea_ratings` (blind rating mode).
+ * Visibility is enforced at the database: while a round is collecting, RLS
+ * only returns the caller's own rows; once the facilitator reveals, every
+ * project member can read all rows and writes are rejected. See migration
+ * 20261019010000_blind_idea_ratings.sql.
+ */
+
+/**
+ * Thrown by `clearRatings` on any failure. Resetting a round is a
+ * facilitator action, so callers surface the error instead of rolling back.
+ */
+export class RatingRepositoryError extends Error {
+  override readonly name = 'RatingRepositoryError'
+  readonly cause: unknown
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message)
+    this.cause = options?.cause
+    // Restores correct prototype chain for instanceof checks after transpilation.
+    Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
+
+export type UpsertRatingResult =
+  | { ok: true }
+  | { ok: false; reason: 'locked' | 'unauthorized' | 'unknown' }
+
+/**
+ * Store the current user's private position for an idea.
+ *
+ * RLS rejects writes after reveal and from viewers (Postgres `42501`); both
+ * map to `locked` so the caller can resync its rating state.
+ */
+export async function upsertRating(
+  projectId: string,
+  ideaId: string,
+  x: number,
+  y: number
+): Promise<UpsertRatingResult> {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser()
+    if (userError || !userData?.user) {
+      logger.warn('upsertRating: no authenticated user')
+      return { ok: false, reason: 'unauthorized' }
+    }
+
+    const { error } = await supabase
+      .from('idea_ratings')
+      .upsert(
+        {
+          project_id: projectId,
+          idea_id: ideaId,
+          user_id: userData.user.id,
+          x: Math.round(x),
+          y: Math.round(y),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'idea_id,user_id' }
+      )
+
+    if (error) {
+      const code = (error as { code?: string }).code
+      const message = (error.message || '').toLowerCase()
+      if (code === '42501' || message.includes('row-level security')) {
+        logger.debug('upsertRating: rejected by RLS', { projectId, ideaId })
+        return { ok: false, reason: 'locked' }
+      }
+      logger.error('upsertRating failed', error)
+      return { ok: false, reason: 'unknown' }
+    }
+
+    return { ok: true }
+  } catch (error) {
+    logger.error('upsertRating exception', error)
+    return { ok: false, reason: 'unknown' }
+  }
+}
+
+/**
+ * List ratings for a project. Before reveal this only returns the caller's
+ * own ratings (RLS); after reveal it returns every rater's.
+ */
+export async function listRatingsForProject(projectId: string): Promise<IdeaRating[]> {
+  try {
+    const { data, error } = await supabase
+      .from('idea_ratings')
+      .select('idea_id, user_id, x, y, updated_at')
+      .eq('project_id', projectId)
+    if (error) {
+      logger.error('listRatingsForProject failed', error)
+      return []
+    }
+    // numeric columns arrive as strings from PostgREST
+    return (data ?? []).map((row) => ({
+      ...(row as IdeaRating),
+      x: Number((row as IdeaRating).x),
+      y: Number((row as IdeaRating).y),
+    }))
+  } catch (error) {
+    logger.error('listRatingsForProject exception', error)
+    return []
+  }
+}
+
+/**
+ * Delete every rating in a project (facilitator only, enforced by RLS).
+ */
+export async function clearRatings(projectId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('idea_ratings')
+      .delete()
+      .eq('project_id', projectId)
+    if (error) {
+      logger.error('clearRatings failed', error)
+      throw new RatingRepositoryError(error.message ?? 'clearRatings failed')
+    }
+  } catch (err) {
+    if (err instanceof RatingRepositoryError) {
+      throw err
+    }
+    logger.error('clearRatings exception', err)
+    throw new RatingRepositoryError('clearRatings: unexpected error', { cause: err })
+  }
+}
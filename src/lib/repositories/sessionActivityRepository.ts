@@ -6,7 +6,7 @@
  */
 
 import { supabase, createAuthenticatedClientFromLocalStorage } from '../supabase'
-import type { SessionActivityLog, ApiResponse } from '../../types/BrainstormSession'
+import type { BrainstormRound, SessionActivityLog, ApiResponse } from '../../types/BrainstormSession'
 import { createSuccessResponse, createErrorResponse, handleSupabaseError } from './types'
 
 export class SessionActivityRepository {
@@ -27,6 +27,8 @@ export class SessionActivityRepository {
       | 'session_resumed'
       | 'session_started'
       | 'session_ended'
+      | 'round_started'
+      | 'round_ended'
     ideaId?: string
     snapshotData?: Record<string, unknown>
     ipAddress?: string
@@ -425,4 +427,24 @@ export class SessionActivityRepository {
       }
     })
   }
+
+  /**
+   * Helper: Log a facilitated round starting or ending
+   */
+  static async logRoundChange(
+    sessionId: string,
+    activityType: 'round_started' | 'round_ended',
+    round: BrainstormRound,
+    metadata?: Record<string, unknown>
+  ): Promise<ApiResponse<SessionActivityLog>> {
+    return this.logActivity({
+      sessionId,
+      activityType,
+      snapshotData: {
+        round,
+        timestamp: new Date().toISOString(),
+        ...metadata
+      }
+    })
+  }
 }
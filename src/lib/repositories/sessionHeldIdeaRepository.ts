@@ -0,0 +1,99 @@
+/**
+ * Session Held Idea Repository
+ *
+ * Brainstorm submissions held for facilitator review (session_held_ideas).
+ * Rows are inserted by api/brainstorm/submit-idea.ts; the facilitator
+ * approves them onto the board or rejects them.
+ */
+
+import { supabase } from '../supabase'
+import type { ApiResponse, HeldIdea } from '../../types/BrainstormSession'
+import { createSuccessResponse, createErrorResponse, handleSupabaseError } from './types'
+
+export class SessionHeldIdeaRepository {
+  /**
+   * Get submissions still waiting for review, oldest first
+   */
+  static async getPendingHeldIdeas(sessionId: string): Promise<ApiResponse<HeldIdea[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('session_held_ideas')
+        .select('*')
+        .eq('session_id', sessionId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+
+      if (error) return handleSupabaseError<HeldIdea[]>(error, 'Get pending held ideas')
+
+      return createSuccessResponse(data || [])
+    } catch (error) {
+      return createErrorResponse<HeldIdea[]>(
+        error instanceof Error ? error.message : 'Unknown error',
+        'EXCEPTION'
+      )
+    }
+  }
+
+  /**
+   * Post a held submission to the board, optionally with edited text
+   * @returns ID of the idea created on the board
+   */
+  static async approveHeldIdea(
+    heldIdeaId: string,
+    edits: { content?: string; details?: string } = {}
+  ): Promise<ApiResponse<string>> {
+    try {
+      const { data, error } = await supabase.rpc('approve_held_idea', {
+        _held_id: heldIdeaId,
+        _content: edits.content ?? null,
+        _details: edits.details ?? null
+      })
+
+      if (error) return handleSupabaseError<string>(error, 'Approve held idea')
+
+      return createSuccessResponse(data.id)
+    } catch (error) {
+      return createErrorResponse<string>(
+        error instanceof Error ? error.message : 'Unknown error',
+        'EXCEPTION'
+      )
+    }
+  }
+
+  /**
+   * Reject a held submission so it never reaches the board
+   */
+  static async rejectHeldIdea(heldIdeaId: string): Promise<ApiResponse<null>> {
+    return this.rejectPending('id', heldIdeaId, 'Reject held idea')
+  }
+
+  /**
+   * Reject every pending submission from a participant (when they are banned)
+   */
+  static async rejectParticipantHeldIdeas(participantId: string): Promise<ApiResponse<null>> {
+    return this.rejectPending('participant_id', participantId, 'Reject participant held ideas')
+  }
+
+  private static async rejectPending(
+    column: 'id' | 'participant_id',
+    value: string,
+    operation: string
+  ): Promise<ApiResponse<null>> {
+    try {
+      const { error } = await supabase
+        .from('session_held_ideas')
+        .update({ status: 'rejected', reviewed_at: new Date().toISOString() })
+        .eq(column, value)
+        .eq('status', 'pending')
+
+      if (error) return handleSupabaseError<null>(error, operation)
+
+      return createSuccessResponse(null)
+    } catch (error) {
+      return createErrorResponse<null>(
+        error instanceof Error ? error.message : 'Unknown error',
+        'EXCEPTION'
+      )
+    }
+  }
+}
@@ -12,8 +12,12 @@ import { createSuccessResponse, createErrorResponse, handleSupabaseError } from
 export class SessionParticipantRepository {
   /**
    * Join a session as a participant
+   * @param requireApproval - The session requires the facilitator to approve joiners
    */
-  static async joinSession(input: JoinSessionInput): Promise<ApiResponse<SessionParticipant>> {
+  static async joinSession(
+    input: JoinSessionInput,
+    requireApproval = false
+  ): Promise<ApiResponse<SessionParticipant>> {
     try {
       const { data, error } = await supabase
         .from('session_participants')
@@ -24,14 +28,20 @@ export class SessionParticipantRepository {
             participant_name: input.participantName || this.generateAnonymousName(),
             device_fingerprint: input.deviceFingerprint,
             is_anonymous: !input.userId,
-            is_approved: true, // Auto-approve unless session requires approval
+            is_approved: !requireApproval, // Auto-approve unless session requires approval
             contribution_count: 0
           }
         ])
         .select()
         .single()
 
-      if (error) return handleSupabaseError<SessionParticipant>(error, 'Join session')
+      if (error) {
+        // The enforce_participant_ban trigger refuses joins from a banned device
+        if (error.message?.startsWith('session_participant_banned')) {
+          return createErrorResponse<SessionParticipant>('You have been removed from this session', 'BANNED')
+        }
+        return handleSupabaseError<SessionParticipant>(error, 'Join session')
+      }
 
       return createSuccessResponse(data)
     } catch (error) {
@@ -357,4 +367,32 @@ export class SessionParticipantRepository {
       )
     }
   }
+
+  /**
+   * Ban a participant: disconnect them and refuse rejoins from their device
+   */
+  static async banParticipant(participantId: string): Promise<ApiResponse<SessionParticipant>> {
+    try {
+      const now = new Date().toISOString()
+      const { data, error } = await supabase
+        .from('session_participants')
+        .update({
+          is_approved: false,
+          disconnected_at: now,
+          banned_at: now
+        })
+        .eq('id', participantId)
+        .select()
+        .single()
+
+      if (error) return handleSupabaseError<SessionParticipant>(error, 'Ban participant')
+
+      return createSuccessResponse(data)
+    } catch (error) {
+      return createErrorResponse<SessionParticipant>(
+        error instanceof Error ? error.message : 'Unknown error',
+        'EXCEPTION'
+      )
+    }
+  }
 }
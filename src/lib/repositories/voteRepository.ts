@@ -1,13 +1,20 @@
 import { supabase } from '../supabase'
 import { logger } from '../../utils/logger'
+import { DEFAULT_VOTING_CONFIG, getVotingConfig, tallyVotes, type VotingConfig } from '../../utils/votingSchemes'
 
 /**
  * Vote Repository
  *
  * Handles all database operations for `idea_votes` (Phase 5 dot voting).
- * The 5-dot per-session budget is enforced at the database via an RLS
- * `with check` policy — see migration 20260408_phase5_collab_schema.sql.
- * Repository callers cannot bypass it.
+ * A vote's weight is dots, a rank, a thumb or points depending on the
+ * session's voting scheme (utils/votingSchemes). The scheme and budget are
+ * enforced at the database by the enforce_vote_scheme trigger — see
+ * migration 20261019090000_voting_schemes.sql. Repository callers cannot
+ * bypass it.
+ *
+ * In hidden and anonymous sessions the select policy returns only the
+ * caller's own rows; `fetchSessionTallies` reads the aggregates instead
+ * (migration 20261019100000_vote_visibility.sql).
  */
 
 /**
@@ -30,25 +37,52 @@ export class VoteRepositoryError extends Error {
 
 export type CastVoteResult =
   | { ok: true }
-  | { ok: false; reason: 'budget_exceeded' | 'unauthorized' | 'unknown' }
+  | { ok: false; reason: 'budget_exceeded' | 'invalid_vote' | 'unauthorized' | 'unknown' }
 
 export interface VoteRow {
   user_id: string
   idea_id: string
+  weight: number
+}
+
+/** Aggregated votes on one idea, as returned by session_vote_tallies() */
+export interface VoteTally {
+  idea_id: string
+  score: number
+  voters: number
+  first_choices: number
+}
+
+/**
+ * Map a rejected vote write to a failure reason. The trigger raises 42501
+ * when the budget is spent (as the old RLS check did) and 22023 for a vote
+ * the scheme does not allow.
+ */
+function toVoteFailure(error: { code?: string; message?: string }): CastVoteResult {
+  const message = (error.message || '').toLowerCase()
+  if (error.code === '42501' || message.includes('with check') || message.includes('row-level security')) {
+    return { ok: false, reason: 'budget_exceeded' }
+  }
+  if (error.code === '22023') {
+    return { ok: false, reason: 'invalid_vote' }
+  }
+  return { ok: false, reason: 'unknown' }
 }
 
 /**
- * Cast a single dot vote for the current user against an idea in a session.
- * Returns `{ ok: true }` on success or a discriminated failure reason.
+ * Cast the current user's vote on an idea in a session, with `weight` dots,
+ * rank, thumb or points. Returns `{ ok: true }` on success or a
+ * discriminated failure reason.
  *
- * Budget enforcement: the RLS policy returns Postgres error code `42501`
- * when the user has already cast 5 votes in this session. We map that to
+ * Budget enforcement: the database returns Postgres error code `42501`
+ * when the vote would exceed the session's budget. We map that to
  * `budget_exceeded` so callers can render budget UI without trusting the
  * client-side counter.
  */
 export async function castVote(
   sessionId: string,
-  ideaId: string
+  ideaId: string,
+  weight = 1
 ): Promise<CastVoteResult> {
   try {
     const { data: userData, error: userError } = await supabase.auth.getUser()
@@ -63,19 +97,19 @@ export async function castVote(
         user_id: userData.user.id,
         idea_id: ideaId,
         session_id: sessionId,
+        weight,
       })
       .select()
       .single()
 
     if (error) {
-      const code = (error as { code?: string }).code
-      const message = (error.message || '').toLowerCase()
-      if (code === '42501' || message.includes('with check') || message.includes('row-level security')) {
-        logger.debug('castVote: budget exceeded (RLS rejected)', { sessionId, ideaId })
-        return { ok: false, reason: 'budget_exceeded' }
+      const failure = toVoteFailure(error)
+      if (!failure.ok && failure.reason !== 'unknown') {
+        logger.debug(`castVote: ${failure.reason}`, { sessionId, ideaId, weight })
+      } else {
+        logger.error('castVote failed', error)
       }
-      logger.error('castVote failed', error)
-      return { ok: false, reason: 'unknown' }
+      return failure
     }
 
     return { ok: true }
@@ -85,6 +119,49 @@ export async function castVote(
   }
 }
 
+/**
+ * Change the weight of the current user's existing vote on an idea: add a
+ * dot, move a rank, flip a thumb or reallocate points. Same results as
+ * `castVote`.
+ */
+export async function changeVote(
+  sessionId: string,
+  ideaId: string,
+  weight: number
+): Promise<CastVoteResult> {
+  try {
+    const { data: userData, error: userError } = await supabase.auth.getUser()
+    if (userError || !userData?.user) {
+      logger.warn('changeVote: no authenticated user')
+      return { ok: false, reason: 'unauthorized' }
+    }
+
+    const { error } = await supabase
+      .from('idea_votes')
+      .update({ weight })
+      .eq('user_id', userData.user.id)
+      .eq('session_id', sessionId)
+      .eq('idea_id', ideaId)
+      .select()
+      .single()
+
+    if (error) {
+      const failure = toVoteFailure(error)
+      if (!failure.ok && failure.reason !== 'unknown') {
+        logger.debug(`changeVote: ${failure.reason}`, { sessionId, ideaId, weight })
+      } else {
+        logger.error('changeVote failed', error)
+      }
+      return failure
+    }
+
+    return { ok: true }
+  } catch (error) {
+    logger.error('changeVote exception', error)
+    return { ok: false, reason: 'unknown' }
+  }
+}
+
 /**
  * Remove the current user's vote from an idea in a session.
  * Throws `VoteRepositoryError` on any failure so callers can roll back
@@ -123,7 +200,7 @@ export async function listVotesForSession(sessionId: string): Promise<VoteRow[]>
   try {
     const { data, error } = await supabase
       .from('idea_votes')
-      .select('user_id, idea_id')
+      .select('user_id, idea_id, weight')
       .eq('session_id', sessionId)
     if (error) {
       logger.error('listVotesForSession failed', error)
@@ -157,30 +234,102 @@ export async function countForUser(sessionId: string, userId: string): Promise<n
   }
 }
 
+/**
+ * Server-side tallies for a session without exposing who voted. Returns
+ * `null` when the caller may not see them yet (participants of a hidden or
+ * anonymous session before the reveal) and an empty list on failure.
+ */
+export async function fetchSessionTallies(sessionId: string): Promise<VoteTally[] | null> {
+  try {
+    const { data, error } = await supabase.rpc('session_vote_tallies', { _session_id: sessionId })
+    if (error) {
+      if ((error as { code?: string }).code === '42501') return null
+      logger.error('fetchSessionTallies failed', error)
+      return []
+    }
+    // bigint columns arrive as numbers or numeric strings
+    return ((data ?? []) as Array<Record<keyof VoteTally, string | number>>).map((row) => ({
+      idea_id: String(row.idea_id),
+      score: Number(row.score),
+      voters: Number(row.voters),
+      first_choices: Number(row.first_choices),
+    }))
+  } catch (error) {
+    logger.error('fetchSessionTallies exception', error)
+    return []
+  }
+}
+
 /**
  * Reconnect-time reconciliation: fetch the authoritative tally for every
- * idea in a session and return as `Map<idea_id, count>`. Matches D-16
- * (reconcile authoritative state on reconnect) and the
- * "Vote tally with initial fetch + realtime delta" pattern in 05-RESEARCH.md.
+ * idea in a session and return as `Map<idea_id, score>`, scored by the
+ * session's voting scheme. Matches D-16 (reconcile authoritative state on
+ * reconnect) and the "Vote tally with initial fetch + realtime delta"
+ * pattern in 05-RESEARCH.md.
  */
-export async function reconcileTallies(sessionId: string): Promise<Map<string, number>> {
-  const tallies = new Map<string, number>()
+export async function reconcileTallies(
+  sessionId: string,
+  config: VotingConfig = DEFAULT_VOTING_CONFIG
+): Promise<Map<string, number>> {
   try {
     const { data, error } = await supabase
       .from('idea_votes')
-      .select('idea_id')
+      .select('idea_id, weight')
       .eq('session_id', sessionId)
     if (error) {
       logger.error('reconcileTallies failed', error)
-      return tallies
+      return new Map()
     }
-    for (const row of data ?? []) {
-      const ideaId = (row as { idea_id: string }).idea_id
-      tallies.set(ideaId, (tallies.get(ideaId) ?? 0) + 1)
-    }
-    return tallies
+    return tallyVotes(config, (data ?? []) as Array<{ idea_id: string; weight?: number }>)
   } catch (error) {
     logger.error('reconcileTallies exception', error)
-    return tallies
+    return new Map()
+  }
+}
+
+export interface ProjectVoteRow extends VoteRow {
+  session_id: string
+  session_name: string
+  /** The session's voting settings, which give the weight its meaning */
+  session_voting: VotingConfig
+}
+
+/**
+ * List votes across every brainstorm session of a project, with the session
+ * name and voting settings. Subject to the same RLS as `listVotesForSession`: sessions the user
+ * did not take part in contribute no rows. Used by the spreadsheet export.
+ */
+export async function listVotesForProject(projectId: string): Promise<ProjectVoteRow[]> {
+  try {
+    const { data: sessions, error: sessionError } = await supabase
+      .from('brainstorm_sessions')
+      .select('id, name, voting_scheme, vote_budget, allow_multiple_votes, vote_visibility, votes_revealed_at')
+      .eq('project_id', projectId)
+    if (sessionError) {
+      logger.error('listVotesForProject sessions failed', sessionError)
+      return []
+    }
+    if (!sessions || sessions.length === 0) return []
+
+    const byId = new Map(
+      (sessions as Array<Parameters<typeof getVotingConfig>[0] & { id: string; name: string }>)
+        .map((session) => [session.id, { name: session.name, voting: getVotingConfig(session) }])
+    )
+    const { data, error } = await supabase
+      .from('idea_votes')
+      .select('session_id, user_id, idea_id, weight')
+      .in('session_id', [...byId.keys()])
+    if (error) {
+      logger.error('listVotesForProject failed', error)
+      return []
+    }
+    return ((data ?? []) as Array<Omit<ProjectVoteRow, 'session_name' | 'session_voting'>>).map((row) => ({
+      ...row,
+      session_name: byId.get(row.session_id)?.name ?? '',
+      session_voting: byId.get(row.session_id)?.voting ?? DEFAULT_VOTING_CONFIG
+    }))
+  } catch (error) {
+    logger.error('listVotesForProject exception', error)
+    return []
   }
 }
@@ -9,8 +9,10 @@
 import { BrainstormSessionRepository } from '../repositories/brainstormSessionRepository'
 import { SessionParticipantRepository } from '../repositories/sessionParticipantRepository'
 import { SessionActivityRepository } from '../repositories/sessionActivityRepository'
+import { SessionHeldIdeaRepository } from '../repositories/sessionHeldIdeaRepository'
 import { getRateLimitService } from './RateLimitService'
 import { logger } from '../../utils/logger'
+import { getRoundPrompts } from '../../utils/brainstormTechniques'
 import {
   generateAccessToken,
   generateJoinCode,
@@ -20,6 +22,7 @@ import {
   isSessionExpired
 } from '../security/brainstormSecurity'
 import type {
+  BrainstormRound,
   BrainstormSession,
   CreateSessionInput,
   CreateSessionResponse,
@@ -31,6 +34,9 @@ import type {
   EndSessionResponse,
   ToggleSessionPauseInput,
   ToggleSessionPauseResponse,
+  SetSessionRoundResponse,
+  ModerationActionResponse,
+  HeldIdea,
   SubmitIdeaInput,
   SubmitIdeaResponse
 } from '../../types/BrainstormSession'
@@ -68,7 +74,8 @@ export class BrainstormSessionService {
       await SessionActivityRepository.logSessionStateChange(session.id, 'session_started', {
         name: session.name,
         facilitator_id: session.facilitator_id,
-        max_participants: session.max_participants
+        max_participants: session.max_participants,
+        technique: session.technique ?? null
       })
 
       // Generate QR code data (full URL for mobile join)
@@ -273,11 +280,15 @@ export class BrainstormSessionService {
         ? sanitizeParticipantName(input.participantName)
         : undefined
 
-      // Create participant
-      const participantResult = await SessionParticipantRepository.joinSession({
-        ...input,
-        participantName: sanitizedName
-      })
+      // Create participant (pending until approved if the session requires approval).
+      // The database refuses devices the facilitator banned.
+      const participantResult = await SessionParticipantRepository.joinSession(
+        {
+          ...input,
+          participantName: sanitizedName
+        },
+        session.require_approval
+      )
 
       if (!participantResult.success || !participantResult.data) {
         return {
@@ -442,6 +453,180 @@ export class BrainstormSessionService {
     }
   }
 
+  /**
+   * Start a facilitated round, ending the one in progress. A null round
+   * returns the session to a single open-ended phase.
+   * @param durationMinutes - Round timer; omit for an untimed round
+   */
+  static async setRound(
+    sessionId: string,
+    round: BrainstormRound | null,
+    durationMinutes?: number
+  ): Promise<SetSessionRoundResponse> {
+    try {
+      const sessionResult = await BrainstormSessionRepository.getSessionById(sessionId)
+
+      if (!sessionResult.success || !sessionResult.data) {
+        return {
+          success: false,
+          error: 'Session not found'
+        }
+      }
+
+      const previous = sessionResult.data
+      const roundEndsAt =
+        round && durationMinutes ? new Date(Date.now() + durationMinutes * 60000).toISOString() : null
+      // Participants start on the round's first technique prompt
+      const firstPrompt = round ? getRoundPrompts(previous, round)[0] : undefined
+      const result = await BrainstormSessionRepository.setRound(
+        sessionId,
+        round,
+        roundEndsAt,
+        firstPrompt?.id ?? null
+      )
+
+      if (!result.success || !result.data) {
+        return {
+          success: false,
+          error: result.error || 'Failed to change round'
+        }
+      }
+
+      if (previous.current_round) {
+        await SessionActivityRepository.logRoundChange(sessionId, 'round_ended', previous.current_round, {
+          ended_early: !!previous.round_ends_at && new Date(previous.round_ends_at).getTime() > Date.now()
+        })
+      }
+      if (round) {
+        await SessionActivityRepository.logRoundChange(sessionId, 'round_started', round, {
+          duration_minutes: durationMinutes ?? null,
+          ends_at: roundEndsAt,
+          prompt_id: firstPrompt?.id ?? null
+        })
+      }
+
+      return {
+        success: true,
+        session: result.data
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * Show participants another prompt of the current round
+   */
+  static async setCurrentPrompt(sessionId: string, promptId: string): Promise<SetSessionRoundResponse> {
+    const result = await BrainstormSessionRepository.setCurrentPrompt(sessionId, promptId)
+
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error || 'Failed to change prompt'
+      }
+    }
+
+    return {
+      success: true,
+      session: result.data
+    }
+  }
+
+  /**
+   * Show participants the votes of a hidden or anonymous session
+   */
+  static async revealVotes(sessionId: string): Promise<SetSessionRoundResponse> {
+    const result = await BrainstormSessionRepository.revealVotes(sessionId)
+
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error || 'Failed to reveal votes'
+      }
+    }
+
+    return {
+      success: true,
+      session: result.data
+    }
+  }
+
+  /**
+   * Turn facilitator approval of new participants on or off
+   */
+  static async setRequireApproval(
+    sessionId: string,
+    requireApproval: boolean
+  ): Promise<ModerationActionResponse> {
+    const result = await BrainstormSessionRepository.setRequireApproval(sessionId, requireApproval)
+    return { success: result.success, error: result.error }
+  }
+
+  /**
+   * Let a pending participant submit ideas
+   */
+  static async approveParticipant(participantId: string): Promise<ModerationActionResponse> {
+    const result = await SessionParticipantRepository.approveParticipant(participantId)
+    return { success: result.success, error: result.error }
+  }
+
+  /**
+   * Turn away a pending participant
+   */
+  static async rejectParticipant(participantId: string): Promise<ModerationActionResponse> {
+    const result = await SessionParticipantRepository.rejectParticipant(participantId)
+    return { success: result.success, error: result.error }
+  }
+
+  /**
+   * Remove a participant for the rest of the session and reject their held ideas
+   */
+  static async banParticipant(participantId: string): Promise<ModerationActionResponse> {
+    const result = await SessionParticipantRepository.banParticipant(participantId)
+    if (!result.success) {
+      return { success: false, error: result.error }
+    }
+
+    const rejected = await SessionHeldIdeaRepository.rejectParticipantHeldIdeas(participantId)
+    return { success: rejected.success, error: rejected.error }
+  }
+
+  /**
+   * Post a held idea to the board, with the facilitator's edits if any
+   */
+  static async approveHeldIdea(
+    heldIdeaId: string,
+    edits?: { content?: string; details?: string }
+  ): Promise<ModerationActionResponse> {
+    const result = await SessionHeldIdeaRepository.approveHeldIdea(heldIdeaId, edits)
+    return { success: result.success, error: result.error }
+  }
+
+  /**
+   * Get submissions waiting for the facilitator's review
+   */
+  static async getPendingHeldIdeas(sessionId: string): Promise<HeldIdea[]> {
+    try {
+      const result = await SessionHeldIdeaRepository.getPendingHeldIdeas(sessionId)
+      return result.success && result.data ? result.data : []
+    } catch (error) {
+      console.error('Error getting held ideas:', error)
+      return []
+    }
+  }
+
+  /**
+   * Discard a held idea
+   */
+  static async rejectHeldIdea(heldIdeaId: string): Promise<ModerationActionResponse> {
+    const result = await SessionHeldIdeaRepository.rejectHeldIdea(heldIdeaId)
+    return { success: result.success, error: result.error }
+  }
+
   /**
    * Submit an idea to a brainstorm session (Phase Three: Mobile UI)
    *
@@ -500,7 +685,7 @@ export class BrainstormSessionService {
       logger.debug('[BrainstormSessionService] Response text (first 500 chars):', responseText.substring(0, 500))
 
       // Try to parse as JSON
-      let responseData: { success?: boolean; error?: string; code?: string; idea?: { id: string } }
+      let responseData: SubmitIdeaResponse
       try {
         responseData = JSON.parse(responseText)
       } catch (_parseError) {
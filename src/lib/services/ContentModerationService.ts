@@ -7,6 +7,7 @@
  */
 
 import { isFeatureEnabled } from '../config'
+import type { IdeaModerationFlag } from '../../types/BrainstormSession'
 
 export interface ModerationResult {
   valid: boolean
@@ -175,6 +176,30 @@ export class ContentModerationService {
     }
   }
 
+  /**
+   * Flag content for facilitator review instead of rejecting it. Flagged
+   * submissions are held in the moderation queue; the server applies the
+   * same checks in api/brainstorm/submit-idea.ts.
+   */
+  static flagIdeaContent(content: string, details?: string): IdeaModerationFlag[] {
+    const text = [content, details].filter(Boolean).join('\n')
+    const flags: IdeaModerationFlag[] = []
+
+    if (this.containsProfanity(text)) {
+      flags.push('profanity')
+    }
+    const withoutLinks = text.replace(/https?:\/\/\S+|www\.\S+/gi, ' ')
+    if (withoutLinks !== text) {
+      flags.push('link')
+    }
+    // String.match ignores lastIndex, unlike test() on the global patterns
+    if (this.SPAM_PATTERNS.some((pattern) => withoutLinks.match(pattern))) {
+      flags.push('spam')
+    }
+
+    return flags
+  }
+
   /**
    * Validate participant name
    */
@@ -240,6 +265,7 @@ export class ContentModerationService {
    */
   private static containsProfanity(text: string): boolean {
     for (const pattern of this.PROFANITY_PATTERNS) {
+      pattern.lastIndex = 0
       if (pattern.test(text)) {
         return true
       }
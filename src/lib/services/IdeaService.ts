@@ -77,6 +77,22 @@ export class IdeaService extends BaseService {
         query = query.eq('priority', options.priority)
       }
 
+      if (options?.createdBy) {
+        query = query.eq('created_by', options.createdBy)
+      }
+
+      if (options?.tags?.length) {
+        query = query.overlaps('tags', options.tags)
+      }
+
+      if (options?.createdAfter) {
+        query = query.gte('created_at', options.createdAfter)
+      }
+
+      if (options?.createdBefore) {
+        query = query.lte('created_at', options.createdBefore)
+      }
+
       if (options?.limit) {
         query = query.limit(options.limit)
       }
@@ -0,0 +1,230 @@
+/**
+ * ProjectBackupService - Full project backup and restore
+ *
+ * Reads a project and everything attached to it into a versioned JSON
+ * archive (see lib/backup/projectArchive), and restores an archive either as
+ * a new project or merged into an existing one. Restores run once without
+ * retries: a retried partial restore would duplicate rows.
+ */
+
+import { BaseService } from './BaseService'
+import type { Project, ProjectFile } from '../../types'
+import type { BrainstormSession } from '../../types/BrainstormSession'
+import type { ServiceResult, ServiceOptions } from '../../types/service'
+import {
+  createProjectArchive,
+  planProjectRestore,
+  type ArchivedInsight,
+  type ArchivedRoadmap,
+  type ArchivedVote,
+  type ProjectArchive,
+  type ProjectRestoreConflict
+} from '../backup/projectArchive'
+import { generateAccessToken, generateJoinCode } from '../security/brainstormSecurity'
+import { logger } from '../../utils/logger'
+
+export interface ProjectRestoreResult {
+  project: Project
+  restored: {
+    ideas: number
+    roadmaps: number
+    insights: number
+    sessions: number
+    votes: number
+  }
+  conflicts: ProjectRestoreConflict[]
+}
+
+export interface ProjectRestoreOptions extends ServiceOptions {
+  userId: string
+  /** Merge into this project instead of creating a new one */
+  targetProject?: Project | null
+}
+
+// Same shape IdeaService uses for new idea IDs
+const createIdeaId = () => crypto.randomUUID().replace(/-/g, '').substring(0, 16)
+
+export class ProjectBackupService extends BaseService {
+  /**
+   * Read a project and its ideas, roadmaps, insights, file metadata,
+   * brainstorm sessions and votes into an archive
+   */
+  static async exportProject(
+    projectId: string,
+    options?: ServiceOptions
+  ): Promise<ServiceResult<ProjectArchive>> {
+    const context = this.createContext('exportProject', options?.userId, projectId)
+
+    return this.executeWithRetry(async () => {
+      const supabase = this.getSupabaseClient()
+
+      const { data: project, error: projectError } = await supabase
+        .from('projects')
+        .select('*')
+        .eq('id', projectId)
+        .single()
+      if (projectError) throw projectError
+
+      const [ideas, roadmaps, insights, files, sessions] = await Promise.all([
+        supabase.from('ideas').select('*').eq('project_id', projectId).order('created_at', { ascending: true }),
+        supabase.from('project_roadmaps').select('*').eq('project_id', projectId).order('version', { ascending: true }),
+        supabase.from('project_insights').select('*').eq('project_id', projectId).order('version', { ascending: true }),
+        supabase.from('project_files').select('*').eq('project_id', projectId),
+        supabase.from('brainstorm_sessions').select('*').eq('project_id', projectId)
+      ])
+      for (const result of [ideas, roadmaps, insights, files, sessions]) {
+        if (result.error) throw result.error
+      }
+
+      // Votes are only readable by session participants; others' sessions export without them
+      const sessionIds = (sessions.data ?? []).map((session: BrainstormSession) => session.id)
+      let votes: ArchivedVote[] = []
+      if (sessionIds.length > 0) {
+        const { data, error } = await supabase
+          .from('idea_votes')
+          .select('session_id, idea_id, user_id, weight')
+          .in('session_id', sessionIds)
+        if (error) throw error
+        votes = data ?? []
+      }
+
+      return createProjectArchive({
+        project: project as Project,
+        ideas: ideas.data ?? [],
+        roadmaps: (roadmaps.data ?? []) as ArchivedRoadmap[],
+        insights: (insights.data ?? []) as ArchivedInsight[],
+        files: (files.data ?? []) as ProjectFile[],
+        sessions: (sessions.data ?? []) as BrainstormSession[],
+        votes
+      }, options?.userId)
+    }, context)
+  }
+
+  /**
+   * Restore an archive with new IDs. Without a target project a new project
+   * is created (renamed if the user already has one with that name); a failed
+   * restore removes it again.
+   */
+  static async restoreProject(
+    archive: ProjectArchive,
+    options: ProjectRestoreOptions
+  ): Promise<ServiceResult<ProjectRestoreResult>> {
+    const context = this.createContext('restoreProject', options.userId, options.targetProject?.id)
+
+    return this.executeWithRetry(async () => {
+      const supabase = this.getSupabaseClient()
+      const conflicts: ProjectRestoreConflict[] = []
+      let project = options.targetProject ?? null
+      let createdProjectId: string | null = null
+
+      try {
+        if (!project) {
+          const { data: sameName, error: nameError } = await supabase
+            .from('projects')
+            .select('id')
+            .eq('owner_id', options.userId)
+            .eq('name', archive.project.name)
+          if (nameError) throw nameError
+
+          let name = archive.project.name
+          if (sameName && sameName.length > 0) {
+            name = `${archive.project.name} (restored)`
+            conflicts.push({ kind: 'project_renamed', message: `A project named "${archive.project.name}" exists; restored as "${name}"` })
+          }
+
+          const { id: _sourceId, created_at: _createdAt, settings: _settings, ...fields } = archive.project
+          const { data, error } = await supabase
+            .from('projects')
+            .insert([{ ...fields, name, owner_id: options.userId }])
+            .select()
+            .single()
+          if (error) throw error
+          project = data as Project
+          createdProjectId = project.id
+        }
+        const projectId = project.id
+
+        let existingIdeas: Array<{ id: string; content: string }> = []
+        const versionOffset = { roadmaps: 0, insights: 0 }
+        if (!createdProjectId) {
+          const [ideas, roadmaps, insights] = await Promise.all([
+            supabase.from('ideas').select('id, content').eq('project_id', projectId),
+            supabase.from('project_roadmaps').select('version').eq('project_id', projectId).order('version', { ascending: false }).limit(1),
+            supabase.from('project_insights').select('version').eq('project_id', projectId).order('version', { ascending: false }).limit(1)
+          ])
+          for (const result of [ideas, roadmaps, insights]) {
+            if (result.error) throw result.error
+          }
+          existingIdeas = ideas.data ?? []
+          versionOffset.roadmaps = roadmaps.data?.[0]?.version ?? 0
+          versionOffset.insights = insights.data?.[0]?.version ?? 0
+        }
+
+        const plan = planProjectRestore(archive, {
+          projectId,
+          userId: options.userId,
+          existingIdeas,
+          versionOffset,
+          createIdeaId,
+          createId: () => crypto.randomUUID()
+        })
+        conflicts.push(...plan.conflicts)
+
+        // A merge keeps the target's settings; a new project takes the archived ones
+        if (createdProjectId && plan.settings) {
+          const { data, error } = await supabase
+            .from('projects')
+            .update({ settings: plan.settings })
+            .eq('id', projectId)
+            .select()
+            .single()
+          if (error) throw error
+          project = data as Project
+        }
+
+        // Sessions first: ideas and votes reference them
+        if (plan.sessions.length > 0) {
+          const { error } = await supabase.from('brainstorm_sessions').insert(
+            plan.sessions.map((session) => ({
+              ...session,
+              access_token: generateAccessToken(),
+              join_code: generateJoinCode(),
+              expires_at: session.ended_at ?? session.created_at
+            }))
+          )
+          if (error) throw error
+        }
+        const inserts: Array<[string, unknown[]]> = [
+          ['ideas', plan.ideas],
+          ['project_roadmaps', plan.roadmaps],
+          ['project_insights', plan.insights],
+          ['idea_votes', plan.votes]
+        ]
+        for (const [table, rows] of inserts) {
+          if (rows.length === 0) continue
+          const { error } = await supabase.from(table).insert(rows)
+          if (error) throw error
+        }
+
+        logger.debug('🗃️ ProjectBackupService: Restored archive into project:', projectId)
+        return {
+          project,
+          restored: {
+            ideas: plan.ideas.length,
+            roadmaps: plan.roadmaps.length,
+            insights: plan.insights.length,
+            sessions: plan.sessions.length,
+            votes: plan.votes.length
+          },
+          conflicts
+        }
+      } catch (error) {
+        if (createdProjectId) {
+          const { error: cleanupError } = await supabase.from('projects').delete().eq('id', createdProjectId)
+          if (cleanupError) logger.error('Failed to remove partially restored project:', cleanupError)
+        }
+        throw error
+      }
+    }, context, 0)
+  }
+}
@@ -459,4 +459,20 @@ describe('ContentModerationService', () => {
       expect(result.valid).toBe(true)
     })
   })
+  describe('Flagging for Review', () => {
+    it('should not flag ordinary ideas', () => {
+      expect(ContentModerationService.flagIdeaContent('Add offline mode to the mobile app')).toEqual([])
+    })
+
+    it('should flag profanity, links and spam patterns', () => {
+      expect(ContentModerationService.flagIdeaContent('This damn form is slow')).toEqual(['profanity'])
+      expect(ContentModerationService.flagIdeaContent('Copy this', 'See https://example.com/x')).toEqual(['link'])
+      expect(ContentModerationService.flagIdeaContent('Call 5551234567890 now')).toEqual(['spam'])
+    })
+
+    it('should flag consistently across repeated calls', () => {
+      expect(ContentModerationService.flagIdeaContent('damn')).toEqual(['profanity'])
+      expect(ContentModerationService.flagIdeaContent('damn')).toEqual(['profanity'])
+    })
+  })
 })
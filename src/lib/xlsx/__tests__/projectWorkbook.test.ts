@@ -0,0 +1,147 @@
+/**
+ * projectWorkbook tests — workbook sheets and the Ideas sheet import diff
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { IdeaCard, RoadmapData } from '../../../types'
+import { IDEAS_SHEET, MILESTONES_SHEET, VOTES_SHEET, EPICS_SHEET, buildProjectWorkbook, loadExcelJS } from '../projectWorkbook'
+import { parseIdeaWorkbook } from '../ideaWorkbookImport'
+import { resolveMatrixConfig } from '../../../utils/matrixQuadrant'
+import type { VotingConfig } from '../../../utils/votingSchemes'
+
+vi.mock('../../logging', () => ({
+  logger: { withContext: () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }) }
+}))
+vi.mock('../../services/IdeaService', () => ({ IdeaService: {} }))
+
+const idea = (id: string, overrides: Partial<IdeaCard> = {}): IdeaCard => ({
+  id,
+  content: `Idea ${id}`,
+  details: '',
+  x: 100,
+  y: 100,
+  priority: 'moderate',
+  created_by: 'user-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides
+})
+
+const ideas = [idea('a', { tags: ['Mobile'] }), idea('b', { x: 400, y: 400 }), idea('c')]
+
+const roadmap = {
+  roadmapAnalysis: {
+    totalDuration: '8 weeks',
+    phases: [{ phase: 'Build', duration: '8 weeks', description: '', risks: [], successCriteria: [], epics: [
+      { title: 'Onboarding', description: 'First run', userStories: [], deliverables: ['Wizard'], priority: 'high', complexity: 'medium', relatedIdeas: ['Idea a'] }
+    ] }]
+  },
+  executionStrategy: { methodology: 'Scrum', sprintLength: '2 weeks', teamRecommendations: '', keyMilestones: [{ milestone: 'Beta', timeline: 'Week 4', description: 'Invite testers' }] }
+} as unknown as RoadmapData
+
+const dots: VotingConfig = { scheme: 'dots', budget: 5, allowMultiple: true }
+const ranked: VotingConfig = { scheme: 'ranked', budget: 3, allowMultiple: false }
+
+async function createWorkbook() {
+  const ExcelJS = await loadExcelJS()
+  const workbook = new ExcelJS.Workbook()
+  buildProjectWorkbook(workbook, {
+    projectName: 'Launch',
+    ideas,
+    roadmap,
+    votes: [
+      { session_id: 's1', session_name: 'Kickoff', session_voting: dots, idea_id: 'a', user_id: 'u1', weight: 2 },
+      { session_id: 's1', session_name: 'Kickoff', session_voting: dots, idea_id: 'b', user_id: 'u2', weight: 1 },
+      { session_id: 's2', session_name: 'Review', session_voting: ranked, idea_id: 'a', user_id: 'u1', weight: 1 },
+      { session_id: 's2', session_name: 'Review', session_voting: ranked, idea_id: 'b', user_id: 'u1', weight: 2 },
+      { session_id: 's2', session_name: 'Review', session_voting: ranked, idea_id: 'b', user_id: 'u2', weight: 1 }
+    ]
+  })
+  return workbook
+}
+
+describe('projectWorkbook', () => {
+  it('writes ideas with their quadrant, roadmap sheets and vote tallies', async () => {
+    const workbook = await createWorkbook()
+
+    const ideasSheet = workbook.getWorksheet(IDEAS_SHEET)!
+    expect(ideasSheet.rowCount).toBe(4)
+    expect(ideasSheet.getRow(2).getCell(7).value).toBe('Quick Wins')
+    expect(ideasSheet.getRow(3).getCell(7).value).toBe('Avoid')
+    expect(ideasSheet.getRow(2).getCell(8).value).toBe('Mobile')
+
+    expect(workbook.getWorksheet(EPICS_SHEET)!.getRow(2).getCell(3).value).toBe('Onboarding')
+    expect(workbook.getWorksheet(MILESTONES_SHEET)!.getRow(2).getCell(1).value).toBe('Beta')
+
+    const votes = workbook.getWorksheet(VOTES_SHEET)!
+    expect(votes.getRow(2).values).toEqual([undefined, 'Kickoff', 'a', 'Idea a', 2, 1])
+    expect(votes.getRow(3).values).toEqual([undefined, 'Kickoff', 'b', 'Idea b', 1, 1])
+    // Ranked choice scores a first choice highest
+    expect(votes.getRow(4).values).toEqual([undefined, 'Review', 'b', 'Idea b', 5, 2])
+    expect(votes.getRow(5).values).toEqual([undefined, 'Review', 'a', 'Idea a', 3, 1])
+  })
+
+  it('labels quadrants from the project\'s matrix', async () => {
+    const ExcelJS = await loadExcelJS()
+    const workbook = new ExcelJS.Workbook()
+    buildProjectWorkbook(workbook, {
+      projectName: 'Launch',
+      ideas: [idea('m', { x: 200, y: 100 })],
+      matrixConfig: resolveMatrixConfig({ layout: '3x3' })
+    })
+
+    expect(workbook.getWorksheet(IDEAS_SHEET)!.getRow(2).getCell(7).value).toBe('Major Projects')
+  })
+
+  it('turns an edited Ideas sheet into updates and new ideas', async () => {
+    const workbook = await createWorkbook()
+    const sheet = workbook.getWorksheet(IDEAS_SHEET)!
+    sheet.getRow(2).getCell(2).value = 'Idea a (renamed)'
+    sheet.getRow(2).getCell(8).value = 'Mobile, web, mobile'
+    sheet.getRow(3).getCell(7).value = 'Quick Wins' // computed column, ignored
+    sheet.addRow(['', 'Brand new', 'From the sheet', 'high', 50, 60])
+
+    const diff = await parseIdeaWorkbook(await workbook.xlsx.writeBuffer() as ArrayBuffer, ideas)
+
+    expect(diff.errors).toEqual([])
+    expect(diff.unchanged).toBe(2)
+    expect(diff.updates).toEqual([{
+      row: 2,
+      id: 'a',
+      title: 'Idea a',
+      changes: { content: 'Idea a (renamed)', tags: ['Mobile', 'web'] },
+      fields: [
+        { field: 'content', from: 'Idea a', to: 'Idea a (renamed)' },
+        { field: 'tags', from: 'Mobile', to: 'Mobile, web' }
+      ]
+    }])
+    expect(diff.creates).toEqual([{
+      row: 5,
+      idea: { content: 'Brand new', details: 'From the sheet', priority: 'high', x: 50, y: 60, tags: [] }
+    }])
+  })
+
+  it('reports invalid rows and unknown IDs without applying them', async () => {
+    const workbook = await createWorkbook()
+    const sheet = workbook.getWorksheet(IDEAS_SHEET)!
+    sheet.getRow(2).getCell(4).value = 'urgent'
+    sheet.getRow(3).getCell(5).value = 900
+    sheet.addRow(['zzz', 'Ghost'])
+
+    const diff = await parseIdeaWorkbook(await workbook.xlsx.writeBuffer() as ArrayBuffer, ideas)
+
+    expect(diff.updates).toEqual([])
+    expect(diff.unchanged).toBe(1)
+    expect(diff.notInSheet).toBe(2)
+    expect(diff.errors).toEqual([
+      'Row 2: Priority "urgent" is not one of low, moderate, high, strategic, innovation',
+      'Row 3: X Position must be a number from 0 to 520',
+      'Row 5: no idea with ID "zzz" in this project — clear the ID to add it as a new idea'
+    ])
+  })
+
+  it('rejects files that are not workbooks', async () => {
+    const diff = await parseIdeaWorkbook(new TextEncoder().encode('id,title').buffer as ArrayBuffer, ideas)
+    expect(diff.errors).toEqual(['File is not a valid Excel workbook'])
+  })
+})
@@ -0,0 +1,253 @@
+/**
+ * Idea Workbook Import
+ * Reads an edited project workbook back and turns its Ideas sheet into a
+ * diff against the current ideas
+ *
+ * Rows with an ID update that idea; rows without one create new ideas.
+ * Ideas missing from the sheet are kept — an import never deletes. The diff
+ * is shown as a preview and only applied (through IdeaService) once the user
+ * confirms.
+ *
+ * @module ideaWorkbookImport
+ */
+
+import type { Workbook } from 'exceljs'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { IdeaCard } from '../../types'
+import { IdeaService } from '../services/IdeaService'
+import { MATRIX_COORDINATE_MAX } from '../../utils/matrixQuadrant'
+import { IDEAS_SHEET, IDEA_COLUMNS, TAG_SEPARATOR, loadExcelJS, type IdeaColumnKey } from './projectWorkbook'
+
+const PRIORITIES: ReadonlyArray<IdeaCard['priority']> = ['low', 'moderate', 'high', 'strategic', 'innovation']
+
+// Stop listing problems after this many; the file is likely not ours
+const MAX_ERRORS = 20
+
+export type EditableIdeaField = 'content' | 'details' | 'priority' | 'x' | 'y' | 'tags'
+
+export interface IdeaSheetRow {
+  /** Spreadsheet row number, for messages */
+  row: number
+  id: string | null
+  fields: Partial<Pick<IdeaCard, EditableIdeaField>>
+}
+
+export interface IdeaFieldChange {
+  field: EditableIdeaField
+  from: string
+  to: string
+}
+
+export interface IdeaWorkbookUpdate {
+  row: number
+  id: string
+  title: string
+  changes: Partial<Pick<IdeaCard, EditableIdeaField>>
+  fields: IdeaFieldChange[]
+}
+
+export interface IdeaWorkbookCreate {
+  row: number
+  idea: Pick<IdeaCard, EditableIdeaField>
+}
+
+export interface IdeaWorkbookDiff {
+  creates: IdeaWorkbookCreate[]
+  updates: IdeaWorkbookUpdate[]
+  unchanged: number
+  /** Ideas in the project with no row in the sheet; they are left as they are */
+  notInSheet: number
+  errors: string[]
+}
+
+export interface IdeaWorkbookApplyResult {
+  created: number
+  updated: number
+  failures: string[]
+}
+
+/** Plain text of a cell, whatever exceljs stored (rich text, links, formulas) */
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') {
+    const cell = value as { richText?: Array<{ text: string }>; text?: unknown; result?: unknown }
+    if (cell.richText) return cell.richText.map((run) => run.text).join('')
+    if (cell.text !== undefined) return cellText(cell.text)
+    if (cell.result !== undefined) return cellText(cell.result)
+    return ''
+  }
+  return String(value).trim()
+}
+
+export function parseTags(text: string): string[] {
+  const seen = new Set<string>()
+  return text
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const key = tag.toLowerCase()
+      if (!tag || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+/**
+ * Read the Ideas sheet. Columns are found by header; columns that are
+ * missing are left out of every row rather than cleared.
+ */
+export function readIdeaSheet(workbook: Workbook): { rows: IdeaSheetRow[]; errors: string[] } {
+  const sheet = workbook.getWorksheet(IDEAS_SHEET)
+  if (!sheet) return { rows: [], errors: [`The workbook has no "${IDEAS_SHEET}" sheet`] }
+
+  const columnIndex = new Map<IdeaColumnKey, number>()
+  sheet.getRow(1).eachCell((cell, colNumber) => {
+    const column = IDEA_COLUMNS.find((candidate) => candidate.header.toLowerCase() === cellText(cell.value).toLowerCase())
+    if (column?.editable) columnIndex.set(column.key, colNumber)
+  })
+  if (!columnIndex.has('content')) return { rows: [], errors: [`The "${IDEAS_SHEET}" sheet has no Title column`] }
+
+  const rows: IdeaSheetRow[] = []
+  const errors: string[] = []
+  const read = (rowNumber: number, key: IdeaColumnKey) => {
+    const index = columnIndex.get(key)
+    return index === undefined ? null : cellText(sheet.getRow(rowNumber).getCell(index).value)
+  }
+
+  for (let rowNumber = 2; rowNumber <= sheet.rowCount && errors.length < MAX_ERRORS; rowNumber++) {
+    const id = read(rowNumber, 'id') || null
+    const content = read(rowNumber, 'content') ?? ''
+    const details = read(rowNumber, 'details')
+    const priority = read(rowNumber, 'priority')
+    const x = read(rowNumber, 'x')
+    const y = read(rowNumber, 'y')
+    const tags = read(rowNumber, 'tags')
+
+    if (!id && !content && !details && !priority && !x && !y && !tags) continue
+    if (!content) {
+      errors.push(`Row ${rowNumber}: Title is required`)
+      continue
+    }
+
+    const fields: IdeaSheetRow['fields'] = { content }
+    const rowErrors: string[] = []
+    if (details !== null) fields.details = details
+    if (priority) {
+      const value = priority.toLowerCase() as IdeaCard['priority']
+      if (PRIORITIES.includes(value)) fields.priority = value
+      else rowErrors.push(`Row ${rowNumber}: Priority "${priority}" is not one of ${PRIORITIES.join(', ')}`)
+    }
+    for (const [key, label, raw] of [['x', 'X Position', x], ['y', 'Y Position', y]] as const) {
+      if (!raw) continue
+      const value = Number(raw)
+      if (Number.isFinite(value) && value >= 0 && value <= MATRIX_COORDINATE_MAX) fields[key] = Math.round(value)
+      else rowErrors.push(`Row ${rowNumber}: ${label} must be a number from 0 to ${MATRIX_COORDINATE_MAX}`)
+    }
+    if (tags !== null) fields.tags = parseTags(tags)
+
+    if (rowErrors.length > 0) errors.push(...rowErrors)
+    else rows.push({ row: rowNumber, id, fields })
+  }
+
+  if (errors.length >= MAX_ERRORS) errors.push('Too many problems; stopped reading the sheet')
+  return { rows, errors }
+}
+
+const formatValue = (field: EditableIdeaField, value: unknown) =>
+  field === 'tags' ? ((value as string[] | undefined) ?? []).join(TAG_SEPARATOR) : String(value ?? '')
+
+/**
+ * Compare sheet rows with the project's current ideas
+ */
+export function diffIdeaRows(rows: IdeaSheetRow[], existing: IdeaCard[], errors: string[] = []): IdeaWorkbookDiff {
+  const byId = new Map(existing.map((idea) => [idea.id, idea]))
+  const seen = new Set<string>()
+  const diff: IdeaWorkbookDiff = { creates: [], updates: [], unchanged: 0, notInSheet: 0, errors: [...errors] }
+
+  for (const row of rows) {
+    if (!row.id) {
+      diff.creates.push({
+        row: row.row,
+        idea: {
+          content: row.fields.content ?? '',
+          details: row.fields.details ?? '',
+          priority: row.fields.priority ?? 'moderate',
+          x: row.fields.x ?? MATRIX_COORDINATE_MAX / 2,
+          y: row.fields.y ?? MATRIX_COORDINATE_MAX / 2,
+          tags: row.fields.tags ?? []
+        }
+      })
+      continue
+    }
+
+    const idea = byId.get(row.id)
+    if (!idea) {
+      diff.errors.push(`Row ${row.row}: no idea with ID "${row.id}" in this project — clear the ID to add it as a new idea`)
+      continue
+    }
+    if (seen.has(row.id)) {
+      diff.errors.push(`Row ${row.row}: idea "${row.id}" appears more than once`)
+      continue
+    }
+    seen.add(row.id)
+
+    const changes: IdeaWorkbookUpdate['changes'] = {}
+    const fields: IdeaFieldChange[] = []
+    for (const [field, value] of Object.entries(row.fields) as Array<[EditableIdeaField, unknown]>) {
+      const from = formatValue(field, idea[field])
+      const to = formatValue(field, value)
+      if (from === to) continue
+      ;(changes as Record<string, unknown>)[field] = value
+      fields.push({ field, from, to })
+    }
+    if (fields.length === 0) diff.unchanged++
+    else diff.updates.push({ row: row.row, id: idea.id, title: idea.content, changes, fields })
+  }
+
+  diff.notInSheet = existing.filter((idea) => !seen.has(idea.id)).length
+  return diff
+}
+
+/**
+ * Read an uploaded workbook and diff its Ideas sheet against the current ideas
+ */
+export async function parseIdeaWorkbook(data: ArrayBuffer, existing: IdeaCard[]): Promise<IdeaWorkbookDiff> {
+  const ExcelJS = await loadExcelJS()
+  const workbook = new ExcelJS.Workbook()
+  try {
+    await workbook.xlsx.load(data)
+  } catch {
+    return { creates: [], updates: [], unchanged: 0, notInSheet: 0, errors: ['File is not a valid Excel workbook'] }
+  }
+  const { rows, errors } = readIdeaSheet(workbook)
+  return diffIdeaRows(rows, existing, errors)
+}
+
+/**
+ * Apply a confirmed diff through IdeaService. Each row is saved on its own;
+ * rows that fail are reported and the rest still go through.
+ */
+export async function applyIdeaWorkbookDiff(
+  diff: IdeaWorkbookDiff,
+  options: { projectId: string; userId: string; client: SupabaseClient }
+): Promise<IdeaWorkbookApplyResult> {
+  const result: IdeaWorkbookApplyResult = { created: 0, updated: 0, failures: [] }
+
+  for (const update of diff.updates) {
+    const response = await IdeaService.updateIdea(update.id, update.changes, { userId: options.userId }, options.client)
+    if (response.success) result.updated++
+    else result.failures.push(`Row ${update.row} (${update.title}): ${response.error.message}`)
+  }
+  for (const create of diff.creates) {
+    const response = await IdeaService.createIdea(
+      { ...create.idea, project_id: options.projectId, created_by: options.userId },
+      { userId: options.userId },
+      options.client
+    )
+    if (response.success) result.created++
+    else result.failures.push(`Row ${create.row} (${create.idea.content}): ${response.error.message}`)
+  }
+
+  return result
+}
@@ -0,0 +1,22 @@
+/**
+ * XLSX Module
+ *
+ * Excel workbook export of a project, and import of an edited Ideas sheet as
+ * a previewable diff.
+ *
+ * @module xlsx
+ */
+
+export {
+  exportProjectWorkbook,
+  buildProjectWorkbook,
+  projectWorkbookFileName,
+  type ProjectWorkbookInput
+} from './projectWorkbook'
+
+export {
+  parseIdeaWorkbook,
+  applyIdeaWorkbookDiff,
+  type IdeaWorkbookDiff,
+  type IdeaWorkbookApplyResult
+} from './ideaWorkbookImport'
@@ -0,0 +1,225 @@
+/**
+ * Project Workbook
+ * Builds an Excel (XLSX) workbook for a project
+ *
+ * Sheets:
+ * - Ideas: one row per idea with its quadrant on the project's matrix; this sheet can be
+ *   edited and imported back (see ideaWorkbookImport)
+ * - Roadmap Epics and Milestones from the latest roadmap
+ * - Votes: vote tallies per brainstorm session, scored by each session's voting scheme
+ *
+ * exceljs is loaded on demand.
+ *
+ * @module projectWorkbook
+ */
+
+import type { Workbook, Worksheet } from 'exceljs'
+import type { IdeaCard, RoadmapData } from '../../types'
+import type { ProjectVoteRow } from '../repositories/voteRepository'
+import { DEFAULT_MATRIX_CONFIG, getMatrixCell, type MatrixConfig } from '../../utils/matrixQuadrant'
+import { tallyVotes } from '../../utils/votingSchemes'
+import { logger } from '../logging'
+
+const workbookLogger = logger.withContext({ component: 'projectWorkbook' })
+
+export const IDEAS_SHEET = 'Ideas'
+export const EPICS_SHEET = 'Roadmap Epics'
+export const MILESTONES_SHEET = 'Milestones'
+export const VOTES_SHEET = 'Votes'
+
+/**
+ * Ideas sheet columns. Headers are matched by name on import, so users can
+ * reorder columns; only `editable` columns are read back.
+ */
+export const IDEA_COLUMNS = [
+  { key: 'id', header: 'ID', width: 20, editable: true },
+  { key: 'content', header: 'Title', width: 40, editable: true },
+  { key: 'details', header: 'Details', width: 60, editable: true },
+  { key: 'priority', header: 'Priority', width: 12, editable: true },
+  { key: 'x', header: 'X Position', width: 12, editable: true },
+  { key: 'y', header: 'Y Position', width: 12, editable: true },
+  { key: 'quadrant', header: 'Quadrant', width: 14, editable: false },
+  { key: 'tags', header: 'Tags', width: 30, editable: true },
+  { key: 'created_by', header: 'Created By', width: 38, editable: false },
+  { key: 'created_at', header: 'Created At', width: 24, editable: false },
+  { key: 'updated_at', header: 'Updated At', width: 24, editable: false }
+] as const
+
+export type IdeaColumnKey = typeof IDEA_COLUMNS[number]['key']
+
+/** Tags are written as one comma-separated cell */
+export const TAG_SEPARATOR = ', '
+
+export interface ProjectWorkbookInput {
+  projectName: string
+  ideas: IdeaCard[]
+  matrixConfig?: MatrixConfig
+  roadmap?: RoadmapData | null
+  votes?: ProjectVoteRow[]
+  generatedAt?: Date
+}
+
+type ExcelJSModule = typeof import('exceljs')
+
+/**
+ * Load exceljs. The browser build is a CommonJS bundle that Vite exposes as
+ * the default export.
+ */
+export async function loadExcelJS(): Promise<ExcelJSModule> {
+  const module = await import('exceljs')
+  return (module as { default?: ExcelJSModule }).default ?? module
+}
+
+function addHeaderRow(sheet: Worksheet, columns: ReadonlyArray<{ key: string; header: string; width: number }>) {
+  sheet.columns = columns.map(({ key, header, width }) => ({ key, header, width }))
+  const header = sheet.getRow(1)
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } }
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF6610F2' } }
+  sheet.views = [{ state: 'frozen', ySplit: 1 }]
+}
+
+function addIdeasSheet(workbook: Workbook, ideas: IdeaCard[], config: MatrixConfig) {
+  const sheet = workbook.addWorksheet(IDEAS_SHEET)
+  addHeaderRow(sheet, IDEA_COLUMNS)
+
+  ideas.forEach((idea) => {
+    sheet.addRow({
+      id: idea.id,
+      content: idea.content,
+      details: idea.details ?? '',
+      priority: idea.priority,
+      x: idea.x,
+      y: idea.y,
+      quadrant: getMatrixCell(idea.x, idea.y, config).label,
+      tags: (idea.tags ?? []).join(TAG_SEPARATOR),
+      created_by: idea.created_by ?? '',
+      created_at: idea.created_at,
+      updated_at: idea.updated_at
+    })
+  })
+
+  // Grey out the columns an import ignores
+  IDEA_COLUMNS.forEach((column, index) => {
+    if (!column.editable) sheet.getColumn(index + 1).font = { color: { argb: 'FF6B7280' } }
+  })
+  sheet.getRow(1).font = { bold: true, color: { argb: 'FFFFFFFF' } }
+}
+
+function addRoadmapSheets(workbook: Workbook, roadmap: RoadmapData | null | undefined) {
+  const epics = workbook.addWorksheet(EPICS_SHEET)
+  addHeaderRow(epics, [
+    { key: 'phase', header: 'Phase', width: 24 },
+    { key: 'duration', header: 'Phase Duration', width: 16 },
+    { key: 'title', header: 'Epic', width: 36 },
+    { key: 'description', header: 'Description', width: 60 },
+    { key: 'priority', header: 'Priority', width: 12 },
+    { key: 'complexity', header: 'Complexity', width: 12 },
+    { key: 'deliverables', header: 'Deliverables', width: 40 },
+    { key: 'relatedIdeas', header: 'Related Ideas', width: 40 }
+  ])
+  for (const phase of roadmap?.roadmapAnalysis?.phases ?? []) {
+    for (const epic of phase.epics ?? []) {
+      epics.addRow({
+        phase: phase.phase,
+        duration: phase.duration,
+        title: epic.title,
+        description: epic.description,
+        priority: epic.priority,
+        complexity: epic.complexity,
+        deliverables: (epic.deliverables ?? []).join('\n'),
+        relatedIdeas: (epic.relatedIdeas ?? []).join('\n')
+      })
+    }
+  }
+
+  const milestones = workbook.addWorksheet(MILESTONES_SHEET)
+  addHeaderRow(milestones, [
+    { key: 'milestone', header: 'Milestone', width: 36 },
+    { key: 'timeline', header: 'Timeline', width: 18 },
+    { key: 'description', header: 'Description', width: 60 }
+  ])
+  for (const milestone of roadmap?.executionStrategy?.keyMilestones ?? []) {
+    milestones.addRow({ milestone: milestone.milestone, timeline: milestone.timeline, description: milestone.description })
+  }
+}
+
+function addVotesSheet(workbook: Workbook, ideas: IdeaCard[], votes: ProjectVoteRow[]) {
+  const sheet = workbook.addWorksheet(VOTES_SHEET)
+  addHeaderRow(sheet, [
+    { key: 'session', header: 'Session', width: 30 },
+    { key: 'idea_id', header: 'Idea ID', width: 20 },
+    { key: 'idea', header: 'Idea', width: 40 },
+    { key: 'votes', header: 'Votes', width: 10 },
+    { key: 'voters', header: 'Voters', width: 10 }
+  ])
+
+  const titles = new Map(ideas.map((idea) => [idea.id, idea.content]))
+  const sessions = new Map<string, ProjectVoteRow[]>()
+  for (const vote of votes) {
+    const rows = sessions.get(vote.session_id) ?? []
+    rows.push(vote)
+    sessions.set(vote.session_id, rows)
+  }
+
+  // Each session's totals follow its own voting scheme
+  const tallies: Array<{ session: string; idea_id: string; votes: number; voters: number }> = []
+  for (const rows of sessions.values()) {
+    const voters = new Map<string, Set<string>>()
+    for (const vote of rows) {
+      voters.set(vote.idea_id, (voters.get(vote.idea_id) ?? new Set<string>()).add(vote.user_id))
+    }
+    for (const [ideaId, score] of tallyVotes(rows[0].session_voting, rows)) {
+      tallies.push({ session: rows[0].session_name, idea_id: ideaId, votes: score, voters: voters.get(ideaId)?.size ?? 0 })
+    }
+  }
+
+  tallies
+    .sort((a, b) => a.session.localeCompare(b.session) || b.votes - a.votes)
+    .forEach((tally) => sheet.addRow({
+      session: tally.session,
+      idea_id: tally.idea_id,
+      idea: titles.get(tally.idea_id) ?? '(deleted idea)',
+      votes: tally.votes,
+      voters: tally.voters
+    }))
+}
+
+/**
+ * Add the ideas, roadmap and vote sheets to a workbook
+ */
+export function buildProjectWorkbook(workbook: Workbook, input: ProjectWorkbookInput): void {
+  workbook.creator = 'Prioritas'
+  workbook.created = input.generatedAt ?? new Date()
+  workbook.title = input.projectName
+
+  addIdeasSheet(workbook, input.ideas, input.matrixConfig ?? DEFAULT_MATRIX_CONFIG)
+  addRoadmapSheets(workbook, input.roadmap)
+  addVotesSheet(workbook, input.ideas, input.votes ?? [])
+}
+
+export function projectWorkbookFileName(projectName: string, date: Date = new Date()): string {
+  const slug = projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project'
+  return `${slug}-${date.toISOString().slice(0, 10)}.xlsx`
+}
+
+/**
+ * Build the project workbook and download it
+ */
+export async function exportProjectWorkbook(input: ProjectWorkbookInput): Promise<void> {
+  workbookLogger.debug('Generating project workbook', { ideas: input.ideas.length, votes: input.votes?.length ?? 0 })
+  const ExcelJS = await loadExcelJS()
+  const workbook = new ExcelJS.Workbook()
+  buildProjectWorkbook(workbook, input)
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = projectWorkbookFileName(input.projectName, input.generatedAt)
+  link.style.visibility = 'hidden'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
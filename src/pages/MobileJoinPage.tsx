@@ -3,18 +3,19 @@
  * Phase Three Implementation
  *
  * Polished mobile UI for joining brainstorm sessions via QR code
- * Features: Validation states, responsive design, touch-optimized
+ * Features: Validation states, responsive design, touch-optimized, waiting for facilitator approval
  */
 
 import { useEffect, useState } from 'react'
 import { BrainstormSessionService } from '../lib/services/BrainstormSessionService'
 import { generateDeviceFingerprint } from '../lib/security/brainstormSecurity'
 import { isFeatureEnabled } from '../lib/config'
+import { useBrainstormRealtime } from '../hooks/useBrainstormRealtime'
 import type { BrainstormSession, SessionParticipant } from '../types/BrainstormSession'
 import LoadingSpinner from '../components/ui/LoadingSpinner'
 import MobileIdeaSubmitForm from '../components/MobileIdeaSubmitForm'
 
-type ValidationState = 'loading' | 'expired' | 'invalid' | 'success' | 'error'
+type ValidationState = 'loading' | 'expired' | 'invalid' | 'pending' | 'success' | 'error'
 
 export default function MobileJoinPage() {
   const [session, setSession] = useState<BrainstormSession | null>(null)
@@ -72,7 +73,7 @@ export default function MobileJoinPage() {
         }
 
         setParticipant(joinResult.participant)
-        setValidationState('success')
+        setValidationState(joinResult.participant.is_approved ? 'success' : 'pending')
       } catch (err) {
         setValidationState('error')
         setErrorMessage(err instanceof Error ? err.message : 'Unknown error')
@@ -82,6 +83,35 @@ export default function MobileJoinPage() {
     validateAndJoin()
   }, [])
 
+  // The facilitator's approve/reject/ban decisions arrive as participant updates
+  useBrainstormRealtime(participant ? session?.id ?? null : null, {
+    onParticipantUpdated: (updated) => {
+      if (updated.id !== participant?.id) return
+      setParticipant(updated)
+      if (updated.is_approved) setValidationState('success')
+    },
+    onParticipantLeft: (participantId) => {
+      if (participantId !== participant?.id) return
+      setValidationState('error')
+      setErrorMessage('The facilitator removed you from this session')
+    },
+    // Pause/resume, facilitated rounds and technique prompts
+    onSessionStateChanged: (state) => {
+      setSession((prev) =>
+        prev
+          ? {
+              ...prev,
+              status: state.status,
+              current_round: state.round,
+              round_ends_at: state.roundEndsAt,
+              current_prompt_id: state.currentPromptId,
+              votes_revealed_at: state.votesRevealedAt
+            }
+          : prev
+      )
+    }
+  })
+
   const isPhase3Enabled = isFeatureEnabled('MOBILE_BRAINSTORM_PHASE3')
 
   // Phase Three: Polished Mobile UI
@@ -179,6 +209,18 @@ export default function MobileJoinPage() {
           </div>
         )}
 
+        {validationState === 'pending' && (
+          <div className="flex flex-col items-center justify-center min-h-screen p-6">
+            <div className="bg-white rounded-lg shadow-md p-8 max-w-md w-full text-center" role="status">
+              <LoadingSpinner size="lg" variant="primary" aria-label="Waiting for approval" />
+              <h1 className="text-2xl font-bold text-neutral-800 mt-4 mb-2">Waiting for Approval</h1>
+              <p className="text-neutral-600">
+                The facilitator will let you in shortly. You can submit ideas once you are approved.
+              </p>
+            </div>
+          </div>
+        )}
+
         {validationState === 'success' && session && participant && (
           <MobileIdeaSubmitForm session={session} participant={participant} />
         )}
@@ -195,6 +237,14 @@ export default function MobileJoinPage() {
     )
   }
 
+  if (validationState === 'pending') {
+    return (
+      <div style={{ padding: '20px', textAlign: 'center' }}>
+        <p>Waiting for the facilitator to approve you...</p>
+      </div>
+    )
+  }
+
   if (validationState !== 'success') {
     return (
       <div style={{ padding: '20px', textAlign: 'center' }}>
@@ -3,6 +3,37 @@
  * Phase One Implementation
  */
 
+/**
+ * Facilitated rounds of a session, in their usual order (see utils/brainstormRounds)
+ */
+export type BrainstormRound = 'ideation' | 'reveal' | 'grouping' | 'voting' | 'placement'
+
+/**
+ * Technique template a session starts from (see utils/brainstormTechniques)
+ */
+export type BrainstormTechnique = 'scamper' | 'crazy-8s' | 'how-might-we' | 'starbursting'
+
+/**
+ * How participants vote (see utils/votingSchemes)
+ */
+export type VotingScheme = 'dots' | 'ranked' | 'thumbs' | 'points'
+
+/**
+ * Who sees votes before the facilitator reveals them (see utils/votingSchemes)
+ */
+export type VoteVisibility = 'live' | 'hidden' | 'anonymous'
+
+/**
+ * A prompt participants answer during a round
+ */
+export interface SessionPrompt {
+  id: string
+  round: BrainstormRound
+  /** Short name, also the tag on ideas that answer the prompt */
+  label: string
+  text: string
+}
+
 export interface BrainstormSession {
   id: string
   project_id: string
@@ -27,6 +58,23 @@ export interface BrainstormSession {
   enable_voting: boolean
   time_limit_minutes?: number
 
+  // Facilitated rounds; no round means a single open-ended phase
+  current_round?: BrainstormRound | null
+  round_started_at?: string | null
+  round_ends_at?: string | null
+
+  // Technique template and the prompts it seeded
+  technique?: BrainstormTechnique | null
+  prompts?: SessionPrompt[]
+  current_prompt_id?: string | null
+
+  // Voting scheme; budget is dots, points or ideas to rank
+  voting_scheme?: VotingScheme
+  vote_budget?: number
+  allow_multiple_votes?: boolean
+  vote_visibility?: VoteVisibility
+  votes_revealed_at?: string | null
+
   // Timestamps
   created_at: string
   updated_at: string
@@ -52,6 +100,29 @@ export interface SessionParticipant {
   joined_at: string
   last_active_at: string
   disconnected_at?: string
+  /** Set when the facilitator bans the participant; the device cannot rejoin */
+  banned_at?: string
+}
+
+/** Why submitted content was held for the facilitator (see ContentModerationService.flagIdeaContent) */
+export type IdeaModerationFlag = 'profanity' | 'link' | 'spam'
+
+/**
+ * A submission held back from the board until the facilitator approves it
+ */
+export interface HeldIdea {
+  id: string
+  session_id: string
+  participant_id: string
+  content: string
+  details?: string
+  priority: 'low' | 'moderate' | 'high' | 'critical'
+  flags: IdeaModerationFlag[]
+  status: 'pending' | 'approved' | 'rejected'
+  /** Idea created on the board when the submission was approved */
+  idea_id?: string
+  created_at: string
+  reviewed_at?: string
 }
 
 export interface SessionActivityLog {
@@ -71,6 +142,8 @@ export interface SessionActivityLog {
     | 'session_resumed'
     | 'session_started'
     | 'session_ended'
+    | 'round_started'
+    | 'round_ended'
 
   // Data snapshot
   idea_id?: string
@@ -92,6 +165,13 @@ export interface CreateSessionInput {
   allowAnonymous?: boolean
   requireApproval?: boolean
   enableVoting?: boolean
+  technique?: BrainstormTechnique
+  /** Prompts seeded from the technique, plus any tailored by the AI */
+  prompts?: SessionPrompt[]
+  votingScheme?: VotingScheme
+  voteBudget?: number
+  allowMultipleVotes?: boolean
+  voteVisibility?: VoteVisibility
 }
 
 export interface CreateSessionResponse {
@@ -141,6 +221,14 @@ export interface SubmitIdeaResponse {
     content: string
     created_at: string
   }
+  /** Existing ideas that look like this one; the submission is kept regardless */
+  possibleDuplicates?: Array<{
+    id: string
+    content: string
+    similarity: number
+  }>
+  /** True when the idea was held for facilitator review instead of posted to the board */
+  held?: boolean
   error?: string
   code?: string
 }
@@ -155,6 +243,17 @@ export interface EndSessionResponse {
   error?: string
 }
 
+export interface ModerationActionResponse {
+  success: boolean
+  error?: string
+}
+
+export interface SetSessionRoundResponse {
+  success: boolean
+  session?: BrainstormSession
+  error?: string
+}
+
 export interface ToggleSessionPauseInput {
   sessionId: string
 }
@@ -175,7 +274,9 @@ export interface BrainstormRealtimeConfig {
   onParticipantLeft: (participantId: string) => void
   /** Called when participant data is updated (e.g., contribution_count changes) */
   onParticipantUpdated?: (participant: SessionParticipant) => void
-  onSessionStateChanged: (state: { status: string; timeRemaining: number }) => void
+  onSessionStateChanged: (state: SessionState) => void
+  /** Called when a held submission is added or reviewed; set only for the facilitator */
+  onHeldIdeaChanged?: (heldIdea: HeldIdea) => void
   /** Called when realtime connection fails after max reconnect attempts - enables polling fallback */
   onConnectionFailed?: () => void
 }
@@ -183,6 +284,12 @@ export interface BrainstormRealtimeConfig {
 export interface SessionState {
   status: 'active' | 'paused' | 'completed' | 'archived'
   timeRemaining: number // milliseconds
+  round: BrainstormRound | null
+  /** When the current round's timer runs out; null when untimed */
+  roundEndsAt: string | null
+  currentPromptId: string | null
+  /** When hidden or anonymous votes were revealed */
+  votesRevealedAt: string | null
 }
 
 // Database query response types (for repositories)
@@ -13,6 +13,39 @@ export interface IdeaCard {
   is_collapsed?: boolean  // whether card shows minimal info
   project_id?: string  // associated project ID
   matrix_position?: { x: number; y: number }  // legacy matrix positioning
+  scores?: IdeaScores | null  // structured RICE / ICE / WSJF inputs
+  tags?: string[]  // free-form labels, e.g. theme, team or customer segment
+  contributors?: string[]  // creators of ideas merged into this one, besides created_by
+  unplaced?: boolean  // still where it landed (brainstorm, import); cleared once x or y changes
+}
+
+export type ScoringFramework = 'rice' | 'ice' | 'wsjf'
+
+export interface RiceScores {
+  reach?: number  // people or events per quarter
+  impact?: number  // 0.25 minimal – 3 massive
+  confidence?: number  // percent, 0–100
+  effort?: number  // person-months
+}
+
+export interface IceScores {
+  impact?: number  // 1–10
+  confidence?: number  // 1–10
+  ease?: number  // 1–10
+}
+
+export interface WsjfScores {
+  business_value?: number  // relative, e.g. Fibonacci 1–20
+  time_criticality?: number
+  risk_reduction?: number
+  job_size?: number
+}
+
+// Each framework keeps its own inputs so switching frameworks never loses data
+export interface IdeaScores {
+  rice?: RiceScores
+  ice?: IceScores
+  wsjf?: WsjfScores
 }
 
 export type UserRole = 'user' | 'admin' | 'super_admin'
@@ -123,7 +156,7 @@ export interface Invitation {
   project?: Project
 }
 
-export type ActivityType = 'project_created' | 'project_updated' | 'idea_created' | 'idea_updated' | 'idea_deleted' | 'user_joined' | 'user_invited' | 'comment_added'
+export type ActivityType = 'project_created' | 'project_updated' | 'idea_created' | 'idea_updated' | 'idea_deleted' | 'idea_merged' | 'user_joined' | 'user_invited' | 'comment_added'
 
 export interface ActivityMetadata {
   project_name?: string
@@ -147,6 +180,26 @@ export interface ActivityLog {
   user?: User
 }
 
+export type IdeaRevisionActivity = Extract<ActivityType, 'idea_created' | 'idea_updated' | 'idea_deleted' | 'idea_merged'>
+export type IdeaRevisionField = 'content' | 'details' | 'position' | 'priority'
+
+// Snapshot of an idea after a create / delete / tracked change (idea_revisions)
+export interface IdeaRevision {
+  id: string
+  idea_id: string
+  project_id: string
+  activity_type: IdeaRevisionActivity
+  changed_by?: string | null
+  content: string
+  details: string
+  x: number
+  y: number
+  priority: IdeaCard['priority']
+  changed_fields: IdeaRevisionField[]  // empty for creates, deletes and merges
+  merged_idea_ids?: string[]  // ideas folded into this one, for idea_merged
+  created_at: string
+}
+
 export type ProjectType = 
   | 'software'
   | 'business_plan' 
@@ -158,21 +211,111 @@ export type ProjectType =
 
 export type ProjectStatus = 'active' | 'completed' | 'paused' | 'archived'
 
+export type MatrixLayout = '2x2' | '3x3'
+
+// 'ascending' means values grow left→right (x) or bottom→top (y)
+export type MatrixAxisDirection = 'ascending' | 'descending'
+
+export interface MatrixAxisConfig {
+  label: string
+  low_label?: string  // e.g. "Low" / "Cheap"
+  high_label?: string  // e.g. "High" / "Expensive"
+  direction: MatrixAxisDirection
+}
+
+export interface MatrixQuadrantConfig {
+  id: string
+  label: string
+  description?: string
+  color: string  // hex color, e.g. '#10B981'
+}
+
+export interface MatrixViewSettings {
+  show_grid: boolean
+  snap_to_grid: boolean
+  grid_size: number
+  layout?: MatrixLayout
+  x_axis?: MatrixAxisConfig
+  y_axis?: MatrixAxisConfig
+  quadrants?: MatrixQuadrantConfig[]  // row-major from the top-left cell
+  placement_mode?: MatrixPlacementMode
+  scoring_framework?: ScoringFramework
+}
+
+// 'score' positions scored ideas from their framework inputs instead of drag position
+export type MatrixPlacementMode = 'free' | 'score'
+
 export interface ProjectSettings {
   auto_save_interval: number // minutes
   enable_real_time_collaboration: boolean
   default_idea_priority: 'low' | 'moderate' | 'high' | 'strategic' | 'innovation'
-  matrix_view: {
-    show_grid: boolean
-    snap_to_grid: boolean
-    grid_size: number
-  }
+  matrix_view: MatrixViewSettings
   notifications: {
     idea_updates: boolean
     new_collaborators: boolean
     roadmap_changes: boolean
   }
   archive_completed_after: number // days, 0 = never
+  blind_rating?: BlindRatingSettings | null  // absent when no blind rating round is running
+  idea_tags?: string[]  // project-defined tag vocabulary offered on every idea
+  saved_idea_filters?: SavedIdeaFilter[]  // named matrix filters shared by the team
+  idea_clusters?: IdeaCluster[]  // named themes grouping ideas on the matrix
+}
+
+// Matrix filter; fields mirror IdeaQueryOptions, dates are YYYY-MM-DD and inclusive
+export interface IdeaFilter {
+  tags?: string[]  // matches ideas carrying any of these tags
+  priority?: IdeaCard['priority']
+  quadrant?: string  // quadrant id from the project's matrix config
+  createdBy?: string
+  createdAfter?: string
+  createdBefore?: string
+}
+
+export interface SavedIdeaFilter {
+  id: string
+  name: string
+  filter: IdeaFilter
+  created_by?: string
+  created_at: string
+}
+
+// Named theme outlined on the matrix; an idea belongs to at most one cluster
+export interface IdeaCluster {
+  id: string
+  name: string
+  idea_ids: string[]
+  color: string
+}
+
+// Project assistant: an action proposed in a reply, run only after the user confirms
+export type ProjectChatAction =
+  | { type: 'create_idea'; content: string; details: string; quadrant?: string; priority: IdeaCard['priority'] }
+  | { type: 'move_idea'; ideaId: string; quadrant: string }
+  | { type: 'regenerate_roadmap_phase'; phaseIndex: number; instructions: string }
+
+export interface ProjectChatMessage {
+  role: 'user' | 'assistant'
+  content: string
+  actions?: ProjectChatAction[]
+}
+
+// Blind rating: each rater positions ideas privately until the facilitator reveals
+export type BlindRatingStatus = 'collecting' | 'revealed'
+
+export interface BlindRatingSettings {
+  status: BlindRatingStatus
+  started_at: string
+  started_by: string
+  revealed_at?: string
+}
+
+export interface IdeaRating {
+  idea_id: string
+  user_id: string
+  x: number
+  y: number
+  updated_at?: string
 }
 
 export interface Project {
@@ -227,6 +370,7 @@ export interface Epic {
   priority: string
   complexity: string
   relatedIdeas: string[]
+  locked?: boolean // Set by a user; roadmap refresh never changes a locked epic
 }
 
 export interface Phase {
@@ -257,6 +401,19 @@ export interface RoadmapData {
   }
 }
 
+/**
+ * One epic change proposed by a roadmap refresh. `epicIndex` is set for
+ * updates and removals, `epic` for additions and updates.
+ */
+export interface RoadmapEpicChange {
+  id: string
+  action: 'add' | 'update' | 'remove'
+  phaseIndex: number
+  epicIndex?: number
+  epic?: Epic
+  reason: string
+}
+
 export interface ProjectRoadmap {
   id: string
   project_id: string
@@ -277,7 +434,7 @@ export interface InsightsData {
   }
   distribution: {
     by_priority: Record<string, number>
-    by_quadrant: Record<QuadrantType, number>
+    by_quadrant: Record<QuadrantType | string, number>  // keyed by the project's quadrant ids
     by_status: Record<string, number>
   }
   trends: {
@@ -322,6 +479,20 @@ export interface AIAnalysis {
   analysis_model: string
   analysis_version: string
   analyzed_at: string
+  content_guard?: ContentGuardReport // Prompt-injection checks on the file's text
+}
+
+export type ContentGuardFindingKind = 'instruction' | 'role_marker' | 'exfiltration' | 'hidden_text'
+
+export interface ContentGuardFinding {
+  kind: ContentGuardFindingKind
+  excerpt: string
+}
+
+export interface ContentGuardReport {
+  findings: ContentGuardFinding[]
+  truncated: boolean
+  checked_at: string
 }
 
 export interface ProjectFile {
@@ -490,6 +661,8 @@ export interface IdeaQueryOptions extends QueryOptions {
   editedBy?: string
   createdAfter?: string
   createdBefore?: string
+  createdBy?: string
+  tags?: string[]
   userId?: string
   status?: string
 }
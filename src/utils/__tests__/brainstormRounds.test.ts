@@ -0,0 +1,47 @@
+/**
+ * brainstormRounds utility tests — round order, timers and submission rules
+ */
+
+import { describe, it, expect } from 'vitest'
+import { canSubmitInRound, formatRoundTime, getNextRound, getRoundTimeRemaining } from '../brainstormRounds'
+
+const NOW = new Date('2026-10-19T10:00:00.000Z').getTime()
+const inMinutes = (minutes: number) => new Date(NOW + minutes * 60000).toISOString()
+
+describe('getNextRound', () => {
+  it('starts with silent ideation and ends after placement', () => {
+    expect(getNextRound(null)).toBe('ideation')
+    expect(getNextRound('ideation')).toBe('reveal')
+    expect(getNextRound('voting')).toBe('placement')
+    expect(getNextRound('placement')).toBeNull()
+  })
+})
+
+describe('getRoundTimeRemaining', () => {
+  it('counts down to zero and is null for untimed rounds', () => {
+    expect(getRoundTimeRemaining(inMinutes(2), NOW)).toBe(120000)
+    expect(getRoundTimeRemaining(inMinutes(-1), NOW)).toBe(0)
+    expect(getRoundTimeRemaining(null, NOW)).toBeNull()
+  })
+})
+
+describe('canSubmitInRound', () => {
+  it('allows submissions in an open-ended session', () => {
+    expect(canSubmitInRound({ current_round: null, round_ends_at: null }, NOW)).toBe(true)
+  })
+
+  it('allows submissions only while ideation is running', () => {
+    expect(canSubmitInRound({ current_round: 'ideation', round_ends_at: inMinutes(1) }, NOW)).toBe(true)
+    expect(canSubmitInRound({ current_round: 'ideation', round_ends_at: null }, NOW)).toBe(true)
+    expect(canSubmitInRound({ current_round: 'ideation', round_ends_at: inMinutes(-1) }, NOW)).toBe(false)
+    expect(canSubmitInRound({ current_round: 'voting', round_ends_at: inMinutes(1) }, NOW)).toBe(false)
+  })
+})
+
+describe('formatRoundTime', () => {
+  it('formats minutes and seconds, rounding up', () => {
+    expect(formatRoundTime(125000)).toBe('2:05')
+    expect(formatRoundTime(59100)).toBe('1:00')
+    expect(formatRoundTime(0)).toBe('0:00')
+  })
+})
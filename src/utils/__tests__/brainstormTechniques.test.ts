@@ -0,0 +1,59 @@
+/**
+ * brainstormTechniques utility tests — prompt seeding and the current prompt
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  TECHNIQUE_TEMPLATES,
+  getCurrentPrompt,
+  getRoundPrompts,
+  getTechniqueRoundMinutes,
+  seedSessionPrompts
+} from '../brainstormTechniques'
+
+describe('seedSessionPrompts', () => {
+  it('copies the template prompts and appends extra ones with ids', () => {
+    const prompts = seedSessionPrompts('how-might-we', [
+      { round: 'ideation', label: 'Onboarding', text: 'How might we get teams to their first matrix faster?' }
+    ])
+
+    expect(prompts).toHaveLength(TECHNIQUE_TEMPLATES['how-might-we'].prompts.length + 1)
+    expect(prompts[0]).toMatchObject({ id: 'prompt-1', label: 'Pain point' })
+    expect(prompts[prompts.length - 1]).toMatchObject({ id: `prompt-${prompts.length}`, label: 'Onboarding' })
+  })
+})
+
+describe('getRoundPrompts', () => {
+  it('keeps the order of the round prompts', () => {
+    const session = { prompts: seedSessionPrompts('scamper') }
+
+    expect(getRoundPrompts(session, 'ideation').map((prompt) => prompt.label)).toEqual([
+      'Substitute', 'Combine', 'Adapt', 'Modify', 'Put to other use', 'Eliminate', 'Reverse'
+    ])
+    expect(getRoundPrompts(session, 'voting')).toEqual([])
+    expect(getRoundPrompts({}, 'ideation')).toEqual([])
+  })
+})
+
+describe('getCurrentPrompt', () => {
+  const prompts = seedSessionPrompts('crazy-8s')
+
+  it('returns the current prompt of the current round', () => {
+    expect(getCurrentPrompt({ prompts, current_round: 'reveal', current_prompt_id: 'prompt-2' })).toMatchObject({
+      label: 'Pitch'
+    })
+  })
+
+  it('ignores a prompt left over from another round or no round', () => {
+    expect(getCurrentPrompt({ prompts, current_round: 'grouping', current_prompt_id: 'prompt-2' })).toBeNull()
+    expect(getCurrentPrompt({ prompts, current_round: null, current_prompt_id: 'prompt-1' })).toBeNull()
+  })
+})
+
+describe('getTechniqueRoundMinutes', () => {
+  it('overrides round timers only where the technique sets them', () => {
+    expect(getTechniqueRoundMinutes('crazy-8s', 'ideation')).toBe(8)
+    expect(getTechniqueRoundMinutes('crazy-8s', 'voting')).toBeUndefined()
+    expect(getTechniqueRoundMinutes(null, 'ideation')).toBeUndefined()
+  })
+})
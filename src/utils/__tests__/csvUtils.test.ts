@@ -127,6 +127,21 @@ describe('csvUtils', () => {
       expect(blobContent).toContain('innovation')
     })
 
+    it('should export score inputs and framework scores', () => {
+      const BlobSpy = vi.fn((parts: BlobPart[]) => ({ parts }))
+      vi.stubGlobal('Blob', BlobSpy)
+
+      exportToCSV([{ ...mockIdeas[0], scores: { ice: { impact: 8, confidence: 5, ease: 3 } } }])
+      vi.unstubAllGlobals()
+
+      const blobContent = BlobSpy.mock.calls[0][0][0] as string
+      const [header, row] = blobContent.split('\n')
+
+      expect(header).toContain('ICE Impact,ICE Confidence,ICE Ease')
+      expect(header).toContain('RICE Score,ICE Score,WSJF Score')
+      expect(row.endsWith(',120,')).toBe(true)
+    })
+
     it('should handle multiline content', () => {
       const multilineIdeas: IdeaCard[] = [{
         ...mockIdeas[0],
@@ -157,6 +172,17 @@ test-2,"Another Idea","More details",moderate,300,400,"user-2",2024-01-02,2024-0
       expect(result[0].y).toBe(200)
     })
 
+    it('marks rows without a position as unplaced', () => {
+      const csvContent = `ID,Title,Details,Priority,X Position,Y Position,Created By
+test-1,"Placed","",high,100,200,"user-1"
+test-2,"Not placed","",high,,,"user-1"`
+
+      const result = parseCSV(csvContent, 'current-user')
+
+      expect(result[0].unplaced).toBeUndefined()
+      expect(result[1]).toMatchObject({ x: 260, y: 260, unplaced: true })
+    })
+
     it('should handle CSV with quoted fields', () => {
       const csvContent = `ID,Title,Details,Priority,X Position,Y Position,Created By
 test-1,"Content with ""quotes""","Details with commas, here",high,100,200,"user-1"`
@@ -271,6 +297,17 @@ test-5,"Test5","Details",innovation,100,200,"user"`
       expect(result[3].priority).toBe('strategic')
       expect(result[4].priority).toBe('innovation')
     })
+
+    it('should read framework score columns when present', () => {
+      const csvContent = `ID,Title,Details,Priority,X Position,Y Position,Created By,Created At,Updated At,RICE Reach,RICE Impact,RICE Confidence %,RICE Effort,ICE Ease
+test-1,"Scored","Details",high,100,200,"user",2024-01-01,2024-01-01,500,2,80,3,
+test-2,"Unscored","Details",low,100,200,"user",2024-01-01,2024-01-01,,,,,`
+
+      const result = parseCSV(csvContent, 'current-user')
+
+      expect(result[0].scores).toEqual({ rice: { reach: 500, impact: 2, confidence: 80, effort: 3 } })
+      expect(result[1].scores).toBeUndefined()
+    })
   })
 
   describe('validateCSVFile', () => {
@@ -0,0 +1,63 @@
+/**
+ * ideaClusters utility tests — stale members, moves, themes and outlines
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { IdeaCluster } from '../../types'
+import {
+  getClusterOutline,
+  getIdeaThemes,
+  ideaCardPositions,
+  moveIdeasToCluster,
+  resolveIdeaClusters
+} from '../ideaClusters'
+
+const cluster = (id: string, ideaIds: string[], name = `Theme ${id}`): IdeaCluster => ({
+  id,
+  name,
+  idea_ids: ideaIds,
+  color: '#2563eb'
+})
+
+describe('ideaClusters', () => {
+  it('resolveIdeaClusters drops deleted ideas and clusters left empty', () => {
+    const clusters = [cluster('a', ['idea-1', 'gone']), cluster('b', ['gone-too'])]
+
+    expect(resolveIdeaClusters(clusters, [{ id: 'idea-1' }, { id: 'idea-2' }])).toEqual([cluster('a', ['idea-1'])])
+    expect(resolveIdeaClusters(undefined, [{ id: 'idea-1' }])).toEqual([])
+  })
+
+  it('moveIdeasToCluster takes ideas out of their old cluster', () => {
+    const clusters = [cluster('a', ['idea-1', 'idea-2']), cluster('b', ['idea-3'])]
+
+    expect(moveIdeasToCluster(clusters, ['idea-2'], 'b')).toEqual([
+      cluster('a', ['idea-1']),
+      cluster('b', ['idea-3', 'idea-2'])
+    ])
+    expect(moveIdeasToCluster(clusters, ['idea-3'], null)).toEqual([cluster('a', ['idea-1', 'idea-2'])])
+  })
+
+  it('getClusterOutline boxes the member cards with padding, inside the board', () => {
+    const positions = [
+      { id: 'idea-1', left: 20, top: 30 },
+      { id: 'idea-2', left: 40, top: 50 },
+      { id: 'idea-3', left: 95, top: 95 }
+    ]
+
+    expect(getClusterOutline(cluster('a', ['idea-1', 'idea-2']), positions)).toEqual({ left: 11, top: 23, width: 38, height: 34 })
+    expect(getClusterOutline(cluster('b', ['idea-3']), positions)).toEqual({ left: 86, top: 88, width: 14, height: 12 })
+    expect(getClusterOutline(cluster('c', ['gone']), positions)).toBeNull()
+  })
+
+  it('ideaCardPositions converts stored coordinates to percent', () => {
+    expect(ideaCardPositions([{ id: 'idea-1', x: 260, y: 0 }])).toEqual([{ id: 'idea-1', left: 50, top: (40 / 600) * 100 }])
+  })
+
+  it('getIdeaThemes maps each idea to its cluster name', () => {
+    const themes = getIdeaThemes([cluster('a', ['idea-1', 'idea-2'], 'Onboarding'), cluster('b', ['idea-3'], 'Billing')])
+
+    expect(themes.get('idea-2')).toBe('Onboarding')
+    expect(themes.get('idea-3')).toBe('Billing')
+    expect(getIdeaThemes(undefined).size).toBe(0)
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * ideaFilter utility tests — matching, URL round-trips and option lists
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { IdeaCard } from '../../types'
+import {
+  collectIdeaTags,
+  ideaFilterFromSearchParams,
+  ideaFilterToSearchParams,
+  isIdeaFilterActive,
+  isSameIdeaFilter,
+  matchesIdeaFilter
+} from '../ideaFilter'
+import { resolveMatrixConfig } from '../matrixQuadrant'
+
+const idea = (overrides: Partial<IdeaCard> = {}): IdeaCard => ({
+  id: 'idea-1',
+  content: 'Idea',
+  details: '',
+  x: 100,
+  y: 100,
+  priority: 'moderate',
+  created_by: 'user-1',
+  created_at: '2026-03-15T12:00:00.000Z',
+  updated_at: '2026-03-15T12:00:00.000Z',
+  ...overrides
+})
+
+describe('ideaFilter', () => {
+  describe('matchesIdeaFilter', () => {
+    it('matches everything with an empty filter', () => {
+      expect(isIdeaFilterActive({})).toBe(false)
+      expect(matchesIdeaFilter(idea(), {})).toBe(true)
+    })
+
+    it('matches any of the selected tags, ignoring case', () => {
+      const tagged = idea({ tags: ['Mobile', 'Enterprise'] })
+      expect(matchesIdeaFilter(tagged, { tags: ['mobile', 'SMB'] })).toBe(true)
+      expect(matchesIdeaFilter(tagged, { tags: ['SMB'] })).toBe(false)
+      expect(matchesIdeaFilter(idea(), { tags: ['SMB'] })).toBe(false)
+    })
+
+    it('requires every other criterion', () => {
+      expect(matchesIdeaFilter(idea(), { priority: 'moderate', createdBy: 'user-1' })).toBe(true)
+      expect(matchesIdeaFilter(idea(), { priority: 'moderate', createdBy: 'user-2' })).toBe(false)
+    })
+
+    it('uses the project\'s quadrants', () => {
+      expect(matchesIdeaFilter(idea(), { quadrant: 'quick-wins' })).toBe(true)
+      expect(matchesIdeaFilter(idea(), { quadrant: 'avoid' })).toBe(false)
+
+      const config = resolveMatrixConfig({ layout: '3x3' })
+      expect(matchesIdeaFilter(idea({ x: 50, y: 50 }), { quadrant: config.quadrants[0].id }, config)).toBe(true)
+    })
+
+    it('treats created dates as inclusive days', () => {
+      expect(matchesIdeaFilter(idea(), { createdAfter: '2026-03-01', createdBefore: '2026-03-31' })).toBe(true)
+      expect(matchesIdeaFilter(idea(), { createdAfter: '2026-04-01' })).toBe(false)
+      expect(matchesIdeaFilter(idea(), { createdBefore: '2026-03-01' })).toBe(false)
+    })
+  })
+
+  describe('URL encoding', () => {
+    it('round-trips a filter and keeps unrelated parameters', () => {
+      const filter = { tags: ['Mobile', 'Q3'], priority: 'high' as const, quadrant: 'strategic', createdAfter: '2026-01-01' }
+      const params = ideaFilterToSearchParams(filter, new URLSearchParams('project=abc'))
+
+      expect(params.get('project')).toBe('abc')
+      expect(params.get('tags')).toBe('Mobile,Q3')
+      expect(ideaFilterFromSearchParams(params)).toEqual(filter)
+    })
+
+    it('drops invalid values instead of filtering out everything', () => {
+      const params = new URLSearchParams('priority=urgent&from=yesterday&tags=,,')
+      expect(ideaFilterFromSearchParams(params)).toEqual({})
+    })
+
+    it('clears a previous filter when writing an empty one', () => {
+      const params = ideaFilterToSearchParams({}, new URLSearchParams('project=abc&priority=high&tags=x'))
+      expect(params.toString()).toBe('project=abc')
+    })
+
+    it('compares filters by their criteria', () => {
+      expect(isSameIdeaFilter({ tags: [] }, {})).toBe(true)
+      expect(isSameIdeaFilter({ priority: 'high' }, { priority: 'low' })).toBe(false)
+    })
+  })
+
+  it('collectIdeaTags lists project tags first, then tags found on ideas', () => {
+    const ideas = [idea({ tags: ['zeta', 'mobile'] }), idea({ tags: ['Alpha'] })]
+    expect(collectIdeaTags(ideas, ['Mobile', 'Enterprise'])).toEqual(['Mobile', 'Enterprise', 'Alpha', 'zeta'])
+  })
+})
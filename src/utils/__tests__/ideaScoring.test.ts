@@ -0,0 +1,112 @@
+/**
+ * ideaScoring utility tests — RICE / ICE / WSJF scoring and score-driven placement
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { IdeaCard } from '../../types'
+import {
+  applyScorePlacement,
+  calculateIdeaScore,
+  computeScorePositions,
+  formatIdeaScore,
+  getPlacedIdeas,
+  getScorePlacementSettings,
+  isScorePlaced
+} from '../ideaScoring'
+import { getMatrixCell } from '../matrixQuadrant'
+
+const baseIdea: IdeaCard = {
+  id: 'idea-1',
+  content: 'Idea',
+  details: '',
+  x: 100,
+  y: 100,
+  priority: 'moderate',
+  created_by: 'user-1',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z'
+}
+
+describe('ideaScoring', () => {
+  describe('calculateIdeaScore', () => {
+    it('calculates RICE as reach × impact × confidence ÷ effort', () => {
+      const score = calculateIdeaScore({ rice: { reach: 1000, impact: 2, confidence: 80, effort: 4 } }, 'rice')
+      expect(score).toBe(400)
+    })
+
+    it('calculates ICE as impact × confidence × ease', () => {
+      expect(calculateIdeaScore({ ice: { impact: 8, confidence: 5, ease: 3 } }, 'ice')).toBe(120)
+    })
+
+    it('calculates WSJF as cost of delay ÷ job size', () => {
+      const score = calculateIdeaScore(
+        { wsjf: { business_value: 8, time_criticality: 5, risk_reduction: 2, job_size: 5 } },
+        'wsjf'
+      )
+      expect(score).toBe(3)
+    })
+
+    it('returns null for incomplete or invalid inputs', () => {
+      expect(calculateIdeaScore(null, 'rice')).toBeNull()
+      expect(calculateIdeaScore({ rice: { reach: 10, impact: 1, confidence: 50 } }, 'rice')).toBeNull()
+      expect(calculateIdeaScore({ rice: { reach: 10, impact: 1, confidence: 50, effort: 0 } }, 'rice')).toBeNull()
+      expect(calculateIdeaScore({ rice: { reach: 10, impact: 1, confidence: 50, effort: 1 } }, 'ice')).toBeNull()
+    })
+  })
+
+  it('formatIdeaScore trims non-integer scores', () => {
+    expect(formatIdeaScore(42)).toBe('42')
+    expect(formatIdeaScore(3.456)).toBe('3.46')
+    expect(formatIdeaScore(null)).toBe('')
+  })
+
+  it('getScorePlacementSettings defaults to free placement with RICE', () => {
+    expect(getScorePlacementSettings(undefined)).toEqual({ mode: 'free', framework: 'rice' })
+    expect(getScorePlacementSettings({ placement_mode: 'score', scoring_framework: 'wsjf' }))
+      .toEqual({ mode: 'score', framework: 'wsjf' })
+  })
+
+  describe('score-driven placement', () => {
+    const quickWin = { ...baseIdea, id: 'quick', scores: { ice: { impact: 10, confidence: 10, ease: 10 } } }
+    const avoid = { ...baseIdea, id: 'avoid', scores: { ice: { impact: 1, confidence: 1, ease: 1 } } }
+    const unscored = { ...baseIdea, id: 'unscored', x: 300, y: 400 }
+
+    it('places high-value, low-cost ideas in the quick wins quadrant', () => {
+      const positions = computeScorePositions([quickWin, avoid], 'ice')
+      const quick = positions.get('quick')!
+      const low = positions.get('avoid')!
+      expect(getMatrixCell(quick.x, quick.y).id).toBe('quick-wins')
+      expect(getMatrixCell(low.x, low.y).id).toBe('avoid')
+    })
+
+    it('leaves ideas untouched in free placement mode', () => {
+      const ideas = [quickWin, unscored]
+      expect(applyScorePlacement(ideas, { placement_mode: 'free' })).toBe(ideas)
+    })
+
+    it('keeps the free position of unscored ideas in score mode', () => {
+      const placed = applyScorePlacement([quickWin, avoid, unscored], { placement_mode: 'score', scoring_framework: 'ice' })
+      expect(placed.find(i => i.id === 'unscored')).toBe(unscored)
+      expect(placed.find(i => i.id === 'quick')).not.toEqual(quickWin)
+    })
+
+    it('getPlacedIdeas places ideas on the project\'s own matrix', () => {
+      const matrixView = {
+        placement_mode: 'score' as const,
+        scoring_framework: 'ice' as const,
+        x_axis: { label: 'Effort', low_label: 'Low', high_label: 'High', direction: 'descending' as const }
+      }
+      const quick = getPlacedIdeas([quickWin, avoid], matrixView).find(i => i.id === 'quick')!
+      // Low effort sits on the right when the effort axis is reversed
+      expect(quick.x).toBeGreaterThan(260)
+      expect(applyScorePlacement([quickWin, avoid], matrixView).find(i => i.id === 'quick')!.x).toBeLessThan(260)
+    })
+
+    it('isScorePlaced only locks fully scored ideas in score mode', () => {
+      const settings = { placement_mode: 'score' as const, scoring_framework: 'ice' as const }
+      expect(isScorePlaced(quickWin, settings)).toBe(true)
+      expect(isScorePlaced(unscored, settings)).toBe(false)
+      expect(isScorePlaced(quickWin, { placement_mode: 'free' })).toBe(false)
+    })
+  })
+})
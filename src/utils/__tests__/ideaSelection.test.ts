@@ -0,0 +1,58 @@
+/**
+ * ideaSelection utility tests — lasso hit-testing and bulk change planning
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { IdeaCard } from '../../types'
+import { getIdeasInRect, mergeTags, planQuadrantMove, rectFromPoints } from '../ideaSelection'
+import { getMatrixCell, resolveMatrixConfig } from '../matrixQuadrant'
+
+const idea = (id: string, x: number, y: number): IdeaCard => ({
+  id,
+  content: id,
+  details: '',
+  x,
+  y,
+  priority: 'moderate',
+  created_by: null,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z'
+})
+
+describe('ideaSelection', () => {
+  it('rectFromPoints normalizes a lasso dragged in any direction', () => {
+    expect(rectFromPoints({ x: 0.8, y: 0.6 }, { x: 0.2, y: 0.1 })).toEqual({ left: 0.2, top: 0.1, right: 0.8, bottom: 0.6 })
+  })
+
+  it('getIdeasInRect selects ideas whose card center is inside the lasso', () => {
+    // x=260 renders at 50%, x=20 at 10%
+    const ideas = [idea('center', 260, 260), idea('corner', 20, 20)]
+    expect(getIdeasInRect(ideas, { left: 0.4, top: 0.4, right: 0.6, bottom: 0.6 })).toEqual(['center'])
+    expect(getIdeasInRect(ideas, { left: 0, top: 0, right: 1, bottom: 1 })).toEqual(['center', 'corner'])
+  })
+
+  describe('planQuadrantMove', () => {
+    it('keeps each idea\'s relative place inside the target cell', () => {
+      // Top-left cell (quick-wins) → top-right cell (strategic) in the 2x2 default
+      const [move] = planQuadrantMove([idea('a', 130, 0)], 'strategic')
+      expect(move).toEqual({ id: 'a', x: 390, y: 26 })
+      expect(getMatrixCell(move.x, move.y).id).toBe('strategic')
+    })
+
+    it('skips ideas already in the target quadrant and unknown quadrants', () => {
+      expect(planQuadrantMove([idea('a', 400, 100)], 'strategic')).toEqual([])
+      expect(planQuadrantMove([idea('a', 100, 100)], 'missing')).toEqual([])
+    })
+
+    it('works with 3x3 layouts', () => {
+      const config = resolveMatrixConfig({ layout: '3x3' })
+      const [move] = planQuadrantMove([idea('a', 50, 50)], 'avoid', config)
+      expect(getMatrixCell(move.x, move.y, config).id).toBe('avoid')
+    })
+  })
+
+  it('mergeTags trims and de-duplicates case-insensitively', () => {
+    expect(mergeTags(['Mobile'], [' mobile ', 'Enterprise', '', 'enterprise'])).toEqual(['Mobile', 'Enterprise'])
+    expect(mergeTags(undefined, ['Q3'])).toEqual(['Q3'])
+  })
+})
@@ -0,0 +1,64 @@
+/**
+ * ideaSimilarity utility tests — lexical fallback, grouping and merge text
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  DUPLICATE_THRESHOLDS,
+  buildMergedIdea,
+  cosineSimilarity,
+  findDuplicateGroups,
+  lexicalSimilarity
+} from '../ideaSimilarity'
+
+describe('ideaSimilarity', () => {
+  describe('lexicalSimilarity', () => {
+    it('scores rewordings of the same idea above the duplicate threshold', () => {
+      expect(lexicalSimilarity('Add a dark mode', 'Dark mode for the app')).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLDS.lexical)
+      expect(lexicalSimilarity('Export reports to PDF', 'PDF export of reports')).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLDS.lexical)
+      expect(lexicalSimilarity('Onboarding checklist', 'Onboardng checklists')).toBeGreaterThanOrEqual(DUPLICATE_THRESHOLDS.lexical)
+    })
+
+    it('keeps different ideas below the threshold', () => {
+      expect(lexicalSimilarity('Add a dark mode', 'Export reports to PDF')).toBeLessThan(DUPLICATE_THRESHOLDS.lexical)
+      expect(lexicalSimilarity('Referral program', 'Loyalty points program')).toBeLessThan(DUPLICATE_THRESHOLDS.lexical)
+    })
+
+    it('is 1 for identical text and 0 for empty text', () => {
+      expect(lexicalSimilarity('Guest checkout', 'guest checkout!')).toBe(1)
+      expect(lexicalSimilarity('', 'Guest checkout')).toBe(0)
+    })
+  })
+
+  it('cosineSimilarity compares vector direction', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1)
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0)
+    expect(cosineSimilarity([], [1])).toBe(0)
+  })
+
+  it('findDuplicateGroups joins matches transitively, best group first', () => {
+    const ideas = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }, { id: 'e' }]
+    const scores: Record<string, number> = { 'a-b': 0.9, 'b-c': 0.8, 'd-e': 0.95, 'a-d': 0.1 }
+    const groups = findDuplicateGroups(ideas, (i, j) => scores[`${ideas[i].id}-${ideas[j].id}`] ?? 0, 0.75)
+
+    expect(groups).toEqual([
+      { ideaIds: ['d', 'e'], similarity: 0.95 },
+      { ideaIds: ['a', 'b', 'c'], similarity: 0.9 }
+    ])
+  })
+
+  it('buildMergedIdea keeps the target title and collects the rest without repeats', () => {
+    const merged = buildMergedIdea(
+      { content: 'Dark mode', details: 'Reduce eye strain' },
+      [
+        { content: 'Night theme', details: 'reduce eye strain' },
+        { content: 'dark mode', details: 'Follow the OS setting' }
+      ]
+    )
+
+    expect(merged).toEqual({
+      content: 'Dark mode',
+      details: 'Reduce eye strain\n\nAlso suggested as: Night theme\n\nFollow the OS setting'
+    })
+  })
+})
@@ -0,0 +1,96 @@
+/**
+ * matrixHistory utility tests — board reconstruction and replay interpolation
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { IdeaRevision } from '../../types'
+import {
+  getHistoryRange,
+  interpolateBoards,
+  reconstructBoardAt,
+  summarizeChanges
+} from '../matrixHistory'
+
+const revision = (overrides: Partial<IdeaRevision>): IdeaRevision => ({
+  id: `rev-${Math.random()}`,
+  idea_id: 'a',
+  project_id: 'project-1',
+  activity_type: 'idea_updated',
+  content: 'Idea A',
+  details: '',
+  x: 100,
+  y: 100,
+  priority: 'moderate',
+  changed_fields: [],
+  created_at: '2026-01-01T00:00:00.000Z',
+  ...overrides
+})
+
+const history: IdeaRevision[] = [
+  revision({ activity_type: 'idea_created', created_at: '2026-01-01T00:00:00.000Z' }),
+  revision({ idea_id: 'b', content: 'Idea B', activity_type: 'idea_created', x: 400, y: 400, created_at: '2026-01-02T00:00:00.000Z' }),
+  revision({ x: 300, y: 50, changed_fields: ['position'], created_at: '2026-01-05T00:00:00.000Z' }),
+  revision({ x: 300, y: 50, priority: 'high', changed_fields: ['priority'], created_at: '2026-01-06T00:00:00.000Z' }),
+  revision({ idea_id: 'b', content: 'Idea B', activity_type: 'idea_deleted', x: 400, y: 400, created_at: '2026-01-07T00:00:00.000Z' })
+]
+
+describe('matrixHistory', () => {
+  it('getHistoryRange spans the first and last revision', () => {
+    expect(getHistoryRange(history)).toEqual({
+      start: Date.parse('2026-01-01T00:00:00.000Z'),
+      end: Date.parse('2026-01-07T00:00:00.000Z')
+    })
+    expect(getHistoryRange([])).toBeNull()
+  })
+
+  describe('reconstructBoardAt', () => {
+    it('uses the latest revision at or before the timestamp', () => {
+      const board = reconstructBoardAt(history, '2026-01-03T00:00:00.000Z')
+      expect(board.map(i => [i.id, i.x, i.y])).toEqual([['a', 100, 100], ['b', 400, 400]])
+
+      const later = reconstructBoardAt(history, '2026-01-05T00:00:00.000Z')
+      expect(later.find(i => i.id === 'a')).toMatchObject({ x: 300, y: 50, created_at: '2026-01-01T00:00:00.000Z' })
+    })
+
+    it('drops deleted ideas and ideas not created yet', () => {
+      expect(reconstructBoardAt(history, '2026-01-08T00:00:00.000Z').map(i => i.id)).toEqual(['a'])
+      expect(reconstructBoardAt(history, '2025-12-31T00:00:00.000Z')).toEqual([])
+    })
+  })
+
+  describe('interpolateBoards', () => {
+    const from = reconstructBoardAt(history, '2026-01-03T00:00:00.000Z')
+    const to = reconstructBoardAt(history, '2026-01-08T00:00:00.000Z')
+
+    it('moves shared ideas linearly between positions', () => {
+      const mid = interpolateBoards(from, to, 0.5)
+      expect(mid.find(i => i.id === 'a')).toMatchObject({ x: 200, y: 75 })
+    })
+
+    it('swaps ideas that exist on only one board at the halfway point', () => {
+      expect(interpolateBoards(from, to, 0.25).map(i => i.id)).toEqual(['a', 'b'])
+      expect(interpolateBoards(from, to, 0.75).map(i => i.id)).toEqual(['a'])
+      expect(interpolateBoards(from, to, 1)).toEqual(to)
+    })
+  })
+
+  it('summarizeChanges counts changes inside the window', () => {
+    expect(summarizeChanges(history, '2026-01-01T00:00:00.000Z', '2026-01-07T00:00:00.000Z')).toEqual({
+      created: 1,
+      deleted: 1,
+      merged: 0,
+      moved: 1,
+      reprioritized: 1,
+      edited: 0
+    })
+  })
+
+  it('summarizeChanges counts merges separately from edits', () => {
+    const merge = revision({ activity_type: 'idea_merged', merged_idea_ids: ['b'], created_at: '2026-01-07T00:00:00.000Z' })
+    expect(summarizeChanges([...history, merge], '2026-01-06T00:00:00.000Z', '2026-01-08T00:00:00.000Z')).toMatchObject({
+      merged: 1,
+      deleted: 1,
+      edited: 0
+    })
+  })
+})
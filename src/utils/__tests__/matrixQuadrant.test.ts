@@ -0,0 +1,136 @@
+/**
+ * matrixQuadrant utility tests — configurable axes and quadrants
+ *
+ * Covers config resolution from partial project settings, cell lookup for
+ * 2x2 and 3x3 layouts, per-quadrant counts and axis direction handling.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_MATRIX_CONFIG,
+  DEFAULT_QUADRANTS_3X3,
+  applyDragDelta,
+  axisValuesToPosition,
+  calculateQuadrant,
+  countIdeasByQuadrant,
+  formatAxisLabel,
+  getCellBoundaries,
+  getCellBounds,
+  getMatrixCell,
+  positionToAxisValues,
+  resolveMatrixConfig
+} from '../matrixQuadrant'
+
+describe('matrixQuadrant', () => {
+  describe('resolveMatrixConfig', () => {
+    it('returns the default config when no settings exist', () => {
+      expect(resolveMatrixConfig(undefined)).toBe(DEFAULT_MATRIX_CONFIG)
+      expect(resolveMatrixConfig(null)).toBe(DEFAULT_MATRIX_CONFIG)
+    })
+
+    it('keeps defaults for legacy settings without matrix config', () => {
+      const config = resolveMatrixConfig({ show_grid: true, snap_to_grid: false, grid_size: 20 })
+      expect(config.layout).toBe('2x2')
+      expect(config.quadrants).toEqual(DEFAULT_MATRIX_CONFIG.quadrants)
+      expect(config.xAxis).toEqual(DEFAULT_MATRIX_CONFIG.xAxis)
+    })
+
+    it('applies custom axes and quadrant labels', () => {
+      const config = resolveMatrixConfig({
+        x_axis: { label: 'Risk', direction: 'descending' },
+        quadrants: [
+          { id: 'a', label: 'Alpha', color: '#000000' },
+          { id: 'b', label: 'Beta', color: '#111111' },
+          { id: 'c', label: '', color: '' },
+          { id: 'd', label: 'Delta', color: '#333333' }
+        ]
+      })
+      expect(config.xAxis.label).toBe('Risk')
+      expect(config.xAxis.direction).toBe('descending')
+      expect(config.quadrants.map(q => q.label)).toEqual(['Alpha', 'Beta', 'Reconsider', 'Delta'])
+      expect(config.quadrants[2].color).toBe(DEFAULT_MATRIX_CONFIG.quadrants[2].color)
+    })
+
+    it('falls back to layout defaults when the quadrant count does not match', () => {
+      const config = resolveMatrixConfig({
+        layout: '3x3',
+        quadrants: DEFAULT_MATRIX_CONFIG.quadrants
+      })
+      expect(config.divisions).toBe(3)
+      expect(config.quadrants).toEqual(DEFAULT_QUADRANTS_3X3)
+    })
+  })
+
+  describe('getMatrixCell', () => {
+    it('matches calculateQuadrant for the default 2x2 layout', () => {
+      const samples: Array<[number, number]> = [[0, 0], [259, 259], [260, 0], [0, 260], [520, 520], [130, 400]]
+      for (const [x, y] of samples) {
+        expect(getMatrixCell(x, y).id).toBe(calculateQuadrant(x, y))
+      }
+    })
+
+    it('resolves all nine cells of a 3x3 layout', () => {
+      const config = resolveMatrixConfig({ layout: '3x3' })
+      expect(getMatrixCell(50, 50, config).id).toBe('quick-wins')
+      expect(getMatrixCell(260, 50, config).id).toBe('major-projects')
+      expect(getMatrixCell(260, 260, config).id).toBe('evaluate')
+      expect(getMatrixCell(500, 500, config).id).toBe('avoid')
+    })
+
+    it('clamps positions outside the stored range', () => {
+      expect(getMatrixCell(-100, 900).id).toBe('reconsider')
+    })
+  })
+
+  it('getCellBoundaries splits the range evenly', () => {
+    expect(getCellBoundaries(DEFAULT_MATRIX_CONFIG)).toEqual([260])
+    const [first, second] = getCellBoundaries(resolveMatrixConfig({ layout: '3x3' }))
+    expect(first).toBeCloseTo(173.33, 1)
+    expect(second).toBeCloseTo(346.67, 1)
+  })
+
+  it('countIdeasByQuadrant includes empty quadrants', () => {
+    const counts = countIdeasByQuadrant([{ x: 10, y: 10 }, { x: 20, y: 30 }, { x: 400, y: 100 }])
+    expect(counts).toEqual({ 'quick-wins': 2, strategic: 1, reconsider: 0, avoid: 0 })
+  })
+
+  it('applyDragDelta scales pixels to stored coordinates and clamps', () => {
+    expect(applyDragDelta({ x: 100, y: 100 }, { x: 30, y: -60 }, { width: 300, height: 300 })).toEqual({ x: 160, y: -20 })
+    expect(applyDragDelta({ x: 500, y: 260 }, { x: 600, y: 0 }, { width: 600, height: 600 })).toEqual({ x: 540, y: 260 })
+    expect(applyDragDelta({ x: 0, y: 0 }, { x: 10, y: 10 }, { width: 0, height: 0 })).toBeNull()
+  })
+
+  it('getCellBounds returns the stored-coordinate box of a quadrant', () => {
+    expect(getCellBounds('strategic')).toEqual({ minX: 260, maxX: 520, minY: 0, maxY: 260 })
+    expect(getCellBounds('missing')).toBeNull()
+  })
+
+  describe('axis direction', () => {
+    it('maps high axis values to the top-right for ascending axes', () => {
+      expect(axisValuesToPosition(1, 1)).toEqual({ x: 520, y: 0 })
+      expect(axisValuesToPosition(0, 0)).toEqual({ x: 0, y: 520 })
+    })
+
+    it('flips the position for descending axes', () => {
+      const config = resolveMatrixConfig({
+        x_axis: { label: 'Effort', direction: 'descending' },
+        y_axis: { label: 'Value', direction: 'descending' }
+      })
+      expect(axisValuesToPosition(1, 1, config)).toEqual({ x: 0, y: 520 })
+    })
+
+    it('positionToAxisValues inverts axisValuesToPosition', () => {
+      const config = resolveMatrixConfig({ x_axis: { label: 'Effort', direction: 'descending' } })
+      const { x, y } = axisValuesToPosition(0.25, 0.75, config)
+      const values = positionToAxisValues(x, y, config)
+      expect(values.xValue).toBeCloseTo(0.25, 2)
+      expect(values.yValue).toBeCloseTo(0.75, 2)
+    })
+
+    it('formatAxisLabel points the arrow along the axis direction', () => {
+      expect(formatAxisLabel(DEFAULT_MATRIX_CONFIG.xAxis, 'x')).toBe('Implementation Difficulty →')
+      expect(formatAxisLabel({ label: 'Cost', direction: 'descending' }, 'x')).toBe('← Cost')
+      expect(formatAxisLabel(DEFAULT_MATRIX_CONFIG.yAxis, 'y')).toBe('← Business Value')
+    })
+  })
+})
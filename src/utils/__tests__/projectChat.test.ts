@@ -0,0 +1,119 @@
+/**
+ * projectChat utility tests — context building, file retrieval and actions
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { IdeaCard, ProjectFile, RoadmapData } from '../../types'
+import { buildProjectChatContext, describeChatAction, newIdeaPosition, retrieveExcerpts } from '../projectChat'
+
+const idea = (id: string, overrides: Partial<IdeaCard> = {}): IdeaCard => ({
+  id,
+  content: `Idea ${id}`,
+  details: '',
+  x: 100,
+  y: 100,
+  priority: 'moderate',
+  created_by: 'user-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides
+})
+
+const file = (name: string, summary: string, extractedText = ''): ProjectFile => ({
+  id: name,
+  project_id: 'project-1',
+  name,
+  original_name: name,
+  file_type: 'pdf',
+  file_size: 100,
+  mime_type: 'application/pdf',
+  storage_path: `project-1/${name}`,
+  uploaded_by: 'user-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ai_analysis: {
+    summary,
+    key_insights: [],
+    extracted_text: extractedText,
+    relevance_score: 1,
+    content_type: 'text',
+    analysis_model: 'test',
+    analysis_version: '1',
+    analyzed_at: '2026-01-01T00:00:00.000Z'
+  }
+})
+
+const roadmap: RoadmapData = {
+  roadmapAnalysis: {
+    totalDuration: '8 weeks',
+    phases: [{
+      phase: 'Foundation',
+      duration: '3 weeks',
+      description: 'Set up payments',
+      epics: [{ title: 'Card vault', description: '', userStories: [], deliverables: [], priority: 'high', complexity: 'low', relatedIdeas: [] }],
+      risks: [],
+      successCriteria: []
+    }]
+  },
+  executionStrategy: { methodology: 'Agile', sprintLength: '2 weeks', teamRecommendations: '', keyMilestones: [] }
+}
+
+describe('projectChat', () => {
+  it('buildProjectChatContext describes ideas, roadmap and insights', () => {
+    const context = buildProjectChatContext({
+      ideas: [idea('a', { tags: ['payments'] }), idea('b', { x: 400, y: 400 })],
+      clusters: [{ id: 'c1', name: 'Speed', idea_ids: ['a'], color: '#2563eb' }],
+      roadmap,
+      insights: { executiveSummary: 'Checkout leaks', keyInsights: [{ insight: 'Guests drop off', impact: 'high' }], priorityRecommendations: { immediate: ['Guest checkout'] } }
+    }, 'What next?')
+
+    expect(context.quadrants.map((q) => q.id)).toEqual(['quick-wins', 'strategic', 'reconsider', 'avoid'])
+    expect(context.ideas[0]).toEqual({ id: 'a', title: 'Idea a', details: '', quadrant: 'quick-wins', priority: 'moderate', tags: ['payments'], theme: 'Speed' })
+    expect(context.ideas[1].quadrant).toBe('avoid')
+    expect(context.roadmap).toEqual({
+      totalDuration: '8 weeks',
+      phases: [{ phase: 'Foundation', duration: '3 weeks', description: 'Set up payments', epics: ['Card vault'] }]
+    })
+    expect(context.insights).toEqual({ executiveSummary: 'Checkout leaks', keyInsights: ['Guests drop off'], recommendations: ['Guest checkout'] })
+    expect(context.files).toEqual([])
+  })
+
+  it('retrieveExcerpts keeps the passages that match the question, in order', () => {
+    const paragraphs = [
+      'Shipping costs surprised most shoppers at the last step.',
+      'x'.repeat(1100),
+      'Shoppers abandoned checkout when forced to create an account.',
+      'y'.repeat(1100),
+      'Delivery times were rarely mentioned.'
+    ]
+
+    const excerpts = retrieveExcerpts(paragraphs.join('\n\n'), 'Why do shoppers abandon checkout?', 1)
+
+    expect(excerpts).toEqual([expect.stringContaining('forced to create an account')])
+  })
+
+  it('sends the files most relevant to the question when there are many', () => {
+    const files = [
+      file('pricing.pdf', 'Competitor pricing tables'),
+      file('interviews.pdf', 'Shopper interviews about checkout abandonment'),
+      ...Array.from({ length: 5 }, (_, i) => file(`misc-${i}.pdf`, 'Office seating plan'))
+    ]
+
+    const context = buildProjectChatContext({ ideas: [], files }, 'Summarize the checkout interviews')
+
+    expect(context.files[0].name).toBe('interviews.pdf')
+    expect(context.files.map((f) => f.name)).not.toContain('misc-0.pdf')
+  })
+
+  it('places and describes proposed actions', () => {
+    const ideas = [idea('a')]
+
+    expect(newIdeaPosition('avoid')).toEqual({ x: 390, y: 390 })
+    expect(newIdeaPosition(undefined)).toEqual({ x: 260, y: 260 })
+    expect(describeChatAction({ type: 'move_idea', ideaId: 'a', quadrant: 'strategic' }, ideas)).toBe('Move "Idea a" to Strategic')
+    expect(describeChatAction({ type: 'create_idea', content: 'Saved addresses', details: '', quadrant: 'quick-wins', priority: 'high' }, ideas))
+      .toBe('Create idea "Saved addresses" in Quick Wins')
+    expect(describeChatAction({ type: 'regenerate_roadmap_phase', phaseIndex: 0, instructions: 'Add a pilot' }, ideas, undefined, roadmap))
+      .toBe('Regenerate roadmap phase "Foundation": Add a pilot')
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * ratingConsensus utility tests — blind rating aggregation
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { IdeaCard, IdeaRating } from '../../types'
+import {
+  applyConsensusPositions,
+  applyRaterPositions,
+  canRateIdeas,
+  computeConsensus,
+  getWidestDisagreements,
+  isRatingFacilitator
+} from '../ratingConsensus'
+
+const baseIdea: IdeaCard = {
+  id: 'idea-1',
+  content: 'Idea',
+  details: '',
+  x: 260,
+  y: 260,
+  priority: 'moderate',
+  created_by: 'user-1',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z'
+}
+
+const rating = (idea_id: string, user_id: string, x: number, y: number): IdeaRating => ({ idea_id, user_id, x, y })
+
+describe('ratingConsensus', () => {
+  describe('computeConsensus', () => {
+    it('computes mean, median and spread per idea', () => {
+      const consensus = computeConsensus([
+        rating('a', 'u1', 100, 100),
+        rating('a', 'u2', 200, 100),
+        rating('a', 'u3', 450, 100)
+      ])
+      const entry = consensus.get('a')!
+      expect(entry.raterCount).toBe(3)
+      expect(entry.mean).toEqual({ x: 250, y: 100 })
+      expect(entry.median).toEqual({ x: 200, y: 100 })
+      expect(entry.spread.y).toBe(0)
+      expect(entry.spread.x).toBeCloseTo(147.2, 1)
+      expect(entry.disagreement).toBeCloseTo(entry.spread.x, 5)
+    })
+
+    it('averages the middle pair for an even number of raters', () => {
+      const entry = computeConsensus([rating('a', 'u1', 100, 0), rating('a', 'u2', 300, 40)]).get('a')!
+      expect(entry.median).toEqual({ x: 200, y: 20 })
+    })
+
+    it('returns an empty map without ratings', () => {
+      expect(computeConsensus([]).size).toBe(0)
+    })
+  })
+
+  it('getWidestDisagreements ranks contested ideas and skips single raters', () => {
+    const consensus = computeConsensus([
+      rating('agreed', 'u1', 100, 100), rating('agreed', 'u2', 110, 100),
+      rating('split', 'u1', 0, 0), rating('split', 'u2', 520, 520),
+      rating('mild', 'u1', 100, 100), rating('mild', 'u2', 300, 100),
+      rating('solo', 'u1', 0, 0)
+    ])
+    expect(getWidestDisagreements(consensus).map(e => e.ideaId)).toEqual(['split', 'mild'])
+    expect(getWidestDisagreements(consensus, 1).map(e => e.ideaId)).toEqual(['split'])
+  })
+
+  it('applyConsensusPositions moves rated ideas and keeps unrated ones', () => {
+    const unrated = { ...baseIdea, id: 'b' }
+    const consensus = computeConsensus([rating('idea-1', 'u1', 100, 50), rating('idea-1', 'u2', 300, 51)])
+    const [moved, kept] = applyConsensusPositions([baseIdea, unrated], consensus, 'mean')
+    expect(moved).toMatchObject({ x: 200, y: 51 })
+    expect(kept).toBe(unrated)
+  })
+
+  it('applyRaterPositions only uses the given rater', () => {
+    const ratings = [rating('idea-1', 'u1', 10, 20), rating('idea-1', 'u2', 500, 500)]
+    expect(applyRaterPositions([baseIdea], ratings, 'u1')[0]).toMatchObject({ x: 10, y: 20 })
+    const ideas = [baseIdea]
+    expect(applyRaterPositions(ideas, ratings, 'u3')).toBe(ideas)
+  })
+
+  it('limits rating to owners and editors and facilitation to owners', () => {
+    expect(canRateIdeas('owner')).toBe(true)
+    expect(canRateIdeas('editor')).toBe(true)
+    expect(canRateIdeas('viewer')).toBe(false)
+    expect(canRateIdeas(null)).toBe(false)
+    expect(isRatingFacilitator('owner')).toBe(true)
+    expect(isRatingFacilitator('editor')).toBe(false)
+  })
+})
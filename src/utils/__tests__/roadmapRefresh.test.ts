@@ -0,0 +1,95 @@
+/**
+ * roadmapRefresh utility tests — changed ideas and applying proposed changes
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { IdeaCard, RoadmapEpicChange } from '../../types'
+import type { Epic, RoadmapData } from '../../components/ProjectRoadmap/types'
+import { applyRoadmapChanges, diffEpic, findRoadmapIdeaChanges } from '../roadmapRefresh'
+
+const idea = (content: string, updatedAt: string): IdeaCard => ({
+  id: content,
+  content,
+  details: '',
+  x: 100,
+  y: 100,
+  priority: 'moderate',
+  created_by: null,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: updatedAt
+})
+
+const epic = (title: string, overrides: Partial<Epic> = {}): Epic => ({
+  title,
+  description: '',
+  userStories: [],
+  deliverables: [],
+  priority: 'medium',
+  complexity: 'medium',
+  relatedIdeas: [],
+  ...overrides
+})
+
+const roadmap = (epics: Epic[]): RoadmapData => ({
+  roadmapAnalysis: {
+    totalDuration: '3 months',
+    phases: [{ phase: 'One', duration: '1 month', description: '', epics, risks: [], successCriteria: [] }]
+  }
+})
+
+describe('roadmapRefresh', () => {
+  it('findRoadmapIdeaChanges lists ideas edited since the roadmap and related ideas that are gone', () => {
+    const ideas = [idea('Onboarding', '2026-02-01T00:00:00.000Z'), idea('Billing', '2026-03-05T00:00:00.000Z')]
+    const current = roadmap([epic('Signup', { relatedIdeas: ['onboarding ', 'Referral program'] })])
+
+    const result = findRoadmapIdeaChanges(ideas, current, '2026-03-01T00:00:00.000Z')
+
+    expect(result.changed.map(item => item.content)).toEqual(['Billing'])
+    expect(result.removed).toEqual(['Referral program'])
+  })
+
+  it('applyRoadmapChanges keeps the timeline fields of updated epics', () => {
+    const current = roadmap([epic('Signup', { startMonth: 2, duration: 3, team: 'web', status: 'in-progress' })])
+    const changes: RoadmapEpicChange[] = [
+      { id: 'change-0', action: 'update', phaseIndex: 0, epicIndex: 0, epic: epic('Signup v2', { priority: 'high' }), reason: '' }
+    ]
+
+    const [updated] = applyRoadmapChanges(current, changes).roadmapAnalysis!.phases[0].epics
+
+    expect(updated).toMatchObject({ title: 'Signup v2', priority: 'high', startMonth: 2, duration: 3, team: 'web', status: 'in-progress' })
+    expect(current.roadmapAnalysis!.phases[0].epics[0].title).toBe('Signup')
+  })
+
+  it('applyRoadmapChanges never touches locked epics', () => {
+    const current = roadmap([epic('Pinned', { locked: true }), epic('Other')])
+    const changes: RoadmapEpicChange[] = [
+      { id: 'change-0', action: 'update', phaseIndex: 0, epicIndex: 0, epic: epic('Rewritten'), reason: '' },
+      { id: 'change-1', action: 'remove', phaseIndex: 0, epicIndex: 0, reason: '' }
+    ]
+
+    expect(applyRoadmapChanges(current, changes)).toEqual(current)
+  })
+
+  it('applyRoadmapChanges adds and removes using the original indexes', () => {
+    const current = roadmap([epic('A'), epic('B'), epic('C')])
+    const changes: RoadmapEpicChange[] = [
+      { id: 'change-0', action: 'remove', phaseIndex: 0, epicIndex: 0, reason: '' },
+      { id: 'change-1', action: 'update', phaseIndex: 0, epicIndex: 2, epic: epic('C2'), reason: '' },
+      { id: 'change-2', action: 'add', phaseIndex: 0, epic: epic('D'), reason: '' }
+    ]
+
+    const titles = applyRoadmapChanges(current, changes).roadmapAnalysis!.phases[0].epics.map(item => item.title)
+
+    expect(titles).toEqual(['B', 'C2', 'D'])
+  })
+
+  it('diffEpic reports changed text fields and list items added or removed', () => {
+    const before = epic('Signup', { priority: 'low', deliverables: ['Form', 'Emails'] })
+    const after = epic('Signup', { priority: 'high', deliverables: ['Form', 'SSO'] })
+
+    expect(diffEpic(before, after)).toEqual([
+      { field: 'priority', before: 'low', after: 'high' },
+      { field: 'deliverables', added: ['SSO'], removed: ['Emails'] }
+    ])
+  })
+})
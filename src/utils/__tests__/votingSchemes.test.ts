@@ -0,0 +1,146 @@
+/**
+ * votingSchemes utility tests — budgets, vote checks, tallies and tie-breaking
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_VOTING_CONFIG,
+  areVotesPublic,
+  checkVote,
+  getDefaultVoteWeight,
+  getVotesRemaining,
+  getVotesUsed,
+  getVotingConfig,
+  rankVoteResults,
+  tallyVotes,
+  type VotingConfig
+} from '../votingSchemes'
+
+const dots: VotingConfig = { scheme: 'dots', budget: 5, allowMultiple: true }
+const ranked: VotingConfig = { scheme: 'ranked', budget: 3, allowMultiple: false }
+const thumbs: VotingConfig = { scheme: 'thumbs', budget: 1, allowMultiple: false }
+const points: VotingConfig = { scheme: 'points', budget: 100, allowMultiple: false }
+
+describe('getVotingConfig', () => {
+  it('falls back to five single dots and ignores allow_multiple_votes outside dot voting', () => {
+    expect(getVotingConfig({})).toEqual({ ...DEFAULT_VOTING_CONFIG, revealed: false })
+    expect(getVotingConfig({ voting_scheme: 'points', allow_multiple_votes: true })).toEqual({
+      scheme: 'points',
+      budget: 100,
+      allowMultiple: false,
+      visibility: 'live',
+      revealed: false
+    })
+  })
+
+  it('reads the vote visibility and whether votes were revealed', () => {
+    expect(getVotingConfig({ vote_visibility: 'hidden', votes_revealed_at: null })).toMatchObject({
+      visibility: 'hidden',
+      revealed: false
+    })
+    expect(getVotingConfig({ vote_visibility: 'anonymous', votes_revealed_at: '2026-10-19T10:00:00Z' })).toMatchObject({
+      visibility: 'anonymous',
+      revealed: true
+    })
+  })
+})
+
+describe('areVotesPublic', () => {
+  it('opens vote rows in live sessions and revealed hidden ones, never anonymous ones', () => {
+    expect(areVotesPublic(DEFAULT_VOTING_CONFIG)).toBe(true)
+    expect(areVotesPublic({ ...DEFAULT_VOTING_CONFIG, visibility: 'hidden' })).toBe(false)
+    expect(areVotesPublic({ ...DEFAULT_VOTING_CONFIG, visibility: 'hidden', revealed: true })).toBe(true)
+    expect(areVotesPublic({ ...DEFAULT_VOTING_CONFIG, visibility: 'anonymous', revealed: true })).toBe(false)
+  })
+})
+
+describe('budgets', () => {
+  it('counts dots and points by weight, ranks and thumbs by idea', () => {
+    const weights = new Map([['a', 2], ['b', 1]])
+
+    expect(getVotesUsed(dots, weights)).toBe(3)
+    expect(getVotesRemaining(dots, weights)).toBe(2)
+    expect(getVotesUsed(ranked, weights)).toBe(2)
+    expect(getVotesRemaining(ranked, weights)).toBe(1)
+    expect(getVotesRemaining(thumbs, weights)).toBe(Number.POSITIVE_INFINITY)
+  })
+})
+
+describe('getDefaultVoteWeight', () => {
+  it('adds a dot, takes the best free rank, or adds up to a step of points', () => {
+    expect(getDefaultVoteWeight(dots, new Map([['a', 2]]), 'a')).toBe(3)
+    expect(getDefaultVoteWeight(ranked, new Map([['a', 1], ['b', 3]]), 'c')).toBe(2)
+    expect(getDefaultVoteWeight(points, new Map([['a', 95]]), 'b')).toBe(5)
+  })
+})
+
+describe('checkVote', () => {
+  it('enforces one dot per idea unless several are allowed', () => {
+    const single = { ...dots, allowMultiple: false }
+
+    expect(checkVote(single, new Map([['a', 1]]), 'a', 2)).toBe('invalid_vote')
+    expect(checkVote(dots, new Map([['a', 1]]), 'a', 2)).toBeNull()
+    expect(checkVote(dots, new Map([['a', 4]]), 'b', 2)).toBe('budget_exceeded')
+  })
+
+  it('rejects taken or out-of-range ranks and ranking past the budget', () => {
+    const weights = new Map([['a', 1], ['b', 2]])
+
+    expect(checkVote(ranked, weights, 'c', 1)).toBe('invalid_vote')
+    expect(checkVote(ranked, weights, 'c', 4)).toBe('invalid_vote')
+    expect(checkVote(ranked, weights, 'c', 3)).toBeNull()
+    expect(checkVote(ranked, new Map([...weights, ['c', 3]]), 'd', 3)).toBe('budget_exceeded')
+    // Moving an idea to its own rank is fine
+    expect(checkVote(ranked, weights, 'a', 1)).toBeNull()
+  })
+
+  it('allows only +1 or -1 thumbs and reallocating points within budget', () => {
+    expect(checkVote(thumbs, new Map(), 'a', -1)).toBeNull()
+    expect(checkVote(thumbs, new Map(), 'a', 2)).toBe('invalid_vote')
+    expect(checkVote(points, new Map([['a', 60], ['b', 40]]), 'a', 50)).toBeNull()
+    expect(checkVote(points, new Map([['a', 60], ['b', 40]]), 'b', 50)).toBe('budget_exceeded')
+  })
+})
+
+describe('tallyVotes and rankVoteResults', () => {
+  it('scores a ranked first choice highest', () => {
+    const tallies = tallyVotes(ranked, [
+      { idea_id: 'a', weight: 1 },
+      { idea_id: 'b', weight: 3 },
+      { idea_id: 'b', weight: 2 }
+    ])
+
+    expect(tallies.get('a')).toBe(3)
+    expect(tallies.get('b')).toBe(3)
+  })
+
+  it('breaks ties by voters, then first choices, and marks what is still level', () => {
+    const votes = [
+      { idea_id: 'a', weight: 1 },
+      { idea_id: 'b', weight: 3 },
+      { idea_id: 'b', weight: 2 },
+      { idea_id: 'c', weight: 2 },
+      { idea_id: 'c', weight: 3 },
+      { idea_id: 'd', weight: 3 },
+      { idea_id: 'e', weight: 3 }
+    ]
+    const results = rankVoteResults(ranked, tallyVotes(ranked, votes), votes)
+
+    expect(results.map((result) => result.ideaId)).toEqual(['b', 'c', 'a', 'd', 'e'])
+    expect(results[0]).toMatchObject({ score: 3, voters: 2, rank: 1, tied: true })
+    expect(results[2]).toMatchObject({ score: 3, voters: 1, rank: 3, tied: false })
+    expect(results[3].tied).toBe(true)
+  })
+
+  it('gives a tie to the idea with more first choices in ranked voting', () => {
+    const votes = [
+      { idea_id: 'a', weight: 3 },
+      { idea_id: 'a', weight: 1 },
+      { idea_id: 'b', weight: 2 },
+      { idea_id: 'b', weight: 2 }
+    ]
+    const results = rankVoteResults(ranked, tallyVotes(ranked, votes), votes)
+
+    expect(results.map((result) => [result.ideaId, result.tied])).toEqual([['a', false], ['b', false]])
+  })
+})
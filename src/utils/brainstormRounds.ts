@@ -0,0 +1,101 @@
+/**
+ * Facilitated brainstorm rounds.
+ *
+ * The facilitator moves a session through silent ideation, reveal, grouping,
+ * dot voting and final placement. Each round has its own timer and decides
+ * what participants may do; the current round is stored on the session row
+ * so every phone picks it up from the session channel. A session with no
+ * round is the single open-ended phase sessions had before rounds.
+ *
+ * api/brainstorm/submit-idea.ts enforces the submission rule server-side.
+ */
+
+import type { BrainstormRound, BrainstormSession } from '../types/BrainstormSession'
+
+export interface RoundDefinition {
+  label: string
+  /** Instruction shown on participants' phones */
+  participantPrompt: string
+  defaultMinutes: number
+  canSubmitIdeas: boolean
+  /** Whether ideas from the session are shown on the shared board */
+  showsSessionIdeas: boolean
+}
+
+export const BRAINSTORM_ROUNDS: BrainstormRound[] = ['ideation', 'reveal', 'grouping', 'voting', 'placement']
+
+export const ROUND_DEFINITIONS: Record<BrainstormRound, RoundDefinition> = {
+  ideation: {
+    label: 'Silent ideation',
+    participantPrompt: 'Add as many ideas as you can. Nobody sees them until the reveal.',
+    defaultMinutes: 5,
+    canSubmitIdeas: true,
+    showsSessionIdeas: false
+  },
+  reveal: {
+    label: 'Reveal',
+    participantPrompt: 'Ideas are on the shared screen. Talk them through with the group.',
+    defaultMinutes: 5,
+    canSubmitIdeas: false,
+    showsSessionIdeas: true
+  },
+  grouping: {
+    label: 'Grouping',
+    participantPrompt: 'The facilitator is grouping similar ideas.',
+    defaultMinutes: 5,
+    canSubmitIdeas: false,
+    showsSessionIdeas: true
+  },
+  voting: {
+    label: 'Dot voting',
+    participantPrompt: 'Spend your dots on the ideas you want to take forward.',
+    defaultMinutes: 3,
+    canSubmitIdeas: false,
+    showsSessionIdeas: true
+  },
+  placement: {
+    label: 'Final placement',
+    participantPrompt: 'The facilitator is placing the chosen ideas on the matrix.',
+    defaultMinutes: 10,
+    canSubmitIdeas: false,
+    showsSessionIdeas: true
+  }
+}
+
+type SessionRoundFields = Pick<BrainstormSession, 'current_round' | 'round_ends_at'>
+
+/**
+ * The round after `round`; the first round when none has started, null after the last
+ */
+export function getNextRound(round: BrainstormRound | null | undefined): BrainstormRound | null {
+  if (!round) return BRAINSTORM_ROUNDS[0]
+  return BRAINSTORM_ROUNDS[BRAINSTORM_ROUNDS.indexOf(round) + 1] ?? null
+}
+
+/**
+ * Milliseconds left on the round timer, 0 once it has run out, null when untimed
+ */
+export function getRoundTimeRemaining(roundEndsAt: string | null | undefined, now = Date.now()): number | null {
+  if (!roundEndsAt) return null
+  return Math.max(0, new Date(roundEndsAt).getTime() - now)
+}
+
+/**
+ * Whether participants may submit ideas: always in an open-ended session,
+ * otherwise only while a submitting round's timer is running
+ */
+export function canSubmitInRound(session: SessionRoundFields, now = Date.now()): boolean {
+  if (!session.current_round) return true
+  if (!ROUND_DEFINITIONS[session.current_round].canSubmitIdeas) return false
+  return getRoundTimeRemaining(session.round_ends_at, now) !== 0
+}
+
+/**
+ * m:ss for a round countdown
+ */
+export function formatRoundTime(milliseconds: number): string {
+  const totalSeconds = Math.ceil(milliseconds / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
@@ -0,0 +1,111 @@
+/**
+ * Brainstorm technique templates.
+ *
+ * A template seeds a session with prompts for its rounds (see
+ * brainstormRounds). The prompts are copied onto the session when it is
+ * created, so AI-tailored prompts can be added and the facilitator steps
+ * through them during a round. Participants' phones show the current prompt
+ * and every idea submitted is tagged with the prompt it answered.
+ */
+
+import type { BrainstormRound, BrainstormSession, BrainstormTechnique, SessionPrompt } from '../types/BrainstormSession'
+
+export interface TechniqueTemplate {
+  name: string
+  description: string
+  /** Round timers that differ from the round defaults */
+  roundMinutes?: Partial<Record<BrainstormRound, number>>
+  prompts: Array<Omit<SessionPrompt, 'id'>>
+}
+
+export const TECHNIQUE_TEMPLATES: Record<BrainstormTechnique, TechniqueTemplate> = {
+  scamper: {
+    name: 'SCAMPER',
+    description: 'Seven lenses for changing something that already exists.',
+    prompts: [
+      { round: 'ideation', label: 'Substitute', text: 'What could we substitute: a material, step, person or rule?' },
+      { round: 'ideation', label: 'Combine', text: 'What could we combine with something else to create more value?' },
+      { round: 'ideation', label: 'Adapt', text: 'What could we adapt or copy from another product or industry?' },
+      { round: 'ideation', label: 'Modify', text: 'What could we make bigger, smaller, faster or change in shape?' },
+      { round: 'ideation', label: 'Put to other use', text: 'Who else could use this, or what else could it be used for?' },
+      { round: 'ideation', label: 'Eliminate', text: 'What could we remove or simplify without losing the point?' },
+      { round: 'ideation', label: 'Reverse', text: 'What if we reversed the order, flipped roles or did the opposite?' },
+      { round: 'grouping', label: 'Group by lens', text: 'Group ideas that change the same part of the product.' }
+    ]
+  },
+  'crazy-8s': {
+    name: 'Crazy 8s',
+    description: 'Eight quick ideas in eight minutes, quantity over polish.',
+    roundMinutes: { ideation: 8 },
+    prompts: [
+      { round: 'ideation', label: 'Crazy 8s', text: 'One idea a minute for eight minutes. Keep going, even with wild ones.' },
+      { round: 'reveal', label: 'Pitch', text: 'Pick your favourite of your eight and pitch it in one sentence.' },
+      { round: 'voting', label: 'Most promising', text: 'Vote for the ideas worth sketching in detail.' }
+    ]
+  },
+  'how-might-we': {
+    name: 'How Might We',
+    description: 'Reframe problems as opportunities before solving them.',
+    prompts: [
+      { round: 'ideation', label: 'Pain point', text: 'How might we remove the biggest frustration our users have today?' },
+      { round: 'ideation', label: 'Amplify', text: 'How might we make the best part of the experience even better?' },
+      { round: 'ideation', label: 'Opposite', text: 'How might we turn a weakness into a strength?' },
+      { round: 'grouping', label: 'Themes', text: 'Group ideas that answer the same underlying question.' }
+    ]
+  },
+  starbursting: {
+    name: 'Starbursting',
+    description: 'Explore an idea by asking questions before answering them.',
+    prompts: [
+      { round: 'ideation', label: 'Who', text: 'Who is this for, and who else is affected?' },
+      { round: 'ideation', label: 'What', text: 'What exactly are we building, and what does success look like?' },
+      { round: 'ideation', label: 'When', text: 'When will people need this, and when should we ship it?' },
+      { round: 'ideation', label: 'Where', text: 'Where will this be used, and where could it go wrong?' },
+      { round: 'ideation', label: 'Why', text: 'Why does this matter now, and why would people choose it?' },
+      { round: 'ideation', label: 'How', text: 'How will it work, and how will we know it worked?' }
+    ]
+  }
+}
+
+export const BRAINSTORM_TECHNIQUES = Object.keys(TECHNIQUE_TEMPLATES) as BrainstormTechnique[]
+
+/**
+ * The template's prompts followed by any extra (e.g. AI-tailored) ones, with ids
+ */
+export function seedSessionPrompts(
+  technique: BrainstormTechnique,
+  extraPrompts: Array<Omit<SessionPrompt, 'id'>> = []
+): SessionPrompt[] {
+  return [...TECHNIQUE_TEMPLATES[technique].prompts, ...extraPrompts].map((prompt, index) => ({
+    ...prompt,
+    id: `prompt-${index + 1}`
+  }))
+}
+
+/**
+ * Prompts for one round, in the order the facilitator steps through them
+ */
+export function getRoundPrompts(session: Pick<BrainstormSession, 'prompts'>, round: BrainstormRound): SessionPrompt[] {
+  return (session.prompts ?? []).filter((prompt) => prompt.round === round)
+}
+
+/**
+ * The prompt participants are answering, if the session has one for the current round
+ */
+export function getCurrentPrompt(
+  session: Pick<BrainstormSession, 'prompts' | 'current_round' | 'current_prompt_id'>
+): SessionPrompt | null {
+  if (!session.current_round || !session.current_prompt_id) return null
+  const prompt = session.prompts?.find((candidate) => candidate.id === session.current_prompt_id)
+  return prompt?.round === session.current_round ? prompt : null
+}
+
+/**
+ * Timer for a round, taking the session's technique into account
+ */
+export function getTechniqueRoundMinutes(
+  technique: BrainstormTechnique | null | undefined,
+  round: BrainstormRound
+): number | undefined {
+  return technique ? TECHNIQUE_TEMPLATES[technique].roundMinutes?.[round] : undefined
+}
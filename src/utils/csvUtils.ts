@@ -1,4 +1,16 @@
-import { IdeaCard } from '../types'
+import { IdeaCard, IdeaScores } from '../types'
+import { SCORING_FRAMEWORKS, SCORING_FRAMEWORK_IDS, calculateIdeaScore, formatIdeaScore } from './ideaScoring'
+
+// Score columns follow the base columns so older CSV files still parse by position
+const SCORE_COLUMNS = SCORING_FRAMEWORK_IDS.flatMap(framework =>
+  SCORING_FRAMEWORKS[framework].fields.map(field => ({
+    framework,
+    key: field.key,
+    header: `${SCORING_FRAMEWORKS[framework].label} ${field.label}`
+  }))
+)
+
+const SCORE_TOTAL_HEADERS = SCORING_FRAMEWORK_IDS.map(framework => `${SCORING_FRAMEWORKS[framework].label} Score`)
 
 // Export ideas to CSV format
 export const exportToCSV = (ideas: IdeaCard[]): void => {
@@ -11,7 +23,9 @@ export const exportToCSV = (ideas: IdeaCard[]): void => {
     'Y Position', 
     'Created By',
     'Created At',
-    'Updated At'
+    'Updated At',
+    ...SCORE_COLUMNS.map(column => column.header),
+    ...SCORE_TOTAL_HEADERS
   ]
 
   const csvContent = [
@@ -25,7 +39,12 @@ export const exportToCSV = (ideas: IdeaCard[]): void => {
       idea.y,
       `"${idea.created_by}"`,
       idea.created_at,
-      idea.updated_at
+      idea.updated_at,
+      ...SCORE_COLUMNS.map(column => {
+        const value = (idea.scores?.[column.framework] as Record<string, number | undefined> | undefined)?.[column.key]
+        return value ?? ''
+      }),
+      ...SCORING_FRAMEWORK_IDS.map(framework => formatIdeaScore(calculateIdeaScore(idea.scores, framework)))
     ].join(','))
   ].join('\n')
 
@@ -49,20 +68,26 @@ export const parseCSV = (csvContent: string, currentUser: string): Omit<IdeaCard
   const lines = csvContent.trim().split('\n')
   if (lines.length <= 1) return [] // No data rows
 
-  // const headers = lines[0].split(',').map(h => h.trim())
+  const headers = parseCSVLine(lines[0]).map(h => cleanCSVValue(h))
   const ideas: Omit<IdeaCard, 'id' | 'created_at' | 'updated_at'>[] = []
 
   for (let i = 1; i < lines.length; i++) {
     const values = parseCSVLine(lines[i])
     
     if (values.length >= 4) { // At minimum need title, details, priority, positions
-      const idea = {
+      const scores = parseScoreColumns(headers, values)
+      const x = parseInt(values[4])
+      const y = parseInt(values[5])
+      const idea: Omit<IdeaCard, 'id' | 'created_at' | 'updated_at'> = {
         content: cleanCSVValue(values[1] || ''),
         details: cleanCSVValue(values[2] || ''),
         priority: (values[3]?.trim() as IdeaCard['priority']) || 'moderate',
-        x: parseInt(values[4]) || 260,
-        y: parseInt(values[5]) || 260,
-        created_by: cleanCSVValue(values[6]) || currentUser
+        x: x || 260,
+        y: y || 260,
+        created_by: cleanCSVValue(values[6]) || currentUser,
+        ...(scores ? { scores } : {}),
+        // Rows without a position wait for someone (or AI placement) to place them
+        ...(!x && !y ? { unplaced: true } : {})
       }
 
       // Validate priority
@@ -82,6 +107,25 @@ export const parseCSV = (csvContent: string, currentUser: string): Omit<IdeaCard
   return ideas
 }
 
+// Read framework score inputs from named columns, if the file has any
+const parseScoreColumns = (headers: string[], values: string[]): IdeaScores | null => {
+  const scores: IdeaScores = {}
+  let found = false
+
+  for (const column of SCORE_COLUMNS) {
+    const index = headers.indexOf(column.header)
+    if (index === -1) continue
+    const raw = cleanCSVValue(values[index] || '')
+    const value = raw === '' ? NaN : Number(raw)
+    if (!Number.isFinite(value)) continue
+
+    scores[column.framework] = { ...scores[column.framework], [column.key]: value }
+    found = true
+  }
+
+  return found ? scores : null
+}
+
 // Parse a single CSV line handling quotes and commas
 const parseCSVLine = (line: string): string[] => {
   const result: string[] = []
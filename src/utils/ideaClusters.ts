@@ -0,0 +1,101 @@
+/**
+ * Idea clusters: named themes stored in project settings, each grouping
+ * ideas on the matrix. Helpers to drop members that no longer exist, move
+ * ideas between clusters, look up an idea's theme for the insights and
+ * roadmap prompts, and outline a cluster on the board.
+ */
+
+import type { IdeaCard, IdeaCluster } from '../types'
+import { coordinateToPercent } from './matrixQuadrant'
+
+export const CLUSTER_COLORS = ['#2563eb', '#16a34a', '#d97706', '#db2777', '#7c3aed', '#0891b2', '#dc2626', '#65a30d']
+
+// Room around the outermost card centres so the outline clears the cards,
+// in percent of the matrix container
+const OUTLINE_PADDING = { x: 9, y: 7 }
+
+/** A card's centre in percent of the matrix container */
+export interface CardPosition {
+  id: string
+  left: number
+  top: number
+}
+
+/** Outline box in percent of the matrix container */
+export interface ClusterOutline {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export function clusterColor(index: number): string {
+  return CLUSTER_COLORS[index % CLUSTER_COLORS.length]
+}
+
+/**
+ * Clusters with deleted ideas removed; clusters left empty are dropped.
+ */
+export function resolveIdeaClusters(
+  clusters: ReadonlyArray<IdeaCluster> | undefined,
+  ideas: ReadonlyArray<Pick<IdeaCard, 'id'>>
+): IdeaCluster[] {
+  const ideaIds = new Set(ideas.map((idea) => idea.id))
+  return (clusters ?? [])
+    .map((cluster) => ({ ...cluster, idea_ids: cluster.idea_ids.filter((id) => ideaIds.has(id)) }))
+    .filter((cluster) => cluster.idea_ids.length > 0)
+}
+
+/** Idea id -> name of the cluster it belongs to */
+export function getIdeaThemes(clusters: ReadonlyArray<IdeaCluster> | undefined): Map<string, string> {
+  const themes = new Map<string, string>()
+  for (const cluster of clusters ?? []) {
+    for (const id of cluster.idea_ids) themes.set(id, cluster.name)
+  }
+  return themes
+}
+
+/**
+ * Move ideas into a cluster, taking them out of any other. Pass null to
+ * leave them unclustered. Clusters left empty are dropped.
+ */
+export function moveIdeasToCluster(
+  clusters: ReadonlyArray<IdeaCluster>,
+  ideaIds: ReadonlyArray<string>,
+  clusterId: string | null
+): IdeaCluster[] {
+  const moving = new Set(ideaIds)
+  return clusters
+    .map((cluster) => {
+      const kept = cluster.idea_ids.filter((id) => !moving.has(id))
+      return { ...cluster, idea_ids: cluster.id === clusterId ? [...kept, ...ideaIds] : kept }
+    })
+    .filter((cluster) => cluster.idea_ids.length > 0)
+}
+
+/**
+ * Box around a cluster's cards, or null when none of its ideas are on the
+ * board. Positions are card centres in percent of the matrix container, so
+ * the same outline works for any board that knows where it drew each card.
+ */
+export function getClusterOutline(
+  cluster: Pick<IdeaCluster, 'idea_ids'>,
+  positions: ReadonlyArray<CardPosition>
+): ClusterOutline | null {
+  const members = new Set(cluster.idea_ids)
+  const points = positions.filter((position) => members.has(position.id))
+  if (points.length === 0) return null
+
+  const clamp = (value: number) => Math.max(0, Math.min(100, value))
+  const left = clamp(Math.min(...points.map((point) => point.left)) - OUTLINE_PADDING.x)
+  const right = clamp(Math.max(...points.map((point) => point.left)) + OUTLINE_PADDING.x)
+  const top = clamp(Math.min(...points.map((point) => point.top)) - OUTLINE_PADDING.y)
+  const bottom = clamp(Math.max(...points.map((point) => point.top)) + OUTLINE_PADDING.y)
+
+  return { left, top, width: right - left, height: bottom - top }
+}
+
+/** Card centres for ideas drawn at their stored coordinates */
+export function ideaCardPositions(ideas: ReadonlyArray<Pick<IdeaCard, 'id' | 'x' | 'y'>>): CardPosition[] {
+  return ideas.map((idea) => ({ id: idea.id, left: coordinateToPercent(idea.x), top: coordinateToPercent(idea.y) }))
+}
@@ -0,0 +1,140 @@
+/**
+ * Matrix idea filters: matching ideas against a filter, the URL encoding
+ * that makes filters shareable, and tag/creator option lists for the
+ * filter bar.
+ */
+
+import type { IdeaCard, IdeaFilter } from '../types'
+import { DEFAULT_MATRIX_CONFIG, getMatrixCell, type MatrixConfig } from './matrixQuadrant'
+
+/** Query parameters a filter is stored under; everything else in the URL is left alone */
+export const IDEA_FILTER_PARAMS = {
+  tags: 'tags',
+  priority: 'priority',
+  quadrant: 'quadrant',
+  createdBy: 'creator',
+  createdAfter: 'from',
+  createdBefore: 'to'
+} as const
+
+const PRIORITIES: ReadonlyArray<IdeaCard['priority']> = ['low', 'moderate', 'high', 'strategic', 'innovation']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function isIdeaFilterActive(filter: IdeaFilter): boolean {
+  return Boolean(
+    filter.tags?.length ||
+    filter.priority ||
+    filter.quadrant ||
+    filter.createdBy ||
+    filter.createdAfter ||
+    filter.createdBefore
+  )
+}
+
+/**
+ * Whether an idea passes every criterion in the filter. Tags match if the idea
+ * carries any of them (case-insensitive); created dates are inclusive local days.
+ */
+export function matchesIdeaFilter(
+  idea: IdeaCard,
+  filter: IdeaFilter,
+  config: MatrixConfig = DEFAULT_MATRIX_CONFIG
+): boolean {
+  if (filter.tags?.length) {
+    const ideaTags = new Set((idea.tags ?? []).map((tag) => tag.toLowerCase()))
+    if (!filter.tags.some((tag) => ideaTags.has(tag.toLowerCase()))) return false
+  }
+  if (filter.priority && idea.priority !== filter.priority) return false
+  if (filter.quadrant && getMatrixCell(idea.x, idea.y, config).id !== filter.quadrant) return false
+  if (filter.createdBy && idea.created_by !== filter.createdBy) return false
+
+  if (filter.createdAfter || filter.createdBefore) {
+    const created = new Date(idea.created_at).getTime()
+    if (!Number.isFinite(created)) return false
+    if (filter.createdAfter && created < new Date(`${filter.createdAfter}T00:00:00`).getTime()) return false
+    if (filter.createdBefore && created > new Date(`${filter.createdBefore}T23:59:59.999`).getTime()) return false
+  }
+  return true
+}
+
+/** Normalized copy with empty criteria removed, so equal filters compare equal */
+export function normalizeIdeaFilter(filter: IdeaFilter): IdeaFilter {
+  const normalized: IdeaFilter = {}
+  const tags = [...new Set((filter.tags ?? []).map((tag) => tag.trim()).filter(Boolean))]
+  if (tags.length) normalized.tags = tags
+  if (filter.priority) normalized.priority = filter.priority
+  if (filter.quadrant) normalized.quadrant = filter.quadrant
+  if (filter.createdBy) normalized.createdBy = filter.createdBy
+  if (filter.createdAfter) normalized.createdAfter = filter.createdAfter
+  if (filter.createdBefore) normalized.createdBefore = filter.createdBefore
+  return normalized
+}
+
+export function isSameIdeaFilter(a: IdeaFilter, b: IdeaFilter): boolean {
+  return ideaFilterToSearchParams(a, new URLSearchParams()).toString() ===
+    ideaFilterToSearchParams(b, new URLSearchParams()).toString()
+}
+
+/**
+ * Read a filter from URL query parameters. Unknown priorities and malformed
+ * dates are dropped rather than producing a filter nothing can match.
+ */
+export function ideaFilterFromSearchParams(params: URLSearchParams): IdeaFilter {
+  const priority = params.get(IDEA_FILTER_PARAMS.priority)
+  const createdAfter = params.get(IDEA_FILTER_PARAMS.createdAfter)
+  const createdBefore = params.get(IDEA_FILTER_PARAMS.createdBefore)
+
+  return normalizeIdeaFilter({
+    tags: params.get(IDEA_FILTER_PARAMS.tags)?.split(','),
+    priority: PRIORITIES.includes(priority as IdeaCard['priority']) ? (priority as IdeaCard['priority']) : undefined,
+    quadrant: params.get(IDEA_FILTER_PARAMS.quadrant) ?? undefined,
+    createdBy: params.get(IDEA_FILTER_PARAMS.createdBy) ?? undefined,
+    createdAfter: createdAfter && DATE_PATTERN.test(createdAfter) ? createdAfter : undefined,
+    createdBefore: createdBefore && DATE_PATTERN.test(createdBefore) ? createdBefore : undefined
+  })
+}
+
+/**
+ * Write a filter into a copy of `params`, replacing any previous filter and
+ * keeping unrelated parameters (e.g. `project`).
+ */
+export function ideaFilterToSearchParams(filter: IdeaFilter, params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params)
+  Object.values(IDEA_FILTER_PARAMS).forEach((name) => next.delete(name))
+
+  const normalized = normalizeIdeaFilter(filter)
+  if (normalized.tags) next.set(IDEA_FILTER_PARAMS.tags, normalized.tags.join(','))
+  if (normalized.priority) next.set(IDEA_FILTER_PARAMS.priority, normalized.priority)
+  if (normalized.quadrant) next.set(IDEA_FILTER_PARAMS.quadrant, normalized.quadrant)
+  if (normalized.createdBy) next.set(IDEA_FILTER_PARAMS.createdBy, normalized.createdBy)
+  if (normalized.createdAfter) next.set(IDEA_FILTER_PARAMS.createdAfter, normalized.createdAfter)
+  if (normalized.createdBefore) next.set(IDEA_FILTER_PARAMS.createdBefore, normalized.createdBefore)
+  return next
+}
+
+/**
+ * Every tag available for filtering and tagging: the project's vocabulary
+ * first, then free-form tags found on ideas, without case-insensitive duplicates.
+ */
+export function collectIdeaTags(ideas: ReadonlyArray<IdeaCard>, projectTags: ReadonlyArray<string> = []): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+  const add = (tag: string) => {
+    const trimmed = tag.trim()
+    if (trimmed && !seen.has(trimmed.toLowerCase())) {
+      seen.add(trimmed.toLowerCase())
+      result.push(trimmed)
+    }
+  }
+  projectTags.forEach(add)
+  ideas
+    .flatMap((idea) => idea.tags ?? [])
+    .sort((a, b) => a.localeCompare(b))
+    .forEach(add)
+  return result
+}
+
+/** Distinct creator ids of the given ideas */
+export function collectIdeaCreators(ideas: ReadonlyArray<IdeaCard>): string[] {
+  return [...new Set(ideas.map((idea) => idea.created_by).filter((id): id is string => Boolean(id)))]
+}
@@ -0,0 +1,224 @@
+/**
+ * Numeric scoring frameworks (RICE, ICE, WSJF) for ideas.
+ *
+ * Scores are stored per framework in `ideas.scores` (jsonb). When a project's
+ * matrix is in score-driven placement mode, every idea with a complete set of
+ * inputs for the selected framework is positioned from those inputs: the
+ * value side of the framework drives the y axis and the cost side drives the
+ * x axis. Positions are relative to the highest-scoring idea in the project,
+ * so the matrix always uses its full range. They are derived, not saved to
+ * x/y; anything that reads positions goes through getPlacedIdeas.
+ */
+
+import type { IdeaCard, IdeaScores, MatrixViewSettings, ScoringFramework } from '../types'
+import { DEFAULT_MATRIX_CONFIG, axisValuesToPosition, resolveMatrixConfig, type MatrixConfig } from './matrixQuadrant'
+
+export interface ScoreFieldDefinition {
+  key: string
+  label: string
+  min: number
+  max?: number
+  step: number
+  hint: string
+}
+
+export interface ScoringFrameworkDefinition {
+  id: ScoringFramework
+  label: string
+  formula: string
+  fields: ScoreFieldDefinition[]
+}
+
+export const SCORING_FRAMEWORKS: Record<ScoringFramework, ScoringFrameworkDefinition> = {
+  rice: {
+    id: 'rice',
+    label: 'RICE',
+    formula: 'Reach × Impact × Confidence ÷ Effort',
+    fields: [
+      { key: 'reach', label: 'Reach', min: 0, step: 1, hint: 'People or events per quarter' },
+      { key: 'impact', label: 'Impact', min: 0.25, max: 3, step: 0.25, hint: '0.25 minimal – 3 massive' },
+      { key: 'confidence', label: 'Confidence %', min: 0, max: 100, step: 5, hint: 'How sure are the estimates' },
+      { key: 'effort', label: 'Effort', min: 0.1, step: 0.5, hint: 'Person-months' }
+    ]
+  },
+  ice: {
+    id: 'ice',
+    label: 'ICE',
+    formula: 'Impact × Confidence × Ease',
+    fields: [
+      { key: 'impact', label: 'Impact', min: 1, max: 10, step: 1, hint: '1 – 10' },
+      { key: 'confidence', label: 'Confidence', min: 1, max: 10, step: 1, hint: '1 – 10' },
+      { key: 'ease', label: 'Ease', min: 1, max: 10, step: 1, hint: '1 – 10' }
+    ]
+  },
+  wsjf: {
+    id: 'wsjf',
+    label: 'WSJF',
+    formula: 'Cost of Delay ÷ Job Size',
+    fields: [
+      { key: 'business_value', label: 'Business Value', min: 1, max: 20, step: 1, hint: 'Relative, e.g. 1, 2, 3, 5, 8, 13, 20' },
+      { key: 'time_criticality', label: 'Time Criticality', min: 1, max: 20, step: 1, hint: 'Relative urgency' },
+      { key: 'risk_reduction', label: 'Risk Reduction', min: 1, max: 20, step: 1, hint: 'Risk reduction / opportunity enablement' },
+      { key: 'job_size', label: 'Job Size', min: 1, max: 20, step: 1, hint: 'Relative size of the work' }
+    ]
+  }
+}
+
+export const SCORING_FRAMEWORK_IDS = Object.keys(SCORING_FRAMEWORKS) as ScoringFramework[]
+
+export const DEFAULT_SCORING_FRAMEWORK: ScoringFramework = 'rice'
+
+// Keep score-placed cards off the very edge of the matrix
+const PLACEMENT_INSET = 0.05
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+/**
+ * Value and cost inputs for a framework, or null when any input is missing.
+ * Value grows with priority; cost grows with effort.
+ */
+export function getScoreComponents(
+  scores: IdeaScores | null | undefined,
+  framework: ScoringFramework
+): { value: number; cost: number } | null {
+  switch (framework) {
+    case 'rice': {
+      const rice = scores?.rice
+      if (!rice || !isNumber(rice.reach) || !isNumber(rice.impact) || !isNumber(rice.confidence) || !isNumber(rice.effort)) return null
+      if (rice.effort <= 0) return null
+      return { value: rice.reach * rice.impact * (rice.confidence / 100), cost: rice.effort }
+    }
+    case 'ice': {
+      const ice = scores?.ice
+      if (!ice || !isNumber(ice.impact) || !isNumber(ice.confidence) || !isNumber(ice.ease)) return null
+      // Ease is the inverse of cost on a 1–10 scale
+      return { value: ice.impact * ice.confidence, cost: 11 - Math.max(1, Math.min(10, ice.ease)) }
+    }
+    case 'wsjf': {
+      const wsjf = scores?.wsjf
+      if (!wsjf || !isNumber(wsjf.business_value) || !isNumber(wsjf.time_criticality) || !isNumber(wsjf.risk_reduction) || !isNumber(wsjf.job_size)) return null
+      if (wsjf.job_size <= 0) return null
+      return { value: wsjf.business_value + wsjf.time_criticality + wsjf.risk_reduction, cost: wsjf.job_size }
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Calculate the framework score, or null when the idea is not fully scored.
+ */
+export function calculateIdeaScore(
+  scores: IdeaScores | null | undefined,
+  framework: ScoringFramework
+): number | null {
+  if (framework === 'ice') {
+    const ice = scores?.ice
+    if (!ice || !isNumber(ice.impact) || !isNumber(ice.confidence) || !isNumber(ice.ease)) return null
+    return ice.impact * ice.confidence * ice.ease
+  }
+
+  const components = getScoreComponents(scores, framework)
+  return components ? components.value / components.cost : null
+}
+
+/**
+ * Human-readable score, e.g. "42" or "3.75". Empty string when unscored.
+ */
+export function formatIdeaScore(score: number | null): string {
+  if (score === null) return ''
+  return Number.isInteger(score) ? String(score) : score.toFixed(2)
+}
+
+/**
+ * Active placement mode and framework for a project's matrix.
+ */
+export function getScorePlacementSettings(matrixView?: Partial<MatrixViewSettings> | null): {
+  mode: 'free' | 'score'
+  framework: ScoringFramework
+} {
+  return {
+    mode: matrixView?.placement_mode === 'score' ? 'score' : 'free',
+    framework: matrixView?.scoring_framework && SCORING_FRAMEWORKS[matrixView.scoring_framework]
+      ? matrixView.scoring_framework
+      : DEFAULT_SCORING_FRAMEWORK
+  }
+}
+
+/**
+ * Compute stored-coordinate positions for every fully scored idea.
+ * Ideas without complete inputs are absent from the result.
+ */
+export function computeScorePositions(
+  ideas: ReadonlyArray<Pick<IdeaCard, 'id' | 'scores'>>,
+  framework: ScoringFramework,
+  config: MatrixConfig = DEFAULT_MATRIX_CONFIG
+): Map<string, { x: number; y: number }> {
+  const components = new Map<string, { value: number; cost: number }>()
+  for (const idea of ideas) {
+    const result = getScoreComponents(idea.scores, framework)
+    if (result) components.set(idea.id, result)
+  }
+
+  const positions = new Map<string, { x: number; y: number }>()
+  if (components.size === 0) return positions
+
+  const values = Array.from(components.values())
+  const maxValue = Math.max(...values.map(c => c.value))
+  const maxCost = Math.max(...values.map(c => c.cost))
+  const scale = (n: number) => PLACEMENT_INSET + n * (1 - PLACEMENT_INSET * 2)
+
+  components.forEach(({ value, cost }, id) => {
+    const valueRatio = maxValue > 0 ? value / maxValue : 0
+    const costRatio = maxCost > 0 ? cost / maxCost : 0
+    positions.set(id, axisValuesToPosition(scale(costRatio), scale(valueRatio), config))
+  })
+
+  return positions
+}
+
+/**
+ * Return ideas with score-driven positions applied when the project uses
+ * score placement. Unscored ideas keep their free position.
+ */
+export function applyScorePlacement(
+  ideas: IdeaCard[],
+  matrixView: Partial<MatrixViewSettings> | null | undefined,
+  config: MatrixConfig = DEFAULT_MATRIX_CONFIG
+): IdeaCard[] {
+  const { mode, framework } = getScorePlacementSettings(matrixView)
+  if (mode !== 'score') return ideas
+
+  const positions = computeScorePositions(ideas, framework, config)
+  if (positions.size === 0) return ideas
+
+  return ideas.map(idea => {
+    const position = positions.get(idea.id)
+    return position ? { ...idea, x: position.x, y: position.y } : idea
+  })
+}
+
+/**
+ * Ideas where the project's matrix draws them. Score placement is not stored
+ * in x/y, so every view, AI payload and export reads positions through this.
+ */
+export function getPlacedIdeas(
+  ideas: IdeaCard[],
+  matrixView: Partial<MatrixViewSettings> | null | undefined
+): IdeaCard[] {
+  return applyScorePlacement(ideas, matrixView, resolveMatrixConfig(matrixView))
+}
+
+/**
+ * Whether an idea's position is currently driven by its scores (and so
+ * should not be moved by dragging).
+ */
+export function isScorePlaced(
+  idea: Pick<IdeaCard, 'scores'>,
+  matrixView: Partial<MatrixViewSettings> | null | undefined
+): boolean {
+  const { mode, framework } = getScorePlacementSettings(matrixView)
+  return mode === 'score' && getScoreComponents(idea.scores, framework) !== null
+}
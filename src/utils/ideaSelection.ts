@@ -0,0 +1,97 @@
+/**
+ * Multi-select helpers for the matrix: lasso hit-testing and planning bulk
+ * changes for a selection of ideas.
+ */
+
+import type { IdeaCard } from '../types'
+import {
+  DEFAULT_MATRIX_CONFIG,
+  MATRIX_COORDINATE_MAX,
+  coordinateToPercent,
+  getCellBounds,
+  getMatrixCell,
+  type MatrixConfig
+} from './matrixQuadrant'
+
+/** A lasso rectangle as fractions (0–1) of the rendered matrix container */
+export interface SelectionRect {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+/** Keep cards this far inside the target cell when moving them into it */
+const CELL_INSET = 0.1
+
+export function rectFromPoints(
+  start: { x: number; y: number },
+  end: { x: number; y: number }
+): SelectionRect {
+  return {
+    left: Math.min(start.x, end.x),
+    top: Math.min(start.y, end.y),
+    right: Math.max(start.x, end.x),
+    bottom: Math.max(start.y, end.y)
+  }
+}
+
+/**
+ * Ids of ideas whose card center lies inside the lasso. Fractions keep this
+ * independent of zoom and container size.
+ */
+export function getIdeasInRect(ideas: ReadonlyArray<IdeaCard>, rect: SelectionRect): string[] {
+  return ideas
+    .filter((idea) => {
+      const cx = coordinateToPercent(idea.x) / 100
+      const cy = coordinateToPercent(idea.y) / 100
+      return cx >= rect.left && cx <= rect.right && cy >= rect.top && cy <= rect.bottom
+    })
+    .map((idea) => idea.id)
+}
+
+/**
+ * Target positions for moving ideas into a quadrant. Each idea keeps its
+ * relative place within its current cell so the group's arrangement
+ * survives the move; ideas already in the quadrant are left out.
+ */
+export function planQuadrantMove(
+  ideas: ReadonlyArray<IdeaCard>,
+  quadrantId: string,
+  config: MatrixConfig = DEFAULT_MATRIX_CONFIG
+): Array<{ id: string; x: number; y: number }> {
+  const target = getCellBounds(quadrantId, config)
+  if (!target) return []
+  const size = MATRIX_COORDINATE_MAX / config.divisions
+
+  return ideas
+    .filter((idea) => getMatrixCell(idea.x, idea.y, config).id !== quadrantId)
+    .map((idea) => {
+      const source = getCellBounds(getMatrixCell(idea.x, idea.y, config).id, config)!
+      const fx = Math.max(0, Math.min(1, (idea.x - source.minX) / size))
+      const fy = Math.max(0, Math.min(1, (idea.y - source.minY) / size))
+      const scale = 1 - 2 * CELL_INSET
+      return {
+        id: idea.id,
+        x: Math.round(target.minX + (CELL_INSET + fx * scale) * size),
+        y: Math.round(target.minY + (CELL_INSET + fy * scale) * size)
+      }
+    })
+}
+
+/**
+ * Add tags to an idea's existing tags: trimmed, case-insensitively de-duplicated,
+ * existing spelling wins.
+ */
+export function mergeTags(existing: ReadonlyArray<string> | undefined, added: ReadonlyArray<string>): string[] {
+  const result = [...(existing ?? [])]
+  const seen = new Set(result.map((tag) => tag.toLowerCase()))
+  for (const raw of added) {
+    const tag = raw.trim()
+    if (tag && !seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase())
+      result.push(tag)
+    }
+  }
+  return result
+}
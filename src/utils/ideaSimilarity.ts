@@ -0,0 +1,189 @@
+/**
+ * Idea similarity for duplicate detection: cosine similarity of embeddings,
+ * a lexical fallback for when embeddings are unavailable (offline or the AI
+ * call failed), grouping of near-duplicates, and the default merged text
+ * offered when folding duplicates together.
+ */
+
+import type { IdeaCard } from '../types'
+
+export type SimilarityMethod = 'embedding' | 'lexical'
+
+/**
+ * Scores at or above these count as near-duplicates. The lexical score runs
+ * lower than embeddings for the same pair, so it gets its own bar.
+ */
+export const DUPLICATE_THRESHOLDS: Record<SimilarityMethod, number> = {
+  embedding: 0.85,
+  lexical: 0.5
+}
+
+/** Ideas that look like the same idea, most similar group first */
+export interface DuplicateGroup {
+  ideaIds: string[]
+  /** Highest pairwise similarity inside the group, 0–1 */
+  similarity: number
+}
+
+export interface SimilarIdeaMatch {
+  ideaId: string
+  similarity: number
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from', 'has', 'have', 'in', 'into',
+  'is', 'it', 'its', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'this', 'to', 'up', 'us',
+  'we', 'with', 'you', 'your', 'add', 'adding', 'allow', 'let', 'make', 'new', 'support', 'users'
+])
+
+/** Text an idea is compared on */
+export function ideaText(idea: Pick<IdeaCard, 'content' | 'details'>): string {
+  return [idea.content, idea.details].filter(Boolean).join('. ').trim()
+}
+
+// Crude suffix stripping so "exports" / "exporting" / "exported" meet
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3)
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2)
+  if (word.length > 4 && word.endsWith('es')) return word.slice(0, -2)
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+  return word
+}
+
+function tokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem)
+}
+
+function trigrams(text: string): Set<string> {
+  const normalized = ` ${tokens(text).join(' ')} `
+  const grams = new Set<string>()
+  for (let i = 0; i < normalized.length - 2; i++) grams.add(normalized.slice(i, i + 3))
+  return grams
+}
+
+function termCosine(a: string[], b: string[]): number {
+  const counts = (words: string[]) => {
+    const map = new Map<string, number>()
+    for (const word of words) map.set(word, (map.get(word) ?? 0) + 1)
+    return map
+  }
+  const left = counts(a)
+  const right = counts(b)
+  let dot = 0
+  left.forEach((count, word) => { dot += count * (right.get(word) ?? 0) })
+  const norm = (map: Map<string, number>) => Math.sqrt([...map.values()].reduce((sum, n) => sum + n * n, 0))
+  const denominator = norm(left) * norm(right)
+  return denominator === 0 ? 0 : dot / denominator
+}
+
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  a.forEach((gram) => { if (b.has(gram)) shared++ })
+  return (2 * shared) / (a.size + b.size)
+}
+
+/**
+ * Lexical similarity (0–1): word overlap blended with character trigrams,
+ * which catch typos and word-form differences the word overlap misses.
+ */
+export function lexicalSimilarity(a: string, b: string): number {
+  const score = 0.6 * termCosine(tokens(a), tokens(b)) + 0.4 * dice(trigrams(a), trigrams(b))
+  return Math.round(score * 1000) / 1000
+}
+
+/**
+ * Cosine similarity of two embedding vectors (0 when either is empty).
+ */
+export function cosineSimilarity(a: ReadonlyArray<number>, b: ReadonlyArray<number>): number {
+  const length = Math.min(a.length, b.length)
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+/**
+ * Group ideas whose pairwise similarity reaches `threshold`. Groups are
+ * transitive: if A matches B and B matches C, all three are one group.
+ *
+ * @param similarity - Score for the ideas at two indexes
+ */
+export function findDuplicateGroups(
+  ideas: ReadonlyArray<Pick<IdeaCard, 'id'>>,
+  similarity: (i: number, j: number) => number,
+  threshold: number
+): DuplicateGroup[] {
+  const parent = ideas.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+  const best = new Map<number, number>()
+
+  for (let i = 0; i < ideas.length; i++) {
+    for (let j = i + 1; j < ideas.length; j++) {
+      const score = similarity(i, j)
+      if (score < threshold) continue
+      const rootI = find(i)
+      const rootJ = find(j)
+      const groupBest = Math.max(score, best.get(rootI) ?? 0, best.get(rootJ) ?? 0)
+      parent[rootJ] = rootI
+      best.set(rootI, groupBest)
+    }
+  }
+
+  const members = new Map<number, string[]>()
+  ideas.forEach((idea, index) => {
+    const root = find(index)
+    if (!best.has(root)) return
+    members.set(root, [...(members.get(root) ?? []), idea.id])
+  })
+
+  return [...members.entries()]
+    .map(([root, ideaIds]) => ({ ideaIds, similarity: Math.round((best.get(root) ?? 0) * 1000) / 1000 }))
+    .sort((a, b) => b.similarity - a.similarity)
+}
+
+/**
+ * Default content and details when folding `sources` into `target`: the
+ * target's title, its details, then each source's differing title and
+ * details, without repeats. Editable before the merge is saved.
+ */
+export function buildMergedIdea(
+  target: Pick<IdeaCard, 'content' | 'details'>,
+  sources: ReadonlyArray<Pick<IdeaCard, 'content' | 'details'>>
+): { content: string; details: string } {
+  const seen = new Set<string>()
+  const parts: string[] = []
+  const add = (text: string | undefined) => {
+    const trimmed = text?.trim()
+    if (!trimmed || seen.has(trimmed.toLowerCase())) return
+    seen.add(trimmed.toLowerCase())
+    parts.push(trimmed)
+  }
+
+  seen.add(target.content.trim().toLowerCase())
+  add(target.details)
+  for (const source of sources) {
+    if (!seen.has(source.content.trim().toLowerCase())) add(`Also suggested as: ${source.content.trim()}`)
+    seen.add(source.content.trim().toLowerCase())
+    add(source.details)
+  }
+
+  return { content: target.content.trim(), details: parts.join('\n\n') }
+}
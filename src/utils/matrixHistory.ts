@@ -0,0 +1,148 @@
+/**
+ * Matrix history replay.
+ *
+ * Rebuilds the board at any past moment from `idea_revisions` snapshots and
+ * interpolates between two boards so the timeline can animate how ideas
+ * moved. Revisions are expected in chronological order, as returned by
+ * IdeaRevisionRepository.getProjectRevisions.
+ */
+
+import type { IdeaCard, IdeaRevision } from '../types'
+
+export interface HistoryRange {
+  start: number
+  end: number
+}
+
+export interface HistoryChangeSummary {
+  created: number
+  deleted: number
+  merged: number
+  moved: number
+  reprioritized: number
+  edited: number
+}
+
+function toTime(timestamp: number | string | Date): number {
+  return typeof timestamp === 'number' ? timestamp : new Date(timestamp).getTime()
+}
+
+/**
+ * Earliest and latest revision times, or null without history.
+ */
+export function getHistoryRange(revisions: ReadonlyArray<IdeaRevision>): HistoryRange | null {
+  if (revisions.length === 0) return null
+  return {
+    start: toTime(revisions[0].created_at),
+    end: toTime(revisions[revisions.length - 1].created_at)
+  }
+}
+
+/**
+ * The board as it stood at `timestamp`: the latest revision of every idea at
+ * or before that moment, minus ideas whose latest revision is a delete.
+ */
+export function reconstructBoardAt(
+  revisions: ReadonlyArray<IdeaRevision>,
+  timestamp: number | string | Date
+): IdeaCard[] {
+  const at = toTime(timestamp)
+  const latest = new Map<string, IdeaRevision>()
+  const firstSeen = new Map<string, string>()
+
+  for (const revision of revisions) {
+    if (toTime(revision.created_at) > at) break
+    latest.set(revision.idea_id, revision)
+    if (!firstSeen.has(revision.idea_id)) firstSeen.set(revision.idea_id, revision.created_at)
+  }
+
+  const board: IdeaCard[] = []
+  latest.forEach((revision, ideaId) => {
+    if (revision.activity_type === 'idea_deleted') return
+    board.push({
+      id: ideaId,
+      content: revision.content,
+      details: revision.details,
+      x: revision.x,
+      y: revision.y,
+      priority: revision.priority,
+      created_by: null,
+      created_at: firstSeen.get(ideaId) ?? revision.created_at,
+      updated_at: revision.created_at,
+      project_id: revision.project_id
+    })
+  })
+  return board
+}
+
+/**
+ * Blend two boards for animation. `progress` runs from 0 (`from`) to 1 (`to`).
+ * Ideas on both boards glide between positions; ideas on only one board
+ * swap in at the halfway point.
+ */
+export function interpolateBoards(
+  from: ReadonlyArray<IdeaCard>,
+  to: ReadonlyArray<IdeaCard>,
+  progress: number
+): IdeaCard[] {
+  const t = Math.max(0, Math.min(1, progress))
+  const target = new Map(to.map(idea => [idea.id, idea]))
+  const result: IdeaCard[] = []
+
+  for (const idea of from) {
+    const end = target.get(idea.id)
+    if (end) {
+      result.push({
+        ...(t < 0.5 ? idea : end),
+        x: Math.round(idea.x + (end.x - idea.x) * t),
+        y: Math.round(idea.y + (end.y - idea.y) * t)
+      })
+      target.delete(idea.id)
+    } else if (t < 0.5) {
+      result.push(idea)
+    }
+  }
+
+  if (t >= 0.5) {
+    target.forEach(idea => result.push(idea))
+  }
+
+  return result
+}
+
+/**
+ * Count what changed between two moments, for the timeline caption.
+ */
+export function summarizeChanges(
+  revisions: ReadonlyArray<IdeaRevision>,
+  from: number | string | Date,
+  to: number | string | Date
+): HistoryChangeSummary {
+  const start = toTime(from)
+  const end = toTime(to)
+  const moved = new Set<string>()
+  const reprioritized = new Set<string>()
+  const edited = new Set<string>()
+  let created = 0
+  let deleted = 0
+  let merged = 0
+
+  for (const revision of revisions) {
+    const time = toTime(revision.created_at)
+    if (time <= start) continue
+    if (time > end) break
+    if (revision.activity_type === 'idea_created') created++
+    else if (revision.activity_type === 'idea_deleted') deleted++
+    // The merged-away ideas also appear as deletes
+    else if (revision.activity_type === 'idea_merged') merged++
+    else {
+      if (revision.changed_fields.includes('position')) moved.add(revision.idea_id)
+      if (revision.changed_fields.includes('priority')) reprioritized.add(revision.idea_id)
+      if (revision.changed_fields.includes('content') || revision.changed_fields.includes('details')) {
+        edited.add(revision.idea_id)
+      }
+    }
+  }
+
+  return { created, deleted, merged, moved: moved.size, reprioritized: reprioritized.size, edited: edited.size }
+}
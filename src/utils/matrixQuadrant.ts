@@ -3,12 +3,26 @@
  *
  * Coordinate system: stored 0–520 range, center at 260 (maps to 50% visually
  * after the ((coord + 40) / 600) * 100 percentage conversion used at render time).
+ *
+ * Projects can override the default value/effort grid through
+ * ProjectSettings.matrix_view (axis names, axis direction, quadrant names and
+ * colors, 2x2 or 3x3 layout). `resolveMatrixConfig` turns those partial
+ * settings into a complete MatrixConfig; everything below accepts one.
  */
 
+import type {
+  MatrixAxisConfig,
+  MatrixLayout,
+  MatrixQuadrantConfig,
+  MatrixViewSettings
+} from '../types'
+
 export type Quadrant = 'quick-wins' | 'strategic' | 'reconsider' | 'avoid'
 
 const CENTER = 260
 
+export const MATRIX_COORDINATE_MAX = 520
+
 export function calculateQuadrant(x: number, y: number): Quadrant {
   if (x < CENTER && y < CENTER) return 'quick-wins'
   if (x >= CENTER && y < CENTER) return 'strategic'
@@ -29,3 +43,229 @@ export const QUADRANT_LABELS: Record<Quadrant, string> = {
   'reconsider': 'Reconsider',
   'avoid': 'Avoid',
 }
+
+// ---------------------------------------------------------------------------
+// Configurable matrix
+// ---------------------------------------------------------------------------
+
+export interface MatrixConfig {
+  layout: MatrixLayout
+  divisions: 2 | 3
+  xAxis: MatrixAxisConfig
+  yAxis: MatrixAxisConfig
+  /** Row-major from the top-left cell; length is always divisions² */
+  quadrants: MatrixQuadrantConfig[]
+}
+
+export const DEFAULT_X_AXIS: MatrixAxisConfig = {
+  label: 'Implementation Difficulty',
+  low_label: 'Low Effort',
+  high_label: 'High Effort',
+  direction: 'ascending'
+}
+
+export const DEFAULT_Y_AXIS: MatrixAxisConfig = {
+  label: 'Business Value',
+  low_label: 'Low Value',
+  high_label: 'High Value',
+  direction: 'ascending'
+}
+
+export const DEFAULT_QUADRANTS_2X2: MatrixQuadrantConfig[] = [
+  { id: 'quick-wins', label: QUADRANT_LABELS['quick-wins'], description: 'High Value • Low Effort', color: QUADRANT_COLORS['quick-wins'] },
+  { id: 'strategic', label: QUADRANT_LABELS.strategic, description: 'High Value • High Effort', color: QUADRANT_COLORS.strategic },
+  { id: 'reconsider', label: QUADRANT_LABELS.reconsider, description: 'Low Value • Low Effort', color: QUADRANT_COLORS.reconsider },
+  { id: 'avoid', label: QUADRANT_LABELS.avoid, description: 'Low Value • High Effort', color: QUADRANT_COLORS.avoid },
+]
+
+export const DEFAULT_QUADRANTS_3X3: MatrixQuadrantConfig[] = [
+  { id: 'quick-wins', label: 'Quick Wins', description: 'High Value • Low Effort', color: '#10B981' },
+  { id: 'major-projects', label: 'Major Projects', description: 'High Value • Medium Effort', color: '#0EA5E9' },
+  { id: 'strategic', label: 'Strategic Bets', description: 'High Value • High Effort', color: '#3B82F6' },
+  { id: 'easy-improvements', label: 'Easy Improvements', description: 'Medium Value • Low Effort', color: '#84CC16' },
+  { id: 'evaluate', label: 'Evaluate', description: 'Medium Value • Medium Effort', color: '#A855F7' },
+  { id: 'time-sinks', label: 'Time Sinks', description: 'Medium Value • High Effort', color: '#F97316' },
+  { id: 'fill-ins', label: 'Fill-ins', description: 'Low Value • Low Effort', color: '#F59E0B' },
+  { id: 'reconsider', label: 'Reconsider', description: 'Low Value • Medium Effort', color: '#FB7185' },
+  { id: 'avoid', label: 'Avoid', description: 'Low Value • High Effort', color: '#EF4444' },
+]
+
+export const DEFAULT_MATRIX_CONFIG: MatrixConfig = {
+  layout: '2x2',
+  divisions: 2,
+  xAxis: DEFAULT_X_AXIS,
+  yAxis: DEFAULT_Y_AXIS,
+  quadrants: DEFAULT_QUADRANTS_2X2
+}
+
+function defaultQuadrantsFor(layout: MatrixLayout): MatrixQuadrantConfig[] {
+  return layout === '3x3' ? DEFAULT_QUADRANTS_3X3 : DEFAULT_QUADRANTS_2X2
+}
+
+function resolveAxis(axis: Partial<MatrixAxisConfig> | undefined, fallback: MatrixAxisConfig): MatrixAxisConfig {
+  if (!axis) return fallback
+  return {
+    label: axis.label?.trim() || fallback.label,
+    low_label: axis.low_label?.trim() || fallback.low_label,
+    high_label: axis.high_label?.trim() || fallback.high_label,
+    direction: axis.direction === 'descending' ? 'descending' : 'ascending'
+  }
+}
+
+/**
+ * Build a complete MatrixConfig from (possibly partial or legacy) project
+ * settings. Quadrant lists with the wrong length for the layout are replaced
+ * by the layout defaults; missing labels/colors fall back per cell.
+ */
+export function resolveMatrixConfig(matrixView?: Partial<MatrixViewSettings> | null): MatrixConfig {
+  if (!matrixView) return DEFAULT_MATRIX_CONFIG
+
+  const layout: MatrixLayout = matrixView.layout === '3x3' ? '3x3' : '2x2'
+  const divisions = layout === '3x3' ? 3 : 2
+  const defaults = defaultQuadrantsFor(layout)
+  const custom = matrixView.quadrants
+
+  const quadrants = custom && custom.length === defaults.length
+    ? custom.map((quadrant, index) => ({
+        id: quadrant.id?.trim() || defaults[index].id,
+        label: quadrant.label?.trim() || defaults[index].label,
+        description: quadrant.description ?? defaults[index].description,
+        color: quadrant.color || defaults[index].color
+      }))
+    : defaults
+
+  return {
+    layout,
+    divisions,
+    xAxis: resolveAxis(matrixView.x_axis, DEFAULT_X_AXIS),
+    yAxis: resolveAxis(matrixView.y_axis, DEFAULT_Y_AXIS),
+    quadrants
+  }
+}
+
+function cellIndex(coord: number, divisions: number): number {
+  const clamped = Math.max(0, Math.min(MATRIX_COORDINATE_MAX, coord))
+  // Matches calculateQuadrant: the boundary itself belongs to the next cell
+  return Math.min(divisions - 1, Math.floor((clamped / MATRIX_COORDINATE_MAX) * divisions))
+}
+
+/**
+ * Get the configured quadrant (cell) containing a stored position.
+ * Cells are laid out visually, so axis direction does not change which cell
+ * a position falls in — only what the axes mean.
+ */
+export function getMatrixCell(x: number, y: number, config: MatrixConfig = DEFAULT_MATRIX_CONFIG): MatrixQuadrantConfig {
+  const col = cellIndex(x, config.divisions)
+  const row = cellIndex(y, config.divisions)
+  return config.quadrants[row * config.divisions + col]
+}
+
+/**
+ * Stored-coordinate boundaries between cells (excluding the outer edges).
+ * For 2x2 this is [260]; for 3x3 it is [173.33, 346.67].
+ */
+export function getCellBoundaries(config: MatrixConfig = DEFAULT_MATRIX_CONFIG): number[] {
+  return Array.from({ length: config.divisions - 1 }, (_, i) => ((i + 1) * MATRIX_COORDINATE_MAX) / config.divisions)
+}
+
+/**
+ * Stored-coordinate bounds of a configured quadrant (cell), or null when the
+ * id is not part of the config.
+ */
+export function getCellBounds(
+  quadrantId: string,
+  config: MatrixConfig = DEFAULT_MATRIX_CONFIG
+): { minX: number; maxX: number; minY: number; maxY: number } | null {
+  const index = config.quadrants.findIndex((quadrant) => quadrant.id === quadrantId)
+  if (index < 0) return null
+  const size = MATRIX_COORDINATE_MAX / config.divisions
+  const col = index % config.divisions
+  const row = Math.floor(index / config.divisions)
+  return { minX: col * size, maxX: (col + 1) * size, minY: row * size, maxY: (row + 1) * size }
+}
+
+/**
+ * Convert a stored coordinate into the percentage used when rendering.
+ */
+export function coordinateToPercent(coord: number): number {
+  return ((coord + 40) / 600) * 100
+}
+
+/**
+ * Apply a pixel drag delta to a stored position, scaled by the rendered size
+ * of the matrix container. Returns null when the container has no size
+ * (e.g. the hidden normal view while fullscreen is open).
+ */
+export function applyDragDelta(
+  position: { x: number; y: number },
+  delta: { x: number; y: number },
+  containerSize: { width: number; height: number }
+): { x: number; y: number } | null {
+  if (containerSize.width <= 0 || containerSize.height <= 0) return null
+  // Same bounds as free dragging: the 0–520 range with some overflow allowed
+  const x = Math.max(-20, Math.min(540, Math.round(position.x + delta.x * (600 / containerSize.width))))
+  const y = Math.max(-20, Math.min(540, Math.round(position.y + delta.y * (600 / containerSize.height))))
+  return { x, y }
+}
+
+/**
+ * Count ideas per configured quadrant. Every quadrant id is present in the
+ * result, including empty ones, so charts and PDFs render a stable legend.
+ */
+export function countIdeasByQuadrant(
+  ideas: ReadonlyArray<{ x: number; y: number }>,
+  config: MatrixConfig = DEFAULT_MATRIX_CONFIG
+): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const quadrant of config.quadrants) counts[quadrant.id] = 0
+  for (const idea of ideas) {
+    counts[getMatrixCell(idea.x, idea.y, config).id] += 1
+  }
+  return counts
+}
+
+/**
+ * Map axis values (0 = low end, 1 = high end of each axis) to a stored
+ * position, honouring axis direction.
+ */
+export function axisValuesToPosition(
+  xValue: number,
+  yValue: number,
+  config: MatrixConfig = DEFAULT_MATRIX_CONFIG
+): { x: number; y: number } {
+  const clampUnit = (v: number) => Math.max(0, Math.min(1, v))
+  const xRatio = config.xAxis.direction === 'ascending' ? clampUnit(xValue) : 1 - clampUnit(xValue)
+  // Stored y grows downward, so an ascending y axis is inverted
+  const yRatio = config.yAxis.direction === 'ascending' ? 1 - clampUnit(yValue) : clampUnit(yValue)
+  return {
+    x: Math.round(xRatio * MATRIX_COORDINATE_MAX),
+    y: Math.round(yRatio * MATRIX_COORDINATE_MAX)
+  }
+}
+
+/**
+ * Inverse of axisValuesToPosition.
+ */
+export function positionToAxisValues(
+  x: number,
+  y: number,
+  config: MatrixConfig = DEFAULT_MATRIX_CONFIG
+): { xValue: number; yValue: number } {
+  const xRatio = Math.max(0, Math.min(1, x / MATRIX_COORDINATE_MAX))
+  const yRatio = Math.max(0, Math.min(1, y / MATRIX_COORDINATE_MAX))
+  return {
+    xValue: config.xAxis.direction === 'ascending' ? xRatio : 1 - xRatio,
+    yValue: config.yAxis.direction === 'ascending' ? 1 - yRatio : yRatio
+  }
+}
+
+/**
+ * Axis caption with a direction arrow, e.g. "Implementation Difficulty →".
+ */
+export function formatAxisLabel(axis: MatrixAxisConfig, orientation: 'x' | 'y'): string {
+  if (orientation === 'x') {
+    return axis.direction === 'ascending' ? `${axis.label} →` : `← ${axis.label}`
+  }
+  // The y caption is rendered rotated; ascending keeps the board's original caption
+  return axis.direction === 'ascending' ? `← ${axis.label}` : `${axis.label} →`
+}
@@ -0,0 +1,198 @@
+/**
+ * Project assistant: the context sent with each question and helpers for
+ * the actions it proposes.
+ *
+ * Ideas, the latest roadmap and the latest insights are sent whole (trimmed
+ * to size). Files are retrieved: only analysed files whose summary or text
+ * relates to the question are sent, with the passages that match it best.
+ */
+
+import type { IdeaCard, IdeaCluster, ProjectChatAction, ProjectFile, RoadmapData } from '../types'
+import type { InsightsReport } from '../lib/ai'
+import { DEFAULT_MATRIX_CONFIG, getCellBounds, getMatrixCell, type MatrixConfig } from './matrixQuadrant'
+import { getIdeaThemes } from './ideaClusters'
+import { lexicalSimilarity } from './ideaSimilarity'
+
+const MAX_CONTEXT_IDEAS = 300
+const MAX_CONTEXT_FILES = 5
+const MAX_EXCERPTS_PER_FILE = 3
+const EXCERPT_LENGTH = 1200
+// Files scoring below this against the question are left out, unless there
+// are only a few files, in which case all of them are sent
+const MIN_FILE_RELEVANCE = 0.05
+
+/** Project context in the shape the project-chat endpoint expects */
+export interface ProjectChatContext {
+  quadrants: Array<{ id: string; label: string }>
+  ideas: Array<{
+    id: string
+    title: string
+    details: string
+    quadrant: string
+    priority: string
+    tags: string[]
+    theme?: string
+  }>
+  roadmap: {
+    totalDuration: string
+    phases: Array<{ phase: string; duration: string; description: string; epics: string[] }>
+  } | null
+  insights: { executiveSummary: string; keyInsights: string[]; recommendations: string[] } | null
+  files: Array<{ id: string; name: string; summary: string; keyInsights: string[]; excerpts: string[] }>
+}
+
+export interface ProjectChatSources {
+  ideas: IdeaCard[]
+  matrixConfig?: MatrixConfig
+  clusters?: IdeaCluster[]
+  roadmap?: RoadmapData | null
+  insights?: InsightsReport | null
+  files?: ProjectFile[]
+}
+
+// Text a file can be searched by: extracted text, then transcript, then preview
+function fileText(file: ProjectFile): string {
+  const analysis = file.ai_analysis
+  return analysis?.extracted_text || analysis?.audio_transcript || file.content_preview || ''
+}
+
+// Split on paragraph breaks, packing paragraphs into chunks of about EXCERPT_LENGTH
+function chunkText(text: string): string[] {
+  const chunks: string[] = []
+  let current = ''
+  for (const paragraph of text.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean)) {
+    for (let start = 0; start < paragraph.length; start += EXCERPT_LENGTH) {
+      const piece = paragraph.slice(start, start + EXCERPT_LENGTH)
+      if (current && current.length + piece.length + 2 > EXCERPT_LENGTH) {
+        chunks.push(current)
+        current = ''
+      }
+      current = current ? `${current}\n\n${piece}` : piece
+    }
+  }
+  if (current) chunks.push(current)
+  return chunks
+}
+
+/**
+ * Passages of a document that best match the question, in document order.
+ */
+export function retrieveExcerpts(text: string, question: string, maxExcerpts = MAX_EXCERPTS_PER_FILE): string[] {
+  const chunks = chunkText(text)
+  if (chunks.length <= maxExcerpts) return chunks
+  const best = chunks
+    .map((chunk, index) => ({ index, score: lexicalSimilarity(question, chunk) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxExcerpts)
+    .map((entry) => entry.index)
+    .sort((a, b) => a - b)
+  return best.map((index) => chunks[index])
+}
+
+function selectFiles(files: ProjectFile[], question: string): ProjectChatContext['files'] {
+  const analysed = files.filter((file) => file.ai_analysis || fileText(file))
+  const scored = analysed
+    .map((file) => {
+      const analysis = file.ai_analysis
+      const about = [file.name, analysis?.summary, ...(analysis?.key_insights ?? [])].filter(Boolean).join('. ')
+      const excerpts = retrieveExcerpts(fileText(file), question)
+      const score = Math.max(lexicalSimilarity(question, about), ...excerpts.map((excerpt) => lexicalSimilarity(question, excerpt)))
+      return { file, excerpts, score }
+    })
+    .sort((a, b) => b.score - a.score)
+
+  return scored
+    .filter((entry, index) => analysed.length <= MAX_CONTEXT_FILES || index === 0 || entry.score >= MIN_FILE_RELEVANCE)
+    .slice(0, MAX_CONTEXT_FILES)
+    .map(({ file, excerpts }) => ({
+      id: file.id,
+      name: file.original_name || file.name,
+      summary: file.ai_analysis?.summary ?? '',
+      keyInsights: file.ai_analysis?.key_insights ?? [],
+      excerpts
+    }))
+}
+
+/**
+ * Context for one question. The question steers which file passages are sent.
+ */
+export function buildProjectChatContext(sources: ProjectChatSources, question: string): ProjectChatContext {
+  const config = sources.matrixConfig ?? DEFAULT_MATRIX_CONFIG
+  const themes = getIdeaThemes(sources.clusters)
+  const phases = sources.roadmap?.roadmapAnalysis?.phases ?? []
+  const insights = sources.insights
+
+  return {
+    quadrants: config.quadrants.map((quadrant) => ({ id: quadrant.id, label: quadrant.label })),
+    ideas: sources.ideas.slice(0, MAX_CONTEXT_IDEAS).map((idea) => {
+      const theme = themes.get(idea.id)
+      return {
+        id: idea.id,
+        title: idea.content,
+        details: idea.details || '',
+        quadrant: getMatrixCell(idea.x, idea.y, config).id,
+        priority: idea.priority,
+        tags: idea.tags ?? [],
+        ...(theme ? { theme } : {})
+      }
+    }),
+    roadmap: phases.length > 0
+      ? {
+          totalDuration: sources.roadmap?.roadmapAnalysis.totalDuration ?? '',
+          phases: phases.map((phase) => ({
+            phase: phase.phase,
+            duration: phase.duration,
+            description: phase.description,
+            epics: (phase.epics ?? []).map((epic) => epic.title)
+          }))
+        }
+      : null,
+    insights: insights
+      ? {
+          executiveSummary: insights.executiveSummary ?? '',
+          keyInsights: (insights.keyInsights ?? []).map((entry) => entry.insight),
+          recommendations: [
+            ...(insights.priorityRecommendations?.immediate ?? []),
+            ...(insights.priorityRecommendations?.shortTerm ?? [])
+          ]
+        }
+      : null,
+    files: selectFiles(sources.files ?? [], question)
+  }
+}
+
+/**
+ * Where a new idea proposed by the assistant goes: the middle of its
+ * quadrant, or the middle of the matrix when it has none.
+ */
+export function newIdeaPosition(quadrantId: string | undefined, config: MatrixConfig = DEFAULT_MATRIX_CONFIG): { x: number; y: number } {
+  const bounds = quadrantId ? getCellBounds(quadrantId, config) : null
+  if (!bounds) return { x: 260, y: 260 }
+  return { x: Math.round((bounds.minX + bounds.maxX) / 2), y: Math.round((bounds.minY + bounds.maxY) / 2) }
+}
+
+/**
+ * One-line description of a proposed action for its confirm button.
+ */
+export function describeChatAction(
+  action: ProjectChatAction,
+  ideas: ReadonlyArray<IdeaCard>,
+  config: MatrixConfig = DEFAULT_MATRIX_CONFIG,
+  roadmap?: RoadmapData | null
+): string {
+  const quadrantLabel = (id?: string) => config.quadrants.find((quadrant) => quadrant.id === id)?.label
+  switch (action.type) {
+    case 'create_idea': {
+      const label = quadrantLabel(action.quadrant)
+      return `Create idea "${action.content}"${label ? ` in ${label}` : ''}`
+    }
+    case 'move_idea': {
+      const idea = ideas.find((candidate) => candidate.id === action.ideaId)
+      return `Move "${idea?.content ?? 'idea'}" to ${quadrantLabel(action.quadrant) ?? action.quadrant}`
+    }
+    case 'regenerate_roadmap_phase': {
+      const phase = roadmap?.roadmapAnalysis?.phases?.[action.phaseIndex]
+      return `Regenerate roadmap phase "${phase?.phase ?? action.phaseIndex + 1}"${action.instructions ? `: ${action.instructions}` : ''}`
+    }
+  }
+}
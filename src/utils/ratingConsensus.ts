@@ -0,0 +1,133 @@
+/**
+ * Consensus maths for blind rating.
+ *
+ * Each rater stores a private position per idea (see ratingRepository).
+ * After reveal the matrix shows every idea at the consensus position of
+ * those ratings, with its per-axis standard deviation drawn as an ellipse of
+ * disagreement. Positions are in stored coordinates (0–520, center 260).
+ */
+
+import type { IdeaCard, IdeaRating, ProjectRole } from '../types'
+
+export type ConsensusMethod = 'median' | 'mean'
+
+export interface IdeaConsensus {
+  ideaId: string
+  raterCount: number
+  mean: { x: number; y: number }
+  median: { x: number; y: number }
+  /** Population standard deviation per axis */
+  spread: { x: number; y: number }
+  /** Combined spread of both axes; 0 when every rater agrees */
+  disagreement: number
+}
+
+// Roughly a tenth of the matrix; below this raters broadly agree
+export const DISAGREEMENT_THRESHOLD = 60
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+function standardDeviation(values: number[], average: number): number {
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)))
+}
+
+/**
+ * Aggregate ratings into one consensus entry per rated idea.
+ */
+export function computeConsensus(ratings: ReadonlyArray<IdeaRating>): Map<string, IdeaConsensus> {
+  const byIdea = new Map<string, IdeaRating[]>()
+  for (const rating of ratings) {
+    const list = byIdea.get(rating.idea_id)
+    if (list) list.push(rating)
+    else byIdea.set(rating.idea_id, [rating])
+  }
+
+  const consensus = new Map<string, IdeaConsensus>()
+  byIdea.forEach((list, ideaId) => {
+    const xs = list.map(r => r.x)
+    const ys = list.map(r => r.y)
+    const meanX = mean(xs)
+    const meanY = mean(ys)
+    const spread = { x: standardDeviation(xs, meanX), y: standardDeviation(ys, meanY) }
+    consensus.set(ideaId, {
+      ideaId,
+      raterCount: list.length,
+      mean: { x: meanX, y: meanY },
+      median: { x: median(xs), y: median(ys) },
+      spread,
+      disagreement: Math.hypot(spread.x, spread.y)
+    })
+  })
+
+  return consensus
+}
+
+/**
+ * Ideas with the widest disagreement first. Ideas rated by fewer than two
+ * people or below the threshold are left out.
+ */
+export function getWidestDisagreements(
+  consensus: ReadonlyMap<string, IdeaConsensus>,
+  limit = 3,
+  threshold = DISAGREEMENT_THRESHOLD
+): IdeaConsensus[] {
+  return Array.from(consensus.values())
+    .filter(entry => entry.raterCount >= 2 && entry.disagreement >= threshold)
+    .sort((a, b) => b.disagreement - a.disagreement)
+    .slice(0, limit)
+}
+
+/**
+ * Move ideas to their consensus position. Unrated ideas keep their shared position.
+ */
+export function applyConsensusPositions(
+  ideas: IdeaCard[],
+  consensus: ReadonlyMap<string, IdeaConsensus>,
+  method: ConsensusMethod = 'median'
+): IdeaCard[] {
+  if (consensus.size === 0) return ideas
+  return ideas.map(idea => {
+    const entry = consensus.get(idea.id)
+    if (!entry) return idea
+    const position = entry[method]
+    return { ...idea, x: Math.round(position.x), y: Math.round(position.y) }
+  })
+}
+
+/**
+ * Move ideas to one rater's private positions. Ideas they have not rated yet
+ * keep their shared position.
+ */
+export function applyRaterPositions(
+  ideas: IdeaCard[],
+  ratings: ReadonlyArray<IdeaRating>,
+  userId: string
+): IdeaCard[] {
+  const own = new Map<string, IdeaRating>()
+  for (const rating of ratings) {
+    if (rating.user_id === userId) own.set(rating.idea_id, rating)
+  }
+  if (own.size === 0) return ideas
+  return ideas.map(idea => {
+    const rating = own.get(idea.id)
+    return rating ? { ...idea, x: rating.x, y: rating.y } : idea
+  })
+}
+
+/** Owners and editors rate; viewers and commenters only see the reveal. */
+export function canRateIdeas(role: ProjectRole | null | undefined): boolean {
+  return role === 'owner' || role === 'editor'
+}
+
+/** The project owner facilitates: starts, reveals and ends rounds. */
+export function isRatingFacilitator(role: ProjectRole | null | undefined): boolean {
+  return role === 'owner'
+}
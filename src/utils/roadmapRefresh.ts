@@ -0,0 +1,117 @@
+/**
+ * Roadmap refresh: find the ideas that changed since a roadmap version was
+ * saved, and apply the epic changes the AI proposes for them. Applying keeps
+ * what users set by hand: locked epics are never changed or removed, and an
+ * updated epic keeps its timeline placement, team and status.
+ */
+
+import type { IdeaCard, RoadmapEpicChange } from '../types'
+import type { Epic, RoadmapData } from '../components/ProjectRoadmap/types'
+
+export interface RoadmapIdeaChanges {
+  /** Ideas added or edited after the roadmap was saved */
+  changed: IdeaCard[]
+  /** Related-idea titles in the roadmap that no longer match an idea */
+  removed: string[]
+}
+
+/** One field of an epic that an update changes, for the review diff */
+export type EpicFieldDiff =
+  | { field: 'title' | 'description' | 'priority' | 'complexity'; before: string; after: string }
+  | { field: 'userStories' | 'deliverables' | 'relatedIdeas'; added: string[]; removed: string[] }
+
+const TEXT_FIELDS = ['title', 'description', 'priority', 'complexity'] as const
+const LIST_FIELDS = ['userStories', 'deliverables', 'relatedIdeas'] as const
+
+// Epic fields set on the timeline, which an AI update must not overwrite
+const USER_EPIC_FIELDS = ['startMonth', 'duration', 'team', 'status', 'locked', 'originalFeatureId'] as const
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase()
+
+/**
+ * Ideas changed since `since` and the roadmap's ideas that were deleted.
+ * @param ideas - Ideas now on the matrix
+ * @param roadmap - Roadmap being refreshed
+ * @param since - When the roadmap version was saved (ISO timestamp)
+ */
+export function findRoadmapIdeaChanges(
+  ideas: ReadonlyArray<IdeaCard>,
+  roadmap: RoadmapData,
+  since: string
+): RoadmapIdeaChanges {
+  const sinceTime = new Date(since).getTime()
+  const changed = ideas.filter(idea => new Date(idea.updated_at || idea.created_at).getTime() > sinceTime)
+
+  const current = new Set(ideas.map(idea => normalizeTitle(idea.content)))
+  const removed = new Map<string, string>()
+  for (const phase of roadmap.roadmapAnalysis?.phases ?? []) {
+    for (const epic of phase.epics ?? []) {
+      for (const title of epic.relatedIdeas ?? []) {
+        const key = normalizeTitle(title)
+        if (key && !current.has(key) && !removed.has(key)) removed.set(key, title)
+      }
+    }
+  }
+
+  return { changed, removed: [...removed.values()] }
+}
+
+/**
+ * A copy of the roadmap with the given changes applied. Changes whose epic
+ * is locked or no longer exists are skipped. Indexes refer to the roadmap
+ * as it was when the changes were proposed.
+ */
+export function applyRoadmapChanges(roadmap: RoadmapData, changes: ReadonlyArray<RoadmapEpicChange>): RoadmapData {
+  const source = roadmap.roadmapAnalysis
+  if (!source) return roadmap
+
+  const phases = source.phases.map(phase => ({ ...phase, epics: [...(phase.epics ?? [])] }))
+  const removals = new Map<number, Set<number>>()
+
+  for (const change of changes) {
+    const phase = phases[change.phaseIndex]
+    if (!phase) continue
+    const existing = change.epicIndex !== undefined ? phase.epics[change.epicIndex] : undefined
+
+    if (change.action === 'add' && change.epic) {
+      phase.epics.push({ ...change.epic })
+    } else if (change.action === 'update' && change.epic && existing && !existing.locked) {
+      const kept: Partial<Epic> = {}
+      for (const field of USER_EPIC_FIELDS) {
+        const value = (existing as Epic & { originalFeatureId?: unknown })[field]
+        if (value !== undefined) Object.assign(kept, { [field]: value })
+      }
+      phase.epics[change.epicIndex!] = { ...change.epic, ...kept }
+    } else if (change.action === 'remove' && existing && !existing.locked) {
+      removals.set(change.phaseIndex, (removals.get(change.phaseIndex) ?? new Set()).add(change.epicIndex!))
+    }
+  }
+
+  // Removed last so the indexes of the other changes still line up
+  removals.forEach((indexes, phaseIndex) => {
+    phases[phaseIndex].epics = phases[phaseIndex].epics.filter((_, index) => !indexes.has(index))
+  })
+
+  return { ...roadmap, roadmapAnalysis: { ...source, phases } }
+}
+
+/**
+ * The fields an update changes: text fields before and after, list fields
+ * as the items added and removed.
+ */
+export function diffEpic(before: Epic, after: Epic): EpicFieldDiff[] {
+  const diffs: EpicFieldDiff[] = []
+  for (const field of TEXT_FIELDS) {
+    const from = before[field] ?? ''
+    const to = after[field] ?? ''
+    if (from !== to) diffs.push({ field, before: from, after: to })
+  }
+  for (const field of LIST_FIELDS) {
+    const from = before[field] ?? []
+    const to = after[field] ?? []
+    const added = to.filter(item => !from.includes(item))
+    const removed = from.filter(item => !to.includes(item))
+    if (added.length > 0 || removed.length > 0) diffs.push({ field, added, removed })
+  }
+  return diffs
+}
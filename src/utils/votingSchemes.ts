@@ -0,0 +1,278 @@
+/**
+ * Brainstorm voting schemes.
+ *
+ * The facilitator picks how a session votes: dot voting with a chosen budget
+ * (optionally several dots on one idea), ranked choice, thumbs up/down or a
+ * 100-point allocation. Each user has at most one idea_votes row per idea;
+ * its weight means dots, rank, +1/-1 or points depending on the scheme.
+ *
+ * The enforce_vote_scheme trigger applies the same rules server-side (see
+ * supabase/migrations/20261019090000_voting_schemes.sql).
+ *
+ * Votes can also be hidden until the facilitator reveals them, or anonymous:
+ * then nobody but the voter can read a vote and tallies come from
+ * session_vote_tallies() (20261019100000_vote_visibility.sql).
+ */
+
+import type { BrainstormSession, VoteVisibility, VotingScheme } from '../types/BrainstormSession'
+
+export interface VotingConfig {
+  scheme: VotingScheme
+  /** Dots or points per person, or how many ideas each person ranks; unused for thumbs */
+  budget: number
+  /** Dot voting only: whether several dots may go on one idea */
+  allowMultiple: boolean
+  /** Who sees votes before they are revealed; live when omitted */
+  visibility?: VoteVisibility
+  /** The facilitator has revealed hidden or anonymous votes */
+  revealed?: boolean
+}
+
+export interface VotingSchemeDefinition {
+  label: string
+  description: string
+  defaultBudget: number
+  /** Largest budget the facilitator can choose */
+  maxBudget: number
+  /** Label for the budget setting; null when the scheme has no budget */
+  budgetLabel: string | null
+}
+
+export const VOTING_SCHEMES: Record<VotingScheme, VotingSchemeDefinition> = {
+  dots: {
+    label: 'Dot voting',
+    description: 'Spend a budget of dots on the ideas worth taking forward.',
+    defaultBudget: 5,
+    maxBudget: 10,
+    budgetLabel: 'Dots per person'
+  },
+  ranked: {
+    label: 'Ranked choice',
+    description: 'Rank your top ideas; a first choice scores most.',
+    defaultBudget: 3,
+    maxBudget: 10,
+    budgetLabel: 'Ideas to rank'
+  },
+  thumbs: {
+    label: 'Thumbs up/down',
+    description: 'Give any idea a thumbs up or down.',
+    defaultBudget: 1,
+    maxBudget: 1,
+    budgetLabel: null
+  },
+  points: {
+    label: '100-point allocation',
+    description: 'Split your points across the ideas you back.',
+    defaultBudget: 100,
+    maxBudget: 1000,
+    budgetLabel: 'Points per person'
+  }
+}
+
+export const VOTE_VISIBILITIES: Record<VoteVisibility, { label: string; description: string }> = {
+  live: {
+    label: 'Live',
+    description: 'Everyone sees tallies change as votes come in.'
+  },
+  hidden: {
+    label: 'Hidden until revealed',
+    description: 'Participants see only their own votes until you reveal them.'
+  },
+  anonymous: {
+    label: 'Anonymous',
+    description: 'No one sees who voted for what; you see tallies only, participants once revealed.'
+  }
+}
+
+export const DEFAULT_VOTING_CONFIG: VotingConfig = { scheme: 'dots', budget: 5, allowMultiple: false, visibility: 'live' }
+
+/** Points added or taken back per step in a points allocation */
+export const POINTS_STEP = 10
+
+export type VoteCheckResult = 'budget_exceeded' | 'invalid_vote' | null
+
+export interface VoteResult {
+  ideaId: string
+  score: number
+  voters: number
+  /** 1-based position after tie-breaking */
+  rank: number
+  /** Still level with a neighbour after every tie-breaker */
+  tied: boolean
+}
+
+/**
+ * The voting configuration stored on a session
+ */
+export function getVotingConfig(
+  session: Pick<
+    BrainstormSession,
+    'voting_scheme' | 'vote_budget' | 'allow_multiple_votes' | 'vote_visibility' | 'votes_revealed_at'
+  >
+): VotingConfig {
+  const scheme = session.voting_scheme ?? DEFAULT_VOTING_CONFIG.scheme
+  return {
+    scheme,
+    budget: session.vote_budget ?? VOTING_SCHEMES[scheme].defaultBudget,
+    allowMultiple: scheme === 'dots' && Boolean(session.allow_multiple_votes),
+    visibility: session.vote_visibility ?? 'live',
+    revealed: Boolean(session.votes_revealed_at)
+  }
+}
+
+/**
+ * Whether everyone can read every vote row: live sessions, and hidden ones
+ * once revealed. Otherwise tallies come from server-side aggregates.
+ */
+export function areVotesPublic(config: VotingConfig): boolean {
+  const visibility = config.visibility ?? 'live'
+  return visibility === 'live' || (visibility === 'hidden' && Boolean(config.revealed))
+}
+
+/**
+ * What one vote adds to its idea's tally: a ranked first choice scores the
+ * budget, the last rank scores 1; other schemes score the weight itself
+ */
+export function getVoteScore(config: VotingConfig, weight = 1): number {
+  return config.scheme === 'ranked' ? config.budget - weight + 1 : weight
+}
+
+/**
+ * Dots or points spent, or ideas ranked or rated
+ */
+export function getVotesUsed(config: VotingConfig, myWeights: ReadonlyMap<string, number>): number {
+  if (config.scheme === 'ranked' || config.scheme === 'thumbs') return myWeights.size
+  let used = 0
+  for (const weight of myWeights.values()) used += weight
+  return used
+}
+
+/**
+ * Budget left; unlimited for thumbs up/down
+ */
+export function getVotesRemaining(config: VotingConfig, myWeights: ReadonlyMap<string, number>): number {
+  if (config.scheme === 'thumbs') return Number.POSITIVE_INFINITY
+  return Math.max(0, config.budget - getVotesUsed(config, myWeights))
+}
+
+/**
+ * The weight a plain "vote for this idea" sets: one more dot, the best free
+ * rank, a thumbs up or another step of points
+ */
+export function getDefaultVoteWeight(
+  config: VotingConfig,
+  myWeights: ReadonlyMap<string, number>,
+  ideaId: string
+): number {
+  const current = myWeights.get(ideaId)
+  switch (config.scheme) {
+    case 'dots':
+      return (current ?? 0) + 1
+    case 'ranked': {
+      if (current !== undefined) return current
+      const taken = new Set(myWeights.values())
+      let rank = 1
+      while (taken.has(rank)) rank++
+      return rank
+    }
+    case 'thumbs':
+      return 1
+    case 'points': {
+      const remaining = getVotesRemaining(config, myWeights)
+      return (current ?? 0) + (remaining > 0 ? Math.min(POINTS_STEP, remaining) : POINTS_STEP)
+    }
+  }
+}
+
+/**
+ * Whether setting the user's vote on an idea to `weight` is allowed
+ */
+export function checkVote(
+  config: VotingConfig,
+  myWeights: ReadonlyMap<string, number>,
+  ideaId: string,
+  weight: number
+): VoteCheckResult {
+  if (!Number.isInteger(weight)) return 'invalid_vote'
+  const others = new Map(myWeights)
+  others.delete(ideaId)
+
+  switch (config.scheme) {
+    case 'thumbs':
+      return weight === 1 || weight === -1 ? null : 'invalid_vote'
+    case 'ranked':
+      if (others.size >= config.budget) return 'budget_exceeded'
+      if (weight < 1 || weight > config.budget) return 'invalid_vote'
+      return [...others.values()].includes(weight) ? 'invalid_vote' : null
+    case 'dots':
+    case 'points':
+      if (weight < 1) return 'invalid_vote'
+      if (config.scheme === 'dots' && !config.allowMultiple && weight > 1) return 'invalid_vote'
+      return getVotesUsed(config, others) + weight > config.budget ? 'budget_exceeded' : null
+  }
+}
+
+/**
+ * Tally per idea from vote rows
+ */
+export function tallyVotes(
+  config: VotingConfig,
+  votes: Iterable<{ idea_id: string; weight?: number | null }>
+): Map<string, number> {
+  const tallies = new Map<string, number>()
+  for (const vote of votes) {
+    tallies.set(vote.idea_id, (tallies.get(vote.idea_id) ?? 0) + getVoteScore(config, vote.weight ?? 1))
+  }
+  return tallies
+}
+
+/**
+ * Ideas ordered by tally, from vote rows (see rankVoteTallies)
+ */
+export function rankVoteResults(
+  config: VotingConfig,
+  tallies: ReadonlyMap<string, number>,
+  votes: Iterable<{ idea_id: string; weight?: number | null }>
+): VoteResult[] {
+  const voters = new Map<string, number>()
+  const firstChoices = new Map<string, number>()
+  for (const vote of votes) {
+    voters.set(vote.idea_id, (voters.get(vote.idea_id) ?? 0) + 1)
+    if (config.scheme === 'ranked' && (vote.weight ?? 1) === 1) {
+      firstChoices.set(vote.idea_id, (firstChoices.get(vote.idea_id) ?? 0) + 1)
+    }
+  }
+
+  return rankVoteTallies(
+    [...tallies.entries()].map(([ideaId, score]) => ({
+      ideaId,
+      score,
+      voters: voters.get(ideaId) ?? 0,
+      firstChoices: firstChoices.get(ideaId) ?? 0
+    }))
+  )
+}
+
+/**
+ * Ideas ordered by tally. Ties go to the idea more people voted for, then
+ * (ranked choice) to more first choices; ideas still level are marked tied
+ * and ordered by id so every screen shows the same order.
+ */
+export function rankVoteTallies(
+  tallies: Array<{ ideaId: string; score: number; voters: number; firstChoices: number }>
+): VoteResult[] {
+  const entries = [...tallies]
+  const compareLevel = (a: (typeof entries)[number], b: (typeof entries)[number]) =>
+    b.score - a.score || b.voters - a.voters || b.firstChoices - a.firstChoices
+  entries.sort((a, b) => compareLevel(a, b) || a.ideaId.localeCompare(b.ideaId))
+
+  return entries.map((entry, index) => ({
+    ideaId: entry.ideaId,
+    score: entry.score,
+    voters: entry.voters,
+    rank: index + 1,
+    tied:
+      (index > 0 && compareLevel(entries[index - 1], entry) === 0) ||
+      (index < entries.length - 1 && compareLevel(entry, entries[index + 1]) === 0)
+  }))
+}
@@ -0,0 +1,53 @@
+/**
+ * idea_revisions trigger tests (20261019020000_idea_revisions.sql)
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import type { PGlite } from '@electric-sql/pglite'
+import { createMigratedDb, createUser } from './migrationDb'
+
+describe('record_idea_revision', () => {
+  let db: PGlite
+  let ownerId: string
+
+  beforeAll(async () => {
+    db = await createMigratedDb()
+    ownerId = await createUser(db, 'owner@example.com')
+  }, 60000)
+
+  async function createProjectWithIdeas(): Promise<string> {
+    const { rows } = await db.query<{ id: string }>(
+      `insert into public.projects (name, owner_id) values ('Launch', $1) returning id`,
+      [ownerId]
+    )
+    const projectId = rows[0].id
+    await db.query(
+      `insert into public.ideas (content, project_id, x, y) values ('Idea a', $1, 100, 100), ('Idea b', $1, 400, 400)`,
+      [projectId]
+    )
+    return projectId
+  }
+
+  it('records deleting an idea', async () => {
+    const projectId = await createProjectWithIdeas()
+
+    await db.query(`delete from public.ideas where project_id = $1 and content = 'Idea a'`, [projectId])
+
+    const { rows } = await db.query<{ activity_type: string }>(
+      `select activity_type from public.idea_revisions where project_id = $1 and content = 'Idea a' order by created_at, activity_type`,
+      [projectId]
+    )
+    expect(rows.map((row) => row.activity_type)).toEqual(['idea_created', 'idea_deleted'])
+  })
+
+  it('deletes a project with ideas and their history', async () => {
+    const projectId = await createProjectWithIdeas()
+
+    await db.query('delete from public.projects where id = $1', [projectId])
+
+    const ideas = await db.query('select 1 from public.ideas where project_id = $1', [projectId])
+    const revisions = await db.query('select 1 from public.idea_revisions where project_id = $1', [projectId])
+    expect(ideas.rows).toHaveLength(0)
+    expect(revisions.rows).toHaveLength(0)
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * Vote move and merge tests (20261019160000_vote_moves.sql)
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import type { PGlite } from '@electric-sql/pglite'
+import { asUser, createMigratedDb, createUser } from './migrationDb'
+
+describe('idea_votes moves', () => {
+  let db: PGlite
+  let ownerId: string
+  let voterId: string
+  let projectId: string
+
+  beforeAll(async () => {
+    db = await createMigratedDb()
+    ownerId = await createUser(db, 'owner@example.com')
+    voterId = await createUser(db, 'voter@example.com')
+    const { rows } = await db.query<{ id: string }>(
+      `insert into public.projects (name, owner_id) values ('Launch', $1) returning id`,
+      [ownerId]
+    )
+    projectId = rows[0].id
+  }, 60000)
+
+  async function createSession(votingScheme: string, voteBudget: number): Promise<string> {
+    const { rows } = await db.query<{ id: string }>(
+      `insert into public.brainstorm_sessions
+         (project_id, facilitator_id, join_code, access_token, expires_at, voting_scheme, vote_budget)
+       values ($1, $2, gen_random_uuid()::text, gen_random_uuid()::text, now() + interval '1 day', $3, $4)
+       returning id`,
+      [projectId, ownerId, votingScheme, voteBudget]
+    )
+    return rows[0].id
+  }
+
+  async function createIdea(content: string): Promise<string> {
+    const { rows } = await db.query<{ id: string }>(
+      `insert into public.ideas (content, project_id, x, y) values ($1, $2, 100, 100) returning id`,
+      [content, projectId]
+    )
+    return rows[0].id
+  }
+
+  async function castVote(ideaId: string, sessionId: string, weight: number): Promise<void> {
+    await db.query(
+      'insert into public.idea_votes (user_id, idea_id, session_id, weight) values ($1, $2, $3, $4)',
+      [voterId, ideaId, sessionId, weight]
+    )
+  }
+
+  it('refuses moving a vote into another session', async () => {
+    const spentSession = await createSession('points', 5)
+    const liveSession = await createSession('points', 5)
+    const ideaId = await createIdea('Moved')
+    await castVote(ideaId, spentSession, 5)
+    await castVote(ideaId, liveSession, 5)
+
+    await expect(
+      asUser(db, voterId, (tx) =>
+        tx.query('update public.idea_votes set session_id = $1 where session_id = $2', [liveSession, spentSession])
+      )
+    ).rejects.toMatchObject({ code: '22023' })
+  })
+
+  it('keeps the weight spent on merged ideas in a points session', async () => {
+    const sessionId = await createSession('points', 10)
+    const target = await createIdea('Target')
+    const source = await createIdea('Source')
+    await castVote(target, sessionId, 3)
+    await castVote(source, sessionId, 4)
+
+    await asUser(db, ownerId, (tx) =>
+      tx.query('select public.merge_ideas($1, $2, $3)', [target, [source], 'Merged'])
+    )
+
+    const { rows } = await db.query<{ idea_id: string; weight: number }>(
+      'select idea_id, weight from public.idea_votes where session_id = $1',
+      [sessionId]
+    )
+    expect(rows).toEqual([{ idea_id: target, weight: 7 }])
+  })
+})
@@ -0,0 +1,16 @@
+-- Migration: 20261019000000
+-- Feature: numeric scoring frameworks (RICE, ICE, WSJF) on ideas
+--
+-- Scores are stored as one jsonb object keyed by framework so a project can
+-- switch frameworks without losing inputs:
+--   { "rice": { "reach", "impact", "confidence", "effort" },
+--     "ice":  { "impact", "confidence", "ease" },
+--     "wsjf": { "business_value", "time_criticality", "risk_reduction", "job_size" } }
+--
+-- Nullable with no default: existing ideas are simply unscored and keep their
+-- free (dragged) position. Placement mode lives in projects.settings.matrix_view.
+
+ALTER TABLE public.ideas ADD COLUMN IF NOT EXISTS scores jsonb;
+
+COMMENT ON COLUMN public.ideas.scores IS
+  'Per-framework score inputs (rice / ice / wsjf). Drives matrix position when the project uses score-driven placement.';
@@ -0,0 +1,108 @@
+-- Migration: 20261019010000
+-- Feature: blind per-participant idea rating with a revealed consensus
+--
+-- `ideas.x` / `ideas.y` hold a single shared position, so when several
+-- stakeholders place the same idea the last drag wins. In blind rating mode
+-- each rater stores a private position per idea in idea_ratings instead.
+--
+-- Rating state lives in projects.settings.blind_rating:
+--   { "status": "collecting" | "revealed", "started_at", "started_by", "revealed_at" }
+--
+-- Visibility is enforced here, not in the client:
+--   - while collecting, a rater can only read and write their own rows
+--   - once revealed, every project member can read all rows and writes stop
+-- Raters are the project owner and editor collaborators. Only the owner
+-- (the facilitator) can clear ratings to start a new round.
+
+create table if not exists public.idea_ratings (
+  project_id uuid not null references public.projects(id) on delete cascade,
+  idea_id    text not null references public.ideas(id) on delete cascade,
+  user_id    uuid not null references auth.users(id) on delete cascade,
+  x          numeric not null,
+  y          numeric not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (idea_id, user_id)
+);
+
+create index if not exists idea_ratings_project_idx on public.idea_ratings (project_id);
+
+comment on table public.idea_ratings is
+  'Private per-rater matrix positions for blind rating. Readable by all project members only after the facilitator reveals.';
+
+-- Security definer so policies can read projects / project_collaborators
+-- without re-entering their RLS policies (see 20260408130000).
+create or replace function public.is_blind_rating_revealed(_project_id uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+stable
+as $$
+  select coalesce(
+    (select settings->'blind_rating'->>'status' = 'revealed'
+       from public.projects where id = _project_id),
+    false
+  );
+$$;
+
+create or replace function public.can_rate_project(_project_id uuid, _user_id uuid)
+returns boolean
+language sql
+security definer
+set search_path = public
+stable
+as $$
+  select exists (
+    select 1 from public.projects where id = _project_id and owner_id = _user_id
+  ) or exists (
+    select 1 from public.project_collaborators
+    where project_id = _project_id and user_id = _user_id and role = 'editor'
+  );
+$$;
+
+revoke all on function public.is_blind_rating_revealed(uuid) from public;
+grant execute on function public.is_blind_rating_revealed(uuid) to authenticated;
+revoke all on function public.can_rate_project(uuid, uuid) from public;
+grant execute on function public.can_rate_project(uuid, uuid) to authenticated;
+
+alter table public.idea_ratings enable row level security;
+
+drop policy if exists "read own or revealed ratings" on public.idea_ratings;
+create policy "read own or revealed ratings" on public.idea_ratings
+for select using (
+  user_id = (select auth.uid())
+  or (
+    public.is_blind_rating_revealed(project_id)
+    and (
+      (select auth.uid()) = (select owner_id from public.projects where id = idea_ratings.project_id)
+      or public.is_project_collaborator(project_id, (select auth.uid()))
+    )
+  )
+);
+
+drop policy if exists "raters write own ratings" on public.idea_ratings;
+create policy "raters write own ratings" on public.idea_ratings
+for insert with check (
+  user_id = (select auth.uid())
+  and public.can_rate_project(project_id, (select auth.uid()))
+  and not public.is_blind_rating_revealed(project_id)
+);
+
+drop policy if exists "raters update own ratings" on public.idea_ratings;
+create policy "raters update own ratings" on public.idea_ratings
+for update using (
+  user_id = (select auth.uid())
+  and not public.is_blind_rating_revealed(project_id)
+);
+
+drop policy if exists "facilitator clears ratings" on public.idea_ratings;
+create policy "facilitator clears ratings" on public.idea_ratings
+for delete using (
+  (select auth.uid()) = (select owner_id from public.projects where id = idea_ratings.project_id)
+);
+
+-- rollback:
+-- drop table if exists public.idea_ratings;
+-- drop function if exists public.is_blind_rating_revealed(uuid);
+-- drop function if exists public.can_rate_project(uuid, uuid);
@@ -0,0 +1,111 @@
+-- Migration: 20261019020000
+-- Feature: idea revision history for the matrix timeline / replay
+--
+-- ideas rows are updated in place, so past positions were lost. Every
+-- create, delete and every change to content, details, position or priority
+-- now appends a full snapshot to idea_revisions. The matrix replays the board
+-- at any timestamp by taking the latest revision per idea at or before it.
+--
+-- Revisions are written by a trigger rather than the client so that every
+-- write path (IdeaService, ideaRepository, /api/ideas, brainstorm sessions)
+-- is recorded. activity_type reuses the ActivityType vocabulary.
+--
+-- idea_id deliberately has no FK: deleted ideas keep their history.
+
+create table if not exists public.idea_revisions (
+  id             uuid        primary key default gen_random_uuid(),
+  idea_id        text        not null,
+  project_id     uuid        not null references public.projects(id) on delete cascade,
+  activity_type  text        not null
+                               check (activity_type in ('idea_created', 'idea_updated', 'idea_deleted')),
+  changed_by     uuid,
+  content        text        not null,
+  details        text        not null default '',
+  x              numeric     not null,
+  y              numeric     not null,
+  priority       text        not null,
+  changed_fields text[]      not null default '{}',
+  created_at     timestamptz not null default now()
+);
+
+create index if not exists idea_revisions_project_time_idx
+  on public.idea_revisions (project_id, created_at);
+create index if not exists idea_revisions_idea_idx
+  on public.idea_revisions (idea_id);
+
+comment on table public.idea_revisions is
+  'Append-only snapshots of ideas, one per create / delete / tracked change. Drives the matrix history timeline.';
+
+create or replace function public.record_idea_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _row     public.ideas%rowtype;
+  _type    text;
+  _changed text[] := '{}';
+begin
+  if tg_op = 'DELETE' then
+    _row := old;
+    _type := 'idea_deleted';
+  elsif tg_op = 'INSERT' then
+    _row := new;
+    _type := 'idea_created';
+  else
+    _row := new;
+    _type := 'idea_updated';
+    if new.content  is distinct from old.content  then _changed := _changed || 'content'::text;  end if;
+    if new.details  is distinct from old.details  then _changed := _changed || 'details'::text;  end if;
+    if new.x        is distinct from old.x
+       or new.y     is distinct from old.y        then _changed := _changed || 'position'::text; end if;
+    if new.priority is distinct from old.priority then _changed := _changed || 'priority'::text; end if;
+    -- Locks, collapse state and timestamps are not history
+    if array_length(_changed, 1) is null then
+      return new;
+    end if;
+  end if;
+
+  -- Ideas outside a project (legacy rows) have nowhere to replay
+  if _row.project_id is null then
+    return coalesce(new, old);
+  end if;
+
+  insert into public.idea_revisions
+    (idea_id, project_id, activity_type, changed_by, content, details, x, y, priority, changed_fields)
+  values
+    (_row.id, _row.project_id, _type, auth.uid(), _row.content, _row.details, _row.x, _row.y, _row.priority, _changed);
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists record_idea_revision_trigger on public.ideas;
+create trigger record_idea_revision_trigger
+  after insert or update or delete on public.ideas
+  for each row execute function public.record_idea_revision();
+
+-- Seed one baseline revision per existing idea so replay has a starting board
+insert into public.idea_revisions
+  (idea_id, project_id, activity_type, content, details, x, y, priority, created_at)
+select id, project_id, 'idea_created', content, details, x, y, priority, updated_at
+from public.ideas
+where project_id is not null
+  and not exists (select 1 from public.idea_revisions r where r.idea_id = ideas.id);
+
+alter table public.idea_revisions enable row level security;
+
+-- Read-only for project members; rows are only ever written by the trigger
+drop policy if exists "project members read idea revisions" on public.idea_revisions;
+create policy "project members read idea revisions" on public.idea_revisions
+for select using (
+  (select auth.uid()) = (select owner_id from public.projects where id = idea_revisions.project_id)
+  or is_admin()
+  or public.is_project_collaborator(project_id, (select auth.uid()))
+);
+
+-- rollback:
+-- drop trigger if exists record_idea_revision_trigger on public.ideas;
+-- drop function if exists public.record_idea_revision();
+-- drop table if exists public.idea_revisions;
@@ -0,0 +1,53 @@
+-- Migration: 20261019030000
+-- Feature: idea tags and batched bulk updates for multi-select
+--
+-- Multi-select on the matrix applies one change to many ideas at once (move
+-- to a quadrant, priority, collapse, tag). Sending one PATCH per idea made a
+-- 40-card selection take 40 round trips, so bulk_update_ideas applies a whole
+-- batch in a single call:
+--
+--   select * from bulk_update_ideas('[{"id": "a1", "x": 120, "y": 80}, {"id": "b2", "priority": "high"}]');
+--
+-- Only keys present in an element are changed. The function is security
+-- invoker, so the existing ideas RLS policies decide which rows the caller
+-- may update; rows they cannot touch are skipped and not returned.
+--
+-- ideas.tags is added here for bulk tagging; tag filtering builds on it.
+
+alter table public.ideas
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists ideas_tags_idx on public.ideas using gin (tags);
+
+create or replace function public.bulk_update_ideas(_updates jsonb)
+returns setof public.ideas
+language sql
+security invoker
+set search_path = public
+as $$
+  update public.ideas as i
+  set
+    content      = coalesce(u.value->>'content', i.content),
+    details      = coalesce(u.value->>'details', i.details),
+    x            = coalesce((u.value->>'x')::numeric, i.x),
+    y            = coalesce((u.value->>'y')::numeric, i.y),
+    priority     = coalesce(u.value->>'priority', i.priority),
+    is_collapsed = coalesce((u.value->>'is_collapsed')::boolean, i.is_collapsed),
+    tags         = case
+                     when u.value ? 'tags'
+                       then array(select jsonb_array_elements_text(u.value->'tags'))
+                     else i.tags
+                   end,
+    updated_at   = now()
+  from jsonb_array_elements(_updates) as u(value)
+  where i.id = u.value->>'id'
+  returning i.*;
+$$;
+
+revoke all on function public.bulk_update_ideas(jsonb) from public;
+grant execute on function public.bulk_update_ideas(jsonb) to authenticated;
+
+-- rollback:
+-- drop function if exists public.bulk_update_ideas(jsonb);
+-- drop index if exists public.ideas_tags_idx;
+-- alter table public.ideas drop column if exists tags;
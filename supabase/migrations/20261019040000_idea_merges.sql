@@ -0,0 +1,143 @@
+-- Migration: 20261019040000
+-- Feature: merging near-duplicate ideas
+--
+-- Brainstorms produce the same idea several ways. merge_ideas folds one or
+-- more source ideas into a target idea in a single transaction:
+--
+--   select * from merge_ideas('target-id', array['dup-1', 'dup-2'], 'Merged title', 'Merged details');
+--
+--   * the target takes the merged content and details
+--   * dot votes on the sources move to the target. A user who voted for
+--     both in the same session keeps one vote there (idea_votes is unique
+--     per user, idea and session) and gets the other dot back.
+--     20261019160000_vote_moves.sql adds the weights together instead in
+--     points sessions and dots sessions that allow several dots per idea
+--   * the sources' creators are added to ideas.contributors, so the merged
+--     idea keeps every author; created_by stays the target's creator
+--   * the sources are deleted and an 'idea_merged' revision naming them is
+--     appended to idea_revisions, the project's idea activity log
+--
+-- Moving other users' votes needs to bypass idea_votes RLS, so the function
+-- is security definer and applies the ideas update/delete rule itself:
+-- only the project owner or an admin may merge.
+
+alter table public.ideas
+  add column if not exists contributors text[] not null default '{}';
+
+comment on column public.ideas.contributors is
+  'Creators of ideas merged into this one (merge_ideas), in addition to created_by.';
+
+alter table public.idea_revisions
+  add column if not exists merged_idea_ids text[] not null default '{}';
+
+alter table public.idea_revisions
+  drop constraint if exists idea_revisions_activity_type_check;
+alter table public.idea_revisions
+  add constraint idea_revisions_activity_type_check
+  check (activity_type in ('idea_created', 'idea_updated', 'idea_deleted', 'idea_merged'));
+
+create or replace function public.merge_ideas(
+  _target_id  text,
+  _source_ids text[],
+  _content    text,
+  _details    text default ''
+)
+returns public.ideas
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _caller       uuid := auth.uid();
+  _target       public.ideas%rowtype;
+  _source_count integer;
+  _creators     text[];
+  _merged       public.ideas%rowtype;
+begin
+  if _caller is null then
+    raise exception 'merge_ideas: not authenticated' using errcode = '42501';
+  end if;
+
+  _source_ids := array(select distinct s from unnest(_source_ids) as s where s <> _target_id);
+  if coalesce(array_length(_source_ids, 1), 0) = 0 then
+    raise exception 'merge_ideas: no ideas to merge' using errcode = '22023';
+  end if;
+  if coalesce(btrim(_content), '') = '' then
+    raise exception 'merge_ideas: content is required' using errcode = '22023';
+  end if;
+
+  select * into _target from public.ideas where id = _target_id for update;
+  if not found then
+    raise exception 'merge_ideas: idea % not found', _target_id using errcode = 'P0002';
+  end if;
+
+  if not (
+    _caller = (select owner_id from public.projects where id = _target.project_id)
+    or is_admin()
+  ) then
+    raise exception 'merge_ideas: not allowed' using errcode = '42501';
+  end if;
+
+  -- Every source must exist and belong to the target's project
+  select count(*) into _source_count
+  from public.ideas
+  where id = any(_source_ids)
+    and project_id is not distinct from _target.project_id;
+
+  if _source_count <> array_length(_source_ids, 1) then
+    raise exception 'merge_ideas: ideas must exist in the same project' using errcode = '22023';
+  end if;
+
+  select array(
+    select distinct c
+    from public.ideas i, unnest(array[i.created_by] || i.contributors) as c
+    where i.id = any(_source_ids)
+      and c is not null
+  ) into _creators;
+
+  insert into public.idea_votes (user_id, idea_id, session_id, created_at)
+  select user_id, _target_id, session_id, min(created_at)
+  from public.idea_votes
+  where idea_id = any(_source_ids)
+  group by user_id, session_id
+  on conflict (user_id, idea_id, session_id) do nothing;
+
+  update public.ideas
+  set
+    content      = btrim(_content),
+    details      = coalesce(_details, ''),
+    contributors = array(
+                     select distinct c
+                     from unnest(_target.contributors || _creators) as c
+                     where c is distinct from _target.created_by
+                   ),
+    updated_at   = now()
+  where id = _target_id
+  returning * into _merged;
+
+  -- Source votes go with the rows (on delete cascade)
+  delete from public.ideas where id = any(_source_ids);
+
+  if _merged.project_id is not null then
+    insert into public.idea_revisions
+      (idea_id, project_id, activity_type, changed_by, content, details, x, y, priority, merged_idea_ids)
+    values
+      (_merged.id, _merged.project_id, 'idea_merged', _caller, _merged.content, _merged.details,
+       _merged.x, _merged.y, _merged.priority, _source_ids);
+  end if;
+
+  return _merged;
+end;
+$$;
+
+revoke all on function public.merge_ideas(text, text[], text, text) from public;
+grant execute on function public.merge_ideas(text, text[], text, text) to authenticated;
+
+-- rollback:
+-- drop function if exists public.merge_ideas(text, text[], text, text);
+-- delete from public.idea_revisions where activity_type = 'idea_merged';
+-- alter table public.idea_revisions drop constraint if exists idea_revisions_activity_type_check;
+-- alter table public.idea_revisions add constraint idea_revisions_activity_type_check
+--   check (activity_type in ('idea_created', 'idea_updated', 'idea_deleted'));
+-- alter table public.idea_revisions drop column if exists merged_idea_ids;
+-- alter table public.ideas drop column if exists contributors;
@@ -0,0 +1,91 @@
+-- Migration: 20261019050000
+-- Feature: monthly AI spend budgets per project and per user
+--
+-- ai_token_usage records what every AI call cost, but nothing stopped a
+-- project or a user from spending without bound. An ai_budgets row caps one
+-- project's or one user's spend for the calendar month (UTC), in dollars,
+-- in tokens, or both:
+--
+--   * at soft_limit_percent (default 80) the app warns before AI actions
+--   * at 100% /api/ai refuses requests with AI_BUDGET_EXCEEDED until the
+--     month rolls over or an admin raises the limit
+--
+-- A project budget counts every member's calls made for that project; a
+-- user budget counts the user's calls across all projects.
+--
+-- ai_budget_alerts records each budget crossing its soft limit or 100% once
+-- per month, for the admin dashboard. Both tables are written by the API
+-- with the service role; admins can read and manage them directly.
+
+create table if not exists public.ai_budgets (
+  id                  uuid primary key default gen_random_uuid(),
+  scope               text not null check (scope in ('project', 'user')),
+  scope_id            uuid not null,
+  monthly_cost_limit  numeric check (monthly_cost_limit is null or monthly_cost_limit > 0),
+  monthly_token_limit bigint check (monthly_token_limit is null or monthly_token_limit > 0),
+  soft_limit_percent  integer not null default 80 check (soft_limit_percent between 1 and 99),
+  created_by          uuid references auth.users(id) on delete set null,
+  created_at          timestamptz not null default now(),
+  updated_at          timestamptz not null default now(),
+  unique (scope, scope_id),
+  check (monthly_cost_limit is not null or monthly_token_limit is not null)
+);
+
+comment on table public.ai_budgets is
+  'Monthly AI spend caps for a project or a user. Enforced by /api/ai before each call.';
+
+create trigger update_ai_budgets_updated_at
+  before update on public.ai_budgets
+  for each row
+  execute function public.update_updated_at_column();
+
+create table if not exists public.ai_budget_alerts (
+  id              uuid primary key default gen_random_uuid(),
+  budget_id       uuid not null references public.ai_budgets(id) on delete cascade,
+  period          date not null,
+  threshold       integer not null check (threshold between 1 and 100),
+  percent_used    numeric not null,
+  spent_cost      numeric not null default 0,
+  spent_tokens    bigint not null default 0,
+  acknowledged_at timestamptz,
+  acknowledged_by uuid references auth.users(id) on delete set null,
+  created_at      timestamptz not null default now(),
+  unique (budget_id, period, threshold)
+);
+
+create index if not exists ai_budget_alerts_open_idx
+  on public.ai_budget_alerts (created_at desc)
+  where acknowledged_at is null;
+
+comment on table public.ai_budget_alerts is
+  'One row per budget per month per threshold crossed (soft limit, 100). Shown to admins until acknowledged.';
+
+-- Budget checks read the month's spend on every AI request; these replace
+-- the user_id / project_id indexes dropped as unused in 20251118010000
+create index if not exists ai_token_usage_user_created_idx
+  on public.ai_token_usage (user_id, created_at);
+create index if not exists ai_token_usage_project_created_idx
+  on public.ai_token_usage (project_id, created_at);
+
+alter table public.ai_budgets enable row level security;
+alter table public.ai_budget_alerts enable row level security;
+
+create policy ai_budgets_admin_all
+  on public.ai_budgets
+  for all
+  to authenticated
+  using (is_admin())
+  with check (is_admin());
+
+create policy ai_budget_alerts_admin_all
+  on public.ai_budget_alerts
+  for all
+  to authenticated
+  using (is_admin())
+  with check (is_admin());
+
+-- rollback:
+-- drop table if exists public.ai_budget_alerts;
+-- drop table if exists public.ai_budgets;
+-- drop index if exists public.ai_token_usage_user_created_idx;
+-- drop index if exists public.ai_token_usage_project_created_idx;
@@ -0,0 +1,156 @@
+-- Migration: 20261019060000
+-- Feature: facilitator moderation of brainstorm sessions
+--
+-- Joiners of a session with require_approval start with is_approved = false
+-- and cannot submit ideas until the facilitator approves them. A rejected
+-- participant is disconnected; a banned one is also marked banned_at so the
+-- same device cannot rejoin the session.
+--
+-- Submissions that api/brainstorm/submit-idea.ts flags (profanity, links,
+-- spam patterns) are held in session_held_ideas instead of being posted to
+-- the board. The facilitator approves them, optionally edited, with
+--
+--   select * from approve_held_idea('held-id', 'Edited content', 'Edited details');
+--
+-- which creates the idea and marks the held row approved in one transaction,
+-- or rejects them by setting status = 'rejected'.
+
+alter table public.session_participants
+  add column if not exists banned_at timestamptz;
+
+comment on column public.session_participants.banned_at is
+  'Set when the facilitator bans the participant. Joins from the same device are refused.';
+
+-- The facilitator approves, rejects and bans participants
+drop policy if exists "Facilitators can moderate participants" on public.session_participants;
+create policy "Facilitators can moderate participants" on public.session_participants
+for update using (
+  exists (
+    select 1 from public.brainstorm_sessions
+    where id = session_participants.session_id
+      and facilitator_id = (select auth.uid())
+  )
+);
+
+create table if not exists public.session_held_ideas (
+  id             uuid primary key default gen_random_uuid(),
+  session_id     uuid not null references public.brainstorm_sessions(id) on delete cascade,
+  participant_id uuid not null references public.session_participants(id) on delete cascade,
+  content        text not null,
+  details        text,
+  priority       text not null default 'moderate',
+  flags          text[] not null default '{}',
+  status         text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  idea_id        text references public.ideas(id) on delete set null,
+  created_at     timestamptz not null default now(),
+  reviewed_at    timestamptz,
+  reviewed_by    uuid references auth.users(id) on delete set null
+);
+
+create index if not exists session_held_ideas_session_idx
+  on public.session_held_ideas (session_id, status, created_at);
+
+comment on table public.session_held_ideas is
+  'Brainstorm submissions held for facilitator review. Inserted by the submit-idea API (service role).';
+
+alter table public.session_held_ideas enable row level security;
+
+drop policy if exists "Facilitators read held ideas" on public.session_held_ideas;
+create policy "Facilitators read held ideas" on public.session_held_ideas
+for select using (
+  exists (
+    select 1 from public.brainstorm_sessions
+    where id = session_held_ideas.session_id
+      and facilitator_id = (select auth.uid())
+  )
+);
+
+drop policy if exists "Facilitators review held ideas" on public.session_held_ideas;
+create policy "Facilitators review held ideas" on public.session_held_ideas
+for update using (
+  exists (
+    select 1 from public.brainstorm_sessions
+    where id = session_held_ideas.session_id
+      and facilitator_id = (select auth.uid())
+  )
+);
+
+alter table public.session_held_ideas replica identity full;
+
+do $$
+begin
+  begin
+    alter publication supabase_realtime add table public.session_held_ideas;
+  exception when duplicate_object then
+    raise notice 'session_held_ideas already in supabase_realtime publication';
+  end;
+end $$;
+
+-- Posting an approved idea writes to ideas on the participant's behalf, so
+-- the function is security definer and checks the caller is the facilitator.
+create or replace function public.approve_held_idea(
+  _held_id uuid,
+  _content text default null,
+  _details text default null
+)
+returns public.ideas
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _caller  uuid := auth.uid();
+  _held    public.session_held_ideas%rowtype;
+  _session public.brainstorm_sessions%rowtype;
+  _idea    public.ideas%rowtype;
+begin
+  if _caller is null then
+    raise exception 'approve_held_idea: not authenticated' using errcode = '42501';
+  end if;
+
+  select * into _held from public.session_held_ideas where id = _held_id for update;
+  if not found then
+    raise exception 'approve_held_idea: held idea % not found', _held_id using errcode = 'P0002';
+  end if;
+  if _held.status <> 'pending' then
+    raise exception 'approve_held_idea: held idea was already reviewed' using errcode = '22023';
+  end if;
+
+  select * into _session from public.brainstorm_sessions where id = _held.session_id;
+  if _session.facilitator_id is distinct from _caller then
+    raise exception 'approve_held_idea: not allowed' using errcode = '42501';
+  end if;
+
+  if _content is not null and btrim(_content) = '' then
+    raise exception 'approve_held_idea: content is required' using errcode = '22023';
+  end if;
+
+  -- Same defaults as a direct submission in api/brainstorm/submit-idea.ts
+  insert into public.ideas
+    (id, project_id, session_id, participant_id, content, details, priority, submitted_via, created_by, x, y)
+  values
+    (gen_random_uuid()::text, _session.project_id, _held.session_id, _held.participant_id,
+     coalesce(btrim(_content), _held.content), coalesce(_details, _held.details),
+     _held.priority, 'mobile', null, 75, 75)
+  returning * into _idea;
+
+  update public.session_held_ideas
+  set status = 'approved', idea_id = _idea.id, reviewed_at = now(), reviewed_by = _caller
+  where id = _held_id;
+
+  update public.session_participants
+  set contribution_count = coalesce(contribution_count, 0) + 1
+  where id = _held.participant_id;
+
+  return _idea;
+end;
+$$;
+
+revoke all on function public.approve_held_idea(uuid, text, text) from public;
+grant execute on function public.approve_held_idea(uuid, text, text) to authenticated;
+
+-- rollback:
+-- drop function if exists public.approve_held_idea(uuid, text, text);
+-- drop table if exists public.session_held_ideas;
+-- drop policy if exists "Facilitators can moderate participants" on public.session_participants;
+-- alter table public.session_participants drop column if exists banned_at;
@@ -0,0 +1,48 @@
+-- Migration: 20261019070000
+-- Feature: facilitated brainstorm rounds
+--
+-- The facilitator moves a session through silent ideation, reveal, grouping,
+-- dot voting and final placement (src/utils/brainstormRounds.ts). The
+-- current round and its timer live on brainstorm_sessions, which is already
+-- in the realtime publication, so every participant's phone receives round
+-- changes on the session channel. A null current_round is the single
+-- open-ended phase sessions had before rounds.
+--
+-- Round changes are recorded in session_activity_log as round_started and
+-- round_ended, with the round in snapshot_data.
+
+alter table public.brainstorm_sessions
+  add column if not exists current_round text
+    check (current_round in ('ideation', 'reveal', 'grouping', 'voting', 'placement')),
+  add column if not exists round_started_at timestamptz,
+  add column if not exists round_ends_at timestamptz;
+
+comment on column public.brainstorm_sessions.current_round is
+  'Facilitated round in progress; null for an open-ended session. Ideas can only be submitted during ideation.';
+comment on column public.brainstorm_sessions.round_ends_at is
+  'When the current round''s timer runs out; null when the round is untimed.';
+
+alter table public.session_activity_log
+  drop constraint if exists session_activity_log_activity_type_check;
+
+alter table public.session_activity_log
+  add constraint session_activity_log_activity_type_check
+  check (activity_type in (
+    'idea_created', 'idea_updated', 'idea_deleted', 'idea_moved',
+    'participant_joined', 'participant_left', 'session_paused', 'session_resumed',
+    'session_started', 'session_ended', 'round_started', 'round_ended'
+  ));
+
+-- rollback:
+-- delete from public.session_activity_log where activity_type in ('round_started', 'round_ended');
+-- alter table public.session_activity_log drop constraint if exists session_activity_log_activity_type_check;
+-- alter table public.session_activity_log add constraint session_activity_log_activity_type_check
+--   check (activity_type in (
+--     'idea_created', 'idea_updated', 'idea_deleted', 'idea_moved',
+--     'participant_joined', 'participant_left', 'session_paused', 'session_resumed',
+--     'session_started', 'session_ended'
+--   ));
+-- alter table public.brainstorm_sessions
+--   drop column if exists round_ends_at,
+--   drop column if exists round_started_at,
+--   drop column if exists current_round;
@@ -0,0 +1,91 @@
+-- Migration: 20261019080000
+-- Feature: brainstorm technique templates
+--
+-- A session can start from a technique template (SCAMPER, Crazy 8s, How
+-- Might We, Starbursting; see src/utils/brainstormTechniques.ts). The
+-- template's prompts, plus any the AI tailored to the project, are copied
+-- into brainstorm_sessions.prompts as
+--
+--   [{"id": "prompt-1", "round": "ideation", "label": "Substitute", "text": "What could we substitute...?"}]
+--
+-- and current_prompt_id is the prompt participants are answering. The
+-- submit-idea API tags each idea with the current prompt's label; held
+-- submissions keep the tag until the facilitator approves them.
+
+alter table public.brainstorm_sessions
+  add column if not exists technique text
+    check (technique in ('scamper', 'crazy-8s', 'how-might-we', 'starbursting')),
+  add column if not exists prompts jsonb not null default '[]'::jsonb,
+  add column if not exists current_prompt_id text;
+
+comment on column public.brainstorm_sessions.prompts is
+  'Technique prompts per round: [{id, round, label, text}]. Ideas are tagged with the label of the prompt they answer.';
+
+alter table public.session_held_ideas
+  add column if not exists tags text[] not null default '{}';
+
+-- Same as 20261019060000_brainstorm_moderation.sql, now carrying the tags
+create or replace function public.approve_held_idea(
+  _held_id uuid,
+  _content text default null,
+  _details text default null
+)
+returns public.ideas
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _caller  uuid := auth.uid();
+  _held    public.session_held_ideas%rowtype;
+  _session public.brainstorm_sessions%rowtype;
+  _idea    public.ideas%rowtype;
+begin
+  if _caller is null then
+    raise exception 'approve_held_idea: not authenticated' using errcode = '42501';
+  end if;
+
+  select * into _held from public.session_held_ideas where id = _held_id for update;
+  if not found then
+    raise exception 'approve_held_idea: held idea % not found', _held_id using errcode = 'P0002';
+  end if;
+  if _held.status <> 'pending' then
+    raise exception 'approve_held_idea: held idea was already reviewed' using errcode = '22023';
+  end if;
+
+  select * into _session from public.brainstorm_sessions where id = _held.session_id;
+  if _session.facilitator_id is distinct from _caller then
+    raise exception 'approve_held_idea: not allowed' using errcode = '42501';
+  end if;
+
+  if _content is not null and btrim(_content) = '' then
+    raise exception 'approve_held_idea: content is required' using errcode = '22023';
+  end if;
+
+  insert into public.ideas
+    (id, project_id, session_id, participant_id, content, details, priority, tags, submitted_via, created_by, x, y)
+  values
+    (gen_random_uuid()::text, _session.project_id, _held.session_id, _held.participant_id,
+     coalesce(btrim(_content), _held.content), coalesce(_details, _held.details),
+     _held.priority, _held.tags, 'mobile', null, 75, 75)
+  returning * into _idea;
+
+  update public.session_held_ideas
+  set status = 'approved', idea_id = _idea.id, reviewed_at = now(), reviewed_by = _caller
+  where id = _held_id;
+
+  update public.session_participants
+  set contribution_count = coalesce(contribution_count, 0) + 1
+  where id = _held.participant_id;
+
+  return _idea;
+end;
+$$;
+
+-- rollback:
+-- re-run approve_held_idea from 20261019060000_brainstorm_moderation.sql
+-- alter table public.session_held_ideas drop column if exists tags;
+-- alter table public.brainstorm_sessions
+--   drop column if exists current_prompt_id,
+--   drop column if exists prompts,
+--   drop column if exists technique;
@@ -0,0 +1,235 @@
+-- Migration: 20261019090000
+-- Feature: configurable voting schemes
+--
+-- The facilitator picks how a session votes (src/utils/votingSchemes.ts):
+--
+--   dots    vote_budget dots per person; allow_multiple_votes lets several
+--           dots go on one idea
+--   ranked  each person ranks up to vote_budget ideas, 1 = first choice
+--   thumbs  +1 or -1 on any number of ideas
+--   points  vote_budget points (100 by default) split across ideas
+--
+-- A user still has one idea_votes row per idea and session; idea_votes.weight
+-- holds the dots, rank, thumb or points. The fixed five-dot RLS check is
+-- replaced by the enforce_vote_scheme trigger, which applies the session's
+-- scheme on every insert and weight change.
+--
+-- idea_votes moves to replica identity full. Because the table has RLS,
+-- realtime still sends only the primary key as the old row of UPDATE and
+-- DELETE events: clients take the previous weight and idea from the votes
+-- they hold, and refetch when a delete does not say which vote it was.
+
+alter table public.brainstorm_sessions
+  add column if not exists voting_scheme text not null default 'dots'
+    check (voting_scheme in ('dots', 'ranked', 'thumbs', 'points')),
+  add column if not exists vote_budget integer not null default 5
+    check (vote_budget between 1 and 1000),
+  add column if not exists allow_multiple_votes boolean not null default false;
+
+alter table public.idea_votes
+  add column if not exists weight integer not null default 1
+    check (weight <> 0);
+
+comment on column public.idea_votes.weight is
+  'Dots (dots), rank with 1 = first choice (ranked), +1/-1 (thumbs) or points (points), per the session''s voting_scheme.';
+
+alter table public.idea_votes replica identity full;
+
+drop policy if exists "cast vote within budget" on public.idea_votes;
+drop policy if exists "cast own vote" on public.idea_votes;
+create policy "cast own vote" on public.idea_votes
+for insert with check (user_id = auth.uid());
+
+drop policy if exists "change own vote" on public.idea_votes;
+create policy "change own vote" on public.idea_votes
+for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Budget errors keep 42501, the code clients already read as budget_exceeded;
+-- votes the scheme does not allow raise 22023
+create or replace function public.enforce_vote_scheme()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _session public.brainstorm_sessions%rowtype;
+  _spent   integer;
+begin
+  select * into _session from public.brainstorm_sessions where id = new.session_id;
+  if not found then
+    raise exception 'enforce_vote_scheme: session % not found', new.session_id using errcode = 'P0002';
+  end if;
+
+  -- One user's votes in a session are checked one at a time, so concurrent
+  -- casts cannot both spend the last dot
+  perform pg_advisory_xact_lock(hashtext(new.session_id::text || ':' || new.user_id::text));
+
+  if _session.voting_scheme = 'thumbs' then
+    if new.weight not in (-1, 1) then
+      raise exception 'enforce_vote_scheme: thumbs votes are +1 or -1' using errcode = '22023';
+    end if;
+
+  elsif _session.voting_scheme = 'ranked' then
+    if (select count(*) from public.idea_votes v
+        where v.session_id = new.session_id and v.user_id = new.user_id and v.id <> new.id) >= _session.vote_budget then
+      raise exception 'enforce_vote_scheme: vote budget exceeded' using errcode = '42501';
+    end if;
+    if new.weight < 1 or new.weight > _session.vote_budget then
+      raise exception 'enforce_vote_scheme: rank must be between 1 and %', _session.vote_budget using errcode = '22023';
+    end if;
+    if exists (select 1 from public.idea_votes v
+               where v.session_id = new.session_id and v.user_id = new.user_id
+                 and v.weight = new.weight and v.id <> new.id) then
+      raise exception 'enforce_vote_scheme: rank % is already used', new.weight using errcode = '22023';
+    end if;
+
+  else
+    if new.weight < 1 then
+      raise exception 'enforce_vote_scheme: votes must be positive' using errcode = '22023';
+    end if;
+    if _session.voting_scheme = 'dots' and not _session.allow_multiple_votes and new.weight > 1 then
+      raise exception 'enforce_vote_scheme: one dot per idea in this session' using errcode = '22023';
+    end if;
+    select coalesce(sum(v.weight), 0) into _spent
+    from public.idea_votes v
+    where v.session_id = new.session_id and v.user_id = new.user_id and v.id <> new.id;
+    if _spent + new.weight > _session.vote_budget then
+      raise exception 'enforce_vote_scheme: vote budget exceeded' using errcode = '42501';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_vote_scheme on public.idea_votes;
+create trigger enforce_vote_scheme
+  before insert or update of weight on public.idea_votes
+  for each row execute function public.enforce_vote_scheme();
+
+-- Same as 20261019040000_idea_merges.sql, except votes move by updating
+-- idea_id: they keep their weight, and the user's spend does not change.
+-- 20261019160000_vote_moves.sql runs enforce_vote_scheme on these moves
+-- too, and adds up the weights of a user's votes on the merged ideas.
+create or replace function public.merge_ideas(
+  _target_id  text,
+  _source_ids text[],
+  _content    text,
+  _details    text default ''
+)
+returns public.ideas
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _caller       uuid := auth.uid();
+  _target       public.ideas%rowtype;
+  _source_count integer;
+  _creators     text[];
+  _merged       public.ideas%rowtype;
+begin
+  if _caller is null then
+    raise exception 'merge_ideas: not authenticated' using errcode = '42501';
+  end if;
+
+  _source_ids := array(select distinct s from unnest(_source_ids) as s where s <> _target_id);
+  if coalesce(array_length(_source_ids, 1), 0) = 0 then
+    raise exception 'merge_ideas: no ideas to merge' using errcode = '22023';
+  end if;
+  if coalesce(btrim(_content), '') = '' then
+    raise exception 'merge_ideas: content is required' using errcode = '22023';
+  end if;
+
+  select * into _target from public.ideas where id = _target_id for update;
+  if not found then
+    raise exception 'merge_ideas: idea % not found', _target_id using errcode = 'P0002';
+  end if;
+
+  if not (
+    _caller = (select owner_id from public.projects where id = _target.project_id)
+    or is_admin()
+  ) then
+    raise exception 'merge_ideas: not allowed' using errcode = '42501';
+  end if;
+
+  -- Every source must exist and belong to the target's project
+  select count(*) into _source_count
+  from public.ideas
+  where id = any(_source_ids)
+    and project_id is not distinct from _target.project_id;
+
+  if _source_count <> array_length(_source_ids, 1) then
+    raise exception 'merge_ideas: ideas must exist in the same project' using errcode = '22023';
+  end if;
+
+  select array(
+    select distinct c
+    from public.ideas i, unnest(array[i.created_by] || i.contributors) as c
+    where i.id = any(_source_ids)
+      and c is not null
+  ) into _creators;
+
+  -- A user keeps one vote per session on the target: an existing target
+  -- vote, otherwise their earliest source vote. The rest are given back.
+  delete from public.idea_votes v
+  where v.idea_id = any(_source_ids)
+    and (
+      exists (select 1 from public.idea_votes t
+              where t.idea_id = _target_id and t.user_id = v.user_id and t.session_id = v.session_id)
+      or exists (select 1 from public.idea_votes o
+                 where o.idea_id = any(_source_ids) and o.user_id = v.user_id and o.session_id = v.session_id
+                   and (o.created_at, o.id) < (v.created_at, v.id))
+    );
+
+  update public.idea_votes
+  set idea_id = _target_id
+  where idea_id = any(_source_ids);
+
+  update public.ideas
+  set
+    content      = btrim(_content),
+    details      = coalesce(_details, ''),
+    contributors = array(
+                     select distinct c
+                     from unnest(_target.contributors || _creators) as c
+                     where c is distinct from _target.created_by
+                   ),
+    updated_at   = now()
+  where id = _target_id
+  returning * into _merged;
+
+  delete from public.ideas where id = any(_source_ids);
+
+  if _merged.project_id is not null then
+    insert into public.idea_revisions
+      (idea_id, project_id, activity_type, changed_by, content, details, x, y, priority, merged_idea_ids)
+    values
+      (_merged.id, _merged.project_id, 'idea_merged', _caller, _merged.content, _merged.details,
+       _merged.x, _merged.y, _merged.priority, _source_ids);
+  end if;
+
+  return _merged;
+end;
+$$;
+
+-- rollback:
+-- re-run merge_ideas from 20261019040000_idea_merges.sql
+-- drop trigger if exists enforce_vote_scheme on public.idea_votes;
+-- drop function if exists public.enforce_vote_scheme();
+-- drop policy if exists "change own vote" on public.idea_votes;
+-- drop policy if exists "cast own vote" on public.idea_votes;
+-- create policy "cast vote within budget" on public.idea_votes
+-- for insert with check (
+--   user_id = auth.uid()
+--   and (select count(*) from public.idea_votes v
+--         where v.user_id = auth.uid()
+--           and v.session_id = idea_votes.session_id) < 5
+-- );
+-- alter table public.idea_votes replica identity default;
+-- alter table public.idea_votes drop column if exists weight;
+-- alter table public.brainstorm_sessions
+--   drop column if exists allow_multiple_votes,
+--   drop column if exists vote_budget,
+--   drop column if exists voting_scheme;
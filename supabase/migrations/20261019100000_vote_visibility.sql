@@ -0,0 +1,130 @@
+-- Migration: 20261019100000
+-- Feature: hidden and anonymous voting
+--
+-- brainstorm_sessions.vote_visibility controls who sees votes:
+--
+--   live       everyone sees every vote as it is cast (the previous behaviour)
+--   hidden     participants see only their own votes until the facilitator
+--              sets votes_revealed_at; then every vote is visible
+--   anonymous  participants never see other people's idea_votes rows; once
+--              revealed they see tallies only
+--
+-- Outside live sessions tallies come from session_vote_tallies(), which
+-- aggregates server-side. The facilitator can read the aggregates at any
+-- time but, like everyone else, never another user's rows in an anonymous
+-- session. Realtime postgres_changes follows the select policy, so hidden
+-- votes are not broadcast either.
+--
+-- vote_visibility cannot change once the session exists, so an anonymous
+-- session cannot be switched to live to expose who voted for what.
+
+alter table public.brainstorm_sessions
+  add column if not exists vote_visibility text not null default 'live'
+    check (vote_visibility in ('live', 'hidden', 'anonymous')),
+  add column if not exists votes_revealed_at timestamptz;
+
+comment on column public.brainstorm_sessions.votes_revealed_at is
+  'When the facilitator revealed hidden or anonymous votes; null while they are hidden.';
+
+drop policy if exists "session participants read votes" on public.idea_votes;
+create policy "session participants read votes" on public.idea_votes
+for select using (
+  user_id = auth.uid()
+  or (
+    exists (
+      select 1 from public.session_participants sp
+      where sp.session_id = idea_votes.session_id
+        and sp.user_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.brainstorm_sessions s
+      where s.id = idea_votes.session_id
+        and (s.vote_visibility = 'live'
+             or (s.vote_visibility = 'hidden' and s.votes_revealed_at is not null))
+    )
+  )
+);
+
+create or replace function public.guard_vote_visibility()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.vote_visibility is distinct from old.vote_visibility then
+    raise exception 'guard_vote_visibility: vote visibility cannot change during a session' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_vote_visibility on public.brainstorm_sessions;
+create trigger guard_vote_visibility
+  before update of vote_visibility on public.brainstorm_sessions
+  for each row execute function public.guard_vote_visibility();
+
+-- Score per idea as in src/utils/votingSchemes.ts (tallyVotes): a ranked
+-- first choice scores vote_budget, other schemes score the weight. voters and
+-- first_choices feed the tie-breakers.
+create or replace function public.session_vote_tallies(_session_id uuid)
+returns table (idea_id text, score bigint, voters bigint, first_choices bigint)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  _caller  uuid := auth.uid();
+  _session public.brainstorm_sessions%rowtype;
+begin
+  if _caller is null then
+    raise exception 'session_vote_tallies: not authenticated' using errcode = '42501';
+  end if;
+
+  select * into _session from public.brainstorm_sessions where id = _session_id;
+  if not found then
+    raise exception 'session_vote_tallies: session % not found', _session_id using errcode = 'P0002';
+  end if;
+
+  if _session.facilitator_id is distinct from _caller
+     and not exists (select 1 from public.session_participants sp
+                     where sp.session_id = _session_id and sp.user_id = _caller) then
+    raise exception 'session_vote_tallies: not allowed' using errcode = '42501';
+  end if;
+
+  -- Participants see no tallies until the votes are live or revealed
+  if _session.facilitator_id is distinct from _caller
+     and _session.vote_visibility <> 'live'
+     and _session.votes_revealed_at is null then
+    raise exception 'session_vote_tallies: votes are hidden until revealed' using errcode = '42501';
+  end if;
+
+  return query
+  select
+    v.idea_id,
+    sum(case when _session.voting_scheme = 'ranked' then _session.vote_budget - v.weight + 1 else v.weight end)::bigint,
+    count(*)::bigint,
+    count(*) filter (where _session.voting_scheme = 'ranked' and v.weight = 1)::bigint
+  from public.idea_votes v
+  where v.session_id = _session_id
+  group by v.idea_id;
+end;
+$$;
+
+grant execute on function public.session_vote_tallies(uuid) to authenticated;
+
+-- rollback:
+-- drop function if exists public.session_vote_tallies(uuid);
+-- drop trigger if exists guard_vote_visibility on public.brainstorm_sessions;
+-- drop function if exists public.guard_vote_visibility();
+-- drop policy if exists "session participants read votes" on public.idea_votes;
+-- create policy "session participants read votes" on public.idea_votes
+-- for select using (
+--   exists (
+--     select 1 from public.session_participants sp
+--     where sp.session_id = idea_votes.session_id
+--       and sp.user_id = auth.uid()
+--   )
+-- );
+-- alter table public.brainstorm_sessions
+--   drop column if exists votes_revealed_at,
+--   drop column if exists vote_visibility;
@@ -0,0 +1,40 @@
+-- Migration: 20261019110000
+-- Feature: bulk updates carry idea scores
+--
+-- Undo and redo replay a bulk edit through bulk_update_ideas with every field
+-- the history restores, which now includes scores. Same as
+-- 20261019030000_idea_tags_bulk_update.sql, plus scores: a present key sets
+-- them and a JSON null clears them.
+
+create or replace function public.bulk_update_ideas(_updates jsonb)
+returns setof public.ideas
+language sql
+security invoker
+set search_path = public
+as $$
+  update public.ideas as i
+  set
+    content      = coalesce(u.value->>'content', i.content),
+    details      = coalesce(u.value->>'details', i.details),
+    x            = coalesce((u.value->>'x')::numeric, i.x),
+    y            = coalesce((u.value->>'y')::numeric, i.y),
+    priority     = coalesce(u.value->>'priority', i.priority),
+    is_collapsed = coalesce((u.value->>'is_collapsed')::boolean, i.is_collapsed),
+    tags         = case
+                     when u.value ? 'tags'
+                       then array(select jsonb_array_elements_text(u.value->'tags'))
+                     else i.tags
+                   end,
+    scores       = case
+                     when u.value ? 'scores'
+                       then nullif(u.value->'scores', 'null'::jsonb)
+                     else i.scores
+                   end,
+    updated_at   = now()
+  from jsonb_array_elements(_updates) as u(value)
+  where i.id = u.value->>'id'
+  returning i.*;
+$$;
+
+-- rollback:
+-- re-run bulk_update_ideas from 20261019030000_idea_tags_bulk_update.sql
@@ -0,0 +1,52 @@
+-- Migration: 20261019120000
+-- Feature: tighten blind rating writes
+--
+-- "raters update own ratings" (20261019010000_blind_idea_ratings.sql) only
+-- had a USING clause, so a rater could update their row to another project or
+-- another user. It now checks the new row the same way inserts are checked.
+--
+-- Neither policy checked that the idea belongs to the rating's project; the
+-- check_idea_rating_project trigger enforces that on every insert and update.
+
+drop policy if exists "raters update own ratings" on public.idea_ratings;
+create policy "raters update own ratings" on public.idea_ratings
+for update using (
+  user_id = (select auth.uid())
+  and not public.is_blind_rating_revealed(project_id)
+) with check (
+  user_id = (select auth.uid())
+  and public.can_rate_project(project_id, (select auth.uid()))
+  and not public.is_blind_rating_revealed(project_id)
+);
+
+create or replace function public.check_idea_rating_project()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.ideas where id = new.idea_id and project_id = new.project_id
+  ) then
+    raise exception 'check_idea_rating_project: idea % is not in project %', new.idea_id, new.project_id
+      using errcode = '23503';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_idea_rating_project on public.idea_ratings;
+create trigger check_idea_rating_project
+  before insert or update of idea_id, project_id on public.idea_ratings
+  for each row execute function public.check_idea_rating_project();
+
+-- rollback:
+-- drop trigger if exists check_idea_rating_project on public.idea_ratings;
+-- drop function if exists public.check_idea_rating_project();
+-- drop policy if exists "raters update own ratings" on public.idea_ratings;
+-- create policy "raters update own ratings" on public.idea_ratings
+-- for update using (
+--   user_id = (select auth.uid())
+--   and not public.is_blind_rating_revealed(project_id)
+-- );
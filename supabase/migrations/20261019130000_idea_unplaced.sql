@@ -0,0 +1,43 @@
+-- Migration: 20261019130000
+-- Feature: track ideas nobody has placed yet
+--
+-- AI placement ("place for me") offers ideas still sitting where they landed.
+-- Those spots differ by source (brainstorm submissions and approved held
+-- ideas at 75,75, CSV rows without positions at 260,260) and the matrix
+-- spreads stacked brainstorm cards in the client, so positions alone cannot
+-- tell. ideas.unplaced records it instead:
+--
+--   - brainstorm ideas (session_id set) start unplaced; other inserts may set it
+--   - any change to x or y clears it, whichever path makes the change
+
+alter table public.ideas
+  add column if not exists unplaced boolean not null default false;
+
+update public.ideas
+set unplaced = true
+where (session_id is not null and x = 75 and y = 75)
+   or (x = 260 and y = 260);
+
+create or replace function public.track_idea_placement()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.unplaced := new.unplaced or new.session_id is not null;
+  elsif new.x is distinct from old.x or new.y is distinct from old.y then
+    new.unplaced := false;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists track_idea_placement on public.ideas;
+create trigger track_idea_placement
+  before insert or update of x, y on public.ideas
+  for each row execute function public.track_idea_placement();
+
+-- rollback:
+-- drop trigger if exists track_idea_placement on public.ideas;
+-- drop function if exists public.track_idea_placement();
+-- alter table public.ideas drop column if exists unplaced;
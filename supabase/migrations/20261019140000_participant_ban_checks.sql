@@ -0,0 +1,80 @@
+-- Migration: 20261019140000
+-- Feature: enforce brainstorm bans in the database
+--
+-- 20261019060000_brainstorm_moderation.sql refused rejoins from a banned
+-- device only in the browser, which a client can skip. The
+-- enforce_participant_ban trigger now refuses them on insert, and a banned
+-- row can only be changed by the session's facilitator, so a banned
+-- participant cannot clear banned_at or disconnected_at on their own row
+-- through "Participants can update self". Refusals raise errcode 42501
+-- with a message starting 'session_participant_banned'.
+--
+-- "Facilitators can moderate participants" only had a USING clause, so a
+-- facilitator could move a participant row into another session. It now
+-- checks the new row too.
+
+drop policy if exists "Facilitators can moderate participants" on public.session_participants;
+create policy "Facilitators can moderate participants" on public.session_participants
+for update using (
+  exists (
+    select 1 from public.brainstorm_sessions
+    where id = session_participants.session_id
+      and facilitator_id = (select auth.uid())
+  )
+) with check (
+  exists (
+    select 1 from public.brainstorm_sessions
+    where id = session_participants.session_id
+      and facilitator_id = (select auth.uid())
+  )
+);
+
+-- Security definer so the lookup sees banned rows the joiner cannot select
+create or replace function public.enforce_participant_ban()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.device_fingerprint is not null and exists (
+      select 1 from public.session_participants
+      where session_id = new.session_id
+        and device_fingerprint = new.device_fingerprint
+        and banned_at is not null
+    ) then
+      raise exception 'session_participant_banned: device is banned from session %', new.session_id
+        using errcode = '42501';
+    end if;
+  elsif old.banned_at is not null
+    and auth.role() is distinct from 'service_role'
+    and not exists (
+      select 1 from public.brainstorm_sessions
+      where id = old.session_id
+        and facilitator_id = auth.uid()
+    ) then
+    raise exception 'session_participant_banned: participant % is banned', old.id
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_participant_ban on public.session_participants;
+create trigger enforce_participant_ban
+  before insert or update on public.session_participants
+  for each row execute function public.enforce_participant_ban();
+
+-- rollback:
+-- drop trigger if exists enforce_participant_ban on public.session_participants;
+-- drop function if exists public.enforce_participant_ban();
+-- drop policy if exists "Facilitators can moderate participants" on public.session_participants;
+-- create policy "Facilitators can moderate participants" on public.session_participants
+-- for update using (
+--   exists (
+--     select 1 from public.brainstorm_sessions
+--     where id = session_participants.session_id
+--       and facilitator_id = (select auth.uid())
+--   )
+-- );
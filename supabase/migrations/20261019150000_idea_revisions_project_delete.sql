@@ -0,0 +1,60 @@
+-- Migration: 20261019150000
+-- Feature: deleting a project with ideas
+--
+-- record_idea_revision (20261019020000_idea_revisions.sql) still runs for
+-- ideas removed by the cascade from projects, and its idea_deleted row then
+-- points at the project being deleted, so the delete failed on
+-- idea_revisions_project_id_fkey. A deleted idea whose project is gone is
+-- not recorded: the project's history goes with it.
+
+create or replace function public.record_idea_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _row     public.ideas%rowtype;
+  _type    text;
+  _changed text[] := '{}';
+begin
+  if tg_op = 'DELETE' then
+    _row := old;
+    _type := 'idea_deleted';
+    -- Cascade from a deleted project
+    if not exists (select 1 from public.projects where id = old.project_id) then
+      return old;
+    end if;
+  elsif tg_op = 'INSERT' then
+    _row := new;
+    _type := 'idea_created';
+  else
+    _row := new;
+    _type := 'idea_updated';
+    if new.content  is distinct from old.content  then _changed := _changed || 'content'::text;  end if;
+    if new.details  is distinct from old.details  then _changed := _changed || 'details'::text;  end if;
+    if new.x        is distinct from old.x
+       or new.y     is distinct from old.y        then _changed := _changed || 'position'::text; end if;
+    if new.priority is distinct from old.priority then _changed := _changed || 'priority'::text; end if;
+    -- Locks, collapse state and timestamps are not history
+    if array_length(_changed, 1) is null then
+      return new;
+    end if;
+  end if;
+
+  -- Ideas outside a project (legacy rows) have nowhere to replay
+  if _row.project_id is null then
+    return coalesce(new, old);
+  end if;
+
+  insert into public.idea_revisions
+    (idea_id, project_id, activity_type, changed_by, content, details, x, y, priority, changed_fields)
+  values
+    (_row.id, _row.project_id, _type, auth.uid(), _row.content, _row.details, _row.x, _row.y, _row.priority, _changed);
+
+  return coalesce(new, old);
+end;
+$$;
+
+-- rollback:
+-- re-run record_idea_revision from 20261019020000_idea_revisions.sql
@@ -0,0 +1,217 @@
+-- Migration: 20261019160000
+-- Feature: votes cannot skip the voting scheme by moving
+--
+-- enforce_vote_scheme (20261019090000_voting_schemes.sql) ran on insert and
+-- weight changes only, and "change own vote" only checks the voter. A voter
+-- could update session_id or idea_id on their own vote and skip the budget,
+-- rank and one-dot-per-idea checks, e.g. bring votes from a finished session
+-- into a live one. The trigger now also runs when session_id, idea_id or
+-- user_id change: votes cannot move to another session or user, and a vote
+-- moved to another idea is checked like a new one.
+--
+-- merge_ideas moves votes by updating idea_id, so its moves now pass through
+-- the trigger too. They still pass: a moved vote keeps its weight and the
+-- user's spend does not change. Where a user voted for both the target and a
+-- source in the same session:
+--
+--   points, and dots with allow_multiple_votes
+--           their votes become one vote on the target with the total weight
+--   dots (one per idea), ranked, thumbs
+--           one vote is kept and the others are given back to spend again
+
+create or replace function public.enforce_vote_scheme()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _session public.brainstorm_sessions%rowtype;
+  _spent   integer;
+begin
+  select * into _session from public.brainstorm_sessions where id = new.session_id;
+  if not found then
+    raise exception 'enforce_vote_scheme: session % not found', new.session_id using errcode = 'P0002';
+  end if;
+
+  -- A vote can change idea (merges, or a voter moving it) but not session or voter
+  if tg_op = 'UPDATE' and (new.session_id <> old.session_id or new.user_id <> old.user_id) then
+    raise exception 'enforce_vote_scheme: votes cannot move to another session or user' using errcode = '22023';
+  end if;
+
+  -- One user's votes in a session are checked one at a time, so concurrent
+  -- casts cannot both spend the last dot
+  perform pg_advisory_xact_lock(hashtext(new.session_id::text || ':' || new.user_id::text));
+
+  if _session.voting_scheme = 'thumbs' then
+    if new.weight not in (-1, 1) then
+      raise exception 'enforce_vote_scheme: thumbs votes are +1 or -1' using errcode = '22023';
+    end if;
+
+  elsif _session.voting_scheme = 'ranked' then
+    if (select count(*) from public.idea_votes v
+        where v.session_id = new.session_id and v.user_id = new.user_id and v.id <> new.id) >= _session.vote_budget then
+      raise exception 'enforce_vote_scheme: vote budget exceeded' using errcode = '42501';
+    end if;
+    if new.weight < 1 or new.weight > _session.vote_budget then
+      raise exception 'enforce_vote_scheme: rank must be between 1 and %', _session.vote_budget using errcode = '22023';
+    end if;
+    if exists (select 1 from public.idea_votes v
+               where v.session_id = new.session_id and v.user_id = new.user_id
+                 and v.weight = new.weight and v.id <> new.id) then
+      raise exception 'enforce_vote_scheme: rank % is already used', new.weight using errcode = '22023';
+    end if;
+
+  else
+    if new.weight < 1 then
+      raise exception 'enforce_vote_scheme: votes must be positive' using errcode = '22023';
+    end if;
+    if _session.voting_scheme = 'dots' and not _session.allow_multiple_votes and new.weight > 1 then
+      raise exception 'enforce_vote_scheme: one dot per idea in this session' using errcode = '22023';
+    end if;
+    select coalesce(sum(v.weight), 0) into _spent
+    from public.idea_votes v
+    where v.session_id = new.session_id and v.user_id = new.user_id and v.id <> new.id;
+    if _spent + new.weight > _session.vote_budget then
+      raise exception 'enforce_vote_scheme: vote budget exceeded' using errcode = '42501';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_vote_scheme on public.idea_votes;
+create trigger enforce_vote_scheme
+  before insert or update of weight, session_id, idea_id, user_id on public.idea_votes
+  for each row execute function public.enforce_vote_scheme();
+
+create or replace function public.merge_ideas(
+  _target_id  text,
+  _source_ids text[],
+  _content    text,
+  _details    text default ''
+)
+returns public.ideas
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _caller       uuid := auth.uid();
+  _target       public.ideas%rowtype;
+  _source_count integer;
+  _creators     text[];
+  _merged       public.ideas%rowtype;
+  _pooled       jsonb;
+begin
+  if _caller is null then
+    raise exception 'merge_ideas: not authenticated' using errcode = '42501';
+  end if;
+
+  _source_ids := array(select distinct s from unnest(_source_ids) as s where s <> _target_id);
+  if coalesce(array_length(_source_ids, 1), 0) = 0 then
+    raise exception 'merge_ideas: no ideas to merge' using errcode = '22023';
+  end if;
+  if coalesce(btrim(_content), '') = '' then
+    raise exception 'merge_ideas: content is required' using errcode = '22023';
+  end if;
+
+  select * into _target from public.ideas where id = _target_id for update;
+  if not found then
+    raise exception 'merge_ideas: idea % not found', _target_id using errcode = 'P0002';
+  end if;
+
+  if not (
+    _caller = (select owner_id from public.projects where id = _target.project_id)
+    or is_admin()
+  ) then
+    raise exception 'merge_ideas: not allowed' using errcode = '42501';
+  end if;
+
+  -- Every source must exist and belong to the target's project
+  select count(*) into _source_count
+  from public.ideas
+  where id = any(_source_ids)
+    and project_id is not distinct from _target.project_id;
+
+  if _source_count <> array_length(_source_ids, 1) then
+    raise exception 'merge_ideas: ideas must exist in the same project' using errcode = '22023';
+  end if;
+
+  select array(
+    select distinct c
+    from public.ideas i, unnest(array[i.created_by] || i.contributors) as c
+    where i.id = any(_source_ids)
+      and c is not null
+  ) into _creators;
+
+  -- Where weights add up (points, and dots when several may go on one idea)
+  -- a user's votes on the merged ideas become one vote of their total weight,
+  -- so nothing they spent is lost. Spend does not change, so the budget holds.
+  select coalesce(jsonb_agg(jsonb_build_object('user_id', p.user_id, 'session_id', p.session_id, 'weight', p.weight)), '[]'::jsonb)
+  into _pooled
+  from (
+    select v.user_id, v.session_id, sum(v.weight) as weight
+    from public.idea_votes v
+    join public.brainstorm_sessions s on s.id = v.session_id
+    where (v.idea_id = _target_id or v.idea_id = any(_source_ids))
+      and (s.voting_scheme = 'points' or (s.voting_scheme = 'dots' and s.allow_multiple_votes))
+    group by v.user_id, v.session_id
+    having count(*) > 1
+  ) p;
+
+  -- A user keeps one vote per session on the target: an existing target
+  -- vote, otherwise their earliest source vote. Under other schemes the rest
+  -- are given back: the dot, rank or thumb can be cast again.
+  delete from public.idea_votes v
+  where v.idea_id = any(_source_ids)
+    and (
+      exists (select 1 from public.idea_votes t
+              where t.idea_id = _target_id and t.user_id = v.user_id and t.session_id = v.session_id)
+      or exists (select 1 from public.idea_votes o
+                 where o.idea_id = any(_source_ids) and o.user_id = v.user_id and o.session_id = v.session_id
+                   and (o.created_at, o.id) < (v.created_at, v.id))
+    );
+
+  update public.idea_votes
+  set idea_id = _target_id
+  where idea_id = any(_source_ids);
+
+  update public.idea_votes v
+  set weight = (p->>'weight')::integer
+  from jsonb_array_elements(_pooled) as p
+  where v.idea_id = _target_id
+    and v.user_id = (p->>'user_id')::uuid
+    and v.session_id = (p->>'session_id')::uuid;
+
+  update public.ideas
+  set
+    content      = btrim(_content),
+    details      = coalesce(_details, ''),
+    contributors = array(
+                     select distinct c
+                     from unnest(_target.contributors || _creators) as c
+                     where c is distinct from _target.created_by
+                   ),
+    updated_at   = now()
+  where id = _target_id
+  returning * into _merged;
+
+  delete from public.ideas where id = any(_source_ids);
+
+  if _merged.project_id is not null then
+    insert into public.idea_revisions
+      (idea_id, project_id, activity_type, changed_by, content, details, x, y, priority, merged_idea_ids)
+    values
+      (_merged.id, _merged.project_id, 'idea_merged', _caller, _merged.content, _merged.details,
+       _merged.x, _merged.y, _merged.priority, _source_ids);
+  end if;
+
+  return _merged;
+end;
+$$;
+
+-- rollback:
+-- re-run enforce_vote_scheme, its trigger and merge_ideas from
+-- 20261019090000_voting_schemes.sql
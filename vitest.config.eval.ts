@@ -0,0 +1,16 @@
+/// <reference types="vitest" />
+import { defineConfig } from 'vite'
+
+/**
+ * Offline AI eval harness (api/_lib/ai/evals)
+ *
+ * Replays recorded model responses through the AI handlers and compares two
+ * model profiles. Kept out of the regular test run; see ai.eval.ts.
+ */
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['api/_lib/ai/evals/**/*.eval.ts'],
+    testTimeout: 600000
+  }
+})